@@ -23,7 +23,7 @@
  * ```
  */
 
-import type { BillingProviderAdapter, CheckoutSession, PortalSession, Subscription } from '@unisane/kernel';
+import type { BillingProviderAdapter, CheckoutDiscount, CheckoutSession, PortalSession, Subscription } from '@unisane/kernel';
 import { CIRCUIT_BREAKER_DEFAULTS, ConfigurationError, tryGetScopeContext } from '@unisane/kernel';
 import { z } from 'zod';
 
@@ -188,6 +188,7 @@ export class RazorpayBillingAdapter implements BillingProviderAdapter {
     cancelUrl: string;
     mode?: 'subscription' | 'payment';
     metadata?: Record<string, string>;
+    offerId?: string;
   }): Promise<CheckoutSession> {
     if (args.mode === 'payment') {
       // Razorpay payment links require an explicit amount, but createCheckoutSession
@@ -209,6 +210,7 @@ export class RazorpayBillingAdapter implements BillingProviderAdapter {
       total_count: 1,
       quantity: args.quantity ?? 1,
       customer_notify: 1,
+      ...(args.offerId ? { offer_id: args.offerId } : {}),
       notes: {
         scopeId: args.scopeId,
         ...args.metadata,
@@ -237,6 +239,7 @@ export class RazorpayBillingAdapter implements BillingProviderAdapter {
     quantity?: number;
     successUrl: string;
     cancelUrl: string;
+    discount?: CheckoutDiscount;
   }): Promise<CheckoutSession> {
     const priceId = args.planId
       ? (this.mapPlanId?.(args.planId) ?? args.planId)
@@ -246,6 +249,12 @@ export class RazorpayBillingAdapter implements BillingProviderAdapter {
       throw new Error('Plan ID is required for Razorpay checkout');
     }
 
+    // Razorpay offers can only be created in the dashboard, so the discount
+    // must reference an existing offer
+    if (args.discount && !args.discount.providerRef) {
+      throw new Error(`Coupon ${args.discount.couponId} has no Razorpay offer id`);
+    }
+
     return this.createCheckoutSession({
       scopeId: args.scopeId,
       priceId,
@@ -253,6 +262,7 @@ export class RazorpayBillingAdapter implements BillingProviderAdapter {
       successUrl: args.successUrl,
       cancelUrl: args.cancelUrl,
       mode: 'subscription',
+      ...(args.discount ? { offerId: args.discount.providerRef, metadata: { couponId: args.discount.couponId } } : {}),
     });
   }
 
@@ -22,7 +22,7 @@
  * ```
  */
 
-import type { BillingProviderAdapter, CheckoutSession, PortalSession, Subscription } from '@unisane/kernel';
+import type { BillingProviderAdapter, CheckoutDiscount, CheckoutSession, PortalSession, Subscription } from '@unisane/kernel';
 import { CIRCUIT_BREAKER_DEFAULTS, ConfigurationError, logger, redis, tryGetScopeContext } from '@unisane/kernel';
 import { z } from 'zod';
 import { randomUUID } from 'node:crypto';
@@ -295,6 +295,8 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
     cancelUrl: string;
     mode?: 'subscription' | 'payment';
     metadata?: Record<string, string>;
+    couponId?: string;
+    meteredPriceIds?: string[];
   }): Promise<CheckoutSession> {
     // Note: customerId resolution happens here, which performs a request.
     // If ensureCustomerId fails, the circuit breaker will catch it if it bubbles up.
@@ -311,7 +313,13 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
       'metadata[scopeId]': args.scopeId,
     };
 
+    // Metered prices are billed from reported usage, so they take no quantity
+    (args.meteredPriceIds ?? []).forEach((price, i) => {
+      payload[`line_items[${i + 1}][price]`] = price;
+    });
+
     if (customerId) payload.customer = customerId;
+    if (args.couponId) payload['discounts[0][coupon]'] = args.couponId;
 
     // STR-006 FIX: Add custom metadata with validation
     if (args.metadata) {
@@ -369,12 +377,52 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
     return { id: session.id, url: session.url };
   }
 
+  /**
+   * Resolve the Stripe coupon for a discount, creating it under the billing
+   * coupon id on first use so later checkouts reuse it.
+   */
+  private async ensureCoupon(discount: CheckoutDiscount): Promise<string> {
+    if (discount.providerRef) return discount.providerRef;
+
+    const body: Record<string, string> = {
+      id: discount.couponId,
+      name: discount.name.slice(0, 40),
+      duration: discount.duration,
+      'metadata[couponId]': discount.couponId,
+    };
+    if (discount.percentOff !== undefined) {
+      body.percent_off = String(discount.percentOff);
+    } else if (discount.amountOff) {
+      body.amount_off = discount.amountOff.amountMinorStr;
+      body.currency = discount.amountOff.currency.toLowerCase();
+    } else {
+      throw new Error('Discount needs percentOff or amountOff');
+    }
+    if (discount.duration === 'repeating' && discount.durationInMonths) {
+      body.duration_in_months = String(discount.durationInMonths);
+    }
+
+    try {
+      await this.stripeRequest('/v1/coupons', {
+        method: 'POST',
+        body,
+        idempotencyKey: `coupon:create:${discount.couponId}`,
+      });
+    } catch (e) {
+      // Created by an earlier checkout
+      if (!/already exists/i.test((e as Error)?.message ?? '')) throw e;
+    }
+    return discount.couponId;
+  }
+
   async createCheckout(args: {
     scopeId: string;
     planId?: string;
     quantity?: number;
     successUrl: string;
     cancelUrl: string;
+    discount?: CheckoutDiscount;
+    meteredPriceIds?: string[];
   }): Promise<CheckoutSession> {
     const priceId = args.planId
       ? (this.mapPlanId?.(args.planId) ?? args.planId)
@@ -384,6 +432,9 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
       throw new Error('Plan ID is required for Stripe checkout');
     }
 
+    const { discount } = args;
+    const couponId = discount ? await this.ensureCoupon(discount) : undefined;
+
     return this.createCheckoutSession({
       scopeId: args.scopeId,
       priceId,
@@ -391,6 +442,9 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
       successUrl: args.successUrl,
       cancelUrl: args.cancelUrl,
       mode: 'subscription',
+      // The billing coupon id comes back on checkout.session.completed to confirm the redemption
+      ...(discount && couponId ? { couponId, metadata: { couponId: discount.couponId } } : {}),
+      ...(args.meteredPriceIds?.length ? { meteredPriceIds: args.meteredPriceIds } : {}),
     });
   }
 
@@ -622,6 +676,36 @@ export class StripeBillingAdapter implements BillingProviderAdapter {
       idempotencyKey: idem,
     });
   }
+
+  async reportUsage(args: {
+    providerSubId: string;
+    priceId: string;
+    quantity: number;
+    timestamp: Date;
+  }): Promise<void> {
+    const sub = await this.stripeRequest<{
+      items?: { data?: Array<{ id?: string; price?: { id?: string } }> };
+    }>(`/v1/subscriptions/${encodeURIComponent(args.providerSubId)}`, {
+      method: 'GET',
+    });
+    const itemId = sub?.items?.data?.find((item) => item.price?.id === args.priceId)?.id;
+    if (!itemId) {
+      throw new Error(`Stripe subscription ${args.providerSubId} has no item for price ${args.priceId}`);
+    }
+
+    const timestamp = Math.floor(args.timestamp.getTime() / 1000);
+    // `set` replaces the record at this timestamp; callers report the period
+    // total at the period start, so sum-aggregated prices count it once
+    await this.stripeRequest(`/v1/subscription_items/${encodeURIComponent(itemId)}/usage_records`, {
+      method: 'POST',
+      body: {
+        quantity: String(Math.max(0, Math.trunc(args.quantity))),
+        timestamp: String(timestamp),
+        action: 'set',
+      },
+      idempotencyKey: `usage:${itemId}:${timestamp}:${args.quantity}`,
+    });
+  }
 }
 
 /**
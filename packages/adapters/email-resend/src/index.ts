@@ -65,6 +65,13 @@ export class ResendEmailAdapter implements EmailProvider {
         ...(message.html && { html: message.html }),
         ...(message.replyTo && { replyTo: message.replyTo }),
         ...(message.headers && { headers: message.headers }),
+        ...(message.attachments?.length && {
+          attachments: message.attachments.map((a) => ({
+            filename: a.filename,
+            content: a.content,
+            ...(a.contentType && { contentType: a.contentType }),
+          })),
+        }),
       });
 
       if (result.error) {
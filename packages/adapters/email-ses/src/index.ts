@@ -79,6 +79,16 @@ export class SESEmailAdapter implements EmailProvider {
             Html: message.html ? { Data: message.html } : undefined,
             Text: message.text ? { Data: message.text } : undefined,
           },
+          ...(message.attachments?.length
+            ? {
+                Attachments: message.attachments.map((a) => ({
+                  FileName: a.filename,
+                  RawContent: typeof a.content === 'string' ? Buffer.from(a.content) : new Uint8Array(a.content),
+                  ContentType: a.contentType ?? 'application/octet-stream',
+                  ContentDisposition: 'ATTACHMENT' as const,
+                })),
+              }
+            : {}),
         },
       },
       ...(message.replyTo ? { ReplyToAddresses: [message.replyTo] } : {}),
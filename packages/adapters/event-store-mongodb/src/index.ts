@@ -4,6 +4,10 @@
  * Implements the EventStorePort interface using MongoDB for persistence.
  * Provides append-only event storage for audit trails and event sourcing.
  *
+ * Also provides MongoDB-backed stores for projection checkpoints
+ * (ProjectionCheckpointStorePort) and aggregate snapshots
+ * (SnapshotStorePort).
+ *
  * ## Required Indexes
  *
  * For optimal performance, create these indexes on your event store collection:
@@ -27,6 +31,16 @@
  *   { name: 'events_aggregate_idx' }
  * );
  *
+ * // One event per aggregate version (rejects concurrent appends)
+ * db._events.createIndex(
+ *   { aggregateType: 1, aggregateId: 1, aggregateVersion: 1 },
+ *   {
+ *     name: 'events_aggregate_version_unique',
+ *     unique: true,
+ *     partialFilterExpression: { aggregateVersion: { $exists: true } },
+ *   }
+ * );
+ *
  * // Index for correlation queries (tracing)
  * db._events.createIndex(
  *   { 'meta.correlationId': 1 },
@@ -58,12 +72,18 @@
  */
 
 import type { Collection, Document } from 'mongodb';
+import { isDuplicateKeyError } from '@unisane/kernel';
 import type {
+  AggregateSnapshot,
+  SnapshotStorePort,
   EventStorePort,
   StoredEvent,
   EventStoreQueryOptions,
   ReplayOptions,
   DomainEvent,
+  ProjectionCheckpoint,
+  ProjectionCheckpointStorePort,
+  ProjectionError,
 } from '@unisane/kernel';
 
 /**
@@ -96,6 +116,33 @@ interface EventDocument {
   storedAt: Date;
 }
 
+/**
+ * MongoDB document shape for projection checkpoints.
+ */
+interface CheckpointDocument {
+  /** Projection name */
+  _id: string;
+  position: number;
+  version: number;
+  updatedAt: Date;
+  rebuiltAt: Date | null;
+  lastError: ProjectionError | null;
+}
+
+/**
+ * MongoDB document shape for aggregate snapshots.
+ */
+interface SnapshotDocument {
+  /** `<aggregateType>:<aggregateId>` */
+  _id: string;
+  aggregateId: string;
+  aggregateType: string;
+  version: number;
+  schemaVersion: number;
+  state: unknown;
+  createdAt: Date;
+}
+
 /**
  * Configuration for the MongoDB event store adapter.
  */
@@ -289,13 +336,17 @@ export function createMongoEventStoreAdapter(
 
     async getByAggregateId<T = unknown>(
       aggregateId: string,
-      options?: { fromVersion?: number; toVersion?: number }
+      options?: { aggregateType?: string; fromVersion?: number; toVersion?: number }
     ): Promise<StoredEvent<T>[]> {
       const filter: Document = {
         aggregateId,
         _id: { $ne: '__sequence_counter__' },
       };
 
+      if (options?.aggregateType) {
+        filter.aggregateType = options.aggregateType;
+      }
+
       if (options?.fromVersion !== undefined || options?.toVersion !== undefined) {
         filter.aggregateVersion = {};
         if (options?.fromVersion !== undefined) {
@@ -397,10 +448,145 @@ export function createMongoEventStoreAdapter(
   };
 }
 
+/**
+ * Configuration for the MongoDB projection checkpoint store.
+ */
+export interface MongoProjectionCheckpointStoreConfig {
+  /**
+   * Function that returns the MongoDB collection for checkpoints.
+   * This allows lazy initialization after database connection.
+   */
+  collection: () => Collection<CheckpointDocument>;
+}
+
+/**
+ * Create a ProjectionCheckpointStorePort using MongoDB.
+ * Checkpoints are keyed by projection name.
+ *
+ * @example
+ * ```typescript
+ * import { createMongoProjectionCheckpointStore } from '@unisane/event-store-mongodb';
+ * import { setProjectionCheckpointStore } from '@unisane/kernel';
+ *
+ * setProjectionCheckpointStore(createMongoProjectionCheckpointStore({
+ *   collection: () => db().collection('_projections'),
+ * }));
+ * ```
+ */
+export function createMongoProjectionCheckpointStore(
+  config: MongoProjectionCheckpointStoreConfig
+): ProjectionCheckpointStorePort {
+  const col = () => config.collection();
+
+  function toCheckpoint(doc: CheckpointDocument): ProjectionCheckpoint {
+    return {
+      name: doc._id,
+      position: doc.position,
+      version: doc.version,
+      updatedAt: doc.updatedAt,
+      rebuiltAt: doc.rebuiltAt ?? null,
+      lastError: doc.lastError ?? null,
+    };
+  }
+
+  return {
+    async get(name: string): Promise<ProjectionCheckpoint | null> {
+      const doc = await col().findOne({ _id: name } as Document);
+      return doc ? toCheckpoint(doc as CheckpointDocument) : null;
+    },
+
+    async list(): Promise<ProjectionCheckpoint[]> {
+      const docs = await col().find({}).sort({ _id: 1 }).toArray();
+      return docs.map((doc) => toCheckpoint(doc as CheckpointDocument));
+    },
+
+    async save(checkpoint: ProjectionCheckpoint): Promise<void> {
+      const { name, ...fields } = checkpoint;
+      await col().replaceOne({ _id: name } as Document, fields, { upsert: true });
+    },
+  };
+}
+
+/**
+ * Configuration for the MongoDB snapshot store.
+ */
+export interface MongoSnapshotStoreConfig {
+  /**
+   * Function that returns the MongoDB collection for snapshots.
+   * This allows lazy initialization after database connection.
+   */
+  collection: () => Collection<SnapshotDocument>;
+}
+
+/**
+ * Create a SnapshotStorePort using MongoDB.
+ *
+ * Keeps the latest snapshot per aggregate. A save only replaces a
+ * snapshot of an older version or of another schema version, so
+ * concurrent loads cannot move a snapshot backwards.
+ *
+ * @example
+ * ```typescript
+ * import { createMongoSnapshotStore } from '@unisane/event-store-mongodb';
+ * import { setSnapshotStoreProvider } from '@unisane/kernel';
+ *
+ * setSnapshotStoreProvider(createMongoSnapshotStore({
+ *   collection: () => db().collection('_snapshots'),
+ * }));
+ * ```
+ */
+export function createMongoSnapshotStore(config: MongoSnapshotStoreConfig): SnapshotStorePort {
+  const col = () => config.collection();
+  const key = (aggregateType: string, aggregateId: string) => `${aggregateType}:${aggregateId}`;
+
+  return {
+    async get<TState>(aggregateType: string, aggregateId: string): Promise<AggregateSnapshot<TState> | null> {
+      const doc = await col().findOne({ _id: key(aggregateType, aggregateId) } as Document);
+      if (!doc) return null;
+      const snapshot = doc as SnapshotDocument;
+      return {
+        aggregateId: snapshot.aggregateId,
+        aggregateType: snapshot.aggregateType,
+        version: snapshot.version,
+        schemaVersion: snapshot.schemaVersion,
+        state: snapshot.state as TState,
+        createdAt: snapshot.createdAt,
+      };
+    },
+
+    async save<TState>(snapshot: AggregateSnapshot<TState>): Promise<void> {
+      try {
+        await col().replaceOne(
+          {
+            _id: key(snapshot.aggregateType, snapshot.aggregateId),
+            $or: [{ version: { $lt: snapshot.version } }, { schemaVersion: { $ne: snapshot.schemaVersion } }],
+          } as Document,
+          snapshot,
+          { upsert: true }
+        );
+      } catch (error) {
+        // A snapshot at the same or a newer version is already stored
+        if (isDuplicateKeyError(error)) {
+          return;
+        }
+        throw error;
+      }
+    },
+
+    async delete(aggregateType: string, aggregateId: string): Promise<void> {
+      await col().deleteOne({ _id: key(aggregateType, aggregateId) } as Document);
+    },
+  };
+}
+
 // Re-export types for convenience
 export type {
   EventStorePort,
   StoredEvent,
   EventStoreQueryOptions,
   ReplayOptions,
+  ProjectionCheckpoint,
+  ProjectionCheckpointStorePort,
+  AggregateSnapshot,
+  SnapshotStorePort,
 } from '@unisane/kernel';
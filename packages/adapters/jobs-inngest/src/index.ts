@@ -41,10 +41,16 @@ const ZJobEvent = z.object({
   data: z.record(z.unknown()).default({}),
 });
 
+/**
+ * Event shape accepted by Inngest's `send`. `id` deduplicates events and a
+ * future `ts` delays them.
+ */
+type InngestEvent = { name: string; data: Record<string, unknown>; id?: string; ts?: number };
+
 /**
  * ING-001 FIX: Validate and sanitize a job event before sending.
  */
-function validateJobEvent(event: JobEvent<unknown>): { name: string; data: Record<string, unknown> } {
+function validateJobEvent(event: JobEvent<unknown>): InngestEvent {
   const result = ZJobEvent.safeParse(event);
   if (!result.success) {
     throw new Error(`Invalid job event: ${result.error.message}`);
@@ -52,6 +58,8 @@ function validateJobEvent(event: JobEvent<unknown>): { name: string; data: Recor
   return {
     name: result.data.name,
     data: result.data.data,
+    ...(event.uniqueKey ? { id: event.uniqueKey } : {}),
+    ...(event.runAt ? { ts: event.runAt.getTime() } : {}),
   };
 }
 
@@ -60,9 +68,7 @@ function validateJobEvent(event: JobEvent<unknown>): { name: string; data: Recor
  * This allows type-safe usage without depending on specific Inngest generics.
  */
 export interface InngestLike {
-  send(
-    event: { name: string; data: Record<string, unknown> } | Array<{ name: string; data: Record<string, unknown> }>
-  ): Promise<{ ids?: string[] }>;
+  send(event: InngestEvent | InngestEvent[]): Promise<{ ids?: string[] }>;
 }
 
 /**
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMongoJobsDLQAdapter, type MongoJobsWorkerConfig } from '../index';
+import { createMemoryCollection } from './memory-collection';
+
+type JobsCollection = ReturnType<MongoJobsWorkerConfig['collection']>;
+
+describe('createMongoJobsDLQAdapter', () => {
+  let memory: ReturnType<typeof createMemoryCollection>;
+  let dlq: ReturnType<typeof createMongoJobsDLQAdapter>;
+
+  beforeEach(() => {
+    memory = createMemoryCollection();
+    dlq = createMongoJobsDLQAdapter({ collection: () => memory.collection as unknown as JobsCollection });
+  });
+
+  async function addJob(name: string, status: string, failedMinutesAgo: number, tenantId: string | null = 't_1') {
+    const failedAt = new Date(Date.now() - failedMinutesAgo * 60000);
+    const { insertedId } = await memory.collection.insertOne({
+      name,
+      data: { n: failedMinutesAgo },
+      status,
+      attempts: 4,
+      runAt: failedAt,
+      tenantId,
+      lastError: status === 'dead' ? `${name} failed` : null,
+      createdAt: failedAt,
+      updatedAt: failedAt,
+      ...(status === 'dead' ? { failedAt } : {}),
+    });
+    return String(insertedId);
+  }
+
+  it('lists dead jobs newest first with cursor pagination and filters', async () => {
+    const oldest = await addJob('invoice.sync', 'dead', 30);
+    const middle = await addJob('export.requested', 'dead', 20, 't_2');
+    const newest = await addJob('invoice.sync', 'dead', 10);
+    await addJob('invoice.sync', 'queued', 5);
+
+    const first = await dlq.list({ limit: 2 });
+    expect(first.items.map((item) => item.id)).toEqual([newest, middle]);
+    expect(first.items[0]).toMatchObject({
+      type: 'invoice.sync',
+      payload: { n: 10 },
+      attempts: 4,
+      lastError: 'invoice.sync failed',
+      meta: { source: 'jobs', scopeType: 'tenant', scopeId: 't_1' },
+    });
+
+    const second = await dlq.list({ limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map((item) => item.id)).toEqual([oldest]);
+    expect(second.nextCursor).toBeNull();
+
+    expect((await dlq.list({ type: 'invoice.sync' })).items).toHaveLength(2);
+    expect((await dlq.list({ scopeId: 't_2' })).items.map((item) => item.id)).toEqual([middle]);
+    expect((await dlq.list({ errorPattern: '^EXPORT' })).items.map((item) => item.id)).toEqual([middle]);
+    expect(await dlq.count({ type: 'invoice.sync' })).toBe(2);
+    expect(await dlq.getById(newest)).toMatchObject({ id: newest });
+  });
+
+  it('requeues dead jobs with a fresh attempt count', async () => {
+    const dead = await addJob('invoice.sync', 'dead', 10);
+    const queued = await addJob('invoice.sync', 'queued', 5);
+
+    expect(await dlq.retry(dead)).toBe(true);
+    expect(memory.docs[0]).toMatchObject({ status: 'queued', attempts: 0, lastError: null });
+    expect(memory.docs[0]).not.toHaveProperty('failedAt');
+    expect(await dlq.getById(dead)).toBeNull();
+
+    expect(await dlq.retryBatch([dead, queued])).toEqual({
+      succeeded: [],
+      failed: [
+        { id: dead, error: 'Not found or not in dead status' },
+        { id: queued, error: 'Not found or not in dead status' },
+      ],
+    });
+  });
+
+  it('purges only dead jobs', async () => {
+    const a = await addJob('invoice.sync', 'dead', 30);
+    const b = await addJob('invoice.sync', 'dead', 20);
+    const c = await addJob('invoice.sync', 'dead', 10);
+    const queued = await addJob('invoice.sync', 'queued', 5);
+
+    expect(await dlq.purge(a)).toBe(true);
+    expect(await dlq.purge(queued)).toBe(false);
+    expect(await dlq.purgeBatch([b, c, queued])).toBe(2);
+    expect(memory.docs.map((doc) => String(doc._id))).toEqual([queued]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * In-memory stand-in for the MongoDB collection, covering the queries and
+ * update operators the jobs adapter uses.
+ */
+import { ObjectId, type Collection, type Document } from 'mongodb';
+
+type Doc = Record<string, unknown>;
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof ObjectId) return value.toHexString();
+  return value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+  const x = comparable(a) as number | string;
+  const y = comparable(b) as number | string;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  const isOperatorObject =
+    condition !== null &&
+    typeof condition === 'object' &&
+    !(condition instanceof Date) &&
+    !(condition instanceof ObjectId) &&
+    Object.keys(condition).every((key) => key.startsWith('$'));
+  if (!isOperatorObject) return equals(value, condition);
+
+  const ops = condition as Record<string, unknown>;
+  return Object.entries(ops).every(([op, arg]) => {
+    switch (op) {
+      case '$in':
+        return (arg as unknown[]).some((v) => equals(value, v));
+      case '$nin':
+        return !(arg as unknown[]).some((v) => equals(value, v));
+      case '$ne':
+        return !equals(value, arg);
+      case '$exists':
+        return (value !== undefined) === arg;
+      case '$lt':
+        return value !== undefined && compare(value, arg) < 0;
+      case '$lte':
+        return value !== undefined && compare(value, arg) <= 0;
+      case '$gt':
+        return value !== undefined && compare(value, arg) > 0;
+      case '$regex':
+        return typeof value === 'string' && new RegExp(arg as string, (ops.$options as string) ?? '').test(value);
+      case '$options':
+        return true;
+      default:
+        throw new Error(`Unsupported operator ${op}`);
+    }
+  });
+}
+
+function matches(doc: Doc, filter: Document): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as Document[]).some((sub) => matches(doc, sub));
+    return matchesCondition(doc[key], condition);
+  });
+}
+
+function applyUpdate(doc: Doc, update: Document): void {
+  for (const [key, value] of Object.entries((update.$set ?? {}) as Doc)) doc[key] = value;
+  for (const key of Object.keys((update.$unset ?? {}) as Doc)) delete doc[key];
+  for (const [key, by] of Object.entries((update.$inc ?? {}) as Record<string, number>)) {
+    doc[key] = ((doc[key] as number | undefined) ?? 0) + by;
+  }
+}
+
+function sortDocs(docs: Doc[], spec: Record<string, 1 | -1>): Doc[] {
+  return [...docs].sort((a, b) => {
+    for (const [key, dir] of Object.entries(spec)) {
+      const order = compare(a[key], b[key]);
+      if (order !== 0) return order * dir;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Create a collection backed by an array. `docs` exposes the stored
+ * documents for assertions.
+ */
+export function createMemoryCollection() {
+  const docs: Doc[] = [];
+  const find = (filter: Document) => docs.filter((doc) => matches(doc, filter));
+
+  const collection = {
+    async insertOne(doc: Doc) {
+      if (doc.uniqueKey !== undefined && docs.some((d) => d.uniqueKey === doc.uniqueKey)) {
+        throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      }
+      const stored = { _id: new ObjectId(), ...doc };
+      docs.push(stored);
+      return { insertedId: stored._id };
+    },
+
+    async findOne(filter: Document) {
+      return find(filter)[0] ?? null;
+    },
+
+    async findOneAndUpdate(
+      filter: Document,
+      update: Document,
+      options: { sort?: Record<string, 1 | -1>; returnDocument?: 'before' | 'after' } = {}
+    ) {
+      const [doc] = sortDocs(find(filter), options.sort ?? {});
+      if (!doc) return null;
+      const before = { ...doc };
+      applyUpdate(doc, update);
+      return options.returnDocument === 'after' ? { ...doc } : before;
+    },
+
+    async updateOne(filter: Document, update: Document) {
+      const [doc] = find(filter);
+      if (doc) applyUpdate(doc, update);
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    },
+
+    async countDocuments(filter: Document = {}) {
+      return find(filter).length;
+    },
+
+    find(filter: Document = {}) {
+      let spec: Record<string, 1 | -1> = {};
+      let max = Infinity;
+      const cursor = {
+        sort(s: Record<string, 1 | -1>) {
+          spec = s;
+          return cursor;
+        },
+        limit(n: number) {
+          max = n;
+          return cursor;
+        },
+        async toArray() {
+          return sortDocs(find(filter), spec).slice(0, max);
+        },
+      };
+      return cursor;
+    },
+
+    async deleteOne(filter: Document) {
+      const [doc] = find(filter);
+      if (doc) docs.splice(docs.indexOf(doc), 1);
+      return { deletedCount: doc ? 1 : 0 };
+    },
+
+    async deleteMany(filter: Document) {
+      const matched = find(filter);
+      for (const doc of matched) docs.splice(docs.indexOf(doc), 1);
+      return { deletedCount: matched.length };
+    },
+  };
+
+  return { collection: collection as unknown as Collection, docs };
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMongoJobsAdapter, createMongoJobsWorker, type MongoJobsWorkerConfig } from '../index';
+import { createMemoryCollection } from './memory-collection';
+
+type JobsCollection = ReturnType<MongoJobsWorkerConfig['collection']>;
+
+const SECOND = 1000;
+
+describe('MongoDB jobs', () => {
+  let memory: ReturnType<typeof createMemoryCollection>;
+  let collection: () => JobsCollection;
+
+  beforeEach(() => {
+    memory = createMemoryCollection();
+    collection = () => memory.collection as unknown as JobsCollection;
+  });
+
+  function createWorker(overrides: Partial<MongoJobsWorkerConfig> = {}) {
+    return createMongoJobsWorker({ collection, workerId: 'w1', baseRetryDelay: SECOND, ...overrides });
+  }
+
+  it('claims a job, runs it and marks it completed', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const handler = vi.fn(async () => {});
+    const worker = createWorker();
+    worker.register('export.requested', handler);
+
+    const { id } = await queue.send({ name: 'export.requested', data: { exportId: 'e_1' }, tenantId: 't_1' });
+
+    expect(await worker.processBatch()).toBe(1);
+    expect(handler).toHaveBeenCalledWith(
+      { exportId: 'e_1' },
+      expect.objectContaining({ id, name: 'export.requested', attempt: 1, tenantId: 't_1' })
+    );
+    expect(memory.docs[0]).toMatchObject({ status: 'completed', attempts: 1, lastError: null });
+    expect(memory.docs[0]).not.toHaveProperty('lockedBy');
+    expect(await worker.processBatch()).toBe(0);
+  });
+
+  it('retries failed jobs with exponential backoff', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const handler = vi.fn().mockRejectedValueOnce(new Error('provider down')).mockResolvedValue(undefined);
+    const worker = createWorker();
+    worker.register('invoice.sync', handler);
+    await queue.send({ name: 'invoice.sync', data: {} });
+
+    const before = Date.now();
+    expect(await worker.processBatch()).toBe(1);
+    const [job] = memory.docs;
+    expect(job).toMatchObject({ status: 'queued', attempts: 1, lastError: 'provider down' });
+    // First retry after the base delay, ±10% jitter
+    const delay = (job!.runAt as Date).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(0.9 * SECOND - 50);
+    expect(delay).toBeLessThanOrEqual(1.1 * SECOND + 50);
+
+    expect(await worker.processBatch()).toBe(0);
+    expect(await worker.processBatch(new Date(before + 2 * SECOND))).toBe(1);
+    expect(handler).toHaveBeenLastCalledWith({}, expect.objectContaining({ attempt: 2 }));
+    expect(job).toMatchObject({ status: 'completed', attempts: 2, lastError: null });
+  });
+
+  it('marks jobs dead once their retries are exhausted', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const onDead = vi.fn(async () => {});
+    const worker = createWorker({ onDead });
+    worker.register('invoice.sync', async () => { throw new Error('bad payload'); }, { retries: 1 });
+    const { id } = await queue.send({ name: 'invoice.sync', data: {}, tenantId: 't_1', uniqueKey: 'invoice:1' });
+
+    await worker.processBatch();
+    await worker.processBatch(new Date(Date.now() + 2 * SECOND));
+
+    expect(memory.docs[0]).toMatchObject({ status: 'dead', attempts: 2, lastError: 'bad payload' });
+    expect(memory.docs[0]?.failedAt).toBeInstanceOf(Date);
+    expect(memory.docs[0]).not.toHaveProperty('uniqueKey');
+    expect(onDead).toHaveBeenCalledWith({ id, name: 'invoice.sync', tenantId: 't_1' }, expect.any(Error));
+    expect(await worker.processBatch(new Date(Date.now() + 60 * SECOND))).toBe(0);
+  });
+
+  it('keeps a timed-out job locked until its handler returns', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    let release: (() => void) | undefined;
+    const handler = vi.fn(
+      // The first attempt ignores its abort signal
+      () => (release ? Promise.resolve() : new Promise<void>((resolve) => { release = resolve; }))
+    );
+    const a = createWorker({ workerId: 'a', concurrency: 1 });
+    const b = createWorker({ workerId: 'b' });
+    for (const worker of [a, b]) {
+      worker.register('import.run', handler, { timeoutMs: 20 });
+    }
+    await queue.send({ name: 'import.run', data: {} });
+    await queue.send({ name: 'import.run', data: {} });
+
+    const stuck = a.processBatch();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    // Past its timeout the job is still locked and holds a's only slot
+    expect(memory.docs[0]).toMatchObject({ status: 'running', lockedBy: 'a' });
+    expect((memory.docs[0]!.lockedUntil as Date).getTime()).toBeGreaterThan(Date.now());
+    expect(await a.processBatch()).toBe(0);
+    // b only gets the other job
+    expect(await b.processBatch()).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    release!();
+    expect(await stuck).toBe(1);
+    expect(memory.docs[0]).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      lastError: "Job 'import.run' timed out after 20ms",
+    });
+    expect(memory.docs[0]).not.toHaveProperty('lockedBy');
+  });
+
+  it('deduplicates pending jobs by uniqueKey', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const worker = createWorker();
+    worker.register('report.build', async () => {});
+
+    const first = await queue.send({ name: 'report.build', data: {}, uniqueKey: 'report:t_1' });
+    const second = await queue.send({ name: 'report.build', data: {}, uniqueKey: 'report:t_1' });
+    expect(second.id).toBe(first.id);
+    expect(await queue.sendBatch([{ name: 'report.build', data: {}, uniqueKey: 'report:t_1' }])).toEqual({ ids: [first.id] });
+    expect(memory.docs).toHaveLength(1);
+
+    // The key is released once the job has run
+    await worker.processBatch();
+    const third = await queue.send({ name: 'report.build', data: {}, uniqueKey: 'report:t_1' });
+    expect(third.id).not.toBe(first.id);
+    expect(memory.docs).toHaveLength(2);
+  });
+
+  it('holds delayed jobs until their runAt', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const handler = vi.fn(async () => {});
+    const worker = createWorker();
+    worker.register('trial.ending', handler);
+    const runAt = new Date(Date.now() + 60 * SECOND);
+    await queue.send({ name: 'trial.ending', data: {}, runAt });
+
+    expect(await worker.processBatch()).toBe(0);
+    expect(await worker.processBatch(runAt)).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('reclaims running jobs whose lock expired', async () => {
+    const now = new Date();
+    const stale = {
+      data: {},
+      status: 'running',
+      runAt: new Date(now.getTime() - 120 * SECOND),
+      tenantId: null,
+      lockedBy: 'crashed-worker',
+      lockedUntil: new Date(now.getTime() - SECOND),
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await memory.collection.insertOne({ ...stale, name: 'export.requested', attempts: 1 });
+    await memory.collection.insertOne({ ...stale, name: 'export.crashing', attempts: 2, lastError: 'out of memory' });
+    await memory.collection.insertOne({
+      ...stale,
+      name: 'export.requested',
+      attempts: 1,
+      lockedBy: 'live-worker',
+      lockedUntil: new Date(now.getTime() + 60 * SECOND),
+    });
+
+    const handler = vi.fn(async () => {});
+    const worker = createWorker();
+    worker.register('export.requested', handler);
+    worker.register('export.crashing', handler, { retries: 0 });
+
+    expect(await worker.processBatch(now)).toBe(2);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({}, expect.objectContaining({ attempt: 2 }));
+    expect(memory.docs.map((doc) => doc.status)).toEqual(['completed', 'dead', 'running']);
+    // Lost attempts past the retry limit are not run again
+    expect(memory.docs[1]).toMatchObject({ lastError: 'out of memory' });
+  });
+
+  it('takes one job per tenant per claim round', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    const tenants: Array<string | null> = [];
+    const worker = createWorker({ concurrency: 3 });
+    worker.register('usage.rollup', async (_data, ctx) => { tenants.push(ctx.tenantId); });
+
+    for (let i = 0; i < 4; i++) {
+      await queue.send({ name: 'usage.rollup', data: {}, tenantId: 't_busy', runAt: new Date(Date.now() - 10 * SECOND) });
+    }
+    await queue.send({ name: 'usage.rollup', data: {}, tenantId: 't_quiet' });
+    await queue.send({ name: 'usage.rollup', data: {} });
+
+    expect(await worker.processBatch()).toBe(3);
+    expect(tenants.sort()).toEqual([null, 't_busy', 't_quiet'].sort());
+
+    // Only the busy tenant has work left; it gets a job per round
+    expect(await worker.processBatch()).toBe(3);
+    expect(await worker.processBatch()).toBe(0);
+  });
+
+  it('enforces per-name concurrency across workers', async () => {
+    const queue = createMongoJobsAdapter({ collection });
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => { release = resolve; });
+    const a = createWorker({ workerId: 'a' });
+    const b = createWorker({ workerId: 'b' });
+    for (const worker of [a, b]) {
+      worker.register('import.run', () => blocked, { concurrency: 1 });
+    }
+    await queue.send({ name: 'import.run', data: {} });
+    await queue.send({ name: 'import.run', data: {} });
+
+    const running = a.processBatch();
+    await vi.waitFor(() => expect(memory.docs.filter((doc) => doc.status === 'running')).toHaveLength(1));
+    expect(await b.processBatch()).toBe(0);
+
+    // A worker whose pre-claim count missed the other's job hands its claim back
+    vi.spyOn(memory.collection, 'countDocuments').mockResolvedValueOnce(0);
+    expect(await b.processBatch()).toBe(0);
+    expect(memory.docs[1]).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(memory.docs[1]).not.toHaveProperty('lockedBy');
+
+    release();
+    expect(await running).toBe(1);
+    expect(await b.processBatch()).toBe(1);
+  });
+});
@@ -0,0 +1,1012 @@
+/**
+ * MongoDB Jobs Adapter
+ *
+ * Self-hosted background jobs: implements the JobsPort interface with a
+ * MongoDB-backed queue and provides a worker that runs registered handlers
+ * in-process. No external job service is needed.
+ *
+ * Features:
+ * - Delayed jobs (`runAt`) and deduplication (`uniqueKey`)
+ * - Retries with exponential backoff and jitter
+ * - Concurrency limits per worker and per job name (across all workers: a
+ *   claim is verified against the running count and handed back when two
+ *   workers race for the last slot)
+ * - Per-tenant fairness: each claim round takes at most one job per tenant
+ * - Crash safety: a job whose worker stopped heartbeating is claimed again
+ * - Timeouts: a handler that ignores its abort signal keeps the job locked
+ *   and its slot taken until it returns, so its retry never overlaps it
+ * - Jobs that exhaust their retries are kept as `dead` and exposed through
+ *   the kernel DLQ (`createMongoJobsDLQAdapter`)
+ *
+ * ## Required Indexes
+ *
+ * ```javascript
+ * // Claim index (used by the worker on every poll)
+ * db._jobs.createIndex(
+ *   { status: 1, runAt: 1 },
+ *   { name: 'jobs_claim_idx' }
+ * );
+ *
+ * // Deduplication: one pending job per uniqueKey (the key is cleared when the job ends)
+ * db._jobs.createIndex(
+ *   { uniqueKey: 1 },
+ *   { name: 'jobs_unique_idx', unique: true, partialFilterExpression: { uniqueKey: { $exists: true } } }
+ * );
+ *
+ * // Per-name concurrency checks (counted before and after every claim)
+ * db._jobs.createIndex(
+ *   { name: 1, status: 1, lockedUntil: 1 },
+ *   { name: 'jobs_running_idx' }
+ * );
+ *
+ * // Optional: TTL index to remove completed jobs after 7 days
+ * db._jobs.createIndex(
+ *   { completedAt: 1 },
+ *   { name: 'jobs_ttl_idx', expireAfterSeconds: 604800, partialFilterExpression: { status: 'completed' } }
+ * );
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { createMongoJobsAdapter, createMongoJobsWorker } from '@unisane/jobs-mongodb';
+ * import { setJobsProvider, sendJob } from '@unisane/kernel';
+ *
+ * const collection = () => db().collection('_jobs');
+ * setJobsProvider(createMongoJobsAdapter({ collection }));
+ *
+ * const worker = createMongoJobsWorker({ collection, concurrency: 10 });
+ * worker.register('app/export.requested', async (data, ctx) => {
+ *   await runExport(data.jobId);
+ * }, { retries: 5, concurrency: 2 });
+ * worker.start();
+ *
+ * await sendJob({ name: 'app/export.requested', data: { jobId: '123' }, tenantId: 'tenant_1' });
+ *
+ * // On shutdown
+ * await worker.stop();
+ * ```
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ObjectId, type Collection, type Document } from 'mongodb';
+import { isDuplicateKeyError, logger } from '@unisane/kernel';
+import type {
+  JobsPort,
+  JobEvent,
+  DLQPort,
+  DeadEventEntry,
+  DLQStats,
+  PaginatedDeadEvents,
+  ListDeadEventsOptions,
+  BatchRetryResult,
+} from '@unisane/kernel';
+
+/**
+ * Job lifecycle status.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+/**
+ * MongoDB document shape for jobs.
+ */
+interface JobDocument {
+  _id?: ObjectId;
+  /** Event name the job was sent with */
+  name: string;
+  data: unknown;
+  status: JobStatus;
+  /** Claims so far (including ones lost to a crash) */
+  attempts: number;
+  /** Earliest time the job may be claimed */
+  runAt: Date;
+  /** Fairness key; null for jobs without a tenant */
+  tenantId: string | null;
+  /** Deduplication key, removed once the job completes or dies */
+  uniqueKey?: string;
+  /** Worker holding the job while running */
+  lockedBy?: string;
+  /** Lock expiry; a running job past it is claimed again */
+  lockedUntil?: Date;
+  lastError?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  failedAt?: Date;
+}
+
+/**
+ * Maximum size of a batch send.
+ */
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Helper to convert string ID to ObjectId if valid.
+ */
+function maybeObjectId(id: string): ObjectId | string {
+  if (ObjectId.isValid(id)) {
+    return new ObjectId(id);
+  }
+  return id;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// =============================================================================
+// Queue (JobsPort)
+// =============================================================================
+
+/**
+ * Configuration for the MongoDB jobs adapter.
+ */
+export interface MongoJobsAdapterConfig {
+  /**
+   * Function that returns the MongoDB collection for jobs.
+   * This allows lazy initialization after database connection.
+   */
+  collection: () => Collection<JobDocument>;
+}
+
+/**
+ * Build a new job document from a job event.
+ */
+function toJobDocument<T>(event: JobEvent<T>, now: Date): JobDocument {
+  if (!event.name) {
+    throw new Error('Invalid job event: name is required');
+  }
+  return {
+    name: event.name,
+    data: event.data ?? {},
+    status: 'queued',
+    attempts: 0,
+    runAt: event.runAt ?? now,
+    tenantId: event.tenantId ?? null,
+    ...(event.uniqueKey ? { uniqueKey: event.uniqueKey } : {}),
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Create a JobsPort adapter backed by a MongoDB collection.
+ *
+ * Sending a job whose `uniqueKey` matches a pending job returns the pending
+ * job's ID instead of enqueueing a duplicate.
+ *
+ * @param config Configuration options
+ * @returns JobsPort implementation
+ *
+ * @example
+ * ```typescript
+ * import { createMongoJobsAdapter } from '@unisane/jobs-mongodb';
+ * import { setJobsProvider } from '@unisane/kernel';
+ *
+ * setJobsProvider(createMongoJobsAdapter({
+ *   collection: () => db().collection('_jobs'),
+ * }));
+ * ```
+ */
+export function createMongoJobsAdapter(config: MongoJobsAdapterConfig): JobsPort {
+  const col = () => config.collection();
+
+  async function enqueue<T>(event: JobEvent<T>): Promise<string> {
+    const doc = toJobDocument(event, new Date());
+    try {
+      const result = await col().insertOne(doc);
+      return String(result.insertedId);
+    } catch (error) {
+      if (doc.uniqueKey && isDuplicateKeyError(error)) {
+        const existing = await col().findOne({ uniqueKey: doc.uniqueKey } as Document);
+        if (existing) {
+          return String(existing._id);
+        }
+      }
+      throw error;
+    }
+  }
+
+  return {
+    async send<T = Record<string, unknown>>(event: JobEvent<T>): Promise<{ id?: string }> {
+      return { id: await enqueue(event) };
+    },
+
+    async sendBatch<T = Record<string, unknown>>(events: JobEvent<T>[]): Promise<{ ids?: string[] }> {
+      if (events.length === 0) {
+        return { ids: [] };
+      }
+      if (events.length > MAX_BATCH_SIZE) {
+        throw new Error(`Job batch too large (max ${MAX_BATCH_SIZE})`);
+      }
+
+      // Inserted one by one so deduplicated events resolve to the pending job
+      const ids: string[] = [];
+      for (const event of events) {
+        ids.push(await enqueue(event));
+      }
+      return { ids };
+    },
+  };
+}
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+/**
+ * Context passed to job handlers.
+ */
+export interface JobContext {
+  /** Job ID */
+  id: string;
+  /** Event name */
+  name: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Tenant the job was sent for */
+  tenantId: string | null;
+  /** Aborted when the job's lock expires or the worker stops */
+  signal: AbortSignal;
+}
+
+/**
+ * Handler for a job event.
+ */
+export type JobHandler<T = Record<string, unknown>> = (data: T, ctx: JobContext) => Promise<void>;
+
+/**
+ * Per-handler options.
+ */
+export interface JobHandlerOptions {
+  /**
+   * Maximum jobs of this name running at once across all workers. Each
+   * claim is counted again after it is made and handed back if it went
+   * over the limit, so racing workers can leave a slot idle for a poll but
+   * never exceed it.
+   * Default: unlimited (bounded by each worker's concurrency)
+   */
+  concurrency?: number;
+
+  /**
+   * Retries after the first attempt before the job is marked dead.
+   * Default: worker's `retries`
+   */
+  retries?: number;
+
+  /**
+   * Maximum run time in milliseconds. The job's lock lasts this long; a
+   * job still running after it is treated as failed and its signal is
+   * aborted. A handler that ignores the signal keeps the job locked until
+   * it returns, and the failure is recorded then.
+   * Default: worker's `timeoutMs`
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Configuration for the MongoDB jobs worker.
+ */
+export interface MongoJobsWorkerConfig {
+  /**
+   * Function that returns the MongoDB collection for jobs.
+   * Must be the same collection as the jobs adapter.
+   */
+  collection: () => Collection<JobDocument>;
+
+  /** Maximum jobs this worker runs at once (default: 5) */
+  concurrency?: number;
+
+  /** Polling interval in milliseconds when idle (default: 1000) */
+  pollInterval?: number;
+
+  /** Default retries per job (default: 3) */
+  retries?: number;
+
+  /** Base delay for exponential backoff in ms (default: 1000) */
+  baseRetryDelay?: number;
+
+  /** Maximum delay between retries in ms (default: 3600000) */
+  maxRetryDelay?: number;
+
+  /** Default maximum run time per job in ms (default: 300000) */
+  timeoutMs?: number;
+
+  /** Worker ID used for locks (default: random) */
+  workerId?: string;
+
+  /**
+   * Called when a job fails for the last time and is marked dead.
+   * Use this for alerting.
+   */
+  onDead?: (job: { id: string; name: string; tenantId: string | null }, error: Error) => Promise<void>;
+}
+
+/**
+ * MongoDB jobs worker instance.
+ */
+export interface MongoJobsWorker {
+  /** Register the handler for an event name (replaces an existing one) */
+  register<T = Record<string, unknown>>(name: string, handler: JobHandler<T>, options?: JobHandlerOptions): void;
+  /** Start polling for jobs */
+  start: () => void;
+  /** Stop polling and wait for running jobs to finish */
+  stop: () => Promise<void>;
+  /** Check if worker is running */
+  isRunning: () => boolean;
+  /**
+   * Claim available jobs up to the free concurrency and run them to the
+   * end. Returns the number of jobs run. Useful for tests and for driving
+   * the queue from a cron instead of `start()`.
+   */
+  processBatch: (now?: Date) => Promise<number>;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<unknown>;
+  options: JobHandlerOptions;
+}
+
+/**
+ * Create a worker that runs jobs from the MongoDB queue.
+ */
+export function createMongoJobsWorker(config: MongoJobsWorkerConfig): MongoJobsWorker {
+  const {
+    concurrency = 5,
+    pollInterval = 1000,
+    retries: defaultRetries = 3,
+    baseRetryDelay = 1000,
+    maxRetryDelay = 3600000,
+    timeoutMs: defaultTimeoutMs = 300000,
+    workerId = randomUUID(),
+    onDead,
+  } = config;
+
+  const col = () => config.collection();
+  const log = logger.child({ module: 'jobs-mongodb', workerId });
+  const handlers = new Map<string, RegisteredHandler>();
+  const inFlight = new Set<Promise<void>>();
+  const controllers = new Set<AbortController>();
+
+  let running = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+
+  /**
+   * Next attempt time with exponential backoff and ±10% jitter.
+   */
+  function nextRetryAt(attempts: number): Date {
+    const delay = Math.min(baseRetryDelay * Math.pow(2, attempts - 1), maxRetryDelay);
+    const jitter = delay * 0.1 * (Math.random() * 2 - 1);
+    return new Date(Date.now() + delay + jitter);
+  }
+
+  /**
+   * Jobs of a name holding a live lock, on any worker.
+   */
+  async function countRunning(name: string, now: Date): Promise<number> {
+    return col().countDocuments({
+      name,
+      status: 'running',
+      lockedUntil: { $gt: now },
+    } as Document);
+  }
+
+  /**
+   * Running jobs per name, for names with a cross-worker concurrency limit.
+   */
+  async function runningCounts(now: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const [name, { options }] of handlers) {
+      if (options.concurrency === undefined) continue;
+      counts.set(name, await countRunning(name, now));
+    }
+    return counts;
+  }
+
+  /**
+   * Hand a claimed job back to the queue without counting the attempt.
+   */
+  async function unclaim(job: JobDocument): Promise<void> {
+    await col().updateOne(
+      { _id: job._id, lockedBy: workerId } as Document,
+      {
+        $set: { status: 'queued', updatedAt: new Date() },
+        $inc: { attempts: -1 },
+        $unset: { lockedBy: '', lockedUntil: '' },
+      } as Document
+    );
+  }
+
+  /**
+   * Atomically claim one job. Excluded tenants have already had a job
+   * claimed this round.
+   */
+  async function claimOne(now: Date, names: string[], skipTenants: Array<string | null>): Promise<JobDocument | null> {
+    const filter: Document = {
+      name: { $in: names },
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        // Lock expired: the worker running it crashed or timed out
+        { status: 'running', lockedUntil: { $lte: now } },
+      ],
+    };
+    if (skipTenants.length > 0) {
+      filter.tenantId = { $nin: skipTenants };
+    }
+
+    // The lock is set per job name once the handler is known
+    const doc = await col().findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          status: 'running',
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + defaultTimeoutMs),
+          updatedAt: new Date(),
+        },
+        $inc: { attempts: 1 },
+      } as Document,
+      { sort: { runAt: 1 }, returnDocument: 'after' }
+    );
+    return (doc as JobDocument | null) ?? null;
+  }
+
+  /**
+   * Claim up to `limit` jobs, one per tenant per round so a tenant with a
+   * large backlog cannot starve the others.
+   *
+   * Name limits are checked against the running counts before claiming and
+   * enforced after: the running count read after a claim includes every
+   * claim made before it, so of two workers racing for the last slot at
+   * least the later one sees both jobs and hands its job back.
+   */
+  async function claim(now: Date, limit: number): Promise<JobDocument[]> {
+    if (limit <= 0 || handlers.size === 0) {
+      return [];
+    }
+
+    const runningPerName = await runningCounts(now);
+    const isFull = (name: string) => {
+      const nameLimit = handlers.get(name)?.options.concurrency;
+      return nameLimit !== undefined && (runningPerName.get(name) ?? 0) >= nameLimit;
+    };
+    const claimed: JobDocument[] = [];
+    let roundTenants: Array<string | null> = [];
+
+    while (claimed.length < limit) {
+      const names = [...handlers.keys()].filter((name) => !isFull(name));
+      if (names.length === 0) break;
+
+      let job = await claimOne(now, names, roundTenants);
+      if (!job && roundTenants.length > 0) {
+        // Every tenant with work got a job this round; start the next round
+        roundTenants = [];
+        job = await claimOne(now, names, roundTenants);
+      }
+      if (!job) break;
+
+      const nameLimit = handlers.get(job.name)?.options.concurrency;
+      if (nameLimit !== undefined) {
+        const runningNow = await countRunning(job.name, now);
+        runningPerName.set(job.name, Math.min(runningNow, nameLimit));
+        if (runningNow > nameLimit) {
+          await unclaim(job);
+          continue;
+        }
+      }
+
+      claimed.push(job);
+      roundTenants.push(job.tenantId);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Wait for a handler that kept running after its timeout. The job stays
+   * locked (and counted against the name limit and this worker's slots)
+   * until the handler settles, so its retry cannot overlap with it.
+   */
+  async function outlast(job: JobDocument, work: Promise<void>, timeoutMs: number): Promise<void> {
+    log.warn('Job handler still running after timeout, keeping job lock', { jobId: String(job._id), name: job.name });
+    const extend = () =>
+      col()
+        .updateOne(
+          { _id: job._id, lockedBy: workerId } as Document,
+          { $set: { lockedUntil: new Date(Date.now() + timeoutMs) } } as Document
+        )
+        .catch((error) => {
+          log.warn('Failed to extend job lock', {
+            jobId: String(job._id),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+    const heartbeat = setInterval(() => void extend(), Math.max(Math.floor(timeoutMs / 2), 1));
+    try {
+      await extend();
+      await work.then(
+        () => undefined,
+        () => undefined
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Run a claimed job and record the outcome. A job that times out is
+   * recorded as failed once its handler has actually settled.
+   */
+  async function run(job: JobDocument): Promise<void> {
+    const id = String(job._id);
+    const registered = handlers.get(job.name);
+    if (!registered) return;
+
+    const { handler, options } = registered;
+    const maxAttempts = (options.retries ?? defaultRetries) + 1;
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    const controller = new AbortController();
+    controllers.add(controller);
+
+    try {
+      // Reclaimed after too many expired locks (e.g. the job keeps crashing the process)
+      if (job.attempts > maxAttempts) {
+        throw new Error(job.lastError ?? 'Job lock expired on every attempt');
+      }
+
+      if (timeoutMs !== defaultTimeoutMs) {
+        await col().updateOne(
+          { _id: job._id, lockedBy: workerId } as Document,
+          { $set: { lockedUntil: new Date(Date.now() + timeoutMs) } } as Document
+        );
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          // Reject before aborting, so a handler that returns on abort still counts as timed out
+          reject(new Error(`Job '${job.name}' timed out after ${timeoutMs}ms`));
+          controller.abort();
+        }, timeoutMs);
+      });
+
+      let work: Promise<void> | undefined;
+      try {
+        work = handler(job.data, {
+          id,
+          name: job.name,
+          attempt: job.attempts,
+          tenantId: job.tenantId,
+          signal: controller.signal,
+        });
+        await Promise.race([work, timeout]);
+      } catch (error) {
+        if (timedOut && work) {
+          await outlast(job, work, timeoutMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      await col().updateOne(
+        { _id: job._id, lockedBy: workerId } as Document,
+        {
+          $set: { status: 'completed', completedAt: new Date(), updatedAt: new Date(), lastError: null },
+          $unset: { uniqueKey: '', lockedBy: '', lockedUntil: '' },
+        } as Document
+      );
+      log.debug('Job completed', { jobId: id, name: job.name, attempt: job.attempts });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      if (job.attempts >= maxAttempts) {
+        await col().updateOne(
+          { _id: job._id, lockedBy: workerId } as Document,
+          {
+            $set: { status: 'dead', lastError: err.message, failedAt: new Date(), updatedAt: new Date() },
+            $unset: { uniqueKey: '', lockedBy: '', lockedUntil: '' },
+          } as Document
+        );
+        log.error('Job failed permanently', {
+          jobId: id,
+          name: job.name,
+          attempts: job.attempts,
+          error: err.message,
+        });
+
+        if (onDead) {
+          try {
+            await onDead({ id, name: job.name, tenantId: job.tenantId }, err);
+          } catch (callbackErr) {
+            log.error('onDead callback failed', {
+              jobId: id,
+              error: callbackErr instanceof Error ? callbackErr.message : String(callbackErr),
+            });
+          }
+        }
+      } else {
+        const runAt = nextRetryAt(job.attempts);
+        await col().updateOne(
+          { _id: job._id, lockedBy: workerId } as Document,
+          {
+            $set: { status: 'queued', runAt, lastError: err.message, updatedAt: new Date() },
+            $unset: { lockedBy: '', lockedUntil: '' },
+          } as Document
+        );
+        log.warn('Job failed, retrying', {
+          jobId: id,
+          name: job.name,
+          attempt: job.attempts,
+          maxAttempts,
+          runAt: runAt.toISOString(),
+          error: err.message,
+        });
+      }
+    } finally {
+      controllers.delete(controller);
+    }
+  }
+
+  /**
+   * Claim jobs for the free slots and start them.
+   */
+  async function dispatch(now: Date): Promise<Promise<void>[]> {
+    const jobs = await claim(now, concurrency - inFlight.size);
+    return jobs.map((job) => {
+      const task = run(job).catch((error) => {
+        log.error('Error recording job result', {
+          jobId: String(job._id),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      inFlight.add(task);
+      void task.finally(() => {
+        inFlight.delete(task);
+        // A slot opened up; look for more work right away
+        if (running) schedule(0);
+      });
+      return task;
+    });
+  }
+
+  function schedule(delay: number): void {
+    if (timeoutId) clearTimeout(timeoutId);
+    timeoutId = setTimeout(poll, delay);
+  }
+
+  /**
+   * Main polling loop.
+   */
+  async function poll(): Promise<void> {
+    timeoutId = null;
+    if (!running || polling) {
+      return;
+    }
+
+    polling = true;
+    let started = 0;
+
+    try {
+      started = (await dispatch(new Date())).length;
+    } catch (error) {
+      log.error('Error claiming jobs', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      polling = false;
+    }
+
+    // Keep going while there is work and free capacity
+    if (running && !timeoutId) {
+      schedule(started > 0 && inFlight.size < concurrency ? 0 : pollInterval);
+    }
+  }
+
+  return {
+    register<T = Record<string, unknown>>(name: string, handler: JobHandler<T>, options: JobHandlerOptions = {}): void {
+      if (handlers.has(name)) {
+        log.warn('Overwriting existing job handler', { name });
+      }
+      handlers.set(name, { handler: handler as JobHandler<unknown>, options });
+    },
+
+    start() {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      log.info('Jobs worker started', { concurrency, pollInterval, handlers: [...handlers.keys()] });
+
+      void poll();
+    },
+
+    async stop() {
+      if (!running) {
+        return;
+      }
+
+      log.info('Stopping jobs worker...');
+      running = false;
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+
+      // Let running jobs finish; they are retried by another worker if
+      // the process exits before then
+      while (polling || inFlight.size > 0) {
+        await sleep(100);
+      }
+
+      log.info('Jobs worker stopped');
+    },
+
+    isRunning() {
+      return running;
+    },
+
+    async processBatch(now = new Date()): Promise<number> {
+      const tasks = await dispatch(now);
+      await Promise.all(tasks);
+      return tasks.length;
+    },
+  };
+}
+
+// =============================================================================
+// DLQ Adapter
+// =============================================================================
+
+/**
+ * Configuration for the MongoDB jobs DLQ adapter.
+ */
+export interface MongoJobsDLQAdapterConfig {
+  /**
+   * Function that returns the MongoDB collection for jobs.
+   * Must be the same collection as the jobs adapter.
+   */
+  collection: () => Collection<JobDocument>;
+}
+
+/**
+ * Pagination cursor for listing dead jobs.
+ */
+interface DeadJobCursor {
+  failedAt: string;
+  _id: string;
+}
+
+/**
+ * Maximum cursor length to prevent DoS via oversized cursors.
+ */
+const MAX_CURSOR_LENGTH = 1024;
+
+function encodeCursor(doc: JobDocument): string {
+  return Buffer.from(
+    JSON.stringify({ failedAt: (doc.failedAt ?? doc.updatedAt).toISOString(), _id: String(doc._id) })
+  ).toString('base64');
+}
+
+/**
+ * Decode a pagination cursor. Invalid cursors return null and the listing
+ * starts from the beginning.
+ */
+function decodeCursor(cursor: string): DeadJobCursor | null {
+  if (!cursor || cursor.length > MAX_CURSOR_LENGTH) {
+    return null;
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8')) as Partial<DeadJobCursor>;
+    if (typeof decoded.failedAt !== 'string' || typeof decoded._id !== 'string') {
+      return null;
+    }
+    if (Number.isNaN(new Date(decoded.failedAt).getTime())) {
+      return null;
+    }
+    return { failedAt: decoded.failedAt, _id: decoded._id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a dead job to a DLQ entry.
+ */
+function toDeadEventEntry(doc: JobDocument): DeadEventEntry {
+  const failedAt = doc.failedAt ?? doc.updatedAt;
+  return {
+    id: String(doc._id),
+    type: doc.name,
+    payload: doc.data,
+    meta: {
+      eventId: String(doc._id),
+      timestamp: doc.createdAt.toISOString(),
+      source: 'jobs',
+      ...(doc.tenantId ? { scopeType: 'tenant', scopeId: doc.tenantId } : {}),
+    },
+    attempts: doc.attempts,
+    lastError: doc.lastError ?? 'Unknown error',
+    createdAt: doc.createdAt,
+    lastAttemptAt: failedAt,
+    failedAt,
+  };
+}
+
+/**
+ * Create a DLQPort adapter over dead jobs, so failed jobs can be listed,
+ * retried and purged with the kernel DLQ API.
+ *
+ * @param config Configuration options
+ * @returns DLQPort implementation
+ *
+ * @example
+ * ```typescript
+ * import { createMongoJobsDLQAdapter } from '@unisane/jobs-mongodb';
+ * import { setDLQProvider } from '@unisane/kernel';
+ *
+ * setDLQProvider(createMongoJobsDLQAdapter({
+ *   collection: () => db().collection('_jobs'),
+ * }));
+ * ```
+ */
+export function createMongoJobsDLQAdapter(config: MongoJobsDLQAdapterConfig): DLQPort {
+  const col = () => config.collection();
+
+  function deadFilter(options?: { type?: string; scopeId?: string }): Document {
+    const filter: Document = { status: 'dead' };
+    if (options?.type) filter.name = options.type;
+    if (options?.scopeId) filter.tenantId = options.scopeId;
+    return filter;
+  }
+
+  return {
+    async list(options?: ListDeadEventsOptions): Promise<PaginatedDeadEvents> {
+      const limit = Math.max(1, Math.min(options?.limit ?? 20, 100));
+      let filter = deadFilter(options);
+
+      if (options?.errorPattern) {
+        filter.lastError = { $regex: options.errorPattern, $options: 'i' };
+      }
+
+      if (options?.cursor) {
+        const decoded = decodeCursor(options.cursor);
+        if (decoded) {
+          const failedAt = new Date(decoded.failedAt);
+          filter = {
+            ...filter,
+            $or: [
+              { failedAt: { $lt: failedAt } },
+              { failedAt, _id: { $lt: maybeObjectId(decoded._id) } },
+            ],
+          };
+        }
+      }
+
+      const docs = (await col()
+        .find(filter)
+        .sort({ failedAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .toArray()) as JobDocument[];
+
+      const hasMore = docs.length > limit;
+      const items = docs.slice(0, limit);
+
+      return {
+        items: items.map(toDeadEventEntry),
+        nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1]!) : null,
+      };
+    },
+
+    async getById(id: string): Promise<DeadEventEntry | null> {
+      const doc = await col().findOne({ _id: maybeObjectId(id), status: 'dead' } as Document);
+      return doc ? toDeadEventEntry(doc as JobDocument) : null;
+    },
+
+    async retry(id: string): Promise<boolean> {
+      const result = await col().updateOne(
+        { _id: maybeObjectId(id), status: 'dead' } as Document,
+        {
+          $set: { status: 'queued', attempts: 0, runAt: new Date(), lastError: null, updatedAt: new Date() },
+          $unset: { failedAt: '' },
+        } as Document
+      );
+      return result.modifiedCount > 0;
+    },
+
+    async retryBatch(ids: string[]): Promise<BatchRetryResult> {
+      const succeeded: string[] = [];
+      const failed: Array<{ id: string; error: string }> = [];
+
+      for (const id of ids) {
+        try {
+          if (await this.retry(id)) {
+            succeeded.push(id);
+          } else {
+            failed.push({ id, error: 'Not found or not in dead status' });
+          }
+        } catch (error) {
+          failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      return { succeeded, failed };
+    },
+
+    async purge(id: string): Promise<boolean> {
+      const result = await col().deleteOne({ _id: maybeObjectId(id), status: 'dead' } as Document);
+      return result.deletedCount > 0;
+    },
+
+    async purgeBatch(ids: string[]): Promise<number> {
+      if (!ids.length) return 0;
+      const result = await col().deleteMany({
+        _id: { $in: ids.map(maybeObjectId) },
+        status: 'dead',
+      } as Document);
+      return result.deletedCount;
+    },
+
+    async getStats(): Promise<DLQStats> {
+      const [totals] = await col()
+        .aggregate([
+          { $match: { status: 'dead' } },
+          {
+            $group: {
+              _id: null,
+              totalDead: { $sum: 1 },
+              oldestDeadAt: { $min: '$failedAt' },
+              newestDeadAt: { $max: '$failedAt' },
+            },
+          },
+        ])
+        .toArray();
+
+      const byType: Record<string, number> = {};
+      const byTypeResults = await col()
+        .aggregate([
+          { $match: { status: 'dead' } },
+          { $group: { _id: '$name', count: { $sum: 1 } } },
+        ])
+        .toArray();
+      for (const r of byTypeResults) {
+        if (r._id) byType[String(r._id)] = r.count as number;
+      }
+
+      // Group by the first 50 characters of the error
+      const byError: Record<string, number> = {};
+      const byErrorResults = await col()
+        .aggregate([
+          { $match: { status: 'dead', lastError: { $ne: null } } },
+          { $group: { _id: { $substr: ['$lastError', 0, 50] }, count: { $sum: 1 } } },
+          { $sort: { count: -1 } },
+          { $limit: 10 },
+        ])
+        .toArray();
+      for (const r of byErrorResults) {
+        if (r._id) byError[String(r._id)] = r.count as number;
+      }
+
+      return {
+        totalDead: (totals?.totalDead as number) ?? 0,
+        byType,
+        byError,
+        oldestDeadAt: totals?.oldestDeadAt ? new Date(totals.oldestDeadAt as Date) : undefined,
+        newestDeadAt: totals?.newestDeadAt ? new Date(totals.newestDeadAt as Date) : undefined,
+      };
+    },
+
+    async count(options?: { type?: string; scopeId?: string }): Promise<number> {
+      return col().countDocuments(deadFilter(options));
+    },
+  };
+}
+
+// Re-export types for convenience
+export type { JobsPort, JobEvent, DLQPort, DeadEventEntry } from '@unisane/kernel';
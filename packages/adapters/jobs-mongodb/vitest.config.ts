@@ -0,0 +1,20 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import base from "../../../vitest.base";
+
+export default mergeConfig(
+  base,
+  defineConfig({
+    test: {
+      name: "jobs-mongodb",
+      root: __dirname,
+      environment: "node",
+      include: ["src/**/*.{test,spec}.ts"],
+      coverage: {
+        provider: "v8",
+        reporter: ["text", "json", "html"],
+        include: ["src/**/*.ts"],
+        exclude: ["src/**/*.{test,spec}.ts", "src/__tests__/**"],
+      },
+    },
+  }),
+);
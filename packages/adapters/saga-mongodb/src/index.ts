@@ -0,0 +1,355 @@
+/**
+ * MongoDB Saga Store Adapter
+ *
+ * Implements the SagaStorePort interface using MongoDB so saga state
+ * survives process restarts. Every write bumps a `version` field and
+ * updates are conditional on it (optimistic concurrency): a runner working
+ * on a stale copy gets `SagaConflictError` instead of overwriting progress.
+ *
+ * Also provides a MongoDB-backed SagaLeasePort for the saga recovery worker.
+ *
+ * ## Required Indexes
+ *
+ * For optimal performance, create these indexes on your saga collection:
+ *
+ * ```javascript
+ * // Index for recovery and status queries (findIncomplete, findByStatus)
+ * db._sagas.createIndex(
+ *   { status: 1, updatedAt: 1 },
+ *   { name: 'sagas_status_idx' }
+ * );
+ *
+ * // Index for per-saga status queries (findByNameAndStatus)
+ * db._sagas.createIndex(
+ *   { sagaName: 1, status: 1 },
+ *   { name: 'sagas_name_status_idx' }
+ * );
+ *
+ * // Index for due delayed steps (findDue)
+ * db._sagas.createIndex(
+ *   { resumeAt: 1 },
+ *   { name: 'sagas_due_idx', partialFilterExpression: { status: 'waiting' } }
+ * );
+ *
+ * // Index for cleanup of finished sagas
+ * db._sagas.createIndex(
+ *   { completedAt: 1 },
+ *   { name: 'sagas_completed_idx', partialFilterExpression: { status: { $in: ['completed', 'compensated'] } } }
+ * );
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { createMongoSagaStoreAdapter, createMongoSagaLease } from '@unisane/saga-mongodb';
+ * import { createSagaRecoveryWorker, setSagaStoreProvider } from '@unisane/kernel';
+ *
+ * setSagaStoreProvider(createMongoSagaStoreAdapter({
+ *   collection: () => db().collection('_sagas'),
+ * }));
+ *
+ * createSagaRecoveryWorker({
+ *   lease: createMongoSagaLease({ collection: () => db().collection('_saga_leases') }),
+ * }).start();
+ * ```
+ */
+
+import type { Collection, Document } from 'mongodb';
+import {
+  isDuplicateKeyError,
+  SagaConflictError,
+  type SagaInstance,
+  type SagaLeasePort,
+  type SagaStatus,
+  type SagaStorePort,
+  type StepRecord,
+} from '@unisane/kernel';
+
+/**
+ * MongoDB document shape for saga instances.
+ */
+interface SagaDocument {
+  /** Saga instance ID */
+  _id: string;
+  sagaName: string;
+  status: SagaStatus;
+  context: unknown;
+  steps: StepRecord[];
+  currentStepIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+  resumeAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  failedStep?: string;
+  correlationId?: string;
+  scopeId?: string;
+  /** Incremented on every write (optimistic concurrency) */
+  version: number;
+}
+
+/**
+ * MongoDB document shape for leases.
+ */
+interface LeaseDocument {
+  /** Lease name */
+  _id: string;
+  owner: string;
+  expiresAt: Date;
+}
+
+/**
+ * Statuses a crashed process can leave behind.
+ */
+const INCOMPLETE_STATUSES: SagaStatus[] = ['pending', 'running', 'compensating'];
+
+/**
+ * Statuses removed by cleanup.
+ */
+const FINISHED_STATUSES: SagaStatus[] = ['completed', 'compensated'];
+
+/**
+ * Configuration for the MongoDB saga store adapter.
+ */
+export interface MongoSagaStoreConfig {
+  /**
+   * Function that returns the MongoDB collection for saga instances.
+   * This allows lazy initialization after database connection.
+   */
+  collection: () => Collection<SagaDocument>;
+
+  /**
+   * Default limit for find operations.
+   * Default: 100
+   */
+  defaultLimit?: number;
+}
+
+/**
+ * Configuration for the MongoDB saga lease.
+ */
+export interface MongoSagaLeaseConfig {
+  /**
+   * Function that returns the MongoDB collection for leases.
+   */
+  collection: () => Collection<LeaseDocument>;
+}
+
+/**
+ * Convert a saga instance to its document fields (without `_id`/`version`).
+ */
+function toFields<TContext>(instance: SagaInstance<TContext>): Omit<SagaDocument, '_id' | 'version'> {
+  return {
+    sagaName: instance.sagaName,
+    status: instance.status,
+    context: instance.context,
+    steps: instance.steps,
+    currentStepIndex: instance.currentStepIndex,
+    createdAt: instance.createdAt,
+    updatedAt: instance.updatedAt,
+    ...(instance.resumeAt ? { resumeAt: instance.resumeAt } : {}),
+    ...(instance.completedAt ? { completedAt: instance.completedAt } : {}),
+    ...(instance.error !== undefined ? { error: instance.error } : {}),
+    ...(instance.failedStep !== undefined ? { failedStep: instance.failedStep } : {}),
+    ...(instance.correlationId !== undefined ? { correlationId: instance.correlationId } : {}),
+    ...(instance.scopeId !== undefined ? { scopeId: instance.scopeId } : {}),
+  };
+}
+
+/**
+ * Optional fields, removed from the document when the instance clears them.
+ */
+const OPTIONAL_FIELDS = ['resumeAt', 'completedAt', 'error', 'failedStep', 'correlationId', 'scopeId'] as const;
+
+/**
+ * Build the update writing an instance over its document: `$set` for present
+ * fields and `$unset` for cleared optional ones (e.g. `resumeAt` once a
+ * waiting saga resumes, or `error` after a retry succeeds).
+ */
+function toUpdate<TContext>(instance: SagaInstance<TContext>, version?: number): Document {
+  const fields = toFields(instance);
+  const cleared = OPTIONAL_FIELDS.filter((field) => !(field in fields));
+  return {
+    $set: version === undefined ? fields : { ...fields, version },
+    ...(cleared.length > 0 ? { $unset: Object.fromEntries(cleared.map((field) => [field, ''])) } : {}),
+  };
+}
+
+/**
+ * Convert a MongoDB document to a saga instance.
+ */
+function toInstance<TContext>(doc: SagaDocument): SagaInstance<TContext> {
+  return {
+    id: doc._id,
+    sagaName: doc.sagaName,
+    status: doc.status,
+    context: doc.context as TContext,
+    steps: doc.steps,
+    currentStepIndex: doc.currentStepIndex,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    resumeAt: doc.resumeAt,
+    completedAt: doc.completedAt,
+    error: doc.error,
+    failedStep: doc.failedStep,
+    correlationId: doc.correlationId,
+    scopeId: doc.scopeId,
+    version: doc.version,
+  };
+}
+
+/**
+ * Create a SagaStorePort adapter using MongoDB.
+ *
+ * The adapter keeps `instance.version` in sync after each write, so the
+ * same instance object can be passed to `update` repeatedly.
+ *
+ * @param config Configuration options
+ * @returns SagaStorePort implementation
+ *
+ * @example
+ * ```typescript
+ * import { createMongoSagaStoreAdapter } from '@unisane/saga-mongodb';
+ * import { setSagaStoreProvider } from '@unisane/kernel';
+ *
+ * setSagaStoreProvider(createMongoSagaStoreAdapter({
+ *   collection: () => db().collection('_sagas'),
+ * }));
+ * ```
+ */
+export function createMongoSagaStoreAdapter(config: MongoSagaStoreConfig): SagaStorePort {
+  const { collection, defaultLimit = 100 } = config;
+
+  const col = () => collection();
+
+  async function findMany(filter: Document, limit?: number, sort: Document = { updatedAt: 1 }): Promise<SagaInstance[]> {
+    const docs = await col()
+      .find(filter)
+      .sort(sort)
+      .limit(limit ?? defaultLimit)
+      .toArray();
+    return docs.map((doc) => toInstance(doc as SagaDocument));
+  }
+
+  return {
+    async create<TContext>(instance: SagaInstance<TContext>): Promise<void> {
+      try {
+        await col().insertOne({ _id: instance.id, ...toFields(instance), version: 1 } as SagaDocument);
+      } catch (error) {
+        if (isDuplicateKeyError(error)) {
+          throw new SagaConflictError(instance.id, 0);
+        }
+        throw error;
+      }
+      instance.version = 1;
+    },
+
+    async update<TContext>(instance: SagaInstance<TContext>): Promise<void> {
+      const { version } = instance;
+
+      // Instances not read through this store carry no version and are
+      // written unconditionally. Non-persistent sagas have no document, so
+      // this is a no-op for them.
+      if (version === undefined) {
+        const doc = await col().findOneAndUpdate(
+          { _id: instance.id } as Document,
+          { ...toUpdate(instance), $inc: { version: 1 } } as Document,
+          { returnDocument: 'after' }
+        );
+        if (doc) {
+          instance.version = (doc as SagaDocument).version;
+        }
+        return;
+      }
+
+      const result = await col().updateOne(
+        { _id: instance.id, version } as Document,
+        toUpdate(instance, version + 1)
+      );
+      if (result.matchedCount === 0) {
+        throw new SagaConflictError(instance.id, version);
+      }
+      instance.version = version + 1;
+    },
+
+    async getById<TContext>(id: string): Promise<SagaInstance<TContext> | null> {
+      const doc = await col().findOne({ _id: id } as Document);
+      return doc ? toInstance<TContext>(doc as SagaDocument) : null;
+    },
+
+    async findByStatus(status: SagaStatus, limit?: number): Promise<SagaInstance[]> {
+      return findMany({ status }, limit);
+    },
+
+    async findByNameAndStatus(sagaName: string, status: SagaStatus, limit?: number): Promise<SagaInstance[]> {
+      return findMany({ sagaName, status }, limit);
+    },
+
+    async findIncomplete(limit?: number): Promise<SagaInstance[]> {
+      // Oldest first, so the longest-abandoned sagas are recovered first
+      return findMany({ status: { $in: INCOMPLETE_STATUSES } }, limit);
+    },
+
+    async findDue(now: Date, limit?: number): Promise<SagaInstance[]> {
+      return findMany({ status: 'waiting', resumeAt: { $lte: now } }, limit, { resumeAt: 1 });
+    },
+
+    async delete(id: string): Promise<boolean> {
+      const result = await col().deleteOne({ _id: id } as Document);
+      return result.deletedCount > 0;
+    },
+
+    async cleanup(olderThan: Date): Promise<number> {
+      const result = await col().deleteMany({
+        status: { $in: FINISHED_STATUSES },
+        completedAt: { $lt: olderThan },
+      } as Document);
+      return result.deletedCount;
+    },
+  };
+}
+
+/**
+ * Create a SagaLeasePort using MongoDB.
+ *
+ * A lease is a document keyed by name. Acquiring succeeds when the lease is
+ * free, expired, or already held by the same owner (which renews it).
+ *
+ * @example
+ * ```typescript
+ * import { createMongoSagaLease } from '@unisane/saga-mongodb';
+ *
+ * const lease = createMongoSagaLease({
+ *   collection: () => db().collection('_saga_leases'),
+ * });
+ * ```
+ */
+export function createMongoSagaLease(config: MongoSagaLeaseConfig): SagaLeasePort {
+  const col = () => config.collection();
+
+  return {
+    async acquire(name: string, owner: string, ttlMs: number): Promise<boolean> {
+      const now = new Date();
+      try {
+        const doc = await col().findOneAndUpdate(
+          { _id: name, $or: [{ owner }, { expiresAt: { $lte: now } }] } as Document,
+          { $set: { owner, expiresAt: new Date(now.getTime() + ttlMs) } } as Document,
+          { upsert: true, returnDocument: 'after' }
+        );
+        return doc?.owner === owner;
+      } catch (error) {
+        // The upsert collided with a live lease held by another owner
+        if (isDuplicateKeyError(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async release(name: string, owner: string): Promise<void> {
+      await col().deleteOne({ _id: name, owner } as Document);
+    },
+  };
+}
+
+// Re-export types for convenience
+export type { SagaStorePort, SagaLeasePort, SagaInstance, SagaStatus } from '@unisane/kernel';
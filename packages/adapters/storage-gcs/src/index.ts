@@ -21,6 +21,8 @@
  * ```
  */
 
+import { randomUUID } from 'node:crypto';
+import type { Readable } from 'node:stream';
 import { Storage, Bucket, File } from '@google-cloud/storage';
 import type {
   StorageProvider,
@@ -28,6 +30,9 @@ import type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from '@unisane/kernel';
 import { CIRCUIT_BREAKER_DEFAULTS, ConfigurationError } from '@unisane/kernel';
 import { z } from 'zod';
@@ -63,6 +68,20 @@ export const ZGCSAdapterConfig = z
     'Either credentials, keyFilename, or GOOGLE_APPLICATION_CREDENTIALS environment variable is required'
   );
 
+/**
+ * GCS has no S3-style multipart API in the JSON API. Each part is uploaded
+ * as its own object under this prefix and composed into the target on
+ * completion (at most 32 sources per compose call).
+ */
+const MULTIPART_PREFIX = '_multipart';
+const MAX_COMPOSE_SOURCES = 32;
+
+interface MultipartManifest {
+  key: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
 export interface GCSAdapterConfig {
   /** GCS bucket name */
   bucket: string;
@@ -209,6 +228,15 @@ export class GCSStorageAdapter implements StorageProvider {
     return contents;
   }
 
+  async getRange(key: string, start: number, end: number): Promise<Buffer> {
+    const [contents] = await this.file(key).download({ start, end });
+    return contents;
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    return this.file(key).createReadStream();
+  }
+
   async getJson<T = unknown>(key: string): Promise<T> {
     const buf = await this.getBuffer(key);
     const text = buf.toString('utf8');
@@ -284,6 +312,110 @@ export class GCSStorageAdapter implements StorageProvider {
       isTruncated: !!nextPageToken,
     };
   }
+
+  private multipartPrefix(uploadId: string): string {
+    if (!/^[a-f0-9-]+$/i.test(uploadId)) {
+      throw new Error('Invalid multipart upload id');
+    }
+    return `${MULTIPART_PREFIX}/${uploadId}`;
+  }
+
+  private partKey(uploadId: string, partNumber: number): string {
+    return `${this.multipartPrefix(uploadId)}/part-${String(partNumber).padStart(5, '0')}`;
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options: MultipartUploadOptions = {}
+  ): Promise<MultipartUpload> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const uploadId = randomUUID();
+    const manifest: MultipartManifest = {
+      key: validatedKey,
+      ...(options.contentType ? { contentType: options.contentType } : {}),
+      ...(options.metadata ? { metadata: options.metadata } : {}),
+    };
+    await this.putJson(`${this.multipartPrefix(uploadId)}/upload.json`, manifest);
+    return { key: validatedKey, uploadId };
+  }
+
+  async getSignedPartUploadUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: Omit<SignedUrlOptions, 'contentType'> = {}
+  ): Promise<SignedUrl> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const expiresInSec = options.expiresInSec ?? 600;
+    const expiresAt = Date.now() + expiresInSec * 1000;
+
+    const [url] = await this.file(this.partKey(uploadId, partNumber)).getSignedUrl({
+      version: 'v4',
+      action: 'write',
+      expires: expiresAt,
+    });
+
+    return { url, key: validatedKey, expiresAt };
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const manifest = await this.getJson<MultipartManifest>(
+      `${this.multipartPrefix(uploadId)}/upload.json`
+    );
+    if (manifest.key !== validatedKey) {
+      throw new Error(`Multipart upload ${uploadId} does not belong to ${validatedKey}`);
+    }
+
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const sources: File[] = [];
+    for (const part of sorted) {
+      const file = this.file(this.partKey(uploadId, part.partNumber));
+      const [metadata] = await file.getMetadata();
+      // XML API part uploads return the hex MD5 as the ETag
+      const md5Hex = metadata.md5Hash
+        ? Buffer.from(metadata.md5Hash, 'base64').toString('hex')
+        : undefined;
+      if (md5Hex && md5Hex !== part.etag.replace(/"/g, '')) {
+        throw new Error(`Part ${part.partNumber} does not match its ETag`);
+      }
+      sources.push(file);
+    }
+
+    // Compose in rounds until few enough sources remain for the final object
+    let round = 0;
+    let level = sources;
+    while (level.length > MAX_COMPOSE_SOURCES) {
+      const next: File[] = [];
+      for (let i = 0; i < level.length; i += MAX_COMPOSE_SOURCES) {
+        const target = this.file(`${this.multipartPrefix(uploadId)}/compose-${round}-${i}`);
+        await this.bucket.combine(level.slice(i, i + MAX_COMPOSE_SOURCES), target);
+        next.push(target);
+      }
+      level = next;
+      round++;
+    }
+
+    const destination = this.file(validatedKey);
+    await this.bucket.combine(level, destination);
+    if (manifest.contentType || manifest.metadata) {
+      await destination.setMetadata({
+        ...(manifest.contentType ? { contentType: manifest.contentType } : {}),
+        ...(manifest.metadata ? { metadata: manifest.metadata } : {}),
+      });
+    }
+
+    await this.bucket.deleteFiles({ prefix: `${this.multipartPrefix(uploadId)}/`, force: true });
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    this.validateAndNormalizeKey(key);
+    await this.bucket.deleteFiles({ prefix: `${this.multipartPrefix(uploadId)}/`, force: true });
+  }
 }
 
 /**
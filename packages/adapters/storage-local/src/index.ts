@@ -30,6 +30,7 @@
 import { promises as fs } from 'node:fs';
 import { createReadStream, createWriteStream } from 'node:fs';
 import * as path from 'node:path';
+import type { Readable } from 'node:stream';
 import * as crypto from 'node:crypto';
 import type {
   StorageProvider,
@@ -37,6 +38,9 @@ import type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from '@unisane/kernel';
 import { ConfigurationError } from '@unisane/kernel';
 import { z } from 'zod';
@@ -166,6 +170,15 @@ async function getOrCreateSigningSecret(basePath: string): Promise<string> {
   return newSecret;
 }
 
+/** Directory (under basePath) holding parts of incomplete multipart uploads */
+const MULTIPART_DIR = '.multipart';
+
+interface MultipartManifest {
+  key: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
 interface FileMetadata {
   contentType: string;
   metadata?: Record<string, string>;
@@ -389,6 +402,27 @@ export class LocalStorageAdapter implements StorageProvider {
     return this.withRetry(() => fs.readFile(filePath));
   }
 
+  async getRange(key: string, start: number, end: number): Promise<Buffer> {
+    const filePath = this.getFilePath(key);
+    return this.withRetry(async () => {
+      const handle = await fs.open(filePath, 'r');
+      try {
+        const buf = Buffer.alloc(end - start + 1);
+        const { bytesRead } = await handle.read(buf, 0, buf.length, start);
+        return buf.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    });
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.getFilePath(key);
+    // Fail like getBuffer when the file is missing, before returning a stream
+    await this.withRetry(() => fs.access(filePath));
+    return createReadStream(filePath);
+  }
+
   async getJson<T = unknown>(key: string): Promise<T> {
     const buf = await this.getBuffer(key);
     const text = buf.toString('utf8');
@@ -621,6 +655,171 @@ export class LocalStorageAdapter implements StorageProvider {
     return results;
   }
 
+  private getMultipartDir(uploadId: string): string {
+    if (!/^[a-f0-9-]+$/i.test(uploadId)) {
+      throw new Error('Invalid multipart upload id');
+    }
+    return path.join(this.basePath, MULTIPART_DIR, uploadId);
+  }
+
+  private getPartPath(uploadId: string, partNumber: number): string {
+    if (!Number.isInteger(partNumber) || partNumber < 1) {
+      throw new Error('Invalid part number');
+    }
+    return path.join(this.getMultipartDir(uploadId), `part-${String(partNumber).padStart(5, '0')}`);
+  }
+
+  private async readManifest(key: string, uploadId: string): Promise<MultipartManifest> {
+    const manifestPath = path.join(this.getMultipartDir(uploadId), 'upload.json');
+    let manifest: MultipartManifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8')) as MultipartManifest;
+    } catch (err) {
+      if ((err as { code?: string })?.code === 'ENOENT') {
+        throw new Error(`Multipart upload not found: ${uploadId}`);
+      }
+      throw err;
+    }
+    if (manifest.key !== key) {
+      throw new Error(`Multipart upload ${uploadId} does not belong to ${key}`);
+    }
+    return manifest;
+  }
+
+  private signPartUrl(key: string, uploadId: string, partNumber: number, expiresAt: number): string {
+    return this.signUrl(`${key}:${uploadId}:${partNumber}`, expiresAt, 'write');
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options: MultipartUploadOptions = {}
+  ): Promise<MultipartUpload> {
+    // Validates the key
+    this.getFilePath(key);
+    const uploadId = crypto.randomUUID();
+    const dir = this.getMultipartDir(uploadId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const manifest: MultipartManifest = {
+      key,
+      ...(options.contentType ? { contentType: options.contentType } : {}),
+      ...(options.metadata ? { metadata: options.metadata } : {}),
+    };
+    await this.withRetry(() =>
+      fs.writeFile(path.join(dir, 'upload.json'), JSON.stringify(manifest, null, 2))
+    );
+    return { key, uploadId };
+  }
+
+  async getSignedPartUploadUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: Omit<SignedUrlOptions, 'contentType'> = {}
+  ): Promise<SignedUrl> {
+    // Validates the upload id and part number
+    this.getPartPath(uploadId, partNumber);
+    const expiresInSec = options.expiresInSec ?? 600;
+    const expiresAt = Date.now() + expiresInSec * 1000;
+    const signature = this.signPartUrl(key, uploadId, partNumber, expiresAt);
+
+    const encodedKey = encodeURIComponent(key);
+    const url = `${this.baseUrl}/upload/${encodedKey}?uploadId=${uploadId}&partNumber=${partNumber}&expires=${expiresAt}&sig=${signature}`;
+
+    return { url, key, expiresAt };
+  }
+
+  /**
+   * Store one part of a multipart upload and return its ETag.
+   * Useful for implementing the part upload route.
+   */
+  async putPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    await this.readManifest(key, uploadId);
+    const partPath = this.getPartPath(uploadId, partNumber);
+    const tempPath = `${partPath}.${crypto.randomBytes(8).toString('hex')}.tmp`;
+    try {
+      await this.withRetry(() => fs.writeFile(tempPath, body));
+      await this.withRetry(() => fs.rename(tempPath, partPath));
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+    return crypto.createHash('md5').update(body).digest('hex');
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const manifest = await this.readManifest(key, uploadId);
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+    const filePath = this.getFilePath(key);
+    await this.ensureDir(filePath);
+    const tempFilePath = `${filePath}.${crypto.randomBytes(8).toString('hex')}.tmp`;
+
+    try {
+      const handle = await fs.open(tempFilePath, 'w');
+      try {
+        for (const part of sorted) {
+          const body = await this.withRetry(() =>
+            fs.readFile(this.getPartPath(uploadId, part.partNumber))
+          );
+          const md5 = crypto.createHash('md5').update(body).digest('hex');
+          if (md5 !== part.etag.replace(/"/g, '')) {
+            throw new Error(`Part ${part.partNumber} does not match its ETag`);
+          }
+          await handle.write(body);
+        }
+      } finally {
+        await handle.close();
+      }
+
+      const metadata: FileMetadata = {
+        contentType: manifest.contentType ?? 'application/octet-stream',
+        metadata: manifest.metadata,
+        createdAt: new Date().toISOString(),
+      };
+      await this.withRetry(() =>
+        fs.writeFile(this.getMetadataPath(key), JSON.stringify(metadata, null, 2))
+      );
+      await this.withRetry(() => fs.rename(tempFilePath, filePath));
+    } catch (error) {
+      await fs.unlink(tempFilePath).catch(() => {});
+      throw error;
+    }
+
+    await fs.rm(this.getMultipartDir(uploadId), { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    // Validates the key
+    this.getFilePath(key);
+    await fs.rm(this.getMultipartDir(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Verify a signed part upload URL is valid.
+   * Useful for implementing the part upload route.
+   */
+  verifyPartSignature(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresAt: number,
+    signature: string
+  ): boolean {
+    if (Date.now() > expiresAt) {
+      return false;
+    }
+    const expected = this.signPartUrl(key, uploadId, partNumber, expiresAt);
+    if (signature.length !== expected.length) {
+      return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
   /**
    * Verify a signed URL is valid.
    * Useful for implementing the download/upload routes.
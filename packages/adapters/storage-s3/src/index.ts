@@ -31,6 +31,10 @@ import {
   PutObjectCommand,
   CopyObjectCommand,
   ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
@@ -41,6 +45,9 @@ import type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from '@unisane/kernel';
 import { CIRCUIT_BREAKER_DEFAULTS, ConfigurationError } from '@unisane/kernel';
 import { z } from 'zod';
@@ -231,6 +238,21 @@ export class S3StorageAdapter implements StorageProvider {
     return streamToBuffer(res.Body);
   }
 
+  async getRange(key: string, start: number, end: number): Promise<Buffer> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const command = new GetObjectCommand({ Bucket: this.bucket, Key: validatedKey, Range: `bytes=${start}-${end}` });
+    const res = await this.client.send(command);
+    return streamToBuffer(res.Body);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const command = new GetObjectCommand({ Bucket: this.bucket, Key: validatedKey });
+    const res = await this.client.send(command);
+    if (res.Body instanceof Readable) return res.Body;
+    return Readable.from([await streamToBuffer(res.Body)]);
+  }
+
   async getJson<T = unknown>(key: string): Promise<T> {
     // Key validation happens in getBuffer
     const buf = await this.getBuffer(key);
@@ -354,6 +376,84 @@ export class S3StorageAdapter implements StorageProvider {
       isTruncated: result.IsTruncated ?? false,
     };
   }
+
+  async createMultipartUpload(
+    key: string,
+    options: MultipartUploadOptions = {}
+  ): Promise<MultipartUpload> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const result = await this.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: validatedKey,
+        ...(options.contentType ? { ContentType: options.contentType } : {}),
+        ...(options.metadata ? { Metadata: options.metadata } : {}),
+      })
+    );
+    if (!result.UploadId) {
+      throw new Error(`S3 did not return an upload id for ${validatedKey}`);
+    }
+    return { key: validatedKey, uploadId: result.UploadId };
+  }
+
+  async getSignedPartUploadUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: Omit<SignedUrlOptions, 'contentType'> = {}
+  ): Promise<SignedUrl> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const expiresInSec = options.expiresInSec ?? 600;
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: validatedKey,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: expiresInSec,
+    });
+    const expiresAt = Date.now() + expiresInSec * 1000;
+    return { url, key: validatedKey, expiresAt };
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: validatedKey,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: sorted.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+        },
+      })
+    );
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const validatedKey = this.validateAndNormalizeKey(key);
+    try {
+      await this.client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: validatedKey,
+          UploadId: uploadId,
+        })
+      );
+    } catch (err: unknown) {
+      // Already completed, aborted or expired by a bucket lifecycle rule
+      if (err instanceof S3ServiceException && err.name === 'NoSuchUpload') {
+        return;
+      }
+      throw err;
+    }
+  }
 }
 
 /**
@@ -136,6 +136,7 @@ export const ERROR_CODES = [
   'AUTH_FORBIDDEN_ADMIN_ONLY',
   'AUTH_FORBIDDEN_OWNER_ONLY',
   'AUTH_FORBIDDEN_PLATFORM_ONLY',
+  'AUTH_MFA_REQUIRED',
   // Validation
   'VALIDATION_FAILED',
   'VALIDATION_EMAIL_INVALID',
@@ -5,13 +5,13 @@
  * Uses dependency injection for repository access - must be configured at app startup.
  */
 
-import type { Permission } from '../middleware/rbac';
+import type { PermissionKey } from '../middleware/rbac';
 import { verifyJwtRS256Jose } from './jwt';
 import { sha256Hex } from '@unisane/kernel';
 import { readApiKeyToken, readBearerToken, tenantIdFromUrl, readBearerFromCookie } from '../request';
 import { logger, withRequest } from '../logger';
 import { HEADER_NAMES } from '../headers';
-import { kv, getEnv, ALL_PERMISSIONS, KV, ZPermission } from '@unisane/kernel';
+import { kv, getEnv, ALL_PERMISSIONS, KV, isKnownPermission } from '@unisane/kernel';
 import { ERR } from '../errors/errors';
 
 // --- Dev Environment Detection ---
@@ -28,48 +28,32 @@ function isDevEnvironment(env: string | undefined): env is DevEnv {
   return !!env && DEV_ENVIRONMENTS.includes(env.toLowerCase() as DevEnv);
 }
 
-/**
- * H-007 FIX: Pre-compute ALL_PERMISSIONS set for O(1) lookup.
- * This is created once at module load time for efficient validation.
- */
-const ALL_PERMISSIONS_SET = new Set(ALL_PERMISSIONS);
-
 /**
  * GW-009 FIX: Validate API key scopes against known permissions.
  * Filters out invalid scopes and logs warnings for unrecognized values.
  * This prevents privilege escalation via malformed scope injection.
  *
- * H-007 FIX: Now also cross-references against ALL_PERMISSIONS constant
- * to ensure scopes are not only valid Zod types but also actually defined
- * in the permission catalog.
+ * H-007 FIX: Scopes must be in the permission catalog: the core PERM values
+ * plus the permissions modules registered with `registerPermissions`.
  */
-function validateScopes(scopes: unknown[], source: string): Permission[] {
+function validateScopes(scopes: unknown[], source: string): PermissionKey[] {
   if (!Array.isArray(scopes)) {
     return [];
   }
 
-  const validPerms: Permission[] = [];
+  const validPerms: PermissionKey[] = [];
   for (const scope of scopes) {
     if (typeof scope !== 'string') {
       logger.warn('Invalid scope type in ' + source, { scopeType: typeof scope });
       continue;
     }
 
-    // First, validate against Zod schema
-    const result = ZPermission.safeParse(scope);
-    if (!result.success) {
-      logger.warn('Unrecognized scope in ' + source + ' (Zod validation failed)', { scope });
-      continue;
-    }
-
-    // H-007 FIX: Cross-reference against ALL_PERMISSIONS catalog
-    // This catches cases where a scope passes Zod but isn't in the actual permission set
-    if (!ALL_PERMISSIONS_SET.has(result.data)) {
-      logger.warn('Unrecognized scope in ' + source + ' (not in ALL_PERMISSIONS)', { scope });
+    if (!isKnownPermission(scope)) {
+      logger.warn('Unrecognized scope in ' + source + ' (not in the permission catalog)', { scope });
       continue;
     }
 
-    validPerms.push(result.data);
+    validPerms.push(scope);
   }
   return validPerms;
 }
@@ -88,8 +72,12 @@ export interface AuthCtx {
   tenantId?: string;
   role?: string;
   plan?: string;
-  perms?: Permission[];
+  perms?: PermissionKey[];
   isSuperAdmin?: boolean;
+  /** The session was issued after a second factor was verified (`amr` includes "mfa") */
+  mfa?: boolean;
+  /** The tenant requires MFA and this session has not passed it; the guard rejects the request */
+  mfaRequired?: boolean;
 }
 
 // --- Dependency Injection Types ---
@@ -110,9 +98,11 @@ export interface UserRecord {
 export interface AuthRepositories {
   findApiKeyByHash: (hash: string) => Promise<ApiKeyRecord | null>;
   findUserById: (userId: string) => Promise<UserRecord | null>;
-  getEffectivePerms: (tenantId: string, userId: string) => Promise<Permission[]>;
-  applyGlobalOverlays: (userId: string, perms: Permission[]) => Promise<{ perms: Permission[]; isSuperAdmin: boolean }>;
+  getEffectivePerms: (tenantId: string, userId: string) => Promise<PermissionKey[]>;
+  applyGlobalOverlays: (userId: string, perms: PermissionKey[]) => Promise<{ perms: PermissionKey[]; isSuperAdmin: boolean }>;
   connectDb: () => Promise<void>;
+  /** Whether the tenant requires members to sign in with MFA. Not enforced when omitted. */
+  isMfaRequired?: (tenantId: string) => Promise<boolean>;
 }
 
 // --- Injected Dependencies ---
@@ -268,6 +258,8 @@ async function authFromJwt(
     const sub = String(verified.payload.sub ?? '');
     const tokenIatSec = typeof verified.payload.iat === 'number' ? verified.payload.iat : undefined;
     const tenantId = deriveTenantIdFromTokenOrUrl(verified.payload as Record<string, unknown>, req);
+    const amr = verified.payload['amr'];
+    const mfa = Array.isArray(amr) && amr.includes('mfa');
 
     if (!sub) return null;
 
@@ -289,6 +281,10 @@ async function authFromJwt(
       // GW-006 FIX: Apply timeout to permission lookups
       const perms = await withTimeout(repos.getEffectivePerms(tenantId, sub), AUTH_DB_TIMEOUT_MS, 'getEffectivePerms');
       const { perms: finalPerms, isSuperAdmin } = await withTimeout(repos.applyGlobalOverlays(sub, perms), AUTH_DB_TIMEOUT_MS, 'applyGlobalOverlays');
+      const mfaRequired =
+        !mfa && repos.isMfaRequired
+          ? await withTimeout(repos.isMfaRequired(tenantId), AUTH_DB_TIMEOUT_MS, 'isMfaRequired')
+          : false;
 
       const baseCtx: AuthCtx = {
         isAuthed: true,
@@ -296,6 +292,8 @@ async function authFromJwt(
         userId: sub,
         tenantId,
         ...(isSuperAdmin ? { isSuperAdmin: true } : {}),
+        ...(mfa ? { mfa: true } : {}),
+        ...(mfaRequired ? { mfaRequired: true } : {}),
       };
 
       logAuthEvent('info', 'jwt auth success', { auth_strategy: source, userId: sub, tenantId });
@@ -312,9 +310,10 @@ async function authFromJwt(
         userId: sub,
         perms: finalPerms,
         isSuperAdmin: true,
+        ...(mfa ? { mfa: true } : {}),
       };
     }
-    return { isAuthed: true, authMethod: source, userId: sub };
+    return { isAuthed: true, authMethod: source, userId: sub, ...(mfa ? { mfa: true } : {}) };
   } catch (e) {
     const error = e as Error;
     // Only log verbose errors in dev environments or for unexpected errors
@@ -591,14 +590,14 @@ export async function getAuthCtx(req: Request): Promise<AuthCtx> {
   };
 
   if (platformOwnerHeader && /^(1|true)$/i.test(platformOwnerHeader)) {
-    const merged = new Set<Permission>([
+    const merged = new Set<PermissionKey>([
       ...(ctx.perms ?? []),
       ...ALL_PERMISSIONS,
     ]);
     return {
       ...ctx,
       isSuperAdmin: true,
-      perms: Array.from(merged) as Permission[],
+      perms: Array.from(merged),
     };
   }
   return ctx;
@@ -55,7 +55,7 @@ function codeToKind(code: string | undefined): NormalizedError["kind"] {
   ) {
     return "auth";
   }
-  if (code.startsWith("AUTH_FORBIDDEN")) {
+  if (code.startsWith("AUTH_FORBIDDEN") || code === "AUTH_MFA_REQUIRED") {
     return "forbidden";
   }
   if (code.startsWith("RESOURCE_") && code.includes("NOT_FOUND")) {
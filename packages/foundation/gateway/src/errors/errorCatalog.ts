@@ -18,6 +18,7 @@ export type ErrorCode =
   | "AUTH_FORBIDDEN_ADMIN_ONLY"
   | "AUTH_FORBIDDEN_OWNER_ONLY"
   | "AUTH_FORBIDDEN_PLATFORM_ONLY"
+  | "AUTH_MFA_REQUIRED"
   // Validation
   | "VALIDATION_FAILED"
   | "VALIDATION_EMAIL_INVALID"
@@ -100,6 +101,12 @@ export const ERROR_CATALOG: Record<ErrorCode, ErrorDefinition> = {
     message: "This action is restricted to platform administrators.",
     retryable: false,
   },
+  AUTH_MFA_REQUIRED: {
+    status: 403,
+    message: "This workspace requires two-factor authentication.",
+    action: "Set up two-factor authentication and sign in again",
+    retryable: false,
+  },
 
   // Validation
   VALIDATION_FAILED: {
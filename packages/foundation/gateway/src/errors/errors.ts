@@ -73,6 +73,7 @@ export const ERR = {
   adminOnly: () => new AppError("AUTH_FORBIDDEN_ADMIN_ONLY"),
   ownerOnly: () => new AppError("AUTH_FORBIDDEN_OWNER_ONLY"),
   platformOnly: () => new AppError("AUTH_FORBIDDEN_PLATFORM_ONLY"),
+  mfaRequired: () => new AppError("AUTH_MFA_REQUIRED"),
 
   // Shorthand aliases (UPPERCASE for terse usage)
   /** Shorthand for forbidden() */
@@ -1,6 +1,6 @@
 import type { ZodTypeAny } from "zod";
 import { z } from "zod";
-import type { Permission, AuthCtx } from "../middleware/rbac";
+import type { PermissionKey, AuthCtx } from "../middleware/rbac";
 import { withIdem } from "../middleware/idempotency";
 import { toHttp, ERR } from "../errors/errors";
 import { HEADER_NAMES } from "../headers";
@@ -29,7 +29,7 @@ type HandlerOpts = {
   op?: OpKey;
   zod?: ZodTypeAny;
   zodParams?: ZodTypeAny;
-  perm?: Permission;
+  perm?: PermissionKey;
   idempotent?: boolean;
   requireTenantMatch?: boolean;
   requireSuperAdmin?: boolean;
@@ -0,0 +1,94 @@
+/**
+ * Server-Sent Events response helper.
+ *
+ * Wraps an async iterable into a `text/event-stream` Response for use with
+ * `makeHandlerRaw`. The iterable is consumed inside the caller's scope
+ * context, so services can keep using `getScopeId()` while streaming.
+ * A failure mid-stream is sent as an `error` event since the status line has
+ * already been written.
+ */
+
+import { toHttp } from "../errors/errors";
+
+export type SseEvent = {
+  /** Event name; omitted events use the default `message` type */
+  event?: string;
+  /** JSON-serialised into the `data:` field */
+  data: unknown;
+  id?: string;
+};
+
+export type SseResponseOptions = {
+  /** Comment line sent at this interval to keep proxies from timing out */
+  heartbeatMs?: number;
+  headers?: HeadersInit;
+};
+
+const DEFAULT_HEARTBEAT_MS = 15_000;
+
+export function formatSseEvent(e: SseEvent): string {
+  let out = "";
+  if (e.id !== undefined) out += `id: ${e.id}\n`;
+  if (e.event) out += `event: ${e.event}\n`;
+  for (const line of JSON.stringify(e.data).split("\n")) out += `data: ${line}\n`;
+  return `${out}\n`;
+}
+
+export function sseResponse(
+  events: AsyncIterable<SseEvent>,
+  opts: SseResponseOptions = {}
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    // start() runs synchronously in the handler, so the pump below inherits
+    // the request's async context
+    start(controller) {
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": ping\n\n"));
+        } catch {
+          clearInterval(heartbeat);
+        }
+      }, opts.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+
+      void (async () => {
+        try {
+          for (;;) {
+            const { value, done } = await iterator.next();
+            if (done) break;
+            controller.enqueue(encoder.encode(formatSseEvent(value)));
+          }
+        } catch (e) {
+          const res = toHttp(e);
+          const payload = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+          try {
+            controller.enqueue(encoder.encode(formatSseEvent({ event: "error", data: payload })));
+          } catch {
+            // Client already gone
+          }
+        } finally {
+          clearInterval(heartbeat);
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled
+          }
+        }
+      })();
+    },
+    async cancel() {
+      clearInterval(heartbeat);
+      await iterator.return?.();
+    },
+  });
+
+  const headers = new Headers(opts.headers);
+  headers.set("content-type", "text/event-stream; charset=utf-8");
+  headers.set("cache-control", "no-cache, no-transform");
+  headers.set("connection", "keep-alive");
+  headers.set("x-accel-buffering", "no");
+  return new Response(body, { status: 200, headers });
+}
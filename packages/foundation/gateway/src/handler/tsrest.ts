@@ -1,7 +1,7 @@
 import { HEADER_NAMES } from '../headers';
 import { getAuthCtx } from '../auth/auth';
 import { hasPerm } from '../middleware/rbac';
-import type { Permission } from '../middleware/rbac';
+import type { PermissionKey } from '../middleware/rbac';
 import { getRatePolicy } from '../rate-limits';
 import type { OpKey } from '../rate-limits';
 import { buildRateKey, ipFrom, rateLimit } from '../middleware/rateLimit';
@@ -11,7 +11,7 @@ import { assertCsrfForCookieAuth } from '../middleware/csrf';
 
 type GuardOptsBase = {
   op?: OpKey;
-  perm?: Permission;
+  perm?: PermissionKey;
   idempotent?: boolean;
   requireTenantMatch?: boolean;
   requireUser?: boolean;
@@ -48,6 +48,7 @@ export async function withGuards<
 
     // Permission checks
     if (auth.isAuthed) {
+      if (auth.mfaRequired) throw ERR.mfaRequired();
       if (opts.perm && !hasPerm(auth, opts.perm)) throw ERR.forbidden();
       if (opts.requireUser && !auth.userId) throw ERR.forbidden();
     }
@@ -13,6 +13,7 @@
 // Handler
 export * from './handler/httpHandler';
 export * from './handler/httpWebhook';
+export * from './handler/sse';
 export { withGuards } from './handler/tsrest';
 export type { GuardOpts } from './handler/tsrest';
 
@@ -30,7 +31,7 @@ export * from './middleware/rawBody';
 export { guard } from './middleware/guard';
 export type { GuardOpts as InternalGuardOpts } from './middleware/guard';
 export { PERM, ROLE_PERMS, hasPerm, requireTenantScope } from './middleware/rbac';
-export type { Permission } from './middleware/rbac';
+export type { Permission, PermissionKey } from './middleware/rbac';
 // Re-export AuthCtx and AuthMethod from auth module (not rbac which has a duplicate definition)
 export type { AuthCtx, AuthMethod } from './auth/auth';
 export * from './middleware/validate';
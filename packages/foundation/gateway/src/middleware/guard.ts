@@ -2,7 +2,7 @@ import type { ZodTypeAny, ZodError } from "zod";
 import { parseJson } from "./validate";
 import { getAuthCtx } from "../auth/auth";
 import { hasPerm } from './rbac';
-import type { AuthCtx, Permission } from './rbac';
+import type { AuthCtx, PermissionKey } from './rbac';
 import { HEADER_NAMES } from "../headers";
 import { ERR } from "../errors/errors";
 import { buildRateKey, rateLimit, ipFrom } from './rateLimit';
@@ -16,7 +16,7 @@ export type GuardOpts<Body, Params> = {
   op?: OpKey;
   zod?: ZodTypeAny;
   zodParams?: ZodTypeAny;
-  perm?: Permission;
+  perm?: PermissionKey;
   idempotent?: boolean;
   requireTenantMatch?: boolean;
   requireSuperAdmin?: boolean;
@@ -141,6 +141,8 @@ export async function guard<Body = unknown, Params extends Record<string, unknow
     if (!ctx.isSuperAdmin && paramTenant && ctx.tenantId !== paramTenant) throw ERR.forbidden();
   }
   if (ctx.isAuthed) {
+    // Tenant requires MFA and the session was issued without it
+    if (ctx.mfaRequired) throw ERR.mfaRequired();
     if (opts.requireSuperAdmin && !ctx.isSuperAdmin) throw ERR.forbidden();
     if (opts.perm && !hasPerm(ctx, opts.perm)) throw ERR.forbidden();
     if (opts.requireUser && !ctx.userId) throw ERR.forbidden();
@@ -1,7 +1,7 @@
 import { PERM, ROLE_PERMS } from "@unisane/kernel";
-import type { Permission } from "@unisane/kernel";
+import type { Permission, PermissionKey } from "@unisane/kernel";
 export { PERM, ROLE_PERMS };
-export type { Permission };
+export type { Permission, PermissionKey };
 import { ERR } from "../errors/errors";
 
 // Import and re-export AuthCtx from auth.ts (single source of truth)
@@ -9,7 +9,7 @@ import { ERR } from "../errors/errors";
 import type { AuthCtx } from '../auth/auth';
 export type { AuthCtx };
 
-export function hasPerm(ctx: AuthCtx, perm: Permission): boolean {
+export function hasPerm(ctx: AuthCtx, perm: PermissionKey): boolean {
   return Boolean(ctx.perms?.includes(perm));
 }
 
@@ -19,7 +19,7 @@ export function hasPerm(ctx: AuthCtx, perm: Permission): boolean {
 export function requireTenantScope(
   ctx: AuthCtx,
   requestedTenantId: string | null | undefined,
-  adminPerm?: Permission
+  adminPerm?: PermissionKey
 ): string {
   if (ctx.isSuperAdmin) {
     return requestedTenantId ?? ctx.tenantId ?? "";
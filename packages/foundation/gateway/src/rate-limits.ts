@@ -22,6 +22,12 @@ export const RATE_LIMIT_POLICIES = {
   "auth.phone.start": { max: 5, windowSec: 60 },
   "auth.phone.verify": { max: 10, windowSec: 60 },
   "auth.token.exchange": { max: 20, windowSec: 60 },
+  "auth.mfa.verify": { max: 10, windowSec: 60 },
+  "auth.mfa.status": { max: 60, windowSec: 60 },
+  "auth.mfa.enroll.start": { max: 5, windowSec: 60 },
+  "auth.mfa.enroll.confirm": { max: 10, windowSec: 60 },
+  "auth.mfa.disable": { max: 5, windowSec: 60 },
+  "auth.mfa.recovery.regenerate": { max: 5, windowSec: 60 },
   "auth.csrf": { max: 120, windowSec: 60 }, // High for multi-tab
   "users.list": { max: 60, windowSec: 60 },
   "users.create": { max: 10, windowSec: 60 },
@@ -39,6 +45,10 @@ export const RATE_LIMIT_POLICIES = {
   "billing.cancel": { max: 10, windowSec: 60 },
   "billing.refund": { max: 10, windowSec: 60 },
   "billing.changePlan": { max: 20, windowSec: 60 },
+  "billing.invoicePdf": { max: 20, windowSec: 60 },
+  "billing.receiptPdf": { max: 20, windowSec: 60 },
+  "billing.upcomingInvoice": { max: 60, windowSec: 60 },
+  "billing.taxId.validate": { max: 30, windowSec: 60 },
   "credits.ledger": { max: 60, windowSec: 60 },
   "credits.breakdown": { max: 60, windowSec: 60 },
   "settings.get": { max: 120, windowSec: 60 },
@@ -72,11 +82,24 @@ export const RATE_LIMIT_POLICIES = {
   "memberships.removeRole": { max: 20, windowSec: 60 },
   "memberships.revokePerm": { max: 20, windowSec: 60 },
   "memberships.remove": { max: 20, windowSec: 60 },
+  "invitations.list": { max: 60, windowSec: 60 },
+  "invitations.create": { max: 20, windowSec: 60 },
+  "invitations.resend": { max: 10, windowSec: 60 },
+  "invitations.revoke": { max: 20, windowSec: 60 },
+  "invitations.preview": { max: 30, windowSec: 60 },
+  "invitations.accept": { max: 10, windowSec: 60 },
+  "roles.list": { max: 60, windowSec: 60 },
+  "roles.permissions": { max: 60, windowSec: 60 },
+  "roles.create": { max: 20, windowSec: 60 },
+  "roles.update": { max: 20, windowSec: 60 },
+  "roles.delete": { max: 20, windowSec: 60 },
   "billing.subscribe": { max: 10, windowSec: 60 },
   "billing.portal": { max: 20, windowSec: 60 },
   "billing.getSubscription": { max: 60, windowSec: 60 },
   "billing.changeQuantity": { max: 20, windowSec: 60 },
   "billing.topup": { max: 10, windowSec: 60 },
+  // Limits guessing of promotion codes
+  "billing.promotionCodes.preview": { max: 20, windowSec: 60 },
   "credits.grant": { max: 20, windowSec: 60 },
   "credits.burn": { max: 60, windowSec: 60 },
   "credits.balance": { max: 60, windowSec: 60 },
@@ -88,6 +111,9 @@ export const RATE_LIMIT_POLICIES = {
   "import.start": { max: 5, windowSec: 60 },
   "webhooks.replayEvent": { max: 10, windowSec: 60 },
   "ai.generate": { max: 20, windowSec: 60 },
+  "ai.generate.stream": { max: 20, windowSec: 60 },
+  "ai.templates.generate": { max: 20, windowSec: 60 },
+  "ai.threads.send": { max: 20, windowSec: 60 },
   // Demo: PDF render (credits-charged)
   "pdf.render": { max: 20, windowSec: 60 },
   "entitlements.get": { max: 120, windowSec: 60 },
@@ -113,6 +139,19 @@ export const RATE_LIMIT_POLICIES = {
   "admin.outbox.purgeDead": { max: 20, windowSec: 60 },
   "admin.outbox.requeueDeadAll": { max: 5, windowSec: 60 },
   "admin.outbox.purgeDeadAll": { max: 5, windowSec: 60 },
+  // Admin plan catalog
+  "admin.billing.plans.list": { max: 60, windowSec: 60 },
+  "admin.billing.plans.history": { max: 60, windowSec: 60 },
+  "admin.billing.plans.publish": { max: 10, windowSec: 60 },
+  "admin.billing.plans.archive": { max: 10, windowSec: 60 },
+  "admin.billing.plans.restore": { max: 10, windowSec: 60 },
+  "admin.billing.coupons.list": { max: 60, windowSec: 60 },
+  "admin.billing.coupons.create": { max: 20, windowSec: 60 },
+  "admin.billing.coupons.archive": { max: 20, windowSec: 60 },
+  "admin.billing.promotionCodes.list": { max: 60, windowSec: 60 },
+  "admin.billing.promotionCodes.create": { max: 30, windowSec: 60 },
+  "admin.billing.promotionCodes.deactivate": { max: 30, windowSec: 60 },
+  "admin.billing.dunning.list": { max: 60, windowSec: 60 },
   // Analytics dashboard (admin-only, read-heavy)
   "analytics.dashboard": { max: 120, windowSec: 60 },
   // Owner-only destructive ops guard (perm: tenants.manage)
@@ -125,6 +164,10 @@ export const RATE_LIMIT_POLICIES = {
   // Storage
   "storage.upload.request": { max: 30, windowSec: 60 },
   "storage.upload.confirm": { max: 60, windowSec: 60 },
+  "storage.multipart.initiate": { max: 30, windowSec: 60 },
+  "storage.multipart.signParts": { max: 300, windowSec: 60 },
+  "storage.multipart.complete": { max: 60, windowSec: 60 },
+  "storage.multipart.abort": { max: 60, windowSec: 60 },
   "storage.download": { max: 120, windowSec: 60 },
   "storage.delete": { max: 30, windowSec: 60 },
   "storage.list": { max: 60, windowSec: 60 },
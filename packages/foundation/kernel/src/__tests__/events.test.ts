@@ -15,6 +15,11 @@ import {
   EventValidationError,
 } from '../events/emitter';
 import { registerEvent, clearEventRegistry } from '../events/registry';
+import {
+  setEventStoreProvider,
+  clearEventStoreProvider,
+  type EventStorePort,
+} from '../events/event-store';
 import { z } from 'zod';
 
 describe('Events Module', () => {
@@ -110,6 +115,25 @@ describe('Events Module', () => {
       // No handlers registered, should not throw
       await expect(events.emit('test.event', { value: 'test' })).resolves.toBeUndefined();
     });
+
+    it('should append events to the event store when configured', async () => {
+      const append = vi.fn().mockRejectedValueOnce(new Error('store down')).mockResolvedValue(undefined);
+      setEventStoreProvider({ append } as unknown as EventStorePort);
+
+      try {
+        // Store failures do not fail the emit
+        await expect(events.emit('test.event', { value: 'first' })).resolves.toBeUndefined();
+        await events.emit('test.event', { value: 'second' });
+      } finally {
+        clearEventStoreProvider();
+      }
+
+      expect(append).toHaveBeenCalledTimes(2);
+      expect(append).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'test.event', payload: { value: 'second' } }),
+        undefined
+      );
+    });
   });
 
   describe('events.emitReliable()', () => {
@@ -0,0 +1,80 @@
+/**
+ * RBAC Module Tests
+ *
+ * Tests for the permission registry and role permission resolution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PERM,
+  ROLE_PERMS,
+  isBuiltinRole,
+  isKnownPermission,
+  listPermissions,
+  registerPermissions,
+  resolveRolePerms,
+  ZPermissionKey,
+  ZRoleKey,
+} from '../rbac';
+
+describe('permission registry', () => {
+  it('registers module permissions', () => {
+    const keys = registerPermissions('reports', [
+      { key: 'reports:read', description: 'View reports' },
+      'reports:export',
+    ]);
+
+    expect(keys).toEqual(['reports:read', 'reports:export']);
+    expect(isKnownPermission('reports:read')).toBe(true);
+    expect(isKnownPermission('reports:delete')).toBe(false);
+    expect(listPermissions()).toContainEqual({ key: 'reports:read', module: 'reports', description: 'View reports' });
+  });
+
+  it('lists core permissions first', () => {
+    registerPermissions('reports', ['reports:read']);
+    const [first] = listPermissions();
+    expect(first).toEqual({ key: Object.values(PERM)[0], module: 'kernel' });
+    expect(isKnownPermission(PERM.MEMBERS_READ)).toBe(true);
+  });
+
+  it('is idempotent for the owning module', () => {
+    registerPermissions('reports', ['reports:read']);
+    expect(() => registerPermissions('reports', ['reports:read'])).not.toThrow();
+  });
+
+  it('rejects core, foreign and malformed keys', () => {
+    registerPermissions('reports', ['reports:read']);
+    expect(() => registerPermissions('other', [PERM.MEMBERS_READ])).toThrow(/already registered by kernel/);
+    expect(() => registerPermissions('other', ['reports:read'])).toThrow(/already registered by reports/);
+    expect(() => registerPermissions('other', ['Reports.Read' as 'reports:read'])).toThrow(/invalid permission/);
+  });
+});
+
+describe('resolveRolePerms', () => {
+  it('unions built-in and custom role permissions', () => {
+    const perms = resolveRolePerms(['billing', 'analyst'], { analyst: ['reports:read', PERM.BILLING_READ] });
+    expect(new Set(perms)).toEqual(new Set([...ROLE_PERMS.billing, 'reports:read']));
+  });
+
+  it('grants nothing for unknown roles', () => {
+    expect(resolveRolePerms(['ghost'])).toEqual([]);
+  });
+
+  it('does not let custom definitions override built-in roles', () => {
+    expect(resolveRolePerms(['member'], { member: ['reports:read'] })).toEqual([...ROLE_PERMS.member]);
+  });
+});
+
+describe('role and permission keys', () => {
+  it('distinguishes built-in roles', () => {
+    expect(isBuiltinRole('owner')).toBe(true);
+    expect(isBuiltinRole('analyst')).toBe(false);
+  });
+
+  it('validates key formats', () => {
+    expect(ZRoleKey.safeParse('support-lead').success).toBe(true);
+    expect(ZRoleKey.safeParse('Support Lead').success).toBe(false);
+    expect(ZPermissionKey.safeParse('reports:read').success).toBe(true);
+    expect(ZPermissionKey.safeParse('reports').success).toBe(false);
+  });
+});
@@ -38,6 +38,7 @@ export type RedisProvider = {
   zadd?(key: string, item: { score: number; member: string }): Promise<number>;
   zrangebyscore?(key: string, min: number | string, max: number | string): Promise<string[]>;
   zremrangebyscore?(key: string, min: number | string, max: number | string): Promise<number>;
+  zrem?(key: string, member: string): Promise<number>;
   // Health check
   ping(): Promise<string>;
   // Cleanup function for graceful shutdown
@@ -202,6 +203,9 @@ function createMemoryRedis(): RedisProvider {
       }
       return removed;
     },
+    async zrem(key: string, member: string) {
+      return sortedSets.get(key)?.delete(member) ? 1 : 0;
+    },
     async ping() {
       return 'PONG';
     },
@@ -242,6 +246,7 @@ interface IoRedisInstance {
   zadd(key: string, score: number, member: string): Promise<number>;
   zrangebyscore(key: string, min: number | string, max: number | string): Promise<string[]>;
   zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number>;
+  zrem(key: string, member: string): Promise<number>;
 }
 
 function createIoRedis(url: string): { provider: RedisProvider; clients: { client: IoRedisInstance; sub: IoRedisInstance } } {
@@ -369,6 +374,9 @@ function createIoRedis(url: string): { provider: RedisProvider; clients: { clien
     async zremrangebyscore(key: string, min: number | string, max: number | string) {
       return client.zremrangebyscore(key, min, max);
     },
+    async zrem(key: string, member: string) {
+      return client.zrem(key, member);
+    },
     async ping() {
       return client.ping();
     },
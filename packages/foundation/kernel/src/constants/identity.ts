@@ -19,3 +19,15 @@ export const ZUserDeletionReason = z.enum(USER_DELETION_REASONS);
 export const MEMBERSHIP_REMOVAL_REASONS = ['left', 'removed', 'transferred'] as const;
 export type MembershipRemovalReason = (typeof MEMBERSHIP_REMOVAL_REASONS)[number];
 export const ZMembershipRemovalReason = z.enum(MEMBERSHIP_REMOVAL_REASONS);
+
+/**
+ * Tenant invitation status values.
+ * Invitations are managed by the identity module and announced as tenant.invitation.* events.
+ */
+export const INVITATION_STATUS = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  EXPIRED: 'expired',
+  REVOKED: 'revoked',
+} as const;
+export type InvitationStatus = (typeof INVITATION_STATUS)[keyof typeof INVITATION_STATUS];
@@ -6,12 +6,17 @@ export const KV = {
   FLAG: 'flag:v1:',     // feature flag cache
   SETTING: 'setting:v1:', // settings cache
   PERMSET: 'permset:v1:', // cached permission sets
+  ROLES: 'roles:v1:',     // cached custom role definitions per tenant
+  RBAC_GEN: 'rbac:gen:',  // RBAC cache generation (per tenant + global)
   PUBSUB: 'cfg-bus',      // config invalidation channel
   USAGE: 'usage:',        // minute buckets
   INAPP: 'inapp:',        // in-app pub channels: inapp:{tenant}:{user}
   WEBHOOK_IDEM: 'whidem:', // inbound webhook idempotency keys: whidem:{provider}:{eventId}
   ENTITLEMENTS: 'entitlements:v1:', // cached entitlements per tenant
+  PLAN_CURRENT: 'plan:current:v1:', // current catalog version per plan
   ANALYTICS: 'analytics:v1:', // analytics dashboard cache
   CREDITS: 'credits:v1:', // cached credits balance per tenant
   AK: 'ak:',              // API key hash cache
+  SCHEDULE: 'schedule:',  // scheduler run history, catalog and run-now requests
+  PROJECTION: 'projection:', // projection catch-up locks
 } as const;
@@ -26,6 +26,23 @@ export const MEDIA_PRESETS = {
 
 export type MediaPreset = keyof typeof MEDIA_PRESETS;
 
+/**
+ * A named rendition generated for every uploaded image and stored next to the
+ * original. Either resized to a `MEDIA_PRESETS` entry, or re-encoded to
+ * `format` and shrunk to `maxWidth` when wider.
+ */
+export type MediaVariantConfig =
+  | { preset: MediaPreset }
+  | { format: MediaFormat; maxWidth?: number; quality?: number };
+
+export const MEDIA_VARIANTS = {
+  thumb: { preset: "THUMBNAIL" },
+  webp: { format: "webp", maxWidth: 2048 },
+  avif: { format: "avif", maxWidth: 2048 },
+} as const satisfies Record<string, MediaVariantConfig>;
+
+export type MediaVariantName = keyof typeof MEDIA_VARIANTS;
+
 export const MEDIA_LIMITS = {
   MAX_WIDTH: 4096,
   MAX_HEIGHT: 4096,
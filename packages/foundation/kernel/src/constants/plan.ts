@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import type { FeatureKey } from './features';
 import { FEATURE } from './features';
+import type { BillingProvider } from './providers';
 
 export const PLANS = ['free', 'pro', 'pro_yearly', 'business', 'business_yearly'] as const;
 export type PlanId = (typeof PLANS)[number];
@@ -29,8 +30,45 @@ export type PlanEntitlements = {
   dailyFree?: Partial<Record<FeatureKey, number>>;
 };
 
+/**
+ * One band of a tiered or volume price. `upTo` is inclusive; the last tier
+ * has `upTo: null`.
+ */
+export type MeteredTier = {
+  upTo: number | null;
+  /** Major units per unit */
+  unitAmount: number;
+  /** Major units charged once when usage reaches the tier */
+  flatAmount?: number;
+};
+
+/**
+ * Usage-based price component of a plan, charged per billing period from
+ * the usage rollups of `feature`.
+ * - `per_unit`: every unit at `unitAmount`
+ * - `tiered`: each unit at the price of the tier it falls in (graduated)
+ * - `volume`: all units at the price of the tier the total falls in
+ */
+export type MeteredPrice = {
+  /** Usage feature key, as passed to usage `increment` */
+  feature: string;
+  label: string;
+  currency: string;
+  model: 'per_unit' | 'tiered' | 'volume';
+  /** Major units; required for `per_unit` */
+  unitAmount?: number;
+  /** Required for `tiered` and `volume` */
+  tiers?: MeteredTier[];
+  /** Free units per period before charging */
+  includedUnits?: number;
+  /** Provider price ids, e.g. a Stripe metered price */
+  providerPriceIds?: Partial<Record<BillingProvider, string>>;
+};
+
 export type PlanDefinition = PlanMeta & {
   entitlements: PlanEntitlements;
+  /** Usage-based price components billed on top of `defaultPrice` */
+  metered?: MeteredPrice[];
 };
 
 const PRO_ENTITLEMENTS: PlanEntitlements = {
@@ -65,6 +103,11 @@ const BUSINESS_ENTITLEMENTS: PlanEntitlements = {
   },
 };
 
+/**
+ * Seed data for the plan catalog. `@unisane/billing` persists these as
+ * version 1 of each plan; admins publish later versions at runtime, so read
+ * plans through the billing catalog rather than from here.
+ */
 export const PLAN_DEFS: Record<PlanId, PlanDefinition> = {
   free: {
     label: 'Free',
@@ -8,6 +8,10 @@ export const BILLING_PROVIDERS = ['stripe', 'razorpay'] as const;
 export type BillingProvider = (typeof BILLING_PROVIDERS)[number];
 export const ZBillingProvider = z.enum(BILLING_PROVIDERS);
 
+export const JOBS_PROVIDERS = ['inngest', 'mongo'] as const;
+export type JobsProvider = (typeof JOBS_PROVIDERS)[number];
+export const ZJobsProvider = z.enum(JOBS_PROVIDERS);
+
 /** Internal billing provider type that includes 'noop' for fallback */
 export type BillingProviderInternal = BillingProvider | 'noop';
 
@@ -3,6 +3,8 @@ export const SETTINGS_NS = {
   NOTIFY: "notify",
   WEBHOOKS: "webhooks",
   BRANDING: "branding",
+  AI: "ai",
+  BILLING: "billing",
 } as const;
 
 export type SettingsNamespace =
@@ -17,6 +19,17 @@ export const WEBHOOKS_SETTING_KEYS = {
   ALLOWED_HOSTS: "allowedHosts",
 } as const;
 
+export const AI_SETTING_KEYS = {
+  POLICY: "policy",
+} as const;
+
+export const BILLING_SETTING_KEYS = {
+  INVOICE_PROFILE: "invoiceProfile",
+  DUNNING: "dunning",
+  TAX: "tax",
+  TAX_EXEMPTION: "taxExemption",
+} as const;
+
 // Setting definition registry
 export interface SettingDefinition {
   namespace: string;
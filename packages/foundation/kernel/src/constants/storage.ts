@@ -37,6 +37,7 @@ export const FILE_STATUS = {
   PENDING: "pending", // Upload requested but not confirmed
   ACTIVE: "active", // Upload confirmed, file exists
   DELETED: "deleted", // Soft deleted, awaiting cleanup
+  QUARANTINED: "quarantined", // Flagged by a content scan, not downloadable
 } as const;
 
 export type FileStatus = (typeof FILE_STATUS)[keyof typeof FILE_STATUS];
@@ -45,6 +46,7 @@ export const ZFileStatus = z.enum([
   FILE_STATUS.PENDING,
   FILE_STATUS.ACTIVE,
   FILE_STATUS.DELETED,
+  FILE_STATUS.QUARANTINED,
 ]);
 
 // ---------------------------------------------------------------------------
@@ -94,6 +96,16 @@ export const STORAGE_LIMITS = {
   PRESIGN_EXPIRY_SEC: 600,
   /** Soft delete retention before hard delete (7 days) */
   SOFT_DELETE_RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+  /** Smallest multipart part size; only the last part may be smaller (5 MiB) */
+  MULTIPART_MIN_PART_SIZE: 5 * 1024 * 1024,
+  /** Part size used when the client does not ask for one (8 MiB) */
+  MULTIPART_DEFAULT_PART_SIZE: 8 * 1024 * 1024,
+  /** Max parts per multipart upload */
+  MULTIPART_MAX_PARTS: 10000,
+  /** Max part URLs signed per request */
+  MULTIPART_MAX_SIGN_BATCH: 100,
+  /** Default max size of a multipart upload (5 GiB); override with STORAGE_MULTIPART_MAX_BYTES */
+  MULTIPART_MAX_FILE_SIZE: 5 * 1024 * 1024 * 1024,
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -121,6 +133,17 @@ export function generateStorageKey(params: {
   return `${params.scopeId}/${params.folder}/${year}/${month}/${params.uuid}_${safeFilename}.${ext}`;
 }
 
+/**
+ * Key for a derived variant stored alongside its original
+ * Format: {originalKeyWithoutExt}.{variant}.{ext}
+ */
+export function generateVariantKey(originalKey: string, variant: string, ext: string): string {
+  const slash = originalKey.lastIndexOf("/");
+  const dot = originalKey.lastIndexOf(".");
+  const base = dot > slash ? originalKey.slice(0, dot) : originalKey;
+  return `${base}.${variant}.${ext}`;
+}
+
 /**
  * Parse scope ID from storage key
  */
@@ -23,6 +23,7 @@ export const COLLECTIONS = {
   // Auth Module
   // ─────────────────────────────────────────────────────────────────────────
   AUTH_CREDENTIALS: "auth_credentials",
+  AUTH_MFA: "auth_mfa",
 
   // ─────────────────────────────────────────────────────────────────────────
   // Identity Module
@@ -30,6 +31,8 @@ export const COLLECTIONS = {
   USERS: "users",
   MEMBERSHIPS: "memberships",
   API_KEYS: "api_keys",
+  INVITATIONS: "invitations",
+  ROLES: "roles",
 
   // ─────────────────────────────────────────────────────────────────────────
   // Tenants Module
@@ -44,6 +47,12 @@ export const COLLECTIONS = {
   INVOICES: "invoices",
   ORDERS: "orders",
   TENANT_INTEGRATIONS: "tenant_integrations",
+  PLAN_VERSIONS: "plan_versions",
+  COUPONS: "coupons",
+  PROMOTION_CODES: "promotion_codes",
+  COUPON_REDEMPTIONS: "coupon_redemptions",
+  DUNNING_CASES: "dunning_cases",
+  METERED_USAGE: "metered_usage",
 
   // ─────────────────────────────────────────────────────────────────────────
   // Credits Module
@@ -56,6 +65,7 @@ export const COLLECTIONS = {
   FEATURE_FLAGS: "feature_flags",
   FLAG_OVERRIDES: "feature_flag_overrides",
   FLAG_EXPOSURES: "feature_flag_exposures",
+  FLAG_SEGMENTS: "feature_flag_segments",
 
   // ─────────────────────────────────────────────────────────────────────────
   // Settings Module
@@ -90,6 +100,13 @@ export const COLLECTIONS = {
   WEBHOOKS: "webhooks",
   WEBHOOK_EVENTS: "webhook_events",
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // AI Module
+  // ─────────────────────────────────────────────────────────────────────────
+  AI_PROMPT_TEMPLATES: "ai_prompt_templates",
+  AI_THREADS: "ai_threads",
+  AI_THREAD_MESSAGES: "ai_thread_messages",
+
   // ─────────────────────────────────────────────────────────────────────────
   // Import/Export (PRO)
   // ─────────────────────────────────────────────────────────────────────────
@@ -103,6 +120,12 @@ export const COLLECTIONS = {
   /** BOOT-006 FIX: Separate collection for domain events outbox */
   EVENTS_OUTBOX: "_events_outbox",
   DEAD_LETTER: "_dead_letter",
+  SAGAS: "_sagas",
+  SAGA_LEASES: "_saga_leases",
+  JOBS: "_jobs",
+  EVENTS: "_events",
+  PROJECTIONS: "_projections",
+  SNAPSHOTS: "_snapshots",
   MIGRATIONS: "_migrations",
 } as const;
 
@@ -24,6 +24,10 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { userId: 1 }, name: "authcred_user" },
   ],
 
+  [COLLECTIONS.AUTH_MFA]: [
+    { key: { userId: 1 }, unique: true, name: "authmfa_user_unique" },
+  ],
+
   // ─────────────────────────────────────────────────────────────────────────
   // Identity Module
   // ─────────────────────────────────────────────────────────────────────────
@@ -39,6 +43,8 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
   [COLLECTIONS.MEMBERSHIPS]: [
     { key: { tenantId: 1, userId: 1, deletedAt: 1 }, name: "memberships_tenant_user_deleted" },
     { key: { userId: 1, deletedAt: 1 }, name: "memberships_user_deleted" },
+    // Members holding a role, checked before a custom role is deleted
+    { key: { scopeId: 1, "roles.roleId": 1 }, name: "memberships_scope_role" },
   ],
 
   [COLLECTIONS.API_KEYS]: [
@@ -46,6 +52,22 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { keyHash: 1 }, unique: true, sparse: true, name: "apikeys_hash_unique" },
   ],
 
+  [COLLECTIONS.INVITATIONS]: [
+    // At most one pending invitation per email and tenant
+    {
+      key: { scopeId: 1, email: 1 },
+      unique: true,
+      partialFilterExpression: { status: "pending" },
+      name: "invitations_scope_email_pending_unique",
+    },
+    { key: { scopeId: 1, status: 1, createdAt: -1 }, name: "invitations_scope_status_created" },
+  ],
+
+  [COLLECTIONS.ROLES]: [
+    // Custom role keys are unique per tenant
+    { key: { scopeId: 1, key: 1 }, unique: true, name: "roles_scope_key_unique" },
+  ],
+
   // ─────────────────────────────────────────────────────────────────────────
   // Tenants Module
   // ─────────────────────────────────────────────────────────────────────────
@@ -84,6 +106,48 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { provider: 1, customerId: 1 }, name: "ti_provider_customer" },
   ],
 
+  [COLLECTIONS.PLAN_VERSIONS]: [
+    { key: { planId: 1, version: -1 }, unique: true, name: "plans_plan_version_unique" },
+  ],
+
+  [COLLECTIONS.COUPONS]: [
+    { key: { archivedAt: 1, createdAt: -1 }, name: "coupons_archived_created" },
+  ],
+
+  [COLLECTIONS.PROMOTION_CODES]: [
+    { key: { code: 1 }, unique: true, name: "promo_code_unique" },
+    { key: { couponId: 1, createdAt: -1 }, name: "promo_coupon_created" },
+  ],
+
+  [COLLECTIONS.COUPON_REDEMPTIONS]: [
+    // One redemption per coupon per scope
+    { key: { couponId: 1, scopeId: 1 }, unique: true, name: "redemptions_coupon_scope_unique" },
+    { key: { scopeId: 1, createdAt: -1 }, name: "redemptions_scope_created" },
+    // Pending checkout reservations past their expiry
+    { key: { status: 1, expiresAt: 1 }, name: "redemptions_status_expires" },
+  ],
+
+  [COLLECTIONS.DUNNING_CASES]: [
+    // At most one open case per scope
+    {
+      key: { scopeId: 1 },
+      unique: true,
+      partialFilterExpression: { status: "open" },
+      name: "dunning_scope_open_unique",
+    },
+    { key: { status: 1, startedAt: -1 }, name: "dunning_status_started" },
+  ],
+
+  [COLLECTIONS.METERED_USAGE]: [
+    // One record per scope, feature and billing period
+    {
+      key: { scopeId: 1, feature: 1, periodStart: 1 },
+      unique: true,
+      name: "metered_scope_feature_period_unique",
+    },
+    { key: { scopeId: 1, periodStart: -1 }, name: "metered_scope_period" },
+  ],
+
   // ─────────────────────────────────────────────────────────────────────────
   // Audit Module
   // ─────────────────────────────────────────────────────────────────────────
@@ -140,6 +204,7 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
   // ─────────────────────────────────────────────────────────────────────────
   [COLLECTIONS.FEATURE_FLAGS]: [
     { key: { key: 1 }, unique: true, name: "flags_key_unique" },
+    { key: { env: 1, segmentRefs: 1 }, name: "flags_env_segment_refs" },
   ],
 
   [COLLECTIONS.FLAG_OVERRIDES]: [
@@ -147,6 +212,14 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { flagKey: 1, userId: 1 }, name: "overrides_flag_user" },
   ],
 
+  [COLLECTIONS.FLAG_EXPOSURES]: [
+    { key: { env: 1, flagKey: 1, timestamp: 1 }, name: "exposures_env_flag_time" },
+  ],
+
+  [COLLECTIONS.FLAG_SEGMENTS]: [
+    { key: { env: 1, key: 1 }, unique: true, name: "flag_segments_env_key_unique" },
+  ],
+
   // ─────────────────────────────────────────────────────────────────────────
   // Storage Module
   // ─────────────────────────────────────────────────────────────────────────
@@ -155,6 +228,21 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { tenantId: 1, createdAt: -1 }, name: "files_tenant_created" },
   ],
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // AI Module
+  // ─────────────────────────────────────────────────────────────────────────
+  [COLLECTIONS.AI_PROMPT_TEMPLATES]: [
+    { key: { scopeId: 1, key: 1, version: -1 }, unique: true, name: "aitpl_scope_key_version_unique" },
+  ],
+
+  [COLLECTIONS.AI_THREADS]: [
+    { key: { scopeId: 1, userId: 1, _id: -1 }, name: "aithreads_scope_user" },
+  ],
+
+  [COLLECTIONS.AI_THREAD_MESSAGES]: [
+    { key: { threadId: 1, _id: -1 }, name: "aimsgs_thread" },
+  ],
+
   // ─────────────────────────────────────────────────────────────────────────
   // System / Kernel
   // ─────────────────────────────────────────────────────────────────────────
@@ -167,6 +255,53 @@ export const INDEX_DEFINITIONS: Record<string, IndexDescription[]> = {
     { key: { createdAt: -1 }, name: "dlq_created" },
     { key: { originalEvent: 1 }, name: "dlq_event" },
   ],
+
+  [COLLECTIONS.SAGAS]: [
+    { key: { status: 1, updatedAt: 1 }, name: "sagas_status" },
+    { key: { sagaName: 1, status: 1 }, name: "sagas_name_status" },
+    {
+      key: { resumeAt: 1 },
+      name: "sagas_due",
+      partialFilterExpression: { status: "waiting" },
+    },
+    {
+      key: { completedAt: 1 },
+      name: "sagas_completed",
+      partialFilterExpression: { status: { $in: ["completed", "compensated"] } },
+    },
+  ],
+
+  [COLLECTIONS.JOBS]: [
+    { key: { status: 1, runAt: 1 }, name: "jobs_claim" },
+    {
+      key: { uniqueKey: 1 },
+      unique: true,
+      name: "jobs_unique",
+      partialFilterExpression: { uniqueKey: { $exists: true } },
+    },
+    { key: { name: 1, status: 1, lockedUntil: 1 }, name: "jobs_running" },
+    {
+      key: { completedAt: 1 },
+      name: "jobs_completed_ttl",
+      expireAfterSeconds: 604800,
+      partialFilterExpression: { status: "completed" },
+    },
+  ],
+
+  [COLLECTIONS.EVENTS]: [
+    { key: { sequence: 1 }, unique: true, name: "events_sequence_idx" },
+    { key: { "meta.eventId": 1 }, unique: true, name: "events_eventid_idx" },
+    { key: { aggregateId: 1, aggregateVersion: 1 }, name: "events_aggregate_idx" },
+    {
+      key: { aggregateType: 1, aggregateId: 1, aggregateVersion: 1 },
+      unique: true,
+      partialFilterExpression: { aggregateVersion: { $exists: true } },
+      name: "events_aggregate_version_unique",
+    },
+    { key: { "meta.correlationId": 1 }, name: "events_correlation_idx" },
+    { key: { "meta.scopeId": 1, storedAt: -1 }, name: "events_scope_idx" },
+    { key: { type: 1, sequence: 1 }, name: "events_type_sequence_idx" },
+  ],
 };
 
 /**
@@ -3,6 +3,7 @@ import { ZAppEnv, ZLogLevel } from "./constants/env";
 import {
   ZMailProvider,
   ZBillingProvider,
+  ZJobsProvider,
 } from "./constants/providers";
 import {
   ZBillingMode,
@@ -53,6 +54,8 @@ const BaseEnvSchema = z.object({
   JWT_PUBLIC_KEY_PREV: z.string().optional(),
   JWT_KID_PREV: z.string().optional(),
   SESSION_SECRET: z.string().optional(),
+  // Signs tenant invitation links (falls back to SESSION_SECRET)
+  INVITATION_TOKEN_SECRET: z.string().min(32).optional(),
   BETTER_AUTH_SECRET: z.string().optional(),
 
   // Cookies/CORS
@@ -98,6 +101,11 @@ const BaseEnvSchema = z.object({
   STORAGE_BUCKET: z.string().optional(),
   STORAGE_ENDPOINT: z.string().url().optional(),
   STORAGE_FORCE_PATH_STYLE: z.coerce.boolean().optional(),
+  // Max size of a multipart upload in bytes (default: 5 GiB)
+  STORAGE_MULTIPART_MAX_BYTES: z.coerce.number().int().positive().optional(),
+  // ClamAV daemon (optional; scans uploads on confirm when set)
+  CLAMAV_HOST: z.string().optional(),
+  CLAMAV_PORT: z.coerce.number().int().positive().default(3310),
 
   // Billing
   BILLING_PROVIDER: ZBillingProvider.optional(),
@@ -133,6 +141,15 @@ const BaseEnvSchema = z.object({
     .positive()
     .default(60),
 
+  // Background jobs: Inngest (default) or the self-hosted MongoDB queue
+  JOBS_PROVIDER: ZJobsProvider.optional(),
+
+  // Run registered cron schedules in this process (off for deployments driven by an external cron)
+  SCHEDULER_ENABLED: z.coerce.boolean().default(false),
+
+  // Store emitted events in the _events collection and build projections from them
+  EVENT_STORE_ENABLED: z.coerce.boolean().default(false),
+
   // Inngest (optional; required when running Inngest in production)
   INNGEST_EVENT_KEY: z.string().optional(),
   INNGEST_SIGNING_KEY: z.string().optional(),
@@ -173,6 +173,8 @@ export enum ErrorCode {
   STORAGE_QUOTA_EXCEEDED = 'E6004',
   /** Upload failed */
   UPLOAD_FAILED = 'E6005',
+  /** File flagged by a content scan */
+  FILE_QUARANTINED = 'E6006',
 
   // ============================================
   // Integration/Webhook Errors (E7xxx)
@@ -296,6 +298,7 @@ export const ErrorCatalog: Record<ErrorCode, ErrorCatalogEntry> = {
   [ErrorCode.INVALID_FILE_TYPE]: { message: 'File type not allowed', status: 415 },
   [ErrorCode.STORAGE_QUOTA_EXCEEDED]: { message: 'Storage quota exceeded', status: 403 },
   [ErrorCode.UPLOAD_FAILED]: { message: 'Upload failed', status: 500 },
+  [ErrorCode.FILE_QUARANTINED]: { message: 'File failed content scan', status: 422 },
 
   // Webhook (E7xxx)
   [ErrorCode.WEBHOOK_DELIVERY_FAILED]: { message: 'Webhook delivery failed', status: 502 },
@@ -65,6 +65,17 @@ export const StripeSubscriptionChangedSchema = z.object({
   eventType: z.enum(['created', 'updated', 'deleted']),
 });
 
+/**
+ * Emitted when a Stripe subscription checkout completes.
+ * Billing module listens to confirm the promotion code redeemed for it.
+ */
+export const StripeSubscriptionCheckoutCompletedSchema = z.object({
+  scopeId: z.string(),
+  checkoutSessionId: z.string(),
+  subscriptionId: z.string().nullable(),
+  couponId: z.string().nullable().describe('Billing coupon applied at checkout'),
+});
+
 // ============================================================================
 // Razorpay Webhook Events
 // ============================================================================
@@ -96,6 +107,7 @@ export const RazorpaySubscriptionChangedSchema = z.object({
   rawStatus: ZRazorpaySubscriptionStatus.describe('Raw status from Razorpay API'),
   normalizedStatus: ZSubscriptionStatus.describe('Status mapped to internal SSOT via mapRazorpaySubStatus'),
   eventType: z.enum(['activated', 'charged', 'completed', 'updated', 'cancelled', 'paused', 'resumed']),
+  couponId: z.string().nullable().optional().describe('Billing coupon applied at checkout'),
 });
 
 // ============================================================================
@@ -116,6 +128,19 @@ export const StripeInvoiceEventSchema = z.object({
   status: ZInvoiceStatus,
   url: z.string().nullable(),
   eventType: z.string(),
+  /** Provider-assigned invoice number (e.g. "ACME-0042") */
+  number: z.string().nullable().optional(),
+  /** Line items as billed, amounts in major units */
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string(),
+        quantity: z.number(),
+        unitAmount: z.number(),
+        amount: z.number(),
+      })
+    )
+    .optional(),
 });
 
 /**
@@ -182,6 +207,7 @@ export const BillingEventSchemas = {
   'webhook.stripe.topup_completed': StripeTopupCompletedSchema,
   'webhook.stripe.subscription_invoice_paid': StripeSubscriptionInvoicePaidSchema,
   'webhook.stripe.subscription_changed': StripeSubscriptionChangedSchema,
+  'webhook.stripe.subscription_checkout_completed': StripeSubscriptionCheckoutCompletedSchema,
   'webhook.stripe.invoice_event': StripeInvoiceEventSchema,
   'webhook.stripe.payment_event': StripePaymentEventSchema,
   'webhook.stripe.customer_mapping': StripeCustomerMappingEventSchema,
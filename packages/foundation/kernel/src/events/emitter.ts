@@ -8,6 +8,7 @@
 import { generateId } from '../utils/ids';
 import { tryGetScopeContext } from '../scope/context';
 import { getEventSchema } from './registry';
+import { _autoStoreEvent } from './event-store';
 import type { DomainEvent, EventHandler, EventMeta, OutboxEntry } from './types';
 import { logger } from '../observability/logger';
 
@@ -342,6 +343,9 @@ export const events = {
       meta: createEventMeta(source),
     };
 
+    // Append to the event store when one is configured (best-effort)
+    await _autoStoreEvent(event);
+
     // KERN-013 FIX: Snapshot handlers before emit to avoid concurrent modification issues
     // Get handlers for this event type - create snapshot to avoid issues if handlers are modified during emit
     const typeHandlers = state.handlers.get(type) || new Set();
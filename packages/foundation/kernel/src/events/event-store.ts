@@ -169,12 +169,13 @@ export interface EventStorePort {
    * Optimized for event sourcing patterns.
    *
    * @param aggregateId - The aggregate ID
-   * @param options - Optional filters
+   * @param options - Optional filters; pass `aggregateType` when IDs are not
+   *   unique across aggregate types
    * @returns Events for the aggregate in order
    */
   getByAggregateId<T = unknown>(
     aggregateId: string,
-    options?: { fromVersion?: number; toVersion?: number }
+    options?: { aggregateType?: string; fromVersion?: number; toVersion?: number }
   ): Promise<StoredEvent<T>[]>;
 
   /**
@@ -384,7 +385,7 @@ export async function getEventByEventId<T = unknown>(
  */
 export async function getEventsByAggregate<T = unknown>(
   aggregateId: string,
-  options?: { fromVersion?: number; toVersion?: number }
+  options?: { aggregateType?: string; fromVersion?: number; toVersion?: number }
 ): Promise<StoredEvent<T>[]> {
   if (!eventStoreProvider) {
     throw new Error('Event store provider not configured. Call setEventStoreProvider() during bootstrap.');
@@ -124,6 +124,7 @@ export {
   StripeTopupCompletedSchema,
   StripeSubscriptionInvoicePaidSchema,
   StripeSubscriptionChangedSchema,
+  StripeSubscriptionCheckoutCompletedSchema,
   StripeInvoiceEventSchema,
   StripePaymentEventSchema,
   StripeCustomerMappingEventSchema,
@@ -115,6 +115,25 @@ export const MembershipRoleChangedSchema = z.object({
   changedBy: z.string().optional(),
 });
 
+export const RoleCreatedSchema = z.object({
+  scopeId: z.string(),
+  key: z.string(),
+  permissions: z.array(z.string()),
+  createdBy: z.string().optional(),
+});
+
+export const RoleUpdatedSchema = z.object({
+  scopeId: z.string(),
+  key: z.string(),
+  permissions: z.array(z.string()),
+  version: z.number(),
+});
+
+export const RoleDeletedSchema = z.object({
+  scopeId: z.string(),
+  key: z.string(),
+});
+
 export const ApiKeyCreatedSchema = z.object({
   scopeId: z.string(),
   keyId: z.string(),
@@ -160,6 +179,18 @@ export const StorageFilePurgedSchema = z.object({
   key: z.string(),
 });
 
+export const StorageFileQuarantinedSchema = z.object({
+  scopeId: z.string(),
+  fileId: z.string(),
+  key: z.string(),
+  filename: z.string(),
+  uploaderId: z.string(),
+  /** Name of the scanner that flagged the file */
+  scanner: z.string(),
+  reason: z.string(),
+  detectedType: z.string().optional(),
+});
+
 export const StorageCleanupOrphanedSchema = z.object({
   count: z.number(),
   olderThanMs: z.number(),
@@ -196,6 +227,8 @@ export const PaymentSucceededSchema = z.object({
   amount: z.number(),
   currency: z.string(),
   invoiceId: z.string().optional(),
+  provider: z.string().optional(),
+  providerPaymentId: z.string().optional(),
 });
 
 export const PaymentFailedSchema = z.object({
@@ -203,6 +236,8 @@ export const PaymentFailedSchema = z.object({
   amount: z.number(),
   currency: z.string(),
   reason: z.string().optional(),
+  provider: z.string().optional(),
+  providerPaymentId: z.string().optional(),
 });
 
 // ============================================================================
@@ -379,6 +414,74 @@ export const AuthOauthProfileBackfillSchema = z.object({
   displayName: z.string().optional(),
 });
 
+/** Emitted when a user confirms TOTP enrollment and MFA becomes active */
+export const AuthMfaEnrolledSchema = z.object({
+  userId: z.string(),
+  method: z.literal('totp'),
+});
+
+/** Emitted when a user turns MFA off */
+export const AuthMfaDisabledSchema = z.object({
+  userId: z.string(),
+});
+
+/** Emitted when a recovery code is spent in place of a TOTP code */
+export const AuthMfaRecoveryCodeUsedSchema = z.object({
+  userId: z.string(),
+  remaining: z.number().int().nonnegative(),
+});
+
+// ============================================================================
+// Flags Events
+// ============================================================================
+
+/** Emitted when a tenant/user flag override is created or changed */
+export const FlagOverrideSetSchema = z.object({
+  env: z.string(),
+  key: z.string(),
+  scopeType: z.enum(['tenant', 'user']),
+  scopeId: z.string(),
+  value: z.boolean(),
+  variant: z.string().nullable().optional(),
+  expiresAt: z.string().nullable().optional(), // ISO 8601
+  previous: z
+    .object({
+      value: z.boolean(),
+      variant: z.string().nullable().optional(),
+      expiresAt: z.string().nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+  actorId: z.string().optional(),
+});
+
+/** Emitted when a flag override is cleared manually or after it expired */
+export const FlagOverrideRemovedSchema = z.object({
+  env: z.string(),
+  key: z.string(),
+  scopeType: z.enum(['tenant', 'user']),
+  scopeId: z.string(),
+  reason: z.enum(['manual', 'expired']),
+  actorId: z.string().optional(),
+});
+
+// ============================================================================
+// PDF Events
+// ============================================================================
+
+export const PdfGeneratedSchema = z.object({
+  scopeId: z.string(),
+  fileId: z.string(),
+  pages: z.number(),
+  renderer: z.string(),
+});
+
+export const PdfFailedSchema = z.object({
+  scopeId: z.string(),
+  renderer: z.string(),
+  error: z.string(),
+});
+
 // ============================================================================
 // Webhook Events
 // ============================================================================
@@ -426,6 +529,9 @@ export const EventSchemas = {
 
   // Identity events
   'identity.membership.role_changed': MembershipRoleChangedSchema,
+  'identity.role.created': RoleCreatedSchema,
+  'identity.role.updated': RoleUpdatedSchema,
+  'identity.role.deleted': RoleDeletedSchema,
   'identity.apikey.created': ApiKeyCreatedSchema,
   'identity.apikey.revoked': ApiKeyRevokedSchema,
 
@@ -434,6 +540,7 @@ export const EventSchemas = {
   'storage.upload.confirmed': StorageUploadConfirmedSchema,
   'storage.file.deleted': StorageFileDeletedSchema,
   'storage.file.purged': StorageFilePurgedSchema,
+  'storage.file.quarantined': StorageFileQuarantinedSchema,
   'storage.cleanup.orphaned': StorageCleanupOrphanedSchema,
   'storage.cleanup.deleted': StorageCleanupDeletedSchema,
 
@@ -464,6 +571,14 @@ export const EventSchemas = {
   'settings.updated': SettingUpdatedSchema,
   'settings.deleted': SettingDeletedSchema,
 
+  // Flags events
+  'flags.override.set': FlagOverrideSetSchema,
+  'flags.override.removed': FlagOverrideRemovedSchema,
+
+  // PDF events
+  'pdf.generated': PdfGeneratedSchema,
+  'pdf.failed': PdfFailedSchema,
+
   // Webhook events
   'webhooks.replayed': WebhookReplayedSchema,
   'webhooks.delivered': WebhookDeliveredSchema,
@@ -481,6 +596,9 @@ export const EventSchemas = {
 
   // Auth events (for event-driven side effects)
   'auth.oauth.profile_backfill': AuthOauthProfileBackfillSchema,
+  'auth.mfa.enrolled': AuthMfaEnrolledSchema,
+  'auth.mfa.disabled': AuthMfaDisabledSchema,
+  'auth.mfa.recovered': AuthMfaRecoveryCodeUsedSchema,
 
   // Billing integration events (for event-driven decoupling)
   ...BillingEventSchemas,
@@ -24,6 +24,12 @@ export * from './events';
 // Saga (process manager for multi-step workflows)
 export * from './saga';
 
+// Scheduler (cron-style scheduled tasks)
+export * from './scheduler';
+
+// Projections (read models built from the event store)
+export * from './projections';
+
 // Errors (domain error hierarchy)
 export * from './errors';
 
@@ -41,6 +47,7 @@ export * from './pagination';
 
 // RBAC
 export * from './rbac';
+export { getRbacGeneration, bumpRbacGeneration } from './rbac/generation';
 
 // Security (input sanitization, XSS protection)
 export * from './security/sanitize';
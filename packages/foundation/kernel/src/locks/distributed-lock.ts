@@ -171,6 +171,44 @@ export async function releaseLock(lock: Lock): Promise<boolean> {
   }
 }
 
+/**
+ * Extend a distributed lock's expiry.
+ *
+ * Only extends the lock if we own it (token matches). Use it to keep a lock
+ * for work that may outlast the TTL it was acquired with.
+ *
+ * @param lock - The lock to extend (its expiresAt is updated)
+ * @param ttlMs - New time-to-live from now in milliseconds
+ * @returns true if the lock was extended, false if it was released or expired
+ */
+export async function extendLock(lock: Lock, ttlMs: number): Promise<boolean> {
+  const lockKey = `${LOCK_PREFIX}${lock.key}`;
+
+  try {
+    const currentToken = await kv.get(lockKey);
+    if (currentToken !== lock.token) {
+      logger.debug('Lock not extended - token mismatch or expired', {
+        module: 'locks',
+        key: lock.key,
+        ourToken: lock.token,
+        currentToken: currentToken ?? 'none',
+      });
+      return false;
+    }
+
+    await kv.set(lockKey, lock.token, { PX: ttlMs });
+    lock.expiresAt = Date.now() + ttlMs;
+    return true;
+  } catch (error) {
+    logger.error('Error extending lock', {
+      module: 'locks',
+      key: lock.key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
 /**
  * Execute a function while holding a distributed lock.
  *
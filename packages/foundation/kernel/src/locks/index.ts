@@ -5,6 +5,7 @@
  */
 export {
   acquireLock,
+  extendLock,
   releaseLock,
   withLock,
   type Lock,
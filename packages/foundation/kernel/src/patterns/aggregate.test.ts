@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InMemorySnapshotStore,
+  clearSnapshotStoreProvider,
+  createAggregateRepository,
+  defineAggregate,
+  setSnapshotStoreProvider,
+} from './aggregate';
+import {
+  clearEventStoreProvider,
+  setEventStoreProvider,
+  type EventStorePort,
+  type StoredEvent,
+} from '../events/event-store';
+
+type Ledger = { balance: number; entries: number };
+
+function createMemoryEventStore() {
+  const events: StoredEvent[] = [];
+
+  const getByAggregateId = vi.fn(
+    async (aggregateId: string, options?: { aggregateType?: string; fromVersion?: number }) =>
+      events.filter(
+        (e) =>
+          e.aggregateId === aggregateId &&
+          (!options?.aggregateType || e.aggregateType === options.aggregateType) &&
+          (options?.fromVersion === undefined || (e.aggregateVersion ?? 0) >= options.fromVersion)
+      )
+  );
+
+  function add(aggregateId: string, type: string, amount: number, aggregateType = 'CreditLedger') {
+    const version =
+      events.filter((e) => e.aggregateId === aggregateId && e.aggregateType === aggregateType).length + 1;
+    events.push({
+      type,
+      payload: { amount },
+      meta: { eventId: `evt_${events.length + 1}`, timestamp: new Date().toISOString(), version: 1, source: 'test' },
+      sequence: events.length + 1,
+      aggregateId,
+      aggregateType,
+      aggregateVersion: version,
+      storedAt: new Date(),
+    });
+  }
+
+  return { store: { getByAggregateId } as unknown as EventStorePort, getByAggregateId, add };
+}
+
+function ledgerDefinition(overrides: { schemaVersion?: number; snapshotEvery?: number } = {}) {
+  return defineAggregate<Ledger>({
+    type: 'CreditLedger',
+    initialState: () => ({ balance: 0, entries: 0 }),
+    apply: (state, event) => {
+      const { amount } = event.payload as { amount: number };
+      const delta = event.type === 'credits.granted' ? amount : -amount;
+      return { balance: state.balance + delta, entries: state.entries + 1 };
+    },
+    ...overrides,
+  });
+}
+
+describe('createAggregateRepository', () => {
+  let events: ReturnType<typeof createMemoryEventStore>;
+  let snapshots: InMemorySnapshotStore;
+
+  beforeEach(() => {
+    events = createMemoryEventStore();
+    snapshots = new InMemorySnapshotStore();
+    setEventStoreProvider(events.store);
+    setSnapshotStoreProvider(snapshots);
+  });
+
+  afterEach(() => {
+    clearEventStoreProvider();
+    clearSnapshotStoreProvider();
+  });
+
+  it('rebuilds state from the aggregate events', async () => {
+    const ledger = createAggregateRepository(ledgerDefinition());
+    events.add('t_1', 'credits.granted', 100);
+    events.add('t_2', 'credits.granted', 5);
+    events.add('t_1', 'credits.consumed', 30);
+    events.add('t_1', 'credits.granted', 1000, 'PromoLedger');
+
+    expect(await ledger.load('t_1')).toEqual({
+      id: 't_1',
+      state: { balance: 70, entries: 2 },
+      version: 2,
+      snapshotVersion: null,
+      eventsReplayed: 2,
+    });
+    expect(await ledger.load('t_3')).toMatchObject({ state: { balance: 0, entries: 0 }, version: 0 });
+  });
+
+  it('snapshots every N events and loads snapshot plus tail', async () => {
+    const ledger = createAggregateRepository(ledgerDefinition({ snapshotEvery: 3 }));
+    for (let i = 0; i < 4; i++) events.add('t_1', 'credits.granted', 10);
+
+    expect(await ledger.load('t_1')).toMatchObject({ version: 4, snapshotVersion: null, eventsReplayed: 4 });
+    expect(await snapshots.get('CreditLedger', 't_1')).toMatchObject({
+      version: 4,
+      schemaVersion: 1,
+      state: { balance: 40, entries: 4 },
+    });
+
+    events.add('t_1', 'credits.consumed', 15);
+    expect(await ledger.load('t_1')).toMatchObject({
+      state: { balance: 25, entries: 5 },
+      version: 5,
+      snapshotVersion: 4,
+      eventsReplayed: 1,
+    });
+    expect(events.getByAggregateId).toHaveBeenLastCalledWith('t_1', { aggregateType: 'CreditLedger', fromVersion: 5 });
+    // One event past the snapshot is below the threshold
+    expect((await snapshots.get('CreditLedger', 't_1'))?.version).toBe(4);
+  });
+
+  it('ignores snapshots written with another schema version', async () => {
+    for (let i = 0; i < 3; i++) events.add('t_1', 'credits.granted', 10);
+    await createAggregateRepository(ledgerDefinition()).snapshot('t_1');
+
+    const ledger = createAggregateRepository(ledgerDefinition({ schemaVersion: 2, snapshotEvery: 3 }));
+    expect(await ledger.load('t_1')).toMatchObject({ version: 3, snapshotVersion: null, eventsReplayed: 3 });
+    expect(await snapshots.get('CreditLedger', 't_1')).toMatchObject({ version: 3, schemaVersion: 2 });
+
+    expect(await ledger.load('t_1')).toMatchObject({ snapshotVersion: 3, eventsReplayed: 0 });
+  });
+
+  it('replays from the first event when snapshots are unavailable', async () => {
+    const failing = new InMemorySnapshotStore();
+    vi.spyOn(failing, 'get').mockRejectedValue(new Error('snapshot store down'));
+    vi.spyOn(failing, 'save').mockRejectedValue(new Error('snapshot store down'));
+    events.add('t_1', 'credits.granted', 10);
+
+    const ledger = createAggregateRepository(ledgerDefinition({ snapshotEvery: 1 }), { snapshots: failing });
+    expect(await ledger.load('t_1')).toMatchObject({ state: { balance: 10 }, snapshotVersion: null });
+
+    clearSnapshotStoreProvider();
+    expect(await createAggregateRepository(ledgerDefinition()).snapshot('t_1')).toMatchObject({ version: 1 });
+  });
+});
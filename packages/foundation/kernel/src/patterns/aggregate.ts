@@ -0,0 +1,296 @@
+/**
+ * Aggregate Pattern
+ *
+ * Rebuilds event-sourced aggregates from the event store. An aggregate is
+ * defined by an initial state and a reducer; loading replays the
+ * aggregate's events through the reducer.
+ *
+ * Long-lived aggregates are loaded from a snapshot plus the events stored
+ * after it. A snapshot is saved whenever a load replays at least
+ * `snapshotEvery` events past the previous one. Snapshots carry the
+ * definition's `schemaVersion`: bump it when the reducer or the state
+ * shape changes, and older snapshots are ignored and replaced.
+ *
+ * Loads read the events appended with the definition's `type` as
+ * `aggregateType`. Tail loading relies on `aggregateVersion`, so append the
+ * aggregate's events with consecutive versions starting at 1; the event
+ * store's unique `(aggregateType, aggregateId, aggregateVersion)` index
+ * rejects a concurrent append of a version that already exists.
+ *
+ * @example
+ * ```typescript
+ * import { appendToEventStore, createAggregateRepository, defineAggregate } from '@unisane/kernel';
+ *
+ * const ledger = createAggregateRepository(defineAggregate<{ balance: number }>({
+ *   type: 'CreditLedger',
+ *   initialState: () => ({ balance: 0 }),
+ *   apply: (state, event) => {
+ *     const { amount } = event.payload as { amount: number };
+ *     if (event.type === 'credits.granted') return { balance: state.balance + amount };
+ *     if (event.type === 'credits.consumed') return { balance: state.balance - amount };
+ *     return state;
+ *   },
+ *   schemaVersion: 1,
+ *   snapshotEvery: 100,
+ * }));
+ *
+ * const { state, version } = await ledger.load('tenant_123');
+ * await appendToEventStore(event, {
+ *   aggregateId: 'tenant_123',
+ *   aggregateType: 'CreditLedger',
+ *   aggregateVersion: version + 1,
+ * });
+ * ```
+ */
+
+import { getEventsByAggregate, type StoredEvent } from '../events/event-store';
+import { logger } from '../observability/logger';
+
+/**
+ * Saved state of an aggregate at a version.
+ */
+export interface AggregateSnapshot<TState = unknown> {
+  aggregateId: string;
+  aggregateType: string;
+  /** Version of the last event applied to the state */
+  version: number;
+  /** Schema version of the definition that wrote the snapshot */
+  schemaVersion: number;
+  /** Aggregate state; must survive serialization by the snapshot store */
+  state: TState;
+  createdAt: Date;
+}
+
+/**
+ * Port interface for aggregate snapshot persistence. Stores keep the
+ * latest snapshot per aggregate.
+ */
+export interface SnapshotStorePort {
+  /**
+   * Get the latest snapshot of an aggregate.
+   */
+  get<TState>(aggregateType: string, aggregateId: string): Promise<AggregateSnapshot<TState> | null>;
+
+  /**
+   * Save a snapshot. Stores must not replace a snapshot of the same schema
+   * version with an older one.
+   */
+  save<TState>(snapshot: AggregateSnapshot<TState>): Promise<void>;
+
+  /**
+   * Delete the snapshot of an aggregate.
+   */
+  delete(aggregateType: string, aggregateId: string): Promise<void>;
+}
+
+/**
+ * Event-sourced aggregate definition.
+ */
+export interface AggregateDefinition<TState> {
+  /** Aggregate type (e.g., 'CreditLedger') */
+  type: string;
+  /** State before the first event */
+  initialState: () => TState;
+  /** Reducer applying one event; return the next state without mutating the input */
+  apply: (state: TState, event: StoredEvent) => TState;
+  /**
+   * Version of the state schema. Bump it when `apply` or the state shape
+   * changes so snapshots written by the old reducer are ignored (default: 1).
+   */
+  schemaVersion?: number;
+  /** Save a snapshot once this many events were replayed past the last one; 0 disables snapshots (default: 50) */
+  snapshotEvery?: number;
+}
+
+/**
+ * Aggregate state rebuilt from the event store.
+ */
+export interface LoadedAggregate<TState> {
+  id: string;
+  state: TState;
+  /** Version of the last applied event (0 for an aggregate without events) */
+  version: number;
+  /** Version of the snapshot the load started from, or null when replayed from the first event */
+  snapshotVersion: number | null;
+  /** Events replayed on top of the snapshot */
+  eventsReplayed: number;
+}
+
+/**
+ * Loads aggregates of one type.
+ */
+export interface AggregateRepository<TState> {
+  /**
+   * Rebuild an aggregate from its latest snapshot and the events after it.
+   */
+  load(id: string): Promise<LoadedAggregate<TState>>;
+
+  /**
+   * Rebuild an aggregate and save a snapshot of it regardless of `snapshotEvery`.
+   */
+  snapshot(id: string): Promise<LoadedAggregate<TState>>;
+}
+
+// =============================================================================
+// Snapshot Store
+// =============================================================================
+
+let snapshotStoreProvider: SnapshotStorePort | null = null;
+
+/**
+ * Set the snapshot store provider.
+ * Without one, aggregates are always replayed from the first event.
+ */
+export function setSnapshotStoreProvider(provider: SnapshotStorePort): void {
+  snapshotStoreProvider = provider;
+  logger.debug('Snapshot store provider configured', { module: 'aggregates' });
+}
+
+/**
+ * Get the snapshot store provider.
+ * Returns null if not configured.
+ */
+export function getSnapshotStoreProvider(): SnapshotStorePort | null {
+  return snapshotStoreProvider;
+}
+
+/**
+ * Clear the snapshot store provider (for testing).
+ */
+export function clearSnapshotStoreProvider(): void {
+  snapshotStoreProvider = null;
+}
+
+/**
+ * In-memory snapshot store for testing.
+ */
+export class InMemorySnapshotStore implements SnapshotStorePort {
+  private snapshots = new Map<string, AggregateSnapshot>();
+
+  async get<TState>(aggregateType: string, aggregateId: string): Promise<AggregateSnapshot<TState> | null> {
+    const snapshot = this.snapshots.get(`${aggregateType}:${aggregateId}`);
+    return snapshot ? (structuredClone(snapshot) as AggregateSnapshot<TState>) : null;
+  }
+
+  async save<TState>(snapshot: AggregateSnapshot<TState>): Promise<void> {
+    const key = `${snapshot.aggregateType}:${snapshot.aggregateId}`;
+    const existing = this.snapshots.get(key);
+    if (existing && existing.schemaVersion === snapshot.schemaVersion && existing.version >= snapshot.version) {
+      return;
+    }
+    this.snapshots.set(key, structuredClone(snapshot));
+  }
+
+  async delete(aggregateType: string, aggregateId: string): Promise<void> {
+    this.snapshots.delete(`${aggregateType}:${aggregateId}`);
+  }
+
+  /** Clear all snapshots (for testing) */
+  clear(): void {
+    this.snapshots.clear();
+  }
+}
+
+// =============================================================================
+// Aggregate Repository
+// =============================================================================
+
+/**
+ * Define an aggregate with type safety.
+ * This is a helper that provides better TypeScript inference.
+ */
+export function defineAggregate<TState>(definition: AggregateDefinition<TState>): AggregateDefinition<TState> {
+  return definition;
+}
+
+/**
+ * Create a repository that loads aggregates of one type.
+ *
+ * @param definition - Aggregate definition
+ * @param options - Snapshot store to use (default: the global provider)
+ */
+export function createAggregateRepository<TState>(
+  definition: AggregateDefinition<TState>,
+  options: { snapshots?: SnapshotStorePort } = {}
+): AggregateRepository<TState> {
+  const { type, initialState, apply, schemaVersion = 1, snapshotEvery = 50 } = definition;
+  const log = logger.child({ module: 'aggregates', aggregateType: type });
+
+  async function readSnapshot(store: SnapshotStorePort, id: string): Promise<AggregateSnapshot<TState> | null> {
+    try {
+      const snapshot = await store.get<TState>(type, id);
+      if (snapshot && snapshot.schemaVersion !== schemaVersion) {
+        log.debug('Ignoring snapshot of another schema version', {
+          aggregateId: id,
+          snapshotSchemaVersion: snapshot.schemaVersion,
+          schemaVersion,
+        });
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      // Snapshots are an optimization; replay from the first event instead
+      log.warn('Failed to read snapshot', {
+        aggregateId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  async function writeSnapshot(store: SnapshotStorePort, aggregate: LoadedAggregate<TState>): Promise<void> {
+    try {
+      await store.save<TState>({
+        aggregateId: aggregate.id,
+        aggregateType: type,
+        version: aggregate.version,
+        schemaVersion,
+        state: aggregate.state,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      log.warn('Failed to save snapshot', {
+        aggregateId: aggregate.id,
+        version: aggregate.version,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function rebuild(id: string, forceSnapshot: boolean): Promise<LoadedAggregate<TState>> {
+    const store = options.snapshots ?? snapshotStoreProvider;
+    const snapshot = store ? await readSnapshot(store, id) : null;
+
+    const events = await getEventsByAggregate(id, {
+      aggregateType: type,
+      ...(snapshot ? { fromVersion: snapshot.version + 1 } : {}),
+    });
+
+    let state = snapshot ? snapshot.state : initialState();
+    let version = snapshot?.version ?? 0;
+    for (const event of events) {
+      state = apply(state, event);
+      version = event.aggregateVersion ?? version + 1;
+    }
+
+    const aggregate: LoadedAggregate<TState> = {
+      id,
+      state,
+      version,
+      snapshotVersion: snapshot?.version ?? null,
+      eventsReplayed: events.length,
+    };
+
+    const due = forceSnapshot || (snapshotEvery > 0 && events.length >= snapshotEvery);
+    if (store && events.length > 0 && due) {
+      await writeSnapshot(store, aggregate);
+    }
+
+    return aggregate;
+  }
+
+  return {
+    load: (id) => rebuild(id, false),
+    snapshot: (id) => rebuild(id, true),
+  };
+}
@@ -63,3 +63,21 @@ export type {
   SqlOptions,
   SqlResult,
 } from "./repository";
+
+// Aggregate Patterns (event-sourced aggregates with snapshots)
+export {
+  InMemorySnapshotStore,
+  setSnapshotStoreProvider,
+  getSnapshotStoreProvider,
+  clearSnapshotStoreProvider,
+  defineAggregate,
+  createAggregateRepository,
+} from "./aggregate";
+
+export type {
+  AggregateSnapshot,
+  SnapshotStorePort,
+  AggregateDefinition,
+  LoadedAggregate,
+  AggregateRepository,
+} from "./aggregate";
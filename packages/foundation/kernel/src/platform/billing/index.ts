@@ -22,6 +22,22 @@ export interface Subscription {
   cancelAtPeriodEnd?: boolean;
 }
 
+/**
+ * Discount applied to a subscription checkout. Adapters map it to a provider
+ * object (Stripe coupon, Razorpay offer).
+ */
+export interface CheckoutDiscount {
+  /** Stable coupon id; adapters that can create provider coupons reuse it */
+  couponId: string;
+  name: string;
+  percentOff?: number;
+  amountOff?: { amountMinorStr: string; currency: string };
+  duration: 'once' | 'repeating' | 'forever';
+  durationInMonths?: number;
+  /** Existing provider object to apply instead (e.g. a Razorpay offer id) */
+  providerRef?: string;
+}
+
 export interface BillingProviderAdapter {
   /** Provider name - 'noop' for fallback when no provider registered */
   name: BillingProviderInternal;
@@ -44,6 +60,9 @@ export interface BillingProviderAdapter {
     quantity?: number;
     successUrl: string;
     cancelUrl: string;
+    discount?: CheckoutDiscount;
+    /** Provider prices of the plan's metered components, added as extra items */
+    meteredPriceIds?: string[];
   }): Promise<CheckoutSession>;
 
   /** Create a topup checkout session */
@@ -89,6 +108,20 @@ export interface BillingProviderAdapter {
     providerPaymentId: string;
     amountMinorStr?: string;
   }): Promise<void>;
+
+  /**
+   * Report the usage of a metered price for the current period. `quantity`
+   * is the period-to-date total and `timestamp` the start of the period:
+   * every report of a period lands on the same timestamp and replaces the
+   * earlier one, so repeating a report is safe whatever the price's
+   * aggregation. Optional: providers without metered subscriptions omit it.
+   */
+  reportUsage?(args: {
+    providerSubId: string;
+    priceId: string;
+    quantity: number;
+    timestamp: Date;
+  }): Promise<void>;
 }
 
 /** Noop billing provider returned when no provider is registered */
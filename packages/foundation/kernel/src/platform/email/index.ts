@@ -3,6 +3,8 @@
  * Actual implementations are injected by the application
  */
 
+import type { EmailAttachment } from '../../ports/notify.port';
+
 export interface EmailMessage {
   to: string | string[];
   subject: string;
@@ -11,6 +13,7 @@ export interface EmailMessage {
   from?: string;
   replyTo?: string;
   headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
 }
 
 export interface SendResult {
@@ -0,0 +1,152 @@
+/**
+ * AI Provider Port
+ *
+ * Abstract interface for LLM text generation.
+ * Implementations can target OpenAI-compatible HTTP APIs, hosted vendors or
+ * local models. When no provider is configured, an offline mock provider is
+ * used so development and tests work without network access.
+ */
+
+import { setGlobalProvider, getGlobalProvider, hasGlobalProvider } from './global-provider';
+import { logger } from '../observability/logger';
+
+const PROVIDER_KEY = 'ai';
+
+export type AiMessageRole = 'system' | 'user' | 'assistant';
+
+export interface AiMessage {
+  role: AiMessageRole;
+  content: string;
+}
+
+export interface AiGenerateRequest {
+  /** Model id; providers fall back to their configured default */
+  model?: string;
+  messages: AiMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the upstream request (e.g. when the client disconnects) */
+  signal?: AbortSignal;
+}
+
+/** Token usage as reported by the provider */
+export interface AiUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiGenerateResult {
+  text: string;
+  model: string;
+  usage: AiUsage;
+  finishReason?: string;
+}
+
+/**
+ * Streamed generation chunk. A stream yields `delta` chunks and ends with
+ * exactly one `done` chunk carrying the final usage.
+ */
+export type AiStreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; model: string; usage: AiUsage; finishReason?: string };
+
+/**
+ * Port interface for LLM providers
+ */
+export interface AiProviderPort {
+  /** Provider name for logs and metrics (e.g. "openai", "mock") */
+  readonly name: string;
+
+  /**
+   * Generate a complete response.
+   */
+  generate(request: AiGenerateRequest): Promise<AiGenerateResult>;
+
+  /**
+   * Generate a response incrementally.
+   */
+  stream(request: AiGenerateRequest): AsyncIterable<AiStreamChunk>;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that do not
+ * report usage.
+ */
+export function estimateAiTokens(text: string): number {
+  return text.length === 0 ? 0 : Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline mock provider. Replies deterministically with an echo of the last
+ * user message and estimates token usage from text length.
+ */
+export function createMockAiProvider(opts: { model?: string; reply?: (prompt: string) => string } = {}): AiProviderPort {
+  const model = opts.model ?? 'mock';
+  const reply = opts.reply ?? ((prompt: string) => `Mock response to: ${prompt}`);
+
+  const respond = (request: AiGenerateRequest) => {
+    const prompt = [...request.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    let text = reply(prompt);
+    if (request.maxTokens !== undefined) text = text.slice(0, request.maxTokens * 4);
+    const usage: AiUsage = {
+      promptTokens: estimateAiTokens(request.messages.map((m) => m.content).join('\n')),
+      completionTokens: estimateAiTokens(text),
+    };
+    return { text, usage, model: request.model ?? model };
+  };
+
+  return {
+    name: 'mock',
+    async generate(request) {
+      const { text, usage, model: used } = respond(request);
+      return { text, model: used, usage, finishReason: 'stop' };
+    },
+    async *stream(request) {
+      const { text, usage, model: used } = respond(request);
+      for (const part of text.match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        yield { type: 'delta', text: part };
+      }
+      yield { type: 'done', model: used, usage, finishReason: 'stop' };
+    },
+  };
+}
+
+const mockAiProvider = createMockAiProvider();
+let warnedMock = false;
+
+/**
+ * Set the AI provider implementation.
+ * Call this during app bootstrap to configure LLM generation.
+ *
+ * @example
+ * ```typescript
+ * import { setAiProvider } from '@unisane/kernel';
+ * import { createOpenAiCompatibleProvider } from '@unisane/ai';
+ *
+ * setAiProvider(createOpenAiCompatibleProvider({ apiKey: process.env.OPENAI_API_KEY! }));
+ * ```
+ */
+export function setAiProvider(provider: AiProviderPort): void {
+  setGlobalProvider(PROVIDER_KEY, provider);
+}
+
+/**
+ * Get the current AI provider, or the offline mock when none is configured.
+ */
+export function getAiProvider(): AiProviderPort {
+  const provider = getGlobalProvider<AiProviderPort>(PROVIDER_KEY);
+  if (provider) return provider;
+  if (!warnedMock) {
+    warnedMock = true;
+    logger.warn('No AI provider configured, using offline mock provider', { module: 'ai' });
+  }
+  return mockAiProvider;
+}
+
+/**
+ * Check if an AI provider has been configured (not the mock fallback).
+ */
+export function hasAiProvider(): boolean {
+  return hasGlobalProvider(PROVIDER_KEY);
+}
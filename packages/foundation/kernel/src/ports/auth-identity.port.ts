@@ -52,6 +52,7 @@ export interface AuthUpdateUserInput {
  */
 export interface AuthIdentityPort {
   // User lookup functions
+  findUserById(userId: string): Promise<AuthUserRef | null>;
   findUserByEmail(emailNorm: string): Promise<AuthUserRef | null>;
   findUserByPhone(phoneNorm: string): Promise<AuthUserRef | null>;
   findUserByUsername(username: string): Promise<AuthUserRef | null>;
@@ -76,6 +77,9 @@ export interface AuthIdentityPort {
     userId: string,
     tenantId: string
   ): Promise<{ id: string } | null>;
+
+  // Tenant invitations: join the inviting tenant after signing up from an invite link
+  acceptInvitation?(args: { token: string; userId: string }): Promise<{ scopeId: string }>;
 }
 
 /**
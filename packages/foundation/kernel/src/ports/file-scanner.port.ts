@@ -0,0 +1,75 @@
+/**
+ * File Scanner Port
+ *
+ * Abstract interface for inspecting uploaded file content before it is
+ * confirmed. `@unisane/storage` always runs its built-in magic-byte sniffer;
+ * a scanner set here (e.g. the ClamAV adapter) runs after it.
+ */
+
+import type { Readable } from 'node:stream';
+import { setGlobalProvider, getGlobalProvider, hasGlobalProvider } from './global-provider';
+
+const PROVIDER_KEY = 'fileScanner';
+
+export interface FileScanInput {
+  key: string;
+  /** Declared MIME type */
+  contentType: string;
+  filename: string;
+  /** Content size in bytes */
+  size: number;
+  /** Read the first `bytes` bytes (fewer when the content is shorter) */
+  readHead(bytes: number): Promise<Buffer>;
+  /** Open a stream over the whole content, for scanners that read all of it */
+  openStream(): Promise<Readable>;
+}
+
+export interface FileScanResult {
+  clean: boolean;
+  /** Why the file was flagged, e.g. a signature name or "content_type_mismatch" */
+  reason?: string;
+  /** MIME type detected from the content, when the scanner knows it */
+  detectedType?: string;
+}
+
+/**
+ * Port interface for file content scanners
+ */
+export interface FileScannerPort {
+  /** Scanner name for logs and events (e.g. "clamav", "magic-bytes") */
+  readonly name: string;
+
+  /**
+   * Inspect the content. Throws when the scan could not be performed, so
+   * callers never treat an unscanned file as clean.
+   */
+  scan(input: FileScanInput): Promise<FileScanResult>;
+}
+
+/**
+ * Set the file scanner implementation.
+ * Call this during app bootstrap.
+ */
+export function setFileScanner(scanner: FileScannerPort): void {
+  setGlobalProvider(PROVIDER_KEY, scanner);
+}
+
+/**
+ * Get the configured file scanner.
+ */
+export function getFileScanner(): FileScannerPort {
+  const scanner = getGlobalProvider<FileScannerPort>(PROVIDER_KEY);
+  if (!scanner) {
+    throw new Error(
+      'FileScannerPort not configured. Call setFileScanner() at bootstrap.'
+    );
+  }
+  return scanner;
+}
+
+/**
+ * Check if a file scanner has been configured.
+ */
+export function hasFileScanner(): boolean {
+  return hasGlobalProvider(PROVIDER_KEY);
+}
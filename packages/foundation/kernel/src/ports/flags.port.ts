@@ -11,6 +11,17 @@ import { setGlobalProvider, getGlobalProvider, hasGlobalProvider } from './globa
 
 const PROVIDER_KEY = 'flags';
 
+/**
+ * Custom attribute value for flag targeting. Arrays match when any element does.
+ */
+export type FlagEvalAttributeValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | ReadonlyArray<string | number>;
+
 /**
  * Context for flag evaluation
  */
@@ -21,6 +32,8 @@ export type FlagEvalCtx = {
   country?: string;
   email?: string;
   tenantTags?: string[];
+  /** App-populated attributes (role, signup date, app version, ...) */
+  attributes?: Record<string, FlagEvalAttributeValue | undefined>;
   now?: Date;
 };
 
@@ -35,6 +48,18 @@ export type IsEnabledForScopeArgs = {
   ctx?: FlagEvalCtx;
 };
 
+/**
+ * Result of evaluating a flag: on/off state plus the served variant and payload.
+ * Boolean flags serve the implicit `on`/`off` variants.
+ */
+export type FlagEvaluationResult = {
+  enabled: boolean;
+  variant: string;
+  value: unknown;
+  reason: string;
+  ruleIndex?: number;
+};
+
 /**
  * Flags port interface for hexagonal architecture.
  * Implementations are provided by the flags module adapter.
@@ -45,6 +70,12 @@ export interface FlagsPort {
    * Checks user override → scope override → rules → default
    */
   isEnabledForScope(args: IsEnabledForScopeArgs): Promise<boolean>;
+
+  /**
+   * Evaluate a flag for a given scope, returning the served variant and payload.
+   * Same precedence as isEnabledForScope.
+   */
+  evaluateForScope(args: IsEnabledForScopeArgs): Promise<FlagEvaluationResult>;
 }
 
 /**
@@ -82,3 +113,11 @@ export function hasFlagsProvider(): boolean {
 export async function isEnabledForScope(args: IsEnabledForScopeArgs): Promise<boolean> {
   return getFlagsProvider().isEnabledForScope(args);
 }
+
+/**
+ * Convenience function: Evaluate a multi-variant flag for a scope.
+ * Uses the configured FlagsPort provider.
+ */
+export async function evaluateFlagForScope(args: IsEnabledForScopeArgs): Promise<FlagEvaluationResult> {
+  return getFlagsProvider().evaluateForScope(args);
+}
@@ -28,11 +28,14 @@ export {
 export {
   type FlagsPort,
   type FlagEvalCtx,
+  type FlagEvalAttributeValue,
   type IsEnabledForScopeArgs,
+  type FlagEvaluationResult,
   setFlagsProvider,
   getFlagsProvider,
   hasFlagsProvider,
   isEnabledForScope,
+  evaluateFlagForScope,
 } from "./flags.port";
 
 export {
@@ -114,6 +117,54 @@ export {
   sendInAppViaPort,
 } from "./notify.port";
 
+export {
+  type AiProviderPort,
+  type AiMessage,
+  type AiMessageRole,
+  type AiGenerateRequest,
+  type AiGenerateResult,
+  type AiStreamChunk,
+  type AiUsage,
+  setAiProvider,
+  getAiProvider,
+  hasAiProvider,
+  createMockAiProvider,
+  estimateAiTokens,
+} from "./ai.port";
+
+export {
+  type PdfRendererPort,
+  type PdfRenderInput,
+  type PdfRenderOutput,
+  type PdfPageSize,
+  setPdfRenderer,
+  getPdfRenderer,
+  hasPdfRenderer,
+} from "./pdf-renderer.port";
+
+export {
+  type FileScannerPort,
+  type FileScanInput,
+  type FileScanResult,
+  setFileScanner,
+  getFileScanner,
+  hasFileScanner,
+} from "./file-scanner.port";
+
+export {
+  type TaxPort,
+  type TaxIdType,
+  type TaxIdCheck,
+  type TaxSeller,
+  type TaxCustomer,
+  type TaxCalculationInput,
+  type TaxLine,
+  type TaxCalculation,
+  setTaxProvider,
+  getTaxProvider,
+  hasTaxProvider,
+} from "./tax.port";
+
 export {
   type JobsPort,
   type JobEvent,
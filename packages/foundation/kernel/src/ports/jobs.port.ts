@@ -18,6 +18,15 @@ export interface JobEvent<T = Record<string, unknown>> {
   name: string;
   /** Event data/payload */
   data: T;
+  /**
+   * Deduplication key. While a job with the same key is pending, sending
+   * again does not enqueue a second one.
+   */
+  uniqueKey?: string;
+  /** Run no earlier than this time (delayed job) */
+  runAt?: Date;
+  /** Tenant the job runs for; queues that support it share capacity fairly between tenants */
+  tenantId?: string;
 }
 
 /**
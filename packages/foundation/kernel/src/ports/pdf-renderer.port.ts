@@ -0,0 +1,69 @@
+/**
+ * PDF Renderer Port
+ *
+ * Abstract interface for turning HTML into a PDF document.
+ * Implementations can wrap a headless browser, a hosted rendering API or a
+ * pure-JS layout engine. `@unisane/pdf` ships a dependency-free renderer that
+ * is used when no provider is configured.
+ */
+
+import { setGlobalProvider, getGlobalProvider, hasGlobalProvider } from './global-provider';
+
+const PROVIDER_KEY = 'pdfRenderer';
+
+export type PdfPageSize = 'A4' | 'Letter' | 'Legal';
+
+export interface PdfRenderInput {
+  /** Fully interpolated HTML document or fragment */
+  html: string;
+  pageSize?: PdfPageSize;
+  /** Page margin in points (1/72 inch) */
+  margin?: number;
+  landscape?: boolean;
+  /** Document title written to the PDF metadata */
+  title?: string;
+}
+
+export interface PdfRenderOutput {
+  bytes: Uint8Array;
+  /** Number of pages in the produced document */
+  pageCount: number;
+}
+
+/**
+ * Port interface for PDF renderers
+ */
+export interface PdfRendererPort {
+  /** Renderer name for logs and metrics (e.g. "chromium", "builtin") */
+  readonly name: string;
+
+  render(input: PdfRenderInput): Promise<PdfRenderOutput>;
+}
+
+/**
+ * Set the PDF renderer implementation.
+ * Call this during app bootstrap to replace the built-in renderer.
+ */
+export function setPdfRenderer(renderer: PdfRendererPort): void {
+  setGlobalProvider(PROVIDER_KEY, renderer);
+}
+
+/**
+ * Get the configured PDF renderer.
+ */
+export function getPdfRenderer(): PdfRendererPort {
+  const renderer = getGlobalProvider<PdfRendererPort>(PROVIDER_KEY);
+  if (!renderer) {
+    throw new Error(
+      'PdfRendererPort not configured. Call setPdfRenderer() at bootstrap.'
+    );
+  }
+  return renderer;
+}
+
+/**
+ * Check if a PDF renderer has been configured.
+ */
+export function hasPdfRenderer(): boolean {
+  return hasGlobalProvider(PROVIDER_KEY);
+}
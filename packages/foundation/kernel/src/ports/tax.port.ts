@@ -0,0 +1,120 @@
+/**
+ * Tax Port
+ *
+ * Abstract interface for sales tax (VAT/GST) calculation and tax ID
+ * validation. `@unisane/billing` falls back to its built-in rules engine
+ * when no implementation is set here, so a provider (e.g. a tax service
+ * API) is only needed for rules the engine does not cover.
+ */
+
+import { setGlobalProvider, getGlobalProvider, hasGlobalProvider } from './global-provider';
+
+const PROVIDER_KEY = 'tax';
+
+export type TaxIdType = 'eu_vat' | 'in_gstin' | 'au_abn';
+
+export interface TaxIdCheck {
+  valid: boolean;
+  type?: TaxIdType;
+  /** ISO 3166-1 alpha-2 country the ID belongs to */
+  country?: string;
+  /** Canonical form: upper case, without spaces or separators */
+  value?: string;
+  /** Why the ID was rejected, e.g. "format" or "checksum" */
+  reason?: string;
+}
+
+/** Seller origin, from the platform tax settings */
+export interface TaxSeller {
+  /** ISO 3166-1 alpha-2 */
+  country: string;
+  /** Sub-national region where it matters (two-digit GST state code in India) */
+  region?: string;
+  /** Countries, besides the origin, where the seller is registered to collect tax */
+  registrations?: string[];
+}
+
+export interface TaxCustomer {
+  /** ISO 3166-1 alpha-2; defaults to the tax ID's country, then the seller's */
+  country?: string;
+  region?: string;
+  /** Business tax ID, makes the customer B2B when valid */
+  taxId?: string;
+  /** Tax-exempt customers are never charged tax */
+  exempt?: boolean;
+}
+
+export interface TaxCalculationInput {
+  /** Taxable amount in major units, after discounts */
+  amount: number;
+  currency: string;
+  seller: TaxSeller;
+  customer: TaxCustomer;
+}
+
+export interface TaxLine {
+  /** e.g. "VAT", "GST", "CGST", "IGST" */
+  name: string;
+  /** Country, or country-region, that levies the tax */
+  jurisdiction: string;
+  /** Percent, e.g. 19 for 19% */
+  rate: number;
+  /** Major units */
+  amount: number;
+}
+
+export interface TaxCalculation {
+  /** Sum of the lines, major units */
+  taxAmount: number;
+  lines: TaxLine[];
+  /** The customer accounts for the tax (cross-border B2B) */
+  reverseCharge: boolean;
+  exempt: boolean;
+  /** Wording required on the invoice, e.g. the reverse charge notice */
+  note?: string;
+}
+
+/**
+ * Port interface for tax calculation
+ */
+export interface TaxPort {
+  /** Provider name for logs (e.g. "rules") */
+  readonly name: string;
+
+  /** Tax due on an amount sold by `seller` to `customer`. */
+  calculate(input: TaxCalculationInput): Promise<TaxCalculation>;
+
+  /**
+   * Check a tax ID. `country` narrows the accepted formats; without it the
+   * format is detected from the ID.
+   */
+  validateTaxId(args: { taxId: string; country?: string }): Promise<TaxIdCheck>;
+}
+
+/**
+ * Set the tax provider implementation.
+ * Call this during app bootstrap.
+ */
+export function setTaxProvider(provider: TaxPort): void {
+  setGlobalProvider(PROVIDER_KEY, provider);
+}
+
+/**
+ * Get the configured tax provider.
+ */
+export function getTaxProvider(): TaxPort {
+  const provider = getGlobalProvider<TaxPort>(PROVIDER_KEY);
+  if (!provider) {
+    throw new Error(
+      'TaxPort not configured. Call setTaxProvider() at bootstrap.'
+    );
+  }
+  return provider;
+}
+
+/**
+ * Check if a tax provider has been configured.
+ */
+export function hasTaxProvider(): boolean {
+  return hasGlobalProvider(PROVIDER_KEY);
+}
@@ -70,9 +70,9 @@ export interface TenantsPort {
   updatePlanId?(tenantId: string, planId: string): Promise<void>;
 
   /**
-   * Update tenant status.
+   * Update tenant status (audited, with an optional reason).
    */
-  updateStatus?(tenantId: string, status: TenantStatus): Promise<void>;
+  updateStatus?(tenantId: string, status: TenantStatus, reason?: string): Promise<void>;
 }
 
 /**
@@ -90,6 +90,30 @@ export interface UsagePort {
     metric: string;
   }): Promise<CurrentUsage>;
 
+  /**
+   * Latest hour (UTC) with non-zero usage of a metric per scope within
+   * [from, to). Scopes without usage are omitted.
+   * Used by flags experiment analysis to join exposures with usage.
+   */
+  getLastUsageByScope?(args: {
+    scopeIds: string[];
+    metric: string;
+    from: Date;
+    to: Date;
+  }): Promise<Map<string, Date>>;
+
+  /**
+   * Totals of hourly rollups per scope and metric within [from, to),
+   * optionally limited to some metrics or scopes. Zero totals are omitted.
+   * Used by billing to charge metered usage.
+   */
+  sumUsage?(args: {
+    from: Date;
+    to: Date;
+    metrics?: string[];
+    scopeIds?: string[];
+  }): Promise<Array<{ scopeId: string; metric: string; value: number }>>;
+
   /**
    * Check if scope is within usage limits.
    */
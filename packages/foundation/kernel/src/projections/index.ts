@@ -0,0 +1,61 @@
+/**
+ * Projections Module
+ *
+ * Read models built incrementally from the event store. A projection
+ * declares handlers per event type; the manager applies new events in
+ * sequence order, keeps a checkpoint per projection, and can rebuild a
+ * read model from the first event.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { defineProjection, getProjectionManager } from '@unisane/kernel';
+ *
+ * getProjectionManager().register(defineProjection({
+ *   name: 'tenants.counts',
+ *   version: 2,
+ *   handlers: {
+ *     'tenant.created': async (event) => { await counts.add(event.payload.scopeId); },
+ *     'tenant.deleted': async (event) => { await counts.remove(event.payload.scopeId); },
+ *   },
+ *   reset: () => counts.clear(),
+ * }));
+ *
+ * getProjectionManager().start();
+ * ```
+ *
+ * ## Lag and rebuilds
+ *
+ * ```typescript
+ * await getProjectionManager().status();           // position, lag, last error
+ * await getProjectionManager().rebuild('tenants.counts');
+ *
+ * registerHealthCheck('projections', createProjectionHealthCheck({ maxLag: 500 }));
+ * ```
+ */
+
+// Types
+export type {
+  ProjectionHandlers,
+  ProjectionDefinition,
+  ProjectionError,
+  ProjectionCheckpoint,
+  ProjectionCheckpointStorePort,
+  ProjectionRunResult,
+  ProjectionStatus,
+} from './types';
+
+// Projection manager
+export {
+  setProjectionCheckpointStore,
+  getProjectionCheckpointStore,
+  clearProjectionCheckpointStore,
+  defineProjection,
+  createProjectionManager,
+  getProjectionManager,
+  clearProjectionManager,
+  createProjectionHealthCheck,
+  listProjectionsAdmin,
+  rebuildProjectionAdmin,
+} from './projection-manager';
+export type { ProjectionManager, ProjectionManagerOptions, ProjectionNameArgs } from './projection-manager';
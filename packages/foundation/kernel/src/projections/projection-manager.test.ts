@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearProjectionCheckpointStore,
+  createProjectionHealthCheck,
+  createProjectionManager,
+  defineProjection,
+  setProjectionCheckpointStore,
+} from './projection-manager';
+import type { ProjectionCheckpoint, ProjectionCheckpointStorePort } from './types';
+import {
+  clearEventStoreProvider,
+  setEventStoreProvider,
+  type EventStorePort,
+  type EventStoreQueryOptions,
+  type StoredEvent,
+} from '../events/event-store';
+import { KV } from '../constants/kv';
+import { acquireLock, releaseLock } from '../locks/distributed-lock';
+import { memoryStore } from '../cache/memory';
+import { NotFoundError } from '../errors/common';
+
+function createMemoryEventStore() {
+  const events: StoredEvent[] = [];
+  let sequence = 0;
+
+  function matches(event: StoredEvent, options: EventStoreQueryOptions = {}): boolean {
+    return (
+      (!options.types || options.types.includes(event.type)) &&
+      (options.fromSequence === undefined || event.sequence >= options.fromSequence) &&
+      (options.toSequence === undefined || event.sequence <= options.toSequence) &&
+      (!options.until || event.storedAt <= options.until)
+    );
+  }
+
+  const store = {
+    async query(options?: EventStoreQueryOptions) {
+      return events.filter((e) => matches(e, options)).slice(0, options?.limit);
+    },
+    async count(options?: EventStoreQueryOptions) {
+      return events.filter((e) => matches(e, options)).length;
+    },
+    async getCurrentSequence() {
+      return sequence;
+    },
+  } as unknown as EventStorePort;
+
+  function add(type: string, payload: unknown, storedAt = new Date(Date.now() - 60000)) {
+    sequence++;
+    events.push({
+      type,
+      payload,
+      meta: { eventId: `evt_${sequence}`, timestamp: storedAt.toISOString(), version: 1, source: 'test' },
+      sequence,
+      storedAt,
+    } as StoredEvent);
+  }
+
+  /** Allocate a sequence whose event is not visible yet; `add` it later by calling the returned function */
+  function allocate(type: string, payload: unknown) {
+    const allocated = ++sequence;
+    return (storedAt = new Date(Date.now() - 60000)) => {
+      events.push({
+        type,
+        payload,
+        meta: { eventId: `evt_${allocated}`, timestamp: storedAt.toISOString(), version: 1, source: 'test' },
+        sequence: allocated,
+        storedAt,
+      } as StoredEvent);
+      events.sort((a, b) => a.sequence - b.sequence);
+    };
+  }
+
+  return { store, add, allocate };
+}
+
+function createMemoryCheckpointStore(): ProjectionCheckpointStorePort {
+  const checkpoints = new Map<string, ProjectionCheckpoint>();
+  return {
+    async get(name) {
+      return checkpoints.get(name) ?? null;
+    },
+    async list() {
+      return [...checkpoints.values()];
+    },
+    async save(checkpoint) {
+      checkpoints.set(checkpoint.name, checkpoint);
+    },
+  };
+}
+
+function tenantCreated(slug: string) {
+  return { scopeId: `t_${slug}`, slug, name: slug, ownerId: 'u_1' };
+}
+
+describe('ProjectionManager', () => {
+  let events: ReturnType<typeof createMemoryEventStore>;
+
+  beforeEach(() => {
+    memoryStore.clear();
+    events = createMemoryEventStore();
+    setEventStoreProvider(events.store);
+    setProjectionCheckpointStore(createMemoryCheckpointStore());
+  });
+
+  afterEach(() => {
+    clearEventStoreProvider();
+    clearProjectionCheckpointStore();
+  });
+
+  function slugsProjection(slugs: string[], overrides: { version?: number; batchSize?: number } = {}) {
+    return defineProjection({
+      name: 'tenants.slugs',
+      handlers: {
+        'tenant.created': async (event) => {
+          slugs.push(event.payload.slug);
+        },
+      },
+      reset: async () => {
+        slugs.length = 0;
+      },
+      ...overrides,
+    });
+  }
+
+  it('applies events of its types from the checkpoint onwards', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager();
+    manager.register(slugsProjection(slugs, { batchSize: 2 }));
+
+    events.add('tenant.created', tenantCreated('acme'));
+    events.add('user.created', { userId: 'u_2' });
+    events.add('tenant.created', tenantCreated('globex'));
+    events.add('tenant.created', tenantCreated('initech'));
+
+    expect(await manager.catchUp('tenants.slugs')).toEqual({
+      name: 'tenants.slugs',
+      applied: 3,
+      position: 4,
+      rebuilt: false,
+    });
+
+    events.add('tenant.created', tenantCreated('hooli'));
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 5 });
+    expect(slugs).toEqual(['acme', 'globex', 'initech', 'hooli']);
+  });
+
+  it('stops on a failing handler and retries from the failed event', async () => {
+    let fail = true;
+    const seen: string[] = [];
+    const manager = createProjectionManager();
+    manager.register(defineProjection({
+      name: 'tenants.slugs',
+      handlers: {
+        'tenant.created': async (event) => {
+          if (fail && event.payload.slug === 'globex') throw new Error('read model unavailable');
+          seen.push(event.payload.slug);
+        },
+      },
+    }));
+
+    events.add('tenant.created', tenantCreated('acme'));
+    events.add('tenant.created', tenantCreated('globex'));
+
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({
+      applied: 1,
+      position: 1,
+      error: 'read model unavailable',
+    });
+    const [status] = await manager.status();
+    expect(status).toMatchObject({
+      position: 1,
+      lag: 1,
+      lastError: expect.objectContaining({ sequence: 2, eventType: 'tenant.created' }),
+    });
+
+    fail = false;
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 2 });
+    expect((await manager.status())[0]?.lastError).toBeNull();
+    expect(seen).toEqual(['acme', 'globex']);
+  });
+
+  it('rebuilds on demand and when the version changes', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager();
+    manager.register(slugsProjection(slugs));
+
+    events.add('tenant.created', tenantCreated('acme'));
+    events.add('tenant.created', tenantCreated('globex'));
+    await manager.catchUp('tenants.slugs');
+
+    expect(await manager.rebuild('tenants.slugs')).toMatchObject({ applied: 2, position: 2, rebuilt: true });
+    expect(slugs).toEqual(['acme', 'globex']);
+    expect((await manager.status())[0]?.rebuiltAt).toBeInstanceOf(Date);
+
+    manager.register(slugsProjection(slugs, { version: 2 }));
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 2, rebuilt: true });
+    expect(slugs).toEqual(['acme', 'globex']);
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 0, rebuilt: false });
+  });
+
+  it('leaves events that have not settled for the next pass', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager({ settleMs: 5000 });
+    manager.register(slugsProjection(slugs));
+
+    events.add('tenant.created', tenantCreated('acme'));
+    events.add('tenant.created', tenantCreated('globex'), new Date());
+
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 1 });
+    expect((await manager.status())[0]?.lag).toBe(1);
+  });
+
+  it('waits for a missing sequence before applying the events after it', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager({ gapTimeoutMs: 30000 });
+    manager.register(slugsProjection(slugs));
+
+    events.add('tenant.created', tenantCreated('acme'));
+    const write = events.allocate('user.created', { userId: 'u_2' });
+    events.add('tenant.created', tenantCreated('globex'), new Date(Date.now() - 5000));
+
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 1 });
+
+    // The late event of another type fills the gap
+    write();
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 3 });
+    expect(slugs).toEqual(['acme', 'globex']);
+  });
+
+  it('skips a sequence that is still missing after the gap timeout', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager({ gapTimeoutMs: 30000 });
+    manager.register(slugsProjection(slugs));
+
+    events.allocate('tenant.created', tenantCreated('lost'));
+    events.add('tenant.created', tenantCreated('acme'));
+
+    expect(await manager.catchUp('tenants.slugs')).toMatchObject({ applied: 1, position: 2 });
+    expect(slugs).toEqual(['acme']);
+  });
+
+  it('skips projections locked by another instance', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager();
+    manager.register(slugsProjection(slugs));
+    events.add('tenant.created', tenantCreated('acme'));
+
+    const lock = await acquireLock(`${KV.PROJECTION}tenants.slugs`, { ttlMs: 60000 });
+    expect(await manager.catchUp('tenants.slugs')).toBeNull();
+    expect(await manager.catchUpAll()).toEqual([]);
+    await releaseLock(lock!);
+
+    expect(await manager.catchUpAll()).toEqual([expect.objectContaining({ applied: 1 })]);
+    await expect(manager.catchUp('missing')).rejects.toThrow(NotFoundError);
+  });
+
+  it('reports lag through the health check', async () => {
+    const manager = createProjectionManager();
+    manager.register(slugsProjection([]));
+    const check = createProjectionHealthCheck({ maxLag: 1, manager });
+
+    events.add('tenant.created', tenantCreated('acme'));
+    events.add('tenant.created', tenantCreated('globex'));
+
+    expect(await check()).toMatchObject({
+      status: 'degraded',
+      message: 'lagging: tenants.slugs',
+      metadata: { lag: { 'tenants.slugs': 2 } },
+    });
+
+    await manager.catchUpAll();
+    expect(await check()).toMatchObject({ status: 'up', metadata: { lag: { 'tenants.slugs': 0 } } });
+  });
+
+  it('polls until stopped', async () => {
+    const slugs: string[] = [];
+    const manager = createProjectionManager({ pollInterval: 10 });
+    manager.register(slugsProjection(slugs));
+
+    manager.start();
+    events.add('tenant.created', tenantCreated('acme'));
+    await vi.waitFor(() => expect(slugs).toEqual(['acme']));
+    await manager.stop();
+
+    expect(manager.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Projection Manager
+ *
+ * Builds read models from the event store. A projection declares handlers
+ * per event type; the manager applies stored events of those types in
+ * sequence order and saves a checkpoint after each batch, so catch-up
+ * resumes from the last applied event after a restart.
+ *
+ * Every instance can run the manager: a lock in the cache
+ * (`projection:<name>`) keeps each projection to one instance at a time.
+ * A pass stops before its lock expires and the next pass continues from
+ * the checkpoint, so long rebuilds span several passes.
+ *
+ * Sequences are allocated before events are written, so an event can
+ * become visible after a later one. Catch-up never moves the checkpoint
+ * past a missing sequence until the event after it is `gapTimeoutMs` old;
+ * a sequence still missing by then is taken as a failed write and skipped.
+ *
+ * @example
+ * ```typescript
+ * import { defineProjection, getProjectionManager, setProjectionCheckpointStore } from '@unisane/kernel';
+ * import { createMongoProjectionCheckpointStore } from '@unisane/event-store-mongodb';
+ *
+ * setProjectionCheckpointStore(createMongoProjectionCheckpointStore({
+ *   collection: () => db().collection('_projections'),
+ * }));
+ *
+ * const manager = getProjectionManager();
+ * manager.register(defineProjection({
+ *   name: 'analytics.signups',
+ *   handlers: {
+ *     'tenant.created': async (event) => { await signups.increment(event.storedAt); },
+ *     'tenant.deleted': async (event) => { await signups.decrement(event.storedAt); },
+ *   },
+ *   reset: () => signups.clear(),
+ * }));
+ * manager.start();
+ *
+ * // Recompute the read model from the first event
+ * await manager.rebuild('analytics.signups');
+ *
+ * // On shutdown
+ * await manager.stop();
+ * ```
+ */
+
+import { KV } from '../constants/kv';
+import { ConflictError, NotFoundError } from '../errors/common';
+import { countEvents, queryEventStore, type StoredEvent } from '../events/event-store';
+import type { EventType } from '../events/schemas';
+import type { HealthCheckFn } from '../health';
+import { acquireLock, releaseLock, type Lock } from '../locks/distributed-lock';
+import { logger } from '../observability/logger';
+import type {
+  ProjectionCheckpoint,
+  ProjectionCheckpointStorePort,
+  ProjectionDefinition,
+  ProjectionRunResult,
+  ProjectionStatus,
+} from './types';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// =============================================================================
+// Checkpoint Store
+// =============================================================================
+
+let checkpointStore: ProjectionCheckpointStorePort | null = null;
+
+/**
+ * Set the projection checkpoint store.
+ * Call this during bootstrap to enable projections.
+ */
+export function setProjectionCheckpointStore(store: ProjectionCheckpointStorePort): void {
+  checkpointStore = store;
+  logger.debug('Projection checkpoint store configured', { module: 'projections' });
+}
+
+/**
+ * Get the projection checkpoint store.
+ * Returns null if not configured.
+ */
+export function getProjectionCheckpointStore(): ProjectionCheckpointStorePort | null {
+  return checkpointStore;
+}
+
+/**
+ * Clear the projection checkpoint store (for testing).
+ */
+export function clearProjectionCheckpointStore(): void {
+  checkpointStore = null;
+}
+
+function requireCheckpointStore(): ProjectionCheckpointStorePort {
+  if (!checkpointStore) {
+    throw new Error('Projection checkpoint store not configured. Call setProjectionCheckpointStore() during bootstrap.');
+  }
+  return checkpointStore;
+}
+
+// =============================================================================
+// Projection Manager
+// =============================================================================
+
+/**
+ * Projection manager configuration options.
+ */
+export interface ProjectionManagerOptions {
+  /** Polling interval in milliseconds (default: 5000) */
+  pollInterval?: number;
+  /** Lock duration per projection pass in milliseconds (default: 60000) */
+  lockTtlMs?: number;
+  /**
+   * Events stored less than this many milliseconds ago are left for the
+   * next pass, so most writes still in flight are visible by the time an
+   * event is read (default: 1000). Slower writes are caught by the gap
+   * check (`gapTimeoutMs`).
+   */
+  settleMs?: number;
+  /**
+   * How long an event waits behind a missing earlier sequence before the
+   * missing one is skipped as never written, in milliseconds
+   * (default: 60000).
+   */
+  gapTimeoutMs?: number;
+}
+
+/**
+ * Projection manager instance.
+ */
+export interface ProjectionManager {
+  /**
+   * Register a projection.
+   */
+  register(definition: ProjectionDefinition): void;
+
+  /**
+   * Unregister a projection. Its checkpoint is kept.
+   */
+  unregister(name: string): void;
+
+  /**
+   * Check if a projection is registered.
+   */
+  isRegistered(name: string): boolean;
+
+  /**
+   * Get all registered projection names.
+   */
+  getRegisteredProjections(): string[];
+
+  /**
+   * Apply events stored since the projection's checkpoint. Rebuilds first
+   * when the projection version changed. Returns null when another
+   * instance is updating the projection.
+   *
+   * @throws NotFoundError when the projection is not registered
+   */
+  catchUp(name: string): Promise<ProjectionRunResult | null>;
+
+  /**
+   * Catch up all registered projections. Returns the passes this instance
+   * performed.
+   */
+  catchUpAll(): Promise<ProjectionRunResult[]>;
+
+  /**
+   * Reset the read model and apply events from the first one.
+   *
+   * @throws NotFoundError when the projection is not registered
+   * @throws ConflictError when another instance is updating the projection
+   */
+  rebuild(name: string): Promise<ProjectionRunResult>;
+
+  /**
+   * Registered projections with their position, lag and last error.
+   */
+  status(): Promise<ProjectionStatus[]>;
+
+  /** Start polling */
+  start(): void;
+  /** Stop polling and wait for the pass in progress */
+  stop(): Promise<void>;
+  /** Check if the manager is polling */
+  isRunning(): boolean;
+}
+
+/**
+ * Define a projection with type safety.
+ * This is a helper that provides better TypeScript inference.
+ */
+export function defineProjection(definition: ProjectionDefinition): ProjectionDefinition {
+  return definition;
+}
+
+/**
+ * Create a projection manager.
+ */
+export function createProjectionManager(options: ProjectionManagerOptions = {}): ProjectionManager {
+  const { pollInterval = 5000, lockTtlMs = 60000, settleMs = 1000, gapTimeoutMs = 60000 } = options;
+
+  const log = logger.child({ module: 'projections' });
+  const definitions = new Map<string, ProjectionDefinition>();
+
+  let running = false;
+  let processing = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  function getDefinition(name: string): ProjectionDefinition {
+    const definition = definitions.get(name);
+    if (!definition) {
+      throw new NotFoundError('Projection', name);
+    }
+    return definition;
+  }
+
+  function eventTypes(definition: ProjectionDefinition): string[] {
+    return Object.keys(definition.handlers);
+  }
+
+  /**
+   * Leading events of a batch read after `position` that have no missing
+   * sequence before them, of any event type. An event behind a gap is held
+   * back until it was stored `gapTimeoutMs` ago.
+   */
+  async function withoutGaps(name: string, events: StoredEvent[], position: number): Promise<StoredEvent[]> {
+    const last = events[events.length - 1]!;
+    // Fast path: every sequence up to the last event is stored
+    const stored = await countEvents({ fromSequence: position + 1, toSequence: last.sequence });
+    if (stored === last.sequence - position) {
+      return events;
+    }
+
+    let previous = position;
+    for (const [i, event] of events.entries()) {
+      const expected = event.sequence - previous - 1;
+      if (expected > 0) {
+        const between = await countEvents({ fromSequence: previous + 1, toSequence: event.sequence - 1 });
+        if (between < expected) {
+          if (Date.now() - event.storedAt.getTime() < gapTimeoutMs) {
+            log.debug('Waiting for missing event sequences', { projection: name, after: previous, before: event.sequence });
+            return events.slice(0, i);
+          }
+          log.warn('Skipping event sequences that were never stored', {
+            projection: name,
+            after: previous,
+            before: event.sequence,
+            missing: expected - between,
+          });
+        }
+      }
+      previous = event.sequence;
+    }
+    return events;
+  }
+
+  /**
+   * Apply events after the checkpoint until caught up, a missing sequence
+   * holds them back, a handler fails, or the lock is about to expire.
+   */
+  async function apply(
+    definition: ProjectionDefinition,
+    checkpoint: ProjectionCheckpoint,
+    lock: Lock,
+    rebuilt: boolean
+  ): Promise<ProjectionRunResult> {
+    const store = requireCheckpointStore();
+    const { name, handlers, batchSize = DEFAULT_BATCH_SIZE } = definition;
+    const types = eventTypes(definition);
+    // Leave time to save the checkpoint while the lock is still held
+    const stopAt = lock.expiresAt - lockTtlMs / 10;
+    let applied = 0;
+
+    while (Date.now() < stopAt) {
+      const events = await queryEventStore({
+        types,
+        fromSequence: checkpoint.position + 1,
+        until: new Date(Date.now() - settleMs),
+        limit: batchSize,
+        order: 'asc',
+      });
+      if (events.length === 0) {
+        break;
+      }
+      const ready = await withoutGaps(name, events, checkpoint.position);
+
+      for (const event of ready) {
+        const handler = handlers[event.type as EventType] as (event: StoredEvent) => Promise<void>;
+        try {
+          await handler(event);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          const now = new Date();
+          checkpoint = {
+            ...checkpoint,
+            updatedAt: now,
+            lastError: { sequence: event.sequence, eventType: event.type, message, at: now },
+          };
+          await store.save(checkpoint);
+          log.error('Projection handler failed', {
+            projection: name,
+            sequence: event.sequence,
+            eventType: event.type,
+            error: message,
+          });
+          return { name, applied, position: checkpoint.position, rebuilt, error: message };
+        }
+        checkpoint = { ...checkpoint, position: event.sequence };
+        applied++;
+      }
+
+      if (ready.length > 0) {
+        checkpoint = { ...checkpoint, updatedAt: new Date(), lastError: null };
+        await store.save(checkpoint);
+      }
+
+      if (ready.length < events.length || events.length < batchSize) {
+        break;
+      }
+    }
+
+    if (applied > 0) {
+      log.info('Projection updated', { projection: name, applied, position: checkpoint.position, rebuilt });
+    }
+
+    return { name, applied, position: checkpoint.position, rebuilt };
+  }
+
+  /**
+   * Load or create the checkpoint, resetting the read model when asked to
+   * or when the projection version changed, then apply events.
+   */
+  async function run(definition: ProjectionDefinition, lock: Lock, forceRebuild: boolean): Promise<ProjectionRunResult> {
+    const store = requireCheckpointStore();
+    const { name, version = 1 } = definition;
+    let checkpoint = await store.get(name);
+
+    const rebuild = forceRebuild || (checkpoint !== null && checkpoint.version !== version);
+    if (rebuild || !checkpoint) {
+      if (rebuild) {
+        log.info('Rebuilding projection', { projection: name, version, previousVersion: checkpoint?.version });
+        await definition.reset?.();
+      }
+      const now = new Date();
+      checkpoint = {
+        name,
+        position: 0,
+        version,
+        updatedAt: now,
+        rebuiltAt: rebuild ? now : null,
+        lastError: null,
+      };
+      await store.save(checkpoint);
+    }
+
+    return apply(definition, checkpoint, lock, rebuild);
+  }
+
+  async function catchUp(name: string): Promise<ProjectionRunResult | null> {
+    const definition = getDefinition(name);
+    const lock = await acquireLock(`${KV.PROJECTION}${name}`, { ttlMs: lockTtlMs, maxRetries: 1 });
+    if (!lock) {
+      log.debug('Projection locked by another instance', { projection: name });
+      return null;
+    }
+
+    try {
+      return await run(definition, lock, false);
+    } finally {
+      await releaseLock(lock);
+    }
+  }
+
+  async function catchUpAll(): Promise<ProjectionRunResult[]> {
+    const results: ProjectionRunResult[] = [];
+    for (const name of definitions.keys()) {
+      try {
+        const result = await catchUp(name);
+        if (result) results.push(result);
+      } catch (error) {
+        log.error('Error catching up projection', {
+          projection: name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Main polling loop.
+   */
+  async function poll(): Promise<void> {
+    if (!running || processing) {
+      return;
+    }
+
+    processing = true;
+
+    try {
+      await catchUpAll();
+    } finally {
+      processing = false;
+    }
+
+    if (running) {
+      timeoutId = setTimeout(poll, pollInterval);
+    }
+  }
+
+  return {
+    register(definition: ProjectionDefinition): void {
+      if (definitions.has(definition.name)) {
+        log.warn('Overwriting existing projection', { projection: definition.name });
+      }
+      definitions.set(definition.name, definition);
+      log.debug('Projection registered', { projection: definition.name, types: eventTypes(definition) });
+    },
+
+    unregister(name: string): void {
+      definitions.delete(name);
+    },
+
+    isRegistered(name: string): boolean {
+      return definitions.has(name);
+    },
+
+    getRegisteredProjections(): string[] {
+      return Array.from(definitions.keys());
+    },
+
+    catchUp,
+
+    catchUpAll,
+
+    async rebuild(name: string): Promise<ProjectionRunResult> {
+      const definition = getDefinition(name);
+      const lock = await acquireLock(`${KV.PROJECTION}${name}`, { ttlMs: lockTtlMs });
+      if (!lock) {
+        throw new ConflictError(`Projection '${name}' is being updated by another instance`);
+      }
+
+      try {
+        return await run(definition, lock, true);
+      } finally {
+        await releaseLock(lock);
+      }
+    },
+
+    async status(): Promise<ProjectionStatus[]> {
+      const store = requireCheckpointStore();
+      return Promise.all(
+        [...definitions.values()].map(async (definition) => {
+          const { name, description, version = 1 } = definition;
+          const checkpoint = await store.get(name);
+          // A version change rebuilds from zero on the next pass
+          const current = checkpoint?.version === version ? checkpoint : null;
+          const position = current?.position ?? 0;
+          const lag = await countEvents({ types: eventTypes(definition), fromSequence: position + 1 });
+
+          return {
+            name,
+            ...(description ? { description } : {}),
+            version,
+            position,
+            lag,
+            updatedAt: checkpoint?.updatedAt ?? null,
+            rebuiltAt: checkpoint?.rebuiltAt ?? null,
+            lastError: checkpoint?.lastError ?? null,
+          };
+        })
+      );
+    },
+
+    start() {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      log.info('Projection manager started', { pollInterval, projections: Array.from(definitions.keys()) });
+
+      poll();
+    },
+
+    async stop() {
+      if (!running) {
+        return;
+      }
+
+      running = false;
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+
+      // Wait for any in-progress pass to complete
+      while (processing) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      log.info('Projection manager stopped');
+    },
+
+    isRunning() {
+      return running;
+    },
+  };
+}
+
+// =============================================================================
+// Global Projection Manager
+// =============================================================================
+
+let globalProjectionManager: ProjectionManager | null = null;
+
+/**
+ * Get the global projection manager (creates one if needed).
+ */
+export function getProjectionManager(): ProjectionManager {
+  if (!globalProjectionManager) {
+    globalProjectionManager = createProjectionManager();
+  }
+  return globalProjectionManager;
+}
+
+/**
+ * Clear the global projection manager (for testing).
+ */
+export function clearProjectionManager(): void {
+  globalProjectionManager = null;
+}
+
+// =============================================================================
+// Health Check
+// =============================================================================
+
+/**
+ * Create a health check reporting projection lag. Reports degraded when a
+ * projection is stuck on a failing event or more than `maxLag` events
+ * behind the event store.
+ *
+ * @example
+ * ```typescript
+ * import { createProjectionHealthCheck, registerHealthCheck } from '@unisane/kernel';
+ *
+ * registerHealthCheck('projections', createProjectionHealthCheck({ maxLag: 500 }));
+ * ```
+ */
+export function createProjectionHealthCheck(
+  options: { maxLag?: number; manager?: ProjectionManager } = {}
+): HealthCheckFn {
+  const { maxLag = 1000 } = options;
+
+  return async () => {
+    const start = Date.now();
+    try {
+      const projections = await (options.manager ?? getProjectionManager()).status();
+      const failing = projections.filter((p) => p.lastError).map((p) => p.name);
+      const lagging = projections.filter((p) => p.lag > maxLag).map((p) => p.name);
+      const metadata = { lag: Object.fromEntries(projections.map((p) => [p.name, p.lag])) };
+
+      if (failing.length > 0 || lagging.length > 0) {
+        const problems = [
+          ...(failing.length > 0 ? [`failing: ${failing.join(', ')}`] : []),
+          ...(lagging.length > 0 ? [`lagging: ${lagging.join(', ')}`] : []),
+        ];
+        return { status: 'degraded', latencyMs: Date.now() - start, message: problems.join('; '), metadata };
+      }
+      return { status: 'up', latencyMs: Date.now() - start, metadata };
+    } catch (err) {
+      return {
+        status: 'down',
+        latencyMs: Date.now() - start,
+        message: err instanceof Error ? err.message : String(err),
+      };
+    }
+  };
+}
+
+// =============================================================================
+// Admin
+// =============================================================================
+
+/**
+ * List registered projections with their progress for admin.
+ */
+export async function listProjectionsAdmin() {
+  const projections = await getProjectionManager().status();
+  const items = projections.map((p) => ({
+    name: p.name,
+    description: p.description ?? null,
+    version: p.version,
+    position: p.position,
+    lag: p.lag,
+    updatedAt: p.updatedAt ? p.updatedAt.toISOString() : null,
+    rebuiltAt: p.rebuiltAt ? p.rebuiltAt.toISOString() : null,
+    lastError: p.lastError
+      ? {
+          sequence: p.lastError.sequence,
+          eventType: p.lastError.eventType,
+          message: p.lastError.message,
+          at: p.lastError.at.toISOString(),
+        }
+      : null,
+  }));
+  return { items } as const;
+}
+
+export type ProjectionNameArgs = { name: string };
+
+/**
+ * Rebuild a projection for admin and return the first pass.
+ */
+export async function rebuildProjectionAdmin(args: ProjectionNameArgs) {
+  const result = await getProjectionManager().rebuild(args.name);
+  return {
+    name: result.name,
+    applied: result.applied,
+    position: result.position,
+    error: result.error ?? null,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Projection Types
+ *
+ * Type definitions for read-model projections built from the event store.
+ */
+
+import type { StoredEvent } from '../events/event-store';
+import type { EventPayload, EventType } from '../events/schemas';
+
+/**
+ * Handlers keyed by event type. Handlers run at least once per event (a
+ * pass interrupted after a handler but before its checkpoint is saved
+ * applies the event again), so they should be idempotent, e.g. upserts
+ * keyed by the event or aggregate ID.
+ */
+export type ProjectionHandlers = {
+  [K in EventType]?: (event: StoredEvent<EventPayload<K>>) => Promise<void>;
+};
+
+/**
+ * Projection definition, registered with the projection manager at bootstrap.
+ */
+export interface ProjectionDefinition {
+  /** Unique projection name (e.g., 'analytics.signups') */
+  name: string;
+  /** Human-readable description for admin listings */
+  description?: string;
+  /**
+   * Version of the read model. Bump it when handlers change in a way that
+   * needs the read model recomputed; the next catch-up rebuilds from zero
+   * (default: 1).
+   */
+  version?: number;
+  /** Event handlers; only these event types are read from the store */
+  handlers: ProjectionHandlers;
+  /** Clear the read model before a rebuild */
+  reset?: () => Promise<void>;
+  /** Events read from the store per batch (default: 100) */
+  batchSize?: number;
+}
+
+/**
+ * Error that stopped a projection. Catch-up retries from the failed event
+ * on the next pass.
+ */
+export interface ProjectionError {
+  /** Sequence of the event whose handler failed */
+  sequence: number;
+  eventType: string;
+  message: string;
+  at: Date;
+}
+
+/**
+ * Persisted progress of a projection.
+ */
+export interface ProjectionCheckpoint {
+  /** Projection name */
+  name: string;
+  /** Sequence of the last applied event (0 before the first event) */
+  position: number;
+  /** Projection version the read model was built with */
+  version: number;
+  updatedAt: Date;
+  /** When the projection was last rebuilt from zero */
+  rebuiltAt: Date | null;
+  /** Set while the projection is stuck on a failing event */
+  lastError: ProjectionError | null;
+}
+
+/**
+ * Port interface for projection checkpoint persistence.
+ */
+export interface ProjectionCheckpointStorePort {
+  /**
+   * Get the checkpoint of a projection.
+   */
+  get(name: string): Promise<ProjectionCheckpoint | null>;
+
+  /**
+   * Get all checkpoints.
+   */
+  list(): Promise<ProjectionCheckpoint[]>;
+
+  /**
+   * Create or replace the checkpoint of a projection.
+   */
+  save(checkpoint: ProjectionCheckpoint): Promise<void>;
+}
+
+/**
+ * Outcome of a catch-up or rebuild pass.
+ */
+export interface ProjectionRunResult {
+  name: string;
+  /** Events applied in this pass */
+  applied: number;
+  /** Checkpoint position after the pass */
+  position: number;
+  /** Whether the read model was reset before the pass */
+  rebuilt: boolean;
+  /** Handler error that stopped the pass */
+  error?: string;
+}
+
+/**
+ * Registered projection with its progress.
+ */
+export interface ProjectionStatus {
+  name: string;
+  description?: string;
+  version: number;
+  /** Sequence of the last applied event */
+  position: number;
+  /** Stored events of the projection's types not applied yet */
+  lag: number;
+  updatedAt: Date | null;
+  rebuiltAt: Date | null;
+  lastError: ProjectionError | null;
+}
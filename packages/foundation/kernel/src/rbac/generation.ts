@@ -0,0 +1,30 @@
+import { kv } from "../cache/provider";
+import { KV } from "../constants/kv";
+
+/**
+ * RBAC cache generation.
+ *
+ * Permission sets and custom role definitions are cached under keys that
+ * include the generation; bumping it retires every cached entry at once
+ * without scanning the cache. A tenant's generation changes when its custom
+ * roles change, the global one when the whole RBAC cache is cleared
+ * (`unisane cache clear-rbac`).
+ */
+
+const GLOBAL_SCOPE = "global";
+
+export async function getRbacGeneration(scopeId: string): Promise<string> {
+  const [global, scoped] = await Promise.all([
+    kv.get(`${KV.RBAC_GEN}${GLOBAL_SCOPE}`),
+    kv.get(`${KV.RBAC_GEN}${scopeId}`),
+  ]);
+  return `${global ?? 0}.${scoped ?? 0}`;
+}
+
+/**
+ * Invalidate the cached permissions of one tenant, or of all tenants when
+ * no scope is given.
+ */
+export async function bumpRbacGeneration(scopeId?: string): Promise<void> {
+  await kv.incrBy(`${KV.RBAC_GEN}${scopeId ?? GLOBAL_SCOPE}`, 1);
+}
@@ -41,6 +41,10 @@ export const PERM = {
   WEBHOOKS_READ: "webhooks:read",
   WEBHOOKS_WRITE: "webhooks:write",
 
+  // AI Prompt Templates
+  AI_READ: "ai:read",
+  AI_WRITE: "ai:write",
+
   // Workspace (Owner-only)
   WORKSPACE_DELETE: "workspace:delete",
   WORKSPACE_TRANSFER: "workspace:transfer",
@@ -52,3 +56,12 @@ export const ZPermission = z.enum(
 );
 
 export const ALL_PERMISSIONS = Object.values(PERM) as Permission[];
+
+/**
+ * A core permission or one registered by a module (see registry.ts).
+ * Format: `resource:action`
+ */
+export type PermissionKey = Permission | `${string}:${string}`;
+
+/** Lowercase `resource:action`, letters, digits, `_` and `-` */
+export const PERMISSION_KEY_PATTERN = /^[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*$/;
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { ALL_PERMISSIONS, PERMISSION_KEY_PATTERN } from "./permissions";
+import type { PermissionKey } from "./permissions";
+
+/**
+ * Permission Registry
+ *
+ * Modules register the permissions they check instead of adding them to
+ * PERM. Registered permissions can be granted through custom roles, direct
+ * grants and API key scopes like the core ones.
+ *
+ * @example
+ * ```typescript
+ * export const REPORTS_PERM = { READ: 'reports:read', EXPORT: 'reports:export' } as const;
+ * registerPermissions('reports', [
+ *   { key: REPORTS_PERM.READ, description: 'View reports' },
+ *   REPORTS_PERM.EXPORT,
+ * ]);
+ * ```
+ */
+
+export interface PermissionDefinition {
+  key: PermissionKey;
+  /** Module that registered the permission, `kernel` for PERM */
+  module: string;
+  description?: string;
+}
+
+const CORE_PERMISSIONS = new Set<string>(ALL_PERMISSIONS);
+
+// Use globalThis to share registry across Next.js bundles (instrumentation vs route handlers)
+const REGISTRY_KEY = "__unisane_permission_registry__";
+
+function getRegistry(): Map<string, PermissionDefinition> {
+  const g = globalThis as unknown as Record<string, Map<string, PermissionDefinition>>;
+  if (!g[REGISTRY_KEY]) {
+    g[REGISTRY_KEY] = new Map();
+  }
+  return g[REGISTRY_KEY];
+}
+
+/**
+ * Register a module's permissions. Re-registering from the same module is a
+ * no-op; a key that is core or owned by another module throws.
+ */
+export function registerPermissions(
+  module: string,
+  perms: ReadonlyArray<PermissionKey | { key: PermissionKey; description?: string }>
+): PermissionKey[] {
+  const registry = getRegistry();
+  const keys: PermissionKey[] = [];
+  for (const entry of perms) {
+    const def = typeof entry === "string" ? { key: entry } : entry;
+    if (!PERMISSION_KEY_PATTERN.test(def.key)) {
+      throw new Error(`registerPermissions(${module}): invalid permission "${def.key}", expected resource:action`);
+    }
+    const owner = CORE_PERMISSIONS.has(def.key) ? "kernel" : registry.get(def.key)?.module;
+    if (owner && owner !== module) {
+      throw new Error(`registerPermissions(${module}): "${def.key}" is already registered by ${owner}`);
+    }
+    registry.set(def.key, { ...def, module });
+    keys.push(def.key);
+  }
+  return keys;
+}
+
+export function isKnownPermission(perm: string): perm is PermissionKey {
+  return CORE_PERMISSIONS.has(perm) || getRegistry().has(perm);
+}
+
+/**
+ * Core permissions followed by registered ones, in registration order.
+ */
+export function listPermissions(): PermissionDefinition[] {
+  return [
+    ...ALL_PERMISSIONS.map((key) => ({ key, module: "kernel" })),
+    ...getRegistry().values(),
+  ];
+}
+
+/**
+ * A permission key in `resource:action` form. Only the format is checked so
+ * the schema also works in client bundles, where modules may not have
+ * registered their permissions; services check the catalog with
+ * `isKnownPermission`.
+ */
+export const ZPermissionKey = z
+  .string()
+  .regex(PERMISSION_KEY_PATTERN, "Permission must be resource:action")
+  .transform((perm) => perm as PermissionKey);
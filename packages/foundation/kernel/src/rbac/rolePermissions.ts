@@ -1,6 +1,6 @@
 import { PERM } from "./permissions";
-import type { Permission } from "./permissions";
-import type { RoleId } from "./roles";
+import type { Permission, PermissionKey } from "./permissions";
+import { isBuiltinRole, type RoleId } from "./roles";
 
 /**
  * Role → Permission Bundles (CRUD Pattern)
@@ -36,6 +36,8 @@ export const ROLE_PERMS: Record<RoleId, Permission[]> = {
     PERM.STORAGE_DELETE,
     PERM.WEBHOOKS_READ,
     PERM.WEBHOOKS_WRITE,
+    PERM.AI_READ,
+    PERM.AI_WRITE,
     PERM.WORKSPACE_DELETE,
     PERM.WORKSPACE_TRANSFER,
   ],
@@ -59,6 +61,8 @@ export const ROLE_PERMS: Record<RoleId, Permission[]> = {
     PERM.STORAGE_DELETE,
     PERM.WEBHOOKS_READ,
     PERM.WEBHOOKS_WRITE,
+    PERM.AI_READ,
+    PERM.AI_WRITE,
   ],
   member: [
     // Read-only access + storage write
@@ -66,6 +70,7 @@ export const ROLE_PERMS: Record<RoleId, Permission[]> = {
     PERM.FLAGS_READ,
     PERM.STORAGE_READ,
     PERM.STORAGE_WRITE,
+    PERM.AI_READ,
   ],
   billing: [
     // Billing-focused access
@@ -88,3 +93,20 @@ export function getPermissionsForRole(role: RoleId): Permission[] {
 export function roleHasPerm(role: RoleId, perm: Permission): boolean {
   return ROLE_PERMS[role]?.includes(perm) ?? false;
 }
+
+/**
+ * Permissions granted by a set of roles. Built-in roles use ROLE_PERMS, other
+ * keys are looked up in `customRoles` (a tenant's custom roles by key).
+ * Unknown roles grant nothing.
+ */
+export function resolveRolePerms(
+  roleIds: readonly string[],
+  customRoles: Readonly<Record<string, readonly PermissionKey[]>> = {}
+): PermissionKey[] {
+  const perms = new Set<PermissionKey>();
+  for (const roleId of roleIds) {
+    const bundle = isBuiltinRole(roleId) ? ROLE_PERMS[roleId] : customRoles[roleId] ?? [];
+    for (const p of bundle) perms.add(p);
+  }
+  return Array.from(perms);
+}
@@ -9,3 +9,20 @@ export const ROLE = {
 
 export type RoleId = (typeof ROLE)[keyof typeof ROLE];
 export const ZRoleId = z.enum(Object.values(ROLE) as [RoleId, ...RoleId[]]);
+
+export const BUILTIN_ROLES = Object.values(ROLE) as RoleId[];
+
+export function isBuiltinRole(roleId: string): roleId is RoleId {
+  return (BUILTIN_ROLES as string[]).includes(roleId);
+}
+
+/**
+ * A built-in role or the key of a tenant's custom role.
+ */
+export type RoleKey = RoleId | (string & {});
+
+/** Lowercase letters, digits, `_` and `-`; 2 to 48 characters */
+export const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_-]{1,47}$/;
+export const ZRoleKey = z
+  .string()
+  .regex(ROLE_KEY_PATTERN, 'Role key must be lowercase letters, digits, _ or -');
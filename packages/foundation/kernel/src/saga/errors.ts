@@ -0,0 +1,22 @@
+/**
+ * Saga Errors
+ */
+
+import { DomainError } from '../errors/base';
+import { ErrorCode } from '../errors/catalog';
+
+/**
+ * Thrown by a saga store when an instance was updated by another runner
+ * since it was loaded (optimistic concurrency). The runner holding the
+ * stale copy stops without compensating; the other runner owns the saga.
+ */
+export class SagaConflictError extends DomainError {
+  readonly code = ErrorCode.CONFLICT;
+  readonly status = 409;
+
+  constructor(sagaId: string, expectedVersion: number) {
+    super(`Saga '${sagaId}' was modified concurrently (expected version ${expectedVersion})`, {
+      details: { sagaId, expectedVersion },
+    });
+  }
+}
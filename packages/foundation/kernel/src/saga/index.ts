@@ -68,6 +68,37 @@
  * const { recovered, failed } = await manager.recoverAll();
  * console.log(`Recovered ${recovered} sagas, ${failed} failed`);
  * ```
+ *
+ * With several instances, run a recovery worker instead. It only picks up
+ * sagas that have not been updated for a while and holds a lease so one
+ * instance recovers at a time:
+ *
+ * ```typescript
+ * const worker = createSagaRecoveryWorker({ lease: createMongoSagaLease({ collection }) });
+ * worker.start();
+ * ```
+ *
+ * ## Delayed Steps
+ *
+ * Long-running workflows (reminders, grace periods) use `delayMs` on a step.
+ * The saga is persisted in `waiting` status with `resumeAt`, and continues
+ * when a periodic job calls `resumeDue()`:
+ *
+ * ```typescript
+ * const trialSaga = defineSaga<TrialContext>({
+ *   name: 'trial.expiry',
+ *   steps: [
+ *     { name: 'remind', delayMs: 11 * DAY, execute: sendTrialReminder },
+ *     { name: 'downgrade', delayMs: 3 * DAY, execute: downgradeToFree },
+ *   ],
+ * });
+ *
+ * // From a job
+ * await getSagaManager().resumeDue();
+ *
+ * // Stop early and compensate completed steps
+ * await getSagaManager().cancel(sagaId, 'converted to paid');
+ * ```
  */
 
 // Types
@@ -80,9 +111,13 @@ export type {
   SagaInstance,
   StartSagaOptions,
   SagaStorePort,
+  SagaLeasePort,
   SagaResult,
 } from './types';
 
+// Errors
+export { SagaConflictError } from './errors';
+
 // Saga Manager
 export {
   setSagaStoreProvider,
@@ -95,3 +130,11 @@ export {
   clearSagaManager,
 } from './saga-manager';
 export type { SagaManager } from './saga-manager';
+
+// Recovery
+export { createSagaRecoveryWorker } from './recovery-worker';
+export type {
+  SagaRecoveryWorkerOptions,
+  SagaRecoveryWorker,
+  SagaRecoveryResult,
+} from './recovery-worker';
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearSagaStoreProvider,
+  createSagaManager,
+  defineSaga,
+  setSagaStoreProvider,
+  type SagaManager,
+} from './saga-manager';
+import { createSagaRecoveryWorker } from './recovery-worker';
+import type { SagaInstance, SagaLeasePort, SagaStatus, SagaStorePort } from './types';
+
+type Ctx = { log: string[] };
+
+const MINUTE = 60 * 1000;
+
+function memoryStore(): SagaStorePort & { items: Map<string, SagaInstance> } {
+  const items = new Map<string, SagaInstance>();
+  const copy = <T>(instance: SagaInstance<T>) => structuredClone(instance);
+  return {
+    items,
+    async create(instance) { items.set(instance.id, copy(instance) as SagaInstance); },
+    async update(instance) { items.set(instance.id, copy(instance) as SagaInstance); },
+    async getById<T>(id: string) {
+      const found = items.get(id);
+      return found ? (copy(found) as SagaInstance<T>) : null;
+    },
+    async findByStatus(status) { return [...items.values()].filter((i) => i.status === status); },
+    async findByNameAndStatus(name, status) {
+      return [...items.values()].filter((i) => i.sagaName === name && i.status === status);
+    },
+    async findIncomplete() {
+      return [...items.values()].filter((i) => ['pending', 'running', 'compensating'].includes(i.status));
+    },
+    async findDue() { return []; },
+    async delete(id) { return items.delete(id); },
+    async cleanup() { return 0; },
+  };
+}
+
+function memoryLease(): SagaLeasePort & { holders: Map<string, { owner: string; expiresAt: number }> } {
+  const holders = new Map<string, { owner: string; expiresAt: number }>();
+  return {
+    holders,
+    async acquire(name, owner, ttlMs) {
+      const current = holders.get(name);
+      if (current && current.owner !== owner && current.expiresAt > Date.now()) return false;
+      holders.set(name, { owner, expiresAt: Date.now() + ttlMs });
+      return true;
+    },
+    async release(name, owner) {
+      if (holders.get(name)?.owner === owner) holders.delete(name);
+    },
+  };
+}
+
+function crashed(id: string, status: SagaStatus, updatedAt: Date): SagaInstance<Ctx> {
+  return {
+    id,
+    sagaName: 'test.recoverable',
+    status,
+    context: { log: ['a'] },
+    steps: [
+      { name: 'a', status: 'completed', attempts: 1 },
+      { name: 'b', status: status === 'compensating' ? 'failed' : 'running', attempts: 1 },
+    ],
+    currentStepIndex: 1,
+    createdAt: updatedAt,
+    updatedAt,
+    ...(status === 'compensating' ? { error: 'boom', failedStep: 'b' } : {}),
+  };
+}
+
+describe('SagaRecoveryWorker', () => {
+  let manager: SagaManager;
+  let store: ReturnType<typeof memoryStore>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:10:00Z'));
+    store = memoryStore();
+    setSagaStoreProvider(store);
+    manager = createSagaManager();
+    manager.register(defineSaga<Ctx>({
+      name: 'test.recoverable',
+      steps: [
+        {
+          name: 'a',
+          execute: async (ctx) => ({ log: [...ctx.log, 'a'] }),
+          compensate: async (ctx) => ({ log: [...ctx.log, 'undo-a'] }),
+        },
+        { name: 'b', execute: async (ctx) => ({ log: [...ctx.log, 'b'] }) },
+      ],
+    }));
+  });
+
+  afterEach(() => {
+    manager.getRegisteredSagas().forEach((name) => manager.unregister(name));
+    clearSagaStoreProvider();
+    vi.useRealTimers();
+  });
+
+  it('resumes abandoned sagas and finishes interrupted compensation', async () => {
+    const old = new Date('2026-01-01T00:00:00Z');
+    await store.create(crashed('saga_running', 'running', old));
+    await store.create(crashed('saga_compensating', 'compensating', old));
+
+    const worker = createSagaRecoveryWorker({ lease: memoryLease(), manager });
+
+    expect(await worker.runOnce()).toEqual({ recovered: 1, failed: 1 });
+    expect(store.items.get('saga_running')).toMatchObject({ status: 'completed', context: { log: ['a', 'b'] } });
+    expect(store.items.get('saga_compensating')).toMatchObject({
+      status: 'compensated',
+      context: { log: ['a', 'undo-a'] },
+    });
+  });
+
+  it('leaves recently updated sagas alone', async () => {
+    await store.create(crashed('saga_active', 'running', new Date(Date.now() - MINUTE)));
+
+    const worker = createSagaRecoveryWorker({ lease: memoryLease(), manager });
+
+    expect(await worker.runOnce()).toEqual({ recovered: 0, failed: 0 });
+    expect(store.items.get('saga_active')?.status).toBe('running');
+  });
+
+  it('skips the pass while another instance holds the lease', async () => {
+    await store.create(crashed('saga_running', 'running', new Date('2026-01-01T00:00:00Z')));
+    const lease = memoryLease();
+    await lease.acquire('saga-recovery', 'other-instance', MINUTE);
+
+    const worker = createSagaRecoveryWorker({ lease, manager, owner: 'this-instance' });
+
+    expect(await worker.runOnce()).toBeNull();
+    expect(store.items.get('saga_running')?.status).toBe('running');
+
+    // Released once the pass is done
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    expect(await worker.runOnce()).toEqual({ recovered: 1, failed: 0 });
+    expect(lease.holders.has('saga-recovery')).toBe(false);
+  });
+});
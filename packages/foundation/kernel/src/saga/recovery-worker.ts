@@ -0,0 +1,227 @@
+/**
+ * Saga Recovery Worker
+ *
+ * Background worker that picks up sagas left incomplete by a crashed
+ * process. Running sagas continue from their current step; sagas
+ * interrupted while compensating finish their rollback. Waiting sagas are
+ * not touched (see `SagaManager.resumeDue()`).
+ *
+ * A saga is only considered abandoned when it has not been updated for
+ * `staleAfterMs`, so sagas still running elsewhere are left alone. A lease
+ * keeps recovery to one instance at a time, and optimistic concurrency in
+ * the store stops a runner whose copy went stale.
+ *
+ * @example
+ * ```typescript
+ * import { createSagaRecoveryWorker, setSagaStoreProvider } from '@unisane/kernel';
+ * import { createMongoSagaStoreAdapter, createMongoSagaLease } from '@unisane/saga-mongodb';
+ *
+ * setSagaStoreProvider(createMongoSagaStoreAdapter({ collection: () => db().collection('_sagas') }));
+ *
+ * const worker = createSagaRecoveryWorker({
+ *   lease: createMongoSagaLease({ collection: () => db().collection('_saga_leases') }),
+ * });
+ * worker.start();
+ *
+ * // On shutdown
+ * await worker.stop();
+ * ```
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger } from '../observability/logger';
+import { SagaConflictError } from './errors';
+import { getSagaManager, getSagaStoreProvider, type SagaManager } from './saga-manager';
+import type { SagaLeasePort } from './types';
+
+/**
+ * Saga recovery worker configuration options.
+ */
+export interface SagaRecoveryWorkerOptions {
+  /** Lease that keeps recovery to one instance at a time */
+  lease: SagaLeasePort;
+  /** Manager used to resume sagas (default: global saga manager) */
+  manager?: SagaManager;
+  /** Lease name (default: 'saga-recovery') */
+  leaseName?: string;
+  /** Lease owner ID for this instance (default: random) */
+  owner?: string;
+  /** Lease duration in milliseconds, renewed before each saga (default: 60000) */
+  leaseTtlMs?: number;
+  /** Minimum time since a saga's last update before it is recovered (default: 300000) */
+  staleAfterMs?: number;
+  /** Polling interval in milliseconds (default: 60000) */
+  pollInterval?: number;
+  /** Maximum sagas recovered per pass (default: 50) */
+  batchSize?: number;
+}
+
+/**
+ * Result of a single recovery pass.
+ */
+export interface SagaRecoveryResult {
+  /** Sagas that resumed and completed */
+  recovered: number;
+  /** Sagas that failed, were compensated, or could not be resumed */
+  failed: number;
+}
+
+/**
+ * Saga recovery worker instance.
+ */
+export interface SagaRecoveryWorker {
+  /** Start the worker */
+  start: () => void;
+  /** Stop the worker gracefully */
+  stop: () => Promise<void>;
+  /** Check if worker is running */
+  isRunning: () => boolean;
+  /**
+   * Run a single recovery pass. Returns null when another instance holds
+   * the lease.
+   */
+  runOnce: (now?: Date) => Promise<SagaRecoveryResult | null>;
+}
+
+/**
+ * Create a saga recovery worker.
+ */
+export function createSagaRecoveryWorker(options: SagaRecoveryWorkerOptions): SagaRecoveryWorker {
+  const {
+    lease,
+    leaseName = 'saga-recovery',
+    owner = randomUUID(),
+    leaseTtlMs = 60000,
+    staleAfterMs = 300000,
+    pollInterval = 60000,
+    batchSize = 50,
+  } = options;
+
+  const log = logger.child({ module: 'saga-recovery' });
+
+  let running = false;
+  let processing = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  async function runOnce(now = new Date()): Promise<SagaRecoveryResult | null> {
+    const store = getSagaStoreProvider();
+    if (!store) {
+      return { recovered: 0, failed: 0 };
+    }
+
+    if (!(await lease.acquire(leaseName, owner, leaseTtlMs))) {
+      log.debug('Recovery lease held by another instance', { leaseName });
+      return null;
+    }
+
+    const manager = options.manager ?? getSagaManager();
+    let recovered = 0;
+    let failed = 0;
+
+    try {
+      const cutoff = now.getTime() - staleAfterMs;
+      const abandoned = (await store.findIncomplete(batchSize)).filter(
+        (instance) => instance.status !== 'waiting' && new Date(instance.updatedAt).getTime() <= cutoff
+      );
+
+      for (const instance of abandoned) {
+        // Renew before each saga; stop if the lease was lost meanwhile
+        if (!(await lease.acquire(leaseName, owner, leaseTtlMs))) {
+          log.warn('Recovery lease lost, stopping pass', { leaseName });
+          break;
+        }
+
+        try {
+          const result = await manager.resume(instance.id);
+          if (result.success) {
+            recovered++;
+          } else {
+            failed++;
+          }
+        } catch (error) {
+          if (error instanceof SagaConflictError) {
+            log.debug('Saga taken over by another runner', { sagaId: instance.id });
+            continue;
+          }
+          log.error('Failed to recover saga', {
+            sagaId: instance.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          failed++;
+        }
+      }
+    } finally {
+      await lease.release(leaseName, owner);
+    }
+
+    if (recovered > 0 || failed > 0) {
+      log.info('Saga recovery pass completed', { recovered, failed });
+    }
+
+    return { recovered, failed };
+  }
+
+  /**
+   * Main polling loop.
+   */
+  async function poll(): Promise<void> {
+    if (!running || processing) {
+      return;
+    }
+
+    processing = true;
+
+    try {
+      await runOnce();
+    } catch (error) {
+      log.error('Error during saga recovery', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      processing = false;
+    }
+
+    if (running) {
+      timeoutId = setTimeout(poll, pollInterval);
+    }
+  }
+
+  return {
+    start() {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      log.info('Saga recovery worker started', { pollInterval, staleAfterMs });
+
+      poll();
+    },
+
+    async stop() {
+      if (!running) {
+        return;
+      }
+
+      running = false;
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+
+      // Wait for any in-progress pass to complete
+      while (processing) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      log.info('Saga recovery worker stopped');
+    },
+
+    isRunning() {
+      return running;
+    },
+
+    runOnce,
+  };
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearSagaStoreProvider,
+  createSagaManager,
+  defineSaga,
+  setSagaStoreProvider,
+  type SagaManager,
+} from './saga-manager';
+import { SagaConflictError } from './errors';
+import type { SagaInstance, SagaStorePort } from './types';
+
+type Ctx = { log: string[] };
+
+const HOUR = 60 * 60 * 1000;
+
+function memoryStore(): SagaStorePort & { items: Map<string, SagaInstance> } {
+  const items = new Map<string, SagaInstance>();
+  const copy = <T>(instance: SagaInstance<T>) => structuredClone(instance);
+  return {
+    items,
+    async create(instance) { items.set(instance.id, copy(instance) as SagaInstance); },
+    async update(instance) { items.set(instance.id, copy(instance) as SagaInstance); },
+    async getById<T>(id: string) {
+      const found = items.get(id);
+      return found ? (copy(found) as SagaInstance<T>) : null;
+    },
+    async findByStatus(status) { return [...items.values()].filter((i) => i.status === status); },
+    async findByNameAndStatus(name, status) {
+      return [...items.values()].filter((i) => i.sagaName === name && i.status === status);
+    },
+    async findIncomplete() {
+      return [...items.values()].filter((i) => ['pending', 'running', 'compensating'].includes(i.status));
+    },
+    async findDue(now) {
+      return [...items.values()].filter(
+        (i) => i.status === 'waiting' && i.resumeAt !== undefined && i.resumeAt <= now
+      );
+    },
+    async delete(id) { return items.delete(id); },
+    async cleanup() { return 0; },
+  };
+}
+
+function delayedSaga(name: string) {
+  return defineSaga<Ctx>({
+    name,
+    steps: [
+      {
+        name: 'first',
+        execute: async (ctx) => ({ log: [...ctx.log, 'first'] }),
+        compensate: async (ctx) => ({ log: [...ctx.log, 'undo-first'] }),
+      },
+      {
+        name: 'second',
+        delayMs: HOUR,
+        execute: async (ctx) => ({ log: [...ctx.log, 'second'] }),
+        compensate: async (ctx) => ({ log: [...ctx.log, 'undo-second'] }),
+      },
+      {
+        name: 'third',
+        delayMs: (ctx) => (ctx.log.includes('skip-wait') ? 0 : 2 * HOUR),
+        execute: async (ctx) => ({ log: [...ctx.log, 'third'] }),
+      },
+    ],
+  });
+}
+
+describe('SagaManager', () => {
+  let manager: SagaManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    clearSagaStoreProvider();
+    manager = createSagaManager();
+  });
+
+  afterEach(() => {
+    manager.getRegisteredSagas().forEach((name) => manager.unregister(name));
+    clearSagaStoreProvider();
+    vi.useRealTimers();
+  });
+
+  it('runs steps in order and completes', async () => {
+    manager.register(defineSaga<Ctx>({
+      name: 'test.simple',
+      steps: [
+        { name: 'a', execute: async (ctx) => ({ log: [...ctx.log, 'a'] }) },
+        { name: 'b', execute: async (ctx) => ({ log: [...ctx.log, 'b'] }) },
+      ],
+    }));
+
+    const result = await manager.start('test.simple', { log: [] });
+
+    expect(result.success).toBe(true);
+    expect(result.context.log).toEqual(['a', 'b']);
+  });
+
+  it('compensates completed steps when a step fails', async () => {
+    const undo = vi.fn();
+    manager.register(defineSaga<Ctx>({
+      name: 'test.failing',
+      steps: [
+        { name: 'a', execute: async () => {}, compensate: async () => { undo(); } },
+        { name: 'b', execute: async () => { throw new Error('boom'); } },
+      ],
+    }));
+
+    const result = await manager.start('test.failing', { log: [] });
+
+    expect(result).toMatchObject({ success: false, failedStep: 'b', error: 'boom' });
+    expect(undo).toHaveBeenCalledOnce();
+  });
+
+  describe('delayed steps', () => {
+    it('pauses before a delayed step and resumes once due', async () => {
+      setSagaStoreProvider(memoryStore());
+      manager.register(delayedSaga('test.delayed'));
+
+      const started = await manager.start('test.delayed', { log: [] });
+      expect(started).toMatchObject({ success: true, resumeAt: new Date('2026-01-01T01:00:00Z') });
+      expect(started.context.log).toEqual(['first']);
+
+      const waiting = await manager.getInstance<Ctx>(started.sagaId);
+      expect(waiting?.status).toBe('waiting');
+      expect(waiting?.steps.map((s) => s.status)).toEqual(['completed', 'pending', 'pending']);
+
+      // Not yet due
+      expect(await manager.resumeDue()).toEqual({ resumed: 0, failed: 0 });
+
+      vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      expect(await manager.resumeDue()).toEqual({ resumed: 1, failed: 0 });
+      const afterSecond = await manager.getInstance<Ctx>(started.sagaId);
+      expect(afterSecond?.status).toBe('waiting');
+      expect(afterSecond?.resumeAt).toEqual(new Date('2026-01-01T03:00:00Z'));
+
+      vi.setSystemTime(new Date('2026-01-01T03:00:00Z'));
+      await manager.resumeDue();
+      const done = await manager.getInstance<Ctx>(started.sagaId);
+      expect(done?.context.log).toEqual(['first', 'second', 'third']);
+    });
+
+    it('computes the delay from the context', async () => {
+      setSagaStoreProvider(memoryStore());
+      manager.register(delayedSaga('test.computed'));
+      const started = await manager.start('test.computed', { log: ['skip-wait'] });
+
+      vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      await manager.resumeDue();
+
+      const instance = await manager.getInstance<Ctx>(started.sagaId);
+      expect(instance?.status).toBe('completed');
+    });
+
+    it('keeps waiting sagas in memory without a store', async () => {
+      const onComplete = vi.fn();
+      manager.register({ ...delayedSaga('test.memory'), onComplete });
+      await manager.start('test.memory', { log: ['skip-wait'] });
+
+      vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      expect(await manager.resumeDue()).toEqual({ resumed: 1, failed: 0 });
+      expect(onComplete).toHaveBeenCalledWith({ log: ['skip-wait', 'first', 'second', 'third'] });
+    });
+
+    it('persists waiting sagas and finds them through the store', async () => {
+      const store = memoryStore();
+      setSagaStoreProvider(store);
+      manager.register(delayedSaga('test.persisted'));
+
+      const started = await manager.start('test.persisted', { log: [] }, { id: 'saga_1' });
+      expect(store.items.get('saga_1')).toMatchObject({ status: 'waiting', currentStepIndex: 1 });
+
+      // A fresh manager (e.g. after restart) resumes it
+      const restarted = createSagaManager();
+      vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      expect(await restarted.resumeDue()).toEqual({ resumed: 1, failed: 0 });
+      expect(store.items.get(started.sagaId)?.steps[1]?.status).toBe('completed');
+    });
+
+    it('does not treat waiting sagas as incomplete for recovery', async () => {
+      const store = memoryStore();
+      setSagaStoreProvider(store);
+      manager.register(delayedSaga('test.recovery'));
+      await manager.start('test.recovery', { log: [] });
+
+      expect(await manager.recoverAll()).toEqual({ recovered: 0, failed: 0 });
+    });
+  });
+
+  describe('recovery', () => {
+    it('finishes an interrupted compensation without re-running steps', async () => {
+      const store = memoryStore();
+      setSagaStoreProvider(store);
+      const onFail = vi.fn();
+      const undo = vi.fn(async (ctx: Ctx) => ({ log: [...ctx.log, 'undo'] }));
+      manager.register(defineSaga<Ctx>({
+        name: 'test.interrupted',
+        steps: [
+          { name: 'a', execute: async () => { throw new Error('must not run'); }, compensate: undo },
+          { name: 'b', execute: async () => { throw new Error('must not run'); }, compensate: undo },
+          { name: 'c', execute: async () => { throw new Error('must not run'); } },
+        ],
+        onFail,
+      }));
+
+      // Crashed after undoing 'b' while compensating a failure in 'c'
+      const now = new Date();
+      await store.create<Ctx>({
+        id: 'saga_crashed',
+        sagaName: 'test.interrupted',
+        status: 'compensating',
+        context: { log: ['a', 'b', 'undo'] },
+        steps: [
+          { name: 'a', status: 'completed', attempts: 1 },
+          { name: 'b', status: 'compensated', attempts: 1 },
+          { name: 'c', status: 'failed', attempts: 1, error: 'boom' },
+        ],
+        currentStepIndex: 2,
+        createdAt: now,
+        updatedAt: now,
+        error: 'boom',
+        failedStep: 'c',
+      });
+
+      const result = await manager.resume<Ctx>('saga_crashed');
+
+      expect(result).toMatchObject({ success: false, failedStep: 'c', error: 'boom' });
+      expect(undo).toHaveBeenCalledOnce();
+      expect(onFail).toHaveBeenCalledWith({ log: ['a', 'b', 'undo', 'undo'] }, expect.any(Error), 'c');
+      const stored = store.items.get('saga_crashed');
+      expect(stored?.status).toBe('compensated');
+      expect(stored?.steps.map((s) => s.status)).toEqual(['compensated', 'compensated', 'failed']);
+    });
+
+    it('stops without compensating when another runner updated the saga', async () => {
+      const store = memoryStore();
+      const update = store.update;
+      let calls = 0;
+      store.update = async (instance) => {
+        calls++;
+        if (calls === 3) throw new SagaConflictError(instance.id, 2);
+        return update(instance);
+      };
+      setSagaStoreProvider(store);
+      const undo = vi.fn();
+      manager.register(defineSaga<Ctx>({
+        name: 'test.conflict',
+        steps: [
+          { name: 'a', execute: async () => {}, compensate: async () => { undo(); } },
+          { name: 'b', execute: async () => {} },
+        ],
+      }));
+
+      await expect(manager.start('test.conflict', { log: [] })).rejects.toBeInstanceOf(SagaConflictError);
+      expect(undo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('compensates the completed steps of a waiting saga', async () => {
+      manager.register(delayedSaga('test.cancel'));
+      const started = await manager.start('test.cancel', { log: [] });
+
+      const cancelled = await manager.cancel<Ctx>(started.sagaId, 'no longer needed');
+
+      expect(cancelled).toMatchObject({ status: 'compensated', error: 'no longer needed' });
+      expect(cancelled?.context.log).toEqual(['first', 'undo-first']);
+
+      // A cancelled saga is not resumed
+      vi.setSystemTime(new Date('2026-01-01T05:00:00Z'));
+      expect(await manager.resumeDue()).toEqual({ resumed: 0, failed: 0 });
+    });
+
+    it('rolls back a completed saga', async () => {
+      const store = memoryStore();
+      setSagaStoreProvider(store);
+      manager.register(delayedSaga('test.rollback'));
+      const started = await manager.start('test.rollback', { log: ['skip-wait'] });
+      vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      await manager.resumeDue();
+
+      const cancelled = await manager.cancel<Ctx>(started.sagaId, 'rollback');
+
+      expect(cancelled?.context.log).toEqual(['skip-wait', 'first', 'second', 'third', 'undo-second', 'undo-first']);
+      expect(store.items.get(started.sagaId)?.status).toBe('compensated');
+    });
+
+    it('is idempotent and returns null for unknown sagas', async () => {
+      setSagaStoreProvider(memoryStore());
+      manager.register(delayedSaga('test.idempotent'));
+      const started = await manager.start('test.idempotent', { log: [] });
+
+      await manager.cancel(started.sagaId, 'first');
+      const again = await manager.cancel<Ctx>(started.sagaId, 'second');
+
+      expect(again?.error).toBe('first');
+      expect(again?.context.log).toEqual(['first', 'undo-first']);
+      expect(await manager.cancel('missing', 'x')).toBeNull();
+    });
+  });
+});
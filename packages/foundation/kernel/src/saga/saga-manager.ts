@@ -38,10 +38,17 @@
  *   console.log('Failed at step:', result.failedStep);
  * }
  * ```
+ *
+ * ## Delayed steps
+ *
+ * A step with `delayMs` pauses the saga in `waiting` status until it is due.
+ * Run `resumeDue()` periodically (e.g. from a job) to continue waiting sagas,
+ * and `cancel()` to stop one and compensate the steps it already completed.
  */
 
 import { generateId } from '../utils/ids';
 import { logger } from '../observability/logger';
+import { SagaConflictError } from './errors';
 import type {
   SagaDefinition,
   SagaInstance,
@@ -170,7 +177,8 @@ export interface SagaManager {
   ): Promise<SagaResult<TContext>>;
 
   /**
-   * Resume an incomplete saga (for recovery).
+   * Resume an incomplete saga (for recovery). A saga interrupted during
+   * compensation finishes compensating instead of running forward.
    */
   resume<TContext>(sagaId: string): Promise<SagaResult<TContext>>;
 
@@ -188,6 +196,19 @@ export interface SagaManager {
    * Recover all incomplete sagas.
    */
   recoverAll(): Promise<{ recovered: number; failed: number }>;
+
+  /**
+   * Resume waiting sagas whose delayed step is due.
+   */
+  resumeDue(now?: Date, limit?: number): Promise<{ resumed: number; failed: number }>;
+
+  /**
+   * Stop a pending or waiting saga, or roll back a completed one, by
+   * compensating its completed steps in reverse order. Returns the
+   * compensated instance, or null if the saga does not exist. Sagas that
+   * already ended in compensation or failure are returned unchanged.
+   */
+  cancel<TContext>(sagaId: string, reason: string): Promise<SagaInstance<TContext> | null>;
 }
 
 /**
@@ -196,6 +217,58 @@ export interface SagaManager {
 export function createSagaManager(): SagaManager {
   const log = logger.child({ module: 'saga-manager' });
 
+  /**
+   * Waiting sagas when no store is configured (lost on restart).
+   */
+  const waitingSagas = new Map<string, SagaInstance<unknown>>();
+
+  async function loadInstance<TContext>(sagaId: string): Promise<SagaInstance<TContext> | null> {
+    if (sagaStoreProvider) {
+      return sagaStoreProvider.getById<TContext>(sagaId);
+    }
+    return (waitingSagas.get(sagaId) as SagaInstance<TContext> | undefined) ?? null;
+  }
+
+  function getDefinition<TContext>(sagaName: string): SagaDefinition<TContext> {
+    const definition = sagaRegistry.get(sagaName) as SagaDefinition<TContext> | undefined;
+    if (!definition) {
+      throw new Error(`Saga '${sagaName}' is not registered`);
+    }
+    return definition;
+  }
+
+  /**
+   * Pause a saga before a delayed step.
+   */
+  async function pause<TContext>(
+    instance: SagaInstance<TContext>,
+    stepIndex: number
+  ): Promise<SagaResult<TContext>> {
+    instance.status = 'waiting';
+    instance.currentStepIndex = stepIndex;
+    instance.updatedAt = new Date();
+
+    if (sagaStoreProvider) {
+      await sagaStoreProvider.update(instance);
+    } else {
+      waitingSagas.set(instance.id, instance as SagaInstance<unknown>);
+    }
+
+    log.info('Saga waiting', {
+      sagaId: instance.id,
+      sagaName: instance.sagaName,
+      step: instance.steps[stepIndex]?.name,
+      resumeAt: instance.resumeAt?.toISOString(),
+    });
+
+    return {
+      success: true,
+      context: instance.context,
+      sagaId: instance.id,
+      resumeAt: instance.resumeAt,
+    };
+  }
+
   /**
    * Execute a single step with timeout and retry.
    */
@@ -262,6 +335,7 @@ export function createSagaManager(): SagaManager {
     });
 
     instance.status = 'compensating';
+    instance.updatedAt = new Date();
     if (sagaStoreProvider) {
       await sagaStoreProvider.update(instance);
     }
@@ -275,8 +349,12 @@ export function createSagaManager(): SagaManager {
 
       if (!step || !stepRecord) continue;
 
-      // Skip if step wasn't completed or has no compensate
-      if (stepRecord.status !== 'completed' || !step.compensate) {
+      // Already handled before an interrupted compensation was resumed
+      if (stepRecord.status === 'compensated' || stepRecord.status === 'failed') continue;
+
+      // Skip if step wasn't completed or has no compensate. A step left in
+      // 'compensating' was interrupted and is compensated again.
+      if ((stepRecord.status !== 'completed' && stepRecord.status !== 'compensating') || !step.compensate) {
         stepRecord.status = 'skipped';
         continue;
       }
@@ -308,6 +386,13 @@ export function createSagaManager(): SagaManager {
 
         // Continue compensating remaining steps even if one fails
       }
+
+      // Record progress so a resumed compensation skips undone steps
+      instance.context = context;
+      instance.updatedAt = new Date();
+      if (sagaStoreProvider) {
+        await sagaStoreProvider.update(instance);
+      }
     }
 
     instance.context = context;
@@ -337,6 +422,7 @@ export function createSagaManager(): SagaManager {
     });
 
     instance.status = 'running';
+    instance.updatedAt = new Date();
     if (sagaStoreProvider) {
       await sagaStoreProvider.update(instance);
     }
@@ -386,9 +472,24 @@ export function createSagaManager(): SagaManager {
         instance.steps[i] = stepRecord;
       }
 
+      // Delayed step: wait until due (a step interrupted mid-run is retried at once)
+      if (stepRecord.status === 'pending') {
+        if (!instance.resumeAt) {
+          const delay = typeof step.delayMs === 'function' ? step.delayMs(context) : (step.delayMs ?? 0);
+          if (delay > 0) {
+            instance.resumeAt = new Date(Date.now() + delay);
+          }
+        }
+        if (instance.resumeAt && instance.resumeAt.getTime() > Date.now()) {
+          return pause(instance, i);
+        }
+        instance.resumeAt = undefined;
+      }
+
       stepRecord.status = 'running';
       stepRecord.startedAt = new Date();
       instance.currentStepIndex = i;
+      instance.updatedAt = new Date();
 
       if (sagaStoreProvider) {
         await sagaStoreProvider.update(instance);
@@ -402,6 +503,7 @@ export function createSagaManager(): SagaManager {
 
         stepRecord.status = 'completed';
         stepRecord.completedAt = new Date();
+        instance.updatedAt = new Date();
 
         if (sagaStoreProvider) {
           await sagaStoreProvider.update(instance);
@@ -409,6 +511,11 @@ export function createSagaManager(): SagaManager {
 
         log.debug('Step completed', { sagaId: instance.id, step: step.name });
       } catch (error) {
+        // Another runner took over this saga; leave it to them
+        if (error instanceof SagaConflictError) {
+          throw error;
+        }
+
         const err = error instanceof Error ? error : new Error(String(error));
 
         stepRecord.status = 'failed';
@@ -532,30 +639,56 @@ export function createSagaManager(): SagaManager {
     },
 
     async resume<TContext>(sagaId: string): Promise<SagaResult<TContext>> {
-      if (!sagaStoreProvider) {
+      if (!sagaStoreProvider && !waitingSagas.has(sagaId)) {
         throw new Error('Saga store provider not configured');
       }
 
-      const instance = await sagaStoreProvider.getById<TContext>(sagaId);
+      const instance = await loadInstance<TContext>(sagaId);
       if (!instance) {
         throw new Error(`Saga instance '${sagaId}' not found`);
       }
 
-      const definition = sagaRegistry.get(instance.sagaName) as SagaDefinition<TContext> | undefined;
-      if (!definition) {
-        throw new Error(`Saga '${instance.sagaName}' is not registered`);
+      const definition = getDefinition<TContext>(instance.sagaName);
+
+      // Finished sagas (e.g. cancelled while waiting) are not run again
+      if (instance.status === 'completed') {
+        return { success: true, context: instance.context, sagaId };
+      }
+      if (instance.status === 'compensated' || instance.status === 'failed') {
+        return {
+          success: false,
+          error: instance.error ?? `Saga is ${instance.status}`,
+          failedStep: instance.failedStep ?? 'unknown',
+          sagaId,
+          context: instance.context,
+        };
+      }
+
+      // Interrupted while rolling back: finish the compensation
+      if (instance.status === 'compensating') {
+        log.info('Resuming saga compensation', { sagaId, sagaName: instance.sagaName });
+
+        await compensate(definition, instance, definition.steps.length);
+        if (definition.onFail && instance.failedStep) {
+          await definition.onFail(instance.context, new Error(instance.error ?? 'Saga failed'), instance.failedStep);
+        }
+        return {
+          success: false,
+          error: instance.error ?? 'Saga compensated',
+          failedStep: instance.failedStep ?? 'unknown',
+          sagaId,
+          context: instance.context,
+        };
       }
 
       log.info('Resuming saga', { sagaId, sagaName: instance.sagaName });
 
+      waitingSagas.delete(sagaId);
       return runSaga(definition, instance);
     },
 
     async getInstance<TContext>(sagaId: string): Promise<SagaInstance<TContext> | null> {
-      if (!sagaStoreProvider) {
-        return null;
-      }
-      return sagaStoreProvider.getById<TContext>(sagaId);
+      return loadInstance<TContext>(sagaId);
     },
 
     async findIncomplete(): Promise<SagaInstance[]> {
@@ -570,7 +703,10 @@ export function createSagaManager(): SagaManager {
         return { recovered: 0, failed: 0 };
       }
 
-      const incomplete = await sagaStoreProvider.findIncomplete();
+      // Waiting sagas continue through resumeDue() once due
+      const incomplete = (await sagaStoreProvider.findIncomplete()).filter(
+        (instance) => instance.status !== 'waiting'
+      );
       let recovered = 0;
       let failed = 0;
 
@@ -595,6 +731,64 @@ export function createSagaManager(): SagaManager {
 
       return { recovered, failed };
     },
+
+    async resumeDue(now = new Date(), limit?: number): Promise<{ resumed: number; failed: number }> {
+      const due = sagaStoreProvider
+        ? await sagaStoreProvider.findDue(now, limit)
+        : Array.from(waitingSagas.values())
+            .filter((instance) => instance.resumeAt && instance.resumeAt.getTime() <= now.getTime())
+            .slice(0, limit);
+      let resumed = 0;
+      let failed = 0;
+
+      for (const instance of due) {
+        try {
+          const result = await this.resume(instance.id);
+          if (result.success) {
+            resumed++;
+          } else {
+            failed++;
+          }
+        } catch (error) {
+          log.error('Failed to resume saga', {
+            sagaId: instance.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          failed++;
+        }
+      }
+
+      if (due.length > 0) {
+        log.info('Due sagas resumed', { resumed, failed });
+      }
+
+      return { resumed, failed };
+    },
+
+    async cancel<TContext>(sagaId: string, reason: string): Promise<SagaInstance<TContext> | null> {
+      const instance = await loadInstance<TContext>(sagaId);
+      if (!instance) {
+        return null;
+      }
+      if (instance.status === 'compensated' || instance.status === 'failed') {
+        return instance;
+      }
+      if (instance.status === 'running' || instance.status === 'compensating') {
+        throw new Error(`Saga '${sagaId}' is ${instance.status} and cannot be cancelled`);
+      }
+
+      const definition = getDefinition<TContext>(instance.sagaName);
+
+      log.info('Cancelling saga', { sagaId, sagaName: instance.sagaName, reason });
+
+      waitingSagas.delete(sagaId);
+      instance.error = reason;
+      instance.resumeAt = undefined;
+      const upTo = instance.status === 'completed' ? definition.steps.length : instance.currentStepIndex;
+      await compensate(definition, instance, upTo);
+
+      return instance;
+    },
   };
 }
 
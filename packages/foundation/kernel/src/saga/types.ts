@@ -11,6 +11,7 @@
 export type SagaStatus =
   | 'pending'      // Not started
   | 'running'      // Currently executing steps
+  | 'waiting'      // Paused until a delayed step is due
   | 'completed'    // All steps completed successfully
   | 'compensating' // Rolling back after failure
   | 'compensated'  // Successfully rolled back
@@ -65,6 +66,14 @@ export interface SagaStep<TContext> {
    */
   retries?: number;
 
+  /**
+   * Delay before this step runs, in milliseconds, either fixed or computed
+   * from the context when the step is reached. The saga pauses in `waiting`
+   * status until `resumeAt`; `SagaManager.resumeDue()` picks it up again.
+   * Default: 0 (run immediately)
+   */
+  delayMs?: number | ((context: TContext) => number);
+
   /**
    * Whether this step should run even if previous steps failed.
    * Default: false
@@ -159,6 +168,9 @@ export interface SagaInstance<TContext = unknown> {
   /** When the saga was last updated */
   updatedAt: Date;
 
+  /** When a waiting saga is due to resume */
+  resumeAt?: Date;
+
   /** When the saga completed (if completed) */
   completedAt?: Date;
 
@@ -173,6 +185,12 @@ export interface SagaInstance<TContext = unknown> {
 
   /** Scope ID (tenant, user, etc.) */
   scopeId?: string;
+
+  /**
+   * Store revision for optimistic concurrency. Maintained by stores that
+   * support it; application code should not change it.
+   */
+  version?: number;
 }
 
 /**
@@ -199,7 +217,8 @@ export interface SagaStorePort {
   create<TContext>(instance: SagaInstance<TContext>): Promise<void>;
 
   /**
-   * Update an existing saga instance.
+   * Update an existing saga instance. Stores with optimistic concurrency
+   * throw `SagaConflictError` when the instance changed since it was read.
    */
   update<TContext>(instance: SagaInstance<TContext>): Promise<void>;
 
@@ -223,10 +242,16 @@ export interface SagaStorePort {
   ): Promise<SagaInstance[]>;
 
   /**
-   * Find incomplete sagas (for recovery).
+   * Find incomplete sagas (for recovery). Waiting sagas are not
+   * incomplete; they are resumed through `findDue`.
    */
   findIncomplete(limit?: number): Promise<SagaInstance[]>;
 
+  /**
+   * Find waiting sagas whose `resumeAt` is at or before `now`.
+   */
+  findDue(now: Date, limit?: number): Promise<SagaInstance[]>;
+
   /**
    * Delete a saga instance.
    */
@@ -239,8 +264,26 @@ export interface SagaStorePort {
 }
 
 /**
- * Result of running a saga.
+ * Port interface for a named, expiring lease. Used by the saga recovery
+ * worker so only one instance recovers sagas at a time.
+ */
+export interface SagaLeasePort {
+  /**
+   * Take or renew the lease for `owner`. Returns false while another owner
+   * holds an unexpired lease.
+   */
+  acquire(name: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Give up the lease if `owner` still holds it.
+   */
+  release(name: string, owner: string): Promise<void>;
+}
+
+/**
+ * Result of running a saga. A saga paused at a delayed step reports
+ * success with `resumeAt` set.
  */
 export type SagaResult<TContext> =
-  | { success: true; context: TContext; sagaId: string }
+  | { success: true; context: TContext; sagaId: string; resumeAt?: Date }
   | { success: false; error: string; failedStep: string; sagaId: string; context: TContext };
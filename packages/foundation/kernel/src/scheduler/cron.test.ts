@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronRun, parseCron } from './cron';
+import { ValidationError } from '../errors/common';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseCron', () => {
+  it('parses values, ranges, lists, steps and names', () => {
+    const cron = parseCron('*/20 9-11 1,15 JAN-MAR mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 20, 40]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.dayOfMonthRestricted).toBe(true);
+    expect(cron.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('expands aliases and treats 7 as Sunday', () => {
+    expect(parseCron('@daily')).toMatchObject({ source: '@daily' });
+    expect([...parseCron('@hourly').minutes]).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it.each([
+    ['* * * *', 'expected 5 fields'],
+    ['60 * * * *', 'out of range'],
+    ['* * 0 * *', 'out of range'],
+    ['*/0 * * * *', 'invalid step'],
+    ['10-5 * * * *', 'reversed'],
+    ['* * * FOO *', 'not a valid month'],
+    ['1,,2 * * * *', 'malformed'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(ValidationError);
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute strictly after the reference', () => {
+    expect(nextCronRun('*/15 * * * *', at('2026-01-01T10:07:30Z'))).toEqual(at('2026-01-01T10:15:00Z'));
+    expect(nextCronRun('*/15 * * * *', at('2026-01-01T10:15:00Z'))).toEqual(at('2026-01-01T10:30:00Z'));
+    expect(nextCronRun('0 0 1 * *', at('2026-01-31T23:59:00Z'))).toEqual(at('2026-02-01T00:00:00Z'));
+  });
+
+  it('evaluates the expression in the given timezone', () => {
+    // 2026-01-01 is a Thursday; Berlin is UTC+1 in winter and UTC+2 in summer
+    expect(nextCronRun('0 9 * * MON', at('2026-01-01T00:00:00Z'), 'Europe/Berlin')).toEqual(at('2026-01-05T08:00:00Z'));
+    expect(nextCronRun('0 9 * * *', at('2026-07-01T00:00:00Z'), 'Europe/Berlin')).toEqual(at('2026-07-01T07:00:00Z'));
+    expect(nextCronRun('30 0 * * *', at('2026-01-01T00:00:00Z'), 'Asia/Kolkata')).toEqual(at('2026-01-01T19:00:00Z'));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    expect(nextCronRun('0 0 13 * FRI', at('2026-01-01T00:00:00Z'))).toEqual(at('2026-01-02T00:00:00Z'));
+    expect(nextCronRun('0 0 13 * *', at('2026-01-01T00:00:00Z'))).toEqual(at('2026-01-13T00:00:00Z'));
+  });
+
+  it('skips local times that do not exist on a daylight-saving change', () => {
+    // New York moves from 02:00 to 03:00 on 2026-03-08
+    expect(nextCronRun('30 2 * * *', at('2026-03-08T05:00:00Z'), 'America/New_York')).toEqual(
+      at('2026-03-09T06:30:00Z')
+    );
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(nextCronRun('0 0 31 2 *', at('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('skips days correctly across DST changes', () => {
+    // Berlin moves to UTC+2 on Sunday 2026-03-29 (a 23-hour day) and back on 2026-10-25
+    expect(nextCronRun('0 0 * * MON', at('2026-03-28T11:00:00Z'), 'Europe/Berlin')).toEqual(at('2026-03-29T22:00:00Z'));
+    expect(nextCronRun('0 0 * * MON', at('2026-10-24T11:00:00Z'), 'Europe/Berlin')).toEqual(at('2026-10-25T23:00:00Z'));
+    expect(nextCronRun('30 2 * * *', at('2026-03-28T12:00:00Z'), 'Europe/Berlin')).toEqual(at('2026-03-30T00:30:00Z'));
+  });
+
+  it('rejects unknown timezones', () => {
+    expect(() => nextCronRun('@daily', new Date(), 'Mars/Olympus')).toThrow(ValidationError);
+  });
+});
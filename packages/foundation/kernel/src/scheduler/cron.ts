@@ -0,0 +1,323 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard 5-field cron expressions and computes the next run time
+ * in a given IANA timezone.
+ *
+ * ```
+ * ┌───────────── minute (0-59)
+ * │ ┌─────────── hour (0-23)
+ * │ │ ┌───────── day of month (1-31)
+ * │ │ │ ┌─────── month (1-12 or JAN-DEC)
+ * │ │ │ │ ┌───── day of week (0-7 or SUN-SAT; 0 and 7 are Sunday)
+ * * * * * *
+ * ```
+ *
+ * Each field accepts `*`, values, ranges (`1-5`), lists (`1,15`) and steps
+ * (`0-59/15`, `5/10`). The aliases `@yearly`, `@monthly`, `@weekly`,
+ * `@daily` and `@hourly` are supported. As in Vixie cron, when both day of
+ * month and day of week are restricted, a day matching either one runs.
+ *
+ * Local times skipped by a daylight-saving change do not fire; local times
+ * repeated by one fire twice.
+ */
+
+import { ValidationError } from '../errors/common';
+
+/**
+ * A parsed cron expression.
+ */
+export interface CronExpression {
+  /** Original expression */
+  source: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  /** 0 = Sunday */
+  daysOfWeek: ReadonlySet<number>;
+  /** Day of month field does not start with `*` */
+  dayOfMonthRestricted: boolean;
+  /** Day of week field does not start with `*` */
+  dayOfWeekRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names mapped to `min + index` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * How far ahead `nextCronRun` searches before giving up.
+ */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+function invalid(expression: string, reason: string): ValidationError {
+  return new ValidationError(`Invalid cron expression '${expression}': ${reason}`, { expression });
+}
+
+function parseValue(expression: string, spec: FieldSpec, raw: string): number {
+  const upper = raw.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  if (named >= 0) {
+    return spec.min + named;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw invalid(expression, `'${raw}' is not a valid ${spec.name}`);
+  }
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw invalid(expression, `${spec.name} ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(expression: string, spec: FieldSpec, field: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepRaw, extra] = part.split('/');
+    if (range === undefined || range === '' || extra !== undefined) {
+      throw invalid(expression, `malformed ${spec.name} '${field}'`);
+    }
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number(stepRaw) === 0) {
+        throw invalid(expression, `invalid step '${stepRaw}' in ${spec.name}`);
+      }
+      step = Number(stepRaw);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(expression, spec, from ?? '');
+      end = parseValue(expression, spec, to ?? '');
+      if (start > end) {
+        throw invalid(expression, `range '${range}' in ${spec.name} is reversed`);
+      }
+    } else {
+      start = parseValue(expression, spec, range);
+      // `5/15` means "from 5 to the end, every 15"
+      end = stepRaw !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression.
+ *
+ * @throws ValidationError when the expression is malformed
+ *
+ * @example
+ * ```typescript
+ * parseCron('0-59/15 9-17 * * MON-FRI'); // every 15 minutes during office hours
+ * ```
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const normalized = ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw invalid(expression, `expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(expression, FIELDS[i]!, field)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2]!.startsWith('*'),
+    dayOfWeekRestricted: !fields[4]!.startsWith('*'),
+  };
+}
+
+// =============================================================================
+// Timezone handling
+// =============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a valid IANA name.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface LocalTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function toLocalTime(ms: number, timezone: string): LocalTime {
+  const local: LocalTime = { month: 0, day: 0, weekday: 0, hour: 0, minute: 0 };
+  for (const part of getFormatter(timezone).formatToParts(ms)) {
+    switch (part.type) {
+      case 'month':
+        local.month = Number(part.value);
+        break;
+      case 'day':
+        local.day = Number(part.value);
+        break;
+      case 'weekday':
+        local.weekday = DAY_NAMES.indexOf(part.value.toUpperCase());
+        break;
+      case 'hour':
+        local.hour = Number(part.value);
+        break;
+      case 'minute':
+        local.minute = Number(part.value);
+        break;
+    }
+  }
+  return local;
+}
+
+function matchesDay(cron: CronExpression, local: LocalTime): boolean {
+  const dom = cron.daysOfMonth.has(local.day);
+  const dow = cron.daysOfWeek.has(local.weekday);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First minute of the local day after the one `t` falls in. Adding the
+ * minutes left in the day overshoots by an hour when the day is 23 hours
+ * long (DST starts), so step back to midnight unless midnight was skipped.
+ * A 25-hour day undershoots to 23:00, which the caller skips again.
+ */
+function startOfNextLocalDay(t: number, local: LocalTime, timezone: string): number {
+  const next = t + ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE_MS;
+  const nextLocal = toLocalTime(next, timezone);
+  const back = (nextLocal.hour * 60 + nextLocal.minute) * MINUTE_MS;
+  if (back > 0 && nextLocal.day !== local.day && toLocalTime(next - back, timezone).day === nextLocal.day) {
+    return next - back;
+  }
+  return next;
+}
+
+/**
+ * Compute the next time a cron expression fires, strictly after `after`.
+ *
+ * @param cron Expression or parsed expression
+ * @param after Reference time
+ * @param timezone IANA timezone the expression is written in (default: 'UTC')
+ * @returns Next run time, or null if the expression never fires (e.g. `0 0 31 2 *`)
+ *
+ * @example
+ * ```typescript
+ * nextCronRun('0 9 * * MON', new Date(), 'Europe/Berlin');
+ * ```
+ */
+export function nextCronRun(
+  cron: string | CronExpression,
+  after: Date,
+  timezone = 'UTC'
+): Date | null {
+  const parsed = typeof cron === 'string' ? parseCron(cron) : cron;
+  if (!isValidTimezone(timezone)) {
+    throw new ValidationError(`Invalid timezone '${timezone}'`, { timezone });
+  }
+
+  // Start at the next whole minute
+  let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = t + MAX_SEARCH_MS;
+
+  while (t <= limit) {
+    const local = toLocalTime(t, timezone);
+
+    if (!parsed.months.has(local.month) || !matchesDay(parsed, local)) {
+      t = startOfNextLocalDay(t, local, timezone);
+      continue;
+    }
+    if (!parsed.hours.has(local.hour)) {
+      t += (60 - local.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!parsed.minutes.has(local.minute)) {
+      t += MINUTE_MS;
+      continue;
+    }
+    return new Date(t);
+  }
+
+  return null;
+}
@@ -0,0 +1,73 @@
+/**
+ * Scheduler Module
+ *
+ * Cron-style scheduled tasks. Modules register named schedules at
+ * bootstrap; the scheduler runs each occurrence once per cluster using
+ * locks in the cache, and keeps run history and the last error in the
+ * cache for admin routes and the devtools CLI.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { defineSchedule, getScheduler } from '@unisane/kernel';
+ *
+ * getScheduler().register(defineSchedule({
+ *   name: 'usage.rollupDay',
+ *   cron: '15 0 * * *',
+ *   timezone: 'UTC',
+ *   description: 'Roll up yesterday\'s usage',
+ *   handler: async () => { await rollupDay(); },
+ * }));
+ *
+ * getScheduler().start();
+ * ```
+ *
+ * ## Run history and manual runs
+ *
+ * ```typescript
+ * await getScheduler().list();                 // next run, last run, last error
+ * await getScheduleRuns('usage.rollupDay');    // recent runs, newest first
+ * await getScheduler().runNow('usage.rollupDay');
+ *
+ * // From a process without the schedules (e.g. a CLI): picked up by the
+ * // next poll of a running scheduler
+ * await requestScheduleRun('usage.rollupDay');
+ * ```
+ */
+
+// Types
+export type {
+  ScheduleTrigger,
+  ScheduleRunStatus,
+  ScheduleContext,
+  ScheduleDefinition,
+  ScheduleRun,
+  ScheduleError,
+  ScheduleCatalogEntry,
+  ScheduleInfo,
+} from './types';
+
+// Cron expressions
+export { parseCron, nextCronRun, isValidTimezone } from './cron';
+export type { CronExpression } from './cron';
+
+// Scheduler
+export {
+  defineSchedule,
+  createScheduler,
+  getScheduler,
+  clearScheduler,
+  listSchedulesAdmin,
+  listScheduleRunsAdmin,
+  runScheduleNowAdmin,
+} from './scheduler';
+export type { Scheduler, SchedulerOptions, ScheduleNameArgs } from './scheduler';
+
+// Shared state
+export {
+  getScheduleRuns,
+  getScheduleLastError,
+  getScheduleCatalog,
+  requestScheduleRun,
+  MAX_SCHEDULE_RUNS,
+} from './state';
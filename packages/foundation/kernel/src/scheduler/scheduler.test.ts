@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { clearScheduler, createScheduler, defineSchedule, getScheduler, runScheduleNowAdmin } from './scheduler';
+import { getScheduleCatalog, getScheduleRuns, requestScheduleRun } from './state';
+import { memoryStore } from '../cache/memory';
+import { ConflictError, NotFoundError, ValidationError } from '../errors/common';
+
+const MINUTE = 60 * 1000;
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T10:00:30Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs each occurrence once across instances', async () => {
+    const handler = vi.fn(async () => {});
+    const a = createScheduler({ instanceId: 'a' });
+    const b = createScheduler({ instanceId: 'b' });
+    for (const scheduler of [a, b]) {
+      scheduler.register(defineSchedule({ name: 'rollup', cron: '*/5 * * * *', handler }));
+    }
+
+    // Not due yet
+    expect(await a.tick()).toEqual([]);
+
+    const now = new Date('2026-01-01T10:05:10Z');
+    vi.setSystemTime(now);
+    const runs = await a.tick(now);
+    expect(await b.tick(now)).toEqual([]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'rollup', trigger: 'schedule', scheduledAt: new Date('2026-01-01T10:05:00Z') })
+    );
+    expect(runs).toEqual([expect.objectContaining({ status: 'success', instanceId: 'a' })]);
+
+    // The next occurrence runs again
+    const later = new Date('2026-01-01T10:10:05Z');
+    vi.setSystemTime(later);
+    expect(await b.tick(later)).toHaveLength(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('records run history and keeps the last error', async () => {
+    let fail = true;
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({
+      name: 'cleanup',
+      cron: '@hourly',
+      description: 'Remove stale files',
+      handler: async () => {
+        if (fail) throw new Error('bucket unavailable');
+      },
+    }));
+
+    expect((await scheduler.runNow('cleanup')).status).toBe('failed');
+    fail = false;
+    const run = await scheduler.runNow('cleanup');
+    expect(run).toMatchObject({ status: 'success', trigger: 'manual' });
+
+    const history = await getScheduleRuns('cleanup');
+    expect(history.map((r) => r.status)).toEqual(['success', 'failed']);
+    expect(history[1]).toMatchObject({ error: 'bucket unavailable' });
+    expect(history[0]?.startedAt).toBeInstanceOf(Date);
+
+    const [info] = await scheduler.list();
+    expect(info).toMatchObject({
+      name: 'cleanup',
+      cron: '@hourly',
+      timezone: 'UTC',
+      description: 'Remove stale files',
+      enabled: true,
+      nextRunAt: new Date('2026-01-01T11:00:00Z'),
+      lastRun: expect.objectContaining({ id: run.id }),
+      lastError: expect.objectContaining({ message: 'bucket unavailable' }),
+    });
+  });
+
+  it('runs disabled schedules only on demand', async () => {
+    const handler = vi.fn(async () => {});
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({ name: 'reindex', cron: '* * * * *', enabled: false, handler }));
+
+    const now = new Date('2026-01-01T10:05:00Z');
+    expect(await scheduler.tick(now)).toEqual([]);
+    expect((await scheduler.list())[0]?.nextRunAt).toBeNull();
+
+    await scheduler.runNow('reindex');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not overlap runs of the same schedule', async () => {
+    let release!: () => void;
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({
+      name: 'slow',
+      cron: '@daily',
+      handler: () => new Promise<void>((resolve) => { release = resolve; }),
+    }));
+
+    const first = scheduler.runNow('slow');
+    await vi.waitFor(() => expect(release).toBeDefined());
+
+    await expect(scheduler.runNow('slow')).rejects.toThrow(ConflictError);
+    release();
+    expect((await first).status).toBe('success');
+  });
+
+  it('fails runs that exceed their timeout', async () => {
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({
+      name: 'stuck',
+      cron: '@daily',
+      timeoutMs: 20,
+      handler: (ctx) => new Promise<void>((resolve) => ctx.signal.addEventListener('abort', () => resolve())),
+    }));
+
+    const run = await scheduler.runNow('stuck');
+    expect(run).toMatchObject({ status: 'failed', error: "Schedule 'stuck' timed out after 20ms" });
+  });
+
+  it('keeps the run lock until a timed-out handler returns', async () => {
+    let release: (() => void) | undefined;
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({
+      name: 'stubborn',
+      cron: '@daily',
+      timeoutMs: 20,
+      // The first run ignores its abort signal
+      handler: () => (release ? Promise.resolve() : new Promise<void>((resolve) => { release = resolve; })),
+    }));
+
+    expect(await scheduler.runNow('stubborn')).toMatchObject({ status: 'failed' });
+    await expect(scheduler.runNow('stubborn')).rejects.toThrow(ConflictError);
+
+    release!();
+    await vi.waitFor(async () => expect((await scheduler.runNow('stubborn')).status).toBe('success'));
+  });
+
+  it('picks up run requests from other processes', async () => {
+    const handler = vi.fn(async () => {});
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({ name: 'report', cron: '@weekly', handler }));
+
+    await requestScheduleRun('report');
+    const runs = await scheduler.tick();
+
+    expect(runs).toEqual([expect.objectContaining({ name: 'report', trigger: 'manual' })]);
+    expect(await scheduler.tick()).toEqual([]);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps run requests pending while a run is in progress', async () => {
+    let release: (() => void) | undefined;
+    const scheduler = createScheduler();
+    scheduler.register(defineSchedule({
+      name: 'export',
+      cron: '@weekly',
+      handler: () => (release ? Promise.resolve() : new Promise<void>((resolve) => { release = resolve; })),
+    }));
+
+    const first = scheduler.runNow('export');
+    await vi.waitFor(() => expect(release).toBeDefined());
+    const requestId = await requestScheduleRun('export');
+    expect(await scheduler.tick()).toEqual([]);
+
+    release!();
+    await first;
+    expect(await scheduler.tick()).toEqual([expect.objectContaining({ trigger: 'manual', requestId })]);
+    expect(await getScheduleRuns('export')).toEqual([
+      expect.objectContaining({ requestId }),
+      expect.not.objectContaining({ requestId }),
+    ]);
+  });
+
+  it('runs every queued request once across instances', async () => {
+    const handler = vi.fn(async () => {});
+    const a = createScheduler({ instanceId: 'a' });
+    const b = createScheduler({ instanceId: 'b' });
+    for (const scheduler of [a, b]) {
+      scheduler.register(defineSchedule({ name: 'report', cron: '@weekly', handler }));
+    }
+
+    const ids = [await requestScheduleRun('report'), await requestScheduleRun('report')];
+    const runs = (await Promise.all([a.tick(), b.tick()])).flat();
+    runs.push(...(await a.tick()), ...(await b.tick()));
+
+    expect(runs.map((run) => run.requestId).sort()).toEqual([...ids].sort());
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('requests admin runs for the next poll', async () => {
+    const handler = vi.fn(async () => {});
+    clearScheduler();
+    getScheduler().register(defineSchedule({ name: 'report', cron: '@weekly', handler }));
+
+    expect(await runScheduleNowAdmin({ name: 'report' })).toMatchObject({ name: 'report', status: 'requested' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(await getScheduler().tick()).toEqual([expect.objectContaining({ name: 'report', trigger: 'manual' })]);
+
+    await expect(runScheduleNowAdmin({ name: 'missing' })).rejects.toThrow(NotFoundError);
+    clearScheduler();
+  });
+
+  it('publishes its catalog when started', async () => {
+    const scheduler = createScheduler({ pollInterval: MINUTE });
+    scheduler.register(defineSchedule({ name: 'digest', cron: '0 8 * * *', timezone: 'Europe/Berlin', handler: async () => {} }));
+
+    scheduler.start();
+    await vi.waitFor(async () => expect(await getScheduleCatalog()).toHaveLength(1));
+    await scheduler.stop();
+
+    expect(await getScheduleCatalog()).toEqual([
+      { name: 'digest', cron: '0 8 * * *', timezone: 'Europe/Berlin', enabled: true },
+    ]);
+  });
+
+  it('validates schedules on registration', () => {
+    const scheduler = createScheduler();
+    const handler = async () => {};
+
+    expect(() => scheduler.register({ name: 'bad', cron: '* * *', handler })).toThrow(ValidationError);
+    expect(() => scheduler.register({ name: 'bad', cron: '@daily', timezone: 'Nowhere/City', handler })).toThrow(ValidationError);
+    expect(() => scheduler.register({ name: 'bad', cron: '0 0 30 2 *', handler })).toThrow('never fires');
+    expect(scheduler.isRegistered('bad')).toBe(false);
+    return expect(scheduler.runNow('missing')).rejects.toThrow(NotFoundError);
+  });
+});
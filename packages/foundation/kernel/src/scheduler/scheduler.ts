@@ -0,0 +1,590 @@
+/**
+ * Scheduler
+ *
+ * Runs named tasks on cron schedules. Modules register schedules at
+ * bootstrap; every instance runs the same scheduler, and locks in the cache
+ * make each occurrence fire once per cluster:
+ *
+ * - An occurrence lock (`schedule:<name>:<time>`) is claimed by the first
+ *   instance to see the occurrence and left to expire, so instances that
+ *   poll later skip it.
+ * - A run lock (`schedule:<name>:running`) is held until the handler
+ *   returns, so slow runs never overlap with the next occurrence or a
+ *   manual run. A run that exceeds its timeout is recorded as failed and
+ *   its signal aborted, but the lock is kept (and extended) until the
+ *   handler actually settles; if the instance dies, the lock expires.
+ * - Run-now requests from other processes (admin routes, the CLI) are
+ *   queued per request ID and taken by the instance that gets the run lock,
+ *   so a request waits out a run in progress instead of being dropped.
+ *
+ * Occurrences missed while no instance was running are not caught up.
+ *
+ * @example
+ * ```typescript
+ * import { defineSchedule, getScheduler } from '@unisane/kernel';
+ *
+ * const scheduler = getScheduler();
+ * scheduler.register(defineSchedule({
+ *   name: 'usage.rollupHour',
+ *   cron: '5 * * * *',
+ *   handler: async () => { await rollupHour(); },
+ * }));
+ * scheduler.register(defineSchedule({
+ *   name: 'reports.weekly',
+ *   cron: '0 8 * * MON',
+ *   timezone: 'Europe/Berlin',
+ *   handler: async (ctx) => { await sendWeeklyReports(ctx.deadlineMs); },
+ * }));
+ * scheduler.start();
+ *
+ * // On shutdown
+ * await scheduler.stop();
+ * ```
+ */
+
+import { randomUUID } from 'node:crypto';
+import { redis } from '../cache/redis';
+import { KV } from '../constants/kv';
+import { ConflictError, NotFoundError, ValidationError } from '../errors/common';
+import { acquireLock, extendLock, releaseLock } from '../locks/distributed-lock';
+import { logger } from '../observability/logger';
+import { isValidTimezone, nextCronRun, parseCron, type CronExpression } from './cron';
+import {
+  getScheduleLastError,
+  getScheduleRuns,
+  listScheduleRunRequests,
+  recordScheduleRun,
+  requestScheduleRun,
+  saveScheduleCatalog,
+  takeScheduleRunRequest,
+} from './state';
+import type {
+  ScheduleCatalogEntry,
+  ScheduleDefinition,
+  ScheduleInfo,
+  ScheduleRun,
+  ScheduleTrigger,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 300000;
+
+/**
+ * Scheduler configuration options.
+ */
+export interface SchedulerOptions {
+  /** How often due schedules and run-now requests are checked, in milliseconds (default: 15000) */
+  pollInterval?: number;
+  /** Instance ID recorded on runs (default: random) */
+  instanceId?: string;
+  /**
+   * How long a claimed occurrence stays claimed, in milliseconds. Must be
+   * longer than the poll interval plus the clock skew between instances
+   * (default: 300000).
+   */
+  occurrenceTtlMs?: number;
+}
+
+/**
+ * Scheduler instance.
+ */
+export interface Scheduler {
+  /**
+   * Register a schedule.
+   *
+   * @throws ValidationError when the cron expression or timezone is invalid
+   */
+  register(definition: ScheduleDefinition): void;
+
+  /**
+   * Unregister a schedule.
+   */
+  unregister(name: string): void;
+
+  /**
+   * Check if a schedule is registered.
+   */
+  isRegistered(name: string): boolean;
+
+  /**
+   * Get all registered schedule names.
+   */
+  getRegisteredSchedules(): string[];
+
+  /**
+   * Registered schedules with their next run, last run and last error.
+   */
+  list(): Promise<ScheduleInfo[]>;
+
+  /**
+   * Run a schedule immediately, outside its cron schedule. Works for
+   * disabled schedules too.
+   *
+   * @throws NotFoundError when the schedule is not registered
+   * @throws ConflictError when a run of the schedule is in progress
+   */
+  runNow(name: string): Promise<ScheduleRun>;
+
+  /**
+   * Run due schedules and pending run-now requests, and wait for them.
+   * Returns the runs this instance performed. Called by the polling loop;
+   * useful in tests and for driving the scheduler from an external cron.
+   */
+  tick(now?: Date): Promise<ScheduleRun[]>;
+
+  /** Start polling */
+  start(): void;
+  /** Stop polling and wait for runs in progress */
+  stop(): Promise<void>;
+  /** Check if the scheduler is polling */
+  isRunning(): boolean;
+}
+
+interface ScheduleEntry {
+  definition: ScheduleDefinition;
+  cron: CronExpression;
+  timezone: string;
+  nextRunAt: Date | null;
+  /** Check or runs in progress on this instance */
+  active: Promise<ScheduleRun[]> | null;
+}
+
+/**
+ * Define a schedule with type safety.
+ * This is a helper that provides better TypeScript inference.
+ */
+export function defineSchedule(definition: ScheduleDefinition): ScheduleDefinition {
+  return definition;
+}
+
+/**
+ * Create a scheduler.
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const {
+    pollInterval = 15000,
+    instanceId = randomUUID(),
+    occurrenceTtlMs = 300000,
+  } = options;
+
+  const log = logger.child({ module: 'scheduler' });
+  const entries = new Map<string, ScheduleEntry>();
+
+  let running = false;
+  let processing = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  function catalog(): ScheduleCatalogEntry[] {
+    return [...entries.values()].map(({ definition, timezone }) => ({
+      name: definition.name,
+      cron: definition.cron,
+      timezone,
+      ...(definition.description ? { description: definition.description } : {}),
+      enabled: definition.enabled !== false,
+    }));
+  }
+
+  function publishCatalog(): void {
+    saveScheduleCatalog(catalog()).catch((error) => {
+      log.warn('Failed to publish schedule catalog', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Run the handler with its timeout and record the outcome. Returns the
+   * handler's promise as `pending` when the run timed out before it settled.
+   */
+  async function execute(
+    entry: ScheduleEntry,
+    trigger: ScheduleTrigger,
+    scheduledAt: Date,
+    requestId?: string
+  ): Promise<{ run: ScheduleRun; pending: Promise<void> | null }> {
+    const { name, handler, timeoutMs = DEFAULT_TIMEOUT_MS } = entry.definition;
+    const controller = new AbortController();
+    const startedAt = new Date();
+    let error: string | undefined;
+    let settled = false;
+    let pending: Promise<void> | null = null;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Reject before aborting, so a handler that returns on abort still counts as timed out
+        reject(new Error(`Schedule '${name}' timed out after ${timeoutMs}ms`));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      const work = handler({
+        name,
+        scheduledAt,
+        trigger,
+        deadlineMs: startedAt.getTime() + timeoutMs,
+        signal: controller.signal,
+      });
+      const done = () => {
+        settled = true;
+      };
+      pending = work.then(done, done);
+      await Promise.race([work, timeout]);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const finishedAt = new Date();
+    const run: ScheduleRun = {
+      id: randomUUID(),
+      name,
+      trigger,
+      status: error === undefined ? 'success' : 'failed',
+      scheduledAt,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...(error !== undefined ? { error } : {}),
+      ...(requestId ? { requestId } : {}),
+      instanceId,
+    };
+
+    if (error === undefined) {
+      log.info('Schedule run completed', { schedule: name, trigger, durationMs: run.durationMs });
+    } else {
+      log.error('Schedule run failed', { schedule: name, trigger, durationMs: run.durationMs, error });
+    }
+
+    try {
+      await recordScheduleRun(run);
+    } catch (err) {
+      log.error('Failed to record schedule run', {
+        schedule: name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    return { run, pending: settled ? null : pending };
+  }
+
+  /**
+   * Run under the cluster-wide run lock. Returns null when another run is
+   * in progress, or when `requestId` is given and another instance took
+   * that request first. The request is only taken once the lock is held, so
+   * it stays pending while a previous run blocks it. After a timeout the run
+   * is returned while the handler may still be running; the lock is
+   * released once it settles.
+   */
+  async function runLocked(
+    entry: ScheduleEntry,
+    trigger: ScheduleTrigger,
+    scheduledAt: Date,
+    requestId?: string
+  ): Promise<ScheduleRun | null> {
+    const { name, timeoutMs = DEFAULT_TIMEOUT_MS } = entry.definition;
+    const lock = await acquireLock(`${KV.SCHEDULE}${name}:running`, { ttlMs: timeoutMs, maxRetries: 1 });
+    if (!lock) {
+      if (requestId) {
+        log.info('Schedule run request waiting, previous run still in progress', { schedule: name, requestId });
+      } else {
+        log.warn('Schedule run skipped, previous run still in progress', { schedule: name, trigger });
+      }
+      return null;
+    }
+    if (requestId && !(await takeScheduleRunRequest(name, requestId))) {
+      await releaseLock(lock);
+      return null;
+    }
+
+    // Extended every half TTL so the lock outlives a handler that ignores its timeout
+    const heartbeat = setInterval(() => void extendLock(lock, timeoutMs), Math.max(Math.floor(timeoutMs / 2), 1));
+    const release = async () => {
+      clearInterval(heartbeat);
+      await releaseLock(lock);
+    };
+
+    let pending: Promise<void> | null = null;
+    try {
+      const result = await execute(entry, trigger, scheduledAt, requestId);
+      pending = result.pending;
+      return result.run;
+    } finally {
+      if (pending) {
+        log.warn('Schedule handler still running after timeout, keeping run lock', { schedule: name, trigger });
+        void pending.then(release);
+      } else {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Claim an occurrence for this instance. Not released: the lock expiring
+   * is what keeps later instances from running the same occurrence.
+   */
+  async function claim(name: string, occurrence: string): Promise<boolean> {
+    return redis.set(`${KV.SCHEDULE}${name}:${occurrence}`, instanceId, { NX: true, PX: occurrenceTtlMs });
+  }
+
+  /**
+   * Handle pending run-now requests, oldest first, and a due occurrence of
+   * one schedule. Requests that cannot start yet are left for a later poll.
+   */
+  async function check(entry: ScheduleEntry, now: Date): Promise<ScheduleRun[]> {
+    const { name } = entry.definition;
+    const runs: ScheduleRun[] = [];
+
+    for (const requestId of await listScheduleRunRequests(name, now)) {
+      const run = await runLocked(entry, 'manual', now, requestId);
+      if (run) runs.push(run);
+    }
+
+    if (entry.definition.enabled === false || !entry.nextRunAt || entry.nextRunAt > now) {
+      return runs;
+    }
+
+    const scheduledAt = entry.nextRunAt;
+    entry.nextRunAt = nextCronRun(entry.cron, now, entry.timezone);
+
+    if (!(await claim(name, String(scheduledAt.getTime())))) {
+      return runs;
+    }
+    const run = await runLocked(entry, 'schedule', scheduledAt);
+    return run ? [...runs, run] : runs;
+  }
+
+  /**
+   * Start checks for all schedules without one in progress.
+   */
+  function dispatch(now: Date): Promise<ScheduleRun[]>[] {
+    const checks: Promise<ScheduleRun[]>[] = [];
+    for (const entry of entries.values()) {
+      if (entry.active) continue;
+
+      const active = check(entry, now)
+        .catch((error) => {
+          log.error('Error running schedule', {
+            schedule: entry.definition.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return [];
+        })
+        .finally(() => {
+          entry.active = null;
+        });
+      entry.active = active;
+      checks.push(active);
+    }
+    return checks;
+  }
+
+  /**
+   * Main polling loop. Runs continue in the background so a slow schedule
+   * does not delay the others.
+   */
+  function poll(): void {
+    if (!running || processing) {
+      return;
+    }
+
+    processing = true;
+    try {
+      dispatch(new Date());
+    } finally {
+      processing = false;
+    }
+
+    if (running) {
+      timeoutId = setTimeout(poll, pollInterval);
+    }
+  }
+
+  return {
+    register(definition: ScheduleDefinition): void {
+      const timezone = definition.timezone ?? 'UTC';
+      const cron = parseCron(definition.cron);
+      if (!isValidTimezone(timezone)) {
+        throw new ValidationError(`Invalid timezone '${timezone}' for schedule '${definition.name}'`, { timezone });
+      }
+      const nextRunAt = nextCronRun(cron, new Date(), timezone);
+      if (!nextRunAt) {
+        throw new ValidationError(`Schedule '${definition.name}' never fires`, { cron: definition.cron });
+      }
+
+      if (entries.has(definition.name)) {
+        log.warn('Overwriting existing schedule', { schedule: definition.name });
+      }
+      entries.set(definition.name, { definition, cron, timezone, nextRunAt, active: null });
+      log.debug('Schedule registered', { schedule: definition.name, cron: definition.cron, timezone });
+
+      if (running) publishCatalog();
+    },
+
+    unregister(name: string): void {
+      entries.delete(name);
+      if (running) publishCatalog();
+    },
+
+    isRegistered(name: string): boolean {
+      return entries.has(name);
+    },
+
+    getRegisteredSchedules(): string[] {
+      return Array.from(entries.keys());
+    },
+
+    async list(): Promise<ScheduleInfo[]> {
+      return Promise.all(
+        catalog().map(async (item) => {
+          const [runs, lastError] = await Promise.all([getScheduleRuns(item.name, 1), getScheduleLastError(item.name)]);
+          return {
+            ...item,
+            nextRunAt: item.enabled ? (entries.get(item.name)?.nextRunAt ?? null) : null,
+            lastRun: runs[0] ?? null,
+            lastError,
+          };
+        })
+      );
+    },
+
+    async runNow(name: string): Promise<ScheduleRun> {
+      const entry = entries.get(name);
+      if (!entry) {
+        throw new NotFoundError('Schedule', name);
+      }
+
+      const run = await runLocked(entry, 'manual', new Date());
+      if (!run) {
+        throw new ConflictError(`Schedule '${name}' is already running`);
+      }
+      return run;
+    },
+
+    async tick(now = new Date()): Promise<ScheduleRun[]> {
+      const runs = await Promise.all(dispatch(now));
+      return runs.flat();
+    },
+
+    start() {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      log.info('Scheduler started', { pollInterval, schedules: Array.from(entries.keys()) });
+
+      publishCatalog();
+      poll();
+    },
+
+    async stop() {
+      if (!running) {
+        return;
+      }
+
+      running = false;
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+
+      // Wait for runs in progress to complete
+      await Promise.all([...entries.values()].map((entry) => entry.active));
+
+      log.info('Scheduler stopped');
+    },
+
+    isRunning() {
+      return running;
+    },
+  };
+}
+
+// =============================================================================
+// Global Scheduler
+// =============================================================================
+
+let globalScheduler: Scheduler | null = null;
+
+/**
+ * Get the global scheduler (creates one if needed).
+ */
+export function getScheduler(): Scheduler {
+  if (!globalScheduler) {
+    globalScheduler = createScheduler();
+  }
+  return globalScheduler;
+}
+
+/**
+ * Clear the global scheduler (for testing).
+ */
+export function clearScheduler(): void {
+  globalScheduler = null;
+}
+
+// =============================================================================
+// Admin
+// =============================================================================
+
+function toRunDto(run: ScheduleRun) {
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status,
+    scheduledAt: run.scheduledAt.toISOString(),
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt.toISOString(),
+    durationMs: run.durationMs,
+    error: run.error ?? null,
+    requestId: run.requestId ?? null,
+  };
+}
+
+/**
+ * List registered schedules with their state for admin.
+ */
+export async function listSchedulesAdmin() {
+  const schedules = await getScheduler().list();
+  const items = schedules.map((s) => ({
+    name: s.name,
+    cron: s.cron,
+    timezone: s.timezone,
+    description: s.description ?? null,
+    enabled: s.enabled,
+    nextRunAt: s.nextRunAt ? s.nextRunAt.toISOString() : null,
+    lastRun: s.lastRun ? toRunDto(s.lastRun) : null,
+    lastError: s.lastError ? { message: s.lastError.message, at: s.lastError.at.toISOString() } : null,
+  }));
+  return { items } as const;
+}
+
+export type ScheduleNameArgs = { name: string };
+
+/**
+ * List recent runs of a schedule for admin.
+ */
+export async function listScheduleRunsAdmin(args: ScheduleNameArgs & { limit?: number }) {
+  if (!getScheduler().isRegistered(args.name)) {
+    throw new NotFoundError('Schedule', args.name);
+  }
+  const runs = await getScheduleRuns(args.name, Math.min(Math.max(args.limit ?? 20, 1), 50));
+  return { items: runs.map(toRunDto) } as const;
+}
+
+/**
+ * Request a run of a schedule for admin. The run happens on the next poll
+ * of any running scheduler instance (or once a run in progress finishes),
+ * so the request does not hold an HTTP call for the handler's duration;
+ * follow it with the run history, where the run carries the request ID.
+ */
+export async function runScheduleNowAdmin(args: ScheduleNameArgs) {
+  if (!getScheduler().isRegistered(args.name)) {
+    throw new NotFoundError('Schedule', args.name);
+  }
+  const requestId = await requestScheduleRun(args.name);
+  return { name: args.name, requestId, status: 'requested' as const };
+}
@@ -0,0 +1,141 @@
+/**
+ * Scheduler State
+ *
+ * Run history, last errors, the schedule catalog and run-now requests are
+ * kept in the cache so every instance, the admin routes and the devtools
+ * CLI see the same state.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { redis, type RedisProvider } from '../cache/redis';
+import { KV } from '../constants/kv';
+import type { ScheduleCatalogEntry, ScheduleError, ScheduleRun } from './types';
+
+/**
+ * Runs kept per schedule.
+ */
+export const MAX_SCHEDULE_RUNS = 50;
+
+/**
+ * How long history and errors are kept after the last write.
+ */
+const STATE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a run-now request waits for an instance to pick it up.
+ */
+const REQUEST_TTL_MS = 10 * 60 * 1000;
+
+const runsKey = (name: string) => `${KV.SCHEDULE}runs:${name}`;
+const errorKey = (name: string) => `${KV.SCHEDULE}error:${name}`;
+const requestsKey = (name: string) => `${KV.SCHEDULE}requests:${name}`;
+const CATALOG_KEY = `${KV.SCHEDULE}catalog`;
+
+type Serialized<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+
+function reviveRun(raw: Serialized<ScheduleRun>): ScheduleRun {
+  return {
+    ...raw,
+    scheduledAt: new Date(raw.scheduledAt),
+    startedAt: new Date(raw.startedAt),
+    finishedAt: new Date(raw.finishedAt),
+  };
+}
+
+async function readJson<T>(key: string): Promise<T | null> {
+  const raw = await redis.get(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append a finished run to the schedule's history (newest first). Failed
+ * runs also become the schedule's last error.
+ */
+export async function recordScheduleRun(run: ScheduleRun): Promise<void> {
+  const existing = (await readJson<Serialized<ScheduleRun>[]>(runsKey(run.name))) ?? [];
+  const runs = [run, ...existing].slice(0, MAX_SCHEDULE_RUNS);
+  await redis.set(runsKey(run.name), JSON.stringify(runs), { PX: STATE_TTL_MS });
+
+  if (run.status === 'failed') {
+    const error: ScheduleError = { runId: run.id, message: run.error ?? 'Unknown error', at: run.finishedAt };
+    await redis.set(errorKey(run.name), JSON.stringify(error), { PX: STATE_TTL_MS });
+  }
+}
+
+/**
+ * Recent runs of a schedule, newest first.
+ */
+export async function getScheduleRuns(name: string, limit = 20): Promise<ScheduleRun[]> {
+  const runs = (await readJson<Serialized<ScheduleRun>[]>(runsKey(name))) ?? [];
+  return runs.slice(0, Math.max(0, limit)).map(reviveRun);
+}
+
+/**
+ * Most recent failure of a schedule.
+ */
+export async function getScheduleLastError(name: string): Promise<ScheduleError | null> {
+  const raw = await readJson<Serialized<ScheduleError>>(errorKey(name));
+  return raw ? { ...raw, at: new Date(raw.at) } : null;
+}
+
+/**
+ * Publish the registered schedules.
+ */
+export async function saveScheduleCatalog(entries: ScheduleCatalogEntry[]): Promise<void> {
+  await redis.set(CATALOG_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Schedules published by the running app. Empty until a scheduler has
+ * started.
+ */
+export async function getScheduleCatalog(): Promise<ScheduleCatalogEntry[]> {
+  return (await readJson<ScheduleCatalogEntry[]>(CATALOG_KEY)) ?? [];
+}
+
+type SortedSets = Required<Pick<RedisProvider, 'zadd' | 'zrangebyscore' | 'zremrangebyscore' | 'zrem'>>;
+
+function sortedSets(): SortedSets {
+  if (!redis.zadd || !redis.zrangebyscore || !redis.zremrangebyscore || !redis.zrem) {
+    throw new Error('Schedule run requests need a cache provider with sorted sets');
+  }
+  return redis as SortedSets;
+}
+
+/**
+ * Ask a running scheduler to run a schedule now. Used by processes that do
+ * not register schedules themselves (e.g. the devtools CLI). Requests are
+ * kept per ID, so each one gets its own run; one that no instance could
+ * start within ten minutes is dropped.
+ *
+ * @returns Request ID, recorded on the run that serves it
+ */
+export async function requestScheduleRun(name: string): Promise<string> {
+  const id = randomUUID();
+  await sortedSets().zadd(requestsKey(name), { score: Date.now(), member: id });
+  await redis.expire(requestsKey(name), Math.ceil(REQUEST_TTL_MS / 1000));
+  return id;
+}
+
+/**
+ * Pending run-now requests for a schedule, oldest first. Expired requests
+ * are dropped.
+ */
+export async function listScheduleRunRequests(name: string, now = new Date()): Promise<string[]> {
+  const sets = sortedSets();
+  await sets.zremrangebyscore(requestsKey(name), '-inf', now.getTime() - REQUEST_TTL_MS);
+  return sets.zrangebyscore(requestsKey(name), '-inf', '+inf');
+}
+
+/**
+ * Take a pending run-now request. Only one caller gets `true` for a given
+ * request, so take it once the run can actually start.
+ */
+export async function takeScheduleRunRequest(name: string, id: string): Promise<boolean> {
+  return (await sortedSets().zrem(requestsKey(name), id)) > 0;
+}
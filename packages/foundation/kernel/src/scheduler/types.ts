@@ -0,0 +1,110 @@
+/**
+ * Scheduler Types
+ *
+ * Type definitions for cron-style scheduled tasks.
+ */
+
+/**
+ * What started a run.
+ */
+export type ScheduleTrigger = 'schedule' | 'manual';
+
+/**
+ * Outcome of a run.
+ */
+export type ScheduleRunStatus = 'success' | 'failed';
+
+/**
+ * Context passed to a schedule handler.
+ */
+export interface ScheduleContext {
+  /** Schedule name */
+  name: string;
+  /** Occurrence being run (the time a manual run was requested for manual runs) */
+  scheduledAt: Date;
+  trigger: ScheduleTrigger;
+  /** Epoch milliseconds by which the handler should finish (its timeout) */
+  deadlineMs: number;
+  /** Aborted when the run times out */
+  signal: AbortSignal;
+}
+
+/**
+ * Schedule definition, registered with the scheduler at bootstrap.
+ */
+export interface ScheduleDefinition {
+  /** Unique schedule name (e.g., 'usage.rollupHour') */
+  name: string;
+  /** 5-field cron expression or alias (e.g., '5 * * * *', '@daily') */
+  cron: string;
+  /** IANA timezone the expression is written in (default: 'UTC') */
+  timezone?: string;
+  /** Human-readable description for admin listings */
+  description?: string;
+  /** Task to run */
+  handler: (ctx: ScheduleContext) => Promise<void>;
+  /**
+   * Maximum run time in milliseconds. A run that takes longer is recorded
+   * as failed and its signal aborted; the cluster-wide run lock is kept
+   * until the handler returns, so runs never overlap (default: 300000).
+   */
+  timeoutMs?: number;
+  /** Disabled schedules only run manually (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Record of a finished run.
+ */
+export interface ScheduleRun {
+  /** Run ID */
+  id: string;
+  /** Schedule name */
+  name: string;
+  trigger: ScheduleTrigger;
+  status: ScheduleRunStatus;
+  scheduledAt: Date;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  /** Error message for failed runs */
+  error?: string;
+  /** Run-now request the run served (see `requestScheduleRun`) */
+  requestId?: string;
+  /** Instance that ran it */
+  instanceId: string;
+}
+
+/**
+ * Most recent failure of a schedule. Kept separately from the run history
+ * so it stays visible after later successful runs.
+ */
+export interface ScheduleError {
+  runId: string;
+  message: string;
+  at: Date;
+}
+
+/**
+ * Registered schedule as published to the cache, readable from any
+ * process (e.g. the devtools CLI).
+ */
+export interface ScheduleCatalogEntry {
+  name: string;
+  cron: string;
+  timezone: string;
+  description?: string;
+  enabled: boolean;
+}
+
+/**
+ * Schedule with its current state, for admin listings.
+ */
+export interface ScheduleInfo extends ScheduleCatalogEntry {
+  /** Next scheduled occurrence (null when disabled or never firing) */
+  nextRunAt: Date | null;
+  /** Most recent run, if any */
+  lastRun: ScheduleRun | null;
+  /** Most recent failure, if any */
+  lastError: ScheduleError | null;
+}
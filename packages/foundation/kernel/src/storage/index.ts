@@ -29,6 +29,9 @@ export type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from './types';
 
 // Provider factory
@@ -45,10 +48,18 @@ export {
   putObjectBuffer,
   putJsonObject,
   getObjectBuffer,
+  getObjectRange,
+  getObjectStream,
   getJsonObject,
   deleteObject,
   headObject,
   exportObjectKey,
+  // Multipart uploads
+  supportsMultipartUpload,
+  createMultipartUpload,
+  getSignedPartUploadUrl,
+  completeMultipartUpload,
+  abortMultipartUpload,
   // Backward compatible aliases (deprecated)
   deleteS3Object,
   headS3Object,
@@ -11,7 +11,18 @@ import type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from './types';
+import { createHash, randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+
+interface PendingMultipart {
+  key: string;
+  options: MultipartUploadOptions;
+  parts: Map<number, Buffer>;
+}
 
 interface StoredObject {
   body: Buffer;
@@ -26,6 +37,7 @@ interface StoredObject {
  */
 export class MemoryStorageAdapter implements StorageProvider {
   private readonly storage = new Map<string, StoredObject>();
+  private readonly multipart = new Map<string, PendingMultipart>();
   private readonly baseUrl: string;
 
   constructor(baseUrl = 'http://localhost:3000/storage') {
@@ -86,6 +98,14 @@ export class MemoryStorageAdapter implements StorageProvider {
     return obj.body;
   }
 
+  async getRange(key: string, start: number, end: number): Promise<Buffer> {
+    return (await this.getBuffer(key)).subarray(start, end + 1);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    return Readable.from([await this.getBuffer(key)]);
+  }
+
   async getJson<T = unknown>(key: string): Promise<T> {
     const buf = await this.getBuffer(key);
     return JSON.parse(buf.toString('utf8')) as T;
@@ -144,11 +164,70 @@ export class MemoryStorageAdapter implements StorageProvider {
     };
   }
 
+  async createMultipartUpload(
+    key: string,
+    options: MultipartUploadOptions = {}
+  ): Promise<MultipartUpload> {
+    const uploadId = randomUUID();
+    this.multipart.set(uploadId, { key, options, parts: new Map() });
+    return { key, uploadId };
+  }
+
+  async getSignedPartUploadUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: Omit<SignedUrlOptions, 'contentType'> = {}
+  ): Promise<SignedUrl> {
+    const expiresInSec = options.expiresInSec ?? 600;
+    const expiresAt = Date.now() + expiresInSec * 1000;
+    const url = `${this.baseUrl}/upload/${encodeURIComponent(key)}?uploadId=${encodeURIComponent(uploadId)}&partNumber=${partNumber}&expires=${expiresAt}`;
+    return { url, key, expiresAt };
+  }
+
+  /**
+   * Store a part of a multipart upload, standing in for a PUT to the signed
+   * part URL. Returns the part's ETag. Useful for testing.
+   */
+  putPart(key: string, uploadId: string, partNumber: number, body: Buffer): string {
+    const upload = this.multipart.get(uploadId);
+    if (!upload || upload.key !== key) {
+      throw new Error(`Multipart upload not found: ${uploadId}`);
+    }
+    upload.parts.set(partNumber, body);
+    return createHash('md5').update(body).digest('hex');
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const upload = this.multipart.get(uploadId);
+    if (!upload || upload.key !== key) {
+      throw new Error(`Multipart upload not found: ${uploadId}`);
+    }
+    const bodies = [...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map((p) => {
+        const body = upload.parts.get(p.partNumber);
+        if (!body) throw new Error(`Part ${p.partNumber} was not uploaded`);
+        return body;
+      });
+    await this.putBuffer(key, Buffer.concat(bodies), upload.options);
+    this.multipart.delete(uploadId);
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    this.multipart.delete(uploadId);
+  }
+
   /**
    * Clear all stored objects. Useful for testing.
    */
   clear(): void {
     this.storage.clear();
+    this.multipart.clear();
   }
 
   /**
@@ -14,8 +14,16 @@
  * Durable Objects), consider using AsyncLocalStorage-based provider injection.
  */
 
+import { Readable } from 'node:stream';
 import { getEnv } from '../env';
-import type { StorageProvider, StorageProviderType, StorageProviderConfig } from './types';
+import type {
+  StorageProvider,
+  StorageProviderType,
+  StorageProviderConfig,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
+} from './types';
 import { S3StorageAdapter } from './s3-adapter';
 import { MemoryStorageAdapter } from './memory-adapter';
 import { logger } from '../observability';
@@ -220,6 +228,26 @@ export async function getObjectBuffer(key: string): Promise<Buffer> {
   return provider.getBuffer(key);
 }
 
+/**
+ * Download a byte range of an object (`end` inclusive), e.g. to inspect
+ * its header without fetching the whole object.
+ */
+export async function getObjectRange(key: string, start: number, end: number): Promise<Buffer> {
+  const provider = getStorageProvider();
+  if (provider.getRange) return provider.getRange(key, start, end);
+  return (await provider.getBuffer(key)).subarray(start, end + 1);
+}
+
+/**
+ * Open a read stream over an object, so large objects never have to be
+ * held in memory.
+ */
+export async function getObjectStream(key: string): Promise<Readable> {
+  const provider = getStorageProvider();
+  if (provider.getStream) return provider.getStream(key);
+  return Readable.from([await provider.getBuffer(key)]);
+}
+
 /**
  * Download and parse a JSON object.
  */
@@ -256,6 +284,81 @@ export async function headObject(
  */
 export const headS3Object = headObject;
 
+type MultipartStorageProvider = StorageProvider &
+  Required<
+    Pick<
+      StorageProvider,
+      | 'createMultipartUpload'
+      | 'getSignedPartUploadUrl'
+      | 'completeMultipartUpload'
+      | 'abortMultipartUpload'
+    >
+  >;
+
+function isMultipartProvider(provider: StorageProvider): provider is MultipartStorageProvider {
+  return (
+    typeof provider.createMultipartUpload === 'function' &&
+    typeof provider.getSignedPartUploadUrl === 'function' &&
+    typeof provider.completeMultipartUpload === 'function' &&
+    typeof provider.abortMultipartUpload === 'function'
+  );
+}
+
+function getMultipartProvider(): MultipartStorageProvider {
+  const provider = getStorageProvider();
+  if (!isMultipartProvider(provider)) {
+    throw new Error(`Storage provider '${providerType}' does not support multipart uploads`);
+  }
+  return provider;
+}
+
+/**
+ * Whether the current storage provider implements multipart uploads.
+ */
+export function supportsMultipartUpload(): boolean {
+  return isMultipartProvider(getStorageProvider());
+}
+
+/**
+ * Start a multipart upload.
+ */
+export async function createMultipartUpload(
+  key: string,
+  opts?: MultipartUploadOptions
+): Promise<MultipartUpload> {
+  return getMultipartProvider().createMultipartUpload(key, opts);
+}
+
+/**
+ * Get a signed URL for uploading one part of a multipart upload.
+ */
+export async function getSignedPartUploadUrl(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  expiresInSec = 600
+): Promise<{ url: string; key: string; expiresAt: number }> {
+  return getMultipartProvider().getSignedPartUploadUrl(key, uploadId, partNumber, { expiresInSec });
+}
+
+/**
+ * Assemble the uploaded parts into the final object.
+ */
+export async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: UploadedPart[]
+): Promise<void> {
+  return getMultipartProvider().completeMultipartUpload(key, uploadId, parts);
+}
+
+/**
+ * Discard an incomplete multipart upload and its parts.
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  return getMultipartProvider().abortMultipartUpload(key, uploadId);
+}
+
 /**
  * Generate a storage key for export files.
  */
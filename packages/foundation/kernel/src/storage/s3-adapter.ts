@@ -12,6 +12,10 @@ import {
   PutObjectCommand,
   CopyObjectCommand,
   ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
@@ -22,6 +26,9 @@ import type {
   SignedUrlOptions,
   ObjectMetadata,
   UploadOptions,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadedPart,
 } from './types';
 
 const MAX_RETRIES = 3;
@@ -76,6 +83,15 @@ async function streamToBuffer(body: unknown): Promise<Buffer> {
   throw new Error('Unsupported S3 body type');
 }
 
+async function toReadable(body: unknown): Promise<Readable> {
+  if (body instanceof Readable) return body;
+  const maybeStream = body as { getReader?: () => unknown };
+  if (typeof maybeStream?.getReader === 'function') {
+    return Readable.fromWeb(body as Parameters<typeof Readable.fromWeb>[0]);
+  }
+  return Readable.from([await streamToBuffer(body)]);
+}
+
 export interface S3AdapterConfig {
   bucket: string;
   region: string;
@@ -174,6 +190,18 @@ export class S3StorageAdapter implements StorageProvider {
     return streamToBuffer(res.Body);
   }
 
+  async getRange(key: string, start: number, end: number): Promise<Buffer> {
+    const command = new GetObjectCommand({ Bucket: this.bucket, Key: key, Range: `bytes=${start}-${end}` });
+    const res = await withRetry(() => this.client.send(command));
+    return streamToBuffer(res.Body);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const command = new GetObjectCommand({ Bucket: this.bucket, Key: key });
+    const res = await withRetry(() => this.client.send(command));
+    return toReadable(res.Body);
+  }
+
   async getJson<T = unknown>(key: string): Promise<T> {
     const buf = await this.getBuffer(key);
     const text = buf.toString('utf8');
@@ -245,4 +273,78 @@ export class S3StorageAdapter implements StorageProvider {
       isTruncated: result.IsTruncated ?? false,
     };
   }
+
+  async createMultipartUpload(
+    key: string,
+    options: MultipartUploadOptions = {}
+  ): Promise<MultipartUpload> {
+    const result = await withRetry(() =>
+      this.client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ...(options.contentType ? { ContentType: options.contentType } : {}),
+          ...(options.metadata ? { Metadata: options.metadata } : {}),
+        })
+      )
+    );
+    if (!result.UploadId) {
+      throw new Error(`S3 did not return an upload id for ${key}`);
+    }
+    return { key, uploadId: result.UploadId };
+  }
+
+  async getSignedPartUploadUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: Omit<SignedUrlOptions, 'contentType'> = {}
+  ): Promise<SignedUrl> {
+    const expiresInSec = options.expiresInSec ?? 600;
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: expiresInSec,
+    });
+    const expiresAt = Date.now() + expiresInSec * 1000;
+    return { url, key, expiresAt };
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    await withRetry(() =>
+      this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: sorted.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+          },
+        })
+      )
+    );
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await withRetry(() =>
+        this.client.send(
+          new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId })
+        )
+      );
+    } catch (err: unknown) {
+      const e = err as { name?: string };
+      if (e.name === 'NoSuchUpload') return;
+      throw err;
+    }
+  }
 }
@@ -5,6 +5,8 @@
  * This enables swapping storage backends via configuration.
  */
 
+import type { Readable } from 'node:stream';
+
 /**
  * Supported storage provider types.
  */
@@ -60,6 +62,34 @@ export interface UploadOptions {
   cacheControl?: string;
 }
 
+/**
+ * Options for starting a multipart upload.
+ */
+export interface MultipartUploadOptions {
+  /** MIME type of the assembled object */
+  contentType?: string;
+  /** Custom metadata */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * A started multipart upload. `uploadId` identifies it in later calls.
+ */
+export interface MultipartUpload {
+  key: string;
+  uploadId: string;
+}
+
+/**
+ * A part the client has uploaded, as reported back for completion.
+ */
+export interface UploadedPart {
+  /** 1-based part number */
+  partNumber: number;
+  /** ETag returned by the part upload response */
+  etag: string;
+}
+
 /**
  * Port interface for storage providers.
  * All storage adapters must implement this interface.
@@ -90,6 +120,19 @@ export interface StorageProvider {
    */
   getBuffer(key: string): Promise<Buffer>;
 
+  /**
+   * Download a byte range of an object; `end` is inclusive and may be past
+   * the end of the object. `getObjectRange` falls back to `getBuffer` for
+   * providers without it.
+   */
+  getRange?(key: string, start: number, end: number): Promise<Buffer>;
+
+  /**
+   * Open a read stream over an object. `getObjectStream` falls back to
+   * `getBuffer` for providers without it.
+   */
+  getStream?(key: string): Promise<Readable>;
+
   /**
    * Download and parse a JSON object.
    */
@@ -124,6 +167,32 @@ export interface StorageProvider {
     continuationToken?: string;
     isTruncated: boolean;
   }>;
+
+  /**
+   * Start a multipart upload for an object uploaded in parts by the client.
+   */
+  createMultipartUpload?(key: string, options?: MultipartUploadOptions): Promise<MultipartUpload>;
+
+  /**
+   * Get a signed URL for uploading one part (PUT the part bytes to it).
+   */
+  getSignedPartUploadUrl?(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options?: Omit<SignedUrlOptions, 'contentType'>
+  ): Promise<SignedUrl>;
+
+  /**
+   * Assemble the uploaded parts, in part number order, into the object.
+   */
+  completeMultipartUpload?(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+
+  /**
+   * Discard an incomplete multipart upload and any parts already uploaded.
+   * Succeeds when the upload no longer exists.
+   */
+  abortMultipartUpload?(key: string, uploadId: string): Promise<void>;
 }
 
 /**
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    getScopeId: vi.fn(() => "tenant_1"),
+    getScopePlan: vi.fn(async () => "pro"),
+    isEnabledForScope: vi.fn(async () => true),
+    connectDb: vi.fn(async () => undefined),
+    assertActiveSubscriptionForCreditsViaPort: vi.fn(async () => undefined),
+    enforceTokensAndQuota: vi.fn(async () => ({ ok: true })),
+  };
+});
+
+import {
+  createMockAiProvider,
+  enforceTokensAndQuota,
+  isEnabledForScope,
+  setAiProvider,
+  type AiProviderPort,
+} from "@unisane/kernel";
+import { generate, generateStream } from "../service/generate";
+
+async function readSse(res: Response): Promise<Array<{ event: string; data: unknown }>> {
+  const text = await res.text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.startsWith("event:"))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine!.slice("event: ".length),
+        data: JSON.parse(dataLine!.slice("data: ".length)),
+      };
+    });
+}
+
+describe("generate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setAiProvider(createMockAiProvider({ reply: () => "four words of text" }));
+  });
+
+  it("should meter prompt and completion tokens after the call", async () => {
+    const res = await generate({ prompt: "Say something" });
+
+    expect(res.output.text).toBe("four words of text");
+    expect(res.output.usage).toEqual({ promptTokens: 4, completionTokens: 5 });
+    expect(enforceTokensAndQuota).toHaveBeenCalledWith({
+      tenantId: "tenant_1",
+      featureKey: kernel.FEATURE.AI_GENERATE,
+      tokens: 9,
+    });
+  });
+
+  it("should pass system prompt and options to the provider", async () => {
+    const provider: AiProviderPort = {
+      name: "spy",
+      generate: vi.fn(async () => ({ text: "ok", model: "m", usage: { promptTokens: 1, completionTokens: 1 } })),
+      stream: vi.fn(),
+    };
+    setAiProvider(provider);
+
+    await generate({ prompt: "Hi", options: { system: "Be brief", model: "m", temperature: 0 } });
+
+    expect(provider.generate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "m",
+        temperature: 0,
+        messages: [
+          { role: "system", content: "Be brief" },
+          { role: "user", content: "Hi" },
+        ],
+      })
+    );
+  });
+
+  it("should not call the provider when the feature is disabled", async () => {
+    vi.mocked(isEnabledForScope).mockResolvedValueOnce(false);
+
+    await expect(generate({ prompt: "Hi" })).rejects.toThrow();
+    expect(enforceTokensAndQuota).not.toHaveBeenCalled();
+  });
+
+  it("should reject a missing prompt", async () => {
+    await expect(generate({})).rejects.toMatchObject({ details: { fields: [{ field: "prompt" }] } });
+  });
+});
+
+describe("generateStream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setAiProvider(createMockAiProvider({ reply: () => "four words of text" }));
+  });
+
+  it("should stream deltas and meter on completion", async () => {
+    const res = await generateStream({ prompt: "Say something" });
+
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const events = await readSse(res);
+    expect(events.filter((e) => e.event === "delta").map((e) => (e.data as { text: string }).text).join("")).toBe(
+      "four words of text"
+    );
+    expect(events.at(-1)).toEqual({
+      event: "done",
+      data: { model: "mock", usage: { promptTokens: 4, completionTokens: 5 } },
+    });
+    expect(enforceTokensAndQuota).toHaveBeenCalledWith(expect.objectContaining({ tokens: 9 }));
+  });
+
+  it("should send provider failures as an error event and meter an estimate", async () => {
+    setAiProvider({
+      name: "failing",
+      generate: vi.fn(),
+      async *stream() {
+        yield { type: "delta" as const, text: "partial" };
+        throw new Error("upstream reset");
+      },
+    });
+
+    const events = await readSse(await generateStream({ prompt: "Say something" }));
+
+    expect(events.map((e) => e.event)).toEqual(["delta", "error"]);
+    expect(enforceTokensAndQuota).toHaveBeenCalledWith(expect.objectContaining({ tokens: 6 }));
+  });
+});
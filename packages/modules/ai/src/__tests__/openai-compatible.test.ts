@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createOpenAiCompatibleProvider } from "../providers/openai-compatible";
+
+const request = { messages: [{ role: "user" as const, content: "Hello" }] };
+
+function sseBody(lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      // Split mid-line to exercise buffering
+      const raw = lines.map((l) => `data: ${l}\n\n`).join("");
+      const mid = Math.floor(raw.length / 2);
+      controller.enqueue(encoder.encode(raw.slice(0, mid)));
+      controller.enqueue(encoder.encode(raw.slice(mid)));
+      controller.close();
+    },
+  });
+}
+
+describe("OpenAiCompatibleAdapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post chat completions and map usage", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        model: "gpt-test",
+        choices: [{ message: { content: "Hi there" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 7, completion_tokens: 3 },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createOpenAiCompatibleProvider({
+      apiKey: "sk-test",
+      baseUrl: "http://localhost:11434/v1/",
+      defaultModel: "llama",
+    });
+
+    const res = await provider.generate({ ...request, maxTokens: 50 });
+
+    expect(res).toEqual({
+      text: "Hi there",
+      model: "gpt-test",
+      usage: { promptTokens: 7, completionTokens: 3 },
+      finishReason: "stop",
+    });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer sk-test");
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: "llama", max_tokens: 50 });
+  });
+
+  it("should stream deltas and finish with reported usage", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(
+          sseBody([
+            JSON.stringify({ model: "gpt-test", choices: [{ delta: { content: "Hel" } }] }),
+            JSON.stringify({ choices: [{ delta: { content: "lo" }, finish_reason: "stop" }] }),
+            JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }),
+            "[DONE]",
+          ]),
+          { headers: { "content-type": "text/event-stream" } }
+        )
+      )
+    );
+    const provider = createOpenAiCompatibleProvider();
+
+    const chunks = [];
+    for await (const chunk of provider.stream(request)) chunks.push(chunk);
+
+    expect(chunks).toEqual([
+      { type: "delta", text: "Hel" },
+      { type: "delta", text: "lo" },
+      { type: "done", model: "gpt-test", usage: { promptTokens: 5, completionTokens: 2 }, finishReason: "stop" },
+    ]);
+  });
+
+  it("should surface client errors as non-retryable provider errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ error: { message: "Invalid model" } }, { status: 400 }))
+    );
+    const provider = createOpenAiCompatibleProvider();
+
+    await expect(provider.generate(request)).rejects.toMatchObject({
+      message: "openai error: HTTP 400 Invalid model",
+      retryable: false,
+    });
+  });
+
+  it("should reject invalid configuration", () => {
+    expect(() => createOpenAiCompatibleProvider({ baseUrl: "not a url" })).toThrow();
+  });
+});
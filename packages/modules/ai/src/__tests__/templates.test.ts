@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    getScopeId: vi.fn(() => "tenant_1"),
+    getScopePlan: vi.fn(async () => "pro"),
+    isEnabledForScope: vi.fn(async () => true),
+    connectDb: vi.fn(async () => undefined),
+    assertActiveSubscriptionForCreditsViaPort: vi.fn(async () => undefined),
+    enforceTokensAndQuota: vi.fn(async () => ({ ok: true })),
+  };
+});
+
+vi.mock("../data/templates.repository", () => ({
+  PromptTemplatesRepo: {
+    findLatest: vi.fn(),
+    findVersion: vi.fn(),
+    listLatest: vi.fn(),
+    listVersions: vi.fn(),
+    maxVersion: vi.fn(),
+    insertVersion: vi.fn(),
+    softDeleteAll: vi.fn(),
+  },
+}));
+
+import { setAiProvider, type AiProviderPort } from "@unisane/kernel";
+import { PromptTemplatesRepo } from "../data/templates.repository";
+import {
+  interpolateTemplate,
+  resolveTemplateVariables,
+  templatePlaceholders,
+  validateTemplateDefinition,
+} from "../domain/templates";
+import { ZPromptTemplateCreate, type PromptVariable } from "../domain/schemas";
+import type { PromptTemplate } from "../domain/types";
+import { createPromptTemplate, generateFromTemplate, updatePromptTemplate } from "../service/templates";
+
+const repo = vi.mocked(PromptTemplatesRepo);
+
+const variables: PromptVariable[] = [
+  { name: "product", type: "string", required: true },
+  { name: "words", type: "number", required: false, default: 50 },
+];
+
+function template(overrides: Partial<PromptTemplate> = {}): PromptTemplate {
+  return {
+    id: "t1",
+    scopeType: "tenant",
+    scopeId: "tenant_1",
+    key: "blurb",
+    version: 2,
+    name: "Blurb",
+    system: "You write copy for {{product}}.",
+    template: "Describe {{product}} in {{ words }} words.",
+    variables,
+    model: "tpl-model",
+    createdAt: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+describe("template rendering", () => {
+  it("should list placeholders once in order of use", () => {
+    expect(templatePlaceholders("{{a}} {{ b }} {{a}}")).toEqual(["a", "b"]);
+  });
+
+  it("should report undeclared placeholders and duplicate variables", () => {
+    const issues = validateTemplateDefinition({
+      template: "Hi {{name}} from {{city}}",
+      variables: [
+        { name: "name", type: "string", required: true },
+        { name: "name", type: "string", required: true },
+      ],
+    });
+    expect(issues).toEqual([
+      { field: "variables.1.name", message: 'Duplicate variable "name"' },
+      { field: "template", message: 'Undeclared variable "city"' },
+    ]);
+  });
+
+  it("should reject a default that does not match the variable type", () => {
+    const issues = validateTemplateDefinition({
+      template: "{{n}}",
+      variables: [{ name: "n", type: "number", required: true, default: "ten" }],
+    });
+    expect(issues).toEqual([{ field: "variables.0.default", message: "Default must be a number" }]);
+  });
+
+  it("should apply defaults and flag missing, unknown and mistyped values", () => {
+    expect(resolveTemplateVariables(variables, { product: "Acme" })).toEqual({
+      values: { product: "Acme", words: "50" },
+      issues: [],
+    });
+    expect(resolveTemplateVariables(variables, { words: "many", extra: true }).issues).toEqual([
+      { field: "variables.extra", message: "Unknown variable" },
+      { field: "variables.product", message: "Required" },
+      { field: "variables.words", message: "Expected number" },
+    ]);
+  });
+
+  it("should interpolate values and keep unknown placeholders", () => {
+    expect(interpolateTemplate("{{ a }}-{{b}}", { a: "x" })).toBe("x-{{b}}");
+  });
+
+  it("should default variables to required strings", () => {
+    const parsed = ZPromptTemplateCreate.parse({ key: "k", name: "K", template: "{{v}}", variables: [{ name: "v" }] });
+    expect(parsed.variables[0]).toEqual({ name: "v", type: "string", required: true });
+  });
+});
+
+describe("prompt template service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should create the next free version of a previously deleted key", async () => {
+    repo.findLatest.mockResolvedValue(null);
+    repo.maxVersion.mockResolvedValue(3);
+    repo.insertVersion.mockImplementation(async (input) => ({ ok: true, template: template(input) }));
+
+    const created = await createPromptTemplate({
+      input: ZPromptTemplateCreate.parse({ key: "blurb", name: "Blurb", template: "Hello" }),
+      actorId: "u1",
+    });
+
+    expect(created.version).toBe(4);
+    expect(repo.insertVersion).toHaveBeenCalledWith(expect.objectContaining({ key: "blurb", version: 4, createdBy: "u1" }));
+  });
+
+  it("should reject creating an existing key", async () => {
+    repo.findLatest.mockResolvedValue(template());
+
+    await expect(
+      createPromptTemplate({ input: ZPromptTemplateCreate.parse({ key: "blurb", name: "B", template: "Hi" }) })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("should publish a new version and enforce expectedVersion", async () => {
+    repo.findLatest.mockResolvedValue(template());
+    repo.insertVersion.mockImplementation(async (input) => ({ ok: true, template: template(input) }));
+    const input = { name: "Blurb", template: "Hi", variables: [] };
+
+    await expect(updatePromptTemplate({ key: "blurb", input: { ...input, expectedVersion: 1 } })).rejects.toMatchObject({
+      status: 409,
+    });
+    const updated = await updatePromptTemplate({ key: "blurb", input: { ...input, expectedVersion: 2 } });
+    expect(updated.version).toBe(3);
+  });
+
+  it("should render the template and let options override template defaults", async () => {
+    repo.findLatest.mockResolvedValue(template());
+    const provider: AiProviderPort = {
+      name: "spy",
+      generate: vi.fn(async () => ({ text: "ok", model: "m", usage: { promptTokens: 3, completionTokens: 1 } })),
+      stream: vi.fn(),
+    };
+    setAiProvider(provider);
+
+    const res = await generateFromTemplate({ key: "blurb", variables: { product: "Acme" }, options: { temperature: 0 } });
+
+    expect(res.output.template).toEqual({ key: "blurb", version: 2 });
+    expect(provider.generate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "tpl-model",
+        temperature: 0,
+        messages: [
+          { role: "system", content: "You write copy for Acme." },
+          { role: "user", content: "Describe Acme in 50 words." },
+        ],
+      })
+    );
+  });
+
+  it("should reject invalid variables before calling the provider", async () => {
+    repo.findLatest.mockResolvedValue(template());
+    const provider: AiProviderPort = { name: "spy", generate: vi.fn(), stream: vi.fn() };
+    setAiProvider(provider);
+
+    await expect(generateFromTemplate({ key: "blurb", variables: {} })).rejects.toMatchObject({
+      details: { fields: [{ field: "variables.product" }] },
+    });
+    expect(provider.generate).not.toHaveBeenCalled();
+  });
+});
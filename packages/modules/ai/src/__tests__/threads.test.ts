@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    getScopeId: vi.fn(() => "tenant_1"),
+    getScopePlan: vi.fn(async () => "pro"),
+    isEnabledForScope: vi.fn(async () => true),
+    connectDb: vi.fn(async () => undefined),
+    assertActiveSubscriptionForCreditsViaPort: vi.fn(async () => undefined),
+    enforceTokensAndQuota: vi.fn(async () => ({ ok: true })),
+    getTypedSetting: vi.fn(async () => ({ value: {}, version: 0 })),
+  };
+});
+
+vi.mock("../data/threads.repository", () => ({
+  ThreadsRepo: {
+    create: vi.fn(),
+    findById: vi.fn(),
+    listForUser: vi.fn(),
+    rename: vi.fn(),
+    softDelete: vi.fn(),
+    appendMessages: vi.fn(),
+    listRecentMessages: vi.fn(),
+    recordExchange: vi.fn(),
+  },
+}));
+
+import { enforceTokensAndQuota, getTypedSetting, setAiProvider, type AiProviderPort } from "@unisane/kernel";
+import { ThreadsRepo } from "../data/threads.repository";
+import type { AiThread } from "../domain/types";
+import { deleteThread, sendThreadMessage } from "../service/threads";
+
+const repo = vi.mocked(ThreadsRepo);
+
+const thread: AiThread = {
+  id: "th1",
+  scopeType: "tenant",
+  scopeId: "tenant_1",
+  userId: "u1",
+  title: "Chat",
+  system: "Be helpful",
+  messageCount: 2,
+  usage: { promptTokens: 0, completionTokens: 0 },
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+};
+
+function spyProvider(): AiProviderPort {
+  const provider: AiProviderPort = {
+    name: "spy",
+    generate: vi.fn(async (req) => ({
+      text: "Paris",
+      model: req.model ?? "default",
+      usage: { promptTokens: 20, completionTokens: 2 },
+    })),
+    stream: vi.fn(),
+  };
+  setAiProvider(provider);
+  return provider;
+}
+
+describe("threads", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repo.findById.mockResolvedValue(thread);
+    repo.listRecentMessages.mockResolvedValue([
+      { id: "m1", threadId: "th1", role: "user", content: "Hi", createdAt: "" },
+      { id: "m2", threadId: "th1", role: "assistant", content: "Hello!", createdAt: "" },
+    ]);
+    repo.appendMessages.mockImplementation(async (threadId, messages) =>
+      messages.map((m, i) => ({ ...m, id: `new${i}`, threadId, createdAt: "" }))
+    );
+  });
+
+  it("should send history as context, persist the exchange and meter usage", async () => {
+    const provider = spyProvider();
+
+    const res = await sendThreadMessage({ userId: "u1", threadId: "th1", content: "Capital of France?" });
+
+    expect(provider.generate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [
+          { role: "system", content: "Be helpful" },
+          { role: "user", content: "Hi" },
+          { role: "assistant", content: "Hello!" },
+          { role: "user", content: "Capital of France?" },
+        ],
+      })
+    );
+    expect(res.message).toMatchObject({ role: "assistant", content: "Paris" });
+    expect(repo.recordExchange).toHaveBeenCalledWith("th1", {
+      messages: 2,
+      usage: { promptTokens: 20, completionTokens: 2 },
+    });
+    expect(enforceTokensAndQuota).toHaveBeenCalledWith(expect.objectContaining({ tokens: 22 }));
+  });
+
+  it("should hide other users' threads", async () => {
+    await expect(sendThreadMessage({ userId: "u2", threadId: "th1", content: "Hi" })).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(deleteThread({ userId: "u2", threadId: "th1" })).rejects.toMatchObject({ status: 404 });
+    expect(repo.softDelete).not.toHaveBeenCalled();
+  });
+
+  it("should apply the tenant policy to thread generation", async () => {
+    vi.mocked(getTypedSetting).mockResolvedValue({
+      value: { allowedModels: ["small", "large"], maxTokens: 256, systemPrompt: "Tenant rules" },
+      version: 1,
+    });
+    const provider = spyProvider();
+
+    await sendThreadMessage({ userId: "u1", threadId: "th1", content: "Q", options: { maxTokens: 1000 } });
+
+    const request = vi.mocked(provider.generate).mock.calls[0]![0];
+    expect(request.model).toBe("small");
+    expect(request.maxTokens).toBe(256);
+    expect(request.messages[0]).toEqual({ role: "system", content: "Tenant rules" });
+
+    await expect(
+      sendThreadMessage({ userId: "u1", threadId: "th1", content: "Q", options: { model: "huge" } })
+    ).rejects.toMatchObject({ status: 403 });
+    expect(repo.appendMessages).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * @unisane/ai/client
+ *
+ * Client-safe exports for browser environments.
+ */
+
+export * from './domain/schemas';
+export type * from './domain/types';
+export { AI_EVENTS, AI_LIMITS } from './domain/constants';
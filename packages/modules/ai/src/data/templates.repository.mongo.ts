@@ -0,0 +1,161 @@
+import {
+  col,
+  COLLECTIONS,
+  getScope,
+  scopedFilter,
+  scopedFilterActive,
+  isDuplicateKeyError,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+  type ScopeType,
+} from "@unisane/kernel";
+import type { ObjectId } from "mongodb";
+import type { PromptTemplatesRepoPort } from "../domain/ports";
+import type { PromptVariable } from "../domain/schemas";
+import type { PromptTemplate, PromptTemplateVersionInput } from "../domain/types";
+
+/**
+ * MongoDB document type - one immutable version per document.
+ */
+interface PromptTemplateDoc {
+  _id: ObjectId;
+  scopeType: ScopeType;
+  scopeId: string;
+  key: string;
+  version: number;
+  name: string;
+  description?: string;
+  system?: string;
+  template: string;
+  variables: PromptVariable[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  createdBy?: string;
+  createdAt: Date;
+  deletedAt?: Date | null;
+}
+
+const templatesCol = () => col<PromptTemplateDoc>(COLLECTIONS.AI_PROMPT_TEMPLATES);
+
+function toDto(doc: PromptTemplateDoc): PromptTemplate {
+  return {
+    id: doc._id.toHexString(),
+    scopeType: doc.scopeType,
+    scopeId: doc.scopeId,
+    key: doc.key,
+    version: doc.version,
+    name: doc.name,
+    ...(doc.description ? { description: doc.description } : {}),
+    ...(doc.system ? { system: doc.system } : {}),
+    template: doc.template,
+    variables: doc.variables ?? [],
+    ...(doc.model ? { model: doc.model } : {}),
+    ...(doc.maxTokens !== undefined ? { maxTokens: doc.maxTokens } : {}),
+    ...(doc.temperature !== undefined ? { temperature: doc.temperature } : {}),
+    ...(doc.createdBy ? { createdBy: doc.createdBy } : {}),
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+async function findLatest(key: string): Promise<PromptTemplate | null> {
+  const doc = await templatesCol().findOne(scopedFilterActive<PromptTemplateDoc>({ key }), {
+    sort: { version: -1 },
+  });
+  return doc ? toDto(doc) : null;
+}
+
+async function findVersion(key: string, version: number): Promise<PromptTemplate | null> {
+  const doc = await templatesCol().findOne(scopedFilterActive<PromptTemplateDoc>({ key, version }));
+  return doc ? toDto(doc) : null;
+}
+
+async function listLatest(opts: {
+  limit: number;
+  cursor?: string;
+}): Promise<{ items: PromptTemplate[]; nextCursor: string | null }> {
+  const docs = (await templatesCol()
+    .aggregate([
+      { $match: scopedFilterActive<PromptTemplateDoc>(opts.cursor ? { key: { $gt: opts.cursor } } : {}) },
+      { $sort: { key: 1, version: -1 } },
+      { $group: { _id: "$key", doc: { $first: "$$ROOT" } } },
+      { $replaceRoot: { newRoot: "$doc" } },
+      { $sort: { key: 1 } },
+      { $limit: opts.limit + 1 },
+    ])
+    .toArray()) as PromptTemplateDoc[];
+  const hasMore = docs.length > opts.limit;
+  const items = hasMore ? docs.slice(0, opts.limit) : docs;
+  return {
+    items: items.map(toDto),
+    nextCursor: hasMore ? items[items.length - 1]!.key : null,
+  };
+}
+
+async function listVersions(key: string): Promise<PromptTemplate[]> {
+  const docs = await templatesCol()
+    .find(scopedFilterActive<PromptTemplateDoc>({ key }))
+    .sort({ version: -1 })
+    .toArray();
+  return docs.map(toDto);
+}
+
+async function maxVersion(key: string): Promise<number> {
+  const doc = await templatesCol().findOne(scopedFilter<PromptTemplateDoc>({ key }), {
+    sort: { version: -1 },
+    projection: { version: 1 },
+  });
+  return doc?.version ?? 0;
+}
+
+async function insertVersion(input: PromptTemplateVersionInput) {
+  const scope = getScope();
+  const doc: Omit<PromptTemplateDoc, "_id"> = {
+    scopeType: scope.type,
+    scopeId: scope.id,
+    key: input.key,
+    version: input.version,
+    name: input.name,
+    ...(input.description ? { description: input.description } : {}),
+    ...(input.system ? { system: input.system } : {}),
+    template: input.template,
+    variables: input.variables,
+    ...(input.model ? { model: input.model } : {}),
+    ...(input.maxTokens !== undefined ? { maxTokens: input.maxTokens } : {}),
+    ...(input.temperature !== undefined ? { temperature: input.temperature } : {}),
+    ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+    createdAt: new Date(),
+    deletedAt: null,
+  };
+  try {
+    // Unique (scopeId, key, version) index serializes concurrent publishes
+    const result = await templatesCol().insertOne(doc as PromptTemplateDoc);
+    return { ok: true as const, template: toDto({ ...doc, _id: result.insertedId } as PromptTemplateDoc) };
+  } catch (e) {
+    if (isDuplicateKeyError(e)) return { conflict: true as const };
+    throw e;
+  }
+}
+
+async function softDeleteAll(key: string): Promise<number> {
+  const builder = new UpdateBuilder<PromptTemplateDoc>().set("deletedAt", new Date());
+  const result = await templatesCol().updateMany(
+    scopedFilterActive<PromptTemplateDoc>({ key }),
+    toMongoUpdate(builder.build()) as Document
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * MongoDB implementation of PromptTemplatesRepoPort.
+ */
+export const PromptTemplatesRepoMongo: PromptTemplatesRepoPort = {
+  findLatest,
+  findVersion,
+  listLatest,
+  listVersions,
+  maxVersion,
+  insertVersion,
+  softDeleteAll,
+};
@@ -0,0 +1,7 @@
+import { selectRepo } from "@unisane/kernel";
+import type { PromptTemplatesRepoPort } from "../domain/ports";
+import { PromptTemplatesRepoMongo } from "./templates.repository.mongo";
+
+export const PromptTemplatesRepo = selectRepo<PromptTemplatesRepoPort>({
+  mongo: PromptTemplatesRepoMongo,
+});
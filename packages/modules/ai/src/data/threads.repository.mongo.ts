@@ -0,0 +1,201 @@
+import {
+  col,
+  COLLECTIONS,
+  getScope,
+  scopedFilterActive,
+  toNativeId,
+  isValidId,
+  UpdateBuilder,
+  toMongoUpdate,
+  type AiMessageRole,
+  type AiUsage,
+  type Document,
+  type ScopeType,
+} from "@unisane/kernel";
+import type { ObjectId } from "mongodb";
+import type { ThreadsRepoPort } from "../domain/ports";
+import type { AiThread, AiThreadMessage, AiThreadMessageInput } from "../domain/types";
+
+/**
+ * MongoDB document types - internal to this adapter.
+ */
+interface AiThreadDoc {
+  _id: ObjectId;
+  scopeType: ScopeType;
+  scopeId: string;
+  userId: string;
+  title: string;
+  system?: string;
+  model?: string;
+  messageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date | null;
+}
+
+// Messages are only reached through a thread that passed the scope check
+interface AiThreadMessageDoc {
+  _id: ObjectId;
+  threadId: string;
+  role: AiMessageRole;
+  content: string;
+  model?: string;
+  usage?: AiUsage;
+  createdAt: Date;
+}
+
+const threadsCol = () => col<AiThreadDoc>(COLLECTIONS.AI_THREADS);
+const messagesCol = () => col<AiThreadMessageDoc>(COLLECTIONS.AI_THREAD_MESSAGES);
+
+function toThread(doc: AiThreadDoc): AiThread {
+  return {
+    id: doc._id.toHexString(),
+    scopeType: doc.scopeType,
+    scopeId: doc.scopeId,
+    userId: doc.userId,
+    title: doc.title,
+    ...(doc.system ? { system: doc.system } : {}),
+    ...(doc.model ? { model: doc.model } : {}),
+    messageCount: doc.messageCount ?? 0,
+    usage: { promptTokens: doc.promptTokens ?? 0, completionTokens: doc.completionTokens ?? 0 },
+    ...(doc.lastMessageAt ? { lastMessageAt: doc.lastMessageAt.toISOString() } : {}),
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+  };
+}
+
+function toMessage(doc: AiThreadMessageDoc): AiThreadMessage {
+  return {
+    id: doc._id.toHexString(),
+    threadId: doc.threadId,
+    role: doc.role,
+    content: doc.content,
+    ...(doc.model ? { model: doc.model } : {}),
+    ...(doc.usage ? { usage: doc.usage } : {}),
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+async function create(input: { userId: string; title: string; system?: string; model?: string }): Promise<AiThread> {
+  const now = new Date();
+  const scope = getScope();
+  const doc: Omit<AiThreadDoc, "_id"> = {
+    scopeType: scope.type,
+    scopeId: scope.id,
+    userId: input.userId,
+    title: input.title,
+    ...(input.system ? { system: input.system } : {}),
+    ...(input.model ? { model: input.model } : {}),
+    messageCount: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  };
+  const result = await threadsCol().insertOne(doc as AiThreadDoc);
+  return toThread({ ...doc, _id: result.insertedId } as AiThreadDoc);
+}
+
+async function findById(id: string): Promise<AiThread | null> {
+  if (!isValidId(id)) return null;
+  const doc = await threadsCol().findOne(scopedFilterActive<AiThreadDoc>({ _id: toNativeId(id) as ObjectId }));
+  return doc ? toThread(doc) : null;
+}
+
+async function listForUser(opts: {
+  userId: string;
+  limit: number;
+  cursor?: string;
+}): Promise<{ items: AiThread[]; nextCursor: string | null }> {
+  const filter: Record<string, unknown> = { userId: opts.userId };
+  if (opts.cursor && isValidId(opts.cursor)) {
+    filter._id = { $lt: toNativeId(opts.cursor) };
+  }
+  const docs = await threadsCol()
+    .find(scopedFilterActive<AiThreadDoc>(filter))
+    .sort({ _id: -1 })
+    .limit(opts.limit + 1)
+    .toArray();
+  const hasMore = docs.length > opts.limit;
+  const items = hasMore ? docs.slice(0, opts.limit) : docs;
+  return {
+    items: items.map(toThread),
+    nextCursor: hasMore ? items[items.length - 1]!._id.toHexString() : null,
+  };
+}
+
+async function rename(id: string, title: string): Promise<AiThread | null> {
+  if (!isValidId(id)) return null;
+  const builder = new UpdateBuilder<AiThreadDoc>().set("title", title).set("updatedAt", new Date());
+  const doc = await threadsCol().findOneAndUpdate(
+    scopedFilterActive<AiThreadDoc>({ _id: toNativeId(id) as ObjectId }),
+    toMongoUpdate(builder.build()) as Document,
+    { returnDocument: "after" }
+  );
+  return doc ? toThread(doc) : null;
+}
+
+async function softDelete(id: string): Promise<boolean> {
+  if (!isValidId(id)) return false;
+  const now = new Date();
+  const builder = new UpdateBuilder<AiThreadDoc>().set("deletedAt", now).set("updatedAt", now);
+  const result = await threadsCol().updateOne(
+    scopedFilterActive<AiThreadDoc>({ _id: toNativeId(id) as ObjectId }),
+    toMongoUpdate(builder.build()) as Document
+  );
+  return result.modifiedCount > 0;
+}
+
+async function appendMessages(threadId: string, messages: AiThreadMessageInput[]): Promise<AiThreadMessage[]> {
+  if (messages.length === 0) return [];
+  const now = Date.now();
+  // Distinct timestamps keep the exchange ordered when read back
+  const docs: Array<Omit<AiThreadMessageDoc, "_id">> = messages.map((m, i) => ({
+    threadId,
+    role: m.role,
+    content: m.content,
+    ...(m.model ? { model: m.model } : {}),
+    ...(m.usage ? { usage: m.usage } : {}),
+    createdAt: new Date(now + i),
+  }));
+  const result = await messagesCol().insertMany(docs as AiThreadMessageDoc[]);
+  return docs.map((d, i) => toMessage({ ...d, _id: result.insertedIds[i]! } as AiThreadMessageDoc));
+}
+
+async function listRecentMessages(threadId: string, limit: number): Promise<AiThreadMessage[]> {
+  const docs = await messagesCol().find({ threadId }).sort({ _id: -1 }).limit(limit).toArray();
+  return docs.reverse().map(toMessage);
+}
+
+async function recordExchange(id: string, args: { messages: number; usage: AiUsage }): Promise<void> {
+  if (!isValidId(id)) return;
+  const now = new Date();
+  const builder = new UpdateBuilder<AiThreadDoc>()
+    .inc("messageCount", args.messages)
+    .inc("promptTokens", args.usage.promptTokens)
+    .inc("completionTokens", args.usage.completionTokens)
+    .set("lastMessageAt", now)
+    .set("updatedAt", now);
+  await threadsCol().updateOne(
+    scopedFilterActive<AiThreadDoc>({ _id: toNativeId(id) as ObjectId }),
+    toMongoUpdate(builder.build()) as Document
+  );
+}
+
+/**
+ * MongoDB implementation of ThreadsRepoPort.
+ */
+export const ThreadsRepoMongo: ThreadsRepoPort = {
+  create,
+  findById,
+  listForUser,
+  rename,
+  softDelete,
+  appendMessages,
+  listRecentMessages,
+  recordExchange,
+};
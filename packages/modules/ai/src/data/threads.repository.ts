@@ -0,0 +1,7 @@
+import { selectRepo } from "@unisane/kernel";
+import type { ThreadsRepoPort } from "../domain/ports";
+import { ThreadsRepoMongo } from "./threads.repository.mongo";
+
+export const ThreadsRepo = selectRepo<ThreadsRepoPort>({
+  mongo: ThreadsRepoMongo,
+});
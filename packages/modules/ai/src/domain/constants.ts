@@ -25,6 +25,16 @@ export const AI_DEFAULTS = {
   CACHE_TTL_MS: 300_000,
 } as const;
 
+export const AI_LIMITS = {
+  MAX_TEMPLATE_LENGTH: 20_000,
+  MAX_SYSTEM_PROMPT_LENGTH: 20_000,
+  MAX_TEMPLATE_VARIABLES: 50,
+  MAX_ALLOWED_MODELS: 50,
+  MAX_MESSAGE_LENGTH: 20_000,
+  /** Most recent thread messages sent back to the model as context */
+  THREAD_HISTORY_MESSAGES: 40,
+} as const;
+
 export const AI_COLLECTIONS = {
   COMPLETIONS: 'ai_completions',
   EMBEDDINGS: 'ai_embeddings',
@@ -0,0 +1,47 @@
+import type { AiUsage } from "@unisane/kernel";
+import type {
+  AiThread,
+  AiThreadMessage,
+  AiThreadMessageInput,
+  PromptTemplate,
+  PromptTemplateInsertResult,
+  PromptTemplateVersionInput,
+} from "./types";
+
+/**
+ * Port interface for prompt template versions.
+ * All methods are scoped to the current tenant.
+ */
+export interface PromptTemplatesRepoPort {
+  // Latest non-deleted version of a key
+  findLatest(key: string): Promise<PromptTemplate | null>;
+  findVersion(key: string, version: number): Promise<PromptTemplate | null>;
+  // Latest version of every template, ordered by key
+  listLatest(opts: { limit: number; cursor?: string }): Promise<{ items: PromptTemplate[]; nextCursor: string | null }>;
+  // All versions of a key, newest first
+  listVersions(key: string): Promise<PromptTemplate[]>;
+  // Highest version ever written for a key, including deleted ones (0 if none)
+  maxVersion(key: string): Promise<number>;
+  // Insert an immutable version; conflicts when that version already exists
+  insertVersion(input: PromptTemplateVersionInput): Promise<PromptTemplateInsertResult>;
+  // Soft-delete every version of a key
+  softDeleteAll(key: string): Promise<number>;
+}
+
+/**
+ * Port interface for conversation threads and their messages.
+ * Thread lookups are scoped to the current tenant.
+ */
+export interface ThreadsRepoPort {
+  create(input: { userId: string; title: string; system?: string; model?: string }): Promise<AiThread>;
+  findById(id: string): Promise<AiThread | null>;
+  // Threads of one user, newest first
+  listForUser(opts: { userId: string; limit: number; cursor?: string }): Promise<{ items: AiThread[]; nextCursor: string | null }>;
+  rename(id: string, title: string): Promise<AiThread | null>;
+  softDelete(id: string): Promise<boolean>;
+  appendMessages(threadId: string, messages: AiThreadMessageInput[]): Promise<AiThreadMessage[]>;
+  // Most recent messages in chronological order
+  listRecentMessages(threadId: string, limit: number): Promise<AiThreadMessage[]>;
+  // Bump counters after an exchange
+  recordExchange(id: string, args: { messages: number; usage: AiUsage }): Promise<void>;
+}
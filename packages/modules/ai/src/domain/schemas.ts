@@ -0,0 +1,167 @@
+/**
+ * AI Domain — Zod Schemas
+ *
+ * Input validation for prompt templates, conversation threads and the
+ * per-tenant AI policy setting.
+ */
+import { z } from "zod";
+import { AI_DEFAULTS, AI_LIMITS } from "./constants";
+
+const ZGenerationParams = {
+  model: z.string().min(1).max(200).optional(),
+  maxTokens: z.number().int().positive().max(AI_DEFAULTS.DEFAULT_MAX_TOKENS).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+};
+
+// ---------------------------------------------------------------------------
+// Policy (settings namespace "ai", key "policy")
+// ---------------------------------------------------------------------------
+export const ZAiPolicy = z.object({
+  /** Models tenants may request; empty allows any. The first entry is the default. */
+  allowedModels: z.array(z.string().min(1).max(200)).max(AI_LIMITS.MAX_ALLOWED_MODELS).default([]),
+  /** Upper bound on completion tokens per request */
+  maxTokens: z.number().int().positive().max(AI_DEFAULTS.DEFAULT_MAX_TOKENS).default(AI_DEFAULTS.DEFAULT_MAX_TOKENS),
+  /** Prepended to every conversation as the first system message */
+  systemPrompt: z.string().max(AI_LIMITS.MAX_SYSTEM_PROMPT_LENGTH).default(""),
+});
+
+export type AiPolicy = z.infer<typeof ZAiPolicy>;
+
+// ---------------------------------------------------------------------------
+// Prompt Templates
+// ---------------------------------------------------------------------------
+export const ZPromptTemplateKey = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, "Use lowercase letters, digits, dot, dash or underscore");
+
+export const ZPromptVariable = z.object({
+  name: z.string().min(1).max(64).regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be a valid identifier"),
+  type: z.enum(["string", "number", "boolean"]).default("string"),
+  required: z.boolean().default(true),
+  description: z.string().max(500).optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export type PromptVariable = z.infer<typeof ZPromptVariable>;
+
+const ZPromptTemplateBody = {
+  name: z.string().min(1).max(120),
+  description: z.string().max(1000).optional(),
+  system: z.string().max(AI_LIMITS.MAX_SYSTEM_PROMPT_LENGTH).optional(),
+  template: z.string().min(1).max(AI_LIMITS.MAX_TEMPLATE_LENGTH),
+  variables: z.array(ZPromptVariable).max(AI_LIMITS.MAX_TEMPLATE_VARIABLES).default([]),
+  ...ZGenerationParams,
+};
+
+export const ZPromptTemplateCreate = z.object({
+  key: ZPromptTemplateKey,
+  ...ZPromptTemplateBody,
+});
+
+export type PromptTemplateCreate = z.infer<typeof ZPromptTemplateCreate>;
+
+/** Publishing a new version replaces the whole template body */
+export const ZPromptTemplateUpdate = z.object({
+  ...ZPromptTemplateBody,
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+export type PromptTemplateUpdate = z.infer<typeof ZPromptTemplateUpdate>;
+
+export const ZPromptVariableValues = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+export type PromptVariableValues = z.infer<typeof ZPromptVariableValues>;
+
+export const ZTemplateGenerate = z.object({
+  version: z.number().int().positive().optional(),
+  variables: ZPromptVariableValues.default({}),
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type TemplateGenerateInput = z.infer<typeof ZTemplateGenerate>;
+
+export const ZListQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type ListQuery = z.infer<typeof ZListQuery>;
+
+// ---------------------------------------------------------------------------
+// Conversation Threads
+// ---------------------------------------------------------------------------
+export const ZThreadCreate = z.object({
+  title: z.string().min(1).max(200).optional(),
+  system: z.string().max(AI_LIMITS.MAX_SYSTEM_PROMPT_LENGTH).optional(),
+  model: ZGenerationParams.model,
+});
+
+export type ThreadCreateInput = z.infer<typeof ZThreadCreate>;
+
+export const ZThreadUpdate = z.object({
+  title: z.string().min(1).max(200),
+});
+
+export type ThreadUpdateInput = z.infer<typeof ZThreadUpdate>;
+
+export const ZThreadMessageCreate = z.object({
+  content: z.string().min(1).max(AI_LIMITS.MAX_MESSAGE_LENGTH),
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type ThreadMessageCreateInput = z.infer<typeof ZThreadMessageCreate>;
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+const ZUsage = z.object({
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+});
+
+export const ZPromptTemplateResponse = z.object({
+  id: z.string(),
+  key: z.string(),
+  version: z.number().int(),
+  name: z.string(),
+  description: z.string().optional(),
+  system: z.string().optional(),
+  template: z.string(),
+  variables: z.array(ZPromptVariable),
+  model: z.string().optional(),
+  maxTokens: z.number().int().optional(),
+  temperature: z.number().optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export const ZAiThreadResponse = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  system: z.string().optional(),
+  model: z.string().optional(),
+  messageCount: z.number().int(),
+  usage: ZUsage,
+  lastMessageAt: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const ZAiThreadMessageResponse = z.object({
+  id: z.string(),
+  threadId: z.string(),
+  role: z.enum(["system", "user", "assistant"]),
+  content: z.string(),
+  model: z.string().optional(),
+  usage: ZUsage.optional(),
+  createdAt: z.string(),
+});
+
+export const ZAiGenerationResponse = z.object({
+  text: z.string(),
+  model: z.string(),
+  usage: ZUsage,
+});
@@ -0,0 +1,91 @@
+/**
+ * Prompt template rendering.
+ *
+ * Templates reference variables as `{{name}}`. Pure functions only; services
+ * turn returned issues into validation errors.
+ */
+import type { PromptVariable, PromptVariableValues } from "./schemas";
+
+export type TemplateIssue = { field: string; message: string };
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Variable names referenced by a template, in order of first use.
+ */
+export function templatePlaceholders(text: string): string[] {
+  const seen = new Set<string>();
+  for (const m of text.matchAll(PLACEHOLDER)) seen.add(m[1]!);
+  return [...seen];
+}
+
+/**
+ * Check that every placeholder is declared and variable names are unique.
+ */
+export function validateTemplateDefinition(def: {
+  template: string;
+  system?: string;
+  variables: PromptVariable[];
+}): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const declared = new Set<string>();
+  def.variables.forEach((v, i) => {
+    if (declared.has(v.name)) {
+      issues.push({ field: `variables.${i}.name`, message: `Duplicate variable "${v.name}"` });
+    }
+    declared.add(v.name);
+    if (v.default !== undefined && typeof v.default !== v.type) {
+      issues.push({ field: `variables.${i}.default`, message: `Default must be a ${v.type}` });
+    }
+  });
+  for (const field of ["template", "system"] as const) {
+    for (const name of templatePlaceholders(def[field] ?? "")) {
+      if (!declared.has(name)) {
+        issues.push({ field, message: `Undeclared variable "${name}"` });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Resolve caller-supplied values against the variable schema, applying
+ * defaults. Unknown names, missing required values and type mismatches are
+ * reported as issues on `variables.<name>`.
+ */
+export function resolveTemplateVariables(
+  variables: PromptVariable[],
+  values: PromptVariableValues
+): { values: Record<string, string>; issues: TemplateIssue[] } {
+  const issues: TemplateIssue[] = [];
+  const resolved: Record<string, string> = {};
+  const declared = new Map(variables.map((v) => [v.name, v]));
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      issues.push({ field: `variables.${name}`, message: "Unknown variable" });
+    }
+  }
+  for (const v of variables) {
+    const value = values[v.name] ?? v.default;
+    if (value === undefined) {
+      if (v.required) issues.push({ field: `variables.${v.name}`, message: "Required" });
+      else resolved[v.name] = "";
+      continue;
+    }
+    if (typeof value !== v.type) {
+      issues.push({ field: `variables.${v.name}`, message: `Expected ${v.type}` });
+      continue;
+    }
+    resolved[v.name] = String(value);
+  }
+  return { values: resolved, issues };
+}
+
+/**
+ * Substitute resolved values into a template. Placeholders without a value
+ * are left untouched.
+ */
+export function interpolateTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+}
@@ -0,0 +1,63 @@
+import type { AiMessageRole, AiUsage, ScopeType } from "@unisane/kernel";
+import type { PromptVariable } from "./schemas";
+
+/**
+ * One published version of a tenant prompt template.
+ * Versions are immutable; editing a template publishes version N+1.
+ */
+export interface PromptTemplate {
+  id: string;
+  scopeType: ScopeType;
+  scopeId: string;
+  key: string;
+  version: number;
+  name: string;
+  description?: string;
+  system?: string;
+  template: string;
+  variables: PromptVariable[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  createdBy?: string;
+  createdAt: string;
+}
+
+/**
+ * Input for inserting a template version.
+ */
+export type PromptTemplateVersionInput = Omit<PromptTemplate, "id" | "scopeType" | "scopeId" | "createdAt">;
+
+export type PromptTemplateInsertResult =
+  | { ok: true; template: PromptTemplate }
+  | { conflict: true };
+
+/**
+ * Conversation thread owned by one user within a tenant.
+ */
+export interface AiThread {
+  id: string;
+  scopeType: ScopeType;
+  scopeId: string;
+  userId: string;
+  title: string;
+  system?: string;
+  model?: string;
+  messageCount: number;
+  usage: AiUsage;
+  lastMessageAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AiThreadMessage {
+  id: string;
+  threadId: string;
+  role: AiMessageRole;
+  content: string;
+  model?: string;
+  usage?: AiUsage;
+  createdAt: string;
+}
+
+export type AiThreadMessageInput = Omit<AiThreadMessage, "id" | "threadId" | "createdAt">;
@@ -4,6 +4,13 @@
  * @layer 4
  */
 
+// ════════════════════════════════════════════════════════════════════════════
+// Domain - Schemas & Types
+// ════════════════════════════════════════════════════════════════════════════
+
+export * from './domain/schemas';
+export * from './domain/types';
+
 // ════════════════════════════════════════════════════════════════════════════
 // Domain - Errors
 // ════════════════════════════════════════════════════════════════════════════
@@ -19,7 +26,7 @@ export {
 // Domain - Constants
 // ════════════════════════════════════════════════════════════════════════════
 
-export { AI_EVENTS, AI_PROVIDERS, AI_DEFAULTS, AI_COLLECTIONS } from './domain/constants';
+export { AI_EVENTS, AI_PROVIDERS, AI_DEFAULTS, AI_LIMITS, AI_COLLECTIONS } from './domain/constants';
 export type { AiProvider } from './domain/constants';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -29,9 +36,55 @@ export type { AiProvider } from './domain/constants';
 export { aiKeys } from './domain/keys';
 export type { AiKeyBuilder } from './domain/keys';
 
+// ════════════════════════════════════════════════════════════════════════════
+// Domain - Templates
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  templatePlaceholders,
+  validateTemplateDefinition,
+  resolveTemplateVariables,
+  interpolateTemplate,
+} from './domain/templates';
+export type { TemplateIssue } from './domain/templates';
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services
 // ════════════════════════════════════════════════════════════════════════════
 
-export * from './service/generate'
+export * from './service/generate';
+export { getAiPolicy, applyAiPolicy } from './service/policy';
+export {
+  createPromptTemplate,
+  updatePromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  listPromptTemplateVersions,
+  deletePromptTemplate,
+  generateFromTemplate,
+} from './service/templates';
+export type {
+  CreatePromptTemplateArgs,
+  UpdatePromptTemplateArgs,
+  GenerateFromTemplateArgs,
+  GenerateFromTemplateOutput,
+} from './service/templates';
+export {
+  createThread,
+  listThreads,
+  getThread,
+  renameThread,
+  deleteThread,
+  sendThreadMessage,
+} from './service/threads';
+export type { SendThreadMessageArgs } from './service/threads';
 
+// ════════════════════════════════════════════════════════════════════════════
+// Providers
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  OpenAiCompatibleAdapter,
+  createOpenAiCompatibleProvider,
+  type OpenAiCompatibleConfig,
+} from './providers/openai-compatible';
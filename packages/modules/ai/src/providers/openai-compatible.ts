@@ -0,0 +1,249 @@
+/**
+ * OpenAI-Compatible AI Adapter
+ *
+ * Implements the AiProviderPort against the `/chat/completions` endpoint of
+ * OpenAI and API-compatible servers (Azure OpenAI proxies, OpenRouter, vLLM,
+ * Ollama, LM Studio, ...). Uses `fetch` directly, so no vendor SDK is needed.
+ *
+ * @example
+ * ```typescript
+ * import { setAiProvider } from '@unisane/kernel';
+ * import { createOpenAiCompatibleProvider } from '@unisane/ai';
+ *
+ * setAiProvider(createOpenAiCompatibleProvider({
+ *   apiKey: process.env.OPENAI_API_KEY,
+ *   baseUrl: 'http://localhost:11434/v1', // e.g. Ollama
+ *   defaultModel: 'llama3.1',
+ * }));
+ * ```
+ */
+
+import type {
+  AiGenerateRequest,
+  AiGenerateResult,
+  AiProviderPort,
+  AiStreamChunk,
+  AiUsage,
+} from '@unisane/kernel';
+import { ConfigurationError, ProviderError, estimateAiTokens } from '@unisane/kernel';
+import { z } from 'zod';
+
+const ZOpenAiCompatibleConfig = z.object({
+  apiKey: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  defaultModel: z.string().min(1).optional(),
+  organization: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().max(600_000).optional(),
+  headers: z.record(z.string()).optional(),
+  name: z.string().min(1).optional(),
+});
+
+export interface OpenAiCompatibleConfig {
+  /** Bearer token; optional for local servers without auth */
+  apiKey?: string;
+  /** API root including the version segment (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Model used when a request does not name one (default: gpt-4o-mini) */
+  defaultModel?: string;
+  organization?: string;
+  /** Request timeout; for streams this bounds time to first byte (default: 60s) */
+  timeoutMs?: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Provider name reported in logs and errors (default: openai) */
+  name?: string;
+}
+
+type ChatUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+type ChatCompletion = {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: ChatUsage;
+};
+
+type ChatCompletionChunk = {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: ChatUsage | null;
+};
+
+function toUsage(usage: ChatUsage | null | undefined, request: AiGenerateRequest, text: string): AiUsage {
+  return {
+    promptTokens:
+      usage?.prompt_tokens ?? estimateAiTokens(request.messages.map((m) => m.content).join('\n')),
+    completionTokens: usage?.completion_tokens ?? estimateAiTokens(text),
+  };
+}
+
+export class OpenAiCompatibleAdapter implements AiProviderPort {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly defaultModel: string;
+  private readonly timeoutMs: number;
+  private readonly headers: Record<string, string>;
+
+  constructor(config: OpenAiCompatibleConfig) {
+    const result = ZOpenAiCompatibleConfig.safeParse(config);
+    if (!result.success) {
+      throw ConfigurationError.fromZod('ai-openai', result.error.issues);
+    }
+
+    this.name = config.name ?? 'openai';
+    this.baseUrl = (config.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.defaultModel = config.defaultModel ?? 'gpt-4o-mini';
+    this.timeoutMs = config.timeoutMs ?? 60_000;
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...(config.organization ? { 'OpenAI-Organization': config.organization } : {}),
+      ...config.headers,
+    };
+  }
+
+  private body(request: AiGenerateRequest, stream: boolean) {
+    return JSON.stringify({
+      model: request.model ?? this.defaultModel,
+      messages: request.messages,
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    });
+  }
+
+  /**
+   * POST a chat completion. The returned `release` detaches the caller's
+   * abort signal and timeout; callers invoke it once the body is consumed.
+   * Streams clear the timeout as soon as headers arrive.
+   */
+  private async post(
+    request: AiGenerateRequest,
+    stream: boolean
+  ): Promise<{ res: Response; release: () => void }> {
+    const ctrl = new AbortController();
+    const onAbort = () => ctrl.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    const t = setTimeout(() => ctrl.abort(), this.timeoutMs);
+    const release = () => {
+      clearTimeout(t);
+      request.signal?.removeEventListener('abort', onAbort);
+    };
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers,
+        body: this.body(request, stream),
+        signal: ctrl.signal,
+      });
+    } catch (e) {
+      release();
+      if (e instanceof Error && e.name === 'AbortError' && !request.signal?.aborted) {
+        throw new ProviderError(this.name, new Error(`Request timed out after ${this.timeoutMs}ms`));
+      }
+      throw new ProviderError(this.name, e);
+    }
+    if (stream) clearTimeout(t);
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      release();
+      let msg = text.slice(0, 500);
+      try {
+        msg = (JSON.parse(text) as { error?: { message?: string } }).error?.message ?? msg;
+      } catch {
+        // Non-JSON error body
+      }
+      const err = new Error(`HTTP ${res.status} ${msg}`.trim());
+      // Client errors other than rate limiting will not succeed on retry
+      throw res.status >= 400 && res.status < 500 && res.status !== 429
+        ? ProviderError.nonRetryable(this.name, err, String(res.status))
+        : new ProviderError(this.name, err, { providerCode: String(res.status) });
+    }
+    return { res, release };
+  }
+
+  async generate(request: AiGenerateRequest): Promise<AiGenerateResult> {
+    const { res, release } = await this.post(request, false);
+    let json: ChatCompletion;
+    try {
+      json = (await res.json()) as ChatCompletion;
+    } catch (e) {
+      throw new ProviderError(this.name, e);
+    } finally {
+      release();
+    }
+    const choice = json.choices?.[0];
+    const text = choice?.message?.content ?? '';
+    return {
+      text,
+      model: json.model ?? request.model ?? this.defaultModel,
+      usage: toUsage(json.usage, request, text),
+      ...(choice?.finish_reason ? { finishReason: choice.finish_reason } : {}),
+    };
+  }
+
+  async *stream(request: AiGenerateRequest): AsyncIterable<AiStreamChunk> {
+    const { res, release } = await this.post(request, true);
+    if (!res.body) {
+      release();
+      throw new ProviderError(this.name, new Error('Empty streaming response'));
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let model = request.model ?? this.defaultModel;
+    let usage: ChatUsage | null | undefined;
+    let finishReason: string | undefined;
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        let idx: number;
+        while ((idx = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, idx).trim();
+          buffer = buffer.slice(idx + 1);
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') continue;
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data) as ChatCompletionChunk;
+          } catch {
+            continue;
+          }
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+          const choice = chunk.choices?.[0];
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield { type: 'delta', text: delta };
+          }
+        }
+      }
+    } catch (e) {
+      if (request.signal?.aborted) return;
+      throw new ProviderError(this.name, e);
+    } finally {
+      release();
+      reader.releaseLock();
+    }
+
+    yield {
+      type: 'done',
+      model,
+      usage: toUsage(usage, request, text),
+      ...(finishReason ? { finishReason } : {}),
+    };
+  }
+}
+
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig = {}): AiProviderPort {
+  return new OpenAiCompatibleAdapter(config);
+}
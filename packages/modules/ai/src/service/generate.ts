@@ -1,33 +1,93 @@
-import { connectDb, enforceTokensAndQuota, FEATURE, FLAG, getScopeId, getScopePlan, isEnabledForScope, assertActiveSubscriptionForCreditsViaPort } from "@unisane/kernel";
-import type { PlanId } from "@unisane/kernel";
-import { ERR } from "@unisane/gateway";
+import { estimateAiTokens, getAiProvider, logger } from "@unisane/kernel";
+import type { AiGenerateRequest, AiUsage } from "@unisane/kernel";
+import { ERR, sseResponse, type SseEvent } from "@unisane/gateway";
+import { buildRequest, meterGeneration, parseGenerateOptions, prepareGeneration, runGeneration } from "./runtime";
 
 export type GenerateArgs = {
   idem?: string;
   prompt?: string;
   options?: Record<string, unknown>;
+  signal?: AbortSignal;
 };
 
-export async function generate(args: GenerateArgs = {}): Promise<{ output: { text: string } }> {
-  const scopeId = getScopeId();
-  const plan = await getScopePlan() as PlanId;
-
-  // Feature gate: allow per-scope enablement
-  const enabled = await isEnabledForScope({ key: FLAG.AI_GENERATE, scopeId, ctx: { plan } });
-  if (!enabled) throw ERR.forbidden('Feature disabled');
-  // Ensure DB is connected for usage/credits checks
-  await connectDb();
-  await assertActiveSubscriptionForCreditsViaPort();
-  // Charge one unit for demo feature; guard composes usage increment + credits
-  const key =
-    args.idem && args.idem.trim().length
-      ? args.idem
-      : (globalThis.crypto?.randomUUID?.() ?? String(Date.now()));
-  await enforceTokensAndQuota({
-    tenantId: scopeId,
-    featureKey: FEATURE.AI_GENERATE,
-    tokens: 1,
+export type GenerateOutput = {
+  output: { text: string; model: string; usage: AiUsage };
+};
+
+function toRequest(args: GenerateArgs): AiGenerateRequest {
+  const prompt = args.prompt?.trim();
+  if (!prompt) {
+    throw ERR.validation("Prompt is required", [{ field: "prompt", message: "Required" }]);
+  }
+  return buildRequest({
+    messages: [{ role: "user", content: prompt }],
+    options: parseGenerateOptions(args.options),
+    ...(args.signal ? { signal: args.signal } : {}),
+  });
+}
+
+export async function generate(args: GenerateArgs = {}): Promise<GenerateOutput> {
+  const result = await runGeneration(toRequest(args));
+  return { output: { text: result.text, model: result.model, usage: result.usage } };
+}
+
+/**
+ * Streamed generation as Server-Sent Events: `delta` events carry `{ text }`,
+ * a final `done` event carries `{ model, usage }` after tokens are metered.
+ * Gate checks run before the response starts so they surface as regular
+ * HTTP errors; provider or quota failures mid-stream arrive as an `error`
+ * event.
+ */
+export async function generateStream(args: GenerateArgs = {}): Promise<Response> {
+  const { scopeId, request } = await prepareGeneration(toRequest(args));
+  const provider = getAiProvider();
+
+  async function* events(): AsyncIterable<SseEvent> {
+    let streamed = "";
+    let metered = false;
+    try {
+      for await (const chunk of provider.stream(request)) {
+        if (chunk.type === "delta") {
+          streamed += chunk.text;
+          yield { event: "delta", data: { text: chunk.text } };
+          continue;
+        }
+        metered = true;
+        await meterGeneration(scopeId, chunk.usage);
+        yield { event: "done", data: { model: chunk.model, usage: chunk.usage } };
+        return;
+      }
+    } finally {
+      // Disconnected or failed before the provider reported usage: meter an
+      // estimate of what was consumed upstream
+      if (!metered) {
+        const usage: AiUsage = {
+          promptTokens: estimateAiTokens(request.messages.map((m) => m.content).join("\n")),
+          completionTokens: estimateAiTokens(streamed),
+        };
+        try {
+          await meterGeneration(scopeId, usage);
+        } catch (e) {
+          logger.warn("AI stream ended early; metering failed", { module: "ai", provider: provider.name, scopeId, err: e });
+        }
+      }
+    }
+  }
+
+  return sseResponse(events());
+}
+
+/**
+ * Raw route factory for `ai.generate.stream`; forwards the request's abort
+ * signal so a client disconnect cancels the upstream call.
+ */
+export async function generateStreamFactory(args: {
+  req: Request;
+  body?: { prompt?: string; options?: Record<string, unknown> };
+}): Promise<Response> {
+  return generateStream({
+    ...(args.body?.prompt !== undefined ? { prompt: args.body.prompt } : {}),
+    ...(args.body?.options ? { options: args.body.options } : {}),
+    signal: args.req.signal,
   });
-  // Demo output — real providers can be integrated here later
-  return { output: { text: "hello" } };
 }
@@ -0,0 +1,46 @@
+import {
+  AI_SETTING_KEYS,
+  getScopeId,
+  getTypedSetting,
+  SETTINGS_NS,
+} from "@unisane/kernel";
+import type { AiGenerateRequest } from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { ZAiPolicy, type AiPolicy } from "../domain/schemas";
+
+/**
+ * Read the tenant's AI policy (settings `ai.policy`), falling back to the
+ * schema defaults when unset, unregistered or invalid.
+ */
+export async function getAiPolicy(scopeId: string = getScopeId()): Promise<AiPolicy> {
+  const row = await getTypedSetting<unknown>({
+    scopeId,
+    ns: SETTINGS_NS.AI,
+    key: AI_SETTING_KEYS.POLICY,
+  }).catch(() => null);
+  const parsed = ZAiPolicy.safeParse(row?.value ?? {});
+  return parsed.success ? parsed.data : ZAiPolicy.parse({});
+}
+
+/**
+ * Constrain a request to the tenant policy: reject models outside the
+ * allow-list (defaulting to its first entry), cap max tokens and prepend the
+ * tenant system prompt.
+ */
+export function applyAiPolicy(policy: AiPolicy, request: AiGenerateRequest): AiGenerateRequest {
+  let model = request.model;
+  if (policy.allowedModels.length > 0) {
+    if (model && !policy.allowedModels.includes(model)) {
+      throw ERR.forbidden(`Model "${model}" is not allowed for this workspace`);
+    }
+    model ??= policy.allowedModels[0];
+  }
+  return {
+    ...request,
+    ...(model ? { model } : {}),
+    maxTokens: Math.min(request.maxTokens ?? policy.maxTokens, policy.maxTokens),
+    messages: policy.systemPrompt
+      ? [{ role: "system", content: policy.systemPrompt }, ...request.messages]
+      : request.messages,
+  };
+}
@@ -0,0 +1,113 @@
+import {
+  connectDb,
+  enforceTokensAndQuota,
+  FEATURE,
+  FLAG,
+  getAiProvider,
+  getScopeId,
+  getScopePlan,
+  isEnabledForScope,
+  assertActiveSubscriptionForCreditsViaPort,
+} from "@unisane/kernel";
+import type { AiGenerateRequest, AiGenerateResult, AiMessage, AiUsage, PlanId } from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { z } from "zod";
+import { AI_DEFAULTS, AI_LIMITS } from "../domain/constants";
+import { applyAiPolicy, getAiPolicy } from "./policy";
+
+/*
+ * Generation pipeline shared by raw, template and thread generation.
+ * Module-private: not re-exported from the package index.
+ */
+
+// Recognised keys of the free-form `options` bag; others are ignored
+const ZGenerateOptions = z
+  .object({
+    model: z.string().min(1).max(200).optional(),
+    system: z.string().max(AI_LIMITS.MAX_SYSTEM_PROMPT_LENGTH).optional(),
+    maxTokens: z.number().int().positive().max(AI_DEFAULTS.DEFAULT_MAX_TOKENS).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+  })
+  .passthrough();
+
+export type GenerateOptions = z.infer<typeof ZGenerateOptions>;
+
+export function parseGenerateOptions(options: Record<string, unknown> | undefined): GenerateOptions {
+  const parsed = ZGenerateOptions.safeParse(options ?? {});
+  if (!parsed.success) {
+    throw ERR.validation(
+      "Invalid generation options",
+      parsed.error.issues.map((i) => ({ field: ["options", ...i.path].join("."), message: i.message }))
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Assemble a provider request. Caller options win over `defaults` (template
+ * or thread settings); an options `system` prompt follows the given messages'
+ * own system prompts.
+ */
+export function buildRequest(args: {
+  messages: AiMessage[];
+  options: GenerateOptions;
+  defaults?: { model?: string; maxTokens?: number; temperature?: number };
+  signal?: AbortSignal;
+}): AiGenerateRequest {
+  const { options, defaults = {} } = args;
+  const model = options.model ?? defaults.model;
+  const maxTokens = options.maxTokens ?? defaults.maxTokens;
+  const leading = args.messages.filter((m) => m.role === "system");
+  const rest = args.messages.filter((m) => m.role !== "system");
+  return {
+    messages: [
+      ...leading,
+      ...(options.system ? [{ role: "system" as const, content: options.system }] : []),
+      ...rest,
+    ],
+    ...(model ? { model } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    temperature: options.temperature ?? defaults.temperature ?? AI_DEFAULTS.DEFAULT_TEMPERATURE,
+    ...(args.signal ? { signal: args.signal } : {}),
+  };
+}
+
+/**
+ * Gate checks and tenant policy, run before any provider call.
+ */
+export async function prepareGeneration(
+  request: AiGenerateRequest
+): Promise<{ scopeId: string; request: AiGenerateRequest }> {
+  const scopeId = getScopeId();
+  const plan = await getScopePlan() as PlanId;
+
+  // Feature gate: allow per-scope enablement
+  const enabled = await isEnabledForScope({ key: FLAG.AI_GENERATE, scopeId, ctx: { plan } });
+  if (!enabled) throw ERR.forbidden('Feature disabled');
+  // Ensure DB is connected for usage/credits checks
+  await connectDb();
+  await assertActiveSubscriptionForCreditsViaPort();
+  const policy = await getAiPolicy(scopeId);
+  return { scopeId, request: applyAiPolicy(policy, request) };
+}
+
+/**
+ * Meter prompt + completion tokens once the provider has reported usage.
+ */
+export async function meterGeneration(scopeId: string, usage: AiUsage): Promise<void> {
+  await enforceTokensAndQuota({
+    tenantId: scopeId,
+    featureKey: FEATURE.AI_GENERATE,
+    tokens: Math.max(1, usage.promptTokens + usage.completionTokens),
+  });
+}
+
+/**
+ * Buffered generation: gate, call the provider, meter.
+ */
+export async function runGeneration(request: AiGenerateRequest): Promise<AiGenerateResult> {
+  const prepared = await prepareGeneration(request);
+  const result = await getAiProvider().generate(prepared.request);
+  await meterGeneration(prepared.scopeId, result.usage);
+  return result;
+}
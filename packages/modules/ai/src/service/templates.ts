@@ -0,0 +1,176 @@
+import { connectDb } from "@unisane/kernel";
+import type { AiMessage, AiUsage } from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { PromptTemplatesRepo } from "../data/templates.repository";
+import {
+  interpolateTemplate,
+  resolveTemplateVariables,
+  validateTemplateDefinition,
+} from "../domain/templates";
+import type {
+  ListQuery,
+  PromptTemplateCreate,
+  PromptTemplateUpdate,
+  TemplateGenerateInput,
+} from "../domain/schemas";
+import type { PromptTemplate } from "../domain/types";
+import { buildRequest, parseGenerateOptions, runGeneration } from "./runtime";
+
+function assertValidDefinition(def: Pick<PromptTemplateCreate, "template" | "system" | "variables">) {
+  const issues = validateTemplateDefinition({
+    template: def.template,
+    variables: def.variables,
+    ...(def.system !== undefined ? { system: def.system } : {}),
+  });
+  if (issues.length > 0) throw ERR.validation("Invalid prompt template", issues);
+}
+
+function versionBody(input: Omit<PromptTemplateUpdate, "expectedVersion">) {
+  return {
+    name: input.name,
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.system !== undefined ? { system: input.system } : {}),
+    template: input.template,
+    variables: input.variables,
+    ...(input.model !== undefined ? { model: input.model } : {}),
+    ...(input.maxTokens !== undefined ? { maxTokens: input.maxTokens } : {}),
+    ...(input.temperature !== undefined ? { temperature: input.temperature } : {}),
+  };
+}
+
+async function requireTemplate(key: string, version?: number): Promise<PromptTemplate> {
+  const tpl = version !== undefined
+    ? await PromptTemplatesRepo.findVersion(key, version)
+    : await PromptTemplatesRepo.findLatest(key);
+  if (!tpl) throw ERR.notFound("Prompt template");
+  return tpl;
+}
+
+export type CreatePromptTemplateArgs = {
+  input: PromptTemplateCreate;
+  actorId?: string;
+};
+
+/**
+ * Create a template as version 1 (or the next free version when the key was
+ * deleted before, so old versions stay addressable in history).
+ */
+export async function createPromptTemplate(args: CreatePromptTemplateArgs): Promise<PromptTemplate> {
+  const { key, ...body } = args.input;
+  assertValidDefinition(body);
+  await connectDb();
+
+  if (await PromptTemplatesRepo.findLatest(key)) throw ERR.alreadyExists("Prompt template");
+  const version = (await PromptTemplatesRepo.maxVersion(key)) + 1;
+  const res = await PromptTemplatesRepo.insertVersion({
+    key,
+    version,
+    ...versionBody(body),
+    ...(args.actorId ? { createdBy: args.actorId } : {}),
+  });
+  if ("conflict" in res) throw ERR.alreadyExists("Prompt template");
+  return res.template;
+}
+
+export type UpdatePromptTemplateArgs = {
+  key: string;
+  input: PromptTemplateUpdate;
+  actorId?: string;
+};
+
+/**
+ * Publish a new immutable version. `expectedVersion` guards against
+ * overwriting a concurrent edit.
+ */
+export async function updatePromptTemplate(args: UpdatePromptTemplateArgs): Promise<PromptTemplate> {
+  const { expectedVersion, ...body } = args.input;
+  assertValidDefinition(body);
+  await connectDb();
+
+  const current = await requireTemplate(args.key);
+  if (expectedVersion !== undefined && expectedVersion !== current.version) {
+    throw ERR.versionMismatch();
+  }
+  const res = await PromptTemplatesRepo.insertVersion({
+    key: args.key,
+    version: current.version + 1,
+    ...versionBody(body),
+    ...(args.actorId ? { createdBy: args.actorId } : {}),
+  });
+  if ("conflict" in res) throw ERR.versionMismatch();
+  return res.template;
+}
+
+export async function getPromptTemplate(args: { key: string; version?: number }): Promise<PromptTemplate> {
+  await connectDb();
+  return requireTemplate(args.key, args.version);
+}
+
+export async function listPromptTemplates(args: ListQuery) {
+  await connectDb();
+  return PromptTemplatesRepo.listLatest({
+    limit: args.limit,
+    ...(args.cursor ? { cursor: args.cursor } : {}),
+  });
+}
+
+export async function listPromptTemplateVersions(args: { key: string }) {
+  await connectDb();
+  const items = await PromptTemplatesRepo.listVersions(args.key);
+  if (items.length === 0) throw ERR.notFound("Prompt template");
+  return { items };
+}
+
+export async function deletePromptTemplate(args: { key: string }) {
+  await connectDb();
+  const deleted = await PromptTemplatesRepo.softDeleteAll(args.key);
+  if (deleted === 0) throw ERR.notFound("Prompt template");
+  return { ok: true as const, versions: deleted };
+}
+
+export type GenerateFromTemplateArgs = TemplateGenerateInput & {
+  key: string;
+  signal?: AbortSignal;
+};
+
+export type GenerateFromTemplateOutput = {
+  output: { text: string; model: string; usage: AiUsage; template: { key: string; version: number } };
+};
+
+/**
+ * Render a template with the caller's variables and generate from it.
+ * Template model/maxTokens/temperature act as defaults under `options`.
+ */
+export async function generateFromTemplate(args: GenerateFromTemplateArgs): Promise<GenerateFromTemplateOutput> {
+  const options = parseGenerateOptions(args.options);
+  await connectDb();
+  const tpl = await requireTemplate(args.key, args.version);
+
+  const { values, issues } = resolveTemplateVariables(tpl.variables, args.variables ?? {});
+  if (issues.length > 0) throw ERR.validation("Invalid template variables", issues);
+
+  const messages: AiMessage[] = [
+    ...(tpl.system ? [{ role: "system" as const, content: interpolateTemplate(tpl.system, values) }] : []),
+    { role: "user", content: interpolateTemplate(tpl.template, values) },
+  ];
+  const result = await runGeneration(
+    buildRequest({
+      messages,
+      options,
+      defaults: {
+        ...(tpl.model ? { model: tpl.model } : {}),
+        ...(tpl.maxTokens !== undefined ? { maxTokens: tpl.maxTokens } : {}),
+        ...(tpl.temperature !== undefined ? { temperature: tpl.temperature } : {}),
+      },
+      ...(args.signal ? { signal: args.signal } : {}),
+    })
+  );
+  return {
+    output: {
+      text: result.text,
+      model: result.model,
+      usage: result.usage,
+      template: { key: tpl.key, version: tpl.version },
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { connectDb } from "@unisane/kernel";
+import type { AiMessage, AiUsage } from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { ThreadsRepo } from "../data/threads.repository";
+import { AI_LIMITS } from "../domain/constants";
+import type { ListQuery, ThreadCreateInput, ThreadMessageCreateInput } from "../domain/schemas";
+import type { AiThread, AiThreadMessage } from "../domain/types";
+import { buildRequest, parseGenerateOptions, runGeneration } from "./runtime";
+
+const DEFAULT_THREAD_TITLE = "New conversation";
+
+/**
+ * Threads are tenant-scoped by the repository and private to their author;
+ * another member's thread reads as not found.
+ */
+async function requireOwnThread(userId: string, threadId: string): Promise<AiThread> {
+  const thread = await ThreadsRepo.findById(threadId);
+  if (!thread || thread.userId !== userId) throw ERR.notFound("Thread");
+  return thread;
+}
+
+export async function createThread(args: { userId: string; input: ThreadCreateInput }): Promise<AiThread> {
+  await connectDb();
+  return ThreadsRepo.create({
+    userId: args.userId,
+    title: args.input.title ?? DEFAULT_THREAD_TITLE,
+    ...(args.input.system ? { system: args.input.system } : {}),
+    ...(args.input.model ? { model: args.input.model } : {}),
+  });
+}
+
+export async function listThreads(args: { userId: string } & ListQuery) {
+  await connectDb();
+  return ThreadsRepo.listForUser({
+    userId: args.userId,
+    limit: args.limit,
+    ...(args.cursor ? { cursor: args.cursor } : {}),
+  });
+}
+
+export async function getThread(args: {
+  userId: string;
+  threadId: string;
+}): Promise<{ thread: AiThread; messages: AiThreadMessage[] }> {
+  await connectDb();
+  const thread = await requireOwnThread(args.userId, args.threadId);
+  const messages = await ThreadsRepo.listRecentMessages(thread.id, AI_LIMITS.THREAD_HISTORY_MESSAGES);
+  return { thread, messages };
+}
+
+export async function renameThread(args: { userId: string; threadId: string; title: string }): Promise<AiThread> {
+  await connectDb();
+  await requireOwnThread(args.userId, args.threadId);
+  const updated = await ThreadsRepo.rename(args.threadId, args.title);
+  if (!updated) throw ERR.notFound("Thread");
+  return updated;
+}
+
+export async function deleteThread(args: { userId: string; threadId: string }) {
+  await connectDb();
+  await requireOwnThread(args.userId, args.threadId);
+  await ThreadsRepo.softDelete(args.threadId);
+  return { ok: true as const };
+}
+
+export type SendThreadMessageArgs = ThreadMessageCreateInput & {
+  userId: string;
+  threadId: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * Append a user message and generate the assistant reply with the thread's
+ * recent history as context. Nothing is persisted if generation fails.
+ */
+export async function sendThreadMessage(
+  args: SendThreadMessageArgs
+): Promise<{ message: AiThreadMessage; model: string; usage: AiUsage }> {
+  const options = parseGenerateOptions(args.options);
+  await connectDb();
+  const thread = await requireOwnThread(args.userId, args.threadId);
+  const history = await ThreadsRepo.listRecentMessages(thread.id, AI_LIMITS.THREAD_HISTORY_MESSAGES);
+
+  const messages: AiMessage[] = [
+    ...(thread.system ? [{ role: "system" as const, content: thread.system }] : []),
+    ...history.map((m) => ({ role: m.role, content: m.content })),
+    { role: "user", content: args.content },
+  ];
+  const result = await runGeneration(
+    buildRequest({
+      messages,
+      options,
+      defaults: thread.model ? { model: thread.model } : {},
+      ...(args.signal ? { signal: args.signal } : {}),
+    })
+  );
+
+  const [, reply] = await ThreadsRepo.appendMessages(thread.id, [
+    { role: "user", content: args.content },
+    { role: "assistant", content: result.text, model: result.model, usage: result.usage },
+  ]);
+  await ThreadsRepo.recordExchange(thread.id, { messages: 2, usage: result.usage });
+  return { message: reply!, model: result.model, usage: result.usage };
+}
@@ -14,7 +14,7 @@
  * ```
  */
 
-import { logger, onTyped, type MembershipRemovalReason } from '@unisane/kernel';
+import { logger, onTyped, type EventPayload, type MembershipRemovalReason } from '@unisane/kernel';
 import { appendAudit } from './service/append';
 
 const log = logger.child({ module: 'audit', component: 'event-handlers' });
@@ -257,6 +257,79 @@ async function handleSettingsUpdated(
   });
 }
 
+/**
+ * Log flag override set/changed (tenant or user scope)
+ */
+async function handleFlagOverrideSet(
+  payload: EventPayload<'flags.override.set'>
+): Promise<void> {
+  await appendAudit({
+    scopeId: payload.scopeId,
+    actorId: payload.actorId,
+    action: 'flags.override.set',
+    resourceType: `flag.override.${payload.scopeType}`,
+    resourceId: `${payload.env}:${payload.key}`,
+    before: payload.previous ?? undefined,
+    after: {
+      value: payload.value,
+      variant: payload.variant ?? null,
+      expiresAt: payload.expiresAt ?? null,
+    },
+  });
+}
+
+/**
+ * Log flag override removal (manual clear or expiry cleanup)
+ */
+async function handleFlagOverrideRemoved(
+  payload: EventPayload<'flags.override.removed'>
+): Promise<void> {
+  await appendAudit({
+    scopeId: payload.scopeId,
+    actorId: payload.actorId ?? (payload.reason === 'expired' ? 'system' : undefined),
+    action: 'flags.override.removed',
+    resourceType: `flag.override.${payload.scopeType}`,
+    resourceId: `${payload.env}:${payload.key}`,
+    after: { reason: payload.reason },
+  });
+}
+
+/**
+ * Log MFA changes and recovery code use. MFA belongs to the user, not a
+ * tenant, so these are recorded in the user's own scope.
+ */
+async function handleMfaEnrolled(payload: EventPayload<'auth.mfa.enrolled'>): Promise<void> {
+  await appendAudit({
+    scopeId: payload.userId,
+    actorId: payload.userId,
+    action: 'auth.mfa.enrolled',
+    resourceType: 'mfa',
+    resourceId: payload.userId,
+    after: { method: payload.method },
+  });
+}
+
+async function handleMfaDisabled(payload: EventPayload<'auth.mfa.disabled'>): Promise<void> {
+  await appendAudit({
+    scopeId: payload.userId,
+    actorId: payload.userId,
+    action: 'auth.mfa.disabled',
+    resourceType: 'mfa',
+    resourceId: payload.userId,
+  });
+}
+
+async function handleMfaRecovered(payload: EventPayload<'auth.mfa.recovered'>): Promise<void> {
+  await appendAudit({
+    scopeId: payload.userId,
+    actorId: payload.userId,
+    action: 'auth.mfa.recovered',
+    resourceType: 'mfa',
+    resourceId: payload.userId,
+    after: { recoveryCodesRemaining: payload.remaining },
+  });
+}
+
 /**
  * Register all audit event handlers.
  * Call this during application bootstrap.
@@ -358,6 +431,19 @@ export function registerAuditEventHandlers(): () => void {
     })
   );
 
+  // Flags events
+  unsubscribers.push(
+    onTyped('flags.override.set', async (event) => {
+      await handleFlagOverrideSet(event.payload);
+    })
+  );
+
+  unsubscribers.push(
+    onTyped('flags.override.removed', async (event) => {
+      await handleFlagOverrideRemoved(event.payload);
+    })
+  );
+
   // Membership events (detailed with reason)
   unsubscribers.push(
     onTyped('membership.removed', async (event) => {
@@ -365,6 +451,25 @@ export function registerAuditEventHandlers(): () => void {
     })
   );
 
+  // Auth events
+  unsubscribers.push(
+    onTyped('auth.mfa.enrolled', async (event) => {
+      await handleMfaEnrolled(event.payload);
+    })
+  );
+
+  unsubscribers.push(
+    onTyped('auth.mfa.disabled', async (event) => {
+      await handleMfaDisabled(event.payload);
+    })
+  );
+
+  unsubscribers.push(
+    onTyped('auth.mfa.recovered', async (event) => {
+      await handleMfaRecovered(event.payload);
+    })
+  );
+
   log.info('audit event handlers registered', { count: unsubscribers.length });
 
   // Return cleanup function
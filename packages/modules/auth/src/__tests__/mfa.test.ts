@@ -0,0 +1,231 @@
+/**
+ * MFA Tests
+ *
+ * Tests for TOTP enrollment, recovery codes and the sign-in challenge against
+ * an in-memory repository and cache.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { AuthMfaRepoPort } from '../domain/ports';
+import type { MfaEnrollmentView } from '../domain/types';
+
+const state = vi.hoisted(() => ({
+  enrollments: new Map<string, MfaEnrollmentView>(),
+  cache: new Map<string, string>(),
+}));
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    connectDb: vi.fn(async () => undefined),
+    kv: {
+      get: vi.fn(async (key: string) => state.cache.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string) => {
+        state.cache.set(key, value);
+      }),
+      incrBy: vi.fn(async (key: string, by: number) => {
+        const next = Number(state.cache.get(key) ?? 0) + by;
+        state.cache.set(key, String(next));
+        return next;
+      }),
+      del: vi.fn(async (key: string) => {
+        state.cache.delete(key);
+      }),
+    },
+    getTypedSetting: vi.fn(async () => ({ value: 'Acme', version: 0 })),
+    getAuthIdentityProvider: () => ({
+      findUserById: async (id: string) => ({ id, emailNorm: `${id}@example.com` }),
+    }),
+    emitTypedReliable: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock('../data/mfa.repository', () => {
+  const AuthMfaRepo: AuthMfaRepoPort = {
+    async findByUserId(userId) {
+      const e = state.enrollments.get(userId);
+      return e ? { ...e, recoveryCodeHashes: [...e.recoveryCodeHashes] } : null;
+    },
+    async upsertPending(userId, secret) {
+      if (state.enrollments.get(userId)?.status === 'enabled') return null;
+      const e: MfaEnrollmentView = {
+        userId,
+        status: 'pending',
+        secret,
+        recoveryCodeHashes: [],
+        lastUsedStep: null,
+        enabledAt: null,
+      };
+      state.enrollments.set(userId, e);
+      return e;
+    },
+    async enable(userId, input) {
+      const e = state.enrollments.get(userId);
+      if (e?.status !== 'pending') return false;
+      Object.assign(e, { status: 'enabled', ...input, enabledAt: new Date() });
+      return true;
+    },
+    async disable(userId) {
+      return { deleted: state.enrollments.delete(userId) };
+    },
+    async recordUsedStep(userId, step) {
+      const e = state.enrollments.get(userId);
+      if (!e || (e.lastUsedStep !== null && e.lastUsedStep >= step)) return false;
+      e.lastUsedStep = step;
+      return true;
+    },
+    async consumeRecoveryCode(userId, hash) {
+      const e = state.enrollments.get(userId);
+      if (!e || !e.recoveryCodeHashes.includes(hash)) return null;
+      e.recoveryCodeHashes = e.recoveryCodeHashes.filter((h) => h !== hash);
+      return { remaining: e.recoveryCodeHashes.length };
+    },
+    async replaceRecoveryCodes(userId, hashes) {
+      const e = state.enrollments.get(userId);
+      if (e) e.recoveryCodeHashes = hashes;
+    },
+  };
+  return { AuthMfaRepo };
+});
+
+import { emitTypedReliable } from '@unisane/kernel';
+import { totpCode, totpStep } from '../domain/totp';
+import {
+  getMfaStatus,
+  mfaDisable,
+  mfaEnrollConfirm,
+  mfaEnrollStart,
+  mfaRegenerateRecoveryCodes,
+  mfaVerify,
+  startMfaChallenge,
+} from '../service/mfa';
+
+const STEP_MS = 30_000;
+
+async function enroll(userId = 'u1') {
+  const { secret } = await mfaEnrollStart({ userId });
+  const { recoveryCodes } = await mfaEnrollConfirm({ userId, code: totpCode(secret, totpStep()) });
+  return { secret, recoveryCodes };
+}
+
+describe('MFA enrollment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+    state.enrollments.clear();
+    state.cache.clear();
+  });
+
+  it('enables MFA after a confirmed code and returns recovery codes', async () => {
+    const { otpauthUri } = await mfaEnrollStart({ userId: 'u1' });
+    expect(otpauthUri).toContain('otpauth://totp/Acme%3Au1%40example.com');
+    expect(await getMfaStatus({ userId: 'u1' })).toMatchObject({ enabled: false });
+
+    const secret = state.enrollments.get('u1')!.secret;
+    await expect(mfaEnrollConfirm({ userId: 'u1', code: totpCode(secret, totpStep() + 5) })).rejects.toThrow(
+      /Invalid verification code/
+    );
+
+    const { recoveryCodes } = await mfaEnrollConfirm({ userId: 'u1', code: totpCode(secret, totpStep()) });
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await getMfaStatus({ userId: 'u1' })).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+    expect(emitTypedReliable).toHaveBeenCalledWith('auth.mfa.enrolled', { userId: 'u1', method: 'totp' });
+
+    await expect(mfaEnrollStart({ userId: 'u1' })).rejects.toThrow(/already enabled/);
+  });
+
+  it('disables MFA with a valid code', async () => {
+    vi.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    const { secret } = await enroll();
+    vi.advanceTimersByTime(STEP_MS);
+
+    await expect(mfaDisable({ userId: 'u1', code: 'aaaaa-aaaaa' })).rejects.toThrow(/Invalid verification code/);
+    await expect(mfaDisable({ userId: 'u1', code: totpCode(secret, totpStep()) })).resolves.toEqual({ ok: true });
+    expect(emitTypedReliable).toHaveBeenCalledWith('auth.mfa.disabled', { userId: 'u1' });
+    expect(await getMfaStatus({ userId: 'u1' })).toMatchObject({ enabled: false });
+  });
+
+  it('regenerates recovery codes and invalidates the old ones', async () => {
+    const { recoveryCodes } = await enroll();
+    const { recoveryCodes: fresh } = await mfaRegenerateRecoveryCodes({ userId: 'u1', code: recoveryCodes[0]! });
+    expect(fresh).toHaveLength(10);
+
+    await expect(mfaRegenerateRecoveryCodes({ userId: 'u1', code: recoveryCodes[1]! })).rejects.toThrow(
+      /Invalid verification code/
+    );
+  });
+});
+
+describe('MFA sign-in challenge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.enrollments.clear();
+    state.cache.clear();
+    vi.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+  });
+
+  it('issues no challenge for users without MFA', async () => {
+    expect(await startMfaChallenge('u2')).toBeNull();
+  });
+
+  it('exchanges a challenge and TOTP code for an MFA session', async () => {
+    const { secret } = await enroll();
+    vi.advanceTimersByTime(STEP_MS);
+
+    const challenge = await startMfaChallenge('u1');
+    expect(challenge).toMatchObject({ mfaRequired: true });
+
+    const code = totpCode(secret, totpStep());
+    await expect(mfaVerify({ challengeToken: challenge!.challengeToken, code })).resolves.toEqual({
+      userId: 'u1',
+      amr: ['mfa'],
+    });
+
+    // Single use: both the challenge and the TOTP step are spent
+    await expect(mfaVerify({ challengeToken: challenge!.challengeToken, code })).rejects.toThrow(/expired/);
+    const again = await startMfaChallenge('u1');
+    await expect(mfaVerify({ challengeToken: again!.challengeToken, code })).rejects.toThrow(/Invalid verification code/);
+  });
+
+  it('accepts each recovery code once and records its use', async () => {
+    const { recoveryCodes } = await enroll();
+    const first = await startMfaChallenge('u1');
+    await mfaVerify({ challengeToken: first!.challengeToken, code: recoveryCodes[0]!.toUpperCase() });
+    expect(emitTypedReliable).toHaveBeenCalledWith('auth.mfa.recovered', { userId: 'u1', remaining: 9 });
+
+    const second = await startMfaChallenge('u1');
+    await expect(mfaVerify({ challengeToken: second!.challengeToken, code: recoveryCodes[0]! })).rejects.toThrow(
+      /Invalid verification code/
+    );
+  });
+
+  it('drops the challenge after too many wrong codes', async () => {
+    const { recoveryCodes } = await enroll();
+    const challenge = await startMfaChallenge('u1');
+    for (let i = 0; i < 5; i++) {
+      await expect(mfaVerify({ challengeToken: challenge!.challengeToken, code: 'zzzzz-zzzzz' })).rejects.toThrow(
+        /Invalid verification code/
+      );
+    }
+    await expect(
+      mfaVerify({ challengeToken: challenge!.challengeToken, code: recoveryCodes[0]! })
+    ).rejects.toThrow(/expired/);
+  });
+
+  it('caps parallel guesses at the attempt limit', async () => {
+    const { recoveryCodes } = await enroll();
+    const challenge = await startMfaChallenge('u1');
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () => mfaVerify({ challengeToken: challenge!.challengeToken, code: 'zzzzz-zzzzz' }))
+    );
+    const messages = results.map((r) => (r.status === 'rejected' ? String(r.reason?.message) : 'ok'));
+    expect(messages.filter((m) => /Invalid verification code/.test(m))).toHaveLength(5);
+    expect(messages.filter((m) => /expired/.test(m))).toHaveLength(3);
+
+    await expect(
+      mfaVerify({ challengeToken: challenge!.challengeToken, code: recoveryCodes[0]! })
+    ).rejects.toThrow(/expired/);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * TOTP Tests
+ *
+ * RFC 6238 test vectors (SHA-1, truncated to 6 digits) and recovery code
+ * helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from '../domain/totp';
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+} from '../domain/recovery-codes';
+
+// "12345678901234567890" from RFC 6238 Appendix B
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const buf = Buffer.from([0, 1, 2, 250, 255, 17, 99]);
+    expect(base32Decode(base32Encode(buf))).toEqual(buf);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('ignores case, spaces and padding', () => {
+    expect(base32Decode('gezd gnbv====')).toEqual(base32Decode('GEZDGNBV'));
+  });
+
+  it('rejects invalid characters', () => {
+    expect(() => base32Decode('GEZ1')).toThrow(/Invalid base32/);
+  });
+});
+
+describe('totpCode', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC vector at T=%i', (unixSec, expected) => {
+    expect(totpCode(RFC_SECRET, totpStep(unixSec * 1000))).toBe(expected);
+  });
+});
+
+describe('verifyTotp', () => {
+  const secret = generateTotpSecret();
+  const nowMs = Date.UTC(2026, 0, 1, 12, 0, 0);
+  const step = totpStep(nowMs);
+
+  it('returns the matched step', () => {
+    expect(verifyTotp(secret, totpCode(secret, step), { nowMs })).toBe(step);
+  });
+
+  it('tolerates one step of clock drift', () => {
+    expect(verifyTotp(secret, totpCode(secret, step - 1), { nowMs })).toBe(step - 1);
+    expect(verifyTotp(secret, totpCode(secret, step + 1), { nowMs })).toBe(step + 1);
+    expect(verifyTotp(secret, totpCode(secret, step - 2), { nowMs })).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(secret, '12345', { nowMs })).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', { nowMs })).toBeNull();
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('encodes issuer and account', () => {
+    const uri = buildOtpauthUri({ secret: 'ABC', account: 'ada@example.com', issuer: 'Acme Co' });
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Acme%20Co%3Aada%40example\.com\?/);
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toBe('ABC');
+    expect(params.get('issuer')).toBe('Acme Co');
+    expect(params.get('digits')).toBe('6');
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct codes in xxxxx-xxxxx form', () => {
+    const codes = generateRecoveryCodes(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      expect(isRecoveryCodeFormat(code)).toBe(true);
+    }
+  });
+
+  it('hashes loosely typed input the same', () => {
+    expect(hashRecoveryCode('K7M2Q X9P4D')).toBe(hashRecoveryCode('k7m2q-x9p4d'));
+    expect(isRecoveryCodeFormat('123456')).toBe(false);
+  });
+});
@@ -16,6 +16,10 @@ export {
   ZTokenExchange,
   ZPhoneStart,
   ZPhoneVerify,
+  ZMfaCode,
+  ZMfaVerify,
+  ZMfaConfirm,
+  ZMfaCodeBody,
 } from './domain/schemas';
 
 export type {
@@ -28,6 +32,9 @@ export type {
   TokenExchange,
   PhoneStart,
   PhoneVerify,
+  MfaVerify,
+  MfaConfirm,
+  MfaCodeBody,
 } from './domain/schemas';
 
 // Domain types (browser-safe)
@@ -46,6 +53,9 @@ export {
   PhoneVerificationExpiredError,
   PhoneVerificationInvalidError,
   PasswordTooWeakError,
+  MfaRequiredError,
+  MfaCodeInvalidError,
+  MfaChallengeExpiredError,
 } from './domain/errors';
 
 // Constants (browser-safe)
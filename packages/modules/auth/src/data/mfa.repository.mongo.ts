@@ -0,0 +1,137 @@
+import {
+  col,
+  COLLECTIONS,
+  decryptField,
+  encryptField,
+  getEnv,
+  parseEncryptionKey,
+  UpdateBuilder,
+  toMongoUpdate,
+  type WithId,
+  type Filter,
+  type UpdateFilter,
+} from '@unisane/kernel';
+import type { ObjectId } from 'mongodb';
+import type { MfaEnrollmentView, MfaStatus } from '../domain/types';
+import type { AuthMfaRepoPort } from '../domain/ports';
+
+type AuthMfaDoc = {
+  _id?: string | ObjectId;
+  userId: string;
+  status: MfaStatus;
+  /** Base32 TOTP secret, AES-256-GCM encrypted when `secretEncrypted` */
+  secret: string;
+  secretEncrypted: boolean;
+  recoveryCodeHashes: string[];
+  lastUsedStep: number | null;
+  enabledAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+const mfaCol = () => col<AuthMfaDoc>(COLLECTIONS.AUTH_MFA);
+
+/**
+ * TOTP secrets are encrypted with DATA_ENCRYPTION_KEY when it is configured,
+ * like identity PII. Without it they are stored as-is (development).
+ */
+function getEncryptionKey(): Buffer | null {
+  const keyBase64 = getEnv().DATA_ENCRYPTION_KEY;
+  return keyBase64 ? parseEncryptionKey(keyBase64) : null;
+}
+
+function mapDocToView(doc: WithId<AuthMfaDoc>): MfaEnrollmentView {
+  let secret = doc.secret;
+  if (doc.secretEncrypted) {
+    const key = getEncryptionKey();
+    if (!key) throw new Error('DATA_ENCRYPTION_KEY is required to read MFA secrets');
+    secret = decryptField(doc.secret, key);
+  }
+  return {
+    userId: doc.userId,
+    status: doc.status,
+    secret,
+    recoveryCodeHashes: doc.recoveryCodeHashes ?? [],
+    lastUsedStep: doc.lastUsedStep ?? null,
+    enabledAt: doc.enabledAt ?? null,
+  };
+}
+
+export const AuthMfaRepoMongo: AuthMfaRepoPort = {
+  async findByUserId(userId) {
+    const doc = await mfaCol().findOne({ userId });
+    return doc ? mapDocToView(doc) : null;
+  },
+  async upsertPending(userId, secret) {
+    const now = new Date();
+    const key = getEncryptionKey();
+    const existing = await mfaCol().findOne({ userId });
+    if (existing?.status === 'enabled') return null;
+
+    const builder = new UpdateBuilder<AuthMfaDoc>()
+      .set('status', 'pending')
+      .set('secret', key ? encryptField(secret, key) : secret)
+      .set('secretEncrypted', Boolean(key))
+      .set('recoveryCodeHashes', [])
+      .set('lastUsedStep', null)
+      .set('enabledAt', null)
+      .set('updatedAt', now)
+      .setOnInsert('createdAt', now);
+    // The status filter keeps a concurrent confirm from being overwritten
+    const doc = await mfaCol().findOneAndUpdate(
+      { userId, status: { $ne: 'enabled' } } as Filter<AuthMfaDoc>,
+      toMongoUpdate(builder.build()) as UpdateFilter<AuthMfaDoc>,
+      { upsert: !existing, returnDocument: 'after' }
+    );
+    return doc ? mapDocToView(doc as WithId<AuthMfaDoc>) : null;
+  },
+  async enable(userId, input) {
+    const now = new Date();
+    const builder = new UpdateBuilder<AuthMfaDoc>()
+      .set('status', 'enabled')
+      .set('recoveryCodeHashes', input.recoveryCodeHashes)
+      .set('lastUsedStep', input.lastUsedStep)
+      .set('enabledAt', now)
+      .set('updatedAt', now);
+    const res = await mfaCol().updateOne(
+      { userId, status: 'pending' } as Filter<AuthMfaDoc>,
+      toMongoUpdate(builder.build()) as UpdateFilter<AuthMfaDoc>
+    );
+    return res.modifiedCount === 1;
+  },
+  async disable(userId) {
+    const res = await mfaCol().deleteOne({ userId });
+    return { deleted: res.deletedCount === 1 };
+  },
+  async recordUsedStep(userId, step) {
+    const res = await mfaCol().updateOne(
+      {
+        userId,
+        $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+      } as Filter<AuthMfaDoc>,
+      { $set: { lastUsedStep: step, updatedAt: new Date() } } as UpdateFilter<AuthMfaDoc>
+    );
+    return res.modifiedCount === 1;
+  },
+  async consumeRecoveryCode(userId, hash) {
+    const doc = await mfaCol().findOneAndUpdate(
+      { userId, status: 'enabled', recoveryCodeHashes: hash } as Filter<AuthMfaDoc>,
+      {
+        $pull: { recoveryCodeHashes: hash },
+        $set: { updatedAt: new Date() },
+      } as UpdateFilter<AuthMfaDoc>,
+      { returnDocument: 'after' }
+    );
+    const updated = doc as WithId<AuthMfaDoc> | null;
+    return updated ? { remaining: updated.recoveryCodeHashes.length } : null;
+  },
+  async replaceRecoveryCodes(userId, hashes) {
+    const builder = new UpdateBuilder<AuthMfaDoc>()
+      .set('recoveryCodeHashes', hashes)
+      .set('updatedAt', new Date());
+    await mfaCol().updateOne(
+      { userId, status: 'enabled' } as Filter<AuthMfaDoc>,
+      toMongoUpdate(builder.build()) as UpdateFilter<AuthMfaDoc>
+    );
+  },
+};
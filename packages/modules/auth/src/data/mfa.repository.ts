@@ -0,0 +1,5 @@
+import type { AuthMfaRepoPort } from '../domain/ports';
+import { selectRepo } from '@unisane/kernel';
+import { AuthMfaRepoMongo } from './mfa.repository.mongo';
+
+export const AuthMfaRepo = selectRepo<AuthMfaRepoPort>({ mongo: AuthMfaRepoMongo });
@@ -16,6 +16,9 @@ export const AUTH_EVENTS = {
   PHONE_VERIFICATION_STARTED: 'auth.phone.started',
   PHONE_VERIFIED: 'auth.phone.verified',
   ACCOUNT_LOCKED: 'auth.account.locked',
+  MFA_ENROLLED: 'auth.mfa.enrolled',
+  MFA_DISABLED: 'auth.mfa.disabled',
+  MFA_RECOVERY_CODE_USED: 'auth.mfa.recovered',
 } as const;
 
 export const AUTH_DEFAULTS = {
@@ -29,8 +32,12 @@ export const AUTH_DEFAULTS = {
   LOCKOUT_DURATION_SEC: 900,
   SESSION_EXPIRY_SEC: 86400 * 7,
   CSRF_TOKEN_LENGTH: 32,
+  MFA_CHALLENGE_EXPIRY_SEC: 300,
+  MFA_CHALLENGE_MAX_ATTEMPTS: 5,
+  MFA_RECOVERY_CODE_COUNT: 10,
 } as const;
 
 export const AUTH_COLLECTIONS = {
   CREDENTIALS: 'auth_credentials',
+  MFA: 'auth_mfa',
 } as const;
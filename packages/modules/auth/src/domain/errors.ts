@@ -139,6 +139,30 @@ export class MfaRequiredError extends DomainError {
   }
 }
 
+export class MfaCodeInvalidError extends DomainError {
+  readonly code = ErrorCode.INVALID_MFA_CODE;
+  readonly status = 401;
+
+  constructor() {
+    super('Invalid verification code');
+    this.name = 'MfaCodeInvalidError';
+  }
+}
+
+/**
+ * Thrown when an MFA challenge token is unknown, expired or has run out of
+ * attempts. The user has to sign in again.
+ */
+export class MfaChallengeExpiredError extends DomainError {
+  readonly code = ErrorCode.INVALID_TOKEN;
+  readonly status = 401;
+
+  constructor() {
+    super('Verification expired. Sign in again');
+    this.name = 'MfaChallengeExpiredError';
+  }
+}
+
 export class OAuthError extends DomainError {
   readonly code = ErrorCode.OAUTH_ERROR;
   readonly status = 401;
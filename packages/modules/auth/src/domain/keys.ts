@@ -22,6 +22,10 @@ export const authKeys = {
 
   failedLoginAttempts: (emailNorm: string) =>
     `auth:failed:${emailNorm}` as const,
+
+  mfaChallenge: (tokenHash: string) => `auth:mfa:challenge:${tokenHash}` as const,
+
+  mfaAttempts: (tokenHash: string) => `auth:mfa:attempts:${tokenHash}` as const,
 } as const;
 
 export type AuthKeyBuilder = typeof authKeys;
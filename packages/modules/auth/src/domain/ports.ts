@@ -1,4 +1,4 @@
-import type { AuthCredentialView } from './types';
+import type { AuthCredentialView, MfaEnrollmentView } from './types';
 
 export interface AuthCredentialRepoPort {
   findByEmailNorm(emailNorm: string): Promise<AuthCredentialView | null>;
@@ -8,3 +8,17 @@ export interface AuthCredentialRepoPort {
   resetFailedAttempts(credId: string): Promise<void>;
 }
 
+
+export interface AuthMfaRepoPort {
+  findByUserId(userId: string): Promise<MfaEnrollmentView | null>;
+  /** Start (or restart) enrollment with a new secret. Returns null when MFA is already enabled. */
+  upsertPending(userId: string, secret: string): Promise<MfaEnrollmentView | null>;
+  /** Activate a pending enrollment. Returns false unless it was pending. */
+  enable(userId: string, input: { recoveryCodeHashes: string[]; lastUsedStep: number }): Promise<boolean>;
+  disable(userId: string): Promise<{ deleted: boolean }>;
+  /** Record a used TOTP step. Returns false if that step (or a later one) was already used. */
+  recordUsedStep(userId: string, step: number): Promise<boolean>;
+  /** Atomically remove a recovery code. Returns the number left, or null if the code was not found. */
+  consumeRecoveryCode(userId: string, hash: string): Promise<{ remaining: number } | null>;
+  replaceRecoveryCodes(userId: string, hashes: string[]): Promise<void>;
+}
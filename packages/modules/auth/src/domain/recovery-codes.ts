@@ -0,0 +1,32 @@
+/**
+ * MFA Recovery Codes
+ *
+ * One-time codes a user keeps offline to sign in without their authenticator.
+ * Codes look like `k7m2q-x9p4d`; only their SHA-256 hashes are stored. Input
+ * is normalized (case, spaces, dashes) before hashing so codes can be typed
+ * loosely.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { sha256Hex } from '@unisane/kernel';
+import { base32Encode } from './totp';
+
+export function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return sha256Hex(normalizeRecoveryCode(code));
+}
+
+/** Whether the input looks like a recovery code rather than a TOTP code */
+export function isRecoveryCodeFormat(code: string): boolean {
+  return /^[a-z2-7]{10}$/.test(normalizeRecoveryCode(code));
+}
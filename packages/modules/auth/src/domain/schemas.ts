@@ -13,6 +13,8 @@ export const ZPasswordSignup = z.object({
   phone: ZPhoneE164String.optional(),
   locale: ZLocale.default(DEFAULT_LOCALE),
   timezone: z.string().trim().optional(),
+  // Token from a tenant invitation link; the new account joins that tenant
+  inviteToken: z.string().min(1).max(512).optional(),
 });
 
 /**
@@ -60,6 +62,20 @@ export const ZTokenExchange = z.object({
 export const ZPhoneStart = z.object({ phone: ZPhoneE164String });
 export const ZPhoneVerify = z.object({ phone: ZPhoneE164String, code: z.string().min(4).max(8) });
 
+/** A 6-digit TOTP code or a recovery code (`xxxxx-xxxxx`) */
+export const ZMfaCode = z.string().trim().min(6).max(16);
+
+export const ZMfaVerify = z.object({
+  challengeToken: z.string().min(16).max(128),
+  code: ZMfaCode,
+});
+
+export const ZMfaConfirm = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+export const ZMfaCodeBody = z.object({ code: ZMfaCode });
+
 export type PasswordSignup = z.infer<typeof ZPasswordSignup>;
 export type PasswordSignin = z.infer<typeof ZPasswordSignin>;
 export type OtpStart = z.infer<typeof ZOtpStart>;
@@ -69,3 +85,6 @@ export type ResetVerify = z.infer<typeof ZResetVerify>;
 export type TokenExchange = z.infer<typeof ZTokenExchange>;
 export type PhoneStart = z.infer<typeof ZPhoneStart>;
 export type PhoneVerify = z.infer<typeof ZPhoneVerify>;
+export type MfaVerify = z.infer<typeof ZMfaVerify>;
+export type MfaConfirm = z.infer<typeof ZMfaConfirm>;
+export type MfaCodeBody = z.infer<typeof ZMfaCodeBody>;
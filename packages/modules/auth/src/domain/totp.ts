@@ -0,0 +1,102 @@
+/**
+ * TOTP (RFC 6238)
+ *
+ * Time-based one-time passwords as produced by authenticator apps:
+ * HMAC-SHA1 over 30-second time steps, 6 digits, base32 secrets. Verification
+ * accepts one step of clock drift either side and returns the matched step so
+ * callers can refuse to accept the same code twice.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SEC = 30;
+export const TOTP_DIGITS = 6;
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error(`Invalid base32 character: ${ch}`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** New random 160-bit secret, base32-encoded */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** Time step for a timestamp */
+export function totpStep(nowMs = Date.now()): number {
+  return Math.floor(nowMs / 1000 / TOTP_PERIOD_SEC);
+}
+
+/** The code for a given time step (HOTP, RFC 4226) */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step the code matches, or null. Checks `window` steps either side
+ * of now to tolerate clock drift between server and device.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  opts: { nowMs?: number; window?: number } = {}
+): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null;
+  const current = totpStep(opts.nowMs);
+  const window = opts.window ?? 1;
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = Buffer.from(totpCode(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(candidate))) return step;
+  }
+  return null;
+}
+
+/** `otpauth://` URI that authenticator apps import from a QR code */
+export function buildOtpauthUri(args: { secret: string; account: string; issuer: string }): string {
+  const label = encodeURIComponent(`${args.issuer}:${args.account}`);
+  const params = new URLSearchParams({
+    secret: args.secret,
+    issuer: args.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SEC),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -12,3 +12,22 @@ export type AuthCredentialView = {
   failedLogins?: number;
   lockedUntil?: Date | null;
 };
+
+export type MfaStatus = 'pending' | 'enabled';
+
+/** A user's MFA enrollment; `secret` is the decrypted base32 TOTP secret */
+export type MfaEnrollmentView = {
+  userId: string;
+  status: MfaStatus;
+  secret: string;
+  recoveryCodeHashes: string[];
+  lastUsedStep: number | null;
+  enabledAt: Date | null;
+};
+
+/** Returned by sign-in instead of a session when the user has MFA enabled */
+export type MfaChallenge = {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+};
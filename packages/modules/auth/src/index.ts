@@ -1,6 +1,6 @@
 /**
  * @module @unisane/auth
- * @description Authentication flows: password, OTP, password reset, phone verification
+ * @description Authentication flows: password, OTP, MFA, password reset, phone verification
  * @layer 3
  */
 
@@ -27,6 +27,9 @@ export {
   PhoneVerificationExpiredError,
   PhoneVerificationInvalidError,
   PasswordTooWeakError,
+  MfaRequiredError,
+  MfaCodeInvalidError,
+  MfaChallengeExpiredError,
 } from './domain/errors';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -62,6 +65,14 @@ export * from './service/otpVerify';
 export * from './service/otpStartFactory';
 export * from './service/otpVerifyFactory';
 
+// ════════════════════════════════════════════════════════════════════════════
+// Services - MFA (TOTP + recovery codes)
+// ════════════════════════════════════════════════════════════════════════════
+
+export * from './service/mfa';
+export * from './service/mfaVerifyFactory';
+export { buildOtpauthUri, generateTotpSecret, totpCode, totpStep, verifyTotp } from './domain/totp';
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services - Password Reset
 // ════════════════════════════════════════════════════════════════════════════
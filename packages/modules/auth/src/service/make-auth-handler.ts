@@ -3,14 +3,17 @@ import { getEnv } from "@unisane/kernel";
 import { ERR } from "@unisane/gateway";
 import { signJwtRS256 } from "@unisane/gateway";
 import { buildAccessTokenCookie } from "@unisane/gateway";
+import { startMfaChallenge } from "./mfa";
 
-type AuthHandlerOpts<TBody, TResult extends { userId: string }> = {
+type AuthHandlerOpts<TBody, TResult extends { userId: string; amr?: string[] }> = {
   /** Check if this auth method is enabled (e.g. AUTH_PASSWORD_ENABLED) */
   checkEnabled?: () => boolean;
   /** Error message if disabled */
   disabledMessage?: string;
-  /** Core auth logic that returns userId */
+  /** Core auth logic that returns userId (and `amr` when it verified a second factor) */
   handler: (body: TBody) => Promise<TResult>;
+  /** Return an MFA challenge instead of a session for users with MFA enabled */
+  mfa?: boolean;
   /** JWT expiration in seconds (default: 3600) */
   tokenExpSec?: number;
   /** Cookie max age in seconds (default: 3600) */
@@ -34,8 +37,9 @@ type AuthHandlerArgs<TBody> = {
  * - Cookie setting
  * - Standard response format
  * - Optional token return in body (when ?return=token)
+ * - MFA challenge in place of the session when `mfa` is set
  */
-export function makeAuthHandler<TBody, TResult extends { userId: string }>(
+export function makeAuthHandler<TBody, TResult extends { userId: string; amr?: string[] }>(
   opts: AuthHandlerOpts<TBody, TResult>
 ) {
   return async function authHandler(args: AuthHandlerArgs<TBody>): Promise<Response> {
@@ -53,9 +57,21 @@ export function makeAuthHandler<TBody, TResult extends { userId: string }>(
     // Execute core auth logic
     const result = await opts.handler(args.body);
 
+    // Second factor pending: no session until the challenge is verified
+    if (opts.mfa) {
+      const challenge = await startMfaChallenge(result.userId);
+      if (challenge) {
+        return new Response(JSON.stringify({ ok: true, ...challenge }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        });
+      }
+    }
+
     // Sign JWT and build cookie
     const expSec = opts.tokenExpSec ?? getEnv().JWT_ACCESS_TTL_SEC;
-    const token = signJwtRS256({ sub: result.userId }, JWT_PRIVATE_KEY, { expSec });
+    const claims = { sub: result.userId, ...(result.amr ? { amr: result.amr } : {}) };
+    const token = signJwtRS256(claims, JWT_PRIVATE_KEY, { expSec });
     const cookie = buildAccessTokenCookie(token, { maxAgeSec: opts.cookieMaxAgeSec ?? expSec });
 
     // Build response body
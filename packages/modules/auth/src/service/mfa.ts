@@ -0,0 +1,203 @@
+/**
+ * Multi-Factor Authentication
+ *
+ * Users enroll an authenticator app (TOTP) and receive one-time recovery
+ * codes. Once enabled, session-issuing flows return a short-lived challenge
+ * token instead of a session; `mfaVerify` exchanges it plus a TOTP or
+ * recovery code for a session marked `amr: ["mfa"]`. Tenants can require
+ * such sessions for their members (`auth.requireMfa`), which the gateway
+ * guard enforces.
+ */
+
+import {
+  connectDb,
+  emitTypedReliable,
+  getAuthIdentityProvider,
+  getTypedSetting,
+  kv,
+  randomToken,
+  sha256Hex,
+} from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { AuthMfaRepo } from '../data/mfa.repository';
+import { AUTH_DEFAULTS } from '../domain/constants';
+import { MfaChallengeExpiredError, MfaCodeInvalidError } from '../domain/errors';
+import { authKeys } from '../domain/keys';
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+} from '../domain/recovery-codes';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../domain/totp';
+import type { MfaChallenge, MfaEnrollmentView } from '../domain/types';
+
+type StoredChallenge = { userId: string; expiresAt: number };
+
+/**
+ * Check a TOTP or recovery code against an enabled enrollment. TOTP steps
+ * and recovery codes are single-use.
+ */
+async function checkSecondFactor(enrollment: MfaEnrollmentView, code: string): Promise<boolean> {
+  const { userId } = enrollment;
+  if (isRecoveryCodeFormat(code)) {
+    const res = await AuthMfaRepo.consumeRecoveryCode(userId, hashRecoveryCode(code));
+    if (!res) return false;
+    await emitTypedReliable('auth.mfa.recovered', { userId, remaining: res.remaining });
+    return true;
+  }
+  const step = verifyTotp(enrollment.secret, code);
+  if (step === null) return false;
+  return AuthMfaRepo.recordUsedStep(userId, step);
+}
+
+async function getEnabledEnrollment(userId: string): Promise<MfaEnrollmentView> {
+  const enrollment = await AuthMfaRepo.findByUserId(userId);
+  if (!enrollment || enrollment.status !== 'enabled') throw ERR.validation('MFA is not enabled');
+  return enrollment;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Sign-in challenge
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Issue a challenge when the user has MFA enabled, or null when a session can
+ * be issued right away.
+ */
+export async function startMfaChallenge(userId: string): Promise<MfaChallenge | null> {
+  const enrollment = await AuthMfaRepo.findByUserId(userId);
+  if (!enrollment || enrollment.status !== 'enabled') return null;
+
+  const challengeToken = randomToken(32);
+  const ttlMs = AUTH_DEFAULTS.MFA_CHALLENGE_EXPIRY_SEC * 1000;
+  const stored: StoredChallenge = { userId, expiresAt: Date.now() + ttlMs };
+  await kv.set(authKeys.mfaChallenge(sha256Hex(challengeToken)), JSON.stringify(stored), { PX: ttlMs });
+  return { mfaRequired: true, challengeToken, expiresAt: new Date(stored.expiresAt).toISOString() };
+}
+
+/**
+ * Complete sign-in with the challenge token and a TOTP or recovery code.
+ * A challenge allows `MFA_CHALLENGE_MAX_ATTEMPTS` codes; each attempt is
+ * counted atomically before the code is checked, so parallel guesses cannot
+ * exceed the limit.
+ */
+export async function mfaVerify(input: { challengeToken: string; code: string }): Promise<{ userId: string; amr: string[] }> {
+  await connectDb();
+  const tokenHash = sha256Hex(input.challengeToken);
+  const key = authKeys.mfaChallenge(tokenHash);
+  const attemptsKey = authKeys.mfaAttempts(tokenHash);
+  const raw = await kv.get(key);
+  if (!raw) throw new MfaChallengeExpiredError();
+  const challenge = JSON.parse(raw) as StoredChallenge;
+
+  const ttlMs = challenge.expiresAt - Date.now();
+  const attempts = ttlMs > 0 ? await kv.incrBy(attemptsKey, 1, ttlMs) : Infinity;
+  if (attempts > AUTH_DEFAULTS.MFA_CHALLENGE_MAX_ATTEMPTS) {
+    await Promise.all([kv.del(key), kv.del(attemptsKey)]);
+    throw new MfaChallengeExpiredError();
+  }
+
+  const enrollment = await AuthMfaRepo.findByUserId(challenge.userId);
+  if (!enrollment || enrollment.status !== 'enabled') {
+    await Promise.all([kv.del(key), kv.del(attemptsKey)]);
+    throw new MfaChallengeExpiredError();
+  }
+
+  if (!(await checkSecondFactor(enrollment, input.code))) {
+    if (attempts >= AUTH_DEFAULTS.MFA_CHALLENGE_MAX_ATTEMPTS) {
+      await Promise.all([kv.del(key), kv.del(attemptsKey)]);
+    }
+    throw new MfaCodeInvalidError();
+  }
+
+  await Promise.all([kv.del(key), kv.del(attemptsKey)]);
+  return { userId: challenge.userId, amr: ['mfa'] };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Enrollment
+// ════════════════════════════════════════════════════════════════════════════
+
+export async function getMfaStatus(args: { userId: string }) {
+  await connectDb();
+  const enrollment = await AuthMfaRepo.findByUserId(args.userId);
+  const enabled = enrollment?.status === 'enabled';
+  return {
+    enabled,
+    enabledAt: enabled ? enrollment.enabledAt : null,
+    recoveryCodesRemaining: enabled ? enrollment.recoveryCodeHashes.length : 0,
+  } as const;
+}
+
+/**
+ * Generate a new TOTP secret for the user. MFA stays off until the user
+ * confirms a code from their app; starting again replaces the secret.
+ */
+export async function mfaEnrollStart(args: { userId: string }) {
+  await connectDb();
+  const secret = generateTotpSecret();
+  const enrollment = await AuthMfaRepo.upsertPending(args.userId, secret);
+  if (!enrollment) throw ERR.validation('MFA is already enabled');
+
+  const user = await getAuthIdentityProvider().findUserById(args.userId);
+  const { value: issuer } = await getTypedSetting<string>({ scopeId: null, ns: 'auth', key: 'mfaIssuer' });
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri({ secret, account: user?.emailNorm ?? args.userId, issuer }),
+  } as const;
+}
+
+/**
+ * Turn MFA on with a code from the authenticator app. Returns the recovery
+ * codes; they are only shown this once.
+ */
+export async function mfaEnrollConfirm(args: { userId: string; code: string }) {
+  await connectDb();
+  const enrollment = await AuthMfaRepo.findByUserId(args.userId);
+  if (!enrollment || enrollment.status !== 'pending') throw ERR.validation('Start MFA enrollment first');
+
+  const step = verifyTotp(enrollment.secret, args.code);
+  if (step === null) throw new MfaCodeInvalidError();
+
+  const recoveryCodes = generateRecoveryCodes(AUTH_DEFAULTS.MFA_RECOVERY_CODE_COUNT);
+  const enabled = await AuthMfaRepo.enable(args.userId, {
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+  });
+  if (!enabled) throw ERR.validation('MFA is already enabled');
+
+  await emitTypedReliable('auth.mfa.enrolled', { userId: args.userId, method: 'totp' });
+  return { recoveryCodes } as const;
+}
+
+/** Turn MFA off. Requires a current TOTP or recovery code. */
+export async function mfaDisable(args: { userId: string; code: string }) {
+  await connectDb();
+  const enrollment = await getEnabledEnrollment(args.userId);
+  if (!(await checkSecondFactor(enrollment, args.code))) throw new MfaCodeInvalidError();
+
+  await AuthMfaRepo.disable(args.userId);
+  await emitTypedReliable('auth.mfa.disabled', { userId: args.userId });
+  return { ok: true as const };
+}
+
+/** Replace all recovery codes. Requires a current TOTP or recovery code. */
+export async function mfaRegenerateRecoveryCodes(args: { userId: string; code: string }) {
+  await connectDb();
+  const enrollment = await getEnabledEnrollment(args.userId);
+  if (!(await checkSecondFactor(enrollment, args.code))) throw new MfaCodeInvalidError();
+
+  const recoveryCodes = generateRecoveryCodes(AUTH_DEFAULTS.MFA_RECOVERY_CODE_COUNT);
+  await AuthMfaRepo.replaceRecoveryCodes(args.userId, recoveryCodes.map(hashRecoveryCode));
+  return { recoveryCodes } as const;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Tenant policy
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Whether the tenant requires its members to sign in with MFA (`auth.requireMfa`) */
+export async function isMfaRequiredForTenant(tenantId: string): Promise<boolean> {
+  const { value } = await getTypedSetting<boolean>({ scopeId: tenantId, ns: 'auth', key: 'requireMfa' });
+  return value === true;
+}
@@ -0,0 +1,6 @@
+import { mfaVerify } from "./mfa";
+import { makeAuthHandler } from "./make-auth-handler";
+
+export const mfaVerifyFactory = makeAuthHandler({
+  handler: mfaVerify,
+});
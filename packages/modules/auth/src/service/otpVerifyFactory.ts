@@ -3,4 +3,5 @@ import { makeAuthHandler } from "./make-auth-handler";
 
 export const otpVerifyFactory = makeAuthHandler({
   handler: otpVerify,
+  mfa: true,
 });
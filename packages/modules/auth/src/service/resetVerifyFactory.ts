@@ -3,4 +3,5 @@ import { makeAuthHandler } from "./make-auth-handler";
 
 export const resetVerifyFactory = makeAuthHandler({
   handler: resetVerify,
+  mfa: true,
 });
@@ -6,4 +6,5 @@ export const signinFactory = makeAuthHandler({
   checkEnabled: () => getEnv().AUTH_PASSWORD_ENABLED ?? false,
   disabledMessage: "Password auth disabled",
   handler: signin,
+  mfa: true,
 });
@@ -28,7 +28,28 @@ async function releaseSignupLock(emailNorm: string): Promise<void> {
   await redis.del(lockKey);
 }
 
-export async function signup(input: { email: string; password: string; displayName?: string; username?: string; firstName?: string; lastName?: string; phone?: string; locale?: string; timezone?: string }): Promise<{ userId: string }> {
+/**
+ * Join the tenant the user was invited to. The account already exists at this
+ * point, so a stale or mismatched invitation must not fail the signup.
+ */
+async function acceptInvitation(token: string | undefined, userId: string): Promise<void> {
+  if (!token) return;
+  const identity = getAuthIdentityProvider();
+  if (!identity.acceptInvitation) {
+    logger.warn('Signup invite token ignored: identity provider does not support invitations', { userId });
+    return;
+  }
+  try {
+    await identity.acceptInvitation({ token, userId });
+  } catch (error) {
+    logger.warn('Signup invitation could not be accepted', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function signup(input: { email: string; password: string; displayName?: string; username?: string; firstName?: string; lastName?: string; phone?: string; locale?: string; timezone?: string; inviteToken?: string }): Promise<{ userId: string }> {
   await connectDb();
   const identity = getAuthIdentityProvider();
   const emailNorm = Email.create(input.email).toString();
@@ -81,6 +102,7 @@ export async function signup(input: { email: string; password: string; displayNa
         salt: saltB64,
         hash: hashB64,
       });
+      await acceptInvitation(input.inviteToken, userId);
       return { userId };
     }
 
@@ -99,6 +121,7 @@ export async function signup(input: { email: string; password: string; displayNa
       salt: saltB64,
       hash: hashB64,
     });
+    await acceptInvitation(input.inviteToken, userId);
     return { userId };
   } finally {
     // M-009 FIX: Always release the lock
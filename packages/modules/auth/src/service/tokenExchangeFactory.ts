@@ -16,6 +16,7 @@ export const tokenExchangeFactory = makeAuthHandler<TokenExchangeBody, { userId:
     if (!JWT_PRIVATE_KEY) throw ERR.misconfigured('JWT_PRIVATE_KEY not configured');
     return exchange({ provider: body.provider, token: body.token });
   },
+  mfa: true,
   // Use dynamic config for TTLs
   tokenExpSec: getAuthConfig().accessTokenTtlSec,
   cookieMaxAgeSec: getAuthConfig().cookieAccessTtlSec,
@@ -0,0 +1,445 @@
+/**
+ * Coupon Tests
+ *
+ * Tests for discount math, promotion code redemption limits, checkout
+ * reservations and how subscribe applies discounts to provider checkouts
+ * and internal invoices, against an in-memory coupons repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { BillingProviderAdapter } from '@unisane/kernel';
+import type {
+  Coupon,
+  CouponInput,
+  CouponRedemption,
+  CouponRedemptionInput,
+  PromotionCode,
+  PromotionCodeInput,
+} from '../domain/types';
+
+const coupons: Coupon[] = [];
+const codes: PromotionCode[] = [];
+const redemptions: CouponRedemption[] = [];
+const invoices: Array<Record<string, unknown>> = [];
+let provider: Partial<BillingProviderAdapter> & { name: string };
+let seq = 0;
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getTypedSetting: vi.fn(async () => ({ value: null })),
+    getBillingProvider: vi.fn(() => provider),
+    getEnv: vi.fn(() => ({ BILLING_PROVIDER: provider.name })),
+    mapPlanIdForProvider: vi.fn((planId: string) => `price_${planId}`),
+  };
+});
+
+vi.mock('../data/coupons.repository', () => {
+  const below = (r: { maxRedemptions?: number; timesRedeemed: number }) =>
+    r.maxRedemptions === undefined || r.timesRedeemed < r.maxRedemptions;
+  return {
+    CouponsRepository: {
+      insertCoupon: vi.fn(async (input: CouponInput) => {
+        const coupon: Coupon = { ...input, id: `coupon_${++seq}`, timesRedeemed: 0, createdAt: new Date(), archivedAt: null };
+        coupons.push(coupon);
+        return coupon;
+      }),
+      findCouponById: vi.fn(async (id: string) => coupons.find((c) => c.id === id) ?? null),
+      listCoupons: vi.fn(async () => coupons),
+      archiveCoupon: vi.fn(async (id: string) => {
+        const coupon = coupons.find((c) => c.id === id);
+        if (coupon) coupon.archivedAt = new Date();
+        return coupon ?? null;
+      }),
+      insertPromotionCode: vi.fn(async (input: PromotionCodeInput) => {
+        if (codes.some((c) => c.code === input.code)) return { conflict: true };
+        const promotionCode: PromotionCode = {
+          ...input,
+          id: `promo_${++seq}`,
+          timesRedeemed: 0,
+          active: true,
+          createdAt: new Date(),
+        };
+        codes.push(promotionCode);
+        return { ok: true, promotionCode };
+      }),
+      findPromotionCodeByCode: vi.fn(async (code: string) => codes.find((c) => c.code === code) ?? null),
+      listPromotionCodes: vi.fn(async (couponId: string) => codes.filter((c) => c.couponId === couponId)),
+      setPromotionCodeActive: vi.fn(async (id: string, active: boolean) => {
+        const code = codes.find((c) => c.id === id);
+        if (code) code.active = active;
+        return code ?? null;
+      }),
+      findRedemption: vi.fn(
+        async (couponId: string, scopeId: string) =>
+          redemptions.find((r) => r.couponId === couponId && r.scopeId === scopeId) ?? null
+      ),
+      reserveRedemption: vi.fn(async ({ couponId, promotionCodeId }: { couponId: string; promotionCodeId: string }) => {
+        const coupon = coupons.find((c) => c.id === couponId)!;
+        const code = codes.find((c) => c.id === promotionCodeId)!;
+        if (!below(coupon) || !below(code)) return false;
+        coupon.timesRedeemed++;
+        code.timesRedeemed++;
+        return true;
+      }),
+      releaseRedemption: vi.fn(async ({ couponId, promotionCodeId }: { couponId: string; promotionCodeId: string }) => {
+        coupons.find((c) => c.id === couponId)!.timesRedeemed--;
+        codes.find((c) => c.id === promotionCodeId)!.timesRedeemed--;
+      }),
+      insertRedemption: vi.fn(async (input: CouponRedemptionInput) => {
+        const redemption: CouponRedemption = { ...input, id: `red_${++seq}`, createdAt: new Date() };
+        redemptions.push(redemption);
+        return { ok: true, redemption };
+      }),
+      confirmRedemption: vi.fn(async (couponId: string, scopeId: string) => {
+        const redemption = redemptions.find(
+          (r) => r.couponId === couponId && r.scopeId === scopeId && r.status === 'pending'
+        );
+        if (!redemption) return null;
+        Object.assign(redemption, { status: 'confirmed', expiresAt: null });
+        return redemption;
+      }),
+      extendRedemption: vi.fn(async (id: string, expiresAt: Date) => {
+        const redemption = redemptions.find((r) => r.id === id && r.status === 'pending');
+        if (redemption) redemption.expiresAt = expiresAt;
+      }),
+      deletePendingRedemption: vi.fn(async (id: string) => {
+        const i = redemptions.findIndex((r) => r.id === id && r.status === 'pending');
+        if (i >= 0) redemptions.splice(i, 1);
+        return i >= 0;
+      }),
+      listExpiredRedemptions: vi.fn(async (now: Date, limit: number) =>
+        redemptions.filter((r) => r.status === 'pending' && r.expiresAt && r.expiresAt <= now).slice(0, limit)
+      ),
+      findLatestConfirmedRedemption: vi.fn(
+        async (scopeId: string, provider: string) =>
+          redemptions.filter((r) => r.scopeId === scopeId && r.provider === provider && r.status === 'confirmed').at(-1) ??
+          null
+      ),
+    },
+  };
+});
+
+vi.mock('../data/plans.repository', () => ({
+  PlanCatalogRepository: { findLatest: vi.fn(async () => null), findVersion: vi.fn(async () => null) },
+}));
+
+vi.mock('../data/invoices.repository', () => ({
+  InvoicesRepository: {
+    upsertByProviderId: vi.fn(async (args: Record<string, unknown>) => {
+      invoices.push(args);
+    }),
+  },
+}));
+vi.mock('../data/payments.repository', () => ({ PaymentsRepository: {} }));
+
+import { Money, PLAN_DEFS } from '@unisane/kernel';
+import { coversPeriod, discountAmount } from '../domain/discounts';
+import { buildSubscriptionInvoice, issueUsageInvoice } from '../service/internal-invoices';
+import {
+  confirmCouponRedemption,
+  createCoupon,
+  createPromotionCode,
+  findUsageInvoiceCoupon,
+  previewPromotionCode,
+  releaseExpiredRedemptions,
+} from '../service/coupons';
+import { subscribe } from '../service/subscribe';
+import type { CouponCreate } from '../domain/schemas';
+
+const checkoutArgs = (scopeId: string, promotionCode?: string) => ({
+  scopeId,
+  planId: 'pro',
+  successUrl: 'https://a.test/ok',
+  cancelUrl: 'https://a.test/no',
+  ...(promotionCode ? { promotionCode } : {}),
+});
+
+async function couponWithCode(input: Partial<CouponCreate> = {}, code = 'SPRING25', maxRedemptions?: number) {
+  const coupon = await createCoupon({
+    input: { name: 'Spring sale', discount: { type: 'percent', percentOff: 25 }, duration: 'once', ...input },
+  });
+  await createPromotionCode({ couponId: coupon.id, input: { code, ...(maxRedemptions ? { maxRedemptions } : {}) } });
+  return coupon;
+}
+
+beforeEach(() => {
+  coupons.length = 0;
+  codes.length = 0;
+  redemptions.length = 0;
+  invoices.length = 0;
+  provider = {
+    name: 'stripe',
+    createCheckout: vi.fn(async () => ({ id: 'cs_1', url: 'https://checkout.test/cs_1' })),
+  };
+});
+
+describe('discountAmount', () => {
+  it('should take a percentage off', () => {
+    const off = discountAmount(Money.fromMajor(29, 'USD'), { type: 'percent', percentOff: 25 });
+
+    expect(off.toMajor()).toBe(7.25);
+  });
+
+  it('should cap a fixed discount at the price', () => {
+    const off = discountAmount(Money.fromMajor(29, 'USD'), {
+      type: 'fixed',
+      amountOff: { amount: 50, currency: 'usd' },
+    });
+
+    expect(off.toMajor()).toBe(29);
+  });
+
+  it('should reject a fixed discount in another currency', () => {
+    expect(() =>
+      discountAmount(Money.fromMajor(29, 'USD'), { type: 'fixed', amountOff: { amount: 5, currency: 'EUR' } })
+    ).toThrow(/Currency mismatch/);
+  });
+});
+
+describe('coversPeriod', () => {
+  it('should cover only the first period for once', () => {
+    expect(coversPeriod({ duration: 'once' }, 0, 'month')).toBe(true);
+    expect(coversPeriod({ duration: 'once' }, 1, 'month')).toBe(false);
+  });
+
+  it('should cover periods that start within the repeating months', () => {
+    const coupon = { duration: 'repeating' as const, durationInMonths: 3 };
+
+    expect([0, 1, 2, 3].map((p) => coversPeriod(coupon, p, 'month'))).toEqual([true, true, true, false]);
+    expect([0, 1].map((p) => coversPeriod(coupon, p, 'year'))).toEqual([true, false]);
+  });
+});
+
+describe('buildSubscriptionInvoice', () => {
+  const plan = { ...PLAN_DEFS.pro, planId: 'pro' as const, version: 1, createdAt: new Date(), archivedAt: null };
+
+  it('should add a negative discount line', async () => {
+    const coupon = await couponWithCode();
+
+    const invoice = buildSubscriptionInvoice({ plan, quantity: 2, coupon });
+
+    const subtotal = PLAN_DEFS.pro.defaultPrice!.amount * 2;
+    expect(invoice.lineItems).toHaveLength(2);
+    expect(invoice.lineItems[1]).toMatchObject({ description: 'Discount: Spring sale', amount: -subtotal * 0.25 });
+    expect(invoice.amount).toBe(subtotal * 0.75);
+    expect(invoice.status).toBe('open');
+  });
+
+  it('should not discount periods past the coupon duration', async () => {
+    const coupon = await couponWithCode();
+
+    const invoice = buildSubscriptionInvoice({ plan, quantity: 1, coupon, period: 1 });
+
+    expect(invoice.lineItems).toHaveLength(1);
+    expect(invoice.amount).toBe(PLAN_DEFS.pro.defaultPrice!.amount);
+  });
+
+  it('should mark a fully discounted invoice paid', async () => {
+    const coupon = await couponWithCode({ discount: { type: 'percent', percentOff: 100 } });
+
+    const invoice = buildSubscriptionInvoice({ plan, quantity: 1, coupon });
+
+    expect(invoice).toMatchObject({ amount: 0, status: 'paid' });
+  });
+});
+
+describe('promotion codes', () => {
+  it('should preview the discount without redeeming', async () => {
+    const coupon = await couponWithCode();
+
+    const preview = await previewPromotionCode({ scopeId: 'tenant_1', code: 'spring25', planId: 'pro' });
+
+    expect(preview).toMatchObject({ code: 'SPRING25', planId: 'pro', total: PLAN_DEFS.pro.defaultPrice!.amount * 0.75 });
+    expect(coupon.timesRedeemed).toBe(0);
+  });
+
+  it('should reject codes that are expired', async () => {
+    await couponWithCode({ expiresAt: new Date(Date.now() - 1000) });
+
+    await expect(previewPromotionCode({ scopeId: 'tenant_1', code: 'SPRING25', planId: 'pro' })).rejects.toThrow(
+      /expired/
+    );
+  });
+
+  it('should reject codes for plans outside the coupon', async () => {
+    await couponWithCode({ appliesToPlans: ['business'] });
+
+    await expect(previewPromotionCode({ scopeId: 'tenant_1', code: 'SPRING25', planId: 'pro' })).rejects.toThrow(
+      /not valid for this plan/
+    );
+  });
+
+  it('should reject duplicate codes', async () => {
+    const coupon = await couponWithCode();
+
+    await expect(createPromotionCode({ couponId: coupon.id, input: { code: 'SPRING25' } })).rejects.toThrow();
+  });
+});
+
+describe('subscribe with a promotion code', () => {
+  it('should pass the discount to the provider checkout', async () => {
+    const coupon = await couponWithCode();
+
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    expect(provider.createCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({
+        discount: expect.objectContaining({ couponId: coupon.id, percentOff: 25, duration: 'once' }),
+      })
+    );
+    expect(coupon.timesRedeemed).toBe(1);
+  });
+
+  it('should enforce the redemption limit across scopes', async () => {
+    await couponWithCode({}, 'SPRING25', 1);
+
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    await expect(subscribe(checkoutArgs('tenant_2', 'SPRING25'))).rejects.toThrow(/fully redeemed/);
+  });
+
+  it('should reuse the redemption when the same scope retries checkout', async () => {
+    const coupon = await couponWithCode({}, 'SPRING25', 1);
+
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    expect(coupon.timesRedeemed).toBe(1);
+    expect(redemptions).toHaveLength(1);
+  });
+
+  it('should release the redemption when checkout fails', async () => {
+    const coupon = await couponWithCode();
+    provider.createCheckout = vi.fn(async () => {
+      throw new Error('provider down');
+    });
+
+    await expect(subscribe(checkoutArgs('tenant_1', 'SPRING25'))).rejects.toThrow('provider down');
+
+    expect(coupon.timesRedeemed).toBe(0);
+    expect(redemptions).toHaveLength(0);
+  });
+
+  it('should require a Razorpay offer for Razorpay checkouts', async () => {
+    provider.name = 'razorpay';
+    await couponWithCode();
+    await couponWithCode({ providerRefs: { razorpay: 'offer_123' } }, 'OFFER10');
+
+    await expect(subscribe(checkoutArgs('tenant_1', 'SPRING25'))).rejects.toThrow(/payment provider/);
+
+    await subscribe(checkoutArgs('tenant_1', 'OFFER10'));
+    expect(provider.createCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({ discount: expect.objectContaining({ providerRef: 'offer_123' }) })
+    );
+  });
+
+  it('should issue a discounted internal invoice without a provider', async () => {
+    provider = { name: 'noop', createCheckout: vi.fn() };
+    await couponWithCode();
+
+    const session = await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    expect(provider.createCheckout).not.toHaveBeenCalled();
+    expect(session.url).toBe('https://a.test/ok');
+    expect(invoices[0]).toMatchObject({
+      scopeId: 'tenant_1',
+      provider: 'internal',
+      amount: PLAN_DEFS.pro.defaultPrice!.amount * 0.75,
+    });
+    expect(redemptions[0]).toMatchObject({ provider: 'internal', status: 'confirmed', expiresAt: null });
+  });
+});
+
+describe('checkout reservations', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it('should hold the redemption pending until the checkout completes', async () => {
+    const coupon = await couponWithCode();
+
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    expect(redemptions[0]).toMatchObject({ status: 'pending', expiresAt: expect.any(Date) });
+    const confirmed = await confirmCouponRedemption({ scopeId: 'tenant_1', couponId: coupon.id });
+    expect(confirmed).toMatchObject({ status: 'confirmed', expiresAt: null });
+    expect(await confirmCouponRedemption({ scopeId: 'tenant_1', couponId: coupon.id })).toBeNull();
+    expect(coupon.timesRedeemed).toBe(1);
+  });
+
+  it('should release reservations of abandoned checkouts', async () => {
+    const coupon = await couponWithCode({}, 'SPRING25', 1);
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+
+    expect(await releaseExpiredRedemptions()).toEqual({ released: 0 });
+    expect(await releaseExpiredRedemptions({ now: new Date(Date.now() + DAY + 1000) })).toEqual({ released: 1 });
+
+    expect(coupon.timesRedeemed).toBe(0);
+    expect(redemptions).toHaveLength(0);
+    expect(await confirmCouponRedemption({ scopeId: 'tenant_1', couponId: coupon.id })).toBeNull();
+    await subscribe(checkoutArgs('tenant_2', 'SPRING25'));
+    expect(coupon.timesRedeemed).toBe(1);
+  });
+
+  it('should replace an expired reservation when the scope checks out again', async () => {
+    const coupon = await couponWithCode();
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+    redemptions[0]!.expiresAt = new Date(Date.now() - 1000);
+
+    await subscribe({ ...checkoutArgs('tenant_1', 'SPRING25'), planId: 'business' });
+
+    expect(redemptions).toEqual([expect.objectContaining({ planId: 'business', status: 'pending' })]);
+    expect(coupon.timesRedeemed).toBe(1);
+  });
+});
+
+describe('usage invoice discounts', () => {
+  async function redeemInternally(input: Partial<CouponCreate>, redeemedAt: Date) {
+    provider = { name: 'noop', createCheckout: vi.fn() };
+    const coupon = await couponWithCode(input);
+    await subscribe(checkoutArgs('tenant_1', 'SPRING25'));
+    redemptions[0]!.createdAt = redeemedAt;
+    return coupon;
+  }
+
+  const usageCoupon = (periodStart: string) =>
+    findUsageInvoiceCoupon({ scopeId: 'tenant_1', planId: 'pro', periodStart: new Date(periodStart), currency: 'USD' });
+
+  it('should cover usage invoices within repeating months', async () => {
+    const coupon = await redeemInternally({ duration: 'repeating', durationInMonths: 3 }, new Date('2026-03-15'));
+
+    expect(await usageCoupon('2026-02-01')).toBeNull();
+    expect(await usageCoupon('2026-03-01')).toBe(coupon);
+    expect(await usageCoupon('2026-04-01')).toBe(coupon);
+    expect(await usageCoupon('2026-05-01')).toBeNull();
+    expect(
+      await findUsageInvoiceCoupon({ scopeId: 'tenant_1', planId: 'business', periodStart: new Date('2026-03-01'), currency: 'USD' })
+    ).toBeNull();
+  });
+
+  it('should cover every usage invoice for forever and none for once', async () => {
+    const forever = await redeemInternally({ duration: 'forever' }, new Date('2026-03-15'));
+    expect(await usageCoupon('2028-01-01')).toBe(forever);
+
+    redemptions.length = 0;
+    codes.length = 0;
+    await redeemInternally({ duration: 'once' }, new Date('2026-03-15'));
+    expect(await usageCoupon('2026-03-01')).toBeNull();
+  });
+
+  it('should add the discount line to the usage invoice', async () => {
+    const coupon = await couponWithCode({ duration: 'forever' });
+
+    const invoice = await issueUsageInvoice({
+      scopeId: 'tenant_1',
+      periodStart: new Date('2026-03-01'),
+      currency: 'usd',
+      lineItems: [{ description: 'API calls', quantity: 1000, unitAmount: 0.01, amount: 10 }],
+      coupon,
+    });
+
+    expect(invoice.lineItems[1]).toMatchObject({ description: 'Discount: Spring sale', amount: -2.5 });
+    expect(invoice.amount).toBe(7.5);
+  });
+});
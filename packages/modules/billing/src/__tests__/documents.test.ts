@@ -0,0 +1,224 @@
+/**
+ * Billing Documents Tests
+ *
+ * Tests for invoice/receipt PDF rendering and the payment receipt email.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getTypedSetting: vi.fn(async () => ({
+      value: { legalName: 'Acme GmbH', address: 'Hauptstr. 1\n10115 Berlin', taxId: 'DE123456789', email: 'billing@acme.test' },
+      version: 1,
+    })),
+    getTenantsProvider: vi.fn(() => ({ findById: vi.fn(async () => ({ id: 'tenant_1', name: 'Acme' })) })),
+    hasNotifyProvider: vi.fn(() => true),
+    sendEmailViaPort: vi.fn(async () => ({ messageId: 'msg_1', success: true })),
+  };
+});
+
+vi.mock('../data/invoices.repository', () => ({
+  InvoicesRepository: {
+    findById: vi.fn(),
+    findByProviderPaymentId: vi.fn(),
+  },
+}));
+
+vi.mock('../data/payments.repository', () => ({
+  PaymentsRepository: {
+    findById: vi.fn(),
+    findByProviderPaymentId: vi.fn(),
+  },
+}));
+
+import { getTypedSetting, sendEmailViaPort, setPdfRenderer, type PdfRenderInput } from '@unisane/kernel';
+import { InvoicesRepository } from '../data/invoices.repository';
+import { PaymentsRepository } from '../data/payments.repository';
+import { buildBillingDocumentHtml, documentNumber, formatMoney } from '../domain/invoice-document';
+import { InvoiceNotFoundError } from '../domain/errors';
+import { renderInvoicePdf, renderPaymentReceiptPdf, downloadInvoicePdf } from '../service/documents';
+import { sendPaymentReceipt } from '../service/receipts';
+import type { InvoiceDetail, PaymentDetail } from '../domain/types';
+
+const rendered: PdfRenderInput[] = [];
+
+const invoice: InvoiceDetail = {
+  id: '665f1c2a9b1e8a0012345678',
+  amount: 118,
+  currency: 'eur',
+  status: 'paid',
+  issuedAt: new Date('2026-03-01T00:00:00Z'),
+  url: null,
+  provider: 'stripe',
+  providerInvoiceId: 'in_1',
+  providerPaymentId: 'pi_1',
+  number: 'ACME-0042',
+  dueAt: new Date('2026-03-15T00:00:00Z'),
+  lineItems: [
+    { description: 'Pro plan', quantity: 2, unitAmount: 49, amount: 98 },
+    { description: 'Extra seats <3>', quantity: 1, unitAmount: 20, amount: 20 },
+  ],
+};
+
+const payment: PaymentDetail = {
+  id: '665f1c2a9b1e8a00abcdef12',
+  amount: 118,
+  currency: 'eur',
+  status: 'succeeded',
+  capturedAt: new Date('2026-03-02T00:00:00Z'),
+  provider: 'stripe',
+  providerPaymentId: 'pi_1',
+};
+
+describe('buildBillingDocumentHtml', () => {
+  it('should format amounts with Money and escape tenant text', () => {
+    const html = buildBillingDocumentHtml({
+      kind: 'invoice',
+      number: 'INV-1',
+      issuedAt: new Date('2026-01-05T00:00:00Z'),
+      status: 'open',
+      currency: 'usd',
+      lineItems: [{ description: 'Seats & <b>more</b>', quantity: 3, unitAmount: 10, amount: 30 }],
+      total: 30,
+      billTo: { name: 'Tom & Co', taxId: 'US-1' },
+    });
+
+    expect(html).toContain('<h1>Tom &amp; Co</h1>');
+    expect(html).toContain('Tax ID: US-1');
+    expect(html).toContain('Seats &amp; &lt;b&gt;more&lt;/b&gt;');
+    expect(html).toContain('$30.00');
+    expect(html).toContain('2026-01-05');
+  });
+
+  it('should fall back to a single line when no items are stored', () => {
+    const html = buildBillingDocumentHtml({
+      kind: 'receipt',
+      number: 'RCT-1',
+      issuedAt: new Date('2026-01-05T00:00:00Z'),
+      status: 'succeeded',
+      currency: 'USD',
+      lineItems: [],
+      total: 12.5,
+      billTo: { name: 'Acme' },
+    });
+
+    expect(html).toContain('<td>Payment</td><td>1</td>');
+    expect(html).toContain('Amount paid');
+  });
+
+  it('should number documents from the record id when the provider has none', () => {
+    expect(documentNumber('invoice', '665f1c2a9b1e8a0012345678')).toBe('INV-12345678');
+    expect(documentNumber('invoice', 'x', 'ACME-1')).toBe('ACME-1');
+    expect(formatMoney(5, 'xyz1')).toBe('5.00 XYZ1');
+  });
+});
+
+describe('billing documents service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rendered.length = 0;
+    setPdfRenderer({
+      name: 'test',
+      async render(input) {
+        rendered.push(input);
+        return { bytes: new TextEncoder().encode('%PDF-1.4 test'), pageCount: 1 };
+      },
+    });
+  });
+
+  it('should render an invoice with tenant profile, line items and payment', async () => {
+    vi.mocked(InvoicesRepository.findById).mockResolvedValue(invoice);
+    vi.mocked(PaymentsRepository.findByProviderPaymentId).mockResolvedValue(payment);
+
+    const pdf = await renderInvoicePdf({ scopeId: 'tenant_1', invoiceId: invoice.id });
+
+    expect(pdf.filename).toBe('invoice-ACME-0042.pdf');
+    expect(pdf.pages).toBe(1);
+    const html = rendered[0]!.html;
+    expect(html).toContain('<h1>Acme GmbH</h1>');
+    expect(html).toContain('Hauptstr. 1<br>10115 Berlin');
+    expect(html).toContain('Tax ID: DE123456789');
+    expect(html).toContain('Pro plan');
+    expect(html).toContain('€118.00');
+    expect(html).toContain('Reference: pi_1');
+    expect(rendered[0]!.title).toBe('Invoice ACME-0042');
+  });
+
+  it('should use the tenant name when no legal name is configured', async () => {
+    vi.mocked(getTypedSetting).mockRejectedValueOnce(new Error('not registered'));
+    vi.mocked(InvoicesRepository.findById).mockResolvedValue({ ...invoice, providerPaymentId: null });
+
+    await renderInvoicePdf({ scopeId: 'tenant_1', invoiceId: invoice.id });
+
+    expect(rendered[0]!.html).toContain('<h1>Acme</h1>');
+    expect(rendered[0]!.html).not.toContain('Tax ID');
+  });
+
+  it('should throw when the invoice does not exist', async () => {
+    vi.mocked(InvoicesRepository.findById).mockResolvedValue(null);
+
+    await expect(renderInvoicePdf({ scopeId: 'tenant_1', invoiceId: 'missing' })).rejects.toBeInstanceOf(
+      InvoiceNotFoundError
+    );
+  });
+
+  it('should refuse receipts for payments that have not completed', async () => {
+    vi.mocked(PaymentsRepository.findById).mockResolvedValue({ ...payment, status: 'failed' });
+
+    await expect(renderPaymentReceiptPdf({ scopeId: 'tenant_1', paymentId: payment.id })).rejects.toThrow(
+      /completed payments/
+    );
+  });
+
+  it('should serve the invoice as a PDF download', async () => {
+    vi.mocked(InvoicesRepository.findById).mockResolvedValue(invoice);
+    vi.mocked(PaymentsRepository.findByProviderPaymentId).mockResolvedValue(null);
+
+    const res = await downloadInvoicePdf({
+      req: new Request('http://localhost/x'),
+      params: { tenantId: 'tenant_1', invoiceId: invoice.id },
+      ctx: {},
+      requestId: 'req_1',
+    });
+
+    expect(res.headers.get('content-type')).toBe('application/pdf');
+    expect(res.headers.get('content-disposition')).toBe(
+      `attachment; filename="invoice-ACME-0042.pdf"; filename*=UTF-8''invoice-ACME-0042.pdf`
+    );
+    expect(new TextDecoder().decode(await res.arrayBuffer())).toBe('%PDF-1.4 test');
+    expect(InvoicesRepository.findById).toHaveBeenCalledWith({ scopeId: 'tenant_1', id: invoice.id });
+  });
+
+  it('should email the receipt PDF to the billing contact', async () => {
+    vi.mocked(PaymentsRepository.findByProviderPaymentId).mockResolvedValue(payment);
+    vi.mocked(PaymentsRepository.findById).mockResolvedValue(payment);
+    vi.mocked(InvoicesRepository.findByProviderPaymentId).mockResolvedValue(invoice);
+
+    const res = await sendPaymentReceipt({ scopeId: 'tenant_1', providerPaymentId: 'pi_1' });
+
+    expect(res).toEqual({ sent: true, attached: true });
+    const call = vi.mocked(sendEmailViaPort).mock.calls[0]![0];
+    expect(call.to).toBe('billing@acme.test');
+    expect(call.template).toBe('billing_payment_succeeded');
+    expect(call.data).toMatchObject({ tenantId: 'tenant_1', amount: '€118.00', receiptNumber: 'RCT-ABCDEF12' });
+    expect(call.options?.attachments?.[0]).toMatchObject({
+      filename: 'receipt-RCT-ABCDEF12.pdf',
+      contentType: 'application/pdf',
+    });
+    expect(rendered[0]!.html).toContain('Extra seats &lt;3&gt;');
+  });
+
+  it('should skip the email when no billing contact is configured', async () => {
+    vi.mocked(PaymentsRepository.findByProviderPaymentId).mockResolvedValue(payment);
+    vi.mocked(getTypedSetting).mockResolvedValueOnce({ value: {}, version: 1 });
+
+    const res = await sendPaymentReceipt({ scopeId: 'tenant_1', providerPaymentId: 'pi_1' });
+
+    expect(res).toEqual({ sent: false, reason: 'no_recipient' });
+    expect(sendEmailViaPort).not.toHaveBeenCalled();
+  });
+});
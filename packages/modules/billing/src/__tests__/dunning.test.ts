@@ -0,0 +1,270 @@
+/**
+ * Dunning Tests
+ *
+ * Tests for the dunning schedule, the saga that escalates from reminders to
+ * restriction and suspension, and recovery, against an in-memory dunning
+ * repository and the in-process saga manager.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { PlanId, TenantStatus } from '@unisane/kernel';
+import type { DunningCase, DunningCaseInput, DunningStage } from '../domain/types';
+
+const cases: DunningCase[] = [];
+const tenant: { id: string; planId: PlanId; status: TenantStatus } = { id: 'tenant_1', planId: 'pro', status: 'active' };
+const settings: Record<string, unknown> = {};
+const updateStatus = vi.fn<(id: string, status: TenantStatus, reason?: string) => Promise<void>>(
+  async (_id, status) => {
+    tenant.status = status;
+  }
+);
+type EmailArgs = { to: string; template: string; data: Record<string, unknown> };
+const sendEmail = vi.fn<(args: EmailArgs) => Promise<{ success: boolean }>>(async () => ({ success: true }));
+let seq = 0;
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getTypedSetting: vi.fn(async ({ key }: { key: string }) => ({ value: settings[key] ?? null })),
+    getTenantsProvider: vi.fn(() => ({ findById: vi.fn(async () => ({ ...tenant })), updateStatus })),
+    hasNotifyProvider: vi.fn(() => true),
+    sendEmailViaPort: vi.fn((args: EmailArgs) => sendEmail(args)),
+  };
+});
+
+vi.mock('../data/dunning.repository', () => {
+  const find = (id: string) => cases.find((c) => c.id === id) ?? null;
+  return {
+    DunningRepository: {
+      open: vi.fn(async (input: DunningCaseInput) => {
+        if (cases.some((c) => c.scopeId === input.scopeId && c.status === 'open')) return { conflict: true };
+        const dunningCase: DunningCase = {
+          ...input,
+          id: `case_${++seq}`,
+          status: 'open',
+          stage: 'reminding',
+          remindersSent: 0,
+          suspendedTenant: false,
+          startedAt: new Date(),
+          restrictedAt: null,
+          suspendedAt: null,
+          resolvedAt: null,
+        };
+        cases.push(dunningCase);
+        return { ok: true, dunningCase: { ...dunningCase } };
+      }),
+      findById: vi.fn(async (id: string) => {
+        const c = find(id);
+        return c ? { ...c } : null;
+      }),
+      findOpen: vi.fn(async (scopeId: string) => {
+        const c = cases.find((x) => x.scopeId === scopeId && x.status === 'open');
+        return c ? { ...c } : null;
+      }),
+      list: vi.fn(async () => [...cases]),
+      setStage: vi.fn(async (id: string, stage: DunningStage, patch?: { suspendedTenant?: boolean }) => {
+        const c = find(id);
+        if (!c) return null;
+        c.stage = stage;
+        if (stage === 'restricted') c.restrictedAt ??= new Date();
+        if (stage === 'suspended') c.suspendedAt ??= new Date();
+        if (patch?.suspendedTenant !== undefined) c.suspendedTenant = patch.suspendedTenant;
+        return { ...c };
+      }),
+      recordReminder: vi.fn(async (id: string) => {
+        const c = find(id);
+        if (c) c.remindersSent++;
+      }),
+      resolve: vi.fn(async (id: string, status: 'recovered' | 'canceled') => {
+        const c = find(id);
+        if (!c || c.status !== 'open') return null;
+        c.status = status;
+        c.resolvedAt = new Date();
+        return { ...c };
+      }),
+    },
+  };
+});
+
+vi.mock('../data/subscriptions.repository', () => ({
+  SubscriptionsRepository: { findLatest: vi.fn(async () => null) },
+}));
+vi.mock('../data/plans.repository', () => ({
+  PlanCatalogRepository: { findLatest: vi.fn(async () => null), findVersion: vi.fn(async () => null) },
+}));
+vi.mock('../data/invoices.repository', () => ({ InvoicesRepository: {} }));
+vi.mock('../data/payments.repository', () => ({ PaymentsRepository: {} }));
+
+import { clearSagaManager, getSagaManager, PLAN_DEFS } from '@unisane/kernel';
+import { ZDunningSchedule } from '../domain/schemas';
+import { BILLING_EMAIL_TEMPLATES } from '../domain/constants';
+import {
+  getDunningSchedule,
+  resolveDunning,
+  runDueDunning,
+  startDunning,
+  syncDunningForSubscription,
+} from '../service/dunning';
+import { invalidateEntitlements, resolveEntitlements } from '../service/entitlements';
+
+const START = new Date('2026-03-01T00:00:00Z');
+const day = (n: number) => new Date(START.getTime() + n * 24 * 60 * 60 * 1000);
+
+const templates = () => sendEmail.mock.calls.map(([args]) => args.template);
+
+async function advanceTo(n: number) {
+  vi.setSystemTime(day(n));
+  return runDueDunning();
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(START);
+  clearSagaManager();
+  cases.length = 0;
+  tenant.status = 'active';
+  for (const key of Object.keys(settings)) delete settings[key];
+  settings.invoiceProfile = { email: 'billing@acme.test' };
+  updateStatus.mockClear();
+  sendEmail.mockClear();
+  await invalidateEntitlements(tenant.id);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('dunning schedule', () => {
+  it('defaults when the setting is unset', async () => {
+    expect(await getDunningSchedule()).toEqual({ reminderDays: [0, 3, 7], restrictAfterDays: 10, suspendAfterDays: 21 });
+  });
+
+  it('reads the billing.dunning setting', async () => {
+    settings.dunning = { reminderDays: [1], restrictAfterDays: 2, suspendAfterDays: 3 };
+    expect(await getDunningSchedule()).toEqual({ reminderDays: [1], restrictAfterDays: 2, suspendAfterDays: 3 });
+  });
+
+  it('falls back to the defaults for an invalid setting', async () => {
+    settings.dunning = { reminderDays: [5, 2] };
+    expect((await getDunningSchedule()).reminderDays).toEqual([0, 3, 7]);
+  });
+
+  it('rejects schedules that escalate out of order', () => {
+    expect(ZDunningSchedule.safeParse({ restrictAfterDays: 30, suspendAfterDays: 20 }).success).toBe(false);
+    expect(ZDunningSchedule.safeParse({ reminderDays: [0, 12], restrictAfterDays: 10 }).success).toBe(false);
+    expect(ZDunningSchedule.safeParse({ reminderDays: [0, 1, 2, 3, 4, 5] }).success).toBe(false);
+  });
+});
+
+describe('dunning saga', () => {
+  it('opens a case and sends the first reminder immediately', async () => {
+    const dunningCase = await startDunning({ scopeId: tenant.id, provider: 'stripe', providerSubId: 'sub_1' });
+
+    expect(dunningCase).toMatchObject({ status: 'open', stage: 'reminding', remindersSent: 1 });
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'billing@acme.test',
+      template: BILLING_EMAIL_TEMPLATES.DUNNING_REMINDER,
+      data: expect.objectContaining({ reminder: 1, reminders: 3, suspendsAt: day(21).toISOString() }),
+    }));
+
+    const saga = await getSagaManager().getInstance(dunningCase.sagaId);
+    expect(saga).toMatchObject({ status: 'waiting', resumeAt: day(3) });
+  });
+
+  it('keeps one open case per scope', async () => {
+    const first = await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+    const second = await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+
+    expect(second.id).toBe(first.id);
+    expect(cases).toHaveLength(1);
+    expect(sendEmail).toHaveBeenCalledOnce();
+  });
+
+  it('escalates from reminders to restriction and suspension', async () => {
+    await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+
+    await advanceTo(2);
+    expect(cases[0]?.remindersSent).toBe(1);
+
+    await advanceTo(3);
+    await advanceTo(7);
+    expect(cases[0]?.remindersSent).toBe(3);
+    expect((await resolveEntitlements(tenant.id)).capacities).toEqual(PLAN_DEFS.pro.entitlements.capacities);
+
+    await advanceTo(10);
+    expect(cases[0]?.stage).toBe('restricted');
+    expect((await resolveEntitlements(tenant.id)).capacities).toEqual(PLAN_DEFS.free.entitlements.capacities);
+    expect(updateStatus).not.toHaveBeenCalled();
+
+    await advanceTo(21);
+    expect(cases[0]).toMatchObject({ stage: 'suspended', suspendedTenant: true });
+    expect(updateStatus).toHaveBeenCalledWith(tenant.id, 'suspended', 'Subscription payment overdue');
+    expect(templates()).toEqual([
+      BILLING_EMAIL_TEMPLATES.DUNNING_REMINDER,
+      BILLING_EMAIL_TEMPLATES.DUNNING_REMINDER,
+      BILLING_EMAIL_TEMPLATES.DUNNING_REMINDER,
+      BILLING_EMAIL_TEMPLATES.DUNNING_RESTRICTED,
+      BILLING_EMAIL_TEMPLATES.DUNNING_SUSPENDED,
+    ]);
+  });
+
+  it('catches up on every due step in one run', async () => {
+    await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+
+    expect(await advanceTo(30)).toEqual({ resumed: 1, failed: 0 });
+    expect(cases[0]).toMatchObject({ stage: 'suspended', remindersSent: 3 });
+  });
+
+  it('does not suspend a tenant that is already suspended', async () => {
+    await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+    tenant.status = 'suspended';
+
+    await advanceTo(21);
+    await syncDunningForSubscription({ scopeId: tenant.id, provider: 'stripe', providerSubId: 'sub_1', status: 'active' });
+
+    expect(cases[0]).toMatchObject({ status: 'recovered', suspendedTenant: false });
+    expect(updateStatus).not.toHaveBeenCalled();
+    expect(tenant.status).toBe('suspended');
+  });
+});
+
+describe('dunning recovery', () => {
+  it('restores a suspended tenant when the subscription recovers', async () => {
+    await syncDunningForSubscription({ scopeId: tenant.id, provider: 'stripe', providerSubId: 'sub_1', status: 'past_due' });
+    await advanceTo(25);
+    expect(tenant.status).toBe('suspended');
+
+    await syncDunningForSubscription({ scopeId: tenant.id, provider: 'stripe', providerSubId: 'sub_1', status: 'active' });
+
+    expect(updateStatus).toHaveBeenLastCalledWith(tenant.id, 'active', 'Subscription payment recovered');
+    expect(cases[0]).toMatchObject({ status: 'recovered', stage: 'reminding', resolvedAt: day(25) });
+    expect((await resolveEntitlements(tenant.id)).capacities).toEqual(PLAN_DEFS.pro.entitlements.capacities);
+    expect(templates().at(-1)).toBe(BILLING_EMAIL_TEMPLATES.DUNNING_RECOVERED);
+  });
+
+  it('stops pending reminders when payment recovers early', async () => {
+    await startDunning({ scopeId: tenant.id, provider: 'razorpay' });
+
+    await resolveDunning({ scopeId: tenant.id, outcome: 'recovered' });
+
+    expect(await advanceTo(30)).toEqual({ resumed: 0, failed: 0 });
+    expect(cases[0]).toMatchObject({ status: 'recovered', remindersSent: 1 });
+    expect(updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('closes the case without a recovery email when the subscription is canceled', async () => {
+    await startDunning({ scopeId: tenant.id, provider: 'stripe' });
+    await advanceTo(12);
+
+    await syncDunningForSubscription({ scopeId: tenant.id, provider: 'stripe', providerSubId: 'sub_1', status: 'canceled' });
+
+    expect(cases[0]).toMatchObject({ status: 'canceled', stage: 'reminding' });
+    expect(templates()).not.toContain(BILLING_EMAIL_TEMPLATES.DUNNING_RECOVERED);
+  });
+
+  it('ignores recovery without an open case', async () => {
+    expect(await resolveDunning({ scopeId: tenant.id, outcome: 'recovered' })).toBeNull();
+  });
+});
@@ -22,6 +22,7 @@ import {
   InsufficientCreditsError,
   PaymentMethodRequiredError,
   QuotaExceededError,
+  InvalidCouponError,
 } from '../domain/errors';
 
 describe('SubscriptionNotFoundError', () => {
@@ -209,6 +210,17 @@ describe('InvoiceNotFoundError', () => {
   });
 });
 
+describe('InvalidCouponError', () => {
+  it('should have correct error properties', () => {
+    const error = new InvalidCouponError('SPRING25', 'expired');
+
+    expect(error.name).toBe('InvalidCouponError');
+    expect(error.message).toBe('Promotion code SPRING25 cannot be redeemed: expired');
+    expect(error.code).toBe(ErrorCode.INVALID_COUPON);
+    expect(error.status).toBe(400);
+  });
+});
+
 describe('BillingProviderError', () => {
   it('should have correct error properties', () => {
     const error = new BillingProviderError('Stripe', 'createSubscription', 'API timeout');
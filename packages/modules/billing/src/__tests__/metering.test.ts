@@ -0,0 +1,371 @@
+/**
+ * Metered Billing Tests
+ *
+ * Tests for metered price math, the upcoming invoice preview, usage reports
+ * to the provider and the internal period close, against in-memory
+ * repositories and a stubbed usage port.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { BillingProviderAdapter, MeteredPrice } from '@unisane/kernel';
+import type {
+  Coupon,
+  CouponRedemption,
+  MeteredUsageInput,
+  MeteredUsageRecord,
+  PlanVersion,
+  SubscriptionView,
+} from '../domain/types';
+
+type UsageRow = { scopeId: string; metric: string; value: number };
+type SumArgs = { from: Date; to: Date; metrics?: string[]; scopeIds?: string[] };
+
+const usageRows: UsageRow[] = [];
+const records: MeteredUsageRecord[] = [];
+const invoices: Array<Record<string, unknown>> = [];
+const tenant = { id: 'tenant_1', planId: 'pro' };
+let subscription: SubscriptionView | null = null;
+let redemption: CouponRedemption | null = null;
+let coupon: Coupon | null = null;
+let provider: Partial<BillingProviderAdapter> & { name: string };
+
+const sumUsage = vi.fn<(args: SumArgs) => Promise<UsageRow[]>>(async (args) =>
+  usageRows.filter(
+    (r) => (!args.scopeIds || args.scopeIds.includes(r.scopeId)) && (!args.metrics || args.metrics.includes(r.metric))
+  )
+);
+
+const { API_CALLS, TOKENS } = vi.hoisted(() => {
+  const API_CALLS: MeteredPrice = {
+    feature: 'api_call',
+    label: 'API calls',
+    currency: 'USD',
+    model: 'per_unit',
+    unitAmount: 0.002,
+    includedUnits: 1000,
+    providerPriceIds: { stripe: 'price_api' },
+  };
+  const TOKENS: MeteredPrice = {
+    feature: 'ai_tokens',
+    label: 'AI tokens',
+    currency: 'USD',
+    model: 'tiered',
+    tiers: [
+      { upTo: 1000, unitAmount: 0.01 },
+      { upTo: null, unitAmount: 0.005, flatAmount: 2 },
+    ],
+  };
+  return { API_CALLS, TOKENS };
+});
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getBillingProvider: vi.fn(() => provider),
+    getTenantsProvider: vi.fn(() => ({ findById: vi.fn(async (id: string) => (id === tenant.id ? tenant : null)) })),
+    hasUsageProvider: vi.fn(() => true),
+    getUsageProvider: vi.fn(() => ({ sumUsage: vi.fn((args: SumArgs) => sumUsage(args)) })),
+  };
+});
+
+vi.mock('../data/plans.repository', async () => {
+  const { PLAN_DEFS } = await vi.importActual<typeof kernel>('@unisane/kernel');
+  const meteredPro: PlanVersion = {
+    planId: 'pro',
+    version: 2,
+    ...PLAN_DEFS.pro,
+    metered: [API_CALLS, TOKENS],
+    createdAt: new Date(0),
+    archivedAt: null,
+  };
+  return {
+    PlanCatalogRepository: {
+      findLatest: vi.fn(async (planId: string) => (planId === 'pro' ? meteredPro : null)),
+      findVersion: vi.fn(async (planId: string, version: number) =>
+        planId === 'pro' && version === 2 ? meteredPro : null
+      ),
+    },
+  };
+});
+
+vi.mock('../data/subscriptions.repository', () => ({
+  SubscriptionsRepository: {
+    findLatest: vi.fn(async () => subscription),
+    findLatestProviderSubId: vi.fn(async () => (subscription ? 'sub_1' : null)),
+    listByProviderId: vi.fn(async () => (subscription ? [{ scopeId: tenant.id, providerSubId: 'sub_1' }] : [])),
+  },
+}));
+
+vi.mock('../data/invoices.repository', () => ({
+  InvoicesRepository: {
+    upsertByProviderId: vi.fn(async (args: Record<string, unknown>) => {
+      const i = invoices.findIndex((x) => x.scopeId === args.scopeId && x.providerInvoiceId === args.providerInvoiceId);
+      if (i >= 0) invoices[i] = args;
+      else invoices.push(args);
+    }),
+  },
+}));
+vi.mock('../data/payments.repository', () => ({ PaymentsRepository: {} }));
+
+vi.mock('../data/metered-usage.repository', () => ({
+  MeteredUsageRepository: {
+    upsert: vi.fn(async (input: MeteredUsageInput) => {
+      const same = (r: MeteredUsageRecord) =>
+        r.scopeId === input.scopeId && r.feature === input.feature && r.periodStart.getTime() === input.periodStart.getTime();
+      const i = records.findIndex(same);
+      const record = { ...input, id: records[i]?.id ?? `usage_${records.length + 1}`, updatedAt: new Date() };
+      if (i >= 0) records[i] = record;
+      else records.push(record);
+      return record;
+    }),
+    listForPeriod: vi.fn(async (scopeId: string, periodStart: Date) =>
+      records.filter((r) => r.scopeId === scopeId && r.periodStart.getTime() === periodStart.getTime())
+    ),
+  },
+}));
+
+vi.mock('../data/coupons.repository', () => ({
+  CouponsRepository: {
+    findLatestConfirmedRedemption: vi.fn(async () => redemption),
+    findCouponById: vi.fn(async () => coupon),
+  },
+}));
+
+import { ZMeteredPrice, ZPlanDefinitionInput } from '../domain/schemas';
+import { meteredAmount, meteredLineItem, meteredPeriod } from '../domain/metering';
+import { closeMeteredPeriods, previewUpcomingInvoice, reportMeteredUsage } from '../service/metering';
+
+const usage = (metric: string, value: number) => usageRows.push({ scopeId: tenant.id, metric, value });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+  usageRows.length = 0;
+  records.length = 0;
+  invoices.length = 0;
+  subscription = null;
+  redemption = null;
+  coupon = null;
+  provider = { name: 'noop' };
+  sumUsage.mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('metered prices', () => {
+  it('charges per unit after the included units', () => {
+    expect(meteredAmount(API_CALLS, 1500).toMajor()).toBe(1);
+    expect(meteredAmount(API_CALLS, 800).isZero()).toBe(true);
+    expect(meteredLineItem(API_CALLS, 800)).toBeNull();
+  });
+
+  it('prices each tier separately for tiered prices', () => {
+    // 1000 x 0.01 + 500 x 0.005 + 2 flat
+    expect(meteredAmount(TOKENS, 1500).toMajor()).toBe(14.5);
+    expect(meteredAmount(TOKENS, 400).toMajor()).toBe(4);
+  });
+
+  it('prices all units at the reached tier for volume prices', () => {
+    const volume: MeteredPrice = { ...TOKENS, model: 'volume' };
+    expect(meteredAmount(volume, 1500).toMajor()).toBe(9.5);
+    expect(meteredAmount(volume, 1000).toMajor()).toBe(10);
+  });
+
+  it('builds invoice lines with billable units', () => {
+    expect(meteredLineItem(API_CALLS, 3000)).toEqual({
+      description: 'API calls (1000 included)',
+      quantity: 2000,
+      unitAmount: 0.002,
+      amount: 4,
+    });
+  });
+
+  it('validates price definitions', () => {
+    expect(ZMeteredPrice.safeParse(API_CALLS).success).toBe(true);
+    expect(ZMeteredPrice.safeParse(TOKENS).success).toBe(true);
+    expect(ZMeteredPrice.safeParse({ ...API_CALLS, unitAmount: undefined }).success).toBe(false);
+    expect(ZMeteredPrice.safeParse({ ...TOKENS, tiers: [{ upTo: null, unitAmount: 1 }, { upTo: 10, unitAmount: 1 }] }).success).toBe(false);
+    expect(ZMeteredPrice.safeParse({ ...TOKENS, tiers: [{ upTo: 10, unitAmount: 1 }, { upTo: 5, unitAmount: 1 }, { upTo: null, unitAmount: 1 }] }).success).toBe(false);
+  });
+
+  it('meters each feature once per plan', () => {
+    const plan = { label: 'Pro', tagline: '', entitlements: { toggles: {}, capacities: {}, quotas: {}, credits: {} } };
+    expect(ZPlanDefinitionInput.safeParse({ ...plan, metered: [API_CALLS, TOKENS] }).success).toBe(true);
+    expect(ZPlanDefinitionInput.safeParse({ ...plan, metered: [API_CALLS, API_CALLS] }).success).toBe(false);
+  });
+});
+
+describe('metered periods', () => {
+  it('follows the provider subscription period', () => {
+    const period = meteredPeriod({ at: new Date('2026-03-10T00:00:00Z'), currentPeriodEnd: new Date('2026-03-15T00:00:00Z') });
+    expect(period.start).toEqual(new Date('2026-02-15T00:00:00Z'));
+    expect(period.end).toEqual(new Date('2026-03-15T00:00:00Z'));
+  });
+
+  it('falls back to the calendar month', () => {
+    const period = meteredPeriod({ at: new Date('2026-03-10T00:00:00Z'), currentPeriodEnd: null });
+    expect(period.start).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(period.end).toEqual(new Date('2026-04-01T00:00:00Z'));
+  });
+});
+
+describe('upcoming invoice preview', () => {
+  it('adds period-to-date usage to the base price', async () => {
+    subscription = {
+      id: 'sub_doc',
+      planId: 'pro',
+      quantity: 1,
+      status: 'active',
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: new Date('2026-03-15T00:00:00Z'),
+      pinnedPlan: { planId: 'pro', version: 2 },
+    };
+    usage('api_call', 1500);
+    usage('ai_tokens', 200);
+
+    const preview = await previewUpcomingInvoice({ scopeId: tenant.id });
+
+    expect(sumUsage).toHaveBeenCalledWith(expect.objectContaining({
+      from: new Date('2026-02-15T00:00:00Z'),
+      to: new Date('2026-03-15T00:00:00Z'),
+      scopeIds: [tenant.id],
+    }));
+    expect(preview.lineItems.map((l) => [l.description, l.amount])).toEqual([
+      ['Pro (monthly)', 29],
+      ['API calls (1000 included)', 1],
+      ['AI tokens', 2],
+    ]);
+    expect(preview).toMatchObject({ currency: 'USD', amount: 32 });
+  });
+});
+
+describe('usage reports', () => {
+  beforeEach(() => {
+    subscription = {
+      id: 'sub_doc',
+      planId: 'pro',
+      quantity: 1,
+      status: 'active',
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: new Date('2026-03-15T00:00:00Z'),
+      pinnedPlan: { planId: 'pro', version: 2 },
+    };
+    provider = { name: 'stripe', reportUsage: vi.fn(async () => {}) };
+  });
+
+  it('reports the period-to-date quantity of priced components', async () => {
+    usage('api_call', 1500);
+
+    expect(await reportMeteredUsage()).toEqual({ reported: 1, failed: 0 });
+    expect(provider.reportUsage).toHaveBeenCalledWith({
+      providerSubId: 'sub_1',
+      priceId: 'price_api',
+      quantity: 1500,
+      timestamp: new Date('2026-02-15T00:00:00Z'),
+    });
+    expect(records).toEqual([
+      expect.objectContaining({ feature: 'api_call', quantity: 1500, amount: 1, status: 'reported', provider: 'stripe' }),
+    ]);
+  });
+
+  it('skips subscriptions that are no longer billed', async () => {
+    subscription = { ...subscription!, status: 'canceled' };
+    expect(await reportMeteredUsage()).toEqual({ reported: 0, failed: 0 });
+    expect(provider.reportUsage).not.toHaveBeenCalled();
+  });
+
+  it('counts failed reports and keeps going', async () => {
+    provider.reportUsage = vi.fn(async () => {
+      throw new Error('Stripe API error: 400');
+    });
+    expect(await reportMeteredUsage()).toEqual({ reported: 0, failed: 1 });
+    expect(records).toHaveLength(0);
+  });
+});
+
+describe('period close without a provider', () => {
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2026-04-02T00:00:00Z'));
+  });
+
+  it('invoices the previous month once', async () => {
+    usage('api_call', 3000);
+    usage('ai_tokens', 1500);
+
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 1 });
+    expect(sumUsage).toHaveBeenCalledWith({
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-04-01T00:00:00Z'),
+    });
+    expect(invoices).toEqual([
+      expect.objectContaining({
+        scopeId: tenant.id,
+        provider: 'internal',
+        providerInvoiceId: 'usage-2026-03-01',
+        amount: 18.5,
+        status: 'open',
+      }),
+    ]);
+    expect(records.every((r) => r.status === 'invoiced' && r.providerInvoiceId === 'usage-2026-03-01')).toBe(true);
+
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 0 });
+    expect(invoices).toHaveLength(1);
+  });
+
+  it('discounts usage while the tenant coupon lasts', async () => {
+    usage('api_call', 3000);
+    usage('ai_tokens', 1500);
+    coupon = {
+      id: 'coupon_1',
+      name: 'Launch',
+      discount: { type: 'percent', percentOff: 20 },
+      duration: 'repeating',
+      durationInMonths: 2,
+      timesRedeemed: 1,
+      expiresAt: null,
+      createdAt: new Date('2026-02-01T00:00:00Z'),
+      archivedAt: null,
+    };
+    redemption = {
+      id: 'red_1',
+      scopeId: tenant.id,
+      couponId: coupon.id,
+      promotionCodeId: 'promo_1',
+      code: 'LAUNCH',
+      planId: 'pro',
+      provider: 'internal',
+      status: 'confirmed',
+      expiresAt: null,
+      createdAt: new Date('2026-03-05T00:00:00Z'),
+    };
+
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 1 });
+    expect(invoices[0]).toMatchObject({ amount: 14.8 });
+    expect((invoices[0]!.lineItems as Array<{ description: string }>).at(-1)).toMatchObject({
+      description: 'Discount: Launch',
+      amount: -3.7,
+    });
+
+    // April usage is invoiced past the coupon's two months
+    vi.setSystemTime(new Date('2026-05-02T00:00:00Z'));
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 1 });
+    expect(invoices[1]).toMatchObject({ providerInvoiceId: 'usage-2026-04-01', amount: 18.5 });
+  });
+
+  it('does not invoice usage within the included units', async () => {
+    usage('api_call', 500);
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 0 });
+    expect(invoices).toHaveLength(0);
+  });
+
+  it('leaves provider billed deployments alone', async () => {
+    provider = { name: 'stripe' };
+    usage('api_call', 3000);
+    expect(await closeMeteredPeriods()).toEqual({ invoiced: 0 });
+    expect(sumUsage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Plan Catalog Tests
+ *
+ * Tests for publishing plan versions, pinned-version resolution and the
+ * catalog-backed billing config, against an in-memory catalog repository.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { PlanId } from '@unisane/kernel';
+import type { PlanVersion, PlanVersionInput, SubscriptionView } from '../domain/types';
+
+const catalog: PlanVersion[] = [];
+let tenantPlan: PlanId = 'pro';
+let subscription: SubscriptionView | null = null;
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getTenantsProvider: vi.fn(() => ({ findById: vi.fn(async () => ({ id: 'tenant_1', planId: tenantPlan })) })),
+    getTypedSetting: vi.fn(async () => null),
+  };
+});
+
+vi.mock('../data/plans.repository', () => {
+  const versionsOf = (planId: PlanId) =>
+    catalog.filter((p) => p.planId === planId).sort((a, b) => b.version - a.version);
+  return {
+    PlanCatalogRepository: {
+      findLatest: vi.fn(async (planId: PlanId) => versionsOf(planId)[0] ?? null),
+      findVersion: vi.fn(
+        async (planId: PlanId, version: number) =>
+          catalog.find((p) => p.planId === planId && p.version === version) ?? null
+      ),
+      listLatest: vi.fn(async () => {
+        const ids = [...new Set(catalog.map((p) => p.planId))];
+        return ids.map((id) => versionsOf(id)[0]!);
+      }),
+      listVersions: vi.fn(async (planId: PlanId) => versionsOf(planId)),
+      insertVersion: vi.fn(async (input: PlanVersionInput) => {
+        if (catalog.some((p) => p.planId === input.planId && p.version === input.version)) {
+          return { conflict: true };
+        }
+        const plan: PlanVersion = { ...input, createdAt: new Date(), archivedAt: null };
+        catalog.push(plan);
+        return { ok: true, plan };
+      }),
+      setArchived: vi.fn(async (planId: PlanId, archived: boolean) => {
+        const rows = catalog.filter((p) => p.planId === planId);
+        rows.forEach((p) => (p.archivedAt = archived ? new Date() : null));
+        return rows.length;
+      }),
+    },
+  };
+});
+
+vi.mock('../data/subscriptions.repository', () => ({
+  SubscriptionsRepository: {
+    findLatest: vi.fn(async () => subscription),
+  },
+}));
+
+vi.mock('../data/coupons.repository', () => ({ CouponsRepository: {} }));
+vi.mock('../data/invoices.repository', () => ({ InvoicesRepository: {} }));
+vi.mock('../data/payments.repository', () => ({ PaymentsRepository: {} }));
+vi.mock('../data/dunning.repository', () => ({
+  DunningRepository: { findOpen: vi.fn(async () => null) },
+}));
+
+vi.mock('../service/mode', () => ({
+  getBillingMode: vi.fn(async () => 'subscription'),
+}));
+
+import { PLAN_DEFS } from '@unisane/kernel';
+import {
+  archivePlan,
+  getPlanHistory,
+  publishPlanVersion,
+  restorePlan,
+  seedPlanCatalog,
+} from '../service/plans';
+import { resolveEntitlements } from '../service/entitlements';
+import { getConfig } from '../service/config';
+import { subscribe } from '../service/subscribe';
+
+const proV2 = {
+  ...PLAN_DEFS.pro,
+  defaultPrice: { amount: 39, currency: 'USD', interval: 'month' as const },
+  entitlements: {
+    ...PLAN_DEFS.pro.entitlements,
+    capacities: { ...PLAN_DEFS.pro.entitlements.capacities, seats: 5 },
+  },
+};
+
+const activeSub = (pinnedPlan?: SubscriptionView['pinnedPlan']): SubscriptionView => ({
+  id: 'sub_1',
+  planId: 'price_pro',
+  quantity: 1,
+  status: 'active',
+  cancelAtPeriodEnd: false,
+  currentPeriodEnd: null,
+  ...(pinnedPlan ? { pinnedPlan } : {}),
+});
+
+beforeEach(() => {
+  catalog.length = 0;
+  tenantPlan = 'pro';
+  subscription = null;
+});
+
+describe('publishPlanVersion', () => {
+  it('should persist the seed as version 1 and publish version 2', async () => {
+    const plan = await publishPlanVersion({ planId: 'pro', input: proV2, actorId: 'admin_1' });
+
+    expect(plan).toMatchObject({ planId: 'pro', version: 2, createdBy: 'admin_1' });
+    const { items } = await getPlanHistory({ planId: 'pro' });
+    expect(items.map((p) => p.version)).toEqual([2, 1]);
+    expect(items[1]?.entitlements).toEqual(PLAN_DEFS.pro.entitlements);
+  });
+
+  it('should reject a stale expectedVersion', async () => {
+    await publishPlanVersion({ planId: 'pro', input: proV2 });
+
+    await expect(
+      publishPlanVersion({ planId: 'pro', input: { ...proV2, expectedVersion: 1 } })
+    ).rejects.toThrow();
+    expect(catalog).toHaveLength(2);
+  });
+
+  it('should reject publishing to an archived plan until restored', async () => {
+    await archivePlan({ planId: 'pro' });
+
+    await expect(publishPlanVersion({ planId: 'pro', input: proV2 })).rejects.toThrow(/Restore the plan/);
+
+    await restorePlan({ planId: 'pro' });
+    await expect(publishPlanVersion({ planId: 'pro', input: proV2 })).resolves.toMatchObject({ version: 2 });
+  });
+
+  it('should reject unknown plans', async () => {
+    await expect(publishPlanVersion({ planId: 'enterprise', input: proV2 })).rejects.toThrow();
+  });
+});
+
+describe('resolveEntitlements', () => {
+  beforeEach(async () => {
+    await publishPlanVersion({ planId: 'pro', input: proV2 });
+  });
+
+  it('should use the version the subscription is pinned to', async () => {
+    subscription = activeSub({ planId: 'pro', version: 1 });
+
+    const ent = await resolveEntitlements('tenant_pinned_v1');
+
+    expect(ent.capacities.seats).toBe(PLAN_DEFS.pro.entitlements.capacities.seats);
+  });
+
+  it('should give new subscribers the current version', async () => {
+    subscription = activeSub({ planId: 'pro', version: 2 });
+
+    const ent = await resolveEntitlements('tenant_pinned_v2');
+
+    expect(ent.capacities.seats).toBe(5);
+  });
+
+  it('should grandfather subscriptions from before the catalog at version 1', async () => {
+    subscription = activeSub();
+
+    const ent = await resolveEntitlements('tenant_legacy');
+
+    expect(ent.capacities.seats).toBe(PLAN_DEFS.pro.entitlements.capacities.seats);
+  });
+
+  it('should ignore a pin for another plan', async () => {
+    tenantPlan = 'business';
+    subscription = activeSub({ planId: 'pro', version: 1 });
+
+    const ent = await resolveEntitlements('tenant_changed');
+
+    expect(ent.capacities.seats).toBe(PLAN_DEFS.business.entitlements.capacities.seats);
+  });
+});
+
+describe('catalog availability', () => {
+  it('should hide archived plans from the billing config', async () => {
+    await archivePlan({ planId: 'business_yearly' });
+
+    const config = await getConfig();
+
+    expect(config.plans.map((p) => p.id)).not.toContain('business_yearly');
+    expect(config.plans.map((p) => p.id)).toContain('pro');
+  });
+
+  it('should show the current version of each plan', async () => {
+    await publishPlanVersion({ planId: 'pro', input: proV2 });
+
+    const config = await getConfig();
+
+    expect(config.plans.find((p) => p.id === 'pro')?.defaultPrice?.amount).toBe(39);
+  });
+
+  it('should reject subscribing to an archived plan', async () => {
+    await archivePlan({ planId: 'pro' });
+
+    await expect(
+      subscribe({ scopeId: 'tenant_1', planId: 'pro', successUrl: 'https://a.test/ok', cancelUrl: 'https://a.test/no' })
+    ).rejects.toThrow(/no longer available/);
+  });
+
+  it('should not allow archiving the free plan', async () => {
+    await expect(archivePlan({ planId: 'free' })).rejects.toThrow();
+  });
+});
+
+describe('seedPlanCatalog', () => {
+  it('should seed every plan once', async () => {
+    const first = await seedPlanCatalog();
+    const second = await seedPlanCatalog();
+
+    expect(first.seeded).toEqual(['free', 'pro', 'pro_yearly', 'business', 'business_yearly']);
+    expect(second.seeded).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tax Tests
+ *
+ * Tests for tax ID format validation, the built-in VAT/GST rules and how
+ * billing applies tax from the platform and tenant settings.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { TaxCalculationInput, TaxPort } from '@unisane/kernel';
+
+const settings: Record<string, unknown> = {};
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getTypedSetting: vi.fn(async ({ key }: { key: string }) => ({ value: settings[key] ?? null })),
+  };
+});
+vi.mock('../data/invoices.repository', () => ({ InvoicesRepository: {} }));
+vi.mock('../data/payments.repository', () => ({ PaymentsRepository: {} }));
+
+import { Money, setTaxProvider } from '@unisane/kernel';
+import { ZInvoiceProfile, ZTaxSettings } from '../domain/schemas';
+import { REVERSE_CHARGE_NOTE, calculateTaxByRules, taxLineItems } from '../domain/tax';
+import { validateTaxIdFormat } from '../domain/tax-ids';
+import { applyTax, calculateTax, validateTaxId } from '../service/tax';
+
+const sale = (overrides: Partial<TaxCalculationInput> = {}): TaxCalculationInput => ({
+  amount: 100,
+  currency: 'EUR',
+  seller: { country: 'DE' },
+  customer: {},
+  ...overrides,
+});
+
+describe('tax ID validation', () => {
+  it('accepts EU VAT numbers by member state format', () => {
+    expect(validateTaxIdFormat('DE 123 456 789')).toEqual({ valid: true, type: 'eu_vat', country: 'DE', value: 'DE123456789' });
+    expect(validateTaxIdFormat('NL123456789B01').valid).toBe(true);
+    expect(validateTaxIdFormat('EL123456789').country).toBe('GR');
+    expect(validateTaxIdFormat('DE12345678')).toMatchObject({ valid: false, reason: 'format' });
+    expect(validateTaxIdFormat('US123456789')).toMatchObject({ valid: false, reason: 'unsupported' });
+  });
+
+  it('adds the VAT prefix when the country is given', () => {
+    expect(validateTaxIdFormat('U12345678', 'AT')).toMatchObject({ valid: true, value: 'ATU12345678' });
+    expect(validateTaxIdFormat('123456789', 'GR')).toMatchObject({ valid: true, value: 'EL123456789' });
+    expect(validateTaxIdFormat('123456789', 'US')).toMatchObject({ valid: false, reason: 'unsupported' });
+  });
+
+  it('checks the GSTIN check character', () => {
+    expect(validateTaxIdFormat('27aapfu0939f1zv')).toEqual({ valid: true, type: 'in_gstin', country: 'IN', value: '27AAPFU0939F1ZV' });
+    expect(validateTaxIdFormat('27AAPFU0939F1ZX')).toMatchObject({ valid: false, reason: 'checksum' });
+    expect(validateTaxIdFormat('99AAPFU0939F1ZV', 'IN')).toMatchObject({ valid: false, reason: 'format' });
+  });
+
+  it('checks the ABN weighted checksum', () => {
+    expect(validateTaxIdFormat('51 824 753 556')).toEqual({ valid: true, type: 'au_abn', country: 'AU', value: '51824753556' });
+    expect(validateTaxIdFormat('12 345 678 901')).toMatchObject({ valid: false, reason: 'checksum' });
+    expect(validateTaxIdFormat('5182475355', 'AU')).toMatchObject({ valid: false, reason: 'format' });
+  });
+});
+
+describe('tax rules', () => {
+  it('charges domestic VAT, B2B included', () => {
+    const tax = calculateTaxByRules(sale({ customer: { country: 'DE', taxId: 'DE123456789' } }));
+    expect(tax).toEqual({
+      taxAmount: 19,
+      lines: [{ name: 'VAT', jurisdiction: 'DE', rate: 19, amount: 19 }],
+      reverseCharge: false,
+      exempt: false,
+    });
+  });
+
+  it('charges EU consumers at their own rate', () => {
+    const tax = calculateTaxByRules(sale({ amount: 49.99, customer: { country: 'FR' } }));
+    expect(tax.lines).toEqual([{ name: 'VAT', jurisdiction: 'FR', rate: 20, amount: 10 }]);
+  });
+
+  it('reverse charges cross-border B2B sales with a valid tax ID', () => {
+    const tax = calculateTaxByRules(sale({ customer: { taxId: 'FR12345678901' } }));
+    expect(tax).toMatchObject({ taxAmount: 0, lines: [], reverseCharge: true, note: REVERSE_CHARGE_NOTE });
+
+    const invalid = calculateTaxByRules(sale({ customer: { country: 'FR', taxId: 'FR123' } }));
+    expect(invalid).toMatchObject({ taxAmount: 20, reverseCharge: false });
+  });
+
+  it('charges no tax outside the seller registrations', () => {
+    expect(calculateTaxByRules(sale({ customer: { country: 'GB' } })).lines).toEqual([]);
+    expect(calculateTaxByRules(sale({ customer: { country: 'US' } })).lines).toEqual([]);
+    const registered = calculateTaxByRules(sale({ seller: { country: 'DE', registrations: ['GB'] }, customer: { country: 'GB' } }));
+    expect(registered.lines).toEqual([{ name: 'VAT', jurisdiction: 'GB', rate: 20, amount: 20 }]);
+  });
+
+  it('splits intra-state Indian GST into CGST and SGST', () => {
+    const seller = { country: 'IN', region: '27' };
+    const intra = calculateTaxByRules(sale({ amount: 1000, currency: 'INR', seller, customer: { taxId: '27AAPFU0939F1ZV' } }));
+    expect(intra.lines).toEqual([
+      { name: 'CGST', jurisdiction: 'IN-27', rate: 9, amount: 90 },
+      { name: 'SGST', jurisdiction: 'IN-27', rate: 9, amount: 90 },
+    ]);
+
+    const inter = calculateTaxByRules(sale({ amount: 1000, currency: 'INR', seller, customer: { country: 'IN', region: '29' } }));
+    expect(inter).toMatchObject({ taxAmount: 180, lines: [{ name: 'IGST', jurisdiction: 'IN', rate: 18, amount: 180 }] });
+  });
+
+  it('charges Australian GST and zero-rates exports', () => {
+    const seller = { country: 'AU' };
+    expect(calculateTaxByRules(sale({ currency: 'AUD', seller, customer: { country: 'AU' } })).taxAmount).toBe(10);
+    expect(calculateTaxByRules(sale({ currency: 'AUD', seller, customer: { country: 'US' } })).taxAmount).toBe(0);
+  });
+
+  it('never taxes exempt customers', () => {
+    const tax = calculateTaxByRules(sale({ customer: { country: 'DE', exempt: true } }));
+    expect(tax).toMatchObject({ taxAmount: 0, lines: [], exempt: true });
+  });
+
+  it('renders tax lines and the notice as invoice lines', () => {
+    expect(taxLineItems(calculateTaxByRules(sale({ customer: { country: 'DE' } })))).toEqual([
+      { description: 'VAT 19% (DE)', quantity: 1, unitAmount: 19, amount: 19 },
+    ]);
+    expect(taxLineItems(calculateTaxByRules(sale({ customer: { taxId: 'FR12345678901' } })))).toEqual([
+      { description: REVERSE_CHARGE_NOTE, quantity: 1, unitAmount: 0, amount: 0 },
+    ]);
+  });
+});
+
+describe('tax settings', () => {
+  it('requires an origin country when enabled', () => {
+    expect(ZTaxSettings.safeParse({ enabled: true }).success).toBe(false);
+    expect(ZTaxSettings.parse({ enabled: true, originCountry: 'de' })).toEqual({
+      enabled: true,
+      originCountry: 'DE',
+      registrations: [],
+    });
+  });
+
+  it('accepts a country on the invoice profile', () => {
+    expect(ZInvoiceProfile.parse({ country: 'in', region: '27' })).toEqual({ country: 'IN', region: '27' });
+    expect(ZInvoiceProfile.safeParse({ country: 'IND' }).success).toBe(false);
+  });
+});
+
+describe('tax service', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(settings)) delete settings[key];
+    settings.tax = { enabled: true, originCountry: 'DE' };
+    settings.invoiceProfile = { country: 'AT' };
+  });
+
+  it('is disabled until the platform setting enables it', async () => {
+    delete settings.tax;
+    expect(await calculateTax({ scopeId: 'tenant_1', amount: 100, currency: 'EUR' })).toBeNull();
+  });
+
+  it('taxes a tenant from its invoice profile', async () => {
+    const result = await applyTax({
+      scopeId: 'tenant_1',
+      subtotal: Money.fromMajor(100, 'EUR'),
+      lineItems: [{ description: 'Pro (monthly)', quantity: 1, unitAmount: 100, amount: 100 }],
+    });
+    expect(result.amount.toMajor()).toBe(120);
+    expect(result.lineItems.map((l) => l.description)).toEqual(['Pro (monthly)', 'VAT 20% (AT)']);
+  });
+
+  it('honours the tenant exemption flag', async () => {
+    settings.taxExemption = { exempt: true, reason: 'Certificate 42' };
+    const result = await applyTax({ scopeId: 'tenant_1', subtotal: Money.fromMajor(100, 'EUR'), lineItems: [] });
+    expect(result.amount.toMajor()).toBe(100);
+    expect(result.tax).toMatchObject({ exempt: true });
+  });
+
+  it('uses a registered tax provider instead of the rules', async () => {
+    const provider: TaxPort = {
+      name: 'test',
+      calculate: vi.fn<TaxPort['calculate']>(async () => ({
+        taxAmount: 5,
+        lines: [{ name: 'VAT', jurisdiction: 'AT', rate: 5, amount: 5 }],
+        reverseCharge: false,
+        exempt: false,
+      })),
+      validateTaxId: vi.fn<TaxPort['validateTaxId']>(async () => ({ valid: true })),
+    };
+    setTaxProvider(provider);
+
+    expect((await calculateTax({ scopeId: 'tenant_1', amount: 100, currency: 'EUR' }))?.taxAmount).toBe(5);
+    expect(provider.calculate).toHaveBeenCalledWith(expect.objectContaining({
+      seller: { country: 'DE', registrations: [] },
+      customer: { country: 'AT', exempt: false },
+    }));
+    expect(await validateTaxId({ taxId: 'anything' })).toEqual({ valid: true });
+  });
+});
@@ -5,3 +5,4 @@
  */
 
 export { billingServiceAdapter } from "./billing-service.adapter";
+export { rulesTaxProvider } from "./tax-rules.adapter";
@@ -0,0 +1,23 @@
+/**
+ * Rules Tax Adapter
+ *
+ * Built-in TaxPort implementation backed by the billing tax rules and tax
+ * ID format checks. Billing uses it whenever no other tax provider is
+ * registered; apps can also register it explicitly or wrap it.
+ */
+
+import type { TaxPort } from "@unisane/kernel";
+import { calculateTaxByRules } from "../domain/tax";
+import { validateTaxIdFormat } from "../domain/tax-ids";
+
+export const rulesTaxProvider: TaxPort = {
+  name: "rules",
+
+  async calculate(input) {
+    return calculateTaxByRules(input);
+  },
+
+  async validateTaxId({ taxId, country }) {
+    return validateTaxIdFormat(taxId, country);
+  },
+};
@@ -12,6 +12,37 @@ export {
   ZRefund,
   ZChangeQuantity,
   ZChangePlan,
+  ZInvoiceProfile,
+  ZPlanEntitlements,
+  ZPlanDefinitionInput,
+  ZPublishPlanVersion,
+  ZPlanVersionResponse,
+  ZCouponCreate,
+  ZPromotionCodeCreate,
+  ZPromotionCodePreview,
+  ZCouponResponse,
+  ZPromotionCodeResponse,
+  ZDunningSchedule,
+  ZDunningCaseList,
+  ZDunningCaseResponse,
+  ZMeteredPrice,
+  ZUpcomingInvoiceResponse,
+  ZCountryCode,
+  ZTaxSettings,
+  ZTaxExemption,
+  ZValidateTaxId,
+  ZTaxCalculationResponse,
+  ZTaxIdCheckResponse,
+} from './domain/schemas';
+export type {
+  InvoiceProfile,
+  PlanDefinitionInput,
+  PublishPlanVersionInput,
+  CouponCreate,
+  PromotionCodeCreate,
+  DunningSchedule,
+  TaxSettings,
+  TaxExemption,
 } from './domain/schemas';
 
 export * from './domain/types';
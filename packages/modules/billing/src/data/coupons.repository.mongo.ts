@@ -0,0 +1,288 @@
+import {
+  col,
+  COLLECTIONS,
+  isDuplicateKeyError,
+  maybeObjectId,
+  newEntityId,
+  toNativeId,
+  UpdateBuilder,
+  toMongoUpdate,
+  type BillingProvider,
+  type Document,
+  type Filter,
+  type PlanId,
+} from "@unisane/kernel";
+import type { CouponsRepo } from "../domain/ports";
+import type {
+  Coupon,
+  CouponDiscount,
+  CouponDuration,
+  CouponRedemption,
+  CouponRedemptionStatus,
+  InvoiceProvider,
+  PromotionCode,
+} from "../domain/types";
+
+type CouponDoc = {
+  _id: unknown;
+  name: string;
+  discount: CouponDiscount;
+  duration: CouponDuration;
+  durationInMonths?: number;
+  maxRedemptions?: number;
+  timesRedeemed: number;
+  expiresAt: Date | null;
+  appliesToPlans?: PlanId[];
+  providerRefs?: Partial<Record<BillingProvider, string>>;
+  createdBy?: string;
+  createdAt: Date;
+  archivedAt: Date | null;
+} & Document;
+
+type PromotionCodeDoc = {
+  _id: unknown;
+  code: string;
+  couponId: string;
+  maxRedemptions?: number;
+  timesRedeemed: number;
+  expiresAt: Date | null;
+  active: boolean;
+  createdBy?: string;
+  createdAt: Date;
+} & Document;
+
+type RedemptionDoc = {
+  _id: unknown;
+  scopeId: string;
+  couponId: string;
+  promotionCodeId: string;
+  code: string;
+  planId: PlanId;
+  provider: InvoiceProvider;
+  // Absent on redemptions recorded before checkout confirmation
+  status?: CouponRedemptionStatus;
+  expiresAt?: Date | null;
+  createdAt: Date;
+} & Document;
+
+const couponsCol = () => col<CouponDoc>(COLLECTIONS.COUPONS);
+const codesCol = () => col<PromotionCodeDoc>(COLLECTIONS.PROMOTION_CODES);
+const redemptionsCol = () => col<RedemptionDoc>(COLLECTIONS.COUPON_REDEMPTIONS);
+
+const byId = <T extends Document>(id: string) => ({ _id: maybeObjectId(id) }) as Filter<T>;
+
+/** Matches documents whose redemption limit is not yet reached */
+const belowLimit = {
+  $or: [
+    { maxRedemptions: { $exists: false } },
+    { $expr: { $lt: ["$timesRedeemed", "$maxRedemptions"] } },
+  ],
+};
+
+function toCoupon(doc: CouponDoc): Coupon {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    discount: doc.discount,
+    duration: doc.duration,
+    ...(doc.durationInMonths !== undefined ? { durationInMonths: doc.durationInMonths } : {}),
+    ...(doc.maxRedemptions !== undefined ? { maxRedemptions: doc.maxRedemptions } : {}),
+    timesRedeemed: doc.timesRedeemed ?? 0,
+    expiresAt: doc.expiresAt ?? null,
+    ...(doc.appliesToPlans ? { appliesToPlans: doc.appliesToPlans } : {}),
+    ...(doc.providerRefs ? { providerRefs: doc.providerRefs } : {}),
+    ...(doc.createdBy ? { createdBy: doc.createdBy } : {}),
+    createdAt: doc.createdAt,
+    archivedAt: doc.archivedAt ?? null,
+  };
+}
+
+function toPromotionCode(doc: PromotionCodeDoc): PromotionCode {
+  return {
+    id: String(doc._id),
+    code: doc.code,
+    couponId: doc.couponId,
+    ...(doc.maxRedemptions !== undefined ? { maxRedemptions: doc.maxRedemptions } : {}),
+    timesRedeemed: doc.timesRedeemed ?? 0,
+    expiresAt: doc.expiresAt ?? null,
+    active: doc.active,
+    ...(doc.createdBy ? { createdBy: doc.createdBy } : {}),
+    createdAt: doc.createdAt,
+  };
+}
+
+function toRedemption(doc: RedemptionDoc): CouponRedemption {
+  return {
+    id: String(doc._id),
+    scopeId: doc.scopeId,
+    couponId: doc.couponId,
+    promotionCodeId: doc.promotionCodeId,
+    code: doc.code,
+    planId: doc.planId,
+    provider: doc.provider,
+    status: doc.status ?? "confirmed",
+    expiresAt: doc.expiresAt ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+export const mongoCouponsRepo: CouponsRepo = {
+  async insertCoupon(input) {
+    const doc = {
+      _id: toNativeId(newEntityId()),
+      name: input.name,
+      discount: input.discount,
+      duration: input.duration,
+      ...(input.durationInMonths !== undefined ? { durationInMonths: input.durationInMonths } : {}),
+      ...(input.maxRedemptions !== undefined ? { maxRedemptions: input.maxRedemptions } : {}),
+      timesRedeemed: 0,
+      expiresAt: input.expiresAt ?? null,
+      ...(input.appliesToPlans ? { appliesToPlans: input.appliesToPlans } : {}),
+      ...(input.providerRefs ? { providerRefs: input.providerRefs } : {}),
+      ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+      createdAt: new Date(),
+      archivedAt: null,
+    } as CouponDoc;
+    await couponsCol().insertOne(doc);
+    return toCoupon(doc);
+  },
+  async findCouponById(id) {
+    const doc = await couponsCol().findOne(byId<CouponDoc>(id));
+    return doc ? toCoupon(doc) : null;
+  },
+  async listCoupons({ includeArchived }) {
+    const filter: Filter<CouponDoc> = includeArchived ? {} : { archivedAt: null };
+    const docs = await couponsCol().find(filter).sort({ createdAt: -1 }).toArray();
+    return docs.map(toCoupon);
+  },
+  async archiveCoupon(id) {
+    const builder = new UpdateBuilder<CouponDoc>().set("archivedAt", new Date());
+    const doc = await couponsCol().findOneAndUpdate(
+      { ...byId<CouponDoc>(id), archivedAt: null } as Filter<CouponDoc>,
+      toMongoUpdate(builder.build()) as Document,
+      { returnDocument: "after" }
+    );
+    if (doc) return toCoupon(doc);
+    // Already archived (or missing)
+    return this.findCouponById(id);
+  },
+  async insertPromotionCode(input) {
+    const doc = {
+      _id: toNativeId(newEntityId()),
+      code: input.code,
+      couponId: input.couponId,
+      ...(input.maxRedemptions !== undefined ? { maxRedemptions: input.maxRedemptions } : {}),
+      timesRedeemed: 0,
+      expiresAt: input.expiresAt ?? null,
+      active: true,
+      ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+      createdAt: new Date(),
+    } as PromotionCodeDoc;
+    try {
+      // Unique code index rejects duplicates
+      await codesCol().insertOne(doc);
+      return { ok: true as const, promotionCode: toPromotionCode(doc) };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+  },
+  async findPromotionCodeByCode(code) {
+    const doc = await codesCol().findOne({ code });
+    return doc ? toPromotionCode(doc) : null;
+  },
+  async listPromotionCodes(couponId) {
+    const docs = await codesCol().find({ couponId }).sort({ createdAt: -1 }).toArray();
+    return docs.map(toPromotionCode);
+  },
+  async setPromotionCodeActive(id, active) {
+    const builder = new UpdateBuilder<PromotionCodeDoc>().set("active", active);
+    const doc = await codesCol().findOneAndUpdate(
+      byId<PromotionCodeDoc>(id),
+      toMongoUpdate(builder.build()) as Document,
+      { returnDocument: "after" }
+    );
+    return doc ? toPromotionCode(doc) : null;
+  },
+  async findRedemption(couponId, scopeId) {
+    const doc = await redemptionsCol().findOne({ couponId, scopeId });
+    return doc ? toRedemption(doc) : null;
+  },
+  async reserveRedemption({ couponId, promotionCodeId }) {
+    const coupon = await couponsCol().updateOne(
+      { ...byId<CouponDoc>(couponId), ...belowLimit } as Filter<CouponDoc>,
+      { $inc: { timesRedeemed: 1 } }
+    );
+    if (coupon.modifiedCount === 0) return false;
+    const code = await codesCol().updateOne(
+      { ...byId<PromotionCodeDoc>(promotionCodeId), ...belowLimit } as Filter<PromotionCodeDoc>,
+      { $inc: { timesRedeemed: 1 } }
+    );
+    if (code.modifiedCount === 0) {
+      await couponsCol().updateOne(byId<CouponDoc>(couponId), { $inc: { timesRedeemed: -1 } });
+      return false;
+    }
+    return true;
+  },
+  async releaseRedemption({ couponId, promotionCodeId }) {
+    await couponsCol().updateOne(
+      { ...byId<CouponDoc>(couponId), timesRedeemed: { $gt: 0 } } as Filter<CouponDoc>,
+      { $inc: { timesRedeemed: -1 } }
+    );
+    await codesCol().updateOne(
+      { ...byId<PromotionCodeDoc>(promotionCodeId), timesRedeemed: { $gt: 0 } } as Filter<PromotionCodeDoc>,
+      { $inc: { timesRedeemed: -1 } }
+    );
+  },
+  async insertRedemption(input) {
+    const doc = {
+      _id: toNativeId(newEntityId()),
+      ...input,
+      createdAt: new Date(),
+    } as RedemptionDoc;
+    try {
+      // Unique (couponId, scopeId) index: one redemption per coupon and scope
+      await redemptionsCol().insertOne(doc);
+      return { ok: true as const, redemption: toRedemption(doc) };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+  },
+  async confirmRedemption(couponId, scopeId) {
+    const builder = new UpdateBuilder<RedemptionDoc>().set("status", "confirmed").set("expiresAt", null);
+    const doc = await redemptionsCol().findOneAndUpdate(
+      { couponId, scopeId, status: "pending" } as Filter<RedemptionDoc>,
+      toMongoUpdate(builder.build()) as Document,
+      { returnDocument: "after" }
+    );
+    return doc ? toRedemption(doc) : null;
+  },
+  async extendRedemption(id, expiresAt) {
+    const builder = new UpdateBuilder<RedemptionDoc>().set("expiresAt", expiresAt);
+    await redemptionsCol().updateOne(
+      { ...byId<RedemptionDoc>(id), status: "pending" } as Filter<RedemptionDoc>,
+      toMongoUpdate(builder.build()) as Document
+    );
+  },
+  async deletePendingRedemption(id) {
+    const res = await redemptionsCol().deleteOne({ ...byId<RedemptionDoc>(id), status: "pending" } as Filter<RedemptionDoc>);
+    return res.deletedCount > 0;
+  },
+  async listExpiredRedemptions(now, limit) {
+    const docs = await redemptionsCol()
+      .find({ status: "pending", expiresAt: { $lte: now } } as Filter<RedemptionDoc>)
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .toArray();
+    return docs.map(toRedemption);
+  },
+  async findLatestConfirmedRedemption(scopeId, provider) {
+    // Legacy redemptions without a status were confirmed when recorded
+    const doc = await redemptionsCol().findOne(
+      { scopeId, provider, status: { $ne: "pending" } } as Filter<RedemptionDoc>,
+      { sort: { createdAt: -1 } }
+    );
+    return doc ? toRedemption(doc) : null;
+  },
+};
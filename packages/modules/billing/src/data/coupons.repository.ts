@@ -0,0 +1,5 @@
+import type { CouponsRepo } from '../domain/ports';
+import { mongoCouponsRepo } from './coupons.repository.mongo';
+import { selectRepo } from '@unisane/kernel';
+
+export const CouponsRepository = selectRepo<CouponsRepo>({ mongo: mongoCouponsRepo });
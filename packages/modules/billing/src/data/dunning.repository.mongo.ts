@@ -0,0 +1,120 @@
+import {
+  col,
+  COLLECTIONS,
+  isDuplicateKeyError,
+  maybeObjectId,
+  newEntityId,
+  toNativeId,
+  UpdateBuilder,
+  toMongoUpdate,
+  type BillingProvider,
+  type Document,
+  type Filter,
+} from "@unisane/kernel";
+import type { DunningRepo } from "../domain/ports";
+import type { DunningCase, DunningStage, DunningStatus } from "../domain/types";
+
+type DunningCaseDoc = {
+  _id: unknown;
+  scopeId: string;
+  provider: BillingProvider;
+  providerSubId: string | null;
+  sagaId: string;
+  status: DunningStatus;
+  stage: DunningStage;
+  remindersSent: number;
+  suspendedTenant: boolean;
+  startedAt: Date;
+  restrictedAt: Date | null;
+  suspendedAt: Date | null;
+  resolvedAt: Date | null;
+} & Document;
+
+const casesCol = () => col<DunningCaseDoc>(COLLECTIONS.DUNNING_CASES);
+
+const byId = <T extends Document>(id: string) => ({ _id: maybeObjectId(id) }) as Filter<T>;
+
+function toDunningCase(doc: DunningCaseDoc): DunningCase {
+  return {
+    id: String(doc._id),
+    scopeId: doc.scopeId,
+    provider: doc.provider,
+    providerSubId: doc.providerSubId ?? null,
+    sagaId: doc.sagaId,
+    status: doc.status,
+    stage: doc.stage,
+    remindersSent: doc.remindersSent ?? 0,
+    suspendedTenant: doc.suspendedTenant ?? false,
+    startedAt: doc.startedAt,
+    restrictedAt: doc.restrictedAt ?? null,
+    suspendedAt: doc.suspendedAt ?? null,
+    resolvedAt: doc.resolvedAt ?? null,
+  };
+}
+
+export const mongoDunningRepo: DunningRepo = {
+  async open(input) {
+    const doc = {
+      _id: toNativeId(newEntityId()),
+      ...input,
+      status: "open",
+      stage: "reminding",
+      remindersSent: 0,
+      suspendedTenant: false,
+      startedAt: new Date(),
+      restrictedAt: null,
+      suspendedAt: null,
+      resolvedAt: null,
+    } as DunningCaseDoc;
+    try {
+      // Partial unique index on open cases: one per scope
+      await casesCol().insertOne(doc);
+      return { ok: true as const, dunningCase: toDunningCase(doc) };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+  },
+  async findById(id) {
+    const doc = await casesCol().findOne(byId<DunningCaseDoc>(id));
+    return doc ? toDunningCase(doc) : null;
+  },
+  async findOpen(scopeId) {
+    const doc = await casesCol().findOne({ scopeId, status: "open" });
+    return doc ? toDunningCase(doc) : null;
+  },
+  async list({ status, limit }) {
+    const filter: Filter<DunningCaseDoc> = status ? { status } : {};
+    const docs = await casesCol().find(filter).sort({ startedAt: -1 }).limit(limit).toArray();
+    return docs.map(toDunningCase);
+  },
+  async setStage(id, stage, patch) {
+    const current = await casesCol().findOne(byId<DunningCaseDoc>(id));
+    if (!current) return null;
+    const builder = new UpdateBuilder<DunningCaseDoc>().set("stage", stage);
+    // Keep the first time each stage was reached
+    if (stage === "restricted" && !current.restrictedAt) builder.set("restrictedAt", new Date());
+    if (stage === "suspended" && !current.suspendedAt) builder.set("suspendedAt", new Date());
+    if (patch?.suspendedTenant !== undefined) builder.set("suspendedTenant", patch.suspendedTenant);
+    const doc = await casesCol().findOneAndUpdate(
+      byId<DunningCaseDoc>(id),
+      toMongoUpdate(builder.build()) as Document,
+      { returnDocument: "after" }
+    );
+    return doc ? toDunningCase(doc) : null;
+  },
+  async recordReminder(id) {
+    await casesCol().updateOne(byId<DunningCaseDoc>(id), { $inc: { remindersSent: 1 } });
+  },
+  async resolve(id, status) {
+    const builder = new UpdateBuilder<DunningCaseDoc>()
+      .set("status", status)
+      .set("resolvedAt", new Date());
+    const doc = await casesCol().findOneAndUpdate(
+      { ...byId<DunningCaseDoc>(id), status: "open" } as Filter<DunningCaseDoc>,
+      toMongoUpdate(builder.build()) as Document,
+      { returnDocument: "after" }
+    );
+    return doc ? toDunningCase(doc) : null;
+  },
+};
@@ -0,0 +1,5 @@
+import type { DunningRepo } from '../domain/ports';
+import { mongoDunningRepo } from './dunning.repository.mongo';
+import { selectRepo } from '@unisane/kernel';
+
+export const DunningRepository = selectRepo<DunningRepo>({ mongo: mongoDunningRepo });
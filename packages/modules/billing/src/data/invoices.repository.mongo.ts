@@ -3,6 +3,7 @@ import {
   COLLECTIONS,
   seekPageMongoCollection,
   clampInt,
+  toNativeId,
   UpdateBuilder,
   toMongoUpdate,
   type Collection,
@@ -12,25 +13,45 @@ import {
   type InvoiceStatus,
 } from "@unisane/kernel";
 import type { InvoicesRepo } from "../domain/ports/invoices";
-import type { InvoiceListPage, InvoiceView } from "../domain/types";
+import type { InvoiceDetail, InvoiceLineItem, InvoiceListPage, InvoiceProvider, InvoiceView } from "../domain/types";
 
 type InvoiceDoc = {
   _id: unknown;
   scopeId: string;
   provider?: string | null;
   providerInvoiceId?: string | null;
+  providerPaymentId?: string | null;
+  number?: string | null;
   amount?: number | null;
   currency?: string | null;
   status?: InvoiceStatus | null;
   issuedAt?: Date | null;
   dueAt?: Date | null;
   url?: string | null;
+  lineItems?: InvoiceLineItem[] | null;
   createdAt?: Date;
   updatedAt?: Date;
 } & Document;
 
 const invoicesCol = (): Collection<InvoiceDoc> => col<InvoiceDoc>(COLLECTIONS.INVOICES);
 
+function toDetail(r: WithId<InvoiceDoc>): InvoiceDetail {
+  return {
+    id: String(r._id),
+    amount: r.amount ?? 0,
+    currency: r.currency ?? "USD",
+    status: r.status ?? "open",
+    issuedAt: r.issuedAt ?? null,
+    url: r.url ?? null,
+    provider: (r.provider as InvoiceProvider | null | undefined) ?? "stripe",
+    providerInvoiceId: r.providerInvoiceId ?? "",
+    providerPaymentId: r.providerPaymentId ?? null,
+    number: r.number ?? null,
+    dueAt: r.dueAt ?? null,
+    lineItems: r.lineItems ?? [],
+  };
+}
+
 export const mongoInvoicesRepo: InvoicesRepo = {
   async listPage(args: { scopeId: string; cursor?: string; limit: number }): Promise<InvoiceListPage> {
     // Explicitly include _id and sort keys in projection for seek pagination stability
@@ -67,7 +88,30 @@ export const mongoInvoicesRepo: InvoicesRepo = {
     for (const r of rows) m.set(String(r._id), r.invoicesOpenCount ?? 0);
     return m;
   },
-  async upsertByProviderId(args: { scopeId: string; provider: string; providerInvoiceId: string; amount: number; currency: string; status: InvoiceStatus; issuedAt?: Date | null; url?: string | null }): Promise<void> {
+  async findById(args: { scopeId: string; id: string }): Promise<InvoiceDetail | null> {
+    const r = await invoicesCol().findOne({ _id: toNativeId(args.id), scopeId: args.scopeId } as Filter<InvoiceDoc>);
+    return r ? toDetail(r) : null;
+  },
+  async findByProviderPaymentId(args: { scopeId: string; providerPaymentId: string }): Promise<InvoiceDetail | null> {
+    const r = await invoicesCol().findOne(
+      { scopeId: args.scopeId, providerPaymentId: args.providerPaymentId },
+      { sort: { issuedAt: -1 } }
+    );
+    return r ? toDetail(r) : null;
+  },
+  async upsertByProviderId(args: {
+    scopeId: string;
+    provider: string;
+    providerInvoiceId: string;
+    amount: number;
+    currency: string;
+    status: InvoiceStatus;
+    issuedAt?: Date | null;
+    url?: string | null;
+    number?: string | null;
+    providerPaymentId?: string | null;
+    lineItems?: InvoiceLineItem[];
+  }): Promise<void> {
     const now = new Date();
     const builder = new UpdateBuilder<InvoiceDoc>()
       .set("amount", args.amount)
@@ -77,6 +121,10 @@ export const mongoInvoicesRepo: InvoicesRepo = {
       .set("url", args.url ?? null)
       .set("updatedAt", now)
       .setOnInsert("createdAt", now);
+    // Only overwrite document details when the event carries them
+    if (args.number) builder.set("number", args.number);
+    if (args.providerPaymentId) builder.set("providerPaymentId", args.providerPaymentId);
+    if (args.lineItems?.length) builder.set("lineItems", args.lineItems);
     await invoicesCol().updateOne(
       { scopeId: args.scopeId, provider: args.provider, providerInvoiceId: args.providerInvoiceId },
       toMongoUpdate(builder.build()),
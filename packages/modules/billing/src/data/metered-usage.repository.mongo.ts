@@ -0,0 +1,71 @@
+import {
+  col,
+  COLLECTIONS,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+} from "@unisane/kernel";
+import type { MeteredUsageRepo } from "../domain/ports";
+import type { InvoiceProvider, MeteredUsageRecord, MeteredUsageStatus } from "../domain/types";
+
+type MeteredUsageDoc = {
+  _id: unknown;
+  scopeId: string;
+  feature: string;
+  periodStart: Date;
+  periodEnd: Date;
+  quantity: number;
+  amount: number;
+  currency: string;
+  provider: InvoiceProvider;
+  status: MeteredUsageStatus;
+  providerInvoiceId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+} & Document;
+
+const usageCol = () => col<MeteredUsageDoc>(COLLECTIONS.METERED_USAGE);
+
+function toRecord(doc: MeteredUsageDoc): MeteredUsageRecord {
+  return {
+    id: String(doc._id),
+    scopeId: doc.scopeId,
+    feature: doc.feature,
+    periodStart: doc.periodStart,
+    periodEnd: doc.periodEnd,
+    quantity: doc.quantity,
+    amount: doc.amount,
+    currency: doc.currency,
+    provider: doc.provider,
+    status: doc.status,
+    providerInvoiceId: doc.providerInvoiceId ?? null,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+export const mongoMeteredUsageRepo: MeteredUsageRepo = {
+  async upsert(input) {
+    const now = new Date();
+    const builder = new UpdateBuilder<MeteredUsageDoc>()
+      .set("periodEnd", input.periodEnd)
+      .set("quantity", input.quantity)
+      .set("amount", input.amount)
+      .set("currency", input.currency)
+      .set("provider", input.provider)
+      .set("status", input.status)
+      .set("providerInvoiceId", input.providerInvoiceId)
+      .set("updatedAt", now)
+      .setOnInsert("createdAt", now);
+    const doc = await usageCol().findOneAndUpdate(
+      { scopeId: input.scopeId, feature: input.feature, periodStart: input.periodStart },
+      toMongoUpdate(builder.build()) as Document,
+      { upsert: true, returnDocument: "after" }
+    );
+    if (!doc) throw new Error("metered usage upsert returned no document");
+    return toRecord(doc);
+  },
+  async listForPeriod(scopeId, periodStart) {
+    const docs = await usageCol().find({ scopeId, periodStart }).sort({ feature: 1 }).toArray();
+    return docs.map(toRecord);
+  },
+};
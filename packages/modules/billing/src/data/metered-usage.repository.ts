@@ -0,0 +1,5 @@
+import type { MeteredUsageRepo } from '../domain/ports';
+import { mongoMeteredUsageRepo } from './metered-usage.repository.mongo';
+import { selectRepo } from '@unisane/kernel';
+
+export const MeteredUsageRepository = selectRepo<MeteredUsageRepo>({ mongo: mongoMeteredUsageRepo });
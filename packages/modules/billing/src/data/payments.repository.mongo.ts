@@ -2,6 +2,7 @@ import {
   col,
   COLLECTIONS,
   seekPageMongoCollection,
+  toNativeId,
   UpdateBuilder,
   toMongoUpdate,
   type Collection,
@@ -30,6 +31,18 @@ type PaymentDoc = {
 
 const paymentsCol = (): Collection<PaymentDoc> => col<PaymentDoc>(COLLECTIONS.PAYMENTS);
 
+function toDetail(p: WithId<PaymentDoc>, providerPaymentId: string): PaymentDetail {
+  return {
+    id: String(p._id),
+    amount: (p.amount as number | null | undefined) ?? 0,
+    currency: (p.currency as string | null | undefined) ?? 'USD',
+    status: (p.status as PaymentStatus | null | undefined) ?? 'processing',
+    capturedAt: (p.capturedAt as Date | undefined) ?? null,
+    provider: (p.provider as BillingProvider | null | undefined) ?? "stripe",
+    providerPaymentId: (p.providerPaymentId as string | null | undefined) ?? providerPaymentId,
+  };
+}
+
 export const mongoPaymentsRepo: PaymentsRepo = {
   async listPage(args: {
     scopeId: string;
@@ -64,15 +77,12 @@ export const mongoPaymentsRepo: PaymentsRepo = {
   }): Promise<PaymentDetail | null> {
     const p = await paymentsCol().findOne({ scopeId: args.scopeId, providerPaymentId: args.providerPaymentId });
     if (!p) return null;
-    return {
-      id: String(p._id),
-      amount: (p.amount as number | null | undefined) ?? 0,
-      currency: (p.currency as string | null | undefined) ?? 'USD',
-      status: (p.status as PaymentStatus | null | undefined) ?? 'processing',
-      capturedAt: (p.capturedAt as Date | undefined) ?? null,
-      provider: (p.provider as BillingProvider | null | undefined) ?? "stripe",
-      providerPaymentId: (p.providerPaymentId as string | null | undefined) ?? args.providerPaymentId,
-    };
+    return toDetail(p, args.providerPaymentId);
+  },
+  async findById(args: { scopeId: string; id: string }): Promise<PaymentDetail | null> {
+    const p = await paymentsCol().findOne({ _id: toNativeId(args.id), scopeId: args.scopeId } as Filter<PaymentDoc>);
+    if (!p) return null;
+    return toDetail(p, "");
   },
   async markRefunded(id: string): Promise<void> {
     const builder = new UpdateBuilder<PaymentDoc>()
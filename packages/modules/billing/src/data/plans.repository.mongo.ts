@@ -0,0 +1,105 @@
+import {
+  col,
+  COLLECTIONS,
+  isDuplicateKeyError,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+  type MeteredPrice,
+  type PlanEntitlements,
+  type PlanId,
+  type PlanMeta,
+} from "@unisane/kernel";
+import type { ObjectId } from "mongodb";
+import type { PlanCatalogRepo } from "../domain/ports";
+import type { PlanVersion, PlanVersionInput } from "../domain/types";
+
+/**
+ * MongoDB document type - one immutable version per document.
+ */
+type PlanVersionDoc = PlanMeta & {
+  _id: ObjectId;
+  planId: PlanId;
+  version: number;
+  entitlements: PlanEntitlements;
+  metered?: MeteredPrice[];
+  createdBy?: string;
+  createdAt: Date;
+  archivedAt: Date | null;
+};
+
+const plansCol = () => col<PlanVersionDoc>(COLLECTIONS.PLAN_VERSIONS);
+
+function toView(doc: PlanVersionDoc): PlanVersion {
+  return {
+    planId: doc.planId,
+    version: doc.version,
+    label: doc.label,
+    tagline: doc.tagline,
+    ...(doc.recommended !== undefined ? { recommended: doc.recommended } : {}),
+    ...(doc.features ? { features: doc.features } : {}),
+    ...(doc.defaultPrice ? { defaultPrice: doc.defaultPrice } : {}),
+    entitlements: doc.entitlements,
+    ...(doc.metered?.length ? { metered: doc.metered } : {}),
+    ...(doc.createdBy ? { createdBy: doc.createdBy } : {}),
+    createdAt: doc.createdAt,
+    archivedAt: doc.archivedAt ?? null,
+  };
+}
+
+export const mongoPlanCatalogRepo: PlanCatalogRepo = {
+  async findLatest(planId) {
+    const doc = await plansCol().findOne({ planId }, { sort: { version: -1 } });
+    return doc ? toView(doc) : null;
+  },
+  async findVersion(planId, version) {
+    const doc = await plansCol().findOne({ planId, version });
+    return doc ? toView(doc) : null;
+  },
+  async listLatest() {
+    const docs = (await plansCol()
+      .aggregate([
+        { $sort: { planId: 1, version: -1 } },
+        { $group: { _id: "$planId", doc: { $first: "$$ROOT" } } },
+        { $replaceRoot: { newRoot: "$doc" } },
+      ])
+      .toArray()) as PlanVersionDoc[];
+    return docs.map(toView);
+  },
+  async listVersions(planId) {
+    const docs = await plansCol().find({ planId }).sort({ version: -1 }).toArray();
+    return docs.map(toView);
+  },
+  async insertVersion(input: PlanVersionInput) {
+    const doc: Omit<PlanVersionDoc, "_id"> = {
+      planId: input.planId,
+      version: input.version,
+      label: input.label,
+      tagline: input.tagline,
+      ...(input.recommended !== undefined ? { recommended: input.recommended } : {}),
+      ...(input.features ? { features: input.features } : {}),
+      ...(input.defaultPrice ? { defaultPrice: input.defaultPrice } : {}),
+      entitlements: input.entitlements,
+      ...(input.metered?.length ? { metered: input.metered } : {}),
+      ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+      createdAt: new Date(),
+      archivedAt: null,
+    };
+    try {
+      // Unique (planId, version) index serializes concurrent publishes
+      const result = await plansCol().insertOne(doc as PlanVersionDoc);
+      return { ok: true as const, plan: toView({ ...doc, _id: result.insertedId } as PlanVersionDoc) };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+  },
+  async setArchived(planId, archived) {
+    const builder = new UpdateBuilder<PlanVersionDoc>().set("archivedAt", archived ? new Date() : null);
+    const result = await plansCol().updateMany(
+      { planId, archivedAt: archived ? null : { $ne: null } },
+      toMongoUpdate(builder.build()) as Document
+    );
+    return result.modifiedCount;
+  },
+};
@@ -0,0 +1,5 @@
+import type { PlanCatalogRepo } from '../domain/ports';
+import { mongoPlanCatalogRepo } from './plans.repository.mongo';
+import { selectRepo } from '@unisane/kernel';
+
+export const PlanCatalogRepository = selectRepo<PlanCatalogRepo>({ mongo: mongoPlanCatalogRepo });
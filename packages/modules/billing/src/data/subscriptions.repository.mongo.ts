@@ -10,7 +10,7 @@ import {
   type BillingProvider,
 } from "@unisane/kernel";
 import type { SubscriptionsRepo, LatestSub } from "../domain/ports";
-import type { SubscriptionView } from "../domain/types";
+import type { PlanPin, SubscriptionView } from "../domain/types";
 
 type SubscriptionDoc = {
   _id: unknown;
@@ -23,6 +23,7 @@ type SubscriptionDoc = {
   providerStatus?: string | null;
   currentPeriodEnd?: Date | null;
   cancelAtPeriodEnd?: boolean | null;
+  pinnedPlan?: PlanPin | null;
   createdAt?: Date;
   updatedAt?: Date;
 } & Document;
@@ -33,7 +34,7 @@ export const mongoSubscriptionsRepo: SubscriptionsRepo = {
   async findLatest(scopeId: string): Promise<SubscriptionView | null> {
     const doc = await subsCol()
       .find({ scopeId })
-      .project({ planId: 1, quantity: 1, status: 1, cancelAtPeriodEnd: 1, currentPeriodEnd: 1 })
+      .project({ planId: 1, quantity: 1, status: 1, cancelAtPeriodEnd: 1, currentPeriodEnd: 1, pinnedPlan: 1 })
       .sort({ createdAt: -1 })
       .limit(1)
       .next();
@@ -45,6 +46,7 @@ export const mongoSubscriptionsRepo: SubscriptionsRepo = {
       status: (doc.status as SubscriptionStatus | null | undefined) ?? 'active',
       cancelAtPeriodEnd: Boolean(doc.cancelAtPeriodEnd),
       currentPeriodEnd: (doc.currentPeriodEnd as Date | null | undefined) ?? null,
+      ...(doc.pinnedPlan ? { pinnedPlan: doc.pinnedPlan as PlanPin } : {}),
     };
   },
   async findLatestByScopeIds(scopeIds: string[]) {
@@ -145,8 +147,17 @@ export const mongoSubscriptionsRepo: SubscriptionsRepo = {
     providerStatus?: string | null;
     cancelAtPeriodEnd?: boolean;
     currentPeriodEnd?: Date | null;
+    pinnedPlan?: PlanPin;
   }): Promise<void> {
     const now = new Date();
+    const filter = { scopeId: args.scopeId, provider: args.provider, providerSubId: args.providerSubId };
+    if (args.pinnedPlan) {
+      // A plan change buys the current catalog version; renewals keep the old pin
+      await subsCol().updateOne(
+        { ...filter, planId: { $ne: args.planId } },
+        { $set: { pinnedPlan: args.pinnedPlan } }
+      );
+    }
     const builder = new UpdateBuilder<SubscriptionDoc>()
       .set("planId", args.planId)
       .set("quantity", args.quantity)
@@ -158,8 +169,11 @@ export const mongoSubscriptionsRepo: SubscriptionsRepo = {
     if (args.providerStatus !== undefined) {
       builder.set("providerStatus", args.providerStatus);
     }
+    if (args.pinnedPlan) {
+      builder.setOnInsert("pinnedPlan", args.pinnedPlan);
+    }
     await subsCol().updateOne(
-      { scopeId: args.scopeId, provider: args.provider, providerSubId: args.providerSubId },
+      filter,
       toMongoUpdate(builder.build()) as Document,
       { upsert: true }
     );
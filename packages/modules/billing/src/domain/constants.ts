@@ -18,6 +18,15 @@ export const BILLING_EVENTS = {
   TOPUP_COMPLETED: 'billing.topup.completed',
 } as const;
 
+/** Email templates sent by billing (rendered by the app's template renderer) */
+export const BILLING_EMAIL_TEMPLATES = {
+  PAYMENT_SUCCEEDED: 'billing_payment_succeeded',
+  DUNNING_REMINDER: 'billing_dunning_reminder',
+  DUNNING_RESTRICTED: 'billing_dunning_restricted',
+  DUNNING_SUSPENDED: 'billing_dunning_suspended',
+  DUNNING_RECOVERED: 'billing_dunning_recovered',
+} as const;
+
 export const BILLING_DEFAULTS = {
   DEFAULT_CURRENCY: 'usd',
   MIN_QUANTITY: 1,
@@ -25,6 +34,7 @@ export const BILLING_DEFAULTS = {
   TRIAL_DAYS: 14,
   GRACE_PERIOD_DAYS: 3,
   CACHE_TTL_MS: 60_000,
+  DUNNING_MAX_REMINDERS: 5,
 } as const;
 
 export const BILLING_COLLECTIONS = {
@@ -0,0 +1,86 @@
+/**
+ * Coupon discount rules.
+ *
+ * Pure helpers shared by checkout (provider and internal) and the promotion
+ * code preview. Amounts are handled as `Money` so fixed discounts never mix
+ * currencies or go below zero.
+ */
+
+import { Money, type CurrencyCode } from '@unisane/kernel';
+import type { Coupon, CouponDiscount, PromotionCode } from './types';
+
+/**
+ * Discount on one billing period's price, capped at the price.
+ */
+export function discountAmount(price: Money, discount: CouponDiscount): Money {
+  if (discount.type === 'percent') {
+    return price.multiply(discount.percentOff / 100);
+  }
+  const currency = discount.amountOff.currency.toUpperCase();
+  if (currency !== price.currency) {
+    throw new Error(`Currency mismatch: coupon is ${currency}, price is ${price.currency}`);
+  }
+  const off = Money.fromMajor(discount.amountOff.amount, currency as CurrencyCode);
+  return off.greaterThan(price) ? price : off;
+}
+
+/**
+ * Whether the coupon discounts billing period `period` (0 = first) of a
+ * subscription billed every `interval`.
+ */
+export function coversPeriod(
+  coupon: Pick<Coupon, 'duration' | 'durationInMonths'>,
+  period: number,
+  interval: 'month' | 'year'
+): boolean {
+  switch (coupon.duration) {
+    case 'once':
+      return period === 0;
+    case 'forever':
+      return true;
+    case 'repeating': {
+      // Like Stripe: every period that starts within the coupon's months
+      const monthsElapsed = period * (interval === 'year' ? 12 : 1);
+      return monthsElapsed < (coupon.durationInMonths ?? 0);
+    }
+  }
+}
+
+/**
+ * Why a promotion code cannot be redeemed for `planId`, or null when it can.
+ */
+export function unavailableReason(args: {
+  coupon: Coupon;
+  promotionCode: PromotionCode;
+  planId: string;
+  /** Plan price currency, checked against fixed-amount coupons */
+  currency?: string;
+  /** The scope already holds a redemption, so limits no longer apply */
+  redeemed?: boolean;
+  now?: Date;
+}): string | null {
+  const { coupon, promotionCode } = args;
+  const now = args.now ?? new Date();
+  if (!promotionCode.active || coupon.archivedAt) return 'no longer active';
+  if (promotionCode.expiresAt && promotionCode.expiresAt <= now) return 'expired';
+  if (coupon.expiresAt && coupon.expiresAt <= now) return 'expired';
+  if (!args.redeemed) {
+    if (promotionCode.maxRedemptions !== undefined && promotionCode.timesRedeemed >= promotionCode.maxRedemptions) {
+      return 'fully redeemed';
+    }
+    if (coupon.maxRedemptions !== undefined && coupon.timesRedeemed >= coupon.maxRedemptions) {
+      return 'fully redeemed';
+    }
+  }
+  if (coupon.appliesToPlans && !coupon.appliesToPlans.some((p) => p === args.planId)) {
+    return 'not valid for this plan';
+  }
+  if (
+    coupon.discount.type === 'fixed' &&
+    args.currency &&
+    coupon.discount.amountOff.currency.toUpperCase() !== args.currency.toUpperCase()
+  ) {
+    return 'not valid for this currency';
+  }
+  return null;
+}
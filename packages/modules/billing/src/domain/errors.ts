@@ -106,6 +106,16 @@ export class InvoiceNotFoundError extends DomainError {
   }
 }
 
+export class InvalidCouponError extends DomainError {
+  readonly code = ErrorCode.INVALID_COUPON;
+  readonly status = 400;
+
+  constructor(code: string, reason: string) {
+    super(`Promotion code ${code} cannot be redeemed: ${reason}`);
+    this.name = 'InvalidCouponError';
+  }
+}
+
 export class BillingProviderError extends DomainError {
   readonly code = ErrorCode.EXTERNAL_API_ERROR;
   readonly status = 502;
@@ -0,0 +1,140 @@
+/**
+ * Invoice and receipt documents.
+ *
+ * Builds the HTML for tenant-branded billing documents from stored invoice
+ * and payment records. Only headings, paragraphs and tables are used, so any
+ * `PdfRendererPort` (including the built-in one) can lay it out.
+ */
+
+import { Money } from '@unisane/kernel';
+import type { InvoiceLineItem } from './types';
+
+export type BillingDocumentKind = 'invoice' | 'receipt';
+
+export interface BillingDocument {
+  kind: BillingDocumentKind;
+  number: string;
+  issuedAt: Date;
+  dueAt?: Date | null;
+  status: string;
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  /** Amount due (invoice) or paid (receipt) in major units */
+  total: number;
+  billTo: {
+    name: string;
+    address?: string;
+    taxId?: string;
+    email?: string;
+  };
+  payment?: {
+    reference: string;
+    provider: string;
+    paidAt: Date | null;
+  } | null;
+}
+
+const NUMBER_PREFIX: Record<BillingDocumentKind, string> = {
+  invoice: 'INV',
+  receipt: 'RCT',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+}
+
+/**
+ * Format a major-unit amount with the `Money` value object. Currencies the
+ * platform does not know are printed as `12.50 XYZ`.
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const code = currency.toUpperCase();
+  try {
+    const money = Money.tryCreate(amount, code);
+    if (money) return money.format();
+  } catch {
+    // Unknown ISO code for Intl - fall through
+  }
+  return `${amount.toFixed(2)} ${code}`;
+}
+
+/**
+ * Document number printed on the PDF: the provider's invoice number when
+ * known, otherwise derived from the record id.
+ */
+export function documentNumber(kind: BillingDocumentKind, id: string, number?: string | null): string {
+  if (number) return number;
+  return `${NUMBER_PREFIX[kind]}-${id.slice(-8).toUpperCase()}`;
+}
+
+export function documentFilename(doc: Pick<BillingDocument, 'kind' | 'number'>): string {
+  const safe = doc.number.replace(/[^A-Za-z0-9_-]+/g, '-');
+  return `${doc.kind}-${safe}.pdf`;
+}
+
+export function buildBillingDocumentHtml(doc: BillingDocument): string {
+  const title = doc.kind === 'invoice' ? 'Invoice' : 'Receipt';
+  const money = (amount: number) => escapeHtml(formatMoney(amount, doc.currency));
+  const parts: string[] = [];
+
+  parts.push(`<h1>${escapeHtml(doc.billTo.name)}</h1>`);
+  if (doc.billTo.address) {
+    parts.push(`<p>${doc.billTo.address.split(/\r?\n/).map(escapeHtml).join('<br>')}</p>`);
+  }
+  if (doc.billTo.taxId) parts.push(`<p>Tax ID: ${escapeHtml(doc.billTo.taxId)}</p>`);
+  if (doc.billTo.email) parts.push(`<p>${escapeHtml(doc.billTo.email)}</p>`);
+  parts.push('<hr>');
+
+  parts.push(`<h2>${title} ${escapeHtml(doc.number)}</h2>`);
+  const meta: Array<[string, string]> = [
+    [doc.kind === 'invoice' ? 'Issued' : 'Date', formatDate(doc.issuedAt)],
+  ];
+  if (doc.dueAt) meta.push(['Due', formatDate(doc.dueAt)]);
+  meta.push(['Status', capitalize(doc.status)]);
+  parts.push(
+    `<table>${meta.map(([k, v]) => `<tr><td>${k}</td><td>${escapeHtml(v)}</td></tr>`).join('')}</table>`
+  );
+
+  const items = doc.lineItems.length > 0
+    ? doc.lineItems
+    : [{ description: title === 'Invoice' ? 'Subscription' : 'Payment', quantity: 1, unitAmount: doc.total, amount: doc.total }];
+  parts.push(
+    '<table><tr><th>Description</th><th>Qty</th><th>Unit price</th><th>Amount</th></tr>' +
+      items
+        .map(
+          (item) =>
+            `<tr><td>${escapeHtml(item.description)}</td><td>${item.quantity}</td>` +
+            `<td>${money(item.unitAmount)}</td><td>${money(item.amount)}</td></tr>`
+        )
+        .join('') +
+      '</table>'
+  );
+  parts.push('<hr>');
+  parts.push(
+    `<table><tr><td><b>${doc.kind === 'invoice' ? 'Total' : 'Amount paid'}</b></td>` +
+      `<td><b>${money(doc.total)}</b></td></tr></table>`
+  );
+
+  if (doc.payment) {
+    const paidOn = doc.payment.paidAt ? ` on ${formatDate(doc.payment.paidAt)}` : '';
+    parts.push(
+      `<p>Paid via ${escapeHtml(capitalize(doc.payment.provider))}${paidOn}. ` +
+        `Reference: ${escapeHtml(doc.payment.reference)}</p>`
+    );
+  }
+
+  return `<html><body>${parts.join('\n')}</body></html>`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Metered price rules.
+ *
+ * Pure helpers shared by the period close, provider usage reports and the
+ * upcoming invoice preview. Unit prices may be fractions of a minor unit, so
+ * a component is summed in major units and rounded once into `Money`.
+ */
+
+import { Money, type CurrencyCode, type MeteredPrice } from '@unisane/kernel';
+import { BillingPeriod } from './value-objects/billing-period';
+import type { InvoiceLineItem } from './types';
+
+/**
+ * Units charged after the free `includedUnits`.
+ */
+export function billableUnits(price: Pick<MeteredPrice, 'includedUnits'>, quantity: number): number {
+  return Math.max(0, quantity - (price.includedUnits ?? 0));
+}
+
+/**
+ * Charge for `quantity` units of usage in one period.
+ */
+export function meteredAmount(price: MeteredPrice, quantity: number): Money {
+  const currency = price.currency.toUpperCase() as CurrencyCode;
+  const units = billableUnits(price, quantity);
+  if (units === 0) return Money.zero(currency);
+
+  let major = 0;
+  const tiers = price.tiers ?? [];
+  switch (price.model) {
+    case 'per_unit':
+      major = units * (price.unitAmount ?? 0);
+      break;
+    case 'tiered': {
+      // Graduated: each band at its own price
+      let below = 0;
+      for (const tier of tiers) {
+        const upTo = tier.upTo ?? Infinity;
+        const inTier = Math.min(units, upTo) - below;
+        if (inTier <= 0) break;
+        major += inTier * tier.unitAmount + (tier.flatAmount ?? 0);
+        below = upTo;
+      }
+      break;
+    }
+    case 'volume': {
+      // All units at the price of the band the total falls in
+      const tier = tiers.find((t) => t.upTo === null || units <= t.upTo) ?? tiers[tiers.length - 1];
+      if (tier) major = units * tier.unitAmount + (tier.flatAmount ?? 0);
+      break;
+    }
+  }
+  return Money.fromMajor(major, currency);
+}
+
+/**
+ * Invoice line for one metered component, or null when nothing is billable.
+ */
+export function meteredLineItem(price: MeteredPrice, quantity: number): InvoiceLineItem | null {
+  const units = billableUnits(price, quantity);
+  if (units === 0) return null;
+  const amount = meteredAmount(price, quantity).toMajor();
+  return {
+    description: price.includedUnits ? `${price.label} (${price.includedUnits} included)` : price.label,
+    quantity: units,
+    // Exact for per-unit prices, the average for tiers
+    unitAmount: price.model === 'per_unit' ? (price.unitAmount ?? 0) : amount / units,
+    amount,
+  };
+}
+
+/**
+ * Billing period containing `at`: the provider subscription period when its
+ * end is known and still ahead, otherwise the calendar month (UTC).
+ */
+export function meteredPeriod(args: {
+  at: Date;
+  currentPeriodEnd?: Date | null;
+  interval?: 'month' | 'year';
+}): BillingPeriod {
+  const { at, currentPeriodEnd } = args;
+  if (currentPeriodEnd && currentPeriodEnd > at) {
+    const period = BillingPeriod.fromEnd(currentPeriodEnd, args.interval === 'year' ? 12 : 1);
+    if (period.start <= at) return period;
+  }
+  return calendarMonth(at);
+}
+
+/**
+ * Calendar month (UTC) containing `at`, as [start, end).
+ */
+export function calendarMonth(at: Date): BillingPeriod {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+  return BillingPeriod.create(start, end);
+}
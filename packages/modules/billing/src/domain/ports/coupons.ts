@@ -0,0 +1,46 @@
+import type {
+  Coupon,
+  CouponInput,
+  CouponRedemption,
+  CouponRedemptionInput,
+  InvoiceProvider,
+  PromotionCode,
+  PromotionCodeInput,
+} from '../types';
+
+/**
+ * Port interface for coupons, their promotion codes and redemptions.
+ * Coupons are platform-wide; redemptions are scoped.
+ */
+export interface CouponsRepo {
+  insertCoupon(input: CouponInput): Promise<Coupon>;
+  findCouponById(id: string): Promise<Coupon | null>;
+  // Newest first
+  listCoupons(args: { includeArchived: boolean }): Promise<Coupon[]>;
+  archiveCoupon(id: string): Promise<Coupon | null>;
+  // Conflicts when the code is already taken
+  insertPromotionCode(
+    input: PromotionCodeInput
+  ): Promise<{ ok: true; promotionCode: PromotionCode } | { conflict: true }>;
+  findPromotionCodeByCode(code: string): Promise<PromotionCode | null>;
+  listPromotionCodes(couponId: string): Promise<PromotionCode[]>;
+  setPromotionCodeActive(id: string, active: boolean): Promise<PromotionCode | null>;
+  findRedemption(couponId: string, scopeId: string): Promise<CouponRedemption | null>;
+  // Count one redemption against both limits; false when either is exhausted
+  reserveRedemption(args: { couponId: string; promotionCodeId: string }): Promise<boolean>;
+  releaseRedemption(args: { couponId: string; promotionCodeId: string }): Promise<void>;
+  // One redemption per coupon and scope; conflicts on a repeat
+  insertRedemption(
+    input: CouponRedemptionInput
+  ): Promise<{ ok: true; redemption: CouponRedemption } | { conflict: true }>;
+  // Pending redemption of the coupon by the scope becomes confirmed; null when none is pending
+  confirmRedemption(couponId: string, scopeId: string): Promise<CouponRedemption | null>;
+  // Push back the expiry of a pending redemption
+  extendRedemption(id: string, expiresAt: Date): Promise<void>;
+  // Delete a redemption that is still pending; false when it was confirmed or is gone
+  deletePendingRedemption(id: string): Promise<boolean>;
+  // Pending redemptions whose expiry passed, oldest expiry first
+  listExpiredRedemptions(now: Date, limit: number): Promise<CouponRedemption[]>;
+  // Newest confirmed redemption of the scope billed by `provider`
+  findLatestConfirmedRedemption(scopeId: string, provider: InvoiceProvider): Promise<CouponRedemption | null>;
+}
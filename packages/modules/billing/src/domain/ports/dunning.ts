@@ -0,0 +1,18 @@
+import type { DunningCase, DunningCaseInput, DunningStage, DunningStatus } from '../types';
+
+/**
+ * Port interface for dunning cases. A scope has at most one open case.
+ */
+export interface DunningRepo {
+  // Conflicts when the scope already has an open case
+  open(input: DunningCaseInput): Promise<{ ok: true; dunningCase: DunningCase } | { conflict: true }>;
+  findById(id: string): Promise<DunningCase | null>;
+  findOpen(scopeId: string): Promise<DunningCase | null>;
+  // Newest first
+  list(args: { status?: DunningStatus; limit: number }): Promise<DunningCase[]>;
+  // Entering `restricted`/`suspended` the first time stamps its timestamp
+  setStage(id: string, stage: DunningStage, patch?: { suspendedTenant?: boolean }): Promise<DunningCase | null>;
+  recordReminder(id: string): Promise<void>;
+  // Null when the case is not open
+  resolve(id: string, status: Exclude<DunningStatus, 'open'>): Promise<DunningCase | null>;
+}
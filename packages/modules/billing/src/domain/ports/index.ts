@@ -2,3 +2,7 @@ export * from './subscriptions';
 export * from './payments';
 export * from './invoices';
 export * from './scope-integrations';
+export * from './plans';
+export * from './coupons';
+export * from './dunning';
+export * from './metered-usage';
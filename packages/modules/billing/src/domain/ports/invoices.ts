@@ -1,19 +1,23 @@
-import type { InvoiceListPage } from '../types';
-import type { BillingProvider } from '@unisane/kernel';
+import type { InvoiceDetail, InvoiceLineItem, InvoiceListPage, InvoiceProvider } from '../types';
 import type { InvoiceStatus } from '@unisane/kernel';
 
 export interface InvoicesRepo {
   listPage(args: { scopeId: string; cursor?: string; limit: number }): Promise<InvoiceListPage>;
   // Admin/stats: count open invoices grouped by scopeId
   countOpenByScopeIds(scopeIds: string[]): Promise<Map<string, number>>;
+  findById(args: { scopeId: string; id: string }): Promise<InvoiceDetail | null>;
+  findByProviderPaymentId(args: { scopeId: string; providerPaymentId: string }): Promise<InvoiceDetail | null>;
   upsertByProviderId(args: {
     scopeId: string;
-    provider: BillingProvider;
+    provider: InvoiceProvider;
     providerInvoiceId: string;
     amount: number;
     currency: string;
     status: InvoiceStatus;
     issuedAt?: Date | null;
     url?: string | null;
+    number?: string | null;
+    providerPaymentId?: string | null;
+    lineItems?: InvoiceLineItem[];
   }): Promise<void>;
 }
@@ -0,0 +1,12 @@
+import type { MeteredUsageInput, MeteredUsageRecord } from '../types';
+
+/**
+ * Port interface for metered usage records, one per scope, feature and
+ * billing period.
+ */
+export interface MeteredUsageRepo {
+  // Insert or replace the record of the scope, feature and period
+  upsert(input: MeteredUsageInput): Promise<MeteredUsageRecord>;
+  // Records of a scope for the period starting at `periodStart`
+  listForPeriod(scopeId: string, periodStart: Date): Promise<MeteredUsageRecord[]>;
+}
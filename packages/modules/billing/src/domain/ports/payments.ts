@@ -5,6 +5,7 @@ import type { PaymentStatus } from '@unisane/kernel';
 export interface PaymentsRepo {
   listPage(args: { scopeId: string; cursor?: string; limit: number }): Promise<PaymentListPage>;
   findByProviderPaymentId(args: { scopeId: string; providerPaymentId: string }): Promise<PaymentDetail | null>;
+  findById(args: { scopeId: string; id: string }): Promise<PaymentDetail | null>;
   markRefunded(id: string): Promise<void>;
   upsertByProviderId(args: {
     scopeId: string;
@@ -0,0 +1,20 @@
+import type { PlanId } from '@unisane/kernel';
+import type { PlanVersion, PlanVersionInput, PlanVersionInsertResult } from '../types';
+
+/**
+ * Port interface for the plan catalog. Versions are immutable; the catalog
+ * is platform-wide, not tenant-scoped.
+ */
+export interface PlanCatalogRepo {
+  // Highest version of a plan, archived or not
+  findLatest(planId: PlanId): Promise<PlanVersion | null>;
+  findVersion(planId: PlanId, version: number): Promise<PlanVersion | null>;
+  // Latest version of every plan in the catalog
+  listLatest(): Promise<PlanVersion[]>;
+  // All versions of a plan, newest first
+  listVersions(planId: PlanId): Promise<PlanVersion[]>;
+  // Insert an immutable version; conflicts when that version already exists
+  insertVersion(input: PlanVersionInput): Promise<PlanVersionInsertResult>;
+  // Withdraw a plan from sale (or restore it) across all its versions
+  setArchived(planId: PlanId, archived: boolean): Promise<number>;
+}
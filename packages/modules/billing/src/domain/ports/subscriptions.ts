@@ -1,4 +1,4 @@
-import type { SubscriptionView } from '../types';
+import type { PlanPin, SubscriptionView } from '../types';
 import type { BillingProvider, SubscriptionStatus } from '@unisane/kernel';
 
 /**
@@ -30,6 +30,8 @@ export interface SubscriptionsRepo {
     providerStatus?: string | null;
     cancelAtPeriodEnd?: boolean;
     currentPeriodEnd?: Date | null;
+    // Catalog version to pin; re-pinned only when the provider plan changes
+    pinnedPlan?: PlanPin;
   }): Promise<void>;
   listByProviderId(provider: BillingProvider): Promise<Array<{ scopeId: string; providerSubId: string }>>;
   listByStatusAged(statuses: SubscriptionStatus[], updatedBefore: Date, limit: number): Promise<Array<{ scopeId: string; providerSubId?: string | null; status?: SubscriptionStatus | null; updatedAt?: Date | null }>>;
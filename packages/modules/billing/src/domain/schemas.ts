@@ -1,8 +1,18 @@
 import { z } from 'zod';
 
+/** Customer-facing promotion code; matched case-insensitively */
+export const ZPromotionCodeValue = z
+  .string()
+  .trim()
+  .min(3)
+  .max(40)
+  .regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, "-" and "_"')
+  .transform((v) => v.toUpperCase());
+
 export const ZSubscribe = z.object({
   planId: z.string().min(2),
   quantity: z.number().int().positive().optional(),
+  promotionCode: ZPromotionCodeValue.optional(),
   successUrl: z.string().url(),
   cancelUrl: z.string().url(),
 });
@@ -32,3 +42,313 @@ export const ZChangeQuantity = z.object({
 export const ZChangePlan = z.object({
   planId: z.string().min(2),
 });
+
+/** ISO 3166-1 alpha-2 country code */
+export const ZCountryCode = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, 'Use a two-letter ISO country code')
+  .transform((v) => v.toUpperCase());
+
+/** Tenant details printed on invoice and receipt documents (`billing.invoiceProfile` setting) */
+export const ZInvoiceProfile = z.object({
+  legalName: z.string().max(200).optional(),
+  address: z.string().max(500).optional(),
+  taxId: z.string().max(64).optional(),
+  /** ISO 3166-1 alpha-2, decides which tax applies */
+  country: ZCountryCode.optional(),
+  /** Two-digit GST state code for Indian tenants */
+  region: z.string().max(8).optional(),
+  /** Recipient of payment receipts */
+  email: z.string().email().optional(),
+});
+
+export type InvoiceProfile = z.infer<typeof ZInvoiceProfile>;
+
+/**
+ * Dunning schedule (`billing.dunning` platform setting). Days count from the
+ * first past-due status of the subscription.
+ */
+export const ZDunningSchedule = z
+  .object({
+    /** Reminder emails, ascending */
+    reminderDays: z.array(z.number().int().min(0).max(90)).max(5).default([0, 3, 7]),
+    /** Entitlements fall back to the free plan */
+    restrictAfterDays: z.number().int().min(0).max(90).default(10),
+    /** Tenant is suspended */
+    suspendAfterDays: z.number().int().min(0).max(180).default(21),
+  })
+  .refine((s) => s.reminderDays.every((day, i, days) => day > (days[i - 1] ?? -1)), {
+    message: 'reminderDays must be ascending',
+    path: ['reminderDays'],
+  })
+  .refine((s) => s.reminderDays.every((day) => day <= s.restrictAfterDays), {
+    message: 'reminderDays must not be after restrictAfterDays',
+    path: ['reminderDays'],
+  })
+  .refine((s) => s.restrictAfterDays <= s.suspendAfterDays, {
+    message: 'restrictAfterDays must not be after suspendAfterDays',
+    path: ['restrictAfterDays'],
+  });
+
+export type DunningSchedule = z.infer<typeof ZDunningSchedule>;
+
+/**
+ * Tax collection (`billing.tax` platform setting). Internal invoices and
+ * previews carry no tax until it is enabled with the seller's origin.
+ */
+export const ZTaxSettings = z
+  .object({
+    enabled: z.boolean().default(false),
+    originCountry: ZCountryCode.optional(),
+    /** Two-digit GST state code when selling from India */
+    originRegion: z.string().max(8).optional(),
+    /** Other countries where the platform is registered to collect consumer tax */
+    registrations: z.array(ZCountryCode).max(50).default([]),
+  })
+  .refine((s) => !s.enabled || s.originCountry, {
+    message: 'originCountry is required when tax is enabled',
+    path: ['originCountry'],
+  });
+
+export type TaxSettings = z.infer<typeof ZTaxSettings>;
+
+/** Tenant tax exemption (`billing.taxExemption` setting, set by platform admins) */
+export const ZTaxExemption = z.object({
+  exempt: z.boolean().default(false),
+  /** e.g. the exemption certificate reference */
+  reason: z.string().max(200).optional(),
+});
+
+export type TaxExemption = z.infer<typeof ZTaxExemption>;
+
+export const ZValidateTaxId = z.object({
+  taxId: z.string().trim().min(2).max(64),
+  country: ZCountryCode.optional(),
+});
+
+export const ZDunningCaseList = z.object({
+  status: z.enum(['open', 'recovered', 'canceled']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const ZDunningCaseResponse = z.object({
+  id: z.string(),
+  scopeId: z.string(),
+  provider: z.string(),
+  providerSubId: z.string().nullable(),
+  sagaId: z.string(),
+  status: z.enum(['open', 'recovered', 'canceled']),
+  stage: z.enum(['reminding', 'restricted', 'suspended']),
+  remindersSent: z.number().int(),
+  suspendedTenant: z.boolean(),
+  startedAt: z.string(),
+  restrictedAt: z.string().nullable(),
+  suspendedAt: z.string().nullable(),
+  resolvedAt: z.string().nullable(),
+});
+
+const ZWindow = z.enum(['day', 'month', 'year']);
+
+export const ZPlanEntitlements = z.object({
+  toggles: z.record(z.boolean()),
+  capacities: z.record(z.number().nonnegative()),
+  quotas: z.record(z.object({ limit: z.number().int().nonnegative(), window: ZWindow })),
+  credits: z.record(
+    z.object({ grant: z.number().int().nonnegative(), period: z.enum(['month', 'year']) })
+  ),
+  dailyFree: z.record(z.number().int().nonnegative()).optional(),
+});
+
+const ZMeteredTier = z.object({
+  upTo: z.number().int().positive().nullable(),
+  unitAmount: z.number().nonnegative(),
+  flatAmount: z.number().nonnegative().optional(),
+});
+
+/** Usage-based price component of a plan */
+export const ZMeteredPrice = z
+  .object({
+    feature: z.string().min(1).max(100),
+    label: z.string().min(1).max(80),
+    currency: z.string().length(3),
+    model: z.enum(['per_unit', 'tiered', 'volume']),
+    unitAmount: z.number().nonnegative().optional(),
+    tiers: z.array(ZMeteredTier).min(1).max(10).optional(),
+    includedUnits: z.number().int().nonnegative().optional(),
+    providerPriceIds: z
+      .object({ stripe: z.string().min(1).optional(), razorpay: z.string().min(1).optional() })
+      .optional(),
+  })
+  .superRefine((price, ctx) => {
+    if (price.model === 'per_unit') {
+      if (price.unitAmount === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'per_unit prices need unitAmount', path: ['unitAmount'] });
+      }
+      return;
+    }
+    const tiers = price.tiers ?? [];
+    if (tiers.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${price.model} prices need tiers`, path: ['tiers'] });
+      return;
+    }
+    // Ascending bounds, open-ended last tier
+    tiers.forEach((tier, i) => {
+      const last = i === tiers.length - 1;
+      const prev = tiers[i - 1]?.upTo ?? 0;
+      if (last ? tier.upTo !== null : tier.upTo === null || tier.upTo <= prev) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Tier upTo must ascend and only the last tier may be open (null)',
+          path: ['tiers', i, 'upTo'],
+        });
+      }
+    });
+  });
+
+/** Body of a published plan version; everything about a plan except its id */
+export const ZPlanDefinitionInput = z.object({
+  label: z.string().min(1).max(80),
+  tagline: z.string().max(200),
+  recommended: z.boolean().optional(),
+  features: z.array(z.string().min(1).max(200)).max(50).optional(),
+  defaultPrice: z
+    .object({
+      amount: z.number().nonnegative(),
+      currency: z.string().length(3),
+      interval: z.enum(['month', 'year']),
+    })
+    .optional(),
+  entitlements: ZPlanEntitlements,
+  metered: z
+    .array(ZMeteredPrice)
+    .max(20)
+    .refine((prices) => new Set(prices.map((p) => p.feature)).size === prices.length, {
+      message: 'Each feature can only be metered once',
+    })
+    .optional(),
+});
+
+export const ZPublishPlanVersion = ZPlanDefinitionInput.extend({
+  /** Reject the publish if the current version has moved on */
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+export type PlanDefinitionInput = z.infer<typeof ZPlanDefinitionInput>;
+export type PublishPlanVersionInput = z.infer<typeof ZPublishPlanVersion>;
+
+export const ZPlanVersionResponse = ZPlanDefinitionInput.extend({
+  planId: z.string(),
+  version: z.number().int(),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+  archivedAt: z.string().nullable(),
+});
+
+export const ZCouponCreate = z
+  .object({
+    name: z.string().min(1).max(80),
+    discount: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('percent'), percentOff: z.number().gt(0).max(100) }),
+      z.object({
+        type: z.literal('fixed'),
+        amountOff: z.object({ amount: z.number().positive(), currency: z.string().length(3) }),
+      }),
+    ]),
+    duration: z.enum(['once', 'repeating', 'forever']),
+    durationInMonths: z.number().int().min(1).max(36).optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    expiresAt: z.coerce.date().optional(),
+    appliesToPlans: z.array(z.string().min(2)).min(1).optional(),
+    providerRefs: z
+      .object({ stripe: z.string().min(1).optional(), razorpay: z.string().min(1).optional() })
+      .optional(),
+  })
+  .refine((c) => (c.duration === 'repeating') === (c.durationInMonths !== undefined), {
+    message: 'durationInMonths is required for repeating coupons and only allowed for them',
+    path: ['durationInMonths'],
+  });
+
+export const ZPromotionCodeCreate = z.object({
+  code: ZPromotionCodeValue,
+  maxRedemptions: z.number().int().positive().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const ZPromotionCodePreview = z.object({
+  planId: z.string().min(2),
+});
+
+export type CouponCreate = z.infer<typeof ZCouponCreate>;
+export type PromotionCodeCreate = z.infer<typeof ZPromotionCodeCreate>;
+
+export const ZCouponResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  discount: z.union([
+    z.object({ type: z.literal('percent'), percentOff: z.number() }),
+    z.object({ type: z.literal('fixed'), amountOff: z.object({ amount: z.number(), currency: z.string() }) }),
+  ]),
+  duration: z.enum(['once', 'repeating', 'forever']),
+  durationInMonths: z.number().int().optional(),
+  maxRedemptions: z.number().int().optional(),
+  timesRedeemed: z.number().int(),
+  expiresAt: z.string().nullable(),
+  appliesToPlans: z.array(z.string()).optional(),
+  providerRefs: z.record(z.string()).optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+  archivedAt: z.string().nullable(),
+});
+
+export const ZPromotionCodeResponse = z.object({
+  id: z.string(),
+  code: z.string(),
+  couponId: z.string(),
+  maxRedemptions: z.number().int().optional(),
+  timesRedeemed: z.number().int(),
+  expiresAt: z.string().nullable(),
+  active: z.boolean(),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+});
+
+const ZInvoiceLineItem = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  unitAmount: z.number(),
+  amount: z.number(),
+});
+
+export const ZTaxCalculationResponse = z.object({
+  taxAmount: z.number(),
+  lines: z.array(
+    z.object({
+      name: z.string(),
+      jurisdiction: z.string(),
+      rate: z.number(),
+      amount: z.number(),
+    })
+  ),
+  reverseCharge: z.boolean(),
+  exempt: z.boolean(),
+  note: z.string().optional(),
+});
+
+export const ZTaxIdCheckResponse = z.object({
+  valid: z.boolean(),
+  type: z.enum(['eu_vat', 'in_gstin', 'au_abn']).optional(),
+  country: z.string().optional(),
+  value: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+export const ZUpcomingInvoiceResponse = z.object({
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  currency: z.string(),
+  subtotal: z.number(),
+  /** Null while tax collection is disabled */
+  tax: ZTaxCalculationResponse.nullable(),
+  amount: z.number(),
+  lineItems: z.array(ZInvoiceLineItem),
+});
@@ -0,0 +1,124 @@
+/**
+ * Tax ID format validation.
+ *
+ * Offline checks for EU VAT numbers (per member state format), Indian
+ * GSTINs and Australian ABNs (both with their check digits). A valid format
+ * does not prove the ID is registered; VIES, the GST portal and ABN Lookup
+ * remain the authority.
+ */
+
+import type { TaxIdCheck } from '@unisane/kernel';
+
+/** Member state VAT number formats, after the country prefix */
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d[A-Z0-9+*]\d{5}[A-W][A-I]?$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+/** Greece uses "EL" as its VAT prefix */
+const VAT_PREFIX_TO_COUNTRY: Record<string, string> = { EL: 'GR' };
+const COUNTRY_TO_VAT_PREFIX: Record<string, string> = { GR: 'EL' };
+
+const GSTIN_FORMAT = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+/** ISO country of an EU VAT prefix, or null when it is not one */
+export function vatPrefixCountry(prefix: string): string | null {
+  if (!(prefix in EU_VAT_FORMATS)) return null;
+  return VAT_PREFIX_TO_COUNTRY[prefix] ?? prefix;
+}
+
+/** Upper case without spaces, dots, dashes or slashes */
+export function normalizeTaxId(taxId: string): string {
+  return taxId.toUpperCase().replace(/[\s.\-/]/g, '');
+}
+
+/** GSTIN check character over the first 14 characters (mod 36) */
+export function gstinCheckChar(first14: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]!) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36]!;
+}
+
+function validateEuVat(value: string): TaxIdCheck {
+  const prefix = value.slice(0, 2);
+  const country = vatPrefixCountry(prefix);
+  if (!country) return { valid: false, type: 'eu_vat', reason: 'unsupported' };
+  if (!EU_VAT_FORMATS[prefix]!.test(value.slice(2))) {
+    return { valid: false, type: 'eu_vat', country, reason: 'format' };
+  }
+  return { valid: true, type: 'eu_vat', country, value };
+}
+
+function validateGstin(value: string): TaxIdCheck {
+  const state = Number(value.slice(0, 2));
+  if (!GSTIN_FORMAT.test(value) || state < 1 || (state > 38 && state !== 97)) {
+    return { valid: false, type: 'in_gstin', country: 'IN', reason: 'format' };
+  }
+  if (gstinCheckChar(value.slice(0, 14)) !== value[14]) {
+    return { valid: false, type: 'in_gstin', country: 'IN', reason: 'checksum' };
+  }
+  return { valid: true, type: 'in_gstin', country: 'IN', value };
+}
+
+function validateAbn(value: string): TaxIdCheck {
+  if (!/^\d{11}$/.test(value)) return { valid: false, type: 'au_abn', country: 'AU', reason: 'format' };
+  const digits = [...value].map(Number);
+  digits[0] = digits[0]! - 1;
+  const sum = digits.reduce((acc, d, i) => acc + d * ABN_WEIGHTS[i]!, 0);
+  if (sum % 89 !== 0) return { valid: false, type: 'au_abn', country: 'AU', reason: 'checksum' };
+  return { valid: true, type: 'au_abn', country: 'AU', value };
+}
+
+/**
+ * Validate a tax ID. With `country`, only that country's format is
+ * accepted and EU VAT numbers may omit their prefix; without it the format
+ * is detected from the ID.
+ */
+export function validateTaxIdFormat(taxId: string, country?: string): TaxIdCheck {
+  let value = normalizeTaxId(taxId);
+  const expected = country?.toUpperCase();
+
+  if (expected === 'IN') return validateGstin(value);
+  if (expected === 'AU') return validateAbn(value.replace(/^AU/, ''));
+  if (expected) {
+    const prefix = COUNTRY_TO_VAT_PREFIX[expected] ?? expected;
+    if (!(prefix in EU_VAT_FORMATS)) return { valid: false, country: expected, reason: 'unsupported' };
+    if (!value.startsWith(prefix)) value = prefix + value;
+    return validateEuVat(value);
+  }
+
+  if (/^\d{2}[A-Z]/.test(value) && value.length === 15) return validateGstin(value);
+  if (/^\d{11}$/.test(value)) return validateAbn(value);
+  if (/^[A-Z]{2}/.test(value)) return validateEuVat(value);
+  return { valid: false, reason: 'unsupported' };
+}
@@ -0,0 +1,111 @@
+/**
+ * Tax rules.
+ *
+ * Standard VAT/GST rates by country and the rules that decide which one
+ * applies to a sale of digital services:
+ * - Domestic sales are taxed at the seller's rate, B2B included. In India an
+ *   intra-state sale splits into CGST and SGST, an inter-state one is IGST.
+ * - Cross-border B2B sales (valid tax ID of the customer's country) are
+ *   reverse charged: no tax, and the invoice carries a notice.
+ * - Cross-border consumer sales are taxed at the customer's rate when the
+ *   seller collects there: anywhere in the EU for an EU seller (OSS), or in
+ *   the countries listed in the seller's registrations. Otherwise no tax.
+ */
+
+import { Money, type CurrencyCode, type TaxCalculation, type TaxCalculationInput, type TaxLine } from '@unisane/kernel';
+import { validateTaxIdFormat } from './tax-ids';
+import type { InvoiceLineItem } from './types';
+
+export type TaxRule = { name: 'VAT' | 'GST'; rate: number };
+
+export const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+] as const;
+
+const vat = (rate: number): TaxRule => ({ name: 'VAT', rate });
+const gst = (rate: number): TaxRule => ({ name: 'GST', rate });
+
+/** Standard rates in percent, keyed by ISO 3166-1 alpha-2 */
+export const TAX_RULES: Readonly<Record<string, TaxRule>> = {
+  AT: vat(20), BE: vat(21), BG: vat(20), CY: vat(19), CZ: vat(21), DE: vat(19), DK: vat(25),
+  EE: vat(24), ES: vat(21), FI: vat(25.5), FR: vat(20), GR: vat(24), HR: vat(25), HU: vat(27),
+  IE: vat(23), IT: vat(22), LT: vat(21), LU: vat(17), LV: vat(21), MT: vat(18), NL: vat(21),
+  PL: vat(23), PT: vat(23), RO: vat(21), SE: vat(25), SI: vat(22), SK: vat(23),
+  GB: vat(20),
+  IN: gst(18),
+  AU: gst(10),
+};
+
+export const REVERSE_CHARGE_NOTE = 'Reverse charge: the customer is liable to account for the tax';
+export const TAX_EXEMPT_NOTE = 'Tax exempt';
+
+const EU = new Set<string>(EU_COUNTRIES);
+
+export function isEuCountry(country: string): boolean {
+  return EU.has(country.toUpperCase());
+}
+
+function noTax(extra: Partial<TaxCalculation> = {}): TaxCalculation {
+  return { taxAmount: 0, lines: [], reverseCharge: false, exempt: false, ...extra };
+}
+
+/**
+ * Tax due on a sale under the built-in rules.
+ */
+export function calculateTaxByRules(input: TaxCalculationInput): TaxCalculation {
+  const { seller, customer } = input;
+  if (customer.exempt) return noTax({ exempt: true, note: TAX_EXEMPT_NOTE });
+
+  const taxId = customer.taxId ? validateTaxIdFormat(customer.taxId, customer.country) : null;
+  const sellerCountry = seller.country.toUpperCase();
+  const country = (customer.country ?? taxId?.country ?? sellerCountry).toUpperCase();
+  const rule = TAX_RULES[country];
+  if (!rule || input.amount <= 0) return noTax();
+
+  if (country !== sellerCountry) {
+    if (taxId?.valid && taxId.country === country) return noTax({ reverseCharge: true, note: REVERSE_CHARGE_NOTE });
+    const collects =
+      (isEuCountry(sellerCountry) && isEuCountry(country)) ||
+      (seller.registrations ?? []).some((c) => c.toUpperCase() === country);
+    if (!collects) return noTax();
+  }
+
+  const base = Money.fromMajor(input.amount, input.currency.toUpperCase() as CurrencyCode);
+  const line = (name: string, jurisdiction: string, rate: number): TaxLine => ({
+    name,
+    jurisdiction,
+    rate,
+    amount: base.multiply(rate / 100).toMajor(),
+  });
+
+  let lines: TaxLine[];
+  if (country === 'IN') {
+    // Place of supply is the customer's state, from the GSTIN when there is one
+    const state = taxId?.valid ? taxId.value!.slice(0, 2) : customer.region;
+    lines = country === sellerCountry && state && state === seller.region
+      ? [line('CGST', `IN-${state}`, rule.rate / 2), line('SGST', `IN-${state}`, rule.rate / 2)]
+      : [line('IGST', 'IN', rule.rate)];
+  } else {
+    lines = [line(rule.name, country, rule.rate)];
+  }
+
+  const currency = base.currency;
+  const total = lines.reduce((sum, l) => sum.add(Money.fromMajor(l.amount, currency)), Money.zero(currency));
+  return { taxAmount: total.toMajor(), lines, reverseCharge: false, exempt: false };
+}
+
+/**
+ * Invoice lines for a calculation: one per tax, plus a zero line carrying
+ * the reverse charge or exemption notice.
+ */
+export function taxLineItems(tax: TaxCalculation): InvoiceLineItem[] {
+  const items: InvoiceLineItem[] = tax.lines.map((l) => ({
+    description: `${l.name} ${l.rate}% (${l.jurisdiction})`,
+    quantity: 1,
+    unitAmount: l.amount,
+    amount: l.amount,
+  }));
+  if (tax.note) items.push({ description: tax.note, quantity: 1, unitAmount: 0, amount: 0 });
+  return items;
+}
@@ -3,10 +3,11 @@ import type {
   InvoiceStatus,
   SubscriptionStatus,
 } from "@unisane/kernel";
-import type { PlanId } from "@unisane/kernel";
+import type { PlanId, PlanDefinition } from "@unisane/kernel";
 import type { BillingProvider } from "@unisane/kernel";
 
 import type { BillingMode } from "@unisane/kernel";
+import type { TaxCalculation } from "@unisane/kernel";
 
 export type CancelSubscriptionArgs = { scopeId: string; atPeriodEnd: boolean };
 export type GetSubscriptionArgs = { scopeId: string };
@@ -24,6 +25,32 @@ export type PlanConfig = {
   };
 };
 
+/**
+ * One immutable version of a catalog plan. Publishing a change creates the
+ * next version; subscriptions stay pinned to the version they bought.
+ */
+export type PlanVersion = PlanDefinition & {
+  planId: PlanId;
+  version: number;
+  createdBy?: string;
+  createdAt: Date;
+  /** Set on every version while the plan is withdrawn from sale */
+  archivedAt: Date | null;
+};
+
+export type PlanVersionInput = PlanDefinition & {
+  planId: PlanId;
+  version: number;
+  createdBy?: string;
+};
+
+export type PlanVersionInsertResult =
+  | { ok: true; plan: PlanVersion }
+  | { conflict: true };
+
+/** The catalog version a subscription is pinned to */
+export type PlanPin = { planId: PlanId; version: number };
+
 export type BillingConfig = {
   mode: BillingMode;
   plans: PlanConfig[];
@@ -57,6 +84,27 @@ export type InvoiceView = {
   url: string | null;
 };
 
+export type InvoiceLineItem = {
+  description: string;
+  quantity: number;
+  /** Major units */
+  unitAmount: number;
+  /** Major units */
+  amount: number;
+};
+
+/** Invoices issued by billing itself when no payment provider is registered */
+export type InvoiceProvider = BillingProvider | "internal";
+
+export type InvoiceDetail = InvoiceView & {
+  provider: InvoiceProvider;
+  providerInvoiceId: string;
+  providerPaymentId: string | null;
+  number: string | null;
+  dueAt: Date | null;
+  lineItems: InvoiceLineItem[];
+};
+
 export type InvoiceListPage = {
   items: InvoiceView[];
   nextCursor?: string;
@@ -70,7 +118,146 @@ export type SubscriptionView = {
   status: SubscriptionStatus;
   cancelAtPeriodEnd: boolean;
   currentPeriodEnd: Date | null;
+  /** Absent on subscriptions created before the plan catalog */
+  pinnedPlan?: PlanPin;
 };
 
 /** Reference for scope-to-provider customer mapping. Note: tenantId is the DB field name (persisted data) */
 export type ScopeIntegrationRef = { scopeId: string; customerId: string };
+
+// ---- Coupons & promotion codes ----
+
+export type CouponDiscount =
+  | { type: "percent"; percentOff: number }
+  /** Major units */
+  | { type: "fixed"; amountOff: { amount: number; currency: string } };
+
+/** How many billing periods a coupon discounts */
+export type CouponDuration = "once" | "repeating" | "forever";
+
+export type Coupon = {
+  id: string;
+  name: string;
+  discount: CouponDiscount;
+  duration: CouponDuration;
+  /** Required for `repeating` */
+  durationInMonths?: number;
+  maxRedemptions?: number;
+  timesRedeemed: number;
+  expiresAt: Date | null;
+  /** Restrict to these plans; all plans when absent */
+  appliesToPlans?: PlanId[];
+  /** Existing provider objects (Razorpay offers must be created in its dashboard) */
+  providerRefs?: Partial<Record<BillingProvider, string>>;
+  createdBy?: string;
+  createdAt: Date;
+  archivedAt: Date | null;
+};
+
+export type CouponInput = Omit<Coupon, "id" | "timesRedeemed" | "createdAt" | "archivedAt">;
+
+export type PromotionCode = {
+  id: string;
+  /** Customer-facing code, stored uppercase */
+  code: string;
+  couponId: string;
+  maxRedemptions?: number;
+  timesRedeemed: number;
+  expiresAt: Date | null;
+  active: boolean;
+  createdBy?: string;
+  createdAt: Date;
+};
+
+export type PromotionCodeInput = Omit<PromotionCode, "id" | "timesRedeemed" | "active" | "createdAt">;
+
+/** Provider checkouts hold a `pending` redemption until the checkout completes */
+export type CouponRedemptionStatus = "pending" | "confirmed";
+
+export type CouponRedemption = {
+  id: string;
+  scopeId: string;
+  couponId: string;
+  promotionCodeId: string;
+  code: string;
+  planId: PlanId;
+  provider: InvoiceProvider;
+  status: CouponRedemptionStatus;
+  /** When a pending redemption is released if its checkout never completed */
+  expiresAt: Date | null;
+  createdAt: Date;
+};
+
+export type CouponRedemptionInput = Omit<CouponRedemption, "id" | "createdAt">;
+
+// ---- Dunning ----
+
+export type DunningStatus = "open" | "recovered" | "canceled";
+
+/** How far a dunning case has escalated */
+export type DunningStage = "reminding" | "restricted" | "suspended";
+
+/**
+ * One episode of failed subscription payments for a scope, from the first
+ * past-due status until the subscription recovers or is canceled.
+ */
+export type DunningCase = {
+  id: string;
+  scopeId: string;
+  provider: BillingProvider;
+  providerSubId: string | null;
+  /** Saga driving the schedule */
+  sagaId: string;
+  status: DunningStatus;
+  stage: DunningStage;
+  remindersSent: number;
+  /** Whether dunning suspended the tenant, and so may reactivate it */
+  suspendedTenant: boolean;
+  startedAt: Date;
+  restrictedAt: Date | null;
+  suspendedAt: Date | null;
+  resolvedAt: Date | null;
+};
+
+export type DunningCaseInput = Pick<DunningCase, "scopeId" | "provider" | "providerSubId" | "sagaId">;
+
+// ---- Metered usage ----
+
+/**
+ * Usage of one metered feature by a scope in one billing period. Reported
+ * records track the period-to-date total sent to the provider; invoiced
+ * records are closed periods billed on an internal invoice.
+ */
+export type MeteredUsageStatus = "reported" | "invoiced";
+
+export type MeteredUsageRecord = {
+  id: string;
+  scopeId: string;
+  feature: string;
+  periodStart: Date;
+  periodEnd: Date;
+  quantity: number;
+  /** Major units */
+  amount: number;
+  currency: string;
+  provider: InvoiceProvider;
+  status: MeteredUsageStatus;
+  /** Internal invoice the period was billed on */
+  providerInvoiceId: string | null;
+  updatedAt: Date;
+};
+
+export type MeteredUsageInput = Omit<MeteredUsageRecord, "id" | "updatedAt">;
+
+export type UpcomingInvoice = {
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  /** Major units, before tax */
+  subtotal: number;
+  /** Null while tax collection is disabled */
+  tax: TaxCalculation | null;
+  /** Major units, including tax */
+  amount: number;
+  lineItems: InvoiceLineItem[];
+};
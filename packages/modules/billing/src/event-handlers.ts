@@ -10,6 +10,11 @@
  * - Payment events (to record payments)
  * - Subscription events (to update subscriptions)
  * - Customer mapping events (to manage tenant-customer links)
+ * - Completed subscription checkouts (to confirm reserved promotion codes)
+ * - billing.payment.succeeded (to email the receipt PDF)
+ *
+ * Subscription status changes also drive dunning: past due opens a dunning
+ * case, recovery or cancellation resolves it (see service/dunning.ts).
  *
  * Usage:
  * ```typescript
@@ -20,12 +25,16 @@
  * ```
  */
 
-import { logger, onTyped, mapInvoiceStatus, mapPaymentStatus, mapStripeSubStatus, retry, isRetryable } from '@unisane/kernel';
-import type { BillingEventPayload } from '@unisane/kernel';
+import { logger, onTyped, emitTyped, mapInvoiceStatus, mapPaymentStatus, mapStripeSubStatus, retry, isRetryable } from '@unisane/kernel';
+import type { BillingEventPayload, BillingProvider, EventPayload, PaymentStatus } from '@unisane/kernel';
 import { InvoicesRepository } from './data/invoices.repository';
 import { PaymentsRepository } from './data/payments.repository';
 import { SubscriptionsRepository } from './data/subscriptions.repository';
 import { upsertCustomerMapping, softDeleteCustomerMapping } from './data/scope-integrations.repository';
+import { sendPaymentReceipt } from './service/receipts';
+import { pinForProviderPlan } from './service/plans';
+import { registerDunningSaga, syncDunningForSubscription } from './service/dunning';
+import { confirmCouponRedemption } from './service/coupons';
 
 const log = logger.child({ module: 'billing', component: 'event-handlers' });
 
@@ -40,6 +49,47 @@ const EVENT_HANDLER_RETRY_OPTIONS = {
   shouldRetry: (error: Error) => isRetryable(error),
 };
 
+/**
+ * Record a payment and announce `billing.payment.succeeded` /
+ * `billing.payment.failed` the first time it reaches that state (providers
+ * redeliver webhooks).
+ */
+async function recordPayment(args: {
+  scopeId: string;
+  provider: BillingProvider;
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+}): Promise<void> {
+  const announce = args.status === 'succeeded' || args.status === 'failed';
+  const previous = announce
+    ? await PaymentsRepository.findByProviderPaymentId({
+        scopeId: args.scopeId,
+        providerPaymentId: args.providerPaymentId,
+      })
+    : null;
+
+  await PaymentsRepository.upsertByProviderId({
+    ...args,
+    capturedAt: args.status === 'succeeded' ? new Date() : null,
+  });
+
+  if (!announce || previous?.status === args.status) return;
+  const payload = {
+    scopeId: args.scopeId,
+    amount: args.amount,
+    currency: args.currency,
+    provider: args.provider,
+    providerPaymentId: args.providerPaymentId,
+  };
+  if (args.status === 'succeeded') {
+    await emitTyped('billing.payment.succeeded', payload, 'billing');
+  } else {
+    await emitTyped('billing.payment.failed', payload, 'billing');
+  }
+}
+
 /**
  * Handle Stripe invoice events.
  * Records or updates invoice in the database.
@@ -48,7 +98,7 @@ const EVENT_HANDLER_RETRY_OPTIONS = {
 async function handleStripeInvoiceEvent(
   payload: BillingEventPayload<'webhook.stripe.invoice_event'>
 ): Promise<void> {
-  const { scopeId, invoiceId, amount, currency, status, url, eventType } = payload;
+  const { scopeId, invoiceId, paymentIntentId, amount, currency, status, url, eventType, number, lineItems } = payload;
 
   log.info('processing stripe invoice event', {
     scopeId,
@@ -69,6 +119,9 @@ async function handleStripeInvoiceEvent(
           currency,
           status: mapInvoiceStatus(status),
           url: url ?? null,
+          number: number ?? null,
+          providerPaymentId: paymentIntentId ?? null,
+          ...(lineItems ? { lineItems } : {}),
         });
       },
       { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'stripe_invoice_upsert' }
@@ -105,14 +158,13 @@ async function handleStripePaymentEvent(
     // BILL-003 FIX: Use retry for transient database failures
     await retry(
       async () => {
-        await PaymentsRepository.upsertByProviderId({
+        await recordPayment({
           scopeId,
           provider: 'stripe',
           providerPaymentId: paymentIntentId,
           amount,
           currency,
           status: mapPaymentStatus(status),
-          capturedAt: status === 'succeeded' ? new Date() : null,
         });
       },
       { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'stripe_payment_upsert' }
@@ -156,6 +208,7 @@ async function handleStripeSubscriptionChanged(
   });
 
   try {
+    const pinnedPlan = priceId ? await pinForProviderPlan('stripe', priceId) : undefined;
     // BILL-003 FIX: Use retry for transient database failures
     await retry(
       async () => {
@@ -169,10 +222,17 @@ async function handleStripeSubscriptionChanged(
           providerStatus: status,
           cancelAtPeriodEnd,
           currentPeriodEnd: currentPeriodEnd ? new Date(currentPeriodEnd) : null,
+          ...(pinnedPlan ? { pinnedPlan } : {}),
         });
       },
       { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'stripe_subscription_upsert' }
     );
+    await syncDunningForSubscription({
+      scopeId,
+      provider: 'stripe',
+      providerSubId: subscriptionId,
+      status: mapStripeSubStatus(status),
+    });
 
     log.info('stripe subscription updated', {
       scopeId,
@@ -251,14 +311,13 @@ async function handleRazorpayPaymentEvent(
     // BILL-003 FIX: Use retry for transient database failures
     await retry(
       async () => {
-        await PaymentsRepository.upsertByProviderId({
+        await recordPayment({
           scopeId,
           provider: 'razorpay',
           providerPaymentId: paymentId,
           amount,
           currency,
           status: mapPaymentStatus(status),
-          capturedAt: status === 'succeeded' ? new Date() : null,
         });
       },
       { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'razorpay_payment_upsert' }
@@ -275,6 +334,34 @@ async function handleRazorpayPaymentEvent(
   }
 }
 
+/**
+ * Handle completed Stripe subscription checkouts.
+ * Confirms the promotion code reserved for the checkout.
+ */
+async function handleStripeSubscriptionCheckoutCompleted(
+  payload: BillingEventPayload<'webhook.stripe.subscription_checkout_completed'>
+): Promise<void> {
+  const { scopeId, checkoutSessionId, couponId } = payload;
+  if (!couponId) return;
+
+  try {
+    await retry(
+      async () => {
+        await confirmCouponRedemption({ scopeId, couponId });
+      },
+      { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'stripe_coupon_confirm' }
+    );
+  } catch (error) {
+    log.error('failed to confirm coupon for stripe checkout', {
+      scopeId,
+      checkoutSessionId,
+      couponId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
 /**
  * Handle Razorpay subscription changes.
  * Updates subscription record in the database.
@@ -295,6 +382,7 @@ async function handleRazorpaySubscriptionChanged(
   });
 
   try {
+    const pinnedPlan = planId ? await pinForProviderPlan('razorpay', planId) : undefined;
     // BILL-003 FIX: Use retry for transient database failures
     await retry(
       async () => {
@@ -308,10 +396,21 @@ async function handleRazorpaySubscriptionChanged(
           providerStatus: rawStatus,
           cancelAtPeriodEnd: false,
           currentPeriodEnd: null,
+          ...(pinnedPlan ? { pinnedPlan } : {}),
         });
       },
       { ...EVENT_HANDLER_RETRY_OPTIONS, operationName: 'razorpay_subscription_upsert' }
     );
+    await syncDunningForSubscription({
+      scopeId,
+      provider: 'razorpay',
+      providerSubId: subscriptionId,
+      status: normalizedStatus,
+    });
+    // Activation completes the checkout that reserved the promotion code
+    if (eventType === 'activated' && payload.couponId) {
+      await confirmCouponRedemption({ scopeId, couponId: payload.couponId });
+    }
 
     log.info('razorpay subscription updated', {
       scopeId,
@@ -329,6 +428,29 @@ async function handleRazorpaySubscriptionChanged(
   }
 }
 
+/**
+ * Handle succeeded payments.
+ * Emails the tenant's billing contact with the receipt PDF attached.
+ */
+async function handlePaymentSucceeded(
+  payload: EventPayload<'billing.payment.succeeded'>
+): Promise<void> {
+  const { scopeId, provider, providerPaymentId } = payload;
+  if (!providerPaymentId) return;
+
+  try {
+    const result = await sendPaymentReceipt({ scopeId, providerPaymentId });
+    log.info('payment receipt processed', { scopeId, provider, providerPaymentId, ...result });
+  } catch (error) {
+    log.error('failed to send payment receipt', {
+      scopeId,
+      providerPaymentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
 /**
  * Register all billing event handlers.
  * Call this during application bootstrap.
@@ -338,6 +460,9 @@ async function handleRazorpaySubscriptionChanged(
 export function registerBillingEventHandlers(): () => void {
   log.info('registering billing event handlers');
 
+  // Dunning sagas started before a restart resume under this definition
+  registerDunningSaga();
+
   const unsubscribers: Array<() => void> = [];
 
   // Stripe events
@@ -359,6 +484,12 @@ export function registerBillingEventHandlers(): () => void {
     })
   );
 
+  unsubscribers.push(
+    onTyped('webhook.stripe.subscription_checkout_completed', async (event) => {
+      await handleStripeSubscriptionCheckoutCompleted(event.payload);
+    })
+  );
+
   unsubscribers.push(
     onTyped('webhook.stripe.customer_mapping', async (event) => {
       await handleStripeCustomerMapping(event.payload);
@@ -378,6 +509,13 @@ export function registerBillingEventHandlers(): () => void {
     })
   );
 
+  // Billing events
+  unsubscribers.push(
+    onTyped('billing.payment.succeeded', async (event) => {
+      await handlePaymentSucceeded(event.payload);
+    })
+  );
+
   log.info('billing event handlers registered', { count: unsubscribers.length });
 
   // Return cleanup function
@@ -16,8 +16,24 @@ export type {
   PaymentListPage,
   InvoiceView,
   InvoiceListPage,
+  InvoiceDetail,
+  InvoiceLineItem,
   SubscriptionView,
   PlanConfig,
+  PlanVersion,
+  PlanPin,
+  Coupon,
+  CouponDiscount,
+  CouponDuration,
+  PromotionCode,
+  CouponRedemption,
+  CouponRedemptionStatus,
+  DunningCase,
+  DunningStage,
+  DunningStatus,
+  MeteredUsageRecord,
+  MeteredUsageStatus,
+  UpcomingInvoice,
 } from "./domain/types";
 
 export {
@@ -28,6 +44,37 @@ export {
   ZRefund,
   ZSubscribe,
   ZTopup,
+  ZInvoiceProfile,
+  ZPlanEntitlements,
+  ZPlanDefinitionInput,
+  ZPublishPlanVersion,
+  ZPlanVersionResponse,
+  ZCouponCreate,
+  ZPromotionCodeCreate,
+  ZPromotionCodePreview,
+  ZCouponResponse,
+  ZPromotionCodeResponse,
+  ZDunningSchedule,
+  ZDunningCaseList,
+  ZDunningCaseResponse,
+  ZMeteredPrice,
+  ZUpcomingInvoiceResponse,
+  ZCountryCode,
+  ZTaxSettings,
+  ZTaxExemption,
+  ZValidateTaxId,
+  ZTaxCalculationResponse,
+  ZTaxIdCheckResponse,
+} from "./domain/schemas";
+export type {
+  InvoiceProfile,
+  PlanDefinitionInput,
+  PublishPlanVersionInput,
+  CouponCreate,
+  PromotionCodeCreate,
+  DunningSchedule,
+  TaxSettings,
+  TaxExemption,
 } from "./domain/schemas";
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -47,6 +94,7 @@ export {
   BillingProviderError,
   CustomerNotFoundError,
   InsufficientCreditsError,
+  InvalidCouponError,
 } from "./domain/errors";
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -57,6 +105,7 @@ export {
   BILLING_EVENTS,
   BILLING_DEFAULTS,
   BILLING_COLLECTIONS,
+  BILLING_EMAIL_TEMPLATES,
 } from "./domain/constants";
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -86,6 +135,23 @@ export { listInvoices } from "./service/listInvoices";
 export { refund } from "./service/refund";
 export { topup } from "./service/topup";
 
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Invoice & Receipt Documents
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  renderInvoicePdf,
+  renderPaymentReceiptPdf,
+  downloadInvoicePdf,
+  downloadPaymentReceiptPdf,
+  getInvoiceProfile,
+} from "./service/documents";
+export type { BillingPdf } from "./service/documents";
+export { sendPaymentReceipt } from "./service/receipts";
+export type { SendPaymentReceiptResult } from "./service/receipts";
+export { buildBillingDocumentHtml, formatMoney } from "./domain/invoice-document";
+export type { BillingDocument, BillingDocumentKind } from "./domain/invoice-document";
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services - Configuration & Portal
 // ════════════════════════════════════════════════════════════════════════════
@@ -95,6 +161,91 @@ export { getBillingMode } from "./service/mode";
 export { portal } from "./service/portal";
 export { ScopeIntegrationsService } from "./service/scope-integrations";
 
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Plan Catalog
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  getPlanVersion,
+  getCurrentPlanVersion,
+  resolveSubscribedPlan,
+  currentPlanPin,
+  pinForProviderPlan,
+  listPlanCatalog,
+  getPlanHistory,
+  publishPlanVersion,
+  archivePlan,
+  restorePlan,
+  seedPlanCatalog,
+} from "./service/plans";
+export type { PublishPlanVersionArgs } from "./service/plans";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Coupons & Promotion Codes
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  createCoupon,
+  listCoupons,
+  archiveCoupon,
+  createPromotionCode,
+  listPromotionCodes,
+  deactivatePromotionCode,
+  previewPromotionCode,
+  reservePromotionCode,
+  confirmCouponRedemption,
+  releaseExpiredRedemptions,
+  findUsageInvoiceCoupon,
+} from "./service/coupons";
+export type { CreateCouponArgs, CreatePromotionCodeArgs, ReservedCoupon } from "./service/coupons";
+export { buildSubscriptionInvoice, issueSubscriptionInvoice, issueUsageInvoice } from "./service/internal-invoices";
+export type { InternalInvoice } from "./service/internal-invoices";
+export { discountAmount, coversPeriod } from "./domain/discounts";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Metered billing
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  previewUpcomingInvoice,
+  reportMeteredUsage,
+  closeMeteredPeriods,
+  runMeteredBilling,
+} from "./service/metering";
+export { billableUnits, meteredAmount, meteredLineItem, meteredPeriod, calendarMonth } from "./domain/metering";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Tax
+// ════════════════════════════════════════════════════════════════════════════
+
+export { getTaxSettings, getTaxExemption, calculateTax, applyTax, validateTaxId } from "./service/tax";
+export {
+  TAX_RULES,
+  EU_COUNTRIES,
+  REVERSE_CHARGE_NOTE,
+  calculateTaxByRules,
+  isEuCountry,
+  taxLineItems,
+} from "./domain/tax";
+export type { TaxRule } from "./domain/tax";
+export { validateTaxIdFormat, normalizeTaxId } from "./domain/tax-ids";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Dunning
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  DUNNING_SAGA,
+  dunningSaga,
+  registerDunningSaga,
+  getDunningSchedule,
+  startDunning,
+  resolveDunning,
+  syncDunningForSubscription,
+  runDueDunning,
+  listDunningCases,
+} from "./service/dunning";
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services - Entitlements
 // ════════════════════════════════════════════════════════════════════════════
@@ -128,6 +279,10 @@ export { getScopeOpenInvoiceCounts, getScopeLatestSubscriptions } from "./servic
 export { PaymentsRepository } from "./data/payments.repository";
 export { InvoicesRepository } from "./data/invoices.repository";
 export { SubscriptionsRepository } from "./data/subscriptions.repository";
+export { PlanCatalogRepository } from "./data/plans.repository";
+export { CouponsRepository } from "./data/coupons.repository";
+export { DunningRepository } from "./data/dunning.repository";
+export { MeteredUsageRepository } from "./data/metered-usage.repository";
 // Legacy aliases for backward compatibility
 export { PaymentsRepository as paymentsRepo } from "./data/payments.repository";
 export { InvoicesRepository as invoicesRepo } from "./data/invoices.repository";
@@ -161,4 +316,4 @@ export { registerBillingEventHandlers } from "./event-handlers";
 // Adapters
 // ════════════════════════════════════════════════════════════════════════════
 
-export { billingServiceAdapter } from "./adapters";
+export { billingServiceAdapter, rulesTaxProvider } from "./adapters";
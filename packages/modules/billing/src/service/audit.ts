@@ -63,4 +63,8 @@ export const BILLING_AUDIT_ACTIONS = {
   QUANTITY_CHANGED: 'billing.quantity.changed',
   SUBSCRIPTION_CREATED: 'billing.subscription.created',
   TOPUP_COMPLETED: 'billing.topup.completed',
+  COUPON_REDEEMED: 'billing.coupon.redeemed',
+  DUNNING_STARTED: 'billing.dunning.started',
+  DUNNING_RESTRICTED: 'billing.dunning.restricted',
+  DUNNING_RESOLVED: 'billing.dunning.resolved',
 } as const;
@@ -3,10 +3,10 @@ import { getBillingProvider, getTenantsProvider, hasTenantsProvider } from "@uni
 import { mapPlanIdForProvider } from "@unisane/kernel";
 import { getBillingMode } from "./mode";
 import type { PlanId } from "@unisane/kernel";
-import { PLAN_META } from "@unisane/kernel";
 import { getEnv } from "@unisane/kernel";
 import { ERR } from "@unisane/gateway";
 import { logBillingAudit, BILLING_AUDIT_ACTIONS } from "./audit";
+import { assertPlanOnSale, isPlanId, resolveSubscribedPlan } from "./plans";
 
 export async function changePlan(args: {
   scopeId: string;
@@ -34,16 +34,17 @@ export async function changePlan(args: {
     return { ok: true as const };
   }
 
-  const currentMeta = PLAN_META[currentPlanId as PlanId] as
-    | (typeof PLAN_META)[PlanId]
-    | undefined;
-  const nextMeta = PLAN_META[args.planId];
-  if (!nextMeta) {
+  if (!isPlanId(args.planId)) {
     throw ERR.validation("Unknown plan id for changePlan");
   }
+  // Compare what the tenant pays today with what the target costs now
+  const [currentPlan, nextPlan] = await Promise.all([
+    isPlanId(currentPlanId) ? resolveSubscribedPlan(currentPlanId, currentSub) : null,
+    assertPlanOnSale(args.planId),
+  ]);
 
-  const currentPrice = currentMeta?.defaultPrice?.amount ?? 0;
-  const nextPrice = nextMeta.defaultPrice?.amount ?? 0;
+  const currentPrice = currentPlan?.defaultPrice?.amount ?? 0;
+  const nextPrice = nextPlan.defaultPrice?.amount ?? 0;
 
   // Only handle upgrades (more expensive) via API.
   // Downgrades should be done via the billing portal so they take effect at the next renewal.
@@ -75,6 +76,7 @@ export async function changePlan(args: {
     changes: [
       { field: 'planId', from: currentPlanId, to: args.planId },
       { field: 'price', from: currentPrice, to: nextPrice },
+      { field: 'planVersion', from: currentPlan?.version ?? null, to: nextPlan.version },
     ],
     metadata: {
       providerSubId,
@@ -1,23 +1,24 @@
 import { getBillingMode } from "./mode";
-import { PLANS, PLAN_META } from "@unisane/kernel";
+import { listPlanCatalog } from "./plans";
 import type { BillingConfig, PlanConfig } from "../domain/types";
 
 export type { BillingConfig, PlanConfig };
 
 export async function getConfig(): Promise<BillingConfig> {
   const mode = await getBillingMode();
-  const plans: PlanConfig[] = PLANS.map((id) => {
-    const meta = PLAN_META[id];
-    return {
-      id,
-      label: meta.label,
-      tagline: meta.tagline,
-      ...(meta.recommended ? { recommended: true } : {}),
-      ...(meta.features && meta.features.length
-        ? { features: meta.features }
+  const { items } = await listPlanCatalog();
+  // Archived plans are withdrawn from sale
+  const plans: PlanConfig[] = items
+    .filter((plan) => !plan.archivedAt)
+    .map((plan) => ({
+      id: plan.planId,
+      label: plan.label,
+      tagline: plan.tagline,
+      ...(plan.recommended ? { recommended: true } : {}),
+      ...(plan.features && plan.features.length
+        ? { features: plan.features }
         : {}),
-      ...(meta.defaultPrice ? { defaultPrice: meta.defaultPrice } : {}),
-    };
-  });
+      ...(plan.defaultPrice ? { defaultPrice: plan.defaultPrice } : {}),
+    }));
   return { mode, plans };
 }
@@ -0,0 +1,368 @@
+/**
+ * Coupons & promotion codes
+ *
+ * A coupon describes a discount (percent or fixed amount) and how many
+ * billing periods it applies to; customers redeem it through promotion
+ * codes. Redemption limits are enforced here for every provider: provider
+ * checkouts receive the discount as a `CheckoutDiscount`, internal invoices
+ * apply it directly.
+ *
+ * A provider checkout reserves the redemption (`pending`) until the
+ * provider reports the checkout completed, which confirms it; reservations
+ * of checkouts that never complete are released after
+ * `RESERVATION_TTL_MS` by the `billing.releaseRedemptions` job. Internal
+ * checkouts confirm right away.
+ */
+
+import { Money, logger } from '@unisane/kernel';
+import type { BillingProviderInternal, CheckoutDiscount, CurrencyCode, PlanId } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { CouponsRepository } from '../data/coupons.repository';
+import { coversPeriod, discountAmount, unavailableReason } from '../domain/discounts';
+import { InvalidCouponError } from '../domain/errors';
+import type { CouponCreate, PromotionCodeCreate } from '../domain/schemas';
+import type { Coupon, CouponRedemption, InvoiceProvider, PlanVersion, PromotionCode } from '../domain/types';
+import { getCurrentPlanVersion, isPlanId } from './plans';
+import { logBillingAudit, BILLING_AUDIT_ACTIONS } from './audit';
+
+const log = logger.child({ module: 'billing', component: 'coupons' });
+
+// Matches the lifetime of a Stripe checkout session
+const RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// Admin
+// ════════════════════════════════════════════════════════════════════════════
+
+export type CreateCouponArgs = {
+  input: CouponCreate;
+  actorId?: string;
+};
+
+export async function createCoupon(args: CreateCouponArgs): Promise<Coupon> {
+  const { input } = args;
+  const unknownPlan = input.appliesToPlans?.find((p) => !isPlanId(p));
+  if (unknownPlan) throw ERR.validation(`Unknown plan ${unknownPlan}`);
+  let discount = input.discount;
+  if (discount.type === 'fixed') {
+    const currency = discount.amountOff.currency.toUpperCase();
+    if (!Money.isValidCurrency(currency)) throw ERR.validation(`Unsupported currency ${currency}`);
+    discount = { type: 'fixed', amountOff: { amount: discount.amountOff.amount, currency } };
+  }
+
+  const coupon = await CouponsRepository.insertCoupon({
+    name: input.name,
+    discount,
+    duration: input.duration,
+    ...(input.durationInMonths !== undefined ? { durationInMonths: input.durationInMonths } : {}),
+    ...(input.maxRedemptions !== undefined ? { maxRedemptions: input.maxRedemptions } : {}),
+    expiresAt: input.expiresAt ?? null,
+    ...(input.appliesToPlans ? { appliesToPlans: input.appliesToPlans as PlanId[] } : {}),
+    ...(input.providerRefs ? { providerRefs: input.providerRefs } : {}),
+    ...(args.actorId ? { createdBy: args.actorId } : {}),
+  });
+  log.info('coupon created', { couponId: coupon.id, actorId: args.actorId });
+  return coupon;
+}
+
+export async function listCoupons(args: { includeArchived?: boolean } = {}): Promise<{ items: Coupon[] }> {
+  return { items: await CouponsRepository.listCoupons({ includeArchived: args.includeArchived ?? false }) };
+}
+
+/**
+ * Stop new redemptions. Existing discounts keep running for their duration.
+ */
+export async function archiveCoupon(args: { couponId: string }): Promise<Coupon> {
+  const coupon = await CouponsRepository.archiveCoupon(args.couponId);
+  if (!coupon) throw ERR.notFound('Coupon');
+  log.info('coupon archived', { couponId: coupon.id });
+  return coupon;
+}
+
+export type CreatePromotionCodeArgs = {
+  couponId: string;
+  input: PromotionCodeCreate;
+  actorId?: string;
+};
+
+export async function createPromotionCode(args: CreatePromotionCodeArgs): Promise<PromotionCode> {
+  const coupon = await CouponsRepository.findCouponById(args.couponId);
+  if (!coupon) throw ERR.notFound('Coupon');
+  if (coupon.archivedAt) throw ERR.validation('Coupon is archived');
+
+  const res = await CouponsRepository.insertPromotionCode({
+    code: args.input.code,
+    couponId: coupon.id,
+    ...(args.input.maxRedemptions !== undefined ? { maxRedemptions: args.input.maxRedemptions } : {}),
+    expiresAt: args.input.expiresAt ?? null,
+    ...(args.actorId ? { createdBy: args.actorId } : {}),
+  });
+  if ('conflict' in res) throw ERR.alreadyExists(`Promotion code ${args.input.code}`);
+  log.info('promotion code created', { couponId: coupon.id, code: res.promotionCode.code });
+  return res.promotionCode;
+}
+
+export async function listPromotionCodes(args: { couponId: string }): Promise<{ items: PromotionCode[] }> {
+  return { items: await CouponsRepository.listPromotionCodes(args.couponId) };
+}
+
+export async function deactivatePromotionCode(args: { promotionCodeId: string }): Promise<PromotionCode> {
+  const promotionCode = await CouponsRepository.setPromotionCodeActive(args.promotionCodeId, false);
+  if (!promotionCode) throw ERR.notFound('Promotion code');
+  return promotionCode;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Redemption
+// ════════════════════════════════════════════════════════════════════════════
+
+type ValidCode = {
+  coupon: Coupon;
+  promotionCode: PromotionCode;
+  plan: PlanVersion;
+  /** Earlier redemption of the coupon by the same scope */
+  prior: CouponRedemption | null;
+  /** Expired reservation of the coupon by the same scope, still to be released */
+  lapsed: CouponRedemption | null;
+};
+
+function isLapsed(redemption: CouponRedemption, now = new Date()): boolean {
+  return redemption.status === 'pending' && redemption.expiresAt !== null && redemption.expiresAt <= now;
+}
+
+async function validateCode(args: { scopeId: string; code: string; planId: string }): Promise<ValidCode> {
+  const normalized = args.code.trim().toUpperCase();
+  if (!isPlanId(args.planId)) throw new InvalidCouponError(normalized, 'not valid for this plan');
+  const promotionCode = await CouponsRepository.findPromotionCodeByCode(normalized);
+  const coupon = promotionCode ? await CouponsRepository.findCouponById(promotionCode.couponId) : null;
+  if (!promotionCode || !coupon) throw new InvalidCouponError(normalized, 'unknown code');
+
+  const found = await CouponsRepository.findRedemption(coupon.id, args.scopeId);
+  const lapsed = found && isLapsed(found) ? found : null;
+  const prior = lapsed ? null : found;
+  // Each coupon is redeemed once per scope; a retried checkout for the same plan reuses it
+  if (prior && prior.planId !== args.planId) throw new InvalidCouponError(normalized, 'already redeemed');
+
+  const plan = await getCurrentPlanVersion(args.planId);
+  const reason = unavailableReason({
+    coupon,
+    promotionCode,
+    planId: args.planId,
+    ...(plan.defaultPrice ? { currency: plan.defaultPrice.currency } : {}),
+    redeemed: prior !== null,
+  });
+  if (reason) throw new InvalidCouponError(normalized, reason);
+  return { coupon, promotionCode, plan, prior, lapsed };
+}
+
+function firstPeriodDiscount(coupon: Coupon, plan: PlanVersion): { amountOff: Money; total: Money } | null {
+  if (!plan.defaultPrice) return null;
+  const price = Money.fromMajor(plan.defaultPrice.amount, plan.defaultPrice.currency.toUpperCase() as CurrencyCode);
+  const amountOff = discountAmount(price, coupon.discount);
+  return { amountOff, total: price.subtract(amountOff) };
+}
+
+/**
+ * What a promotion code would take off the first period of a plan. Does not
+ * count as a redemption.
+ */
+export async function previewPromotionCode(args: { scopeId: string; code: string; planId: string }) {
+  const { coupon, promotionCode, plan } = await validateCode(args);
+  const amounts = firstPeriodDiscount(coupon, plan);
+  return {
+    code: promotionCode.code,
+    coupon: {
+      id: coupon.id,
+      name: coupon.name,
+      discount: coupon.discount,
+      duration: coupon.duration,
+      ...(coupon.durationInMonths !== undefined ? { durationInMonths: coupon.durationInMonths } : {}),
+    },
+    planId: plan.planId,
+    ...(amounts
+      ? {
+          currency: amounts.total.currency,
+          amountOff: amounts.amountOff.toMajor(),
+          total: amounts.total.toMajor(),
+        }
+      : {}),
+  };
+}
+
+export function toCheckoutDiscount(coupon: Coupon, provider: BillingProviderInternal): CheckoutDiscount {
+  const providerRef = provider !== 'noop' ? coupon.providerRefs?.[provider] : undefined;
+  const { discount } = coupon;
+  return {
+    couponId: coupon.id,
+    name: coupon.name,
+    ...(discount.type === 'percent'
+      ? { percentOff: discount.percentOff }
+      : {
+          amountOff: {
+            amountMinorStr: Money.fromMajor(
+              discount.amountOff.amount,
+              discount.amountOff.currency as CurrencyCode
+            ).toMinor().toString(),
+            currency: discount.amountOff.currency,
+          },
+        }),
+    duration: coupon.duration,
+    ...(coupon.durationInMonths !== undefined ? { durationInMonths: coupon.durationInMonths } : {}),
+    ...(providerRef ? { providerRef } : {}),
+  };
+}
+
+export type ReservedCoupon = {
+  coupon: Coupon;
+  redemption: CouponRedemption;
+  discount: CheckoutDiscount;
+  /** Undo the reservation when checkout fails; no-op for a reused redemption */
+  release(): Promise<void>;
+};
+
+/**
+ * Return a pending redemption to the coupon and promotion code limits.
+ * False when it was confirmed or released in the meantime.
+ */
+async function releaseReservation(redemption: CouponRedemption): Promise<boolean> {
+  if (!(await CouponsRepository.deletePendingRedemption(redemption.id))) return false;
+  await CouponsRepository.releaseRedemption({
+    couponId: redemption.couponId,
+    promotionCodeId: redemption.promotionCodeId,
+  });
+  return true;
+}
+
+/**
+ * Reserve a promotion code for a subscription checkout. The redemption
+ * counts against the limits right away but stays pending until
+ * `confirmCouponRedemption`. Each coupon can be redeemed once per scope;
+ * retrying checkout for the same plan reuses the earlier redemption (and
+ * extends a pending one) instead of counting it again.
+ */
+export async function reservePromotionCode(args: {
+  scopeId: string;
+  planId: string;
+  code: string;
+  provider: BillingProviderInternal;
+}): Promise<ReservedCoupon> {
+  const { coupon, promotionCode, plan, prior, lapsed } = await validateCode(args);
+  if (args.provider === 'razorpay' && !coupon.providerRefs?.razorpay) {
+    throw new InvalidCouponError(promotionCode.code, 'not available for this payment provider');
+  }
+  const discount = toCheckoutDiscount(coupon, args.provider);
+  const expiresAt = new Date(Date.now() + RESERVATION_TTL_MS);
+  const reused = async (redemption: CouponRedemption): Promise<ReservedCoupon> => {
+    if (redemption.planId !== plan.planId) throw new InvalidCouponError(promotionCode.code, 'already redeemed');
+    if (redemption.status === 'pending') await CouponsRepository.extendRedemption(redemption.id, expiresAt);
+    return { coupon, redemption, discount, release: async () => {} };
+  };
+  if (prior) return reused(prior);
+  if (lapsed) await releaseReservation(lapsed);
+
+  const ids = { couponId: coupon.id, promotionCodeId: promotionCode.id };
+  if (!(await CouponsRepository.reserveRedemption(ids))) {
+    throw new InvalidCouponError(promotionCode.code, 'fully redeemed');
+  }
+  const provider: InvoiceProvider = args.provider === 'noop' ? 'internal' : args.provider;
+  const res = await CouponsRepository.insertRedemption({
+    scopeId: args.scopeId,
+    couponId: coupon.id,
+    promotionCodeId: promotionCode.id,
+    code: promotionCode.code,
+    planId: plan.planId,
+    provider,
+    status: 'pending',
+    expiresAt,
+  });
+  if ('conflict' in res) {
+    // Redeemed concurrently for the same scope
+    await CouponsRepository.releaseRedemption(ids);
+    const existing = await CouponsRepository.findRedemption(coupon.id, args.scopeId);
+    if (!existing) throw ERR.versionMismatch();
+    return reused(existing);
+  }
+
+  const { redemption } = res;
+  return {
+    coupon,
+    redemption,
+    discount,
+    release: async () => {
+      await releaseReservation(redemption);
+    },
+  };
+}
+
+/**
+ * Confirm the scope's pending redemption of a coupon once its checkout
+ * completed. Returns null when nothing is pending: already confirmed, or
+ * released because the checkout completed after the reservation expired.
+ */
+export async function confirmCouponRedemption(args: {
+  scopeId: string;
+  couponId: string;
+}): Promise<CouponRedemption | null> {
+  const redemption = await CouponsRepository.confirmRedemption(args.couponId, args.scopeId);
+  if (!redemption) {
+    if (!(await CouponsRepository.findRedemption(args.couponId, args.scopeId))) {
+      log.warn('checkout completed after its coupon reservation was released', args);
+    }
+    return null;
+  }
+  await logBillingAudit({
+    scopeId: args.scopeId,
+    action: BILLING_AUDIT_ACTIONS.COUPON_REDEEMED,
+    targetType: 'coupon',
+    targetId: args.couponId,
+    metadata: { code: redemption.code, planId: redemption.planId, provider: redemption.provider },
+  });
+  log.info('coupon redemption confirmed', { couponId: args.couponId, scopeId: args.scopeId });
+  return redemption;
+}
+
+/**
+ * Release reservations whose checkout never completed. Entry point of the
+ * `billing.releaseRedemptions` job.
+ */
+export async function releaseExpiredRedemptions(
+  args: { now?: Date; limit?: number } = {}
+): Promise<{ released: number }> {
+  const expired = await CouponsRepository.listExpiredRedemptions(args.now ?? new Date(), args.limit ?? 200);
+  let released = 0;
+  for (const redemption of expired) {
+    if (await releaseReservation(redemption)) released++;
+  }
+  if (released > 0) log.info('expired coupon reservations released', { released });
+  return { released };
+}
+
+/**
+ * Coupon discounting the internal usage invoice of the calendar month
+ * starting at `periodStart`, from the scope's latest confirmed internal
+ * redemption for `planId`. The subscription's first invoice is period 0 and
+ * usage is invoiced after its month, so `once` coupons never discount usage
+ * while `repeating` ones cover the usage invoices issued within their months.
+ */
+export async function findUsageInvoiceCoupon(args: {
+  scopeId: string;
+  planId: string;
+  periodStart: Date;
+  currency: string;
+}): Promise<Coupon | null> {
+  const redemption = await CouponsRepository.findLatestConfirmedRedemption(args.scopeId, 'internal');
+  if (!redemption || redemption.planId !== args.planId) return null;
+  const redeemedAt = redemption.createdAt;
+  const monthsElapsed =
+    (args.periodStart.getUTCFullYear() - redeemedAt.getUTCFullYear()) * 12 +
+    (args.periodStart.getUTCMonth() - redeemedAt.getUTCMonth());
+  if (monthsElapsed < 0) return null;
+
+  const coupon = await CouponsRepository.findCouponById(redemption.couponId);
+  if (!coupon || !coversPeriod(coupon, monthsElapsed + 1, 'month')) return null;
+  const { discount } = coupon;
+  if (discount.type === 'fixed' && discount.amountOff.currency.toUpperCase() !== args.currency.toUpperCase()) {
+    return null;
+  }
+  return coupon;
+}
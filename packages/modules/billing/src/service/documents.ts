@@ -0,0 +1,175 @@
+import {
+  BILLING_SETTING_KEYS,
+  getPdfRenderer,
+  getTenantsProvider,
+  getTypedSetting,
+  SETTINGS_NS,
+} from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { InvoicesRepository } from "../data/invoices.repository";
+import { PaymentsRepository } from "../data/payments.repository";
+import { InvoiceNotFoundError, PaymentNotFoundError } from "../domain/errors";
+import { ZInvoiceProfile, type InvoiceProfile } from "../domain/schemas";
+import {
+  buildBillingDocumentHtml,
+  documentFilename,
+  documentNumber,
+  type BillingDocument,
+} from "../domain/invoice-document";
+
+export type BillingPdf = {
+  number: string;
+  filename: string;
+  bytes: Uint8Array;
+  pages: number;
+};
+
+const RECEIPT_STATUSES = new Set(["succeeded", "refunded", "partially_refunded"]);
+
+/**
+ * Read the tenant's invoice profile (settings `billing.invoiceProfile`),
+ * empty when unset, unregistered or invalid.
+ */
+export async function getInvoiceProfile(scopeId: string): Promise<InvoiceProfile> {
+  const row = await getTypedSetting<unknown>({
+    scopeId,
+    ns: SETTINGS_NS.BILLING,
+    key: BILLING_SETTING_KEYS.INVOICE_PROFILE,
+  }).catch(() => null);
+  const parsed = ZInvoiceProfile.safeParse(row?.value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+async function loadBillTo(scopeId: string): Promise<BillingDocument["billTo"]> {
+  const [tenant, profile] = await Promise.all([
+    getTenantsProvider().findById(scopeId).catch(() => null),
+    getInvoiceProfile(scopeId),
+  ]);
+  return {
+    name: profile.legalName || tenant?.name || tenant?.slug || scopeId,
+    ...(profile.address ? { address: profile.address } : {}),
+    ...(profile.taxId ? { taxId: profile.taxId } : {}),
+    ...(profile.email ? { email: profile.email } : {}),
+  };
+}
+
+async function renderDocument(doc: BillingDocument): Promise<BillingPdf> {
+  const output = await getPdfRenderer().render({
+    html: buildBillingDocumentHtml(doc),
+    title: `${doc.kind === "invoice" ? "Invoice" : "Receipt"} ${doc.number}`,
+  });
+  return { number: doc.number, filename: documentFilename(doc), bytes: output.bytes, pages: output.pageCount };
+}
+
+/**
+ * Render an invoice PDF from the stored invoice, its payment (when paid) and
+ * the tenant's invoice profile.
+ */
+export async function renderInvoicePdf(args: { scopeId: string; invoiceId: string }): Promise<BillingPdf> {
+  const invoice = await InvoicesRepository.findById({ scopeId: args.scopeId, id: args.invoiceId });
+  if (!invoice) throw new InvoiceNotFoundError(args.invoiceId);
+
+  const payment = invoice.providerPaymentId
+    ? await PaymentsRepository.findByProviderPaymentId({
+        scopeId: args.scopeId,
+        providerPaymentId: invoice.providerPaymentId,
+      })
+    : null;
+
+  return renderDocument({
+    kind: "invoice",
+    number: documentNumber("invoice", invoice.id, invoice.number),
+    issuedAt: invoice.issuedAt ?? new Date(),
+    dueAt: invoice.dueAt,
+    status: invoice.status,
+    currency: invoice.currency,
+    lineItems: invoice.lineItems,
+    total: invoice.amount,
+    billTo: await loadBillTo(args.scopeId),
+    payment: payment && RECEIPT_STATUSES.has(payment.status)
+      ? { reference: payment.providerPaymentId, provider: payment.provider, paidAt: payment.capturedAt }
+      : null,
+  });
+}
+
+/**
+ * Render a receipt PDF for a completed payment. Line items come from the
+ * invoice the payment settled, if any (manual and credits-only top-ups have
+ * none and get a single "Payment" line).
+ */
+export async function renderPaymentReceiptPdf(args: { scopeId: string; paymentId: string }): Promise<BillingPdf> {
+  const payment = await PaymentsRepository.findById({ scopeId: args.scopeId, id: args.paymentId });
+  if (!payment) throw new PaymentNotFoundError(args.paymentId);
+  if (!RECEIPT_STATUSES.has(payment.status)) {
+    throw ERR.validation("Receipts are only available for completed payments");
+  }
+
+  const invoice = payment.providerPaymentId
+    ? await InvoicesRepository.findByProviderPaymentId({
+        scopeId: args.scopeId,
+        providerPaymentId: payment.providerPaymentId,
+      })
+    : null;
+
+  return renderDocument({
+    kind: "receipt",
+    number: documentNumber("receipt", payment.id),
+    issuedAt: payment.capturedAt ?? new Date(),
+    status: payment.status,
+    currency: payment.currency,
+    lineItems: invoice?.lineItems ?? [],
+    total: payment.amount,
+    billTo: await loadBillTo(args.scopeId),
+    payment: { reference: payment.providerPaymentId, provider: payment.provider, paidAt: payment.capturedAt },
+  });
+}
+
+/**
+ * Attachment disposition with a quoted ASCII fallback name and the exact
+ * name as an RFC 5987 `filename*` parameter.
+ */
+function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function pdfResponse(pdf: BillingPdf): Response {
+  return new Response(Buffer.from(pdf.bytes), {
+    status: 200,
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": attachmentDisposition(pdf.filename),
+      "content-length": String(pdf.bytes.byteLength),
+      "cache-control": "no-store",
+    },
+  });
+}
+
+type DownloadArgs = {
+  req: Request;
+  params?: { [k: string]: unknown };
+  ctx: unknown;
+  requestId: string;
+};
+
+/** Route factory: stream the invoice PDF as a download. */
+export async function downloadInvoicePdf(args: DownloadArgs): Promise<Response> {
+  const pdf = await renderInvoicePdf({
+    scopeId: String(args.params?.tenantId ?? ""),
+    invoiceId: String(args.params?.invoiceId ?? ""),
+  });
+  return pdfResponse(pdf);
+}
+
+/** Route factory: stream the payment receipt PDF as a download. */
+export async function downloadPaymentReceiptPdf(args: DownloadArgs): Promise<Response> {
+  const pdf = await renderPaymentReceiptPdf({
+    scopeId: String(args.params?.tenantId ?? ""),
+    paymentId: String(args.params?.paymentId ?? ""),
+  });
+  return pdfResponse(pdf);
+}
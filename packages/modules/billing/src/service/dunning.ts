@@ -0,0 +1,331 @@
+/**
+ * Dunning
+ *
+ * When a subscription goes past due, billing opens a dunning case and starts
+ * the `billing.dunning` saga: reminder emails on the configured days, then
+ * entitlements restricted to the free plan, then tenant suspension. Each
+ * step is a delayed saga step, so progress survives restarts and is visible
+ * on the saga instance; the `billing.dunning` job resumes steps as they fall
+ * due. When the subscription recovers (or is canceled) the saga is cancelled
+ * and its compensations lift the restriction and the suspension.
+ */
+
+import {
+  BILLING_SETTING_KEYS,
+  SETTINGS_NS,
+  defineSaga,
+  generateId,
+  getSagaManager,
+  getTenantsProvider,
+  getTypedSetting,
+  hasNotifyProvider,
+  logger,
+  sendEmailViaPort,
+} from '@unisane/kernel';
+import type { BillingProvider, SubscriptionStatus } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { DunningRepository } from '../data/dunning.repository';
+import { BILLING_DEFAULTS, BILLING_EMAIL_TEMPLATES } from '../domain/constants';
+import { ZDunningSchedule, type DunningSchedule } from '../domain/schemas';
+import type { DunningCase, DunningStatus } from '../domain/types';
+import { logBillingAudit, BILLING_AUDIT_ACTIONS } from './audit';
+import { getInvoiceProfile } from './documents';
+import { invalidateEntitlements } from './entitlements';
+
+const log = logger.child({ module: 'billing', component: 'dunning' });
+
+export const DUNNING_SAGA = 'billing.dunning';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DunningContext = {
+  caseId: string;
+  scopeId: string;
+  /** ISO timestamp the schedule counts from */
+  startedAt: string;
+  /** Schedule in force when the case opened */
+  schedule: DunningSchedule;
+};
+
+/**
+ * Read the dunning schedule (platform setting `billing.dunning`), falling
+ * back to the defaults when unset or invalid.
+ */
+export async function getDunningSchedule(): Promise<DunningSchedule> {
+  const row = await getTypedSetting<unknown>({
+    scopeId: null,
+    ns: SETTINGS_NS.BILLING,
+    key: BILLING_SETTING_KEYS.DUNNING,
+  }).catch(() => null);
+  const parsed = ZDunningSchedule.safeParse(row?.value ?? {});
+  if (parsed.success) return parsed.data;
+  log.warn('invalid dunning schedule setting, using defaults', { issues: parsed.error.issues.length });
+  return ZDunningSchedule.parse({});
+}
+
+function dayDate(ctx: DunningContext, days: number): Date {
+  return new Date(new Date(ctx.startedAt).getTime() + days * DAY_MS);
+}
+
+function untilDay(ctx: DunningContext, days: number): number {
+  return dayDate(ctx, days).getTime() - Date.now();
+}
+
+async function notifyScope(
+  ctx: DunningContext,
+  template: string,
+  data: Record<string, unknown>
+): Promise<boolean> {
+  const profile = await getInvoiceProfile(ctx.scopeId);
+  if (!profile.email || !hasNotifyProvider()) {
+    log.info('dunning email skipped', { scopeId: ctx.scopeId, template, hasRecipient: Boolean(profile.email) });
+    return false;
+  }
+  const result = await sendEmailViaPort({
+    to: profile.email,
+    template,
+    data: {
+      tenantId: ctx.scopeId,
+      restrictsAt: dayDate(ctx, ctx.schedule.restrictAfterDays).toISOString(),
+      suspendsAt: dayDate(ctx, ctx.schedule.suspendAfterDays).toISOString(),
+      ...data,
+    },
+  });
+  if (!result.success) log.warn('dunning email failed', { scopeId: ctx.scopeId, template });
+  return result.success;
+}
+
+async function liftRestriction(ctx: Pick<DunningContext, 'caseId' | 'scopeId'>): Promise<void> {
+  await DunningRepository.setStage(ctx.caseId, 'reminding');
+  await invalidateEntitlements(ctx.scopeId);
+}
+
+/**
+ * Reactivate the tenant if dunning suspended it and it is still suspended.
+ */
+async function liftSuspension(ctx: Pick<DunningContext, 'caseId' | 'scopeId'>): Promise<void> {
+  const dunningCase = await DunningRepository.findById(ctx.caseId);
+  if (!dunningCase?.suspendedTenant) return;
+  const tenants = getTenantsProvider();
+  const tenant = await tenants.findById(ctx.scopeId);
+  if (tenant?.status === 'suspended' && tenants.updateStatus) {
+    await tenants.updateStatus(ctx.scopeId, 'active', 'Subscription payment recovered');
+  }
+  await DunningRepository.setStage(ctx.caseId, 'restricted', { suspendedTenant: false });
+}
+
+function reminderStep(index: number) {
+  return {
+    name: `reminder-${index + 1}`,
+    // Unused reminder slots run immediately and do nothing
+    delayMs: (ctx: DunningContext) => {
+      const day = ctx.schedule.reminderDays[index];
+      return day === undefined ? 0 : untilDay(ctx, day);
+    },
+    execute: async (ctx: DunningContext) => {
+      if (ctx.schedule.reminderDays[index] === undefined) return;
+      await notifyScope(ctx, BILLING_EMAIL_TEMPLATES.DUNNING_REMINDER, {
+        reminder: index + 1,
+        reminders: ctx.schedule.reminderDays.length,
+      });
+      await DunningRepository.recordReminder(ctx.caseId);
+    },
+    retries: 2,
+  };
+}
+
+export const dunningSaga = defineSaga<DunningContext>({
+  name: DUNNING_SAGA,
+  description: 'Reminders, feature restriction and suspension for a past-due subscription',
+  steps: [
+    ...Array.from({ length: BILLING_DEFAULTS.DUNNING_MAX_REMINDERS }, (_, i) => reminderStep(i)),
+    {
+      name: 'restrict-features',
+      delayMs: (ctx) => untilDay(ctx, ctx.schedule.restrictAfterDays),
+      execute: async (ctx) => {
+        await DunningRepository.setStage(ctx.caseId, 'restricted');
+        await invalidateEntitlements(ctx.scopeId);
+        await logBillingAudit({
+          scopeId: ctx.scopeId,
+          action: BILLING_AUDIT_ACTIONS.DUNNING_RESTRICTED,
+          targetType: 'dunning_case',
+          targetId: ctx.caseId,
+        });
+        await notifyScope(ctx, BILLING_EMAIL_TEMPLATES.DUNNING_RESTRICTED, {});
+      },
+      compensate: async (ctx) => {
+        await liftRestriction(ctx);
+      },
+      retries: 2,
+    },
+    {
+      name: 'suspend-tenant',
+      delayMs: (ctx) => untilDay(ctx, ctx.schedule.suspendAfterDays),
+      execute: async (ctx) => {
+        const tenants = getTenantsProvider();
+        const tenant = await tenants.findById(ctx.scopeId);
+        // Leave tenants that are already suspended or deleted alone
+        const suspend = (tenant?.status ?? 'active') === 'active' && Boolean(tenants.updateStatus);
+        if (suspend) {
+          await tenants.updateStatus?.(ctx.scopeId, 'suspended', 'Subscription payment overdue');
+        }
+        await DunningRepository.setStage(ctx.caseId, 'suspended', { suspendedTenant: suspend });
+        await notifyScope(ctx, BILLING_EMAIL_TEMPLATES.DUNNING_SUSPENDED, {});
+      },
+      compensate: async (ctx) => {
+        await liftSuspension(ctx);
+      },
+      retries: 2,
+    },
+  ],
+  onFail: async (ctx, error, failedStep) => {
+    log.error('dunning saga failed', { scopeId: ctx.scopeId, caseId: ctx.caseId, failedStep, error: error.message });
+  },
+  // Steps are short; waiting happens between runs
+  timeout: 60_000,
+});
+
+/**
+ * Register the dunning saga with the global saga manager (idempotent).
+ * Waiting dunning sagas can only resume once it is registered.
+ */
+export function registerDunningSaga() {
+  const manager = getSagaManager();
+  if (!manager.isRegistered(DUNNING_SAGA)) manager.register(dunningSaga);
+  return manager;
+}
+
+/**
+ * Open a dunning case for a past-due subscription and start its saga.
+ * Returns the existing case when the scope already has an open one.
+ */
+export async function startDunning(args: {
+  scopeId: string;
+  provider: BillingProvider;
+  providerSubId?: string | null;
+}): Promise<DunningCase> {
+  const existing = await DunningRepository.findOpen(args.scopeId);
+  if (existing) return existing;
+
+  const schedule = await getDunningSchedule();
+  const res = await DunningRepository.open({
+    scopeId: args.scopeId,
+    provider: args.provider,
+    providerSubId: args.providerSubId ?? null,
+    sagaId: generateId('saga'),
+  });
+  if ('conflict' in res) {
+    // Opened concurrently by a redelivered webhook
+    const current = await DunningRepository.findOpen(args.scopeId);
+    if (!current) throw ERR.versionMismatch();
+    return current;
+  }
+
+  const { dunningCase } = res;
+  log.info('dunning started', { scopeId: args.scopeId, caseId: dunningCase.id, sagaId: dunningCase.sagaId });
+  await logBillingAudit({
+    scopeId: args.scopeId,
+    action: BILLING_AUDIT_ACTIONS.DUNNING_STARTED,
+    targetType: 'dunning_case',
+    targetId: dunningCase.id,
+    metadata: { provider: args.provider, providerSubId: args.providerSubId ?? null, schedule },
+  });
+
+  const context: DunningContext = {
+    caseId: dunningCase.id,
+    scopeId: args.scopeId,
+    startedAt: dunningCase.startedAt.toISOString(),
+    schedule,
+  };
+  await registerDunningSaga().start(DUNNING_SAGA, context, { id: dunningCase.sagaId, scopeId: args.scopeId });
+  return (await DunningRepository.findById(dunningCase.id)) ?? dunningCase;
+}
+
+/**
+ * Close the scope's open dunning case, lifting any restriction or
+ * suspension it applied. No-op when there is no open case.
+ */
+export async function resolveDunning(args: {
+  scopeId: string;
+  outcome: Exclude<DunningStatus, 'open'>;
+}): Promise<DunningCase | null> {
+  const open = await DunningRepository.findOpen(args.scopeId);
+  if (!open) return null;
+
+  const cancelled = await registerDunningSaga().cancel(open.sagaId, `subscription ${args.outcome}`);
+  if (!cancelled) {
+    // Saga state lost (no saga store); undo its effects directly
+    const ctx = { caseId: open.id, scopeId: open.scopeId };
+    await liftSuspension(ctx);
+    await liftRestriction(ctx);
+  }
+
+  const resolved = await DunningRepository.resolve(open.id, args.outcome);
+  await invalidateEntitlements(args.scopeId);
+  if (!resolved) return null;
+
+  log.info('dunning resolved', { scopeId: args.scopeId, caseId: open.id, outcome: args.outcome });
+  await logBillingAudit({
+    scopeId: args.scopeId,
+    action: BILLING_AUDIT_ACTIONS.DUNNING_RESOLVED,
+    targetType: 'dunning_case',
+    targetId: open.id,
+    changes: [{ field: 'status', from: 'open', to: args.outcome }],
+    metadata: { stage: open.stage, remindersSent: open.remindersSent },
+  });
+  if (args.outcome === 'recovered') {
+    const schedule = await getDunningSchedule();
+    await notifyScope(
+      { caseId: open.id, scopeId: args.scopeId, startedAt: open.startedAt.toISOString(), schedule },
+      BILLING_EMAIL_TEMPLATES.DUNNING_RECOVERED,
+      {}
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Start or resolve dunning from a subscription status change: past due or
+ * unpaid opens a case, active/trialing recovers it, canceled closes it.
+ */
+export async function syncDunningForSubscription(args: {
+  scopeId: string;
+  provider: BillingProvider;
+  providerSubId: string;
+  status: SubscriptionStatus;
+}): Promise<void> {
+  switch (args.status) {
+    case 'past_due':
+    case 'unpaid':
+      await startDunning(args);
+      return;
+    case 'active':
+    case 'trialing':
+      await resolveDunning({ scopeId: args.scopeId, outcome: 'recovered' });
+      return;
+    case 'canceled':
+      await resolveDunning({ scopeId: args.scopeId, outcome: 'canceled' });
+      return;
+    default:
+      return;
+  }
+}
+
+/**
+ * Continue dunning sagas whose next step is due. Run periodically (the
+ * `billing.dunning` job); resumes every due saga, not only dunning.
+ */
+export async function runDueDunning(args: { limit?: number } = {}): Promise<{ resumed: number; failed: number }> {
+  return registerDunningSaga().resumeDue(new Date(), args.limit);
+}
+
+export async function listDunningCases(
+  args: { status?: DunningStatus; limit?: number } = {}
+): Promise<{ items: DunningCase[] }> {
+  return {
+    items: await DunningRepository.list({
+      ...(args.status ? { status: args.status } : {}),
+      limit: args.limit ?? 50,
+    }),
+  };
+}
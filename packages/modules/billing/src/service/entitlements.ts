@@ -19,6 +19,9 @@ import {
   logger,
 } from '@unisane/kernel';
 import type { PlanId, FeatureKey, FeaturePolicyMap, TokenCost } from '@unisane/kernel';
+import { SubscriptionsRepository } from '../data/subscriptions.repository';
+import { DunningRepository } from '../data/dunning.repository';
+import { isPlanId, resolveSubscribedPlan } from './plans';
 
 // -------- Token cost policy (per-operation costs + daily freebies) --------
 export type TokenPolicy = {
@@ -79,6 +82,26 @@ function baseEntitlementsForPlan(planId: PlanId): Entitlements {
 
 const log = logger.child({ module: 'billing', component: 'entitlements' });
 
+/**
+ * Base entitlements from the catalog version the tenant's subscription is
+ * pinned to, falling back to the seed definition if the catalog is unavailable.
+ */
+async function baseEntitlementsForTenant(tenantId: string, planId: PlanId): Promise<Entitlements> {
+  if (!isPlanId(planId)) return baseEntitlementsForPlan(planId);
+  try {
+    const subscription = await SubscriptionsRepository.findLatest(tenantId);
+    const plan = await resolveSubscribedPlan(planId, subscription);
+    return deepMergeEntitlements(plan.entitlements as Entitlements, {});
+  } catch (error) {
+    log.error('failed to resolve plan version, using seed entitlements', {
+      tenantId,
+      planId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return baseEntitlementsForPlan(planId);
+  }
+}
+
 /**
  * Get tenant plan from tenant provider
  * Uses the kernel port to avoid direct module dependency
@@ -104,11 +127,29 @@ async function getTenantPlan(tenantId: string): Promise<PlanId | undefined> {
   }
 }
 
+/**
+ * Whether dunning has restricted the tenant to free-plan entitlements.
+ * Fails open: a lookup error never restricts a tenant.
+ */
+async function isRestrictedByDunning(tenantId: string): Promise<boolean> {
+  try {
+    const open = await DunningRepository.findOpen(tenantId);
+    return open !== null && open.stage !== 'reminding';
+  } catch (error) {
+    log.error('failed to check dunning restriction', {
+      tenantId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
 /**
  * Resolve entitlements for a tenant
  *
  * Priority:
- * 1. Base entitlements from plan definition
+ * 1. Base entitlements from the subscription's pinned plan version
+ *    (the free plan, without add-ons, while dunning restricts the tenant)
  * 2. Add-ons (additive - increases capacities/quotas)
  * 3. Overrides (replacement - directly sets values)
  */
@@ -119,7 +160,10 @@ export async function resolveEntitlements(tenantId: string): Promise<Entitlement
 
   const planId = await getTenantPlan(tenantId);
   const resolvedPlan: PlanId = (planId ?? 'free') as PlanId;
-  const base = baseEntitlementsForPlan(resolvedPlan);
+  const restricted = await isRestrictedByDunning(tenantId);
+  const base = restricted
+    ? baseEntitlementsForPlan('free' as PlanId)
+    : await baseEntitlementsForTenant(tenantId, resolvedPlan);
 
   // Merge addOns and overrides from settings_kv when present
   const addonsRow = await getTypedSetting<unknown>({
@@ -136,7 +180,7 @@ export async function resolveEntitlements(tenantId: string): Promise<Entitlement
 
   const addons = normalizePatch(addonsRow?.value);
   const overrides = normalizePatch(overridesRow?.value);
-  const withAddons = applyAddons(base, addons);
+  const withAddons = restricted ? base : applyAddons(base, addons);
   const merged = deepMergeEntitlements(withAddons, overrides);
 
   await cacheSet(cacheKey, merged, 120_000);
@@ -152,7 +196,7 @@ export async function invalidateEntitlements(tenantId: string): Promise<void> {
 }
 
 /**
- * No-DB mode helper: resolve directly from a plan id (static defaults)
+ * No-DB mode helper: resolve directly from a plan id (seed definitions)
  */
 export function resolveEntitlementsForPlan(planId: PlanId): Entitlements {
   return baseEntitlementsForPlan(planId);
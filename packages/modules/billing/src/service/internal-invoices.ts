@@ -0,0 +1,168 @@
+/**
+ * Internal invoices
+ *
+ * When no payment provider is registered, billing issues subscription
+ * invoices itself (provider `internal`) so plan purchases still leave a
+ * record, with coupon discounts applied as a negative line item. Metered
+ * usage of a closed period is billed on its own invoice, discounted while
+ * the tenant's coupon lasts. Tax is added to both once tax collection is
+ * enabled.
+ */
+
+import { Money, newEntityId, logger } from '@unisane/kernel';
+import type { CurrencyCode, InvoiceStatus } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { InvoicesRepository } from '../data/invoices.repository';
+import { coversPeriod, discountAmount } from '../domain/discounts';
+import type { Coupon, InvoiceLineItem, PlanVersion } from '../domain/types';
+import { applyTax } from './tax';
+
+const log = logger.child({ module: 'billing', component: 'internal-invoices' });
+
+export type InternalInvoice = {
+  providerInvoiceId: string;
+  amount: number;
+  currency: string;
+  status: InvoiceStatus;
+  lineItems: InvoiceLineItem[];
+};
+
+/**
+ * Add the coupon's discount on `subtotal` as a negative line item and
+ * return the discounted total.
+ */
+function applyDiscount(subtotal: Money, lineItems: InvoiceLineItem[], coupon: Coupon): Money {
+  const off = discountAmount(subtotal, coupon.discount);
+  if (!off.isPositive()) return subtotal;
+  lineItems.push({
+    description: `Discount: ${coupon.name}`,
+    quantity: 1,
+    unitAmount: off.negate().toMajor(),
+    amount: off.negate().toMajor(),
+  });
+  return subtotal.subtract(off);
+}
+
+/**
+ * Build the invoice for billing period `period` (0 = first) of a plan.
+ */
+export function buildSubscriptionInvoice(args: {
+  plan: PlanVersion;
+  quantity: number;
+  coupon?: Coupon;
+  period?: number;
+}): Omit<InternalInvoice, 'providerInvoiceId'> {
+  const price = args.plan.defaultPrice;
+  if (!price) throw ERR.validation(`Plan ${args.plan.planId} has no price`);
+  const unit = Money.fromMajor(price.amount, price.currency.toUpperCase() as CurrencyCode);
+  const subtotal = unit.multiply(args.quantity);
+
+  const lineItems: InvoiceLineItem[] = [
+    {
+      description: `${args.plan.label} (${price.interval === 'year' ? 'yearly' : 'monthly'})`,
+      quantity: args.quantity,
+      unitAmount: unit.toMajor(),
+      amount: subtotal.toMajor(),
+    },
+  ];
+
+  const { coupon } = args;
+  const total =
+    coupon && coversPeriod(coupon, args.period ?? 0, price.interval)
+      ? applyDiscount(subtotal, lineItems, coupon)
+      : subtotal;
+
+  return {
+    amount: total.toMajor(),
+    currency: total.currency,
+    // Nothing to collect for fully discounted periods
+    status: total.isZero() ? 'paid' : 'open',
+    lineItems,
+  };
+}
+
+/**
+ * Issue and persist the first invoice of a subscription, with tax on the
+ * discounted amount.
+ */
+export async function issueSubscriptionInvoice(args: {
+  scopeId: string;
+  plan: PlanVersion;
+  quantity: number;
+  coupon?: Coupon;
+}): Promise<InternalInvoice> {
+  const built = buildSubscriptionInvoice(args);
+  const taxed = await applyTax({
+    scopeId: args.scopeId,
+    subtotal: Money.fromMajor(built.amount, built.currency as CurrencyCode),
+    lineItems: built.lineItems,
+  });
+  const invoice: InternalInvoice = {
+    providerInvoiceId: newEntityId(),
+    amount: taxed.amount.toMajor(),
+    currency: built.currency,
+    status: taxed.amount.isZero() ? 'paid' : 'open',
+    lineItems: taxed.lineItems,
+  };
+  await InvoicesRepository.upsertByProviderId({
+    scopeId: args.scopeId,
+    provider: 'internal',
+    ...invoice,
+    issuedAt: new Date(),
+  });
+  log.info('internal invoice issued', {
+    scopeId: args.scopeId,
+    planId: args.plan.planId,
+    amount: invoice.amount,
+    couponId: args.coupon?.id,
+    taxed: taxed.tax !== null,
+  });
+  return invoice;
+}
+
+/**
+ * Issue and persist the invoice for the metered usage of a closed period,
+ * with `coupon` (when it covers the period) taken off before tax. The
+ * invoice id is derived from the period, so issuing it again for the same
+ * scope and period updates the same invoice.
+ */
+export async function issueUsageInvoice(args: {
+  scopeId: string;
+  periodStart: Date;
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  coupon?: Coupon;
+}): Promise<InternalInvoice> {
+  const currency = args.currency.toUpperCase() as CurrencyCode;
+  const subtotal = args.lineItems.reduce(
+    (sum, line) => sum.add(Money.fromMajor(line.amount, currency)),
+    Money.zero(currency)
+  );
+  const usageLines = [...args.lineItems];
+  const discounted = args.coupon ? applyDiscount(subtotal, usageLines, args.coupon) : subtotal;
+  const { amount: total, lineItems } = await applyTax({
+    scopeId: args.scopeId,
+    subtotal: discounted,
+    lineItems: usageLines,
+  });
+  const invoice: InternalInvoice = {
+    providerInvoiceId: `usage-${args.periodStart.toISOString().slice(0, 10)}`,
+    amount: total.toMajor(),
+    currency,
+    status: total.isZero() ? 'paid' : 'open',
+    lineItems,
+  };
+  await InvoicesRepository.upsertByProviderId({
+    scopeId: args.scopeId,
+    provider: 'internal',
+    ...invoice,
+    issuedAt: new Date(),
+  });
+  log.info('internal usage invoice issued', {
+    scopeId: args.scopeId,
+    periodStart: args.periodStart.toISOString(),
+    amount: invoice.amount,
+    couponId: args.coupon?.id,
+  });
+  return invoice;
+}
@@ -0,0 +1,299 @@
+/**
+ * Metered billing
+ *
+ * Plans can carry usage-based price components (`metered`) on top of their
+ * base price. Usage comes from the hourly rollups of `@unisane/usage`
+ * through the kernel usage port, summed per scope and feature over the
+ * billing period:
+ * - With a provider that supports metered subscriptions (Stripe), the
+ *   period-to-date quantity of each component is reported to its provider
+ *   price; the provider bills it at the end of the period.
+ * - Without a provider, closed calendar months are billed on an internal
+ *   invoice with one line item per component.
+ * Both run from the `billing.metered` job, which should run after the
+ * hourly usage rollup. Every run records the quantities in `metered_usage`.
+ */
+
+import {
+  Money,
+  getBillingProvider,
+  getTenantsProvider,
+  getUsageProvider,
+  hasUsageProvider,
+  logger,
+} from '@unisane/kernel';
+import type { CurrencyCode, MeteredPrice } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { MeteredUsageRepository } from '../data/metered-usage.repository';
+import { SubscriptionsRepository } from '../data/subscriptions.repository';
+import { calendarMonth, meteredAmount, meteredLineItem, meteredPeriod } from '../domain/metering';
+import type { BillingPeriod } from '../domain/value-objects/billing-period';
+import type { InvoiceLineItem, PlanVersion, SubscriptionView, UpcomingInvoice } from '../domain/types';
+import { findUsageInvoiceCoupon } from './coupons';
+import { issueUsageInvoice } from './internal-invoices';
+import { getPlanVersion, isPlanId, resolveSubscribedPlan } from './plans';
+import { applyTax } from './tax';
+
+const log = logger.child({ module: 'billing', component: 'metering' });
+
+// Subscriptions that are still billed for usage
+const BILLED_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+type UsageTotals = Map<string, Map<string, number>>;
+
+/**
+ * Usage per scope and feature in [from, to). Empty without a usage port
+ * that can sum rollups.
+ */
+async function usageTotals(args: {
+  from: Date;
+  to: Date;
+  metrics?: string[];
+  scopeIds?: string[];
+}): Promise<UsageTotals> {
+  const totals: UsageTotals = new Map();
+  const usage = hasUsageProvider() ? getUsageProvider() : null;
+  if (!usage?.sumUsage) {
+    log.warn('usage port cannot sum usage, metered usage is not billed');
+    return totals;
+  }
+  for (const row of await usage.sumUsage(args)) {
+    const byFeature = totals.get(row.scopeId) ?? new Map<string, number>();
+    byFeature.set(row.metric, row.value);
+    totals.set(row.scopeId, byFeature);
+  }
+  return totals;
+}
+
+/**
+ * Catalog version of the subscription's plan, or null for plans outside
+ * the catalog.
+ */
+async function planForSubscription(subscription: SubscriptionView): Promise<PlanVersion | null> {
+  if (subscription.pinnedPlan) {
+    return getPlanVersion(subscription.pinnedPlan.planId, subscription.pinnedPlan.version);
+  }
+  return isPlanId(subscription.planId) ? resolveSubscribedPlan(subscription.planId, subscription) : null;
+}
+
+/**
+ * The tenant's plan version (as for entitlements) and latest subscription.
+ */
+async function tenantPlan(scopeId: string): Promise<{ plan: PlanVersion; subscription: SubscriptionView | null } | null> {
+  const tenant = await getTenantsProvider().findById(scopeId);
+  if (!tenant?.planId || !isPlanId(tenant.planId)) return null;
+  const subscription = await SubscriptionsRepository.findLatest(scopeId);
+  return { plan: await resolveSubscribedPlan(tenant.planId, subscription), subscription };
+}
+
+function periodOf(plan: PlanVersion, subscription: SubscriptionView | null, at: Date): BillingPeriod {
+  return meteredPeriod({
+    at,
+    currentPeriodEnd: subscription?.currentPeriodEnd ?? null,
+    ...(plan.defaultPrice ? { interval: plan.defaultPrice.interval } : {}),
+  });
+}
+
+function meteredLines(prices: MeteredPrice[], usage: Map<string, number> | undefined): InvoiceLineItem[] {
+  return prices.flatMap((price) => meteredLineItem(price, usage?.get(price.feature) ?? 0) ?? []);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Preview
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Amount of the tenant's next invoice: the plan's base price for the current
+ * period plus its metered usage so far, before discounts, with tax once tax
+ * collection is enabled. Usage counts up to the last hourly rollup.
+ */
+export async function previewUpcomingInvoice(args: { scopeId: string }): Promise<UpcomingInvoice> {
+  const resolved = await tenantPlan(args.scopeId);
+  if (!resolved) throw ERR.notFound('Plan');
+  const { plan, subscription } = resolved;
+  const now = new Date();
+  const period = periodOf(plan, subscription, now);
+
+  const lineItems: InvoiceLineItem[] = [];
+  const price = plan.defaultPrice;
+  const quantity = Math.max(1, subscription?.quantity ?? 1);
+  if (price && price.amount > 0) {
+    const unit = Money.fromMajor(price.amount, price.currency.toUpperCase() as CurrencyCode);
+    lineItems.push({
+      description: `${plan.label} (${price.interval === 'year' ? 'yearly' : 'monthly'})`,
+      quantity,
+      unitAmount: unit.toMajor(),
+      amount: unit.multiply(quantity).toMajor(),
+    });
+  }
+
+  const prices = plan.metered ?? [];
+  if (prices.length > 0) {
+    const totals = await usageTotals({
+      from: period.start,
+      to: period.end,
+      metrics: prices.map((p) => p.feature),
+      scopeIds: [args.scopeId],
+    });
+    lineItems.push(...meteredLines(prices, totals.get(args.scopeId)));
+  }
+
+  const currency = (price?.currency ?? prices[0]?.currency ?? 'USD').toUpperCase() as CurrencyCode;
+  const subtotal = lineItems.reduce((sum, line) => sum.add(Money.fromMajor(line.amount, currency)), Money.zero(currency));
+  const taxed = await applyTax({ scopeId: args.scopeId, subtotal, lineItems });
+  return {
+    periodStart: period.start,
+    periodEnd: period.end,
+    currency,
+    subtotal: subtotal.toMajor(),
+    tax: taxed.tax,
+    amount: taxed.amount.toMajor(),
+    lineItems: taxed.lineItems,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Provider usage reports
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Report the period-to-date usage of every metered component with a price
+ * at the registered provider. Reports are stamped with the period start and
+ * replace earlier ones, so running this often is safe.
+ */
+export async function reportMeteredUsage(
+  args: { now?: Date; deadlineMs?: number } = {}
+): Promise<{ reported: number; failed: number }> {
+  const provider = getBillingProvider();
+  if (provider.name === 'noop' || !provider.reportUsage) return { reported: 0, failed: 0 };
+  const providerName = provider.name;
+  const now = args.now ?? new Date();
+
+  const scopeIds = [...new Set((await SubscriptionsRepository.listByProviderId(providerName)).map((s) => s.scopeId))];
+  let reported = 0;
+  let failed = 0;
+  for (const scopeId of scopeIds) {
+    if (args.deadlineMs && Date.now() > args.deadlineMs) break;
+    const subscription = await SubscriptionsRepository.findLatest(scopeId);
+    if (!subscription || !BILLED_STATUSES.has(subscription.status)) continue;
+    const plan = await planForSubscription(subscription);
+    const prices = (plan?.metered ?? []).filter((p) => p.providerPriceIds?.[providerName]);
+    if (!plan || prices.length === 0) continue;
+    const providerSubId = await SubscriptionsRepository.findLatestProviderSubId(scopeId);
+    if (!providerSubId) continue;
+
+    const period = periodOf(plan, subscription, now);
+    const totals = await usageTotals({
+      from: period.start,
+      to: period.end,
+      metrics: prices.map((p) => p.feature),
+      scopeIds: [scopeId],
+    });
+    for (const price of prices) {
+      const quantity = totals.get(scopeId)?.get(price.feature) ?? 0;
+      try {
+        await provider.reportUsage({
+          providerSubId,
+          priceId: price.providerPriceIds![providerName]!,
+          quantity,
+          timestamp: period.start,
+        });
+        await MeteredUsageRepository.upsert({
+          scopeId,
+          feature: price.feature,
+          periodStart: period.start,
+          periodEnd: period.end,
+          quantity,
+          amount: meteredAmount(price, quantity).toMajor(),
+          currency: price.currency.toUpperCase(),
+          provider: providerName,
+          status: 'reported',
+          providerInvoiceId: null,
+        });
+        reported++;
+      } catch (error) {
+        failed++;
+        log.error('metered usage report failed', {
+          scopeId,
+          feature: price.feature,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+  return { reported, failed };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Period close (no provider)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Bill the metered usage of the previous calendar month on internal
+ * invoices when no payment provider is registered, with the tenant's
+ * coupon while it lasts. Periods already invoiced for a scope are skipped.
+ */
+export async function closeMeteredPeriods(
+  args: { now?: Date; deadlineMs?: number } = {}
+): Promise<{ invoiced: number }> {
+  if (getBillingProvider().name !== 'noop') return { invoiced: 0 };
+  const now = args.now ?? new Date();
+  const period = calendarMonth(new Date(calendarMonth(now).start.getTime() - 1));
+
+  const totals = await usageTotals({ from: period.start, to: period.end });
+  let invoiced = 0;
+  for (const [scopeId, usage] of totals) {
+    if (args.deadlineMs && Date.now() > args.deadlineMs) break;
+    const resolved = await tenantPlan(scopeId);
+    if (!resolved) continue;
+    const prices = resolved.plan.metered ?? [];
+    if (prices.length === 0) continue;
+    const existing = await MeteredUsageRepository.listForPeriod(scopeId, period.start);
+    if (existing.some((r) => r.status === 'invoiced')) continue;
+
+    const lineItems = meteredLines(prices, usage);
+    if (lineItems.length === 0) continue;
+    const currency = prices[0]!.currency;
+    const coupon = await findUsageInvoiceCoupon({
+      scopeId,
+      planId: resolved.plan.planId,
+      periodStart: period.start,
+      currency,
+    });
+    const invoice = await issueUsageInvoice({
+      scopeId,
+      periodStart: period.start,
+      currency,
+      lineItems,
+      ...(coupon ? { coupon } : {}),
+    });
+    for (const price of prices) {
+      const quantity = usage.get(price.feature) ?? 0;
+      await MeteredUsageRepository.upsert({
+        scopeId,
+        feature: price.feature,
+        periodStart: period.start,
+        periodEnd: period.end,
+        quantity,
+        amount: meteredAmount(price, quantity).toMajor(),
+        currency: price.currency.toUpperCase(),
+        provider: 'internal',
+        status: 'invoiced',
+        providerInvoiceId: invoice.providerInvoiceId,
+      });
+    }
+    invoiced++;
+  }
+  return { invoiced };
+}
+
+/**
+ * Entry point of the `billing.metered` job.
+ */
+export async function runMeteredBilling(
+  args: { now?: Date; deadlineMs?: number } = {}
+): Promise<{ reported: number; failed: number; invoiced: number }> {
+  const { reported, failed } = await reportMeteredUsage(args);
+  const { invoiced } = await closeMeteredPeriods(args);
+  return { reported, failed, invoiced };
+}
@@ -0,0 +1,255 @@
+/**
+ * Plan catalog
+ *
+ * Plans are persisted as immutable versions. Publishing a change creates the
+ * next version; a subscription stays pinned to the version it bought, so
+ * price and entitlement changes only reach new subscribers and plan changes.
+ * `PLAN_DEFS` from the kernel is the seed for version 1 of every plan and the
+ * fallback while the catalog has not been seeded.
+ */
+
+import {
+  PLANS,
+  PLAN_DEFS,
+  KV,
+  cacheGet,
+  cacheSet,
+  cacheDelete,
+  reverseMapPlanIdFromProvider,
+  logger,
+} from '@unisane/kernel';
+import type { BillingProvider, PlanId } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { PlanCatalogRepository } from '../data/plans.repository';
+import { BILLING_DEFAULTS } from '../domain/constants';
+import type { PublishPlanVersionInput } from '../domain/schemas';
+import type { PlanPin, PlanVersion, SubscriptionView } from '../domain/types';
+
+const log = logger.child({ module: 'billing', component: 'plans' });
+
+/** Cached pointer to the current version of a plan */
+type CurrentPointer = { version: number; archivedAt: string | null };
+
+// Versions never change once published, so they are memoized per process
+const versions = new Map<string, PlanVersion>();
+
+const versionKey = (planId: PlanId, version: number) => `${planId}:${version}`;
+
+function remember(plan: PlanVersion): PlanVersion {
+  versions.set(versionKey(plan.planId, plan.version), plan);
+  return plan;
+}
+
+function seedVersion(planId: PlanId): PlanVersion {
+  return { planId, version: 1, ...PLAN_DEFS[planId], createdAt: new Date(0), archivedAt: null };
+}
+
+export function isPlanId(planId: string): planId is PlanId {
+  return (PLANS as readonly string[]).includes(planId);
+}
+
+function requirePlanId(planId: string): PlanId {
+  if (!isPlanId(planId)) throw ERR.notFound('Plan');
+  return planId;
+}
+
+/**
+ * Persist the seed as version 1 unless the plan already has versions.
+ */
+async function ensureSeeded(planId: PlanId): Promise<PlanVersion> {
+  const latest = await PlanCatalogRepository.findLatest(planId);
+  if (latest) return latest;
+  const res = await PlanCatalogRepository.insertVersion({ planId, version: 1, ...PLAN_DEFS[planId] });
+  if ('ok' in res) return res.plan;
+  // Seeded concurrently
+  const seeded = await PlanCatalogRepository.findLatest(planId);
+  if (!seeded) throw ERR.versionMismatch();
+  return seeded;
+}
+
+async function invalidateCurrent(planId: PlanId): Promise<void> {
+  await cacheDelete(`${KV.PLAN_CURRENT}${planId}`);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Resolution
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A specific plan version, or null when it was never published. Version 1
+ * falls back to the seed. `archivedAt` may be stale; use
+ * `getCurrentPlanVersion` for sale status.
+ */
+export async function getPlanVersion(planId: PlanId, version: number): Promise<PlanVersion | null> {
+  const known = versions.get(versionKey(planId, version));
+  if (known) return known;
+  const plan = await PlanCatalogRepository.findVersion(planId, version);
+  if (plan) return remember(plan);
+  return version === 1 ? seedVersion(planId) : null;
+}
+
+/**
+ * The version new subscribers buy.
+ */
+export async function getCurrentPlanVersion(planId: PlanId): Promise<PlanVersion> {
+  const cacheKey = `${KV.PLAN_CURRENT}${planId}`;
+  const pointer = await cacheGet<CurrentPointer>(cacheKey);
+  if (pointer) {
+    const plan = await getPlanVersion(planId, pointer.version);
+    if (plan) return { ...plan, archivedAt: pointer.archivedAt ? new Date(pointer.archivedAt) : null };
+  }
+
+  const latest = (await PlanCatalogRepository.findLatest(planId)) ?? seedVersion(planId);
+  remember(latest);
+  const next: CurrentPointer = { version: latest.version, archivedAt: latest.archivedAt?.toISOString() ?? null };
+  await cacheSet(cacheKey, next, BILLING_DEFAULTS.CACHE_TTL_MS);
+  return latest;
+}
+
+/**
+ * The plan version that governs a tenant on `planId`:
+ * - the subscription's pinned version when it pins that plan
+ * - version 1 for paid subscriptions created before the catalog (grandfathered)
+ * - otherwise the current version (free tier, no subscription)
+ */
+export async function resolveSubscribedPlan(
+  planId: PlanId,
+  subscription: Pick<SubscriptionView, 'pinnedPlan'> | null
+): Promise<PlanVersion> {
+  const pin = subscription?.pinnedPlan;
+  if (pin && pin.planId === planId) {
+    const pinned = await getPlanVersion(pin.planId, pin.version);
+    if (pinned) return pinned;
+    log.warn('pinned plan version not found, using current', { planId, version: pin.version });
+  } else if (subscription && !pin && planId !== 'free') {
+    const legacy = await getPlanVersion(planId, 1);
+    if (legacy) return legacy;
+  }
+  return getCurrentPlanVersion(planId);
+}
+
+/**
+ * Pin for a new purchase of `planId`; undefined for ids outside the catalog.
+ */
+export async function currentPlanPin(planId: string): Promise<PlanPin | undefined> {
+  if (!isPlanId(planId)) return undefined;
+  const plan = await getCurrentPlanVersion(planId);
+  return { planId, version: plan.version };
+}
+
+/**
+ * Pin for a provider price/plan id received from a webhook or reconcile run.
+ */
+export async function pinForProviderPlan(
+  provider: BillingProvider,
+  providerPlanId: string
+): Promise<PlanPin | undefined> {
+  const friendly = reverseMapPlanIdFromProvider(provider, providerPlanId);
+  return friendly ? currentPlanPin(friendly) : undefined;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Admin
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Current version of every plan, in catalog order.
+ */
+export async function listPlanCatalog(): Promise<{ items: PlanVersion[] }> {
+  const latest = new Map((await PlanCatalogRepository.listLatest()).map((p) => [p.planId, p]));
+  return { items: PLANS.map((id) => latest.get(id) ?? seedVersion(id)) };
+}
+
+export async function getPlanHistory(args: { planId: string }): Promise<{ items: PlanVersion[] }> {
+  const planId = requirePlanId(args.planId);
+  const items = await PlanCatalogRepository.listVersions(planId);
+  return { items: items.length > 0 ? items : [seedVersion(planId)] };
+}
+
+export type PublishPlanVersionArgs = {
+  planId: string;
+  input: PublishPlanVersionInput;
+  actorId?: string;
+};
+
+/**
+ * Publish the next version of a plan. Existing subscriptions keep their
+ * pinned version. `expectedVersion` guards against overwriting a concurrent
+ * edit.
+ */
+export async function publishPlanVersion(args: PublishPlanVersionArgs): Promise<PlanVersion> {
+  const planId = requirePlanId(args.planId);
+  const { expectedVersion, ...definition } = args.input;
+
+  const current = await ensureSeeded(planId);
+  if (current.archivedAt) throw ERR.validation('Restore the plan before publishing a new version');
+  if (expectedVersion !== undefined && expectedVersion !== current.version) {
+    throw ERR.versionMismatch();
+  }
+  // Metered usage is invoiced together with the base price
+  const currency = (definition.defaultPrice?.currency ?? definition.metered?.[0]?.currency)?.toUpperCase();
+  if (definition.metered?.some((p) => p.currency.toUpperCase() !== currency)) {
+    throw ERR.validation('Metered prices must use the plan currency');
+  }
+
+  const res = await PlanCatalogRepository.insertVersion({
+    planId,
+    version: current.version + 1,
+    ...definition,
+    ...(args.actorId ? { createdBy: args.actorId } : {}),
+  });
+  if ('conflict' in res) throw ERR.versionMismatch();
+
+  remember(res.plan);
+  await invalidateCurrent(planId);
+  log.info('plan version published', { planId, version: res.plan.version, actorId: args.actorId });
+  return res.plan;
+}
+
+async function setArchived(planIdArg: string, archived: boolean) {
+  const planId = requirePlanId(planIdArg);
+  if (archived && planId === 'free') {
+    throw ERR.validation('The free plan cannot be archived');
+  }
+  await ensureSeeded(planId);
+  const versionsChanged = await PlanCatalogRepository.setArchived(planId, archived);
+  await invalidateCurrent(planId);
+  log.info(archived ? 'plan archived' : 'plan restored', { planId, versionsChanged });
+  return getCurrentPlanVersion(planId);
+}
+
+/**
+ * Withdraw a plan from sale. Existing subscribers keep it; it is hidden from
+ * the billing config and rejected for new subscriptions and plan changes.
+ */
+export async function archivePlan(args: { planId: string }): Promise<PlanVersion> {
+  return setArchived(args.planId, true);
+}
+
+export async function restorePlan(args: { planId: string }): Promise<PlanVersion> {
+  return setArchived(args.planId, false);
+}
+
+/**
+ * Reject plans that are withdrawn from sale.
+ */
+export async function assertPlanOnSale(planId: PlanId): Promise<PlanVersion> {
+  const plan = await getCurrentPlanVersion(planId);
+  if (plan.archivedAt) throw ERR.validation(`Plan ${planId} is no longer available`);
+  return plan;
+}
+
+/**
+ * Persist `PLAN_DEFS` as version 1 of every plan that has no versions yet.
+ * Idempotent; run from a migration.
+ */
+export async function seedPlanCatalog(): Promise<{ seeded: PlanId[] }> {
+  const seeded: PlanId[] = [];
+  for (const planId of PLANS) {
+    if (await PlanCatalogRepository.findLatest(planId)) continue;
+    const res = await PlanCatalogRepository.insertVersion({ planId, version: 1, ...PLAN_DEFS[planId] });
+    if ('ok' in res) seeded.push(planId);
+  }
+  for (const planId of seeded) await invalidateCurrent(planId);
+  return { seeded };
+}
@@ -0,0 +1,59 @@
+import { hasNotifyProvider, logger, sendEmailViaPort } from "@unisane/kernel";
+import type { EmailAttachment } from "@unisane/kernel";
+import { PaymentsRepository } from "../data/payments.repository";
+import { BILLING_EMAIL_TEMPLATES } from "../domain/constants";
+import { formatMoney } from "../domain/invoice-document";
+import { getInvoiceProfile, renderPaymentReceiptPdf } from "./documents";
+
+const log = logger.child({ module: "billing", component: "receipts" });
+
+export type SendPaymentReceiptResult =
+  | { sent: true; attached: boolean }
+  | { sent: false; reason: "payment_not_found" | "no_recipient" | "no_provider" | "provider_error" };
+
+/**
+ * Send the payment-succeeded email to the tenant's billing contact
+ * (`billing.invoiceProfile.email`) with the receipt PDF attached.
+ *
+ * A receipt that fails to render does not block the email; it is sent
+ * without the attachment.
+ */
+export async function sendPaymentReceipt(args: {
+  scopeId: string;
+  providerPaymentId: string;
+}): Promise<SendPaymentReceiptResult> {
+  const payment = await PaymentsRepository.findByProviderPaymentId(args);
+  if (!payment) return { sent: false, reason: "payment_not_found" };
+
+  const profile = await getInvoiceProfile(args.scopeId);
+  if (!profile.email) return { sent: false, reason: "no_recipient" };
+  if (!hasNotifyProvider()) return { sent: false, reason: "no_provider" };
+
+  let attachment: EmailAttachment | null = null;
+  let receiptNumber: string | null = null;
+  try {
+    const pdf = await renderPaymentReceiptPdf({ scopeId: args.scopeId, paymentId: payment.id });
+    attachment = { filename: pdf.filename, content: Buffer.from(pdf.bytes), contentType: "application/pdf" };
+    receiptNumber = pdf.number;
+  } catch (error) {
+    log.warn("receipt pdf render failed; sending email without attachment", {
+      scopeId: args.scopeId,
+      paymentId: payment.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const result = await sendEmailViaPort({
+    to: profile.email,
+    template: BILLING_EMAIL_TEMPLATES.PAYMENT_SUCCEEDED,
+    data: {
+      tenantId: args.scopeId,
+      amount: formatMoney(payment.amount, payment.currency),
+      receiptNumber,
+      paidAt: payment.capturedAt ? payment.capturedAt.toISOString() : null,
+    },
+    ...(attachment ? { options: { attachments: [attachment] } } : {}),
+  });
+  if (!result.success) return { sent: false, reason: "provider_error" };
+  return { sent: true, attached: attachment !== null };
+}
@@ -9,6 +9,7 @@ import {
   mapStripeSubStatus,
   mapRazorpaySubStatus,
 } from "../domain/mappers";
+import { pinForProviderPlan } from "./plans";
 
 /**
  * Configuration error for missing environment variables.
@@ -106,6 +107,7 @@ export async function reconcileStripe(
         const currentPeriodEnd =
           getNumber(s, ["current_period_end"]) ??
           getNumber(s, ["items", "data", "0", "current_period_end"]);
+        const pinnedPlan = priceId ? await pinForProviderPlan("stripe", priceId) : undefined;
         await SubscriptionsRepository.upsertByProviderId({
           scopeId,
           provider: "stripe",
@@ -118,6 +120,7 @@ export async function reconcileStripe(
           currentPeriodEnd: currentPeriodEnd
             ? new Date(currentPeriodEnd * 1000)
             : null,
+          ...(pinnedPlan ? { pinnedPlan } : {}),
         });
         subs++;
       }
@@ -233,6 +236,7 @@ export async function reconcileRazorpay(
       const status = getString(s, ["status"]);
       const quantity = getNumber(s, ["quantity"]);
       const planId = getString(s, ["plan_id"]) || getString(s, ["plan", "id"]);
+      const pinnedPlan = planId ? await pinForProviderPlan("razorpay", planId) : undefined;
       await SubscriptionsRepository.upsertByProviderId({
         scopeId: row.scopeId,
         provider: "razorpay",
@@ -241,6 +245,7 @@ export async function reconcileRazorpay(
         quantity: (quantity ?? 1) as number,
         status: mapRazorpaySubStatus(status),
         providerStatus: status ?? null,
+        ...(pinnedPlan ? { pinnedPlan } : {}),
       });
       subs++;
     }
@@ -3,11 +3,16 @@ import { mapPlanIdForProvider } from "@unisane/kernel";
 import { getEnv } from "@unisane/kernel";
 import { getBillingMode } from "./mode";
 import { ERR } from "@unisane/gateway";
+import { assertPlanOnSale, isPlanId } from "./plans";
+import { confirmCouponRedemption, reservePromotionCode, type ReservedCoupon } from "./coupons";
+import { issueSubscriptionInvoice } from "./internal-invoices";
+import type { PlanVersion } from "../domain/types";
 
 export async function subscribe(args: {
   scopeId: string;
   planId: string;
   quantity?: number;
+  promotionCode?: string;
   successUrl: string;
   cancelUrl: string;
 }) {
@@ -15,8 +20,54 @@ export async function subscribe(args: {
   if (mode === "topup_only" || mode === "disabled") {
     throw ERR.validation("Subscriptions are disabled for this deployment.");
   }
+  let plan: PlanVersion | null = null;
+  if (isPlanId(args.planId)) {
+    plan = await assertPlanOnSale(args.planId);
+  }
   const provider = getBillingProvider();
-  const { BILLING_PROVIDER } = getEnv();
-  const resolvedPlanId = mapPlanIdForProvider(args.planId, BILLING_PROVIDER ?? 'stripe');
-  return provider.createCheckout({ ...args, planId: resolvedPlanId });
+  const { promotionCode, ...checkout } = args;
+
+  let reserved: ReservedCoupon | null = null;
+  if (promotionCode) {
+    reserved = await reservePromotionCode({
+      scopeId: args.scopeId,
+      planId: args.planId,
+      code: promotionCode,
+      provider: provider.name,
+    });
+  }
+
+  try {
+    let session: { id: string; url: string };
+    if (provider.name === "noop" && plan?.defaultPrice) {
+      // No payment provider: bill the first period with an internal invoice
+      const invoice = await issueSubscriptionInvoice({
+        scopeId: args.scopeId,
+        plan,
+        quantity: args.quantity ?? 1,
+        ...(reserved ? { coupon: reserved.coupon } : {}),
+      });
+      if (reserved) {
+        await confirmCouponRedemption({ scopeId: args.scopeId, couponId: reserved.coupon.id });
+      }
+      session = { id: invoice.providerInvoiceId, url: args.successUrl };
+    } else {
+      const { BILLING_PROVIDER } = getEnv();
+      const resolvedPlanId = mapPlanIdForProvider(args.planId, BILLING_PROVIDER ?? 'stripe');
+      const meteredPriceIds = (plan?.metered ?? []).flatMap(
+        (p) => p.providerPriceIds?.[BILLING_PROVIDER ?? 'stripe'] ?? []
+      );
+      session = await provider.createCheckout({
+        ...checkout,
+        planId: resolvedPlanId,
+        // The provider's checkout-completed webhook confirms the reservation
+        ...(reserved ? { discount: reserved.discount } : {}),
+        ...(meteredPriceIds.length ? { meteredPriceIds } : {}),
+      });
+    }
+    return session;
+  } catch (e) {
+    await reserved?.release();
+    throw e;
+  }
 }
@@ -0,0 +1,119 @@
+/**
+ * Tax
+ *
+ * Applies VAT/GST to the invoices billing issues itself and to invoice
+ * previews. The seller's origin comes from the `billing.tax` platform
+ * setting; the customer's country, region and tax ID from the tenant's
+ * invoice profile, and exemption from the admin-managed
+ * `billing.taxExemption` tenant setting. The registered TaxPort calculates
+ * the tax, falling back to the built-in rules.
+ */
+
+import {
+  BILLING_SETTING_KEYS,
+  getTaxProvider,
+  getTypedSetting,
+  hasTaxProvider,
+  logger,
+  Money,
+  SETTINGS_NS,
+} from '@unisane/kernel';
+import type { TaxCalculation, TaxCustomer, TaxIdCheck, TaxPort } from '@unisane/kernel';
+import { rulesTaxProvider } from '../adapters/tax-rules.adapter';
+import { ZTaxExemption, ZTaxSettings, type TaxExemption, type TaxSettings } from '../domain/schemas';
+import { taxLineItems } from '../domain/tax';
+import type { InvoiceLineItem } from '../domain/types';
+import { getInvoiceProfile } from './documents';
+
+const log = logger.child({ module: 'billing', component: 'tax' });
+
+function taxProvider(): TaxPort {
+  return hasTaxProvider() ? getTaxProvider() : rulesTaxProvider;
+}
+
+/**
+ * Platform tax settings, disabled when unset or invalid.
+ */
+export async function getTaxSettings(): Promise<TaxSettings> {
+  const row = await getTypedSetting<unknown>({
+    scopeId: null,
+    ns: SETTINGS_NS.BILLING,
+    key: BILLING_SETTING_KEYS.TAX,
+  }).catch(() => null);
+  const parsed = ZTaxSettings.safeParse(row?.value ?? {});
+  if (parsed.success) return parsed.data;
+  log.warn('invalid tax setting, tax collection disabled', { issues: parsed.error.issues.length });
+  return ZTaxSettings.parse({});
+}
+
+/**
+ * The tenant's tax exemption, not exempt when unset or invalid.
+ */
+export async function getTaxExemption(scopeId: string): Promise<TaxExemption> {
+  const row = await getTypedSetting<unknown>({
+    scopeId,
+    ns: SETTINGS_NS.BILLING,
+    key: BILLING_SETTING_KEYS.TAX_EXEMPTION,
+  }).catch(() => null);
+  const parsed = ZTaxExemption.safeParse(row?.value ?? {});
+  return parsed.success ? parsed.data : { exempt: false };
+}
+
+async function taxCustomer(scopeId: string): Promise<TaxCustomer> {
+  const [profile, exemption] = await Promise.all([getInvoiceProfile(scopeId), getTaxExemption(scopeId)]);
+  return {
+    ...(profile.country ? { country: profile.country } : {}),
+    ...(profile.region ? { region: profile.region } : {}),
+    ...(profile.taxId ? { taxId: profile.taxId } : {}),
+    exempt: exemption.exempt,
+  };
+}
+
+/**
+ * Tax on `amount` (major units, after discounts) billed to a tenant, or
+ * null while tax collection is disabled.
+ */
+export async function calculateTax(args: {
+  scopeId: string;
+  amount: number;
+  currency: string;
+}): Promise<TaxCalculation | null> {
+  const settings = await getTaxSettings();
+  if (!settings.enabled || !settings.originCountry) return null;
+  return taxProvider().calculate({
+    amount: args.amount,
+    currency: args.currency,
+    seller: {
+      country: settings.originCountry,
+      ...(settings.originRegion ? { region: settings.originRegion } : {}),
+      registrations: settings.registrations,
+    },
+    customer: await taxCustomer(args.scopeId),
+  });
+}
+
+/**
+ * Add tax to invoice lines totalling `subtotal`: the tax lines are appended
+ * and the amount includes the tax.
+ */
+export async function applyTax(args: {
+  scopeId: string;
+  subtotal: Money;
+  lineItems: InvoiceLineItem[];
+}): Promise<{ tax: TaxCalculation | null; amount: Money; lineItems: InvoiceLineItem[] }> {
+  const { subtotal } = args;
+  const tax = await calculateTax({ scopeId: args.scopeId, amount: subtotal.toMajor(), currency: subtotal.currency });
+  if (!tax) return { tax, amount: subtotal, lineItems: args.lineItems };
+  return {
+    tax,
+    amount: subtotal.add(Money.fromMajor(tax.taxAmount, subtotal.currency)),
+    lineItems: [...args.lineItems, ...taxLineItems(tax)],
+  };
+}
+
+/**
+ * Check the format of a tax ID (EU VAT, GSTIN, ABN).
+ */
+export async function validateTaxId(args: { taxId: string; country?: string }): Promise<TaxIdCheck> {
+  return taxProvider().validateTaxId(args);
+}
@@ -0,0 +1,210 @@
+/**
+ * Flags Evaluator Tests
+ *
+ * Tests for rule evaluation and variant allocation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyThen,
+  collectSegmentRefs,
+  evaluateFlag,
+  evaluateForcedState,
+  type EvaluableFlag,
+} from '../service/evaluator';
+import type { RuleCondition } from '../domain/schemas';
+
+const booleanFlag: EvaluableFlag = {
+  key: 'beta',
+  enabledDefault: false,
+  rules: [{ if: [{ planIn: ['pro'] }], then: { value: true } }],
+};
+
+const variantFlag: EvaluableFlag = {
+  key: 'pricing.page',
+  enabledDefault: true,
+  rules: [{ if: [{ countryIn: ['de'] }], then: { variant: 'b' } }],
+  valueType: 'string',
+  variants: [
+    { key: 'a', value: 'classic' },
+    { key: 'b', value: 'compact' },
+    { key: 'c', value: 'cards' },
+  ],
+  defaultVariant: 'a',
+  rollout: [
+    { variant: 'a', weight: 34 },
+    { variant: 'b', weight: 33 },
+    { variant: 'c', weight: 33 },
+  ],
+};
+
+describe('evaluateFlag', () => {
+  describe('boolean flags', () => {
+    it('should serve the on variant when a rule matches', () => {
+      const result = evaluateFlag(booleanFlag, { plan: 'pro' });
+
+      expect(result).toEqual({
+        enabled: true,
+        variant: 'on',
+        value: true,
+        reason: 'rule_match',
+        ruleIndex: 0,
+      });
+    });
+
+    it('should serve the off variant by default', () => {
+      const result = evaluateFlag(booleanFlag, { plan: 'free' });
+
+      expect(result).toEqual({ enabled: false, variant: 'off', value: false, reason: 'default' });
+    });
+
+    it('should keep applyThen returning a boolean', () => {
+      expect(applyThen(booleanFlag, { plan: 'pro' })).toBe(true);
+      expect(applyThen(booleanFlag, {})).toBe(false);
+    });
+  });
+
+  describe('variant flags', () => {
+    it('should serve the variant of a matching rule with its payload', () => {
+      const result = evaluateFlag(variantFlag, { country: 'DE', userId: 'u1' });
+
+      expect(result.variant).toBe('b');
+      expect(result.value).toBe('compact');
+      expect(result.reason).toBe('rule_match');
+    });
+
+    it('should bucket subjects stickily across evaluations', () => {
+      const first = evaluateFlag(variantFlag, { userId: 'user_42' });
+      const second = evaluateFlag(variantFlag, { userId: 'user_42' });
+
+      expect(first.variant).toBe(second.variant);
+      expect(first.reason).toBe('default');
+    });
+
+    it('should spread subjects over every variant in the rollout', () => {
+      const seen = new Set<string>();
+      for (let i = 0; i < 200; i++) {
+        seen.add(evaluateFlag(variantFlag, { userId: `user_${i}` }).variant);
+      }
+
+      expect(seen).toEqual(new Set(['a', 'b', 'c']));
+    });
+
+    it('should serve the default variant when the flag is off', () => {
+      const result = evaluateFlag({ ...variantFlag, enabledDefault: false }, { userId: 'u1' });
+
+      expect(result).toEqual({ enabled: false, variant: 'a', value: 'classic', reason: 'default' });
+    });
+  });
+});
+
+describe('evaluateForcedState', () => {
+  it('should treat a missing flag as a boolean flag', () => {
+    expect(evaluateForcedState(null, true, {}, 'tenant_override')).toEqual({
+      enabled: true,
+      variant: 'on',
+      value: true,
+      reason: 'tenant_override',
+    });
+  });
+
+  it('should serve the default variant for a forced-off variant flag', () => {
+    const result = evaluateForcedState(variantFlag, false, {}, 'user_override');
+
+    expect(result.variant).toBe('a');
+    expect(result.enabled).toBe(false);
+  });
+});
+
+describe('targeting conditions', () => {
+  const flagWhen = (...conds: RuleCondition[]): EvaluableFlag => ({
+    key: 'targeted',
+    enabledDefault: false,
+    rules: [{ if: conds, then: { value: true } }],
+  });
+
+  it('should match eq and neq on custom attributes', () => {
+    const eq = flagWhen({ attribute: 'role', op: 'eq', value: 'admin' });
+    const neq = flagWhen({ attribute: 'role', op: 'neq', value: 'admin' });
+
+    expect(applyThen(eq, { attributes: { role: 'admin' } })).toBe(true);
+    expect(applyThen(neq, { attributes: { role: 'admin' } })).toBe(false);
+    expect(applyThen(neq, { attributes: { role: 'member' } })).toBe(true);
+  });
+
+  it('should never match a missing attribute', () => {
+    const neq = flagWhen({ attribute: 'role', op: 'neq', value: 'admin' });
+
+    expect(applyThen(neq, {})).toBe(false);
+  });
+
+  it('should match in against any element of an array attribute', () => {
+    const flag = flagWhen({ attribute: 'roles', op: 'in', values: ['owner', 'admin'] });
+
+    expect(applyThen(flag, { attributes: { roles: ['member', 'admin'] } })).toBe(true);
+    expect(applyThen(flag, { attributes: { roles: ['member'] } })).toBe(false);
+  });
+
+  it('should fall back to built-in context fields', () => {
+    const flag = flagWhen({ attribute: 'country', op: 'eq', value: 'de' });
+
+    expect(applyThen(flag, { country: 'de' })).toBe(true);
+  });
+
+  it('should compare numbers and timestamps', () => {
+    const seats = flagWhen({ attribute: 'seats', op: 'gte', value: 10 });
+    const signup = flagWhen({ attribute: 'createdAt', op: 'lt', value: '2024-01-01T00:00:00Z' });
+
+    expect(applyThen(seats, { attributes: { seats: 10 } })).toBe(true);
+    expect(applyThen(seats, { attributes: { seats: 9 } })).toBe(false);
+    expect(applyThen(signup, { attributes: { createdAt: new Date('2023-06-01') } })).toBe(true);
+    expect(applyThen(signup, { attributes: { createdAt: '2024-06-01T00:00:00Z' } })).toBe(false);
+  });
+
+  it('should match semver ranges', () => {
+    const flag = flagWhen({ attribute: 'appVersion', op: 'semver', range: '^2.3.0' });
+
+    expect(applyThen(flag, { attributes: { appVersion: '2.4.1' } })).toBe(true);
+    expect(applyThen(flag, { attributes: { appVersion: '3.0.0' } })).toBe(false);
+    expect(applyThen(flag, { attributes: { appVersion: 'not-a-version' } })).toBe(false);
+  });
+
+  it('should match regex patterns', () => {
+    const flag = flagWhen({ attribute: 'email', op: 'regex', pattern: '@acme\\.io$', ignoreCase: true });
+
+    expect(applyThen(flag, { email: 'Jo@ACME.io' })).toBe(true);
+    expect(applyThen(flag, { email: 'jo@example.com' })).toBe(false);
+  });
+
+  it('should support not, any and all groups', () => {
+    const flag = flagWhen(
+      {
+        any: [
+          { all: [{ planIn: ['pro'] }, { countryIn: ['de'] }] },
+          { attribute: 'role', op: 'eq', value: 'owner' },
+        ],
+      },
+      { not: { attribute: 'suspended', op: 'eq', value: true } }
+    );
+
+    expect(applyThen(flag, { plan: 'pro', country: 'de' })).toBe(true);
+    expect(applyThen(flag, { plan: 'pro', country: 'us' })).toBe(false);
+    expect(applyThen(flag, { attributes: { role: 'owner' } })).toBe(true);
+    expect(applyThen(flag, { attributes: { role: 'owner', suspended: true } })).toBe(false);
+  });
+
+  it('should resolve segment references', () => {
+    const flag = flagWhen({ segment: 'beta-testers' });
+    const segments = new Map([['beta-testers', [{ tenantTagIn: ['beta'] }] as RuleCondition[]]]);
+
+    expect(evaluateFlag(flag, { tenantTags: ['beta'] }, segments).enabled).toBe(true);
+    expect(evaluateFlag(flag, { tenantTags: ['ga'] }, segments).enabled).toBe(false);
+    expect(evaluateFlag(flag, { tenantTags: ['beta'] }).enabled).toBe(false);
+  });
+
+  it('should collect segment references from nested groups', () => {
+    const flag = flagWhen({ any: [{ segment: 'a' }, { not: { segment: 'b' } }] }, { segment: 'a' });
+
+    expect(collectSegmentRefs(flag.rules).sort()).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Flags Experiment Analysis Tests
+ *
+ * Tests for joining first exposures with usage and event conversions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { FlagRow } from '../domain/types';
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    cacheGet: vi.fn(async () => null),
+    cacheSet: vi.fn(),
+    getEnv: vi.fn(() => ({ APP_ENV: 'test' })),
+    hasUsageProvider: vi.fn(() => true),
+    getUsageProvider: vi.fn(),
+    isEventStoreEnabled: vi.fn(() => true),
+    queryEventStore: vi.fn(async () => []),
+  };
+});
+
+vi.mock('../data/flags.repository', () => ({
+  FlagsRepo: { findOne: vi.fn() },
+}));
+
+vi.mock('../data/exposures.repository', () => ({
+  ExposuresRepo: { listFirstExposures: vi.fn() },
+}));
+
+import { getUsageProvider, queryEventStore } from '@unisane/kernel';
+import { FlagsRepo } from '../data/flags.repository';
+import { ExposuresRepo } from '../data/exposures.repository';
+import { analyzeExperiment } from '../service/admin/experiments';
+
+const flag: FlagRow = {
+  env: 'test',
+  key: 'checkout.layout',
+  enabledDefault: true,
+  rules: [],
+  valueType: 'string',
+  variants: [
+    { key: 'control', value: 'classic' },
+    { key: 'compact', value: 'compact' },
+  ],
+  defaultVariant: 'control',
+  rollout: [
+    { variant: 'control', weight: 50 },
+    { variant: 'compact', weight: 50 },
+  ],
+  snapshotVersion: 1,
+};
+
+const at = new Date('2026-01-10T10:30:00Z');
+
+function subjects(variant: string, count: number, offset = 0) {
+  return Array.from({ length: count }, (_, i) => ({
+    subjectId: `${variant}-${i + offset}`,
+    variant,
+    at,
+    variants: [variant],
+  }));
+}
+
+const window = { from: '2026-01-01T00:00:00Z', to: '2026-02-01T00:00:00Z' };
+
+describe('analyzeExperiment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(FlagsRepo.findOne).mockResolvedValue(flag);
+  });
+
+  it('should count usage within the exposure hour as a conversion', async () => {
+    vi.mocked(ExposuresRepo.listFirstExposures).mockResolvedValue([
+      ...subjects('control', 2),
+      ...subjects('compact', 2),
+    ]);
+    const getLastUsageByScope = vi.fn(
+      async () =>
+        new Map([
+          ['control-0', new Date('2026-01-09T00:00:00Z')],
+          ['compact-0', new Date('2026-01-10T10:00:00Z')],
+          ['compact-1', new Date('2026-01-12T00:00:00Z')],
+        ])
+    );
+    vi.mocked(getUsageProvider).mockReturnValue({ getLastUsageByScope } as never);
+
+    const res = await analyzeExperiment({
+      key: flag.key,
+      metricSource: 'usage',
+      metric: 'api_calls',
+      ...window,
+    });
+
+    expect(res.control).toBe('control');
+    expect(res.variants.find((v) => v.variant === 'control')).toMatchObject({ exposed: 2, converted: 0, lift: null });
+    expect(res.variants.find((v) => v.variant === 'compact')).toMatchObject({ exposed: 2, converted: 2, conversionRate: 1 });
+    expect(res.warnings.some((w) => w.startsWith('Low sample size'))).toBe(true);
+  });
+
+  it('should warn on sample ratio mismatch', async () => {
+    vi.mocked(ExposuresRepo.listFirstExposures).mockResolvedValue([
+      ...subjects('control', 700),
+      ...subjects('compact', 300),
+    ]);
+    vi.mocked(getUsageProvider).mockReturnValue({ getLastUsageByScope: vi.fn(async () => new Map()) } as never);
+
+    const res = await analyzeExperiment({ key: flag.key, metricSource: 'usage', metric: 'api_calls', ...window });
+
+    expect(res.srm?.mismatch).toBe(true);
+    expect(res.warnings[0]).toMatch(/^Sample ratio mismatch/);
+  });
+
+  it('should use domain events after first exposure for user experiments', async () => {
+    vi.mocked(ExposuresRepo.listFirstExposures).mockResolvedValue([
+      ...subjects('control', 1),
+      ...subjects('compact', 1),
+    ]);
+    vi.mocked(queryEventStore).mockResolvedValue([
+      { payload: { userId: 'compact-0' }, meta: { timestamp: '2026-01-11T00:00:00Z' }, sequence: 1 },
+      { payload: { userId: 'control-0' }, meta: { timestamp: '2026-01-05T00:00:00Z' }, sequence: 2 },
+    ] as never);
+
+    const res = await analyzeExperiment({
+      key: flag.key,
+      metricSource: 'event',
+      metric: 'billing.subscription.created',
+      unit: 'user',
+      ...window,
+    });
+
+    expect(queryEventStore).toHaveBeenCalledWith(
+      expect.objectContaining({ types: ['billing.subscription.created'], order: 'asc' })
+    );
+    expect(res.variants.map((v) => [v.variant, v.converted])).toEqual([
+      ['control', 0],
+      ['compact', 1],
+    ]);
+  });
+
+  it('should reject usage metrics for user experiments', async () => {
+    await expect(
+      analyzeExperiment({ key: flag.key, metricSource: 'usage', metric: 'api_calls', unit: 'user' })
+    ).rejects.toMatchObject({ details: { fields: [{ field: 'unit' }] } });
+  });
+
+  it('should reject an unknown control variant', async () => {
+    vi.mocked(ExposuresRepo.listFirstExposures).mockResolvedValue([]);
+
+    await expect(
+      analyzeExperiment({ key: flag.key, metricSource: 'usage', metric: 'api_calls', control: 'nope' })
+    ).rejects.toMatchObject({ details: { fields: [{ field: 'control' }] } });
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Flags Override Tests
+ *
+ * Tests for override expiry during evaluation, the cap on cached override
+ * lookups, variant pins and the admin bulk set, against in-memory
+ * repositories and cache.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { FlagRow, OverrideRow } from '../domain/types';
+
+const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    cacheGet: vi.fn(async (key: string) => {
+      const entry = cache.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : null;
+    }),
+    cacheSet: vi.fn(async (key: string, value: unknown, ttlMs: number) => {
+      cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }),
+    publish: vi.fn(),
+    emitTypedReliable: vi.fn(),
+    kv: {
+      del: vi.fn(async (key: string) => {
+        cache.delete(key);
+      }),
+    },
+    getEnv: vi.fn(() => ({ APP_ENV: 'test' })),
+  };
+});
+
+vi.mock('../data/flags.repository', () => ({
+  FlagsRepo: { findOne: vi.fn() },
+}));
+
+vi.mock('../data/overrides.repository', () => ({
+  OverridesRepo: { findOverride: vi.fn(), upsert: vi.fn(), softDeleteOverride: vi.fn() },
+}));
+
+vi.mock('../data/exposures.repository', () => ({
+  ExposuresRepo: { logBatch: vi.fn() },
+}));
+
+vi.mock('../data/segments.repository', () => ({
+  SegmentsRepo: { findOne: vi.fn(async () => null) },
+}));
+
+import { cacheSet, emitTypedReliable } from '@unisane/kernel';
+import { FlagsRepo } from '../data/flags.repository';
+import { OverridesRepo } from '../data/overrides.repository';
+import { evaluateForScope } from '../service/evaluate';
+import { getScopeOverride, setScopeOverride } from '../service/overrides';
+import { bulkSetFlagOverrides } from '../service/admin/overrides';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+const flags: Record<string, FlagRow> = {};
+const overrides = new Map<string, OverrideRow>();
+
+const overrideId = (key: string, scopeType: string, scopeId: string) => `${key}:${scopeType}:${scopeId}`;
+
+function defineFlag(key: string, row: Partial<FlagRow> = {}) {
+  flags[key] = { env: 'test', key, enabledDefault: false, rules: [], snapshotVersion: 1, ...row };
+}
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+describe('Flag overrides', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    cache.clear();
+    overrides.clear();
+    for (const k of Object.keys(flags)) delete flags[k];
+    vi.mocked(FlagsRepo.findOne).mockImplementation(async (_env, key) => flags[key] ?? null);
+    vi.mocked(OverridesRepo.findOverride).mockImplementation(
+      async (_env, key, scopeType, scopeId) => overrides.get(overrideId(key, scopeType, scopeId)) ?? null
+    );
+    vi.mocked(OverridesRepo.upsert).mockImplementation(async (args) => {
+      const row: OverrideRow = {
+        env: args.env,
+        key: args.key,
+        scopeType: args.scopeType,
+        scopeId: args.scopeId,
+        value: args.value,
+        variant: args.variant ?? null,
+        expiresAt: args.expiresAt ?? null,
+      };
+      overrides.set(overrideId(args.key, args.scopeType, args.scopeId), row);
+      return row;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('expiry', () => {
+    it('should serve an override until it expires', async () => {
+      defineFlag('beta.dashboard');
+      await setScopeOverride({
+        env: 'test',
+        key: 'beta.dashboard',
+        scopeType: 'user',
+        scopeId: 'u1',
+        value: true,
+        expiresAt: inMinutes(30),
+      });
+
+      const args = { env: 'test' as const, key: 'beta.dashboard', scopeId: 't1', userId: 'u1' };
+      expect(await evaluateForScope(args)).toMatchObject({ enabled: true, reason: 'user_override' });
+
+      vi.setSystemTime(new Date(NOW.getTime() + 31 * 60_000));
+      expect(await evaluateForScope(args)).toMatchObject({ enabled: false, reason: 'default' });
+    });
+
+    it('should fall back to the tenant override when the user override expired', async () => {
+      defineFlag('beta.dashboard');
+      await setScopeOverride({ env: 'test', key: 'beta.dashboard', scopeType: 'tenant', scopeId: 't1', value: true });
+      overrides.set(overrideId('beta.dashboard', 'user', 'u1'), {
+        env: 'test',
+        key: 'beta.dashboard',
+        scopeType: 'user',
+        scopeId: 'u1',
+        value: false,
+        expiresAt: inMinutes(-1),
+      });
+
+      const result = await evaluateForScope({ env: 'test', key: 'beta.dashboard', scopeId: 't1', userId: 'u1' });
+
+      expect(result).toMatchObject({ enabled: true, reason: 'tenant_override' });
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        setScopeOverride({
+          env: 'test',
+          key: 'beta.dashboard',
+          scopeType: 'tenant',
+          scopeId: 't1',
+          value: true,
+          expiresAt: inMinutes(-1),
+        })
+      ).rejects.toThrow(/in the future/);
+      expect(OverridesRepo.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cached lookups', () => {
+    const lookup = { env: 'test' as const, key: 'beta.dashboard', scopeType: 'tenant' as const, scopeId: 't1' };
+
+    it('should cap the cache TTL at the override expiry', async () => {
+      overrides.set(overrideId('beta.dashboard', 'tenant', 't1'), {
+        ...lookup,
+        value: true,
+        expiresAt: new Date(Date.now() + 10_000),
+      });
+
+      expect(await getScopeOverride(lookup)).toMatchObject({ value: true });
+      expect(cacheSet).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({ value: true }), 10_000);
+    });
+
+    it('should cache overrides without expiry for the default TTL', async () => {
+      overrides.set(overrideId('beta.dashboard', 'tenant', 't1'), { ...lookup, value: true, expiresAt: null });
+
+      await getScopeOverride(lookup);
+
+      expect(cacheSet).toHaveBeenLastCalledWith(expect.any(String), expect.anything(), 60_000);
+    });
+
+    it('should treat a cached override past its expiry as absent', async () => {
+      overrides.set(overrideId('beta.dashboard', 'tenant', 't1'), {
+        ...lookup,
+        value: true,
+        expiresAt: new Date(Date.now() + 10_000),
+      });
+      await getScopeOverride(lookup);
+      // Still cached (e.g. a cache that rounds TTLs up), but the override expired
+      const [key] = [...cache.keys()];
+      cache.get(key!)!.expiresAt = Date.now() + 60_000;
+
+      vi.setSystemTime(new Date(NOW.getTime() + 10_000));
+      expect(await getScopeOverride(lookup)).toBeNull();
+      // Answered from the cached entry's own expiry
+      expect(OverridesRepo.findOverride).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('variant pins', () => {
+    it('should serve the pinned variant while the flag still has it', async () => {
+      defineFlag('checkout.layout', {
+        enabledDefault: true,
+        valueType: 'string',
+        variants: [
+          { key: 'classic', value: 'classic' },
+          { key: 'compact', value: 'compact' },
+        ],
+        defaultVariant: 'classic',
+      });
+      await setScopeOverride({
+        env: 'test',
+        key: 'checkout.layout',
+        scopeType: 'tenant',
+        scopeId: 't1',
+        value: true,
+        variant: 'compact',
+      });
+
+      expect(await evaluateForScope({ env: 'test', key: 'checkout.layout', scopeId: 't1' })).toMatchObject({
+        variant: 'compact',
+        value: 'compact',
+        reason: 'tenant_override',
+      });
+
+      await expect(
+        setScopeOverride({
+          env: 'test',
+          key: 'checkout.layout',
+          scopeType: 'tenant',
+          scopeId: 't2',
+          value: true,
+          variant: 'wide',
+        })
+      ).rejects.toThrow(/Unknown variant/);
+    });
+  });
+
+  describe('bulkSetFlagOverrides', () => {
+    beforeEach(() => {
+      defineFlag('checkout.layout', {
+        valueType: 'string',
+        variants: [{ key: 'compact', value: 'compact' }],
+      });
+    });
+
+    it('should write every item and emit an event per write', async () => {
+      await setScopeOverride({ env: 'test', key: 'checkout.layout', scopeType: 'tenant', scopeId: 't1', value: false });
+      vi.mocked(emitTypedReliable).mockClear();
+
+      const result = await bulkSetFlagOverrides({
+        env: 'test',
+        key: 'checkout.layout',
+        actorId: 'admin_1',
+        items: [
+          { scopeType: 'tenant', scopeId: 't1', value: true, variant: 'compact' },
+          { scopeType: 'user', scopeId: 'u1', value: true, expiresAt: inMinutes(60).toISOString() },
+        ],
+      });
+
+      expect(result).toEqual({ ok: true, count: 2 });
+      expect(overrides.get(overrideId('checkout.layout', 'tenant', 't1'))).toMatchObject({ value: true, variant: 'compact' });
+      expect(overrides.get(overrideId('checkout.layout', 'user', 'u1'))?.expiresAt).toEqual(inMinutes(60));
+      expect(emitTypedReliable).toHaveBeenCalledTimes(2);
+      expect(emitTypedReliable).toHaveBeenCalledWith(
+        'flags.override.set',
+        expect.objectContaining({
+          scopeId: 't1',
+          variant: 'compact',
+          previous: { value: false, variant: null, expiresAt: null },
+          actorId: 'admin_1',
+        }),
+        'flags'
+      );
+    });
+
+    it.each([
+      [
+        'a duplicate scope',
+        [
+          { scopeType: 'tenant' as const, scopeId: 't1', value: true },
+          { scopeType: 'tenant' as const, scopeId: 't1', value: false },
+        ],
+        /Duplicate override/,
+      ],
+      [
+        'an expiry in the past',
+        [
+          { scopeType: 'tenant' as const, scopeId: 't1', value: true },
+          { scopeType: 'user' as const, scopeId: 'u1', value: true, expiresAt: '2026-01-01T00:00:00Z' },
+        ],
+        /in the future/,
+      ],
+      [
+        'an unknown variant',
+        [
+          { scopeType: 'tenant' as const, scopeId: 't1', value: true },
+          { scopeType: 'tenant' as const, scopeId: 't2', value: true, variant: 'wide' },
+        ],
+        /Invalid variant/,
+      ],
+      [
+        'a variant pinned on an off override',
+        [{ scopeType: 'tenant' as const, scopeId: 't1', value: false, variant: 'compact' }],
+        /Invalid variant/,
+      ],
+    ])('should write nothing when the batch has %s', async (_case, items, error) => {
+      await expect(bulkSetFlagOverrides({ env: 'test', key: 'checkout.layout', items })).rejects.toThrow(error);
+
+      expect(OverridesRepo.upsert).not.toHaveBeenCalled();
+      expect(emitTypedReliable).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Flags Prerequisite Tests
+ *
+ * Tests for prerequisite gating during evaluation, write-time validation of
+ * missing references and cycles, and the admin dependency graph.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { FlagRow } from '../domain/types';
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    cacheGet: vi.fn(async () => null),
+    cacheSet: vi.fn(),
+    publish: vi.fn(),
+    kv: { del: vi.fn() },
+    getEnv: vi.fn(() => ({ APP_ENV: 'test' })),
+  };
+});
+
+vi.mock('../data/flags.repository', () => ({
+  FlagsRepo: {
+    findOne: vi.fn(),
+    upsert: vi.fn(),
+    listKeysReferencingSegment: vi.fn(async () => []),
+    listWithPrerequisites: vi.fn(),
+  },
+}));
+
+vi.mock('../data/overrides.repository', () => ({
+  OverridesRepo: { findOverride: vi.fn(async () => null) },
+}));
+
+vi.mock('../data/exposures.repository', () => ({
+  ExposuresRepo: { logBatch: vi.fn() },
+}));
+
+vi.mock('../data/segments.repository', () => ({
+  SegmentsRepo: { findOne: vi.fn(async () => null) },
+}));
+
+import { FlagsRepo } from '../data/flags.repository';
+import { evaluateForScope } from '../service/evaluate';
+import { writeFlag } from '../service/write';
+import { getFlagDependencyGraph } from '../service/admin/dependencies';
+
+const flags: Record<string, FlagRow> = {};
+
+function defineFlag(key: string, row: Partial<FlagRow> = {}) {
+  flags[key] = { env: 'test', key, enabledDefault: true, rules: [], snapshotVersion: 1, ...row };
+}
+
+describe('Flag prerequisites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const k of Object.keys(flags)) delete flags[k];
+    vi.mocked(FlagsRepo.findOne).mockImplementation(async (_env, key) => flags[key] ?? null);
+    vi.mocked(FlagsRepo.upsert).mockResolvedValue({ ok: true, flag: null });
+  });
+
+  describe('evaluateForScope', () => {
+    it('should serve the flag when its prerequisite is on', async () => {
+      defineFlag('ai.enabled');
+      defineFlag('ai.v2', { prerequisites: [{ key: 'ai.enabled' }] });
+
+      const result = await evaluateForScope({ env: 'test', key: 'ai.v2', scopeId: 't1' });
+
+      expect(result.enabled).toBe(true);
+      expect(result.reason).toBe('default');
+    });
+
+    it('should serve off when a prerequisite is off', async () => {
+      defineFlag('ai.enabled', { enabledDefault: false });
+      defineFlag('ai.v2', { prerequisites: [{ key: 'ai.enabled' }] });
+
+      const result = await evaluateForScope({ env: 'test', key: 'ai.v2', scopeId: 't1' });
+
+      expect(result).toMatchObject({ enabled: false, variant: 'off', reason: 'prerequisite_failed' });
+    });
+
+    it('should require one of the listed prerequisite variants', async () => {
+      defineFlag('layout', {
+        valueType: 'string',
+        variants: [
+          { key: 'a', value: 'classic' },
+          { key: 'b', value: 'compact' },
+        ],
+        defaultVariant: 'a',
+      });
+      defineFlag('layout.tips', { prerequisites: [{ key: 'layout', variants: ['b'] }] });
+
+      const result = await evaluateForScope({ env: 'test', key: 'layout.tips', scopeId: 't1' });
+
+      expect(result.reason).toBe('prerequisite_failed');
+    });
+
+    it('should fail closed on a stored cycle', async () => {
+      defineFlag('a', { prerequisites: [{ key: 'b' }] });
+      defineFlag('b', { prerequisites: [{ key: 'a' }] });
+
+      const result = await evaluateForScope({ env: 'test', key: 'a', scopeId: 't1' });
+
+      expect(result.enabled).toBe(false);
+    });
+  });
+
+  describe('writeFlag', () => {
+    const write = (key: string, prerequisites: FlagRow['prerequisites']) =>
+      writeFlag({ env: 'test', key, enabledDefault: true, rules: [], prerequisites });
+
+    it('should reject unknown prerequisite flags', async () => {
+      await expect(write('child', [{ key: 'missing' }])).rejects.toMatchObject({
+        details: { fields: [{ field: 'prerequisites.0.key', message: 'Unknown flag "missing"' }] },
+      });
+      expect(FlagsRepo.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject self references', async () => {
+      await expect(write('self', [{ key: 'self' }])).rejects.toMatchObject({
+        details: { fields: [{ field: 'prerequisites.0.key' }] },
+      });
+    });
+
+    it('should reject cycles with the offending path', async () => {
+      defineFlag('a', { prerequisites: [{ key: 'b' }] });
+      defineFlag('b');
+
+      await expect(write('b', [{ key: 'a' }])).rejects.toMatchObject({
+        details: { fields: [{ message: 'Prerequisite cycle: b -> a -> b' }] },
+      });
+    });
+
+    it('should reject variants the prerequisite does not serve', async () => {
+      defineFlag('parent');
+
+      await expect(write('child', [{ key: 'parent', variants: ['blue'] }])).rejects.toMatchObject({
+        details: { fields: [{ field: 'prerequisites.0.variants' }] },
+      });
+    });
+
+    it('should store valid prerequisites', async () => {
+      defineFlag('parent');
+
+      await write('child', [{ key: 'parent', variants: ['on'] }]);
+
+      expect(FlagsRepo.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ prerequisites: [{ key: 'parent', variants: ['on'] }] })
+      );
+    });
+  });
+
+  describe('getFlagDependencyGraph', () => {
+    beforeEach(() => {
+      vi.mocked(FlagsRepo.listWithPrerequisites).mockResolvedValue([
+        { key: 'ai.v2', prerequisites: [{ key: 'ai.enabled' }] },
+        { key: 'ai.v2.chat', prerequisites: [{ key: 'ai.v2' }] },
+        { key: 'billing.new', prerequisites: [{ key: 'billing' }] },
+      ]);
+    });
+
+    it('should return the whole graph without a key', async () => {
+      const graph = await getFlagDependencyGraph({ env: 'test' });
+
+      expect(graph.edges).toHaveLength(3);
+      expect(graph.dependents).toBeUndefined();
+    });
+
+    it('should narrow to the blast radius of a key', async () => {
+      const graph = await getFlagDependencyGraph({ env: 'test', key: 'ai.enabled' });
+
+      expect(graph.dependents).toEqual(['ai.v2', 'ai.v2.chat']);
+      expect(graph.nodes).toEqual(['ai.enabled', 'ai.v2', 'ai.v2.chat']);
+      expect(graph.edges).toHaveLength(2);
+    });
+  });
+});
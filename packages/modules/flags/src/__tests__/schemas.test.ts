@@ -14,6 +14,9 @@ import {
   ZOverrideOut,
   ZFlagGetQuery,
   ZFlagsListQuery,
+  ZOverrideListQuery,
+  ZOverrideBulkWrite,
+  ZSegmentWrite,
 } from '../domain/schemas';
 
 describe('ZRuleCondition', () => {
@@ -165,6 +168,63 @@ describe('ZRuleCondition', () => {
   });
 });
 
+describe('ZRuleCondition targeting', () => {
+  it('should accept attribute conditions', () => {
+    const conds = [
+      { attribute: 'role', op: 'eq', value: 'admin' },
+      { attribute: 'role', op: 'in', values: ['admin', 'owner'] },
+      { attribute: 'seats', op: 'gt', value: 5 },
+      { attribute: 'createdAt', op: 'lte', value: '2024-01-01T00:00:00Z' },
+      { attribute: 'appVersion', op: 'semver', range: '>=2.0.0 <3' },
+      { attribute: 'email', op: 'regex', pattern: '@acme\\.io$' },
+    ];
+
+    for (const cond of conds) {
+      expect(ZRuleCondition.safeParse(cond).success).toBe(true);
+    }
+  });
+
+  it('should reject invalid semver ranges and regex patterns', () => {
+    expect(
+      ZRuleCondition.safeParse({ attribute: 'v', op: 'semver', range: '>=banana' }).success
+    ).toBe(false);
+    expect(
+      ZRuleCondition.safeParse({ attribute: 'e', op: 'regex', pattern: '(' }).success
+    ).toBe(false);
+  });
+
+  it('should reject unknown operators', () => {
+    const result = ZRuleCondition.safeParse({ attribute: 'role', op: 'contains', value: 'x' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should accept segment references and nested groups', () => {
+    const result = ZRuleCondition.safeParse({
+      any: [{ segment: 'beta' }, { not: { planIn: ['pro'] } }, { all: [{ countryIn: ['de'] }] }],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject groups nested beyond two levels', () => {
+    const result = ZRuleCondition.safeParse({
+      any: [{ all: [{ not: { planIn: ['pro'] } }] }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('ZSegmentWrite', () => {
+  it('should require at least one condition', () => {
+    expect(ZSegmentWrite.safeParse({ env: 'prod', conditions: [] }).success).toBe(false);
+    expect(
+      ZSegmentWrite.safeParse({ env: 'prod', conditions: [{ tenantTagIn: ['beta'] }] }).success
+    ).toBe(true);
+  });
+});
+
 describe('ZRule', () => {
   it('should accept valid rule with single condition', () => {
     const result = ZRule.safeParse({
@@ -203,6 +263,38 @@ describe('ZRule', () => {
 
     expect(result.success).toBe(false);
   });
+
+  it('should accept a rule serving a variant', () => {
+    const result = ZRule.safeParse({
+      if: [{ planIn: ['pro'] }],
+      then: { variant: 'treatment' },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should accept a rule serving a weighted rollout', () => {
+    const result = ZRule.safeParse({
+      if: [{ percentage: 50 }],
+      then: {
+        rollout: [
+          { variant: 'control', weight: 50 },
+          { variant: 'treatment', weight: 50 },
+        ],
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a rollout weight above 100', () => {
+    const result = ZRule.safeParse({
+      if: [{ percentage: 50 }],
+      then: { rollout: [{ variant: 'control', weight: 150 }] },
+    });
+
+    expect(result.success).toBe(false);
+  });
 });
 
 describe('ZFlagWrite', () => {
@@ -288,6 +380,51 @@ describe('ZFlagWrite', () => {
     expect(result.success).toBe(false);
   });
 
+  it('should default to a boolean flag without variants', () => {
+    const result = ZFlagWrite.safeParse({
+      env: 'prod',
+      key: 'test',
+      enabledDefault: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.valueType).toBe('boolean');
+      expect(result.data.variants).toEqual([]);
+    }
+  });
+
+  it('should accept a JSON-valued multi-variant flag', () => {
+    const result = ZFlagWrite.safeParse({
+      env: 'prod',
+      key: 'checkout.layout',
+      enabledDefault: true,
+      valueType: 'json',
+      variants: [
+        { key: 'control', value: { columns: 1 } },
+        { key: 'wide', value: { columns: 2, sidebar: true } },
+      ],
+      defaultVariant: 'control',
+      rollout: [
+        { variant: 'control', weight: 50 },
+        { variant: 'wide', weight: 50 },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject an unknown value type', () => {
+    const result = ZFlagWrite.safeParse({
+      env: 'prod',
+      key: 'test',
+      enabledDefault: true,
+      valueType: 'date',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
   it('should reject negative expected version', () => {
     const result = ZFlagWrite.safeParse({
       env: 'prod',
@@ -372,6 +509,56 @@ describe('ZOverrideWrite', () => {
   });
 });
 
+describe('ZOverrideListQuery', () => {
+  it('should default limit to 50', () => {
+    const result = ZOverrideListQuery.safeParse({});
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.limit).toBe(50);
+    }
+  });
+
+  it('should reject limit above 100', () => {
+    const result = ZOverrideListQuery.safeParse({ limit: 500 });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject unknown scopeType', () => {
+    const result = ZOverrideListQuery.safeParse({ scopeType: 'org' });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('ZOverrideBulkWrite', () => {
+  it('should accept tenant and user items', () => {
+    const result = ZOverrideBulkWrite.safeParse({
+      items: [
+        { scopeType: 'tenant', scopeId: 't1', value: true, variant: 'blue' },
+        { scopeType: 'user', scopeId: 'u1', value: false, expiresAt: null },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject empty items', () => {
+    const result = ZOverrideBulkWrite.safeParse({ items: [] });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject items without scopeId', () => {
+    const result = ZOverrideBulkWrite.safeParse({
+      items: [{ scopeType: 'tenant', value: true }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
 describe('ZOverrideOut', () => {
   it('should accept valid override output', () => {
     const result = ZOverrideOut.safeParse({
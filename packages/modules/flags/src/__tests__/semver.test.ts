@@ -0,0 +1,64 @@
+/**
+ * Flags Semver Tests
+ *
+ * Tests for version parsing and range matching used by semver conditions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareSemver, isSemverRange, parseSemver, satisfiesSemver } from '../domain/semver';
+
+describe('parseSemver', () => {
+  it('should parse full, partial and prefixed versions', () => {
+    expect(parseSemver('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseSemver('v2.1')).toEqual({ major: 2, minor: 1, patch: 0, prerelease: [] });
+    expect(parseSemver('1.0.0-beta.2+build.5')?.prerelease).toEqual(['beta', '2']);
+  });
+
+  it('should reject invalid versions', () => {
+    expect(parseSemver('abc')).toBeNull();
+    expect(parseSemver('1.2.3.4')).toBeNull();
+  });
+});
+
+describe('compareSemver', () => {
+  it('should order prereleases below the release', () => {
+    const pre = parseSemver('1.0.0-rc.1')!;
+    const rel = parseSemver('1.0.0')!;
+
+    expect(compareSemver(pre, rel)).toBeLessThan(0);
+    expect(compareSemver(parseSemver('1.0.0-rc.2')!, pre)).toBeGreaterThan(0);
+  });
+});
+
+describe('satisfiesSemver', () => {
+  it('should match comparator sets', () => {
+    expect(satisfiesSemver('1.5.0', '>=1.2.0 <2.0.0')).toBe(true);
+    expect(satisfiesSemver('2.0.0', '>=1.2.0 <2.0.0')).toBe(false);
+    expect(satisfiesSemver('1.5.0', '>= 1.2.0')).toBe(true);
+  });
+
+  it('should match caret and tilde ranges', () => {
+    expect(satisfiesSemver('1.9.9', '^1.2.3')).toBe(true);
+    expect(satisfiesSemver('2.0.0-beta', '^1.2.3')).toBe(false);
+    expect(satisfiesSemver('0.2.9', '^0.2.1')).toBe(true);
+    expect(satisfiesSemver('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfiesSemver('1.2.9', '~1.2.0')).toBe(true);
+    expect(satisfiesSemver('1.3.0', '~1.2.0')).toBe(false);
+  });
+
+  it('should match any alternative', () => {
+    expect(satisfiesSemver('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+    expect(satisfiesSemver('2.1.0', '^1.0.0 || ^3.0.0')).toBe(false);
+  });
+
+  it('should treat * as match-all', () => {
+    expect(satisfiesSemver('9.9.9', '*')).toBe(true);
+  });
+});
+
+describe('isSemverRange', () => {
+  it('should validate ranges', () => {
+    expect(isSemverRange('>=1.0.0 <2')).toBe(true);
+    expect(isSemverRange('>=banana')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Flags Experiment Statistics Tests
+ *
+ * Tests for conversion intervals, the two-proportion test and sample ratio
+ * mismatch detection used by experiment analysis.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chiSquarePValue,
+  normalCdf,
+  sampleRatioTest,
+  twoProportionTest,
+  wilsonInterval,
+} from '../domain/stats';
+
+describe('wilsonInterval', () => {
+  it('should bracket the observed rate', () => {
+    const ci = wilsonInterval(50, 100);
+
+    expect(ci.lower).toBeCloseTo(0.4038, 3);
+    expect(ci.upper).toBeCloseTo(0.5962, 3);
+  });
+
+  it('should stay within [0, 1] at the extremes', () => {
+    expect(wilsonInterval(0, 20).lower).toBe(0);
+    expect(wilsonInterval(20, 20).upper).toBe(1);
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+  });
+});
+
+describe('normalCdf', () => {
+  it('should match standard normal quantiles', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1.644854)).toBeCloseTo(0.05, 4);
+  });
+});
+
+describe('twoProportionTest', () => {
+  it('should detect a clear lift', () => {
+    const res = twoProportionTest(150, 1000, 100, 1000)!;
+
+    expect(res.diff).toBeCloseTo(0.05, 6);
+    expect(res.pValue).toBeLessThan(0.01);
+    expect(res.ci.lower).toBeGreaterThan(0);
+  });
+
+  it('should not flag identical rates', () => {
+    const res = twoProportionTest(100, 1000, 100, 1000)!;
+
+    expect(res.diff).toBe(0);
+    expect(res.pValue).toBeCloseTo(1, 6);
+  });
+
+  it('should return null without samples', () => {
+    expect(twoProportionTest(0, 0, 5, 10)).toBeNull();
+  });
+});
+
+describe('chiSquarePValue', () => {
+  it('should match known critical values', () => {
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(5.991, 2)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(0, 3)).toBe(1);
+  });
+});
+
+describe('sampleRatioTest', () => {
+  it('should accept a balanced split', () => {
+    const res = sampleRatioTest([5010, 4990], [50, 50])!;
+
+    expect(res.df).toBe(1);
+    expect(res.pValue).toBeGreaterThan(0.5);
+  });
+
+  it('should flag a skewed split', () => {
+    const res = sampleRatioTest([5300, 4700], [50, 50])!;
+
+    expect(res.pValue).toBeLessThan(0.001);
+  });
+
+  it('should skip variants with no expected share', () => {
+    const res = sampleRatioTest([900, 100, 3], [90, 10, 0])!;
+
+    expect(res.df).toBe(1);
+    expect(res.statistic).toBeCloseTo(0, 6);
+  });
+});
@@ -7,7 +7,7 @@
  */
 
 import type { FlagsPort } from "@unisane/kernel";
-import { isEnabledForScope } from "../service/overrides";
+import { isEnabledForScope, evaluateForScope } from "../service/evaluate";
 
 /**
  * Flags adapter implementation.
@@ -16,4 +16,7 @@ export const flagsAdapter: FlagsPort = {
   async isEnabledForScope(args) {
     return isEnabledForScope(args);
   },
+  async evaluateForScope(args) {
+    return evaluateForScope(args);
+  },
 };
@@ -13,6 +13,25 @@ export {
   ZOverrideOut,
   ZFlagGetQuery,
   ZFlagsListQuery,
+  ZFlagValue,
+  ZFlagValueType,
+  ZFlagVariant,
+  ZVariantAllocation,
+  ZFlagEvaluationOut,
+  ZOverrideListQuery,
+  ZOverrideListItem,
+  ZOverrideBulkWrite,
+  ZAttributeCondition,
+  ZSegmentKey,
+  ZSegmentWrite,
+  ZSegmentOut,
+  ZSegmentListQuery,
+  ZFlagPrerequisite,
+  ZFlagDependencyQuery,
+  ZFlagDependencyEdge,
+  ZFlagDependencyGraph,
+  ZExperimentQuery,
+  ZExperimentAnalysis,
 } from './domain/schemas';
 
 export type {
@@ -20,7 +39,25 @@ export type {
   FlagOut,
   OverrideWrite,
   OverrideOut,
+  FlagValue,
+  FlagValueType,
+  FlagVariant,
+  VariantAllocation,
+  FlagEvaluationOut,
+  OverrideListQuery,
+  OverrideListItem,
+  OverrideBulkWrite,
+  AttributeCondition,
+  RuleCondition,
+  SegmentWrite,
+  SegmentOut,
+  FlagPrerequisite,
+  FlagDependencyEdge,
+  FlagDependencyGraph,
+  ExperimentQuery,
+  ExperimentAnalysis,
+  ExperimentVariantResult,
 } from './domain/schemas';
 
 export * from './domain/types';
-export { FLAGS_EVENTS, FLAGS_DEFAULTS } from './domain/constants';
+export { FLAGS_EVENTS, FLAGS_DEFAULTS, BOOLEAN_VARIANTS } from './domain/constants';
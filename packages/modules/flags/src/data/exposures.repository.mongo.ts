@@ -6,6 +6,7 @@ type ExposureDoc = {
   env: string;
   flagKey: string;
   value: boolean;
+  variant?: string;
   reason: string;
   ruleIndex?: number;
   userId?: string;
@@ -24,6 +25,7 @@ export const ExposuresRepoMongo = {
       env: exposure.env,
       flagKey: exposure.flagKey,
       value: exposure.value,
+      ...(exposure.variant ? { variant: exposure.variant } : {}),
       reason: exposure.reason,
       ...(exposure.ruleIndex !== undefined
         ? { ruleIndex: exposure.ruleIndex }
@@ -48,6 +50,7 @@ export const ExposuresRepoMongo = {
       env: exposure.env,
       flagKey: exposure.flagKey,
       value: exposure.value,
+      ...(exposure.variant ? { variant: exposure.variant } : {}),
       reason: exposure.reason,
       ...(exposure.ruleIndex !== undefined
         ? { ruleIndex: exposure.ruleIndex }
@@ -61,4 +64,57 @@ export const ExposuresRepoMongo = {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- MongoDB document casting
     await exposuresCol().insertMany(docs as any[], { ordered: false });
   },
+
+  /**
+   * First exposure per subject (user or tenant) for a flag within a window.
+   * `variants` lists every variant the subject saw so mixed exposure can be
+   * reported; experiments attribute the subject to the first one.
+   */
+  async listFirstExposures(args: {
+    env: string;
+    flagKey: string;
+    from: Date;
+    to: Date;
+    unit: "user" | "tenant";
+    reasons: string[];
+    limit: number;
+  }): Promise<Array<{ subjectId: string; variant: string; at: Date; variants: string[] }>> {
+    const field = args.unit === "user" ? "userId" : "scopeId";
+    const rows = await exposuresCol()
+      .aggregate<{ _id: string; variant: string; at: Date; variants: string[] }>([
+        {
+          $match: {
+            env: args.env,
+            flagKey: args.flagKey,
+            timestamp: { $gte: args.from, $lt: args.to },
+            reason: { $in: args.reasons },
+            [field]: { $exists: true, $ne: null },
+          },
+        },
+        { $sort: { timestamp: 1 } },
+        {
+          $project: {
+            subject: `$${field}`,
+            timestamp: 1,
+            variant: { $ifNull: ["$variant", { $cond: ["$value", "on", "off"] }] },
+          },
+        },
+        {
+          $group: {
+            _id: "$subject",
+            variant: { $first: "$variant" },
+            at: { $first: "$timestamp" },
+            variants: { $addToSet: "$variant" },
+          },
+        },
+        { $limit: args.limit },
+      ], { allowDiskUse: true })
+      .toArray();
+    return rows.map((r) => ({
+      subjectId: String(r._id),
+      variant: r.variant,
+      at: r.at,
+      variants: r.variants,
+    }));
+  },
 };
@@ -8,6 +8,12 @@ import {
 } from "@unisane/kernel";
 import type { FlagsRepoPort } from "../domain/ports";
 import type { UpsertResult, FlagRow } from "../domain/types";
+import type {
+  FlagPrerequisite,
+  FlagValueType,
+  FlagVariant,
+  VariantAllocation,
+} from "../domain/schemas";
 
 type FeatureFlagDoc = {
   _id?: unknown;
@@ -15,6 +21,13 @@ type FeatureFlagDoc = {
   key: string;
   enabledDefault: boolean;
   rules?: unknown[];
+  valueType?: FlagValueType;
+  variants?: FlagVariant[];
+  defaultVariant?: string | null;
+  rollout?: VariantAllocation[] | null;
+  // Segment keys referenced by rules, denormalised for reverse lookups
+  segmentRefs?: string[];
+  prerequisites?: FlagPrerequisite[];
   snapshotVersion: number;
   updatedBy?: string | null;
   deletedAt?: Date | null;
@@ -24,6 +37,24 @@ type FeatureFlagDoc = {
 
 const flagsCol = () => col<FeatureFlagDoc>(COLLECTIONS.FEATURE_FLAGS);
 
+function toFlagRow(doc: FeatureFlagDoc): FlagRow {
+  return {
+    env: doc.env,
+    key: doc.key,
+    enabledDefault: doc.enabledDefault,
+    rules: (doc.rules ?? []) as unknown[],
+    valueType: doc.valueType ?? "boolean",
+    variants: doc.variants ?? [],
+    ...(doc.defaultVariant ? { defaultVariant: doc.defaultVariant } : {}),
+    ...(doc.rollout?.length ? { rollout: doc.rollout } : {}),
+    ...(doc.prerequisites?.length ? { prerequisites: doc.prerequisites } : {}),
+    snapshotVersion: doc.snapshotVersion,
+    updatedBy: doc.updatedBy ?? null,
+    ...(doc.createdAt ? { createdAt: doc.createdAt } : {}),
+    ...(doc.updatedAt ? { updatedAt: doc.updatedAt } : {}),
+  };
+}
+
 export const FlagsRepoMongo: FlagsRepoPort = {
   async findOne(env: string, key: string) {
     const row = await flagsCol().findOne({
@@ -32,17 +63,7 @@ export const FlagsRepoMongo: FlagsRepoPort = {
       ...softDeleteFilter(),
     } as Document);
     if (!row) return null;
-    const base: Record<string, unknown> = {
-      env: row.env,
-      key: row.key,
-      enabledDefault: row.enabledDefault,
-      rules: (row.rules ?? []) as unknown[],
-      snapshotVersion: row.snapshotVersion,
-      updatedBy: row.updatedBy ?? null,
-    };
-    if (row.createdAt) base.createdAt = row.createdAt;
-    if (row.updatedAt) base.updatedAt = row.updatedAt;
-    return base as FlagRow;
+    return toFlagRow(row);
   },
   async upsert(params) {
     if (params.expectedVersion !== undefined) {
@@ -63,6 +84,12 @@ export const FlagsRepoMongo: FlagsRepoPort = {
     const builder = new UpdateBuilder<FeatureFlagDoc>()
       .set("enabledDefault", params.enabledDefault)
       .set("rules", params.rules as unknown[])
+      .set("valueType", params.valueType ?? "boolean")
+      .set("variants", params.variants ?? [])
+      .set("defaultVariant", params.defaultVariant ?? null)
+      .set("rollout", params.rollout ?? null)
+      .set("segmentRefs", params.segmentRefs ?? [])
+      .set("prerequisites", params.prerequisites ?? [])
       .set("updatedBy", params.actorId)
       .set("deletedAt", null)
       .set("updatedAt", now)
@@ -79,18 +106,25 @@ export const FlagsRepoMongo: FlagsRepoPort = {
       (r as unknown as { value?: FeatureFlagDoc | null }).value ??
       (r as unknown as FeatureFlagDoc | null) ??
       null;
-    const flag: FlagRow | null = after
-      ? {
-          env: after.env,
-          key: after.key,
-          enabledDefault: after.enabledDefault,
-          rules: (after.rules ?? []) as unknown[],
-          snapshotVersion: after.snapshotVersion,
-          updatedBy: after.updatedBy ?? null,
-          ...(after.createdAt ? { createdAt: after.createdAt } : {}),
-          ...(after.updatedAt ? { updatedAt: after.updatedAt } : {}),
-        }
-      : null;
+    const flag: FlagRow | null = after ? toFlagRow(after) : null;
     return { ok: true as const, flag } as UpsertResult;
   },
+  async listKeysReferencingSegment(env: string, segment: string) {
+    const rows = await flagsCol()
+      .find(
+        { env, segmentRefs: segment, ...softDeleteFilter() } as Document,
+        { projection: { key: 1 } }
+      )
+      .toArray();
+    return rows.map((r) => r.key);
+  },
+  async listWithPrerequisites(env: string) {
+    const rows = await flagsCol()
+      .find(
+        { env, "prerequisites.0": { $exists: true }, ...softDeleteFilter() } as Document,
+        { projection: { key: 1, prerequisites: 1 } }
+      )
+      .toArray();
+    return rows.map((r) => ({ key: r.key, prerequisites: r.prerequisites ?? [] }));
+  },
 };
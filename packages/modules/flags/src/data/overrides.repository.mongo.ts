@@ -5,10 +5,14 @@ import {
   clampInt,
   UpdateBuilder,
   toMongoUpdate,
+  seekPageMongoCollection,
   type Document,
+  type Filter,
+  type WithId,
   type FlagOverrideScope,
 } from "@unisane/kernel";
 import type { FlagOverridesRepoPort } from "../domain/ports";
+import type { OverrideRow } from "../domain/types";
 
 type FeatureFlagOverrideDoc = {
   _id?: unknown;
@@ -17,7 +21,9 @@ type FeatureFlagOverrideDoc = {
   scopeType: FlagOverrideScope;
   scopeId: string;
   value: boolean;
+  variant?: string | null;
   expiresAt?: Date | null;
+  updatedBy?: string | null;
   deletedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
@@ -36,7 +42,11 @@ export const FlagOverridesRepoMongo: FlagOverridesRepoPort = {
     } as Document);
     if (!row) return null;
     if (row.expiresAt && row.expiresAt.getTime() < Date.now()) return null;
-    return { value: row.value, expiresAt: row.expiresAt ?? null };
+    return {
+      value: row.value,
+      variant: row.variant ?? null,
+      expiresAt: row.expiresAt ?? null,
+    };
   },
   async upsert(args) {
     const sel = {
@@ -48,7 +58,9 @@ export const FlagOverridesRepoMongo: FlagOverridesRepoPort = {
     const now = new Date();
     const builder = new UpdateBuilder<FeatureFlagOverrideDoc>()
       .set("value", args.value)
+      .set("variant", args.variant ?? null)
       .set("expiresAt", args.expiresAt ?? null)
+      .set("updatedBy", args.actorId ?? null)
       .set("deletedAt", null)
       .set("updatedAt", now)
       .setOnInsert("env", args.env)
@@ -66,7 +78,11 @@ export const FlagOverridesRepoMongo: FlagOverridesRepoPort = {
       (r as unknown as FeatureFlagOverrideDoc | null) ??
       null;
     return after
-      ? { value: after.value, expiresAt: after.expiresAt ?? null }
+      ? {
+          value: after.value,
+          variant: after.variant ?? null,
+          expiresAt: after.expiresAt ?? null,
+        }
       : null;
   },
   async softDeleteOverride(env, key, scopeType, scopeId) {
@@ -77,6 +93,42 @@ export const FlagOverridesRepoMongo: FlagOverridesRepoPort = {
       toMongoUpdate(builder.build()) as Document
     );
   },
+  async listActiveByFlag(args) {
+    const limit = clampInt(args.limit, 1, 100);
+    const now = args.now ?? new Date();
+    const baseFilter = {
+      env: args.env,
+      key: args.key,
+      ...(args.scopeType ? { scopeType: args.scopeType } : {}),
+      $and: [
+        softDeleteFilter(),
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+      ],
+    } as Filter<FeatureFlagOverrideDoc>;
+    const { items, nextCursor } = await seekPageMongoCollection<
+      FeatureFlagOverrideDoc,
+      OverrideRow
+    >({
+      collection: ovCol(),
+      baseFilter,
+      limit,
+      cursor: args.cursor ?? null,
+      sortVec: [{ key: "_id", order: -1 }],
+      map: (d: WithId<FeatureFlagOverrideDoc>): OverrideRow => ({
+        env: d.env,
+        key: d.key,
+        scopeType: d.scopeType,
+        scopeId: d.scopeId,
+        value: d.value,
+        variant: d.variant ?? null,
+        expiresAt: d.expiresAt ?? null,
+        updatedBy: d.updatedBy ?? null,
+        ...(d.createdAt ? { createdAt: d.createdAt } : {}),
+        ...(d.updatedAt ? { updatedAt: d.updatedAt } : {}),
+      }),
+    });
+    return { items, ...(nextCursor ? { nextCursor } : {}) };
+  },
   async countActiveScopeOverrides(scopeIds: string[], now = new Date()) {
     if (!scopeIds?.length) return new Map<string, number>();
     const rows = (await ovCol()
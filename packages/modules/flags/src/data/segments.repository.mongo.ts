@@ -0,0 +1,105 @@
+import {
+  col,
+  COLLECTIONS,
+  softDeleteFilter,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+} from "@unisane/kernel";
+import type { FlagSegmentsRepoPort } from "../domain/ports";
+import type { SegmentRow, SegmentUpsertResult } from "../domain/types";
+
+type FlagSegmentDoc = {
+  _id?: unknown;
+  env: string;
+  key: string;
+  name?: string | null;
+  description?: string | null;
+  conditions?: unknown[];
+  snapshotVersion: number;
+  updatedBy?: string | null;
+  deletedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+const segmentsCol = () => col<FlagSegmentDoc>(COLLECTIONS.FLAG_SEGMENTS);
+
+function toSegmentRow(doc: FlagSegmentDoc): SegmentRow {
+  return {
+    env: doc.env,
+    key: doc.key,
+    ...(doc.name ? { name: doc.name } : {}),
+    ...(doc.description ? { description: doc.description } : {}),
+    conditions: (doc.conditions ?? []) as unknown[],
+    snapshotVersion: doc.snapshotVersion,
+    updatedBy: doc.updatedBy ?? null,
+    ...(doc.createdAt ? { createdAt: doc.createdAt } : {}),
+    ...(doc.updatedAt ? { updatedAt: doc.updatedAt } : {}),
+  };
+}
+
+export const FlagSegmentsRepoMongo: FlagSegmentsRepoPort = {
+  async findOne(env: string, key: string) {
+    const row = await segmentsCol().findOne({
+      env,
+      key,
+      ...softDeleteFilter(),
+    } as Document);
+    return row ? toSegmentRow(row) : null;
+  },
+  async list(env: string) {
+    const rows = await segmentsCol()
+      .find({ env, ...softDeleteFilter() } as Document)
+      .sort({ key: 1 })
+      .toArray();
+    return rows.map(toSegmentRow);
+  },
+  async upsert(params) {
+    if (params.expectedVersion !== undefined) {
+      const cur = await segmentsCol().findOne({
+        env: params.env,
+        key: params.key,
+        ...softDeleteFilter(),
+      } as Document);
+      if (cur && (cur.snapshotVersion ?? 0) !== params.expectedVersion) {
+        return {
+          conflict: true as const,
+          expected: cur.snapshotVersion,
+        } as SegmentUpsertResult;
+      }
+    }
+    const now = new Date();
+    const builder = new UpdateBuilder<FlagSegmentDoc>()
+      .set("name", params.name ?? null)
+      .set("description", params.description ?? null)
+      .set("conditions", params.conditions)
+      .set("updatedBy", params.actorId)
+      .set("deletedAt", null)
+      .set("updatedAt", now)
+      .inc("snapshotVersion", 1)
+      .setOnInsert("env", params.env)
+      .setOnInsert("key", params.key)
+      .setOnInsert("createdAt", now);
+    const r = await segmentsCol().findOneAndUpdate(
+      { env: params.env, key: params.key } as Document,
+      toMongoUpdate(builder.build()) as Document,
+      { upsert: true, returnDocument: "after" }
+    );
+    const after =
+      (r as unknown as { value?: FlagSegmentDoc | null }).value ??
+      (r as unknown as FlagSegmentDoc | null) ??
+      null;
+    return { ok: true as const, segment: after ? toSegmentRow(after) : null };
+  },
+  async softDelete(env: string, key: string) {
+    const now = new Date();
+    const builder = new UpdateBuilder<FlagSegmentDoc>()
+      .set("deletedAt", now)
+      .set("updatedAt", now);
+    await segmentsCol().updateOne(
+      { env, key, ...softDeleteFilter() } as Document,
+      toMongoUpdate(builder.build()) as Document
+    );
+  },
+};
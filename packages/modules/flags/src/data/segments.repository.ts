@@ -0,0 +1,5 @@
+import { selectRepo } from '@unisane/kernel';
+import type { FlagSegmentsRepoPort } from '../domain/ports';
+import { FlagSegmentsRepoMongo } from './segments.repository.mongo';
+
+export const SegmentsRepo = selectRepo<FlagSegmentsRepoPort>({ mongo: FlagSegmentsRepoMongo });
@@ -10,6 +10,16 @@ export const FLAGS_EVENTS = {
 
 export const FLAGS_DEFAULTS = {
   CACHE_TTL_MS: 60_000,
+  EXPERIMENT_WINDOW_DAYS: 30,
+  EXPERIMENT_MAX_SUBJECTS: 50_000,
+  EXPERIMENT_MIN_SAMPLE: 100,
+  EXPERIMENT_SRM_P_VALUE: 0.001,
+} as const;
+
+/** Implicit variants served by boolean flags. */
+export const BOOLEAN_VARIANTS = {
+  ON: 'on',
+  OFF: 'off',
 } as const;
 
 export const FLAGS_COLLECTIONS = {
@@ -6,7 +6,8 @@ export const ZExposure = z.object({
   env: ZAppEnv,
   flagKey: z.string().min(1),
   value: z.boolean(),
-  reason: z.enum(['rule_match', 'target_match', 'default', 'user_override', 'tenant_override', 'evaluation']),
+  variant: z.string().optional(), // served variant key (on/off for boolean flags)
+  reason: z.enum(['rule_match', 'target_match', 'default', 'user_override', 'tenant_override', 'prerequisite_failed', 'evaluation']),
   ruleIndex: z.number().int().optional(), // index of the rule that matched, if any
   userId: z.string().optional(),
   tenantId: z.string().optional(),
@@ -14,6 +14,8 @@ export const flagsKeys = {
   /** Cache key for flag override by scope */
   overrideByScope: (env: string, key: string, scopeType: FlagOverrideScope, scopeId: string) =>
     `${KV.FLAG}${env}:${key}:ovr:${scopeType}:${scopeId}` as const,
+  /** Cache key for targeting segment by env */
+  segmentByEnv: (env: string, key: string) => `${KV.FLAG}${env}:segment:${key}` as const,
 } as const;
 
 export type FlagsKeyBuilder = typeof flagsKeys;
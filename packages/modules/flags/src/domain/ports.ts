@@ -1,4 +1,5 @@
-import type { FlagRow, UpsertResult } from './types';
+import type { FlagRow, OverrideRow, SegmentRow, SegmentUpsertResult, UpsertResult } from './types';
+import type { FlagPrerequisite, FlagValueType, FlagVariant, VariantAllocation } from './schemas';
 import type { FlagOverrideScope } from '@unisane/kernel';
 
 export interface FlagsRepoPort {
@@ -8,15 +9,60 @@ export interface FlagsRepoPort {
     key: string;
     enabledDefault: boolean;
     rules: unknown[];
+    valueType?: FlagValueType;
+    variants?: FlagVariant[];
+    defaultVariant?: string | null;
+    rollout?: VariantAllocation[] | null;
+    segmentRefs?: string[];
+    prerequisites?: FlagPrerequisite[];
     actorId?: string;
     expectedVersion?: number;
   }): Promise<UpsertResult>;
+  // Keys of flags whose rules reference a segment
+  listKeysReferencingSegment(env: string, segment: string): Promise<string[]>;
+  // Every flag in an env that declares prerequisites (dependency graph edges)
+  listWithPrerequisites(env: string): Promise<Array<{ key: string; prerequisites: FlagPrerequisite[] }>>;
 }
 
+export interface FlagSegmentsRepoPort {
+  findOne(env: string, key: string): Promise<SegmentRow | null>;
+  list(env: string): Promise<SegmentRow[]>;
+  upsert(args: {
+    env: string;
+    key: string;
+    name?: string | null;
+    description?: string | null;
+    conditions: unknown[];
+    actorId?: string;
+    expectedVersion?: number;
+  }): Promise<SegmentUpsertResult>;
+  softDelete(env: string, key: string): Promise<void>;
+}
+
+export type OverrideValue = { value: boolean; variant?: string | null; expiresAt?: Date | null };
+
 export interface FlagOverridesRepoPort {
-  findOverride(env: string, key: string, scopeType: FlagOverrideScope, scopeId: string): Promise<{ value: boolean; expiresAt?: Date | null } | null>;
-  upsert(args: { env: string; key: string; scopeType: FlagOverrideScope; scopeId: string; value: boolean; expiresAt?: Date | null }): Promise<{ value: boolean; expiresAt?: Date | null } | null>;
+  findOverride(env: string, key: string, scopeType: FlagOverrideScope, scopeId: string): Promise<OverrideValue | null>;
+  upsert(args: {
+    env: string;
+    key: string;
+    scopeType: FlagOverrideScope;
+    scopeId: string;
+    value: boolean;
+    variant?: string | null;
+    expiresAt?: Date | null;
+    actorId?: string;
+  }): Promise<OverrideValue | null>;
   softDeleteOverride(env: string, key: string, scopeType: FlagOverrideScope, scopeId: string): Promise<void>;
+  // Admin: active (non-expired) overrides of a flag, newest first
+  listActiveByFlag(args: {
+    env: string;
+    key: string;
+    scopeType?: FlagOverrideScope;
+    limit: number;
+    cursor?: string;
+    now?: Date;
+  }): Promise<{ items: OverrideRow[]; nextCursor?: string }>;
   // Admin/stats: active override counts per scope
   countActiveScopeOverrides(scopeIds: string[], now?: Date): Promise<Map<string, number>>;
   // Jobs: list expired overrides for cleanup
@@ -2,19 +2,113 @@ import { z } from 'zod';
 import { ZAppEnv } from '@unisane/kernel';
 import { ZPlanId } from '@unisane/kernel';
 import { ZRFC3339 } from '@unisane/kernel';
+import { ZCursor, ZFlagOverrideScope } from '@unisane/kernel';
+import { isSemverRange } from './semver';
 
-export const ZRuleCondition = z.union([
+// Variant payloads. JSON flags accept any JSON-serialisable value.
+export const ZFlagValueType = z.enum(['boolean', 'string', 'number', 'json']);
+
+export const ZFlagValue = z.union([
+  z.boolean(),
+  z.string(),
+  z.number(),
+  z.null(),
+  z.array(z.unknown()),
+  z.record(z.unknown()),
+]);
+
+export type FlagValue = z.infer<typeof ZFlagValue>;
+
+export const ZFlagVariant = z.object({
+  key: z.string().min(1).max(64),
+  value: ZFlagValue,
+  description: z.string().max(500).optional(),
+});
+
+// Weighted allocation over variants. Weights are percentages and must sum to 100.
+export const ZVariantAllocation = z.object({
+  variant: z.string().min(1),
+  weight: z.number().int().min(0).max(100),
+});
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const ZSegmentKey = z.string().min(1).max(64);
+
+const ZAttributeKey = z.string().min(1).max(64);
+const ZAttributeScalar = z.union([z.string(), z.number(), z.boolean()]);
+
+// Generic condition on an EvalCtx attribute (custom bag first, then built-in
+// fields such as plan/country/email). A missing attribute never matches.
+export const ZAttributeCondition = z.union([
+  z.object({ attribute: ZAttributeKey, op: z.enum(['eq', 'neq']), value: ZAttributeScalar }),
+  z.object({ attribute: ZAttributeKey, op: z.literal('in'), values: z.array(ZAttributeScalar).min(1).max(500) }),
+  // Numbers compare numerically; an RFC3339 value compares as a timestamp
+  z.object({ attribute: ZAttributeKey, op: z.enum(['gt', 'gte', 'lt', 'lte']), value: z.union([z.number(), ZRFC3339]) }),
+  z.object({
+    attribute: ZAttributeKey,
+    op: z.literal('semver'),
+    range: z.string().min(1).max(128).refine(isSemverRange, 'Invalid semver range'),
+  }),
+  z.object({
+    attribute: ZAttributeKey,
+    op: z.literal('regex'),
+    pattern: z.string().min(1).max(256).refine(isValidRegex, 'Invalid regular expression'),
+    ignoreCase: z.boolean().optional(),
+  }),
+]);
+
+const ZLeafCondition = z.union([
   z.object({ planIn: z.array(ZPlanId).min(1) }),
   z.object({ countryIn: z.array(z.string()).min(1) }),
   z.object({ emailDomainIn: z.array(z.string()).min(1) }),
   z.object({ tenantTagIn: z.array(z.string()).min(1) }),
   z.object({ timeWindow: z.object({ from: ZRFC3339.optional(), to: ZRFC3339.optional() }) }),
   z.object({ percentage: z.number().int().min(0).max(100) }),
+  ZAttributeCondition,
+  z.object({ segment: ZSegmentKey }),
 ]);
 
+// Negation and any/all groups nest up to two levels. The schema is kept
+// non-recursive so it still renders to OpenAPI.
+const ZNestedCondition = z.union([
+  ZLeafCondition,
+  z.object({ not: ZLeafCondition }),
+  z.object({ any: z.array(ZLeafCondition).min(1).max(50) }),
+  z.object({ all: z.array(ZLeafCondition).min(1).max(50) }),
+]);
+
+export const ZRuleCondition = z.union([
+  ZNestedCondition,
+  z.object({ not: ZNestedCondition }),
+  z.object({ any: z.array(ZNestedCondition).min(1).max(50) }),
+  z.object({ all: z.array(ZNestedCondition).min(1).max(50) }),
+]);
+
+export type AttributeCondition = z.infer<typeof ZAttributeCondition>;
+export type RuleCondition = z.infer<typeof ZRuleCondition>;
+
 export const ZRule = z.object({
   if: z.array(ZRuleCondition).min(1),
-  then: z.object({ value: z.boolean() }),
+  then: z.union([
+    z.object({ value: z.boolean() }),
+    z.object({ variant: z.string().min(1) }),
+    z.object({ rollout: z.array(ZVariantAllocation).min(1) }),
+  ]),
+});
+
+// Gate on another flag: met when the prerequisite is enabled or, when
+// `variants` is given, serves one of them (boolean flags serve on/off).
+export const ZFlagPrerequisite = z.object({
+  key: z.string().min(1),
+  variants: z.array(z.string().min(1)).min(1).optional(),
 });
 
 export const ZFlagWrite = z.object({
@@ -22,6 +116,11 @@ export const ZFlagWrite = z.object({
   key: z.string().min(1),
   enabledDefault: z.boolean(),
   rules: z.array(ZRule).default([]),
+  valueType: ZFlagValueType.default('boolean'),
+  variants: z.array(ZFlagVariant).default([]),
+  defaultVariant: z.string().min(1).optional(),
+  rollout: z.array(ZVariantAllocation).optional(),
+  prerequisites: z.array(ZFlagPrerequisite).max(20).default([]),
   expectedVersion: z.number().int().nonnegative().optional(),
 });
 
@@ -30,27 +129,193 @@ export const ZFlagOut = z.object({
   key: z.string(),
   enabledDefault: z.boolean(),
   rules: z.array(ZRule),
+  valueType: ZFlagValueType.optional(),
+  variants: z.array(ZFlagVariant).optional(),
+  defaultVariant: z.string().optional(),
+  rollout: z.array(ZVariantAllocation).optional(),
+  prerequisites: z.array(ZFlagPrerequisite).optional(),
   snapshotVersion: z.number().int().nonnegative(),
   updatedAt: ZRFC3339,
 });
 
 export type FlagWrite = z.infer<typeof ZFlagWrite>;
 export type FlagOut = z.infer<typeof ZFlagOut>;
+export type FlagValueType = z.infer<typeof ZFlagValueType>;
+export type FlagVariant = z.infer<typeof ZFlagVariant>;
+export type VariantAllocation = z.infer<typeof ZVariantAllocation>;
+export type FlagPrerequisite = z.infer<typeof ZFlagPrerequisite>;
+
+// Named, reusable targeting segment. Matches when all conditions match.
+// Segments cannot reference other segments.
+export const ZSegmentWrite = z.object({
+  env: ZAppEnv,
+  name: z.string().max(120).optional(),
+  description: z.string().max(500).optional(),
+  conditions: z.array(ZRuleCondition).min(1).max(50),
+  expectedVersion: z.number().int().nonnegative().optional(),
+});
+
+export const ZSegmentOut = z.object({
+  env: ZAppEnv,
+  key: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  conditions: z.array(ZRuleCondition),
+  snapshotVersion: z.number().int().nonnegative(),
+  updatedAt: ZRFC3339,
+});
+
+export const ZSegmentListQuery = z.object({ env: ZAppEnv.optional() });
+
+export type SegmentWrite = z.infer<typeof ZSegmentWrite>;
+export type SegmentOut = z.infer<typeof ZSegmentOut>;
+
+// Evaluation result (POST /flags/evaluate/variants)
+export const ZFlagEvaluationReason = z.enum([
+  'rule_match',
+  'target_match',
+  'default',
+  'user_override',
+  'tenant_override',
+  'prerequisite_failed',
+  'evaluation',
+]);
+
+export const ZFlagEvaluationOut = z.object({
+  enabled: z.boolean(),
+  variant: z.string(),
+  value: ZFlagValue,
+  reason: ZFlagEvaluationReason,
+  ruleIndex: z.number().int().optional(),
+});
+
+export type FlagEvaluationReason = z.infer<typeof ZFlagEvaluationReason>;
+export type FlagEvaluationOut = z.infer<typeof ZFlagEvaluationOut>;
+
+// Admin: prerequisite graph. Edges point from a flag to the flag it requires.
+export const ZFlagDependencyQuery = z.object({
+  env: ZAppEnv.optional(),
+  key: z.string().min(1).optional(),
+});
+
+export const ZFlagDependencyEdge = z.object({
+  flag: z.string(),
+  prerequisite: z.string(),
+  variants: z.array(z.string()).optional(),
+});
+
+export const ZFlagDependencyGraph = z.object({
+  nodes: z.array(z.string()),
+  edges: z.array(ZFlagDependencyEdge),
+  // With `key`: every flag transitively gated on it
+  dependents: z.array(z.string()).optional(),
+});
+
+export type FlagDependencyEdge = z.infer<typeof ZFlagDependencyEdge>;
+export type FlagDependencyGraph = z.infer<typeof ZFlagDependencyGraph>;
+
+// Admin: experiment analysis. Subjects are attributed to the first variant
+// they were served by targeting in the window and convert when the metric
+// (a usage counter or a domain event type) fires for them after exposure.
+export const ZExperimentMetricSource = z.enum(['usage', 'event']);
+
+export const ZExperimentQuery = z.object({
+  env: ZAppEnv.optional(),
+  metricSource: ZExperimentMetricSource,
+  metric: z.string().min(1).max(120),
+  unit: z.enum(['user', 'tenant']).default('tenant'),
+  from: ZRFC3339.optional(),
+  to: ZRFC3339.optional(),
+  control: z.string().min(1).optional(),
+});
+
+const ZInterval = z.object({ lower: z.number(), upper: z.number() });
+
+export const ZExperimentVariantResult = z.object({
+  variant: z.string(),
+  exposed: z.number().int().nonnegative(),
+  converted: z.number().int().nonnegative(),
+  conversionRate: z.number(),
+  ci: ZInterval,
+  expectedShare: z.number().nullable(),
+  observedShare: z.number(),
+  // Difference to control; null for the control itself
+  lift: z
+    .object({ absolute: z.number(), relative: z.number().nullable(), ci: ZInterval, pValue: z.number() })
+    .nullable(),
+});
+
+export const ZExperimentAnalysis = z.object({
+  flagKey: z.string(),
+  env: ZAppEnv,
+  unit: z.enum(['user', 'tenant']),
+  metric: z.object({ source: ZExperimentMetricSource, name: z.string() }),
+  from: ZRFC3339,
+  to: ZRFC3339,
+  control: z.string(),
+  totalExposed: z.number().int().nonnegative(),
+  variants: z.array(ZExperimentVariantResult),
+  srm: z.object({ statistic: z.number(), pValue: z.number(), mismatch: z.boolean() }).nullable(),
+  warnings: z.array(z.string()),
+  truncated: z.boolean(),
+});
+
+export type ExperimentQuery = z.infer<typeof ZExperimentQuery>;
+export type ExperimentVariantResult = z.infer<typeof ZExperimentVariantResult>;
+export type ExperimentAnalysis = z.infer<typeof ZExperimentAnalysis>;
 
 // Overrides
+// `variant` pins a specific variant of a multi-variant flag (requires value: true).
 export const ZOverrideWrite = z.object({
   value: z.boolean(),
+  variant: z.string().min(1).optional(),
   expiresAt: ZRFC3339.nullable().optional(),
 });
 
 export const ZOverrideOut = z.object({
   value: z.boolean(),
+  variant: z.string().nullable().optional(),
   expiresAt: ZRFC3339.nullable().optional(),
 });
 
 export type OverrideWrite = z.infer<typeof ZOverrideWrite>;
 export type OverrideOut = z.infer<typeof ZOverrideOut>;
 
+// Admin: GET /admin/flags/:key/overrides
+export const ZOverrideListQuery = z.object({
+  env: ZAppEnv.optional(),
+  scopeType: ZFlagOverrideScope.optional(),
+  cursor: ZCursor.optional(),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
+export const ZOverrideListItem = z.object({
+  scopeType: ZFlagOverrideScope,
+  scopeId: z.string(),
+  value: z.boolean(),
+  variant: z.string().nullable(),
+  expiresAt: ZRFC3339.nullable(),
+  updatedAt: ZRFC3339.nullable(),
+});
+
+// Admin: POST /admin/flags/:key/overrides/bulk
+export const ZOverrideBulkWrite = z.object({
+  env: ZAppEnv.optional(),
+  items: z
+    .array(
+      ZOverrideWrite.extend({
+        scopeType: ZFlagOverrideScope,
+        scopeId: z.string().min(1),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+export type OverrideListQuery = z.infer<typeof ZOverrideListQuery>;
+export type OverrideListItem = z.infer<typeof ZOverrideListItem>;
+export type OverrideBulkWrite = z.infer<typeof ZOverrideBulkWrite>;
+
 // Query for GET /flags/:key
 export const ZFlagGetQuery = z.object({ env: ZAppEnv.optional() });
 
@@ -0,0 +1,135 @@
+/**
+ * Flags Semver Matching
+ *
+ * Minimal semver support for `semver` targeting conditions. Ranges are
+ * `||`-separated sets of space-joined comparators using `>`, `>=`, `<`, `<=`,
+ * `=`, `^` and `~`; `*` or an empty set matches everything. Build metadata is
+ * ignored and `^`/`~` upper bounds exclude prereleases of the next version.
+ */
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+type Comparator = { op: '>' | '>=' | '<' | '<=' | '='; version: SemVer };
+
+const VERSION_RE =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const TOKEN_RE = /^(>=|<=|>|<|=|\^|~)?(.+)$/;
+
+export function parseSemver(input: string): SemVer | null {
+  const m = VERSION_RE.exec(input.trim());
+  if (!m) return null;
+  return {
+    major: Number(m[1]),
+    minor: Number(m[2] ?? 0),
+    patch: Number(m[3] ?? 0),
+    prerelease: m[4] ? m[4].split('.') : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts above any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const xNum = /^\d+$/.test(x);
+    const yNum = /^\d+$/.test(y);
+    if (xNum && yNum) {
+      const d = Number(x) - Number(y);
+      if (d !== 0) return d;
+    } else if (xNum !== yNum) {
+      return xNum ? -1 : 1;
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+export function compareSemver(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+function expandToken(token: string): Comparator[] | null {
+  const m = TOKEN_RE.exec(token);
+  if (!m) return null;
+  const version = parseSemver(m[2]!);
+  if (!version) return null;
+  const op = m[1] ?? '=';
+  if (op === '^' || op === '~') {
+    const upper: SemVer =
+      op === '~'
+        ? { major: version.major, minor: version.minor + 1, patch: 0, prerelease: ['0'] }
+        : version.major > 0
+          ? { major: version.major + 1, minor: 0, patch: 0, prerelease: ['0'] }
+          : version.minor > 0
+            ? { major: 0, minor: version.minor + 1, patch: 0, prerelease: ['0'] }
+            : { major: 0, minor: 0, patch: version.patch + 1, prerelease: ['0'] };
+    return [
+      { op: '>=', version },
+      { op: '<', version: upper },
+    ];
+  }
+  return [{ op: op as Comparator['op'], version }];
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+  for (const part of range.split('||')) {
+    const tokens = part
+      .trim()
+      .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .filter((t) => t && t !== '*');
+    const set: Comparator[] = [];
+    for (const token of tokens) {
+      const expanded = expandToken(token);
+      if (!expanded) return null;
+      set.push(...expanded);
+    }
+    sets.push(set);
+  }
+  return sets;
+}
+
+function comparatorOk(version: SemVer, c: Comparator): boolean {
+  const d = compareSemver(version, c.version);
+  switch (c.op) {
+    case '>':
+      return d > 0;
+    case '>=':
+      return d >= 0;
+    case '<':
+      return d < 0;
+    case '<=':
+      return d <= 0;
+    case '=':
+      return d === 0;
+  }
+}
+
+export function isSemverRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * True when `version` parses and satisfies any comparator set of `range`.
+ */
+export function satisfiesSemver(version: string, range: string): boolean {
+  const v = parseSemver(version);
+  const sets = parseRange(range);
+  if (!v || !sets) return false;
+  return sets.some((set) => set.every((c) => comparatorOk(v, c)));
+}
@@ -0,0 +1,146 @@
+/**
+ * Flags Experiment Statistics
+ *
+ * Pure helpers for experiment analysis: Wilson score intervals for conversion
+ * rates, a two-proportion z-test for variant vs control, and a chi-square
+ * goodness-of-fit test for sample ratio mismatch (SRM).
+ */
+
+export type Interval = { lower: number; upper: number };
+
+/** z for a two-sided 95% interval */
+export const Z_95 = 1.959963984540054;
+
+/**
+ * Wilson score interval for x successes out of n trials.
+ */
+export function wilsonInterval(x: number, n: number, z = Z_95): Interval {
+  if (n <= 0) return { lower: 0, upper: 0 };
+  const p = x / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return { lower: Math.max(0, center - half), upper: Math.min(1, center + half) };
+}
+
+// Abramowitz-Stegun 7.1.26 (max error ~1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return sign * y;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Compare treatment (x1/n1) against control (x2/n2): absolute difference with
+ * a 95% Wald interval and the two-sided p-value of a pooled z-test.
+ */
+export function twoProportionTest(
+  x1: number,
+  n1: number,
+  x2: number,
+  n2: number
+): { diff: number; ci: Interval; pValue: number } | null {
+  if (n1 <= 0 || n2 <= 0) return null;
+  const p1 = x1 / n1;
+  const p2 = x2 / n2;
+  const diff = p1 - p2;
+  const se = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2);
+  const pooled = (x1 + x2) / (n1 + n2);
+  const sePooled = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  const pValue = sePooled === 0 ? 1 : 2 * (1 - normalCdf(Math.abs(diff) / sePooled));
+  return { diff, ci: { lower: diff - Z_95 * se, upper: diff + Z_95 * se }, pValue };
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7)
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const xx = x - 1;
+  let a = c[0]!;
+  const t = xx + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i]! / (xx + i);
+  return 0.5 * Math.log(2 * Math.PI) + (xx + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x), via series for x < a + 1 and
+ * a continued fraction otherwise (Numerical Recipes 6.2).
+ */
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const lnPre = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let del = sum;
+    for (let n = 1; n < 500; n++) {
+      del *= x / (a + n);
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * 1e-14) break;
+    }
+    return 1 - sum * Math.exp(lnPre);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-14) break;
+  }
+  return Math.exp(lnPre) * h;
+}
+
+/** Upper-tail probability of the chi-square distribution. */
+export function chiSquarePValue(statistic: number, df: number): number {
+  if (df <= 0) return 1;
+  return Math.min(1, Math.max(0, gammaQ(df / 2, statistic / 2)));
+}
+
+/**
+ * Chi-square goodness-of-fit of observed counts against expected shares
+ * (normalised to sum to 1). Categories with a zero expected share are left
+ * out of both the statistic and the total.
+ */
+export function sampleRatioTest(
+  observed: number[],
+  expectedShares: number[]
+): { statistic: number; df: number; pValue: number } | null {
+  const shareSum = expectedShares.reduce((s, v) => s + v, 0);
+  const total = observed.reduce((s, v, i) => ((expectedShares[i] ?? 0) > 0 ? s + v : s), 0);
+  if (total <= 0 || shareSum <= 0) return null;
+  let statistic = 0;
+  let categories = 0;
+  observed.forEach((o, i) => {
+    const share = (expectedShares[i] ?? 0) / shareSum;
+    if (share <= 0) return;
+    const e = total * share;
+    statistic += ((o - e) * (o - e)) / e;
+    categories++;
+  });
+  const df = categories - 1;
+  if (df < 1) return null;
+  return { statistic, df, pValue: chiSquarePValue(statistic, df) };
+}
@@ -1,5 +1,6 @@
-import type { AppEnv } from "@unisane/kernel";
+import type { AppEnv, FlagEvalAttributeValue } from "@unisane/kernel";
 import type { PlanId } from "@unisane/kernel";
+import type { FlagPrerequisite, FlagValueType, FlagVariant, VariantAllocation } from "./schemas";
 
 export type EvaluateFlagsArgs = {
   env?: AppEnv;
@@ -10,9 +11,15 @@ export type EvaluateFlagsArgs = {
     email?: string;
     country?: string;
     plan?: string;
+    attributes?: EvalAttributes;
   };
 };
 
+// Custom targeting attributes populated by the app (membership role, user
+// creation date, app version, ...). Arrays match when any element does.
+export type EvalAttributeValue = FlagEvalAttributeValue;
+export type EvalAttributes = Record<string, EvalAttributeValue | undefined>;
+
 export type EvalCtx = {
   plan?: PlanId;
   userId?: string;
@@ -20,6 +27,7 @@ export type EvalCtx = {
   country?: string;
   email?: string;
   tenantTags?: string[];
+  attributes?: EvalAttributes;
   now?: Date;
 };
 
@@ -28,6 +36,11 @@ export type FlagRow = {
   key: string;
   enabledDefault: boolean;
   rules: unknown[];
+  valueType?: FlagValueType;
+  variants?: FlagVariant[];
+  defaultVariant?: string;
+  rollout?: VariantAllocation[];
+  prerequisites?: FlagPrerequisite[];
   snapshotVersion: number;
   updatedBy?: string | null;
   createdAt?: Date;
@@ -38,14 +51,31 @@ export type UpsertConflict = { conflict: true; expected: number };
 export type UpsertOk = { ok: true; flag: FlagRow | null };
 export type UpsertResult = UpsertConflict | UpsertOk;
 
-// Planned shape for granular overrides when implemented
+export type SegmentRow = {
+  env: string;
+  key: string;
+  name?: string;
+  description?: string;
+  conditions: unknown[];
+  snapshotVersion: number;
+  updatedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+export type SegmentUpsertResult = UpsertConflict | { ok: true; segment: SegmentRow | null };
+
+// Scoped override. Expired rows are ignored by evaluation and purged by the
+// flags.cleanupOverrides job.
 export type OverrideRow = {
   env: string;
   key: string;
   scopeType: "tenant" | "user";
   scopeId: string;
   value: boolean;
+  variant?: string | null;
   expiresAt?: Date | null;
+  updatedBy?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 };
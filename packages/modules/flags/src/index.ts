@@ -21,7 +21,7 @@ export { FlagNotFoundError, FlagDisabledError, InvalidFlagValueError } from './d
 // Domain - Constants
 // ════════════════════════════════════════════════════════════════════════════
 
-export { FLAGS_EVENTS, FLAGS_DEFAULTS, FLAGS_COLLECTIONS } from './domain/constants';
+export { FLAGS_EVENTS, FLAGS_DEFAULTS, FLAGS_COLLECTIONS, BOOLEAN_VARIANTS } from './domain/constants';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Domain - Cache Keys
@@ -40,16 +40,33 @@ export {
   setScopeOverride,
   clearScopeOverride,
   getScopeOverride,
-  isEnabledForScope,
   type OverrideScopeType,
 } from './service/overrides';
 export * from './service/evaluate';
+export {
+  getSegment,
+  listSegments,
+  writeSegment,
+  deleteSegment,
+} from './service/segments';
+export { satisfiesSemver, isSemverRange } from './domain/semver';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Services - Admin
 // ════════════════════════════════════════════════════════════════════════════
 
 export { getScopeOverrideCounts } from './service/admin/stats';
+export {
+  listFlagOverrides,
+  bulkSetFlagOverrides,
+  type ListFlagOverridesArgs,
+  type BulkSetFlagOverridesArgs,
+} from './service/admin/overrides';
+export {
+  getFlagDependencyGraph,
+  type GetFlagDependencyGraphArgs,
+} from './service/admin/dependencies';
+export { analyzeExperiment, type AnalyzeExperimentArgs } from './service/admin/experiments';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Data - Repository (for background jobs)
@@ -0,0 +1,65 @@
+import { getEnv, type AppEnv } from "@unisane/kernel";
+import { FlagsRepo } from "../../data/flags.repository";
+import type { FlagDependencyEdge, FlagDependencyGraph } from "../../domain/schemas";
+
+export type GetFlagDependencyGraphArgs = {
+  env?: AppEnv;
+  key?: string;
+};
+
+function reachable(start: string, next: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...(next.get(start) ?? [])];
+  while (queue.length > 0) {
+    const k = queue.shift()!;
+    if (seen.has(k)) continue;
+    seen.add(k);
+    queue.push(...(next.get(k) ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Admin: prerequisite graph of an env. With `key`, the graph is narrowed to
+ * that flag, its transitive prerequisites and its transitive dependents, and
+ * `dependents` lists every flag that flipping `key` can switch off.
+ */
+export async function getFlagDependencyGraph(
+  args: GetFlagDependencyGraphArgs
+): Promise<FlagDependencyGraph> {
+  const env = args.env ?? getEnv().APP_ENV;
+  const rows = await FlagsRepo.listWithPrerequisites(env);
+  let edges: FlagDependencyEdge[] = rows.flatMap((r) =>
+    r.prerequisites.map((p) => ({
+      flag: r.key,
+      prerequisite: p.key,
+      ...(p.variants?.length ? { variants: p.variants } : {}),
+    }))
+  );
+
+  let dependents: string[] | undefined;
+  if (args.key) {
+    const requires = new Map<string, string[]>();
+    const requiredBy = new Map<string, string[]>();
+    for (const e of edges) {
+      requires.set(e.flag, [...(requires.get(e.flag) ?? []), e.prerequisite]);
+      requiredBy.set(e.prerequisite, [...(requiredBy.get(e.prerequisite) ?? []), e.flag]);
+    }
+    const down = reachable(args.key, requiredBy);
+    const up = reachable(args.key, requires);
+    const keep = new Set([args.key, ...down, ...up]);
+    edges = edges.filter((e) => keep.has(e.flag) && keep.has(e.prerequisite));
+    dependents = [...down].sort();
+  }
+
+  const nodes = new Set<string>(args.key ? [args.key] : []);
+  for (const e of edges) {
+    nodes.add(e.flag);
+    nodes.add(e.prerequisite);
+  }
+  return {
+    nodes: [...nodes].sort(),
+    edges,
+    ...(dependents ? { dependents } : {}),
+  };
+}
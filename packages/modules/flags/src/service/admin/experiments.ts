@@ -0,0 +1,257 @@
+import {
+  getEnv,
+  getUsageProvider,
+  hasUsageProvider,
+  isEventStoreEnabled,
+  queryEventStore,
+  type AppEnv,
+} from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { ExposuresRepo } from "../../data/exposures.repository";
+import { getFlag } from "../get";
+import { FlagNotFoundError } from "../../domain/errors";
+import { BOOLEAN_VARIANTS, FLAGS_DEFAULTS } from "../../domain/constants";
+import { sampleRatioTest, twoProportionTest, wilsonInterval } from "../../domain/stats";
+import type {
+  ExperimentAnalysis,
+  ExperimentQuery,
+  ExperimentVariantResult,
+} from "../../domain/schemas";
+
+export type AnalyzeExperimentArgs = Omit<ExperimentQuery, "unit"> & {
+  key: string;
+  unit?: ExperimentQuery["unit"];
+};
+
+// Overridden and prerequisite-gated subjects were not randomised
+const EXPERIMENT_REASONS = ["rule_match", "default"];
+const EVENT_PAGE_SIZE = 1000;
+const HOUR_MS = 3_600_000;
+
+type FirstExposure = { subjectId: string; variant: string; at: Date; variants: string[] };
+
+/**
+ * Latest usage hour per tenant. Usage is rolled up hourly, so a conversion in
+ * the hour of first exposure counts.
+ */
+async function lastUsageConversions(
+  subjects: FirstExposure[],
+  metric: string,
+  from: Date,
+  to: Date
+): Promise<Map<string, Date>> {
+  const provider = hasUsageProvider() ? getUsageProvider() : null;
+  if (!provider?.getLastUsageByScope) {
+    throw ERR.misconfigured("Usage provider does not support per-scope lookups");
+  }
+  return provider.getLastUsageByScope({
+    scopeIds: subjects.map((s) => s.subjectId),
+    metric,
+    from: new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS),
+    to,
+  });
+}
+
+function eventSubject(
+  event: { payload: unknown; meta: { scopeId?: string; scopeType?: string } },
+  unit: "user" | "tenant"
+): string | undefined {
+  if (unit === "tenant") return event.meta.scopeId;
+  const payload = event.payload as { userId?: unknown } | null;
+  if (typeof payload?.userId === "string") return payload.userId;
+  return event.meta.scopeType === "user" ? event.meta.scopeId : undefined;
+}
+
+/**
+ * Latest occurrence per subject of a domain event type in the event store.
+ */
+async function lastEventConversions(
+  subjects: FirstExposure[],
+  metric: string,
+  unit: "user" | "tenant",
+  from: Date,
+  to: Date
+): Promise<Map<string, Date>> {
+  if (!isEventStoreEnabled()) {
+    throw ERR.misconfigured("Event store is not configured");
+  }
+  const wanted = new Set(subjects.map((s) => s.subjectId));
+  const out = new Map<string, Date>();
+  let fromSequence: number | undefined;
+  for (;;) {
+    const page = await queryEventStore({
+      types: [metric],
+      since: from,
+      until: to,
+      order: "asc",
+      limit: EVENT_PAGE_SIZE,
+      ...(fromSequence !== undefined ? { fromSequence } : {}),
+    });
+    for (const e of page) {
+      const id = eventSubject(e, unit);
+      if (!id || !wanted.has(id)) continue;
+      const at = new Date(e.meta.timestamp);
+      const prev = out.get(id);
+      if (!prev || at > prev) out.set(id, at);
+    }
+    if (page.length < EVENT_PAGE_SIZE) break;
+    fromSequence = page[page.length - 1]!.sequence + 1;
+  }
+  return out;
+}
+
+/**
+ * Admin: conversion analysis of a flag experiment.
+ *
+ * Subjects are attributed to the first variant they were served by targeting
+ * (rule or default) in the window; overrides and prerequisite gating are not
+ * randomised and are excluded. A subject converts when the metric fires for
+ * it after first exposure. Each variant reports its conversion rate with a
+ * Wilson 95% interval and, against control, the absolute lift with a 95%
+ * interval and two-sided p-value. Observed allocation is checked against the
+ * flag's rollout weights for sample ratio mismatch.
+ */
+export async function analyzeExperiment(args: AnalyzeExperimentArgs): Promise<ExperimentAnalysis> {
+  const env: AppEnv = args.env ?? getEnv().APP_ENV;
+  const unit = args.unit ?? "tenant";
+  if (args.metricSource === "usage" && unit !== "tenant") {
+    throw ERR.validation("Usage metrics are tracked per tenant", [
+      { field: "unit", message: 'Use unit "tenant" with usage metrics' },
+    ]);
+  }
+  const flag = await getFlag({ env, key: args.key });
+  if (!flag) throw new FlagNotFoundError(args.key);
+
+  const to = args.to ? new Date(args.to) : new Date();
+  const from = args.from
+    ? new Date(args.from)
+    : new Date(to.getTime() - FLAGS_DEFAULTS.EXPERIMENT_WINDOW_DAYS * 24 * HOUR_MS);
+  if (from >= to) {
+    throw ERR.validation("Invalid experiment window", [
+      { field: "from", message: "from must be before to" },
+    ]);
+  }
+
+  const limit = FLAGS_DEFAULTS.EXPERIMENT_MAX_SUBJECTS;
+  const subjects = await ExposuresRepo.listFirstExposures({
+    env,
+    flagKey: args.key,
+    from,
+    to,
+    unit,
+    reasons: EXPERIMENT_REASONS,
+    limit: limit + 1,
+  });
+  const truncated = subjects.length > limit;
+  if (truncated) subjects.length = limit;
+
+  const lastConversion =
+    subjects.length === 0
+      ? new Map<string, Date>()
+      : args.metricSource === "usage"
+        ? await lastUsageConversions(subjects, args.metric, from, to)
+        : await lastEventConversions(subjects, args.metric, unit, from, to);
+
+  const isBoolean = (flag.valueType ?? "boolean") === "boolean";
+  const declared = isBoolean
+    ? [BOOLEAN_VARIANTS.ON, BOOLEAN_VARIANTS.OFF]
+    : (flag.variants ?? []).map((v) => v.key);
+  const counts = new Map<string, { exposed: number; converted: number }>(
+    declared.map((k) => [k, { exposed: 0, converted: 0 }])
+  );
+  let mixed = 0;
+  for (const s of subjects) {
+    if (s.variants.length > 1) mixed++;
+    const c = counts.get(s.variant) ?? { exposed: 0, converted: 0 };
+    c.exposed++;
+    const last = lastConversion.get(s.subjectId);
+    const threshold =
+      args.metricSource === "usage" ? Math.floor(s.at.getTime() / HOUR_MS) * HOUR_MS : s.at.getTime();
+    if (last && last.getTime() >= threshold) c.converted++;
+    counts.set(s.variant, c);
+  }
+
+  const control =
+    args.control ?? flag.defaultVariant ?? (isBoolean ? BOOLEAN_VARIANTS.OFF : declared[0] ?? "");
+  if (!counts.has(control)) {
+    throw ERR.validation(`Unknown control variant "${control}" for flag ${args.key}`, [
+      { field: "control", message: "Control must be a variant of the flag" },
+    ]);
+  }
+
+  const weights = new Map((flag.rollout ?? []).map((a) => [a.variant, a.weight]));
+  const weightSum = [...weights.values()].reduce((s, w) => s + w, 0);
+  const total = subjects.length;
+  const base = counts.get(control)!;
+
+  const variants: ExperimentVariantResult[] = [...counts.entries()].map(([variant, c]) => {
+    const rate = c.exposed > 0 ? c.converted / c.exposed : 0;
+    const test =
+      variant === control ? null : twoProportionTest(c.converted, c.exposed, base.converted, base.exposed);
+    const baseRate = base.exposed > 0 ? base.converted / base.exposed : 0;
+    return {
+      variant,
+      exposed: c.exposed,
+      converted: c.converted,
+      conversionRate: rate,
+      ci: wilsonInterval(c.converted, c.exposed),
+      expectedShare: weightSum > 0 ? (weights.get(variant) ?? 0) / weightSum : null,
+      observedShare: total > 0 ? c.exposed / total : 0,
+      lift: test
+        ? {
+            absolute: test.diff,
+            relative: baseRate > 0 ? test.diff / baseRate : null,
+            ci: test.ci,
+            pValue: test.pValue,
+          }
+        : null,
+    };
+  });
+
+  const warnings: string[] = [];
+  let srm: ExperimentAnalysis["srm"] = null;
+  if (weightSum > 0) {
+    const res = sampleRatioTest(
+      variants.map((v) => v.exposed),
+      variants.map((v) => v.expectedShare ?? 0)
+    );
+    if (res) {
+      const mismatch = res.pValue < FLAGS_DEFAULTS.EXPERIMENT_SRM_P_VALUE;
+      srm = { statistic: res.statistic, pValue: res.pValue, mismatch };
+      if (mismatch) {
+        warnings.push(
+          `Sample ratio mismatch (p=${res.pValue.toExponential(2)}): observed allocation differs from rollout weights`
+        );
+      }
+    }
+  } else {
+    warnings.push("Flag has no rollout weights; sample ratio mismatch was not checked");
+  }
+  if (mixed > 0) {
+    warnings.push(`${mixed} subject(s) saw more than one variant and were counted in their first`);
+  }
+  const small = variants.filter(
+    (v) => (v.expectedShare === null || v.expectedShare > 0) && v.exposed < FLAGS_DEFAULTS.EXPERIMENT_MIN_SAMPLE
+  );
+  if (small.length > 0) {
+    warnings.push(`Low sample size for: ${small.map((v) => v.variant).join(", ")}`);
+  }
+  if (truncated) {
+    warnings.push(`Analysis limited to ${limit} subjects`);
+  }
+
+  return {
+    flagKey: args.key,
+    env,
+    unit,
+    metric: { source: args.metricSource, name: args.metric },
+    from: from.toISOString(),
+    to: to.toISOString(),
+    control,
+    totalExposed: total,
+    variants,
+    srm,
+    warnings,
+    truncated,
+  };
+}
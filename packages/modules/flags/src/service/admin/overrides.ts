@@ -0,0 +1,94 @@
+import { getEnv, type AppEnv } from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { OverridesRepo } from "../../data/overrides.repository";
+import { getFlag } from "../get";
+import { setScopeOverride, type OverrideScopeType } from "../overrides";
+import type { OverrideBulkWrite, OverrideListItem } from "../../domain/schemas";
+
+export type ListFlagOverridesArgs = {
+  env?: AppEnv;
+  key: string;
+  scopeType?: OverrideScopeType;
+  limit: number;
+  cursor?: string;
+};
+
+/**
+ * Admin: list active (non-expired) tenant and user overrides of a flag.
+ */
+export async function listFlagOverrides(args: ListFlagOverridesArgs) {
+  const env = args.env ?? getEnv().APP_ENV;
+  const { items, nextCursor } = await OverridesRepo.listActiveByFlag({
+    env,
+    key: args.key,
+    ...(args.scopeType ? { scopeType: args.scopeType } : {}),
+    limit: args.limit,
+    ...(args.cursor ? { cursor: args.cursor } : {}),
+  });
+  const rows: OverrideListItem[] = items.map((o) => ({
+    scopeType: o.scopeType,
+    scopeId: o.scopeId,
+    value: o.value,
+    variant: o.variant ?? null,
+    expiresAt: o.expiresAt ? o.expiresAt.toISOString() : null,
+    updatedAt: o.updatedAt ? o.updatedAt.toISOString() : null,
+  }));
+  return { items: rows, ...(nextCursor ? { nextCursor } : {}) };
+}
+
+export type BulkSetFlagOverridesArgs = {
+  env?: AppEnv;
+  key: string;
+  items: OverrideBulkWrite["items"];
+  actorId?: string;
+};
+
+/**
+ * Admin: set many tenant/user overrides of one flag in a single call.
+ *
+ * All items are validated before any write so a bad row does not leave the
+ * batch half-applied. Each write emits its own `flags.override.set` event.
+ */
+export async function bulkSetFlagOverrides(args: BulkSetFlagOverridesArgs) {
+  const env = args.env ?? getEnv().APP_ENV;
+  const now = Date.now();
+  const seen = new Set<string>();
+  const flag = await getFlag({ env, key: args.key });
+  const variants = new Set((flag?.variants ?? []).map((v) => v.key));
+  args.items.forEach((item, i) => {
+    const id = `${item.scopeType}:${item.scopeId}`;
+    if (seen.has(id)) {
+      throw ERR.validation(`Duplicate override for ${id}`, [
+        { field: `items.${i}`, message: "Duplicate scope" },
+      ]);
+    }
+    seen.add(id);
+    if (item.expiresAt && new Date(item.expiresAt).getTime() <= now) {
+      throw ERR.validation("Override expiry must be in the future", [
+        { field: `items.${i}.expiresAt`, message: "Must be in the future" },
+      ]);
+    }
+    if (item.variant !== undefined && (!item.value || !variants.has(item.variant))) {
+      throw ERR.validation(`Invalid variant "${item.variant}" for flag ${args.key}`, [
+        { field: `items.${i}.variant`, message: "Unknown variant or value is false" },
+      ]);
+    }
+  });
+
+  for (const item of args.items) {
+    await setScopeOverride({
+      env,
+      key: args.key,
+      scopeType: item.scopeType,
+      scopeId: item.scopeId,
+      value: item.value,
+      ...(item.variant !== undefined ? { variant: item.variant } : {}),
+      ...(item.expiresAt !== undefined
+        ? { expiresAt: item.expiresAt ? new Date(item.expiresAt) : null }
+        : {}),
+      ...(args.actorId ? { actorId: args.actorId } : {}),
+      actorIsSuperAdmin: true,
+    });
+  }
+  return { ok: true as const, count: args.items.length };
+}
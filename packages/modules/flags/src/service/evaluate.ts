@@ -1,26 +1,93 @@
-import { isEnabledForScope } from "./overrides";
+import { evaluateTargetingForScope, toEvaluable, type ScopeEvalArgs } from "./overrides";
+import { getFlag } from "./get";
+import { evaluateForcedState, type FlagEvaluation } from "./evaluator";
 import { ExposuresRepo } from "../data/exposures.repository";
 import { getEnv, logger, metrics, type AppEnv } from "@unisane/kernel";
 import { z } from "zod";
 import type { EvaluateFlagsArgs, EvalCtx } from "../domain/types";
+import type {
+  FlagEvaluationOut,
+  FlagEvaluationReason,
+  FlagPrerequisite,
+} from "../domain/schemas";
 
 export type { EvaluateFlagsArgs };
 
+// Writes reject cycles; the depth cap only guards against stale data.
+const MAX_PREREQUISITE_DEPTH = 10;
+
+function prerequisiteMet(pre: FlagPrerequisite, parent: FlagEvaluation): boolean {
+  return pre.variants?.length ? pre.variants.includes(parent.variant) : parent.enabled;
+}
+
+/**
+ * Evaluate a flag after its prerequisites. Each prerequisite is evaluated for
+ * the same subject (overrides included); if any is unmet the flag is served
+ * off with reason `prerequisite_failed`, ahead of its own overrides and rules.
+ * `memo` shares parent results across the flags of one request.
+ */
+async function evaluateWithPrerequisites(
+  args: ScopeEvalArgs & { env: AppEnv },
+  memo: Map<string, FlagEvaluation>,
+  path: string[] = []
+): Promise<FlagEvaluation> {
+  const cached = memo.get(args.key);
+  if (cached) return cached;
+  const ctx = args.ctx ?? {};
+  const row = await getFlag({ env: args.env, key: args.key });
+  let result: FlagEvaluation | null = null;
+  for (const pre of row?.prerequisites ?? []) {
+    const chain = [...path, args.key];
+    const parent =
+      chain.includes(pre.key) || chain.length > MAX_PREREQUISITE_DEPTH
+        ? null
+        : await evaluateWithPrerequisites({ ...args, key: pre.key }, memo, chain);
+    if (!parent || !prerequisiteMet(pre, parent)) {
+      result = evaluateForcedState(row ? toEvaluable(row) : null, false, ctx, "prerequisite_failed");
+      break;
+    }
+  }
+  result ??= await evaluateTargetingForScope(args);
+  memo.set(args.key, result);
+  return result;
+}
+
+/**
+ * Evaluate a flag for a subject, returning the served variant and payload.
+ * Checks prerequisites, then user override, scope override and rules / default.
+ */
+export async function evaluateForScope(args: ScopeEvalArgs): Promise<FlagEvaluation> {
+  const env = args.env ?? getEnv().APP_ENV;
+  return evaluateWithPrerequisites({ ...args, env }, new Map());
+}
+
+/**
+ * Check if a flag is enabled for a subject (checks prerequisites, user override, then scope override, then rules)
+ */
+export async function isEnabledForScope(args: ScopeEvalArgs) {
+  const res = await evaluateForScope(args);
+  return res.enabled;
+}
+
+type ExposureRecord = {
+  env: AppEnv;
+  flagKey: string;
+  value: boolean;
+  variant?: string;
+  reason: FlagEvaluationReason;
+  ruleIndex?: number;
+  userId?: string;
+  tenantId?: string;
+  timestamp: string;
+};
+
 /**
  * FLAG-002 FIX: Exposure logging port interface.
  * Allows injection of custom exposure logging implementations for testing
  * or alternative storage backends (e.g., analytics service, BigQuery).
  */
 export interface ExposureLogger {
-  logBatch(exposures: Array<{
-    env: AppEnv;
-    flagKey: string;
-    value: boolean;
-    reason: "evaluation" | "rule_match" | "target_match" | "default" | "user_override" | "tenant_override";
-    userId?: string;
-    tenantId?: string;
-    timestamp: string;
-  }>): Promise<void>;
+  logBatch(exposures: ExposureRecord[]): Promise<void>;
 }
 
 /**
@@ -75,23 +142,21 @@ const ZEvaluateFlagsArgs = z.object({
     email: z.string().optional(),
     country: z.string().optional(),
     plan: z.string().optional(),
+    attributes: z
+      .record(
+        z.union([
+          z.string(),
+          z.number(),
+          z.boolean(),
+          z.null(),
+          z.array(z.union([z.string(), z.number()])),
+        ])
+      )
+      .optional(),
   }).optional().default({}),
 });
 
-/**
- * FLAG-001 FIX: Evaluate multiple flags with batched exposure logging.
- *
- * **N+1 Mitigation:**
- * - Flag evaluations still run in parallel (inherent to flag system design)
- * - Exposure logging is batched into a single write operation
- * - This reduces DB writes from N to 1 for exposure tracking
- *
- * Note: Full N+1 fix for `isEnabledForScope` would require a batch override lookup,
- * which is a larger refactor. This fix focuses on the exposure logging bottleneck.
- *
- * ROUTE-004 FIX: Added Zod validation for input arguments.
- */
-export async function evaluateFlags(args: EvaluateFlagsArgs) {
+function parseEvaluateArgs(args: EvaluateFlagsArgs) {
   // ROUTE-004 FIX: Validate input with Zod
   const parsed = ZEvaluateFlagsArgs.safeParse(args);
   if (!parsed.success) {
@@ -101,10 +166,19 @@ export async function evaluateFlags(args: EvaluateFlagsArgs) {
     (err as Error & { code: string }).code = "VALIDATION_ERROR";
     throw err;
   }
-  const validatedArgs = parsed.data;
+  return parsed.data;
+}
+
+/**
+ * Evaluate every requested key and batch-log one exposure per flag.
+ */
+async function evaluateAll(
+  args: EvaluateFlagsArgs
+): Promise<Record<string, FlagEvaluationOut>> {
+  const validatedArgs = parseEvaluateArgs(args);
 
   const env: AppEnv = validatedArgs.env ?? getEnv().APP_ENV;
-  const results: Record<string, boolean> = {};
+  const results: Record<string, FlagEvaluationOut> = {};
   const timestamp = new Date().toISOString();
 
   // Build shared context once
@@ -113,38 +187,40 @@ export async function evaluateFlags(args: EvaluateFlagsArgs) {
     ...(args.context.tenantId ? { tenantId: args.context.tenantId } : {}),
     ...(args.context.email ? { email: args.context.email } : {}),
     ...(args.context.country ? { country: args.context.country } : {}),
+    ...(validatedArgs.context.attributes
+      ? { attributes: validatedArgs.context.attributes }
+      : {}),
   };
 
   // FLAG-001 FIX: Collect exposures for batch logging
-  const exposures: Array<{
-    env: AppEnv;
-    flagKey: string;
-    value: boolean;
-    reason: "evaluation" | "rule_match" | "target_match" | "default" | "user_override" | "tenant_override";
-    userId?: string;
-    tenantId?: string;
-    timestamp: string;
-  }> = [];
+  const exposures: ExposureRecord[] = [];
+  // Prerequisite results shared across the requested keys
+  const memo = new Map<string, FlagEvaluation>();
 
   // Evaluate all flags in parallel
   await Promise.all(
     args.keys.map(async (key) => {
-      const value = await isEnabledForScope({
-        env,
-        key,
-        scopeId: args.context.tenantId ?? "anon",
-        ...(args.context.userId ? { userId: args.context.userId } : {}),
-        ctx,
-      });
+      const evaluation = await evaluateWithPrerequisites(
+        {
+          env,
+          key,
+          scopeId: args.context.tenantId ?? "anon",
+          ...(args.context.userId ? { userId: args.context.userId } : {}),
+          ctx,
+        },
+        memo
+      );
 
-      results[key] = value;
+      results[key] = evaluation;
 
       // Collect exposure for batch logging
       exposures.push({
         env,
         flagKey: key,
-        value,
-        reason: "evaluation",
+        value: evaluation.enabled,
+        variant: evaluation.variant,
+        reason: evaluation.reason,
+        ...(evaluation.ruleIndex !== undefined ? { ruleIndex: evaluation.ruleIndex } : {}),
         userId: args.context.userId,
         tenantId: args.context.tenantId,
         timestamp,
@@ -168,3 +244,34 @@ export async function evaluateFlags(args: EvaluateFlagsArgs) {
 
   return results;
 }
+
+/**
+ * FLAG-001 FIX: Evaluate multiple flags with batched exposure logging.
+ *
+ * **N+1 Mitigation:**
+ * - Flag evaluations still run in parallel (inherent to flag system design)
+ * - Exposure logging is batched into a single write operation
+ * - This reduces DB writes from N to 1 for exposure tracking
+ *
+ * Note: Full N+1 fix for `isEnabledForScope` would require a batch override lookup,
+ * which is a larger refactor. This fix focuses on the exposure logging bottleneck.
+ *
+ * ROUTE-004 FIX: Added Zod validation for input arguments.
+ */
+export async function evaluateFlags(args: EvaluateFlagsArgs) {
+  const evaluations = await evaluateAll(args);
+  const results: Record<string, boolean> = {};
+  for (const [key, evaluation] of Object.entries(evaluations)) {
+    results[key] = evaluation.enabled;
+  }
+  return results;
+}
+
+/**
+ * Evaluate multiple flags and return the served variant key and payload for
+ * each, for multi-variant and JSON-valued flags. Boolean flags report the
+ * implicit `on`/`off` variants.
+ */
+export async function evaluateFlagVariants(args: EvaluateFlagsArgs) {
+  return evaluateAll(args);
+}
@@ -1,15 +1,34 @@
 import crypto from "node:crypto";
-import type { z } from "zod";
 import type {
+  AttributeCondition,
+  FlagEvaluationOut,
+  FlagValue,
   FlagWrite,
-  ZRuleCondition,
+  RuleCondition,
+  VariantAllocation,
 } from "../domain/schemas";
 import type { EvalCtx } from "../domain/types";
+import { BOOLEAN_VARIANTS } from "../domain/constants";
+import { satisfiesSemver } from "../domain/semver";
 
-type RuleCond = z.infer<typeof ZRuleCondition>;
+type RuleCond = RuleCondition;
 
 export type { EvalCtx };
 
+/** Resolved segment definitions by key, loaded before evaluation. */
+export type SegmentMap = ReadonlyMap<string, readonly RuleCondition[]>;
+
+const NO_SEGMENTS: SegmentMap = new Map();
+
+/**
+ * Flag definition as needed for evaluation. Both `FlagWrite` and stored
+ * `FlagRow`s (after rule casting) satisfy this shape.
+ */
+export type EvaluableFlag = Pick<FlagWrite, "key" | "enabledDefault" | "rules"> &
+  Partial<Pick<FlagWrite, "valueType" | "variants" | "defaultVariant" | "rollout">>;
+
+export type FlagEvaluation = FlagEvaluationOut;
+
 function hashToPercent(seed: string): number {
   const h = crypto.createHash("sha1").update(seed).digest();
   // Use first 4 bytes to compute a number 0..99
@@ -23,7 +42,133 @@ function emailDomain(email?: string) {
   return idx >= 0 ? email.slice(idx + 1).toLowerCase() : null;
 }
 
-function condOk(cond: RuleCond, ctx: EvalCtx): boolean {
+function builtinAttribute(ctx: EvalCtx, key: string): unknown {
+  switch (key) {
+    case "plan":
+      return ctx.plan;
+    case "userId":
+      return ctx.userId;
+    case "tenantId":
+      return ctx.tenantId;
+    case "country":
+      return ctx.country;
+    case "email":
+      return ctx.email;
+    case "tenantTags":
+      return ctx.tenantTags;
+    default:
+      return undefined;
+  }
+}
+
+function attributeValues(ctx: EvalCtx, key: string): unknown[] {
+  const raw = ctx.attributes?.[key] ?? builtinAttribute(ctx, key);
+  if (raw === undefined || raw === null) return [];
+  return Array.isArray(raw) ? raw : [raw];
+}
+
+function scalarEquals(actual: unknown, expected: string | number | boolean): boolean {
+  if (actual instanceof Date) return actual.getTime() === Date.parse(String(expected));
+  return actual === expected;
+}
+
+function toComparable(actual: unknown, asTime: boolean): number {
+  if (asTime) {
+    if (actual instanceof Date) return actual.getTime();
+    if (typeof actual === "string") return Date.parse(actual);
+    return typeof actual === "number" ? actual : NaN;
+  }
+  if (typeof actual === "number") return actual;
+  if (typeof actual === "string" && actual.trim() !== "") return Number(actual);
+  return NaN;
+}
+
+// Compiled regex cache; patterns come from a bounded set of flag definitions.
+const regexCache = new Map<string, RegExp>();
+const REGEX_CACHE_MAX = 500;
+
+function compileRegex(pattern: string, ignoreCase?: boolean): RegExp | null {
+  const cacheKey = `${ignoreCase ? "i" : ""}/${pattern}`;
+  const hit = regexCache.get(cacheKey);
+  if (hit) return hit;
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, ignoreCase ? "i" : "");
+  } catch {
+    return null;
+  }
+  if (regexCache.size >= REGEX_CACHE_MAX) regexCache.clear();
+  regexCache.set(cacheKey, re);
+  return re;
+}
+
+function attributeOk(cond: AttributeCondition, ctx: EvalCtx): boolean {
+  const values = attributeValues(ctx, cond.attribute);
+  if (values.length === 0) return false;
+  switch (cond.op) {
+    case "eq":
+      return values.some((v) => scalarEquals(v, cond.value));
+    case "neq":
+      return !values.some((v) => scalarEquals(v, cond.value));
+    case "in":
+      return values.some((v) => cond.values.some((c) => scalarEquals(v, c)));
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const asTime = typeof cond.value === "string";
+      const target = asTime ? Date.parse(cond.value as string) : (cond.value as number);
+      return values.some((v) => {
+        const n = toComparable(v, asTime);
+        if (Number.isNaN(n) || Number.isNaN(target)) return false;
+        if (cond.op === "gt") return n > target;
+        if (cond.op === "gte") return n >= target;
+        if (cond.op === "lt") return n < target;
+        return n <= target;
+      });
+    }
+    case "semver":
+      return values.some((v) => typeof v === "string" && satisfiesSemver(v, cond.range));
+    case "regex": {
+      const re = compileRegex(cond.pattern, cond.ignoreCase);
+      return !!re && values.some((v) => typeof v === "string" && re.test(v));
+    }
+  }
+}
+
+/**
+ * Segment keys referenced anywhere in a list of conditions (including groups).
+ */
+export function segmentRefsOf(conds: readonly RuleCond[]): string[] {
+  const refs = new Set<string>();
+  const walk = (c: RuleCond) => {
+    if ("segment" in c) refs.add(c.segment);
+    else if ("not" in c) walk(c.not);
+    else if ("any" in c) c.any.forEach(walk);
+    else if ("all" in c) c.all.forEach(walk);
+  };
+  conds.forEach(walk);
+  return [...refs];
+}
+
+/**
+ * Segment keys referenced by a flag's rules.
+ */
+export function collectSegmentRefs(rules: EvaluableFlag["rules"]): string[] {
+  return [...new Set(rules.flatMap((r) => segmentRefsOf(r.if)))];
+}
+
+function condOk(cond: RuleCond, ctx: EvalCtx, segments: SegmentMap): boolean {
+  if ("attribute" in cond) return attributeOk(cond, ctx);
+  if ("segment" in cond) {
+    // Segments cannot nest, so their own conditions see no segments; unknown
+    // (e.g. deleted) segments never match.
+    const conds = segments.get(cond.segment);
+    return !!conds && conds.every((c) => condOk(c, ctx, NO_SEGMENTS));
+  }
+  if ("not" in cond) return !condOk(cond.not, ctx, segments);
+  if ("any" in cond) return cond.any.some((c) => condOk(c, ctx, segments));
+  if ("all" in cond) return cond.all.every((c) => condOk(c, ctx, segments));
   if ("planIn" in cond) return !!ctx.plan && cond.planIn.includes(ctx.plan);
   if ("countryIn" in cond)
     return (
@@ -56,17 +201,127 @@ function condOk(cond: RuleCond, ctx: EvalCtx): boolean {
   return false;
 }
 
-export function applyThen(flag: FlagWrite, ctx: EvalCtx): boolean {
-  // Default value
-  let value = flag.enabledDefault;
-  for (const rule of flag.rules) {
-    const all = rule.if.every((c) => condOk(c as RuleCond, ctx));
-    if (all) {
-      value = rule.then.value;
-      break;
+function isVariantFlag(flag: EvaluableFlag): boolean {
+  return (flag.variants?.length ?? 0) > 0;
+}
+
+function variantValue(flag: EvaluableFlag, variant: string): FlagValue {
+  return flag.variants?.find((v) => v.key === variant)?.value ?? null;
+}
+
+/**
+ * Pick a variant from a weighted allocation using sticky bucketing.
+ * The flag key salts the hash so experiments bucket independently.
+ */
+export function pickAllocation(
+  flagKey: string,
+  allocations: VariantAllocation[],
+  ctx: EvalCtx
+): string | null {
+  const subject = ctx.userId ?? ctx.tenantId ?? "anon";
+  const bucket = hashToPercent(`${flagKey}:${subject}`);
+  let acc = 0;
+  for (const a of allocations) {
+    acc += a.weight;
+    if (bucket < acc) return a.variant;
+  }
+  return null;
+}
+
+function serveOff(flag: EvaluableFlag): Pick<FlagEvaluation, "variant" | "value"> {
+  if (!isVariantFlag(flag)) return { variant: BOOLEAN_VARIANTS.OFF, value: false };
+  const variant = flag.defaultVariant ?? flag.variants![0]!.key;
+  return { variant, value: variantValue(flag, variant) };
+}
+
+function serveOn(
+  flag: EvaluableFlag,
+  ctx: EvalCtx,
+  allocations?: VariantAllocation[]
+): Pick<FlagEvaluation, "variant" | "value"> {
+  if (!isVariantFlag(flag)) return { variant: BOOLEAN_VARIANTS.ON, value: true };
+  const picked = allocations?.length
+    ? pickAllocation(flag.key, allocations, ctx)
+    : null;
+  if (picked) return { variant: picked, value: variantValue(flag, picked) };
+  return serveOff(flag);
+}
+
+/**
+ * Evaluate a flag definition against a context.
+ *
+ * Boolean flags serve the implicit `on`/`off` variants. Variant flags serve
+ * the matched rule's variant or rollout; when no rule matches, an enabled flag
+ * serves its rollout (falling back to `defaultVariant`) and a disabled flag
+ * serves `defaultVariant`. Segment conditions are resolved from `segments`.
+ */
+export function evaluateFlag(
+  flag: EvaluableFlag,
+  ctx: EvalCtx,
+  segments: SegmentMap = NO_SEGMENTS
+): FlagEvaluation {
+  for (const [ruleIndex, rule] of flag.rules.entries()) {
+    const all = rule.if.every((c) => condOk(c, ctx, segments));
+    if (!all) continue;
+    const then = rule.then;
+    if ("variant" in then) {
+      return {
+        enabled: true,
+        variant: then.variant,
+        value: variantValue(flag, then.variant),
+        reason: "rule_match",
+        ruleIndex,
+      };
+    }
+    if ("rollout" in then) {
+      return { enabled: true, ...serveOn(flag, ctx, then.rollout), reason: "rule_match", ruleIndex };
     }
+    return {
+      enabled: then.value,
+      ...(then.value ? serveOn(flag, ctx, flag.rollout) : serveOff(flag)),
+      reason: "rule_match",
+      ruleIndex,
+    };
   }
-  return value;
+  return {
+    enabled: flag.enabledDefault,
+    ...(flag.enabledDefault ? serveOn(flag, ctx, flag.rollout) : serveOff(flag)),
+    reason: "default",
+  };
+}
+
+/**
+ * Serve a flag whose on/off state was decided outside its rules (overrides).
+ * A missing definition behaves as a boolean flag. A pinned variant wins over
+ * the rollout when it still exists on the flag.
+ */
+export function evaluateForcedState(
+  flag: EvaluableFlag | null,
+  enabled: boolean,
+  ctx: EvalCtx,
+  reason: FlagEvaluation["reason"],
+  pinnedVariant?: string | null
+): FlagEvaluation {
+  if (!flag) {
+    return {
+      enabled,
+      variant: enabled ? BOOLEAN_VARIANTS.ON : BOOLEAN_VARIANTS.OFF,
+      value: enabled,
+      reason,
+    };
+  }
+  if (enabled && pinnedVariant && flag.variants?.some((v) => v.key === pinnedVariant)) {
+    return { enabled, variant: pinnedVariant, value: variantValue(flag, pinnedVariant), reason };
+  }
+  return {
+    enabled,
+    ...(enabled ? serveOn(flag, ctx, flag.rollout) : serveOff(flag)),
+    reason,
+  };
+}
+
+export function applyThen(flag: EvaluableFlag, ctx: EvalCtx): boolean {
+  return evaluateFlag(flag, ctx).enabled;
 }
 
 export const isEnabled = applyThen;
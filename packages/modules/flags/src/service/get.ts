@@ -51,6 +51,13 @@ export function initFlagsSubscriber() {
       void kv.del(ck);
     }
   });
+  // Subscribe to segment updates
+  subscribe<Record<string, unknown>>('flag.segment.updated', (evt) => {
+    if (!evt || typeof evt !== 'object') return;
+    if (typeof evt.env === 'string' && typeof evt.key === 'string') {
+      void kv.del(flagsKeys.segmentByEnv(evt.env, evt.key));
+    }
+  });
   // Subscribe to flag override updates
   subscribe<Record<string, unknown>>('flag.override.updated', (evt) => {
     if (!evt || typeof evt !== 'object') return;
@@ -2,19 +2,39 @@ import { OverridesRepo } from '../data/overrides.repository';
 import { cacheGet, cacheSet } from '@unisane/kernel';
 import { kv } from '@unisane/kernel';
 import { flagsKeys } from '../domain/keys';
-import { publish } from '@unisane/kernel';
+import { publish, emitTypedReliable } from '@unisane/kernel';
 import { isPlatformOnlyFlag } from '../domain/policy';
 import { getEnv } from '@unisane/kernel';
 import type { AppEnv } from '@unisane/kernel';
 import { getFlag } from './get';
-import { applyThen } from './evaluator';
-import type { EvalCtx } from './evaluator';
+import { loadSegments } from './segments';
+import { collectSegmentRefs, evaluateFlag, evaluateForcedState } from './evaluator';
+import type { EvalCtx, EvaluableFlag, FlagEvaluation } from './evaluator';
 import type { FlagWrite } from '../domain/schemas';
+import type { FlagRow } from '../domain/types';
 import { ERR } from '@unisane/gateway';
 
 // Scope types for flag overrides
 export type OverrideScopeType = 'tenant' | 'user';
 
+type CachedOverride = { value: boolean; variant?: string | null; expiresAt: string | null };
+
+// Cached override lookups never outlive the override itself.
+const OVERRIDE_CACHE_TTL_MS = 60_000;
+
+function isExpired(expiresAt: Date | null | undefined, now = Date.now()): boolean {
+  return !!expiresAt && expiresAt.getTime() <= now;
+}
+
+async function assertOverridableVariant(env: AppEnv, key: string, value: boolean, variant?: string) {
+  if (variant === undefined) return;
+  if (!value) throw ERR.validation('A pinned variant requires value: true');
+  const flag = await getFlag({ env, key });
+  if (!flag?.variants?.some((v) => v.key === variant)) {
+    throw ERR.validation(`Unknown variant "${variant}" for flag ${key}`);
+  }
+}
+
 /**
  * Set a flag override for a specific scope (tenant or user)
  */
@@ -24,24 +44,50 @@ export async function setScopeOverride(args: {
   scopeType: OverrideScopeType;
   scopeId: string;
   value: boolean;
+  variant?: string;
   expiresAt?: Date | null;
+  actorId?: string;
   actorIsSuperAdmin?: boolean;
 }) {
   if (isPlatformOnlyFlag(args.key) && !args.actorIsSuperAdmin) {
     throw ERR.forbidden(`Platform-only flags cannot be overridden at ${args.scopeType} scope`);
   }
+  if (isExpired(args.expiresAt)) {
+    throw ERR.validation('Override expiry must be in the future');
+  }
   const env = args.env ?? getEnv().APP_ENV;
+  await assertOverridableVariant(env, args.key, args.value, args.variant);
+  const previous = await OverridesRepo.findOverride(env, args.key, args.scopeType, args.scopeId);
   const row = await OverridesRepo.upsert({
     env,
     key: args.key,
     scopeType: args.scopeType,
     scopeId: args.scopeId,
     value: args.value,
+    variant: args.variant ?? null,
     ...(args.expiresAt !== undefined ? { expiresAt: args.expiresAt } : {}),
+    ...(args.actorId ? { actorId: args.actorId } : {}),
   });
   const ck = flagsKeys.overrideByScope(env, args.key, args.scopeType, args.scopeId);
   await kv.del(ck);
   await publish('flag.override.updated', { env, key: args.key, scopeType: args.scopeType, scopeId: args.scopeId });
+  await emitTypedReliable('flags.override.set', {
+    env,
+    key: args.key,
+    scopeType: args.scopeType,
+    scopeId: args.scopeId,
+    value: args.value,
+    variant: args.variant ?? null,
+    expiresAt: args.expiresAt ? args.expiresAt.toISOString() : null,
+    previous: previous
+      ? {
+          value: previous.value,
+          variant: previous.variant ?? null,
+          expiresAt: previous.expiresAt ? previous.expiresAt.toISOString() : null,
+        }
+      : null,
+    ...(args.actorId ? { actorId: args.actorId } : {}),
+  }, 'flags');
   return row;
 }
 
@@ -53,7 +99,9 @@ export async function clearScopeOverride(args: {
   key: string;
   scopeType: OverrideScopeType;
   scopeId: string;
+  actorId?: string;
   actorIsSuperAdmin?: boolean;
+  reason?: 'manual' | 'expired';
 }) {
   if (isPlatformOnlyFlag(args.key) && !args.actorIsSuperAdmin) {
     throw ERR.forbidden(`Platform-only flags cannot be overridden at ${args.scopeType} scope`);
@@ -63,10 +111,19 @@ export async function clearScopeOverride(args: {
   const ck = flagsKeys.overrideByScope(env, args.key, args.scopeType, args.scopeId);
   await kv.del(ck);
   await publish('flag.override.cleared', { env, key: args.key, scopeType: args.scopeType, scopeId: args.scopeId });
+  await emitTypedReliable('flags.override.removed', {
+    env,
+    key: args.key,
+    scopeType: args.scopeType,
+    scopeId: args.scopeId,
+    reason: args.reason ?? 'manual',
+    ...(args.actorId ? { actorId: args.actorId } : {}),
+  }, 'flags');
 }
 
 /**
- * Get a flag override for a specific scope (tenant or user)
+ * Get a flag override for a specific scope (tenant or user).
+ * Expired overrides are treated as absent, including cached ones.
  */
 export async function getScopeOverride(args: {
   env?: AppEnv;
@@ -76,31 +133,63 @@ export async function getScopeOverride(args: {
 }) {
   const env = args.env ?? getEnv().APP_ENV;
   const ck = flagsKeys.overrideByScope(env, args.key, args.scopeType, args.scopeId);
-  const cached = await cacheGet<{ value: boolean; expiresAt: string | null } | null>(ck);
+  const cached = await cacheGet<CachedOverride | null>(ck);
   if (cached) {
+    const expiresAt = cached.expiresAt ? new Date(cached.expiresAt) : null;
+    if (isExpired(expiresAt)) return null;
     return {
       value: cached.value,
-      expiresAt: cached.expiresAt ? new Date(cached.expiresAt) : null,
+      variant: cached.variant ?? null,
+      expiresAt,
     } as const;
   }
   const row = await OverridesRepo.findOverride(env, args.key, args.scopeType, args.scopeId);
-  if (row) {
-    await cacheSet(ck, { value: !!row.value, expiresAt: row.expiresAt ?? null }, 60_000);
-  }
-  return row ? { value: !!row.value, expiresAt: row.expiresAt ?? null } : null;
+  if (!row || isExpired(row.expiresAt)) return null;
+  const ttl = row.expiresAt
+    ? Math.min(OVERRIDE_CACHE_TTL_MS, row.expiresAt.getTime() - Date.now())
+    : OVERRIDE_CACHE_TTL_MS;
+  await cacheSet<CachedOverride>(
+    ck,
+    {
+      value: !!row.value,
+      variant: row.variant ?? null,
+      expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+    },
+    ttl
+  );
+  return { value: !!row.value, variant: row.variant ?? null, expiresAt: row.expiresAt ?? null };
 }
 
-/**
- * Check if a flag is enabled for a subject (checks user override, then scope override, then rules)
- */
-export async function isEnabledForScope(args: {
+export function toEvaluable(flag: FlagRow): EvaluableFlag {
+  return {
+    key: flag.key,
+    enabledDefault: flag.enabledDefault,
+    rules: flag.rules as FlagWrite['rules'],
+    ...(flag.valueType ? { valueType: flag.valueType } : {}),
+    ...(flag.variants ? { variants: flag.variants } : {}),
+    ...(flag.defaultVariant ? { defaultVariant: flag.defaultVariant } : {}),
+    ...(flag.rollout ? { rollout: flag.rollout } : {}),
+  };
+}
+
+export type ScopeEvalArgs = {
   env?: AppEnv;
   key: string;
   scopeId: string;
   userId?: string;
   ctx?: EvalCtx;
-}) {
+};
+
+/**
+ * Evaluate a flag's own targeting for a subject: user override, then scope
+ * override, then rules / default. Prerequisites are checked by the caller
+ * (see `evaluateForScope` in ./evaluate).
+ */
+export async function evaluateTargetingForScope(args: ScopeEvalArgs): Promise<FlagEvaluation> {
   const env = args.env ?? getEnv().APP_ENV;
+  const ctx = args.ctx ?? {};
+  const row = await getFlag({ env, key: args.key });
+  const flag = row ? toEvaluable(row) : null;
   // 1) User override (if userId present)
   if (args.userId) {
     const uovr = await getScopeOverride({
@@ -109,7 +198,7 @@ export async function isEnabledForScope(args: {
       scopeType: 'user',
       scopeId: args.userId,
     });
-    if (uovr) return uovr.value;
+    if (uovr) return evaluateForcedState(flag, uovr.value, ctx, 'user_override', uovr.variant);
   }
   // 2) Scope (tenant) override
   const sovr = await getScopeOverride({
@@ -118,16 +207,9 @@ export async function isEnabledForScope(args: {
     scopeType: 'tenant',
     scopeId: args.scopeId,
   });
-  if (sovr) return sovr.value;
-  // 3) Rules / default
-  const flag = await getFlag({ env, key: args.key });
-  if (!flag) return false; // default absent as disabled
-  const input: FlagWrite = {
-    env: flag.env as AppEnv,
-    key: flag.key,
-    enabledDefault: flag.enabledDefault,
-    rules: flag.rules as FlagWrite['rules'],
-    expectedVersion: flag.snapshotVersion,
-  };
-  return applyThen(input, args.ctx ?? {});
+  if (sovr) return evaluateForcedState(flag, sovr.value, ctx, 'tenant_override', sovr.variant);
+  // 3) Rules / default (absent flags are disabled)
+  if (!flag) return evaluateForcedState(null, false, ctx, 'default');
+  const segments = await loadSegments(env, collectSegmentRefs(flag.rules));
+  return evaluateFlag(flag, ctx, segments);
 }
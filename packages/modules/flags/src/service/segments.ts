@@ -0,0 +1,80 @@
+import { SegmentsRepo } from '../data/segments.repository';
+import { FlagsRepo } from '../data/flags.repository';
+import { cacheGet, cacheSet, getEnv, kv, publish, type AppEnv } from '@unisane/kernel';
+import { ERR } from '@unisane/gateway';
+import { flagsKeys } from '../domain/keys';
+import { segmentRefsOf, type SegmentMap } from './evaluator';
+import type { RuleCondition } from '../domain/schemas';
+import type { SegmentRow } from '../domain/types';
+
+export async function getSegment(args: { env: string; key: string }): Promise<SegmentRow | null> {
+  const ck = flagsKeys.segmentByEnv(args.env, args.key);
+  const cached = await cacheGet<SegmentRow | null>(ck);
+  if (cached) return cached;
+  const row = await SegmentsRepo.findOne(args.env, args.key);
+  if (row) await cacheSet<SegmentRow>(ck, row, 90_000);
+  return row ?? null;
+}
+
+export async function listSegments(args: { env?: AppEnv }): Promise<SegmentRow[]> {
+  return SegmentsRepo.list(args.env ?? getEnv().APP_ENV);
+}
+
+/**
+ * Resolve referenced segments for evaluation. Missing segments are left out
+ * of the map, so conditions on them never match.
+ */
+export async function loadSegments(env: string, keys: string[]): Promise<SegmentMap> {
+  const out = new Map<string, RuleCondition[]>();
+  for (const key of keys) {
+    const seg = await getSegment({ env, key });
+    if (seg) out.set(key, seg.conditions as RuleCondition[]);
+  }
+  return out;
+}
+
+export async function writeSegment(args: {
+  env: string;
+  key: string;
+  name?: string;
+  description?: string;
+  conditions: RuleCondition[];
+  actorId?: string;
+  expectedVersion?: number;
+}) {
+  if (segmentRefsOf(args.conditions).length > 0) {
+    throw ERR.validation(`Invalid segment definition for ${args.key}`, [
+      { field: 'conditions', message: 'Segments cannot reference other segments' },
+    ]);
+  }
+  const res = await SegmentsRepo.upsert({
+    env: args.env,
+    key: args.key,
+    name: args.name ?? null,
+    description: args.description ?? null,
+    conditions: args.conditions,
+    ...(args.actorId !== undefined ? { actorId: args.actorId } : {}),
+    ...(args.expectedVersion !== undefined ? { expectedVersion: args.expectedVersion } : {}),
+  });
+  if ('conflict' in res) throw ERR.versionMismatch();
+  await kv.del(flagsKeys.segmentByEnv(args.env, args.key));
+  await publish('flag.segment.updated', { env: args.env, key: args.key });
+  return res;
+}
+
+/**
+ * Delete a segment. Refused while any flag rule still references it.
+ */
+export async function deleteSegment(args: { env?: AppEnv; key: string }) {
+  const env = args.env ?? getEnv().APP_ENV;
+  const users = await FlagsRepo.listKeysReferencingSegment(env, args.key);
+  if (users.length > 0) {
+    throw ERR.validation(`Segment ${args.key} is used by flags: ${users.join(', ')}`, [
+      { field: 'key', message: 'Segment is still referenced' },
+    ]);
+  }
+  await SegmentsRepo.softDelete(env, args.key);
+  await kv.del(flagsKeys.segmentByEnv(env, args.key));
+  await publish('flag.segment.updated', { env, key: args.key });
+  return { ok: true as const };
+}
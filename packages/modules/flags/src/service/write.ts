@@ -3,21 +3,224 @@ import type { UpsertResult } from '../data/flags.repository';
 import { kv } from '@unisane/kernel';
 import { publish } from '@unisane/kernel';
 import { flagsKeys } from '../domain/keys';
-import { ERR } from '@unisane/gateway';
+import { ERR, type FieldError } from '@unisane/gateway';
+import { SegmentsRepo } from '../data/segments.repository';
+import { collectSegmentRefs } from './evaluator';
+import { BOOLEAN_VARIANTS } from '../domain/constants';
+import type {
+  FlagPrerequisite,
+  FlagValue,
+  FlagValueType,
+  FlagVariant,
+  FlagWrite,
+  VariantAllocation,
+} from '../domain/schemas';
+
+function valueMatchesType(value: FlagValue, type: FlagValueType): boolean {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'json':
+      return true;
+  }
+}
+
+function checkAllocation(
+  field: string,
+  allocations: VariantAllocation[],
+  known: Set<string>,
+  errors: FieldError[]
+) {
+  for (const a of allocations) {
+    if (!known.has(a.variant)) {
+      errors.push({ field, message: `Unknown variant "${a.variant}"` });
+    }
+  }
+  const total = allocations.reduce((sum, a) => sum + a.weight, 0);
+  if (total !== 100) {
+    errors.push({ field, message: `Variant weights must sum to 100 (got ${total})` });
+  }
+}
+
+/**
+ * Validate variant definitions and every reference to them (default, rollout, rules).
+ */
+function validateVariants(args: {
+  rules: unknown[];
+  valueType: FlagValueType;
+  variants: FlagVariant[];
+  defaultVariant?: string;
+  rollout?: VariantAllocation[];
+}): FieldError[] {
+  const errors: FieldError[] = [];
+  const rules = args.rules as FlagWrite['rules'];
+  const known = new Set<string>();
+  for (const [i, v] of args.variants.entries()) {
+    if (known.has(v.key)) {
+      errors.push({ field: `variants.${i}.key`, message: `Duplicate variant "${v.key}"` });
+    }
+    known.add(v.key);
+    if (!valueMatchesType(v.value, args.valueType)) {
+      errors.push({ field: `variants.${i}.value`, message: `Value must be of type ${args.valueType}` });
+    }
+  }
+
+  if (args.variants.length === 0) {
+    if (args.valueType !== 'boolean') {
+      errors.push({ field: 'variants', message: `Flags of type ${args.valueType} need at least one variant` });
+    }
+    if (args.defaultVariant || args.rollout?.length) {
+      errors.push({ field: 'variants', message: 'defaultVariant and rollout require variants' });
+    }
+    rules.forEach((rule, i) => {
+      if (!('value' in rule.then)) {
+        errors.push({ field: `rules.${i}.then`, message: 'Boolean flags can only serve { value }' });
+      }
+    });
+    return errors;
+  }
+
+  if (!args.defaultVariant) {
+    errors.push({ field: 'defaultVariant', message: 'Variant flags need a defaultVariant' });
+  } else if (!known.has(args.defaultVariant)) {
+    errors.push({ field: 'defaultVariant', message: `Unknown variant "${args.defaultVariant}"` });
+  }
+  if (args.rollout?.length) checkAllocation('rollout', args.rollout, known, errors);
+  rules.forEach((rule, i) => {
+    const then = rule.then;
+    if ('variant' in then && !known.has(then.variant)) {
+      errors.push({ field: `rules.${i}.then.variant`, message: `Unknown variant "${then.variant}"` });
+    }
+    if ('rollout' in then) checkAllocation(`rules.${i}.then.rollout`, then.rollout, known, errors);
+  });
+  return errors;
+}
+
+/**
+ * Every segment referenced by the rules must exist in the flag's env.
+ */
+async function validateSegmentRefs(env: string, refs: string[]): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  for (const ref of refs) {
+    if (!(await SegmentsRepo.findOne(env, ref))) {
+      errors.push({ field: 'rules', message: `Unknown segment "${ref}"` });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Prerequisites must name other existing flags (and variants they serve) and
+ * must not close a cycle back to this flag.
+ */
+async function validatePrerequisites(
+  env: string,
+  key: string,
+  prerequisites: FlagPrerequisite[]
+): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  const seen = new Set<string>();
+  for (const [i, pre] of prerequisites.entries()) {
+    const field = `prerequisites.${i}.key`;
+    if (pre.key === key) {
+      errors.push({ field, message: 'A flag cannot be its own prerequisite' });
+      continue;
+    }
+    if (seen.has(pre.key)) {
+      errors.push({ field, message: `Duplicate prerequisite "${pre.key}"` });
+      continue;
+    }
+    seen.add(pre.key);
+    const parent = await FlagsRepo.findOne(env, pre.key);
+    if (!parent) {
+      errors.push({ field, message: `Unknown flag "${pre.key}"` });
+      continue;
+    }
+    const served = parent.variants?.length
+      ? parent.variants.map((v) => v.key)
+      : [BOOLEAN_VARIANTS.ON, BOOLEAN_VARIANTS.OFF];
+    for (const variant of pre.variants ?? []) {
+      if (!served.includes(variant)) {
+        errors.push({
+          field: `prerequisites.${i}.variants`,
+          message: `Flag "${pre.key}" has no variant "${variant}"`,
+        });
+      }
+    }
+    const cycle = await findPathTo(env, pre.key, key);
+    if (cycle) {
+      errors.push({
+        field,
+        message: `Prerequisite cycle: ${[key, ...cycle].join(' -> ')}`,
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Depth-first search along stored prerequisites from `from`; returns the key
+ * path ending at `target`, or null when `target` is unreachable.
+ */
+async function findPathTo(env: string, from: string, target: string): Promise<string[] | null> {
+  const visited = new Set<string>();
+  const walk = async (key: string): Promise<string[] | null> => {
+    if (key === target) return [key];
+    if (visited.has(key)) return null;
+    visited.add(key);
+    const row = await FlagsRepo.findOne(env, key);
+    for (const pre of row?.prerequisites ?? []) {
+      const rest = await walk(pre.key);
+      if (rest) return [key, ...rest];
+    }
+    return null;
+  };
+  return walk(from);
+}
 
 export async function writeFlag(args: {
   env: string;
   key: string;
   enabledDefault: boolean;
   rules: unknown[];
+  valueType?: FlagValueType;
+  variants?: FlagVariant[];
+  defaultVariant?: string;
+  rollout?: VariantAllocation[];
+  prerequisites?: FlagPrerequisite[];
   actorId?: string;
   expectedVersion?: number;
 }) {
+  const valueType = args.valueType ?? 'boolean';
+  const variants = args.variants ?? [];
+  const errors = validateVariants({
+    rules: args.rules,
+    valueType,
+    variants,
+    ...(args.defaultVariant !== undefined ? { defaultVariant: args.defaultVariant } : {}),
+    ...(args.rollout !== undefined ? { rollout: args.rollout } : {}),
+  });
+  const segmentRefs = collectSegmentRefs(args.rules as FlagWrite['rules']);
+  errors.push(...(await validateSegmentRefs(args.env, segmentRefs)));
+  const prerequisites = args.prerequisites ?? [];
+  errors.push(...(await validatePrerequisites(args.env, args.key, prerequisites)));
+  if (errors.length > 0) throw ERR.validation(`Invalid flag definition for ${args.key}`, errors);
+
   const res: UpsertResult = await FlagsRepo.upsert({
     env: args.env,
     key: args.key,
     enabledDefault: args.enabledDefault,
     rules: args.rules,
+    valueType,
+    variants,
+    defaultVariant: args.defaultVariant ?? null,
+    rollout: args.rollout ?? null,
+    segmentRefs,
+    prerequisites,
     ...(args.actorId !== undefined ? { actorId: args.actorId } : {}),
     ...(args.expectedVersion !== undefined ? { expectedVersion: args.expectedVersion } : {}),
   });
@@ -25,6 +25,9 @@ describe('IDENTITY_EVENTS', () => {
     expect(IDENTITY_EVENTS.API_KEY_CREATED).toBe('identity.api_key.created');
     expect(IDENTITY_EVENTS.API_KEY_REVOKED).toBe('identity.api_key.revoked');
     expect(IDENTITY_EVENTS.MEMBERSHIP_ROLE_CHANGED).toBe('identity.membership.role_changed');
+    expect(IDENTITY_EVENTS.ROLE_CREATED).toBe('identity.role.created');
+    expect(IDENTITY_EVENTS.ROLE_UPDATED).toBe('identity.role.updated');
+    expect(IDENTITY_EVENTS.ROLE_DELETED).toBe('identity.role.deleted');
   });
 
   it('should follow identity.{entity}.{action} naming pattern', () => {
@@ -156,10 +159,12 @@ describe('IDENTITY_COLLECTIONS', () => {
     expect(IDENTITY_COLLECTIONS.MEMBERSHIPS).toBe('memberships');
     expect(IDENTITY_COLLECTIONS.API_KEYS).toBe('api_keys');
     expect(IDENTITY_COLLECTIONS.SESSIONS).toBe('sessions');
+    expect(IDENTITY_COLLECTIONS.INVITATIONS).toBe('invitations');
+    expect(IDENTITY_COLLECTIONS.ROLES).toBe('roles');
   });
 
-  it('should have exactly 4 collections', () => {
-    expect(Object.keys(IDENTITY_COLLECTIONS)).toHaveLength(4);
+  it('should have exactly 6 collections', () => {
+    expect(Object.keys(IDENTITY_COLLECTIONS)).toHaveLength(6);
   });
 
   it('should use snake_case naming', () => {
@@ -0,0 +1,248 @@
+/**
+ * Invitations Tests
+ *
+ * Tests for invitation tokens and the invite, resend, revoke and accept
+ * lifecycle against in-memory repositories.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { Invitation, InvitationsApi, Membership } from '../domain/types';
+
+const state = vi.hoisted(() => ({
+  invitations: new Map<string, Invitation>(),
+  members: [] as Array<{ scopeId: string; userId: string; roles: { roleId: string }[] }>,
+  users: new Map<string, { id: string; email: string; displayName?: string | null }>(),
+  seats: undefined as number | undefined,
+  nextId: 1,
+}));
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    getEnv: vi.fn(() => ({
+      APP_ENV: 'test',
+      SESSION_SECRET: 'test-session-secret-that-is-long-enough',
+      PUBLIC_BASE_URL: 'https://app.example.com',
+      ALLOWED_ORIGINS: [],
+    })),
+    resolveEntitlements: vi.fn(async () => ({ capacities: state.seats ? { seats: state.seats } : {} })),
+    withLock: vi.fn(async (_key: string, _opts: unknown, fn: () => Promise<unknown>) => fn()),
+    emitTypedReliable: vi.fn(async () => undefined),
+    hasNotifyProvider: vi.fn(() => true),
+    sendEmailViaPort: vi.fn(async () => ({ success: true })),
+  };
+});
+
+vi.mock('../providers', () => ({
+  getTenantsRepo: () => ({ findById: async (id: string) => ({ id, name: 'Acme' }) }),
+}));
+
+vi.mock('../service/membership', () => ({
+  addRole: vi.fn(async ({ userId, roleId }: { userId: string; roleId: string }) => {
+    state.members.push({ scopeId: kernel.getScopeId(), userId, roles: [{ roleId }] });
+    return null;
+  }),
+}));
+
+vi.mock('../data/repo', () => {
+  const pending = (i: Invitation) => i.status === 'pending';
+  const invitationsRepository: InvitationsApi = {
+    async create(input) {
+      const clash = [...state.invitations.values()].some(
+        (i) => pending(i) && i.scopeId === input.scopeId && i.email === input.email
+      );
+      if (clash) return { conflict: true };
+      const now = new Date();
+      const invitation: Invitation = {
+        id: `inv_${state.nextId++}`,
+        ...input,
+        invitedBy: input.invitedBy ?? null,
+        status: 'pending',
+        sentCount: 1,
+        lastSentAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      state.invitations.set(invitation.id, invitation);
+      return { ok: true, invitation };
+    },
+    async findById(id) {
+      return state.invitations.get(id) ?? null;
+    },
+    async findPending(scopeId, email) {
+      return [...state.invitations.values()].find((i) => pending(i) && i.scopeId === scopeId && i.email === email) ?? null;
+    },
+    async listPending(scopeId, { limit, now }) {
+      return [...state.invitations.values()]
+        .filter((i) => pending(i) && i.scopeId === scopeId && i.expiresAt > now)
+        .slice(0, limit);
+    },
+    async countPending(scopeId, now) {
+      return (await this.listPending(scopeId, { limit: 1000, now })).length;
+    },
+    async renew(id, patch) {
+      const i = state.invitations.get(id);
+      if (!i || !pending(i)) return null;
+      Object.assign(i, patch, { sentCount: i.sentCount + 1 });
+      return i;
+    },
+    async transition(id, status, patch = {}) {
+      const i = state.invitations.get(id);
+      if (!i || !pending(i)) return null;
+      Object.assign(i, { status, ...patch });
+      return i;
+    },
+  };
+  const membership = (scopeId: string, userId: string) =>
+    state.members.find((m) => m.scopeId === scopeId && m.userId === userId) ?? null;
+  return {
+    invitationsRepository,
+    membershipsRepository: {
+      findByScopeAndUser: async (scopeId: string, userId: string) => membership(scopeId, userId) as Membership | null,
+      listByScope: async (scopeId: string) => ({ items: state.members.filter((m) => m.scopeId === scopeId) }),
+    },
+    usersRepository: {
+      findByEmail: async (email: string) => [...state.users.values()].find((u) => u.email === email) ?? null,
+      findById: async (id: string) => state.users.get(id) ?? null,
+    },
+  };
+});
+
+import { emitTypedReliable, runWithScope, sendEmailViaPort } from '@unisane/kernel';
+import { signInvitationToken, verifyInvitationToken } from '../domain/invitation-token';
+import { InvitationExpiredError, InvitationNotFoundError } from '../domain/errors';
+import {
+  acceptInvitation,
+  inviteMember,
+  listPendingInvitations,
+  previewInvitation,
+  resendInvitation,
+  revokeInvitation,
+} from '../service/invitations';
+
+const inTenant = <T>(fn: () => Promise<T>) => runWithScope({ type: 'tenant', id: 'tenant_1' }, fn);
+
+function lastInviteToken(): string {
+  const calls = vi.mocked(sendEmailViaPort).mock.calls;
+  const url = String(calls[calls.length - 1]![0].data.acceptUrl);
+  return new URL(url).searchParams.get('token')!;
+}
+
+describe('invitation tokens', () => {
+  const claims = { invitationId: 'inv_1', expiresAt: new Date('2030-01-01T00:00:00Z'), nonce: 'abc' };
+
+  it('round-trips signed claims', () => {
+    const token = signInvitationToken(claims, 'secret');
+    expect(verifyInvitationToken(token, 'secret')).toEqual(claims);
+  });
+
+  it('rejects tampered tokens and other secrets', () => {
+    const token = signInvitationToken(claims, 'secret');
+    expect(verifyInvitationToken(token, 'other')).toBeNull();
+    expect(verifyInvitationToken(token.replace('inv_1', 'inv_2'), 'secret')).toBeNull();
+    expect(verifyInvitationToken('not-a-token', 'secret')).toBeNull();
+  });
+});
+
+describe('invitation lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.invitations.clear();
+    state.members.length = 0;
+    state.users.clear();
+    state.seats = undefined;
+    state.users.set('owner', { id: 'owner', email: 'owner@example.com', displayName: 'Olivia' });
+    state.members.push({ scopeId: 'tenant_1', userId: 'owner', roles: [{ roleId: 'owner' }] });
+  });
+
+  it('invites by email and sends a signed link', async () => {
+    const invitation = await inTenant(() =>
+      inviteMember({ email: 'New@Example.com', roleId: 'member', invitedBy: 'owner' })
+    );
+    expect(invitation).toMatchObject({ email: 'new@example.com', roleId: 'member', status: 'pending' });
+    expect(invitation).not.toHaveProperty('tokenNonce');
+
+    expect(sendEmailViaPort).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'new@example.com',
+      template: 'tenant_invitation',
+      data: expect.objectContaining({ tenantName: 'Acme', inviterName: 'Olivia' }),
+    }));
+    expect(lastInviteToken().startsWith(`${invitation.id}.`)).toBe(true);
+    expect(emitTypedReliable).toHaveBeenCalledWith('tenant.invitation.created', expect.objectContaining({
+      scopeId: 'tenant_1',
+      email: 'new@example.com',
+    }));
+  });
+
+  it('rejects duplicate invitations and existing members', async () => {
+    await inTenant(() => inviteMember({ email: 'new@example.com', roleId: 'member', invitedBy: 'owner' }));
+    await expect(
+      inTenant(() => inviteMember({ email: 'new@example.com', roleId: 'admin', invitedBy: 'owner' }))
+    ).rejects.toThrow(/already exists/);
+    await expect(
+      inTenant(() => inviteMember({ email: 'owner@example.com', roleId: 'member', invitedBy: 'owner' }))
+    ).rejects.toThrow(/already exists/);
+  });
+
+  it('counts pending invitations against the seat capacity', async () => {
+    state.seats = 2;
+    await inTenant(() => inviteMember({ email: 'a@example.com', roleId: 'member', invitedBy: 'owner' }));
+    await expect(
+      inTenant(() => inviteMember({ email: 'b@example.com', roleId: 'member', invitedBy: 'owner' }))
+    ).rejects.toMatchObject({ code: 'BILLING_SEAT_LIMIT_REACHED' });
+  });
+
+  it('accepts into the tenant for the invited user', async () => {
+    await inTenant(() => inviteMember({ email: 'new@example.com', roleId: 'member', invitedBy: 'owner' }));
+    const token = lastInviteToken();
+    state.users.set('u2', { id: 'u2', email: 'new@example.com' });
+
+    await expect(previewInvitation({ token })).resolves.toMatchObject({ tenantName: 'Acme', roleId: 'member' });
+    await expect(acceptInvitation({ token, userId: 'u2' })).resolves.toEqual({ scopeId: 'tenant_1', roleId: 'member' });
+    expect(state.members).toContainEqual({ scopeId: 'tenant_1', userId: 'u2', roles: [{ roleId: 'member' }] });
+    expect(emitTypedReliable).toHaveBeenCalledWith('tenant.invitation.accepted', {
+      scopeId: 'tenant_1',
+      userId: 'u2',
+      email: 'new@example.com',
+    });
+
+    await expect(acceptInvitation({ token, userId: 'u2' })).rejects.toBeInstanceOf(InvitationExpiredError);
+  });
+
+  it('refuses a different user', async () => {
+    await inTenant(() => inviteMember({ email: 'new@example.com', roleId: 'member', invitedBy: 'owner' }));
+    state.users.set('u3', { id: 'u3', email: 'someone@example.com' });
+    await expect(acceptInvitation({ token: lastInviteToken(), userId: 'u3' })).rejects.toThrow(/different email/);
+  });
+
+  it('invalidates the old link on resend and all links on revoke', async () => {
+    const invitation = await inTenant(() =>
+      inviteMember({ email: 'new@example.com', roleId: 'member', invitedBy: 'owner' })
+    );
+    const first = lastInviteToken();
+    const resent = await inTenant(() => resendInvitation({ invitationId: invitation.id }));
+    expect(resent.sentCount).toBe(2);
+    const second = lastInviteToken();
+
+    await expect(previewInvitation({ token: first })).rejects.toBeInstanceOf(InvitationExpiredError);
+    await expect(previewInvitation({ token: second })).resolves.toBeTruthy();
+
+    await inTenant(() => revokeInvitation({ invitationId: invitation.id, revokedBy: 'owner' }));
+    await expect(previewInvitation({ token: second })).rejects.toBeInstanceOf(InvitationExpiredError);
+    expect((await inTenant(() => listPendingInvitations())).items).toEqual([]);
+  });
+
+  it('expires links past their expiry', async () => {
+    const invitation = await inTenant(() =>
+      inviteMember({ email: 'new@example.com', roleId: 'member', invitedBy: 'owner' })
+    );
+    const token = lastInviteToken();
+    state.invitations.get(invitation.id)!.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(previewInvitation({ token })).rejects.toBeInstanceOf(InvitationExpiredError);
+    expect(state.invitations.get(invitation.id)!.status).toBe('expired');
+    await expect(previewInvitation({ token: 'inv_9.1.x.sig' })).rejects.toBeInstanceOf(InvitationNotFoundError);
+  });
+});
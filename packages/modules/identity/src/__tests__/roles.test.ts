@@ -0,0 +1,189 @@
+/**
+ * Roles Tests
+ *
+ * Tests for custom tenant roles and permission resolution against in-memory
+ * repositories and cache.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as kernel from '@unisane/kernel';
+import type { CustomRole, Membership, RolesApi } from '../domain/types';
+
+const state = vi.hoisted(() => ({
+  roles: [] as CustomRole[],
+  members: [] as Array<{ scopeId: string; userId: string; roles: { roleId: string }[]; grants: Membership['grants'] }>,
+  cache: new Map<string, string>(),
+  generations: new Map<string, number>(),
+  listCalls: 0,
+  nextId: 1,
+}));
+
+vi.mock('@unisane/kernel', async () => {
+  const actual = await vi.importActual<typeof kernel>('@unisane/kernel');
+  return {
+    ...actual,
+    connectDb: vi.fn(async () => undefined),
+    kv: {
+      get: vi.fn(async (key: string) => state.cache.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string) => {
+        state.cache.set(key, value);
+      }),
+      del: vi.fn(async (key: string) => {
+        state.cache.delete(key);
+      }),
+    },
+    getRbacGeneration: vi.fn(async (scopeId: string) => `0.${state.generations.get(scopeId) ?? 0}`),
+    bumpRbacGeneration: vi.fn(async (scopeId: string) => {
+      state.generations.set(scopeId, (state.generations.get(scopeId) ?? 0) + 1);
+    }),
+    emitTypedReliable: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock('../data/repo', () => {
+  const find = (scopeId: string, key: string) => state.roles.find((r) => r.scopeId === scopeId && r.key === key);
+  const rolesRepository: RolesApi = {
+    async listByScope(scopeId) {
+      state.listCalls++;
+      return state.roles.filter((r) => r.scopeId === scopeId);
+    },
+    async findByKey(scopeId, key) {
+      return find(scopeId, key) ?? null;
+    },
+    async create(input) {
+      if (find(input.scopeId, input.key)) return { conflict: true };
+      const now = new Date();
+      const role: CustomRole = {
+        id: `role_${state.nextId++}`,
+        ...input,
+        description: input.description ?? null,
+        createdBy: input.createdBy ?? null,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      state.roles.push(role);
+      return { ok: true, role };
+    },
+    async update(scopeId, key, patch, expectedVersion) {
+      const role = find(scopeId, key);
+      if (!role) return { notFound: true };
+      if (expectedVersion !== undefined && role.version !== expectedVersion) {
+        return { conflict: true, expected: role.version };
+      }
+      Object.assign(role, patch, { version: role.version + 1 });
+      return { ok: true, role };
+    },
+    async delete(scopeId, key) {
+      const before = state.roles.length;
+      state.roles = state.roles.filter((r) => !(r.scopeId === scopeId && r.key === key));
+      return { deleted: state.roles.length < before };
+    },
+  };
+  return {
+    rolesRepository,
+    membershipsRepository: {
+      findByScopeAndUser: async (scopeId: string, userId: string) =>
+        (state.members.find((m) => m.scopeId === scopeId && m.userId === userId) ?? null) as Membership | null,
+      countByRole: async (scopeId: string, roleId: string) =>
+        state.members.filter((m) => m.scopeId === scopeId && m.roles.some((r) => r.roleId === roleId)).length,
+    },
+    usersRepository: {},
+  };
+});
+
+import { emitTypedReliable, registerPermissions, runWithScope } from '@unisane/kernel';
+import { createRole, deleteRole, listRoles, updateRole, assertRoleExists } from '../service/roles';
+import { getEffectivePerms } from '../service/perms';
+
+const inTenant = <T>(fn: () => Promise<T>) => runWithScope({ type: 'tenant', id: 'tenant_1' }, fn);
+
+registerPermissions('reports', ['reports:read', 'reports:export']);
+
+describe('custom roles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.roles = [];
+    state.members = [];
+    state.cache.clear();
+    state.generations.clear();
+    state.listCalls = 0;
+  });
+
+  it('creates a role from core and registered permissions', async () => {
+    const role = await inTenant(() =>
+      createRole({ key: 'analyst', name: 'Analyst', permissions: ['reports:read', 'members:read', 'reports:read'] })
+    );
+    expect(role).toMatchObject({ key: 'analyst', builtin: false, permissions: ['reports:read', 'members:read'] });
+    expect(emitTypedReliable).toHaveBeenCalledWith('identity.role.created', expect.objectContaining({ key: 'analyst' }));
+
+    const { items } = await inTenant(() => listRoles());
+    expect(items.map((r) => r.key)).toEqual(['owner', 'admin', 'member', 'billing', 'analyst']);
+  });
+
+  it('rejects built-in keys, unknown permissions and duplicates', async () => {
+    await expect(
+      inTenant(() => createRole({ key: 'admin', name: 'Admin', permissions: [] }))
+    ).rejects.toThrow(/built-in/);
+    await expect(
+      inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: ['reports:delete'] }))
+    ).rejects.toThrow(/Unknown permissions: reports:delete/);
+
+    await inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: [] }));
+    await expect(
+      inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: [] }))
+    ).rejects.toThrow(/already exists/);
+  });
+
+  it('only accepts roles that exist for the tenant', async () => {
+    await expect(assertRoleExists('tenant_1', 'member')).resolves.toBeUndefined();
+    await expect(assertRoleExists('tenant_1', 'analyst')).rejects.toThrow(/Unknown role/);
+  });
+
+  it('refuses to delete a role members still hold', async () => {
+    await inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: [] }));
+    state.members.push({ scopeId: 'tenant_1', userId: 'u1', roles: [{ roleId: 'analyst' }], grants: [] });
+    await expect(inTenant(() => deleteRole({ key: 'analyst' }))).rejects.toThrow(/assigned to 1 member/);
+
+    state.members = [];
+    await expect(inTenant(() => deleteRole({ key: 'analyst' }))).resolves.toEqual({ ok: true });
+    await expect(inTenant(() => deleteRole({ key: 'analyst' }))).rejects.toThrow(/not found/i);
+  });
+});
+
+describe('getEffectivePerms', () => {
+  beforeEach(() => {
+    state.roles = [];
+    state.members = [];
+    state.cache.clear();
+    state.generations.clear();
+    state.listCalls = 0;
+  });
+
+  it('resolves built-in and custom roles with grants applied', async () => {
+    await inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: ['reports:read', 'reports:export'] }));
+    state.members.push({
+      scopeId: 'tenant_1',
+      userId: 'u1',
+      roles: [{ roleId: 'analyst' }],
+      grants: [{ perm: 'reports:export', effect: 'deny' }, { perm: 'audit:read', effect: 'allow' }],
+    });
+
+    const perms = await getEffectivePerms('tenant_1', 'u1');
+    expect(perms.sort()).toEqual(['audit:read', 'reports:read']);
+  });
+
+  it('serves cached permissions until the role changes', async () => {
+    await inTenant(() => createRole({ key: 'analyst', name: 'Analyst', permissions: ['reports:read'] }));
+    state.members.push({ scopeId: 'tenant_1', userId: 'u1', roles: [{ roleId: 'analyst' }], grants: [] });
+    state.listCalls = 0;
+
+    expect(await getEffectivePerms('tenant_1', 'u1')).toEqual(['reports:read']);
+    expect(await getEffectivePerms('tenant_1', 'u1')).toEqual(['reports:read']);
+    expect(state.listCalls).toBe(1);
+
+    await inTenant(() => updateRole({ key: 'analyst', permissions: ['reports:read', 'reports:export'] }));
+    expect(await getEffectivePerms('tenant_1', 'u1')).toEqual(['reports:read', 'reports:export']);
+    expect(state.listCalls).toBe(2);
+  });
+});
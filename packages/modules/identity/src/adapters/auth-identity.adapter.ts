@@ -21,6 +21,7 @@ import {
   ensureUserByEmail as ensureUserByEmailService,
   getUserId,
 } from "../service/users";
+import { acceptInvitation } from "../service/invitations";
 import { usersRepository, membershipsRepository } from "../data/repo";
 
 /**
@@ -44,6 +45,11 @@ function toAuthUserRef(
  */
 export const authIdentityAdapter: AuthIdentityPort = {
   // User lookup functions
+  async findUserById(userId: string): Promise<AuthUserRef | null> {
+    const user = await usersRepository.findById(userId);
+    return toAuthUserRef(user);
+  },
+
   async findUserByEmail(emailNorm: string): Promise<AuthUserRef | null> {
     const user = await findUserByEmail(emailNorm);
     return toAuthUserRef(user);
@@ -127,4 +133,10 @@ export const authIdentityAdapter: AuthIdentityPort = {
     // Membership uses composite key (scopeId, userId), return scopeId as id
     return { id: membership.scopeId };
   },
+
+  // Tenant invitations (signup from an invite link)
+  async acceptInvitation(args: { token: string; userId: string }): Promise<{ scopeId: string }> {
+    const { scopeId } = await acceptInvitation(args);
+    return { scopeId };
+  },
 };
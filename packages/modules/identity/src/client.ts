@@ -8,6 +8,7 @@
 // Zod schemas (browser-safe)
 export {
   ZInviteUser,
+  ZInvitationToken,
   ZAddRole,
   ZRemoveRole,
   ZGrantPerm,
@@ -15,6 +16,8 @@ export {
   ZGrantPermBody,
   ZRemoveRoleBody,
   ZRevokePermBody,
+  ZCreateRole,
+  ZUpdateRole,
   ZUsername,
   ZPhoneE164,
   ZUserCreate,
@@ -0,0 +1,135 @@
+import {
+  col,
+  COLLECTIONS,
+  INVITATION_STATUS,
+  maybeObjectId,
+  newEntityId,
+  toNativeId,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+  type InvitationStatus,
+  type RoleKey,
+} from "@unisane/kernel";
+import type { ObjectId } from "mongodb";
+import type { Invitation, InvitationCreateInput, InvitationsApi } from "../domain/types";
+import { isDuplicateKeyError } from "../domain/errors";
+
+type InvitationDoc = {
+  _id: ObjectId | string;
+  scopeId: string;
+  email: string;
+  roleId: RoleKey;
+  status: InvitationStatus;
+  invitedBy: string | null;
+  tokenNonce: string;
+  expiresAt: Date;
+  sentCount: number;
+  lastSentAt: Date | null;
+  acceptedBy?: string | null;
+  acceptedAt?: Date | null;
+  revokedBy?: string | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const iCol = () => col<InvitationDoc>(COLLECTIONS.INVITATIONS);
+
+function mapDoc(doc: InvitationDoc): Invitation;
+function mapDoc(doc: InvitationDoc | null): Invitation | null;
+function mapDoc(doc: InvitationDoc | null): Invitation | null {
+  if (!doc) return null;
+  const { _id, ...rest } = doc;
+  return { id: String(_id), ...rest };
+}
+
+function pendingFilter(scopeId: string, now: Date): Document {
+  return { scopeId, status: INVITATION_STATUS.PENDING, expiresAt: { $gt: now } };
+}
+
+export const mongoInvitationsRepository: InvitationsApi = {
+  async create(input: InvitationCreateInput) {
+    const now = new Date();
+    const doc: InvitationDoc = {
+      _id: toNativeId(newEntityId()) as ObjectId,
+      scopeId: input.scopeId,
+      email: input.email,
+      roleId: input.roleId,
+      status: INVITATION_STATUS.PENDING,
+      invitedBy: input.invitedBy ?? null,
+      tokenNonce: input.tokenNonce,
+      expiresAt: input.expiresAt,
+      sentCount: 1,
+      lastSentAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await iCol().insertOne(doc);
+    } catch (e) {
+      // invitations_scope_email_pending_unique
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+    return { ok: true as const, invitation: mapDoc(doc) };
+  },
+
+  async findById(id: string) {
+    const doc = await iCol().findOne({ _id: maybeObjectId(id) } as Document);
+    return mapDoc(doc);
+  },
+
+  async findPending(scopeId: string, email: string) {
+    const doc = await iCol().findOne({ scopeId, email, status: INVITATION_STATUS.PENDING });
+    return mapDoc(doc);
+  },
+
+  async listPending(scopeId: string, opts: { limit: number; now: Date }) {
+    const rows = await iCol()
+      .find(pendingFilter(scopeId, opts.now))
+      .sort({ createdAt: -1 })
+      .limit(opts.limit)
+      .toArray();
+    return rows.map((r) => mapDoc(r as InvitationDoc));
+  },
+
+  async countPending(scopeId: string, now: Date) {
+    return iCol().countDocuments(pendingFilter(scopeId, now));
+  },
+
+  async renew(id: string, patch: { tokenNonce: string; expiresAt: Date }) {
+    const now = new Date();
+    const builder = new UpdateBuilder<Record<string, unknown>>()
+      .set("tokenNonce", patch.tokenNonce)
+      .set("expiresAt", patch.expiresAt)
+      .set("lastSentAt", now)
+      .set("updatedAt", now)
+      .inc("sentCount", 1);
+    const doc = await iCol().findOneAndUpdate(
+      { _id: maybeObjectId(id), status: INVITATION_STATUS.PENDING } as Document,
+      toMongoUpdate(builder.build()) as unknown as Document,
+      { returnDocument: "after" }
+    );
+    return mapDoc(doc as InvitationDoc | null);
+  },
+
+  async transition(id, status, patch = {}) {
+    const now = new Date();
+    const builder = new UpdateBuilder<Record<string, unknown>>()
+      .set("status", status)
+      .set("updatedAt", now);
+    if (status === INVITATION_STATUS.ACCEPTED) {
+      builder.set("acceptedAt", now).set("acceptedBy", patch.acceptedBy ?? null);
+    }
+    if (status === INVITATION_STATUS.REVOKED) {
+      builder.set("revokedAt", now).set("revokedBy", patch.revokedBy ?? null);
+    }
+    const doc = await iCol().findOneAndUpdate(
+      { _id: maybeObjectId(id), status: INVITATION_STATUS.PENDING } as Document,
+      toMongoUpdate(builder.build()) as unknown as Document,
+      { returnDocument: "after" }
+    );
+    return mapDoc(doc as InvitationDoc | null);
+  },
+};
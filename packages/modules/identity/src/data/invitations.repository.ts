@@ -0,0 +1,7 @@
+import { selectRepo } from "@unisane/kernel";
+import { mongoInvitationsRepository } from "./invitations.repository.mongo";
+import type { InvitationsApi } from "../domain/types";
+
+export const invitationsRepository = selectRepo<InvitationsApi>({
+  mongo: mongoInvitationsRepository,
+});
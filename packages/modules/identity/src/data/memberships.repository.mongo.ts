@@ -8,8 +8,8 @@ import {
   clampInt,
   UpdateBuilder,
   toMongoUpdate,
-  type RoleId,
-  type Permission,
+  type RoleKey,
+  type PermissionKey,
   type GrantEffect,
   type Document,
   type Filter,
@@ -43,7 +43,7 @@ export const mongoMembershipsRepository: MembershipsApi = {
   async addRole(
     scopeId: string,
     userId: string,
-    roleId: RoleId,
+    roleId: RoleKey,
     expectedVersion?: number
   ) {
     // Use explicit scopeId - NOT from context
@@ -77,7 +77,7 @@ export const mongoMembershipsRepository: MembershipsApi = {
   async removeRole(
     scopeId: string,
     userId: string,
-    roleId: RoleId,
+    roleId: RoleKey,
     expectedVersion?: number
   ) {
     // Use explicit scopeId - NOT from context
@@ -110,7 +110,7 @@ export const mongoMembershipsRepository: MembershipsApi = {
   async grantPerm(
     scopeId: string,
     userId: string,
-    perm: Permission,
+    perm: PermissionKey,
     effect: GrantEffect,
     expectedVersion?: number
   ) {
@@ -145,7 +145,7 @@ export const mongoMembershipsRepository: MembershipsApi = {
   async revokePerm(
     scopeId: string,
     userId: string,
-    perm: Permission,
+    perm: PermissionKey,
     expectedVersion?: number
   ) {
     // Use explicit scopeId - NOT from context
@@ -177,6 +177,12 @@ export const mongoMembershipsRepository: MembershipsApi = {
 
   // NOTE: Cross-scope operation - intentionally NOT using scopeFilter()
   // This finds the user's latest membership across ALL scopes for session/context init
+  async countByRole(scopeId: string, roleId: RoleKey): Promise<number> {
+    return mCol().countDocuments(
+      explicitScopeFilterActive('tenant', scopeId, { "roles.roleId": roleId }) as Document
+    );
+  },
+
   async findLatestForUser(userId: string): Promise<Membership | null> {
     const doc = await mCol()
       .find({
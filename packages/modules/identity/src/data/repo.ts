@@ -2,6 +2,8 @@
 export { usersRepository } from "./users.repository";
 export { membershipsRepository } from "./memberships.repository";
 export { apiKeysRepository } from "./api-keys.repository";
+export { invitationsRepository } from "./invitations.repository";
+export { rolesRepository } from "./roles.repository";
 
 // Re-export types
 export type { UserCreateInput, UserUpdateInput, ApiKeyCreateDbInput } from "../domain/types";
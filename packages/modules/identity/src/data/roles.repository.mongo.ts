@@ -0,0 +1,99 @@
+import {
+  col,
+  COLLECTIONS,
+  newEntityId,
+  toNativeId,
+  UpdateBuilder,
+  toMongoUpdate,
+  type Document,
+  type PermissionKey,
+} from "@unisane/kernel";
+import type { ObjectId } from "mongodb";
+import type { CustomRole, CustomRoleCreateInput, CustomRolePatch, RolesApi } from "../domain/types";
+import { isDuplicateKeyError } from "../domain/errors";
+
+type RoleDoc = {
+  _id: ObjectId | string;
+  scopeId: string;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: PermissionKey[];
+  version: number;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const rCol = () => col<RoleDoc>(COLLECTIONS.ROLES);
+
+function mapDoc(doc: RoleDoc): CustomRole;
+function mapDoc(doc: RoleDoc | null): CustomRole | null;
+function mapDoc(doc: RoleDoc | null): CustomRole | null {
+  if (!doc) return null;
+  const { _id, ...rest } = doc;
+  return { id: String(_id), ...rest };
+}
+
+export const mongoRolesRepository: RolesApi = {
+  async listByScope(scopeId: string) {
+    const rows = await rCol().find({ scopeId }).sort({ key: 1 }).toArray();
+    return rows.map((r) => mapDoc(r as RoleDoc));
+  },
+
+  async findByKey(scopeId: string, key: string) {
+    const doc = await rCol().findOne({ scopeId, key });
+    return mapDoc(doc);
+  },
+
+  async create(input: CustomRoleCreateInput) {
+    const now = new Date();
+    const doc: RoleDoc = {
+      _id: toNativeId(newEntityId()) as ObjectId,
+      scopeId: input.scopeId,
+      key: input.key,
+      name: input.name,
+      description: input.description ?? null,
+      permissions: input.permissions,
+      version: 1,
+      createdBy: input.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await rCol().insertOne(doc);
+    } catch (e) {
+      // roles_scope_key_unique
+      if (isDuplicateKeyError(e)) return { conflict: true as const };
+      throw e;
+    }
+    return { ok: true as const, role: mapDoc(doc) };
+  },
+
+  async update(scopeId: string, key: string, patch: CustomRolePatch, expectedVersion?: number) {
+    const current = await rCol().findOne({ scopeId, key });
+    if (!current) return { notFound: true as const };
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return { conflict: true as const, expected: current.version };
+    }
+    const builder = new UpdateBuilder<Record<string, unknown>>()
+      .set("updatedAt", new Date())
+      .inc("version", 1);
+    if (patch.name !== undefined) builder.set("name", patch.name);
+    if (patch.description !== undefined) builder.set("description", patch.description);
+    if (patch.permissions !== undefined) builder.set("permissions", patch.permissions);
+    // Match on the version read above so concurrent edits cannot both win
+    const doc = await rCol().findOneAndUpdate(
+      { scopeId, key, version: current.version } as Document,
+      toMongoUpdate(builder.build()) as unknown as Document,
+      { returnDocument: "after" }
+    );
+    if (!doc) return { conflict: true as const, expected: current.version };
+    return { ok: true as const, role: mapDoc(doc as RoleDoc) };
+  },
+
+  async delete(scopeId: string, key: string) {
+    const res = await rCol().deleteOne({ scopeId, key });
+    return { deleted: res.deletedCount > 0 };
+  },
+};
@@ -0,0 +1,7 @@
+import { selectRepo } from "@unisane/kernel";
+import { mongoRolesRepository } from "./roles.repository.mongo";
+import type { RolesApi } from "../domain/types";
+
+export const rolesRepository = selectRepo<RolesApi>({
+  mongo: mongoRolesRepository,
+});
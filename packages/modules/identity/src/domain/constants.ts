@@ -24,6 +24,12 @@ export const IDENTITY_EVENTS = {
   API_KEY_REVOKED: 'identity.api_key.revoked',
   /** Emitted when a membership role is changed */
   MEMBERSHIP_ROLE_CHANGED: 'identity.membership.role_changed',
+  /** Emitted when a tenant creates a custom role */
+  ROLE_CREATED: 'identity.role.created',
+  /** Emitted when a custom role's name or permissions change */
+  ROLE_UPDATED: 'identity.role.updated',
+  /** Emitted when a custom role is deleted */
+  ROLE_DELETED: 'identity.role.deleted',
 } as const;
 
 // NOTE: User status is defined in @unisane/kernel as USER_STATUS.
@@ -49,6 +55,10 @@ export type ApiKeyStatus = (typeof API_KEY_STATUS)[keyof typeof API_KEY_STATUS];
 // Values: 'super_admin', 'support_admin'
 // See: packages/foundation/kernel/src/constants/identity.ts
 
+// NOTE: Invitation status is defined in @unisane/kernel as INVITATION_STATUS.
+// Values: 'pending', 'accepted', 'expired', 'revoked'
+// See: packages/foundation/kernel/src/constants/identity.ts
+
 /**
  * Default values for identity operations.
  */
@@ -65,6 +75,14 @@ export const IDENTITY_DEFAULTS = {
   CACHE_TTL_MS: 60_000, // 60 seconds
   /** Session expiry in days */
   SESSION_EXPIRY_DAYS: 30,
+  /** Days before a tenant invitation link expires */
+  INVITATION_EXPIRY_DAYS: 7,
+  /** Maximum pending invitations listed per tenant */
+  MAX_PENDING_INVITATIONS: 500,
+  /** Maximum custom roles per tenant */
+  MAX_CUSTOM_ROLES: 50,
+  /** Cache TTL for resolved permission sets and custom roles in milliseconds */
+  PERMS_CACHE_TTL_MS: 60_000,
 } as const;
 
 /**
@@ -75,4 +93,6 @@ export const IDENTITY_COLLECTIONS = {
   MEMBERSHIPS: 'memberships',
   API_KEYS: 'api_keys',
   SESSIONS: 'sessions',
+  INVITATIONS: 'invitations',
+  ROLES: 'roles',
 } as const;
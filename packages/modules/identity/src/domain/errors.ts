@@ -183,3 +183,30 @@ export class ProfileIncompleteError extends DomainError {
     this.name = 'ProfileIncompleteError';
   }
 }
+
+/**
+ * Thrown when an invitation token does not match any invitation.
+ */
+export class InvitationNotFoundError extends DomainError {
+  readonly code = ErrorCode.INVITATION_NOT_FOUND;
+  readonly status = 404;
+
+  constructor() {
+    super('Invitation not found');
+    this.name = 'InvitationNotFoundError';
+  }
+}
+
+/**
+ * Thrown when an invitation link can no longer be used: it expired, was
+ * revoked, was already accepted or was replaced by a resend.
+ */
+export class InvitationExpiredError extends DomainError {
+  readonly code = ErrorCode.INVITATION_EXPIRED;
+  readonly status = 410;
+
+  constructor(reason: 'expired' | 'revoked' | 'accepted' | 'superseded' = 'expired') {
+    super(reason === 'expired' ? 'Invitation has expired' : `Invitation is no longer valid (${reason})`);
+    this.name = 'InvitationExpiredError';
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Invitation Tokens
+ *
+ * Invitation links carry `<invitationId>.<expiresAt seconds>.<nonce>.<signature>`,
+ * signed with HMAC-SHA256. The signature makes the token unguessable and
+ * tamper-proof; the nonce is also stored on the invitation so that a resend
+ * (new nonce) invalidates links sent earlier.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export type InvitationTokenClaims = {
+  invitationId: string;
+  expiresAt: Date;
+  nonce: string;
+};
+
+/** Random nonce for a new or resent invitation */
+export function newInvitationNonce(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+export function signInvitationToken(claims: InvitationTokenClaims, secret: string): string {
+  const payload = `${claims.invitationId}.${Math.floor(claims.expiresAt.getTime() / 1000)}.${claims.nonce}`;
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Claims of a token with a valid signature, or null. Expiry is not checked
+ * here: the invitation record is authoritative.
+ */
+export function verifyInvitationToken(token: string, secret: string): InvitationTokenClaims | null {
+  const parts = token.trim().split('.');
+  if (parts.length !== 4) return null;
+  const [invitationId, expSec, nonce, signature] = parts as [string, string, string, string];
+  if (!invitationId || !nonce || !/^\d+$/.test(expSec)) return null;
+
+  const expected = sign(`${invitationId}.${expSec}.${nonce}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  return { invitationId, expiresAt: new Date(Number(expSec) * 1000), nonce };
+}
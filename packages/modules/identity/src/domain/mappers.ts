@@ -1,6 +1,6 @@
-import type { Membership, MinimalUserRow } from "./types";
-import type { RoleId } from "@unisane/kernel";
-import type { Permission } from "@unisane/kernel";
+import type { Invitation, Membership, MinimalUserRow } from "./types";
+import type { RoleKey } from "@unisane/kernel";
+import type { PermissionKey } from "@unisane/kernel";
 import type { GrantEffect } from "@unisane/kernel";
 import type { GlobalRole } from "@unisane/kernel";
 
@@ -14,11 +14,26 @@ export function toUserDto(row: MinimalUserRow) {
   } as const;
 }
 
+/** Invitation as shown to tenant admins; the token nonce stays internal */
+export function toInvitationDto(row: Invitation) {
+  return {
+    id: row.id,
+    email: row.email,
+    roleId: row.roleId,
+    status: row.status,
+    invitedBy: row.invitedBy,
+    expiresAt: row.expiresAt,
+    sentCount: row.sentCount,
+    lastSentAt: row.lastSentAt,
+    createdAt: row.createdAt,
+  } as const;
+}
+
 export type MembershipDoc = {
   scopeId: string;
   userId: string;
-  roles?: Array<{ roleId: RoleId; grantedAt?: Date }>;
-  grants?: Array<{ perm: Permission; effect: GrantEffect }>;
+  roles?: Array<{ roleId: RoleKey; grantedAt?: Date }>;
+  grants?: Array<{ perm: PermissionKey; effect: GrantEffect }>;
   version?: number;
   deletedAt?: Date | null;
   createdAt?: Date;
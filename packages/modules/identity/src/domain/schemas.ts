@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { ZGrantEffect, ZLocale, DEFAULT_LOCALE, ZRoleId, ZPermission } from "@unisane/kernel/client";
+import { ZGrantEffect, ZLocale, DEFAULT_LOCALE, ZRoleKey, ZPermissionKey } from "@unisane/kernel/client";
 import {
   ZUsernameString,
   ZPhoneE164String,
@@ -9,41 +9,58 @@ import {
 
 export const ZInviteUser = z.object({
   email: ZEmailString,
-  roleId: ZRoleId,
+  roleId: ZRoleKey,
+});
+export const ZInvitationToken = z.object({
+  token: z.string().min(1).max(512),
 });
 export const ZAddRole = z.object({
   userId: z.string().min(1),
-  roleId: ZRoleId,
+  roleId: ZRoleKey,
   expectedVersion: z.number().int().optional(),
 });
 export const ZRemoveRole = z.object({
   userId: z.string().min(1),
-  roleId: ZRoleId,
+  roleId: ZRoleKey,
   expectedVersion: z.number().int().optional(),
 });
 export const ZGrantPerm = z.object({
   userId: z.string().min(1),
-  perm: ZPermission,
+  perm: ZPermissionKey,
   effect: ZGrantEffect,
   expectedVersion: z.number().int().optional(),
 });
 
 // Route-scoped bodies (path carries scopeId/userId)
 export const ZAddRoleBody = z.object({
-  roleId: ZRoleId,
+  roleId: ZRoleKey,
   expectedVersion: z.number().int().optional(),
 });
 export const ZGrantPermBody = z.object({
-  perm: ZPermission,
+  perm: ZPermissionKey,
   effect: ZGrantEffect,
   expectedVersion: z.number().int().optional(),
 });
 export const ZRemoveRoleBody = z.object({
-  roleId: ZRoleId,
+  roleId: ZRoleKey,
   expectedVersion: z.number().int().optional(),
 });
 export const ZRevokePermBody = z.object({
-  perm: ZPermission,
+  perm: ZPermissionKey,
+  expectedVersion: z.number().int().optional(),
+});
+
+// Custom roles (built-in role keys are rejected by the service)
+export const ZCreateRole = z.object({
+  key: ZRoleKey,
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z.array(ZPermissionKey).max(200),
+});
+export const ZUpdateRole = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z.array(ZPermissionKey).max(200).optional(),
   expectedVersion: z.number().int().optional(),
 });
 
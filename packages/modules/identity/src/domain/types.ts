@@ -1,13 +1,14 @@
-import type { RoleId } from "@unisane/kernel";
-import type { Permission } from "@unisane/kernel";
+import type { RoleKey } from "@unisane/kernel";
+import type { PermissionKey } from "@unisane/kernel";
 import type { GrantEffect } from "@unisane/kernel";
 import type { UserDeletionReason } from "@unisane/kernel";
+import type { InvitationStatus } from "@unisane/kernel";
 
 export type Membership = {
   scopeId: string;
   userId: string;
-  roles: { roleId: RoleId; grantedAt?: Date }[];
-  grants: { perm: Permission; effect: GrantEffect }[];
+  roles: { roleId: RoleKey; grantedAt?: Date }[];
+  grants: { perm: PermissionKey; effect: GrantEffect }[];
   version: number;
   createdAt?: Date;
   updatedAt?: Date;
@@ -91,7 +92,7 @@ export type MembershipsApi = {
   addRole(
     scopeId: string,
     userId: string,
-    roleId: RoleId,
+    roleId: RoleKey,
     expectedVersion?: number
   ): Promise<
     | { ok: true; membership: Membership | null }
@@ -100,7 +101,7 @@ export type MembershipsApi = {
   removeRole(
     scopeId: string,
     userId: string,
-    roleId: RoleId,
+    roleId: RoleKey,
     expectedVersion?: number
   ): Promise<
     | { ok: true; membership: Membership | null }
@@ -109,7 +110,7 @@ export type MembershipsApi = {
   grantPerm(
     scopeId: string,
     userId: string,
-    perm: Permission,
+    perm: PermissionKey,
     effect: GrantEffect,
     expectedVersion?: number
   ): Promise<
@@ -119,12 +120,14 @@ export type MembershipsApi = {
   revokePerm(
     scopeId: string,
     userId: string,
-    perm: Permission,
+    perm: PermissionKey,
     expectedVersion?: number
   ): Promise<
     | { ok: true; membership: Membership | null }
     | { conflict: true; expected: number }
   >;
+  /** Active memberships in the scope that hold the role */
+  countByRole(scopeId: string, roleId: RoleKey): Promise<number>;
   findLatestForUser(userId: string): Promise<Membership | null>;
   listByScope(
     scopeId: string,
@@ -149,6 +152,143 @@ export type MembershipsApi = {
   softDeleteAllForScope(scopeId: string): Promise<{ deletedCount: number }>;
 };
 
+export type Invitation = {
+  id: string;
+  scopeId: string;
+  email: string;
+  roleId: RoleKey;
+  status: InvitationStatus;
+  invitedBy: string | null;
+  /** Random part of the signed token; rotated on resend so older links stop working */
+  tokenNonce: string;
+  expiresAt: Date;
+  sentCount: number;
+  lastSentAt: Date | null;
+  acceptedBy?: string | null;
+  acceptedAt?: Date | null;
+  revokedBy?: string | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type InvitationCreateInput = {
+  scopeId: string;
+  email: string;
+  roleId: RoleKey;
+  invitedBy?: string | null;
+  tokenNonce: string;
+  expiresAt: Date;
+};
+
+export type InvitationsApi = {
+  /** Fails with `conflict` when the email already has a pending invitation */
+  create(input: InvitationCreateInput): Promise<{ ok: true; invitation: Invitation } | { conflict: true }>;
+  findById(id: string): Promise<Invitation | null>;
+  findPending(scopeId: string, email: string): Promise<Invitation | null>;
+  /** Pending and not yet expired at `now`, newest first */
+  listPending(scopeId: string, opts: { limit: number; now: Date }): Promise<Invitation[]>;
+  countPending(scopeId: string, now: Date): Promise<number>;
+  /** New token and expiry for a pending invitation; null when it is no longer pending */
+  renew(id: string, patch: { tokenNonce: string; expiresAt: Date }): Promise<Invitation | null>;
+  /** Move a pending invitation to a final status; null when it is no longer pending */
+  transition(
+    id: string,
+    status: Exclude<InvitationStatus, 'pending'>,
+    patch?: { acceptedBy?: string; revokedBy?: string }
+  ): Promise<Invitation | null>;
+};
+
+/**
+ * A tenant-defined role composed of permissions. Built-in roles (ROLE) are
+ * not stored; custom role keys never collide with them.
+ */
+export type CustomRole = {
+  id: string;
+  scopeId: string;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: PermissionKey[];
+  version: number;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CustomRoleCreateInput = {
+  scopeId: string;
+  key: string;
+  name: string;
+  description?: string | null;
+  permissions: PermissionKey[];
+  createdBy?: string | null;
+};
+
+export type CustomRolePatch = {
+  name?: string;
+  description?: string | null;
+  permissions?: PermissionKey[];
+};
+
+export type RolesApi = {
+  listByScope(scopeId: string): Promise<CustomRole[]>;
+  findByKey(scopeId: string, key: string): Promise<CustomRole | null>;
+  /** Fails with `conflict` when the tenant already has a role with the key */
+  create(input: CustomRoleCreateInput): Promise<{ ok: true; role: CustomRole } | { conflict: true }>;
+  update(
+    scopeId: string,
+    key: string,
+    patch: CustomRolePatch,
+    expectedVersion?: number
+  ): Promise<{ ok: true; role: CustomRole } | { conflict: true; expected: number } | { notFound: true }>;
+  delete(scopeId: string, key: string): Promise<{ deleted: boolean }>;
+};
+
+export type CreateRoleArgs = {
+  key: string;
+  name: string;
+  description?: string | null;
+  permissions: PermissionKey[];
+  createdBy?: string;
+};
+
+export type UpdateRoleArgs = {
+  key: string;
+  name?: string;
+  description?: string | null;
+  permissions?: PermissionKey[];
+  expectedVersion?: number;
+};
+
+export type DeleteRoleArgs = {
+  key: string;
+};
+
+export type InviteMemberArgs = {
+  email: string;
+  roleId: RoleKey;
+  invitedBy: string;
+};
+
+export type ResendInvitationArgs = {
+  invitationId: string;
+};
+
+export type RevokeInvitationArgs = {
+  invitationId: string;
+  revokedBy: string;
+};
+
+export type ListInvitationsArgs = {
+  limit?: number;
+};
+
+export type AcceptInvitationArgs = {
+  token: string;
+  userId: string;
+};
+
 export type UserCreateInput = {
   email: string;
   displayName?: string | null;
@@ -233,7 +373,7 @@ export type MeSummary = {
   displayName?: string | null;
   email?: string | null;
   globalRole?: GlobalRole | null;
-  perms: Permission[];
+  perms: PermissionKey[];
   isSuperAdmin?: boolean;
 };
 import type { GlobalRole } from "@unisane/kernel";
@@ -241,7 +381,7 @@ import type { GlobalRole } from "@unisane/kernel";
 
 export type GetMeSummaryArgs = {
   userId?: string;
-  perms?: Permission[];
+  perms?: PermissionKey[];
   isSuperAdmin?: boolean;
 };
 
@@ -276,26 +416,26 @@ export type ListMyMembershipsArgs = {
 
 export type AddRoleArgs = {
   userId: string;
-  roleId: RoleId;
+  roleId: RoleKey;
   expectedVersion?: number;
 };
 
 export type GrantPermArgs = {
   userId: string;
-  perm: Permission;
+  perm: PermissionKey;
   effect: GrantEffect;
   expectedVersion?: number;
 };
 
 export type RemoveRoleArgs = {
   userId: string;
-  roleId: RoleId;
+  roleId: RoleKey;
   expectedVersion?: number;
 };
 
 export type RevokePermArgs = {
   userId: string;
-  perm: Permission;
+  perm: PermissionKey;
   expectedVersion?: number;
 };
 
@@ -6,6 +6,8 @@
  * Provides:
  * - User CRUD operations
  * - Membership management (user-tenant relationships)
+ * - Tenant invitations (signed, expiring invite links)
+ * - Custom tenant roles composed from the permission catalog
  * - API key management
  * - User search and filtering
  *
@@ -78,6 +80,18 @@ export * from './service/me';
 
 export * from './service/membership';
 
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Invitations
+// ════════════════════════════════════════════════════════════════════════════
+
+export * from './service/invitations';
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Roles
+// ════════════════════════════════════════════════════════════════════════════
+
+export * from './service/roles';
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services - API Keys
 // ════════════════════════════════════════════════════════════════════════════
@@ -107,6 +121,8 @@ export type {
   MinimalUserRow,
   UserRow,
   Membership,
+  Invitation,
+  CustomRole,
   ApiKey,
   MeSummary,
 } from './domain/types';
@@ -137,6 +153,8 @@ export {
   InsufficientRoleError,
   InvalidEmailError,
   InvalidPhoneError,
+  InvitationNotFoundError,
+  InvitationExpiredError,
 } from './domain/errors';
 
 // Re-export isDuplicateKeyError from kernel for backwards compatibility
@@ -171,7 +189,7 @@ export type { IdentityKeyBuilder } from './domain/keys';
 // Domain - Mappers
 // ════════════════════════════════════════════════════════════════════════════
 
-export { toUserDto } from './domain/mappers';
+export { toUserDto, toInvitationDto } from './domain/mappers';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Data - Repository (for internal/advanced use)
@@ -181,6 +199,8 @@ export {
   usersRepository,
   membershipsRepository,
   apiKeysRepository,
+  invitationsRepository,
+  rolesRepository,
 } from './data/repo';
 
 // ════════════════════════════════════════════════════════════════════════════
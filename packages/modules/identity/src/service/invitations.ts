@@ -0,0 +1,286 @@
+/**
+ * Tenant Invitations
+ *
+ * Invite people to a tenant by email with a role. The invite email carries a
+ * signed link that expires after IDENTITY_DEFAULTS.INVITATION_EXPIRY_DAYS;
+ * accepting it adds the role through the membership service, which enforces
+ * the seat limit again. Pending invitations count towards the plan's seat
+ * capacity so a tenant cannot invite past it.
+ */
+
+import { ERR } from "@unisane/gateway";
+import {
+  Email,
+  emitTypedReliable,
+  getEnv,
+  getScopeId,
+  hasNotifyProvider,
+  INVITATION_STATUS,
+  logger,
+  resolveEntitlements,
+  runWithScope,
+  sendEmailViaPort,
+  withLock,
+} from "@unisane/kernel";
+import { invitationsRepository, membershipsRepository, usersRepository } from "../data/repo";
+import { IDENTITY_DEFAULTS } from "../domain/constants";
+import { InvitationExpiredError, InvitationNotFoundError } from "../domain/errors";
+import { newInvitationNonce, signInvitationToken, verifyInvitationToken } from "../domain/invitation-token";
+import { toInvitationDto } from "../domain/mappers";
+import { getTenantsRepo } from "../providers";
+import { addRole } from "./membership";
+import { assertRoleExists } from "./roles";
+
+import type {
+  AcceptInvitationArgs,
+  Invitation,
+  InviteMemberArgs,
+  ListInvitationsArgs,
+  ResendInvitationArgs,
+  RevokeInvitationArgs,
+} from "../domain/types";
+export type {
+  AcceptInvitationArgs,
+  InviteMemberArgs,
+  ListInvitationsArgs,
+  ResendInvitationArgs,
+  RevokeInvitationArgs,
+};
+
+const log = logger.child({ module: "identity", component: "invitations" });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INVITATION_EMAIL_TEMPLATE = "tenant_invitation";
+const DEV_TOKEN_SECRET = "unisane-dev-invitation-token-secret";
+
+function tokenSecret(): string {
+  const env = getEnv();
+  const secret = env.INVITATION_TOKEN_SECRET ?? env.SESSION_SECRET;
+  if (secret) return secret;
+  if (env.APP_ENV === "prod") {
+    throw ERR.misconfigured("INVITATION_TOKEN_SECRET or SESSION_SECRET must be set to sign invitation links");
+  }
+  log.warn("INVITATION_TOKEN_SECRET is not set, signing invitation links with the development secret");
+  return DEV_TOKEN_SECRET;
+}
+
+function inviteUrl(token: string): string {
+  const env = getEnv();
+  const base = (env.PUBLIC_BASE_URL ?? env.ALLOWED_ORIGINS[0] ?? "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/invite?token=${encodeURIComponent(token)}`;
+}
+
+function nextExpiry(): Date {
+  return new Date(Date.now() + IDENTITY_DEFAULTS.INVITATION_EXPIRY_DAYS * DAY_MS);
+}
+
+function tokenFor(invitation: Invitation): string {
+  return signInvitationToken(
+    { invitationId: invitation.id, expiresAt: invitation.expiresAt, nonce: invitation.tokenNonce },
+    tokenSecret()
+  );
+}
+
+/**
+ * Throw when active members plus pending invitations already fill the plan's
+ * seats. No limit when the plan has no `seats` capacity.
+ */
+async function assertSeatAvailable(scopeId: string): Promise<void> {
+  const ent = await resolveEntitlements(scopeId);
+  const maxSeatsRaw = (ent.capacities as Record<string, number | undefined>)["seats"];
+  if (typeof maxSeatsRaw !== "number" || !Number.isFinite(maxSeatsRaw) || maxSeatsRaw <= 0) return;
+
+  const [page, pending] = await Promise.all([
+    membershipsRepository.listByScope(scopeId, maxSeatsRaw + 1),
+    invitationsRepository.countPending(scopeId, new Date()),
+  ]);
+  const activeSeats = page.items.filter((m) => Array.isArray(m.roles) && m.roles.length > 0).length;
+  if (activeSeats + pending >= maxSeatsRaw) throw ERR.seatLimitReached();
+}
+
+async function sendInvitationEmail(invitation: Invitation): Promise<boolean> {
+  if (!hasNotifyProvider()) {
+    log.info("invitation email skipped, no notify provider", { scopeId: invitation.scopeId });
+    return false;
+  }
+  const [tenant, inviter] = await Promise.all([
+    getTenantsRepo().findById(invitation.scopeId).catch(() => null),
+    invitation.invitedBy ? usersRepository.findById(invitation.invitedBy) : null,
+  ]);
+  const result = await sendEmailViaPort({
+    to: invitation.email,
+    template: INVITATION_EMAIL_TEMPLATE,
+    data: {
+      tenantName: tenant?.name ?? null,
+      inviterName: inviter?.displayName ?? inviter?.email ?? null,
+      roleId: invitation.roleId,
+      acceptUrl: inviteUrl(tokenFor(invitation)),
+      expiresAt: invitation.expiresAt.toISOString(),
+    },
+  });
+  if (!result.success) log.warn("invitation email failed", { scopeId: invitation.scopeId, invitationId: invitation.id });
+  return result.success;
+}
+
+/**
+ * The pending invitation a token points to. Tokens with a bad signature and
+ * unknown invitations are indistinguishable to the caller.
+ */
+async function resolveToken(token: string): Promise<Invitation> {
+  const claims = verifyInvitationToken(token, tokenSecret());
+  if (!claims) throw new InvitationNotFoundError();
+  const invitation = await invitationsRepository.findById(claims.invitationId);
+  if (!invitation) throw new InvitationNotFoundError();
+
+  if (invitation.status !== INVITATION_STATUS.PENDING) throw new InvitationExpiredError(invitation.status);
+  if (invitation.tokenNonce !== claims.nonce) throw new InvitationExpiredError("superseded");
+  if (invitation.expiresAt.getTime() <= Date.now()) {
+    await invitationsRepository.transition(invitation.id, INVITATION_STATUS.EXPIRED);
+    throw new InvitationExpiredError("expired");
+  }
+  return invitation;
+}
+
+async function findInScope(scopeId: string, invitationId: string): Promise<Invitation> {
+  const invitation = await invitationsRepository.findById(invitationId);
+  if (!invitation || invitation.scopeId !== scopeId) throw ERR.notFound("Invitation");
+  return invitation;
+}
+
+export async function inviteMember(args: InviteMemberArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  const email = Email.create(args.email).toString();
+  await assertRoleExists(scopeId, args.roleId);
+
+  const user = await usersRepository.findByEmail(email);
+  if (user) {
+    const membership = await membershipsRepository.findByScopeAndUser(scopeId, user.id);
+    if (membership && membership.roles.length > 0) throw ERR.alreadyExists("Member");
+  }
+
+  const pending = await invitationsRepository.findPending(scopeId, email);
+  if (pending) {
+    if (pending.expiresAt.getTime() > Date.now()) throw ERR.alreadyExists("Invitation");
+    await invitationsRepository.transition(pending.id, INVITATION_STATUS.EXPIRED);
+  }
+
+  // Same lock as addRole so that invites and joins cannot both take the last seat
+  const invitation = await withLock(
+    `seat-limit:${scopeId}`,
+    { ttlMs: 5000, retryMs: 100, maxRetries: 50 },
+    async () => {
+      await assertSeatAvailable(scopeId);
+      const res = await invitationsRepository.create({
+        scopeId,
+        email,
+        roleId: args.roleId,
+        invitedBy: args.invitedBy,
+        tokenNonce: newInvitationNonce(),
+        expiresAt: nextExpiry(),
+      });
+      if ("conflict" in res) throw ERR.alreadyExists("Invitation");
+      return res.invitation;
+    }
+  );
+
+  await sendInvitationEmail(invitation);
+  await emitTypedReliable("tenant.invitation.created", {
+    scopeId,
+    email,
+    roleId: invitation.roleId,
+    invitedBy: args.invitedBy,
+    expiresAt: invitation.expiresAt.toISOString(),
+  });
+  return toInvitationDto(invitation);
+}
+
+/**
+ * Send the invitation again with a fresh link and expiry. Links sent before
+ * stop working.
+ */
+export async function resendInvitation(args: ResendInvitationArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  const current = await findInScope(scopeId, args.invitationId);
+  if (current.status !== INVITATION_STATUS.PENDING) throw ERR.validation(`Invitation is ${current.status}`);
+  // A lapsed invitation no longer holds a seat
+  if (current.expiresAt.getTime() <= Date.now()) await assertSeatAvailable(scopeId);
+
+  const invitation = await invitationsRepository.renew(current.id, {
+    tokenNonce: newInvitationNonce(),
+    expiresAt: nextExpiry(),
+  });
+  if (!invitation) throw ERR.validation("Invitation is no longer pending");
+
+  await sendInvitationEmail(invitation);
+  return toInvitationDto(invitation);
+}
+
+export async function revokeInvitation(args: RevokeInvitationArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  const current = await findInScope(scopeId, args.invitationId);
+  const invitation = await invitationsRepository.transition(current.id, INVITATION_STATUS.REVOKED, {
+    revokedBy: args.revokedBy,
+  });
+  if (!invitation) throw ERR.validation(`Invitation is ${current.status}`);
+
+  await emitTypedReliable("tenant.invitation.revoked", {
+    scopeId,
+    email: invitation.email,
+    revokedBy: args.revokedBy,
+  });
+  return { ok: true as const };
+}
+
+export async function listPendingInvitations(args: ListInvitationsArgs = {}) {
+  const scopeId = getScopeId(); // Throws if not set
+  const limit = Math.min(args.limit ?? IDENTITY_DEFAULTS.MAX_PENDING_INVITATIONS, IDENTITY_DEFAULTS.MAX_PENDING_INVITATIONS);
+  const rows = await invitationsRepository.listPending(scopeId, { limit, now: new Date() });
+  return { items: rows.map(toInvitationDto) } as const;
+}
+
+/**
+ * What an invite link is for, shown on the landing page before the visitor
+ * signs in or signs up.
+ */
+export async function previewInvitation(args: { token: string }) {
+  const invitation = await resolveToken(args.token);
+  const tenant = await getTenantsRepo().findById(invitation.scopeId).catch(() => null);
+  return {
+    email: invitation.email,
+    roleId: invitation.roleId,
+    tenantName: tenant?.name ?? null,
+    expiresAt: invitation.expiresAt,
+  } as const;
+}
+
+/**
+ * Join the inviting tenant. The signed-in user's email must be the invited
+ * one; the role is added through the membership service so the seat limit
+ * is enforced under its lock.
+ */
+export async function acceptInvitation(args: AcceptInvitationArgs) {
+  const invitation = await resolveToken(args.token);
+  const user = await usersRepository.findById(args.userId);
+  if (!user) throw ERR.notFound("User");
+  if (Email.create(user.email).toString() !== invitation.email) {
+    throw ERR.forbidden("This invitation was sent to a different email address");
+  }
+
+  const { scopeId } = invitation;
+  await runWithScope({ type: "tenant", id: scopeId }, () =>
+    addRole({ userId: args.userId, roleId: invitation.roleId })
+  );
+
+  // Only the request that moves it out of pending announces the acceptance
+  const accepted = await invitationsRepository.transition(invitation.id, INVITATION_STATUS.ACCEPTED, {
+    acceptedBy: args.userId,
+  });
+  if (accepted) {
+    await emitTypedReliable("tenant.invitation.accepted", {
+      scopeId,
+      userId: args.userId,
+      email: invitation.email,
+    });
+  }
+  return { scopeId, roleId: invitation.roleId } as const;
+}
@@ -1,7 +1,6 @@
 import { usersRepository, membershipsRepository } from '../data/repo';
 import type { MeSummary } from '../domain/types';
 import { getTenantsRepo } from '../providers';
-import type { Permission } from '@unisane/kernel';
 import { updateUser } from './users';
 
 import type { GetMeSummaryArgs } from "../domain/types";
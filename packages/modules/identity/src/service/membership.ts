@@ -1,11 +1,12 @@
 import { usersRepository, membershipsRepository } from "../data/repo";
 import { ERR } from "@unisane/gateway";
 import { invalidatePermsForUser } from "./perms";
-import { getScopeId, resolveEntitlements, events, withLock, emitTypedReliable } from "@unisane/kernel";
+import { assertRoleExists } from "./roles";
+import { getScopeId, resolveEntitlements, events, withLock, emitTypedReliable, isKnownPermission } from "@unisane/kernel";
 import { IDENTITY_EVENTS } from "../domain/constants";
 import { getTenantsRepo } from "../providers";
-import type { RoleId } from "@unisane/kernel";
-import type { Permission } from "@unisane/kernel";
+import type { RoleKey } from "@unisane/kernel";
+import type { PermissionKey } from "@unisane/kernel";
 import type { GrantEffect } from "@unisane/kernel";
 import type { MembershipRemovalReason } from "@unisane/kernel";
 import { z } from "zod";
@@ -54,6 +55,7 @@ export type { RemoveMemberArgs };
 export async function addRole(args: AddRoleArgs) {
   const scopeId = getScopeId(); // Throws if not set
   const { userId, roleId, expectedVersion } = args;
+  await assertRoleExists(scopeId, roleId);
 
   // Check if this would be a new seat (user has no roles yet)
   const existing = await membershipsRepository.findByScopeAndUser(scopeId, userId);
@@ -154,6 +156,7 @@ export async function addRole(args: AddRoleArgs) {
 export async function grantPerm(args: GrantPermArgs) {
   const scopeId = getScopeId(); // Throws if not set
   const { userId, perm, effect, expectedVersion } = args;
+  if (!isKnownPermission(perm)) throw ERR.validation(`Unknown permission: ${perm}`);
   const res = await membershipsRepository.grantPerm(
     scopeId,
     userId,
@@ -253,8 +256,8 @@ export async function listMembers(args: ListMembersArgs) {
       userId,
       userName: user?.displayName ?? null,
       userEmail: user?.email ?? null,
-      roles: m.roles as { roleId: RoleId }[],
-      grants: m.grants as { perm: Permission; effect: GrantEffect }[],
+      roles: m.roles as { roleId: RoleKey }[],
+      grants: m.grants as { perm: PermissionKey; effect: GrantEffect }[],
       version: m.version,
       createdAt: m.createdAt ?? null,
       updatedAt: m.updatedAt ?? null,
@@ -307,7 +310,7 @@ export async function listMyMemberships(args: ListMyMembershipsArgs) {
     const sid = String((m as { scopeId: unknown }).scopeId);
     const t = tMap.get(sid);
     const roles =
-      (m as { roles?: Array<{ roleId: RoleId }> }).roles?.map(
+      (m as { roles?: Array<{ roleId: RoleKey }> }).roles?.map(
         (r) => r.roleId
       ) ?? [];
     const updatedAt = (m as { updatedAt?: Date }).updatedAt ?? null;
@@ -1,12 +1,20 @@
-import type { Permission } from "@unisane/gateway";
-import { ROLE_PERMS, PERM } from "@unisane/gateway";
-import { kv, logger } from "@unisane/kernel";
-import { KV } from "@unisane/kernel";
+import type { PermissionKey } from "@unisane/gateway";
+import { PERM } from "@unisane/gateway";
+import {
+  kv,
+  logger,
+  KV,
+  getRbacGeneration,
+  isBuiltinRole,
+  listPermissions,
+  resolveRolePerms,
+} from "@unisane/kernel";
 import {
-  usersRepository,
   membershipsRepository,
+  rolesRepository,
 } from "../data/repo";
 import { connectDb } from "@unisane/kernel";
+import { IDENTITY_DEFAULTS } from "../domain/constants";
 import { getUserGlobalRole } from "./users";
 
 const log = logger.child({ module: 'identity/perms' });
@@ -14,7 +22,11 @@ const log = logger.child({ module: 'identity/perms' });
 /**
  * Build cache key for user permissions.
  *
- * Key format: `{KV.PERMSET}{scopeId}:user:{userId}`
+ * Key format: `{KV.PERMSET}{scopeId}:{generation}:user:{userId}`
+ *
+ * The generation is the tenant's RBAC generation (`getRbacGeneration`). It
+ * changes whenever the tenant's custom roles change, so permission sets
+ * resolved from an older role definition are never read again.
  *
  * **Note:** The `:user:` segment ensures no collision with API key cache keys
  * which use `:key:` segment. This is safe because:
@@ -22,8 +34,8 @@ const log = logger.child({ module: 'identity/perms' });
  * - ApiKeyIds are also ObjectIds
  * - Neither can contain the `:` character
  */
-export function permCacheKeyForUser(scopeId: string, userId: string): string {
-  return `${KV.PERMSET}${scopeId}:user:${userId}`;
+export function permCacheKeyForUser(scopeId: string, userId: string, generation: string): string {
+  return `${KV.PERMSET}${scopeId}:${generation}:user:${userId}`;
 }
 
 export async function invalidatePermsForUser(
@@ -31,7 +43,8 @@ export async function invalidatePermsForUser(
   userId: string
 ): Promise<void> {
   try {
-    await kv.del(permCacheKeyForUser(scopeId, userId));
+    const generation = await getRbacGeneration(scopeId);
+    await kv.del(permCacheKeyForUser(scopeId, userId, generation));
   } catch {
     // best-effort
   }
@@ -63,72 +76,120 @@ export async function invalidatePermsForApiKey(
   }
 }
 
+/**
+ * A tenant's custom roles as `key → permissions`, cached per RBAC generation
+ * (not cached when the generation could not be read).
+ */
+export async function getCustomRolePerms(
+  scopeId: string,
+  generation: string | null
+): Promise<Record<string, PermissionKey[]>> {
+  const cacheKey = generation ? `${KV.ROLES}${scopeId}:${generation}` : null;
+  if (cacheKey) {
+    try {
+      const cached = await kv.get(cacheKey);
+      if (cached) {
+        const parsed: unknown = JSON.parse(cached);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed as Record<string, PermissionKey[]>;
+        }
+        await kv.del(cacheKey);
+      }
+    } catch (cacheReadError) {
+      log.warn('custom role cache read failed', {
+        scopeId,
+        cacheKey,
+        error: cacheReadError instanceof Error ? cacheReadError.message : String(cacheReadError),
+      });
+    }
+  }
+
+  const roles = await rolesRepository.listByScope(scopeId);
+  const map: Record<string, PermissionKey[]> = {};
+  for (const role of roles) map[role.key] = role.permissions;
+
+  if (cacheKey) {
+    try {
+      await kv.set(cacheKey, JSON.stringify(map), { PX: IDENTITY_DEFAULTS.PERMS_CACHE_TTL_MS });
+    } catch {
+      // best-effort
+    }
+  }
+  return map;
+}
+
 export async function getEffectivePerms(
   scopeId: string,
   userId: string
-): Promise<Permission[]> {
+): Promise<PermissionKey[]> {
   await connectDb();
-  const cacheKey = permCacheKeyForUser(scopeId, userId);
+  const generation = await getRbacGeneration(scopeId).catch(() => null);
+  // Without the generation a cached set could outlive a role change, so skip the cache
+  const cacheKey = generation ? permCacheKeyForUser(scopeId, userId, generation) : null;
 
   // Try to read from cache
-  try {
-    const cached = await kv.get(cacheKey);
-    if (cached) {
-      try {
-        const parsed = JSON.parse(cached);
-        // Validate the parsed value is an array of strings
-        if (Array.isArray(parsed) && parsed.every((p) => typeof p === 'string')) {
-          return parsed as Permission[];
+  if (cacheKey) {
+    try {
+      const cached = await kv.get(cacheKey);
+      if (cached) {
+        try {
+          const parsed = JSON.parse(cached);
+          // Validate the parsed value is an array of strings
+          if (Array.isArray(parsed) && parsed.every((p) => typeof p === 'string')) {
+            return parsed as PermissionKey[];
+          }
+          // Invalid format - log and invalidate
+          log.warn('permission cache invalid format', { scopeId, userId, cacheKey });
+          await kv.del(cacheKey);
+        } catch (parseError) {
+          // JSON parse failed - log and invalidate corrupted entry
+          log.error('permission cache parse failed', {
+            scopeId,
+            userId,
+            cacheKey,
+            error: parseError instanceof Error ? parseError.message : String(parseError),
+          });
+          // Delete corrupted cache entry to prevent repeated failures
+          await kv.del(cacheKey);
         }
-        // Invalid format - log and invalidate
-        log.warn('permission cache invalid format', { scopeId, userId, cacheKey });
-        await kv.del(cacheKey);
-      } catch (parseError) {
-        // JSON parse failed - log and invalidate corrupted entry
-        log.error('permission cache parse failed', {
-          scopeId,
-          userId,
-          cacheKey,
-          error: parseError instanceof Error ? parseError.message : String(parseError),
-        });
-        // Delete corrupted cache entry to prevent repeated failures
-        await kv.del(cacheKey);
       }
+    } catch (cacheReadError) {
+      // Cache read failed - log but continue to fetch from database
+      log.warn('permission cache read failed', {
+        scopeId,
+        userId,
+        cacheKey,
+        error: cacheReadError instanceof Error ? cacheReadError.message : String(cacheReadError),
+      });
     }
-  } catch (cacheReadError) {
-    // Cache read failed - log but continue to fetch from database
-    log.warn('permission cache read failed', {
-      scopeId,
-      userId,
-      cacheKey,
-      error: cacheReadError instanceof Error ? cacheReadError.message : String(cacheReadError),
-    });
   }
 
   // Fetch fresh permissions from database
   const m = await membershipsRepository.findByScopeAndUser(scopeId, userId);
-  const base: Set<Permission> = new Set();
-  for (const r of m?.roles ?? []) {
-    const bundle = ROLE_PERMS[r.roleId] ?? [];
-    for (const p of bundle) base.add(p);
-  }
+  const roleIds = (m?.roles ?? []).map((r) => r.roleId);
+  const customRoles = roleIds.some((r) => !isBuiltinRole(r))
+    ? await getCustomRolePerms(scopeId, generation)
+    : {};
+  const base = new Set<PermissionKey>(resolveRolePerms(roleIds, customRoles));
   for (const g of m?.grants ?? []) {
-    if (g.effect === "allow") base.add(g.perm as Permission);
-    else base.delete(g.perm as Permission);
+    if (g.effect === "allow") base.add(g.perm);
+    else base.delete(g.perm);
   }
   const perms = Array.from(base);
 
   // Try to cache the result
-  try {
-    await kv.set(cacheKey, JSON.stringify(perms), { PX: 60_000 });
-  } catch (cacheWriteError) {
-    // Cache write failed - log but return permissions (non-critical)
-    log.warn('permission cache write failed', {
-      scopeId,
-      userId,
-      cacheKey,
-      error: cacheWriteError instanceof Error ? cacheWriteError.message : String(cacheWriteError),
-    });
+  if (cacheKey) {
+    try {
+      await kv.set(cacheKey, JSON.stringify(perms), { PX: IDENTITY_DEFAULTS.PERMS_CACHE_TTL_MS });
+    } catch (cacheWriteError) {
+      // Cache write failed - log but return permissions (non-critical)
+      log.warn('permission cache write failed', {
+        scopeId,
+        userId,
+        cacheKey,
+        error: cacheWriteError instanceof Error ? cacheWriteError.message : String(cacheWriteError),
+      });
+    }
   }
 
   return perms;
@@ -136,7 +197,7 @@ export async function getEffectivePerms(
 
 // Overlay permission sets for global roles.
 // Keep conservative by default. Adjust as your policy evolves.
-const SUPPORT_ADMIN_OVERLAY: Permission[] = [
+const SUPPORT_ADMIN_OVERLAY: PermissionKey[] = [
   PERM.SETTINGS_READ,
   PERM.FLAGS_READ,
   PERM.MEMBERS_READ,
@@ -147,20 +208,21 @@ const SUPPORT_ADMIN_OVERLAY: Permission[] = [
 
 export async function applyGlobalOverlays(
   userId: string,
-  perms: Permission[]
-): Promise<{ perms: Permission[]; isSuperAdmin: boolean }> {
+  perms: PermissionKey[]
+): Promise<{ perms: PermissionKey[]; isSuperAdmin: boolean }> {
   await connectDb();
   try {
     const role = await getUserGlobalRole(userId);
     if (role === "super_admin") {
-      const merged = new Set<Permission>([
+      // Every core and module-registered permission
+      const merged = new Set<PermissionKey>([
         ...perms,
-        ...(Object.values(ROLE_PERMS).flat() as Permission[]),
+        ...listPermissions().map((p) => p.key),
       ]);
       return { perms: Array.from(merged), isSuperAdmin: true };
     }
     if (role === "support_admin") {
-      const merged = new Set<Permission>([...perms, ...SUPPORT_ADMIN_OVERLAY]);
+      const merged = new Set<PermissionKey>([...perms, ...SUPPORT_ADMIN_OVERLAY]);
       return { perms: Array.from(merged), isSuperAdmin: false };
     }
   } catch (error) {
@@ -0,0 +1,175 @@
+/**
+ * Tenant Roles
+ *
+ * Tenants compose custom roles from the permission catalog (core PERM plus
+ * the permissions modules register with `registerPermissions`). Members hold
+ * custom roles exactly like the built-in owner/admin/member/billing roles.
+ * Every change bumps the tenant's RBAC generation so cached permission sets
+ * resolved from the old definition are dropped at once.
+ */
+
+import { ERR } from "@unisane/gateway";
+import {
+  bumpRbacGeneration,
+  emitTypedReliable,
+  getScopeId,
+  isBuiltinRole,
+  isKnownPermission,
+  listPermissions,
+  BUILTIN_ROLES,
+  ROLE_PERMS,
+  type PermissionKey,
+  type RoleId,
+} from "@unisane/kernel";
+import { membershipsRepository, rolesRepository } from "../data/repo";
+import { IDENTITY_DEFAULTS } from "../domain/constants";
+
+import type { CreateRoleArgs, CustomRole, DeleteRoleArgs, UpdateRoleArgs } from "../domain/types";
+export type { CreateRoleArgs, DeleteRoleArgs, UpdateRoleArgs };
+
+const BUILTIN_ROLE_NAMES: Record<RoleId, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  billing: "Billing",
+};
+
+function toRoleDto(role: CustomRole) {
+  return {
+    key: role.key,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    builtin: false,
+    version: role.version,
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt,
+  } as const;
+}
+
+function builtinRoleDto(roleId: RoleId) {
+  return {
+    key: roleId,
+    name: BUILTIN_ROLE_NAMES[roleId],
+    description: null,
+    permissions: [...ROLE_PERMS[roleId]] as PermissionKey[],
+    builtin: true,
+    version: 0,
+    createdAt: null,
+    updatedAt: null,
+  } as const;
+}
+
+function assertKnownPermissions(permissions: readonly string[]): void {
+  const unknown = permissions.filter((p) => !isKnownPermission(p));
+  if (unknown.length > 0) {
+    throw ERR.validation(`Unknown permissions: ${unknown.join(", ")}`);
+  }
+}
+
+function assertCustomRoleKey(key: string): void {
+  if (isBuiltinRole(key)) throw ERR.validation(`'${key}' is a built-in role and cannot be changed`);
+}
+
+/**
+ * Throw unless the role is built-in or one of the tenant's custom roles.
+ */
+export async function assertRoleExists(scopeId: string, roleId: string): Promise<void> {
+  if (isBuiltinRole(roleId)) return;
+  const role = await rolesRepository.findByKey(scopeId, roleId);
+  if (!role) throw ERR.validation(`Unknown role: ${roleId}`);
+}
+
+/** Built-in roles followed by the tenant's custom roles */
+export async function listRoles() {
+  const scopeId = getScopeId(); // Throws if not set
+  const custom = await rolesRepository.listByScope(scopeId);
+  return {
+    items: [...BUILTIN_ROLES.map(builtinRoleDto), ...custom.map(toRoleDto)],
+  } as const;
+}
+
+export async function createRole(args: CreateRoleArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  assertCustomRoleKey(args.key);
+  assertKnownPermissions(args.permissions);
+
+  const existing = await rolesRepository.listByScope(scopeId);
+  if (existing.length >= IDENTITY_DEFAULTS.MAX_CUSTOM_ROLES) {
+    throw ERR.validation(`A tenant can have at most ${IDENTITY_DEFAULTS.MAX_CUSTOM_ROLES} custom roles`);
+  }
+
+  const permissions = [...new Set(args.permissions)];
+  const res = await rolesRepository.create({
+    scopeId,
+    key: args.key,
+    name: args.name,
+    description: args.description ?? null,
+    permissions,
+    createdBy: args.createdBy ?? null,
+  });
+  if ("conflict" in res) throw ERR.alreadyExists("Role");
+
+  await bumpRbacGeneration(scopeId);
+  await emitTypedReliable("identity.role.created", {
+    scopeId,
+    key: args.key,
+    permissions,
+    ...(args.createdBy ? { createdBy: args.createdBy } : {}),
+  });
+  return toRoleDto(res.role);
+}
+
+export async function updateRole(args: UpdateRoleArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  assertCustomRoleKey(args.key);
+  if (args.permissions) assertKnownPermissions(args.permissions);
+
+  const res = await rolesRepository.update(
+    scopeId,
+    args.key,
+    {
+      ...(args.name !== undefined ? { name: args.name } : {}),
+      ...(args.description !== undefined ? { description: args.description } : {}),
+      ...(args.permissions ? { permissions: [...new Set(args.permissions)] } : {}),
+    },
+    args.expectedVersion
+  );
+  if ("notFound" in res) throw ERR.notFound("Role");
+  if ("conflict" in res) throw ERR.versionMismatch();
+
+  // Members holding the role get the new permissions on their next request
+  await bumpRbacGeneration(scopeId);
+  await emitTypedReliable("identity.role.updated", {
+    scopeId,
+    key: res.role.key,
+    permissions: res.role.permissions,
+    version: res.role.version,
+  });
+  return toRoleDto(res.role);
+}
+
+/**
+ * Delete a custom role. Fails while members still hold it; reassign them
+ * first. Pending invitations for the role can no longer be accepted.
+ */
+export async function deleteRole(args: DeleteRoleArgs) {
+  const scopeId = getScopeId(); // Throws if not set
+  assertCustomRoleKey(args.key);
+
+  const assigned = await membershipsRepository.countByRole(scopeId, args.key);
+  if (assigned > 0) {
+    throw ERR.validation(`Role is assigned to ${assigned} member(s); remove it from them first`);
+  }
+  const { deleted } = await rolesRepository.delete(scopeId, args.key);
+  if (!deleted) throw ERR.notFound("Role");
+
+  await bumpRbacGeneration(scopeId);
+  await emitTypedReliable("identity.role.deleted", { scopeId, key: args.key });
+  return { ok: true as const };
+}
+
+/** Permissions that can be composed into custom roles */
+export async function listPermissionCatalog() {
+  return { items: listPermissions() } as const;
+}
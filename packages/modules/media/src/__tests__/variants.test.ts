@@ -0,0 +1,210 @@
+/**
+ * Media Variants Tests
+ *
+ * Tests for generating stored image variants and the backfill job.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import sharp from "sharp";
+import * as kernel from "@unisane/kernel";
+
+const objects = new Map<string, { body: Buffer; contentType?: string }>();
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    connectDb: vi.fn(async () => undefined),
+    getObjectBuffer: vi.fn(async (key: string) => {
+      const obj = objects.get(key);
+      if (!obj) throw new Error(`NoSuchKey: ${key}`);
+      return obj.body;
+    }),
+    putObjectBuffer: vi.fn(async (key: string, body: Buffer, opts?: { contentType?: string }) => {
+      objects.set(key, { body, ...(opts?.contentType ? { contentType: opts.contentType } : {}) });
+    }),
+  };
+});
+
+vi.mock("@unisane/storage", () => ({
+  StorageRepo: {
+    findById: vi.fn(),
+    setVariants: vi.fn(async () => null),
+    findMissingVariants: vi.fn(),
+  },
+}));
+
+import { MEDIA_VARIANTS, generateVariantKey, getScopeId } from "@unisane/kernel";
+import { StorageRepo, type StorageFile } from "@unisane/storage";
+import {
+  backfillMediaVariants,
+  configureMediaVariants,
+  generateFileVariants,
+  renderVariant,
+} from "../service/variants";
+
+const ORIGINAL_KEY = "tenant_1/attachments/2026/10/abc_photo.jpg.jpg";
+
+function storedFile(overrides: Partial<StorageFile> = {}): StorageFile {
+  return {
+    id: "665f1c2a9b1e8a0012345678",
+    scopeType: "tenant",
+    scopeId: "tenant_1",
+    uploaderId: "user_1",
+    key: ORIGINAL_KEY,
+    folder: "attachments",
+    filename: "photo.jpg",
+    contentType: "image/jpeg",
+    sizeBytes: 1000,
+    status: "active",
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+async function jpeg(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: "#3366cc" } }).jpeg().toBuffer();
+}
+
+beforeEach(async () => {
+  objects.clear();
+  vi.mocked(StorageRepo.findById).mockReset();
+  vi.mocked(StorageRepo.setVariants).mockClear();
+  vi.mocked(StorageRepo.findMissingVariants).mockReset();
+  objects.set(ORIGINAL_KEY, { body: await jpeg(3000, 1500), contentType: "image/jpeg" });
+});
+
+afterEach(() => {
+  configureMediaVariants({ ...MEDIA_VARIANTS });
+});
+
+describe("generateVariantKey", () => {
+  it("should place the variant next to the original", () => {
+    expect(generateVariantKey("s/f/2026/10/id_a.png", "thumb", "webp")).toBe("s/f/2026/10/id_a.thumb.webp");
+    expect(generateVariantKey("s/f.d/noext", "avif", "avif")).toBe("s/f.d/noext.avif.avif");
+  });
+});
+
+describe("renderVariant", () => {
+  it("should crop preset variants to the preset size", async () => {
+    const result = await renderVariant(await jpeg(800, 400), { preset: "THUMBNAIL" });
+    expect(result.width).toBe(150);
+    expect(result.height).toBe(150);
+    expect(result.contentType).toBe("image/webp");
+  });
+
+  it("should downscale format variants keeping the aspect ratio", async () => {
+    const result = await renderVariant(await jpeg(3000, 1500), { format: "webp", maxWidth: 2048 });
+    expect(result.width).toBe(2048);
+    expect(result.height).toBe(1024);
+  });
+
+  it("should not upscale images narrower than maxWidth", async () => {
+    const result = await renderVariant(await jpeg(640, 480), { format: "avif", maxWidth: 2048 });
+    expect(result.width).toBe(640);
+    expect(result.height).toBe(480);
+    expect(result.contentType).toBe("image/avif");
+  });
+});
+
+describe("generateFileVariants", () => {
+  it("should store every configured variant and record its key", async () => {
+    vi.mocked(StorageRepo.findById).mockResolvedValue(storedFile());
+
+    const result = await generateFileVariants({ fileId: "665f1c2a9b1e8a0012345678" });
+
+    expect(result.generated.sort()).toEqual(["avif", "thumb", "webp"]);
+    expect(result.failed).toEqual([]);
+    const recorded = vi.mocked(StorageRepo.setVariants).mock.calls[0]![1];
+    expect(recorded.thumb!.key).toBe("tenant_1/attachments/2026/10/abc_photo.jpg.thumb.webp");
+    expect(recorded.avif!.contentType).toBe("image/avif");
+    expect(objects.get(recorded.webp!.key)?.contentType).toBe("image/webp");
+  });
+
+  it("should only generate variants the file is missing", async () => {
+    vi.mocked(StorageRepo.findById).mockResolvedValue(
+      storedFile({
+        variants: {
+          thumb: { key: "k.thumb.webp", contentType: "image/webp", sizeBytes: 1 },
+          webp: { key: "k.webp.webp", contentType: "image/webp", sizeBytes: 1 },
+        },
+      })
+    );
+
+    const result = await generateFileVariants({ fileId: "665f1c2a9b1e8a0012345678" });
+
+    expect(result.generated).toEqual(["avif"]);
+    expect(Object.keys(vi.mocked(StorageRepo.setVariants).mock.calls[0]![1])).toEqual(["avif"]);
+  });
+
+  it("should skip files that are not processable images", async () => {
+    vi.mocked(StorageRepo.findById).mockResolvedValue(storedFile({ contentType: "application/pdf" }));
+
+    const result = await generateFileVariants({ fileId: "665f1c2a9b1e8a0012345678" });
+
+    expect(result.skipped).toBe("unsupported");
+    expect(StorageRepo.setVariants).not.toHaveBeenCalled();
+  });
+
+  it("should skip missing or deleted files", async () => {
+    vi.mocked(StorageRepo.findById).mockResolvedValue(storedFile({ status: "deleted" }));
+    expect((await generateFileVariants({ fileId: "x" })).skipped).toBe("not_found");
+  });
+
+  it("should record the variants that succeeded when one fails", async () => {
+    configureMediaVariants({ thumb: { preset: "THUMBNAIL" }, huge: { preset: "NOPE" as never } });
+    vi.mocked(StorageRepo.findById).mockResolvedValue(storedFile());
+
+    const result = await generateFileVariants({ fileId: "665f1c2a9b1e8a0012345678" });
+
+    expect(result.generated).toEqual(["thumb"]);
+    expect(result.failed).toEqual(["huge"]);
+  });
+});
+
+describe("configureMediaVariants", () => {
+  it("should reject names that cannot be used in keys", () => {
+    expect(() => configureMediaVariants({ "a/b": { preset: "THUMBNAIL" } })).toThrow(/Invalid media variant name/);
+  });
+});
+
+describe("backfillMediaVariants", () => {
+  it("should page through files missing a newly added variant within each file's scope", async () => {
+    configureMediaVariants({ ...MEDIA_VARIANTS, banner: { preset: "BANNER" } });
+    const first = storedFile({ id: "665f1c2a9b1e8a0000000001", scopeId: "tenant_a" });
+    const second = storedFile({ id: "665f1c2a9b1e8a0000000002", scopeId: "tenant_b" });
+    vi.mocked(StorageRepo.findMissingVariants)
+      .mockResolvedValueOnce([first])
+      .mockResolvedValueOnce([second])
+      .mockResolvedValueOnce([]);
+    const scopes: string[] = [];
+    vi.mocked(StorageRepo.findById).mockImplementation(async (id: string) => {
+      scopes.push(getScopeId());
+      return id === first.id
+        ? storedFile({
+            ...first,
+            variants: Object.fromEntries(
+              Object.keys(MEDIA_VARIANTS).map((n) => [n, { key: `k.${n}`, contentType: "image/webp", sizeBytes: 1 }])
+            ),
+          })
+        : second;
+    });
+
+    const result = await backfillMediaVariants({ batchSize: 1 });
+
+    expect(scopes).toEqual(["tenant_a", "tenant_b"]);
+    expect(result).toEqual({ checked: 2, generated: 5, failed: 0 });
+    expect(vi.mocked(StorageRepo.findMissingVariants).mock.calls[0]![0].variants).toContain("banner");
+    expect(vi.mocked(StorageRepo.findMissingVariants).mock.calls[1]![0].afterId).toBe(first.id);
+  });
+
+  it("should stop at the deadline", async () => {
+    vi.mocked(StorageRepo.findMissingVariants).mockResolvedValue([storedFile()]);
+
+    const result = await backfillMediaVariants({ deadlineMs: Date.now() - 1 });
+
+    expect(result.checked).toBe(0);
+    expect(StorageRepo.findById).not.toHaveBeenCalled();
+  });
+});
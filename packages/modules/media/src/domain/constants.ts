@@ -12,8 +12,26 @@ export const MEDIA_DEFAULTS = {
   MAX_IMAGE_SIZE: 10 * 1024 * 1024,
   MAX_VIDEO_SIZE: 100 * 1024 * 1024,
   THUMBNAIL_SIZE: 200,
+  /** Files per backfill batch */
+  BACKFILL_BATCH_SIZE: 50,
 } as const;
 
+/**
+ * Stored content types that get image variants generated.
+ * SVG is excluded: it is already resolution independent.
+ */
+export const MEDIA_PROCESSABLE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/heic',
+  'image/heif',
+  'image/tiff',
+  'image/bmp',
+] as const;
+
 export const MEDIA_COLLECTIONS = {
   MEDIA: 'media',
 } as const;
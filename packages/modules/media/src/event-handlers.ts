@@ -6,7 +6,7 @@
  * as part of the hexagonal architecture.
  *
  * The media module listens for:
- * - Storage upload events (to process uploaded images/videos)
+ * - Storage upload events (to generate image variants)
  * - User avatar update requests
  * - Tenant branding update requests
  *
@@ -19,24 +19,15 @@
  * ```
  */
 
-import { logger, onTyped } from '@unisane/kernel';
+import { logger, onTyped, runWithScope } from '@unisane/kernel';
+import { generateFileVariants } from './service/variants';
 
 const log = logger.child({ module: 'media', component: 'event-handlers' });
 
-// Content types that the media module should process
-const PROCESSABLE_CONTENT_TYPES = [
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'image/webp',
-  'image/avif',
-  'image/heic',
-  'image/tiff',
-];
-
 /**
  * Handle storage upload events.
- * Triggers media processing for image uploads.
+ * Generates the configured image variants next to the uploaded original.
+ * Failures are left for the variant backfill job to retry.
  */
 async function handleStorageUploadConfirmed(payload: {
   scopeId: string;
@@ -46,28 +37,22 @@ async function handleStorageUploadConfirmed(payload: {
 }): Promise<void> {
   const { scopeId: tenantId, fileId, key } = payload;
 
-  // Check if this is an image that should be processed
-  const extension = key.split('.').pop()?.toLowerCase();
-  const isImage = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'tiff'].includes(
-    extension ?? ''
-  );
-
-  if (!isImage) {
-    return;
-  }
-
-  log.info('handling image upload for media processing', {
-    tenantId,
-    fileId,
-    key,
-  });
-
   try {
-    // Queue image processing job
-    // This would typically create thumbnail, optimize, etc.
-    log.debug('image processing queued', { tenantId, fileId, key });
+    const result = await runWithScope({ type: 'tenant', id: tenantId }, () =>
+      generateFileVariants({ fileId })
+    );
+    if (result.skipped) {
+      log.debug('media variants skipped', { tenantId, fileId, key, reason: result.skipped });
+      return;
+    }
+    log.info('media variants generated', {
+      tenantId,
+      fileId,
+      generated: result.generated,
+      failed: result.failed,
+    });
   } catch (error) {
-    log.error('failed to queue image processing', {
+    log.error('failed to generate media variants', {
       tenantId,
       fileId,
       error: error instanceof Error ? error.message : String(error),
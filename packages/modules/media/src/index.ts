@@ -21,7 +21,12 @@ export { MediaNotFoundError, MediaProcessingError, UnsupportedMediaTypeError } f
 // Domain - Constants
 // ════════════════════════════════════════════════════════════════════════════
 
-export { MEDIA_EVENTS, MEDIA_DEFAULTS, MEDIA_COLLECTIONS } from './domain/constants';
+export {
+  MEDIA_EVENTS,
+  MEDIA_DEFAULTS,
+  MEDIA_COLLECTIONS,
+  MEDIA_PROCESSABLE_CONTENT_TYPES,
+} from './domain/constants';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Domain - Cache Keys
@@ -48,3 +53,23 @@ export {
   optimizeImage,
   generateVariants,
 } from "./service/transform";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Services - Stored File Variants
+// ════════════════════════════════════════════════════════════════════════════
+
+export {
+  configureMediaVariants,
+  getMediaVariants,
+  isProcessableContentType,
+  renderVariant,
+  generateFileVariants,
+  backfillMediaVariants,
+} from "./service/variants";
+export type { GenerateFileVariantsResult } from "./service/variants";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Event Handlers
+// ════════════════════════════════════════════════════════════════════════════
+
+export { registerMediaEventHandlers } from "./event-handlers";
@@ -0,0 +1,172 @@
+import {
+  ALLOWED_CONTENT_TYPES,
+  FILE_STATUS,
+  MEDIA_VARIANTS,
+  connectDb,
+  generateVariantKey,
+  getObjectBuffer,
+  logger,
+  putObjectBuffer,
+  runWithScope,
+  type AllowedContentType,
+  type MediaVariantConfig,
+} from "@unisane/kernel";
+import { StorageRepo, type StorageFileVariant } from "@unisane/storage";
+import { MEDIA_DEFAULTS, MEDIA_PROCESSABLE_CONTENT_TYPES } from "../domain/constants";
+import type { TransformResult } from "../domain/types";
+import { getImageMetadata, isSharpAvailable, transformImage, transformWithPreset } from "./transform";
+
+const log = logger.child({ module: "media", component: "variants" });
+
+let configuredVariants: Record<string, MediaVariantConfig> = { ...MEDIA_VARIANTS };
+
+/**
+ * Replace the variants generated for image uploads (defaults to
+ * `MEDIA_VARIANTS`). Files stored before a variant was added get it from
+ * `backfillMediaVariants`.
+ */
+export function configureMediaVariants(variants: Record<string, MediaVariantConfig>): void {
+  for (const name of Object.keys(variants)) {
+    if (!/^[a-z0-9_-]+$/i.test(name)) {
+      throw new Error(`Invalid media variant name: ${name}`);
+    }
+  }
+  configuredVariants = { ...variants };
+}
+
+export function getMediaVariants(): Readonly<Record<string, MediaVariantConfig>> {
+  return configuredVariants;
+}
+
+export function isProcessableContentType(contentType: string): boolean {
+  return (MEDIA_PROCESSABLE_CONTENT_TYPES as readonly string[]).includes(contentType);
+}
+
+/**
+ * Render one variant from the original image bytes. Preset variants are
+ * cropped to the preset size; format variants keep the aspect ratio and are
+ * only downscaled.
+ */
+export async function renderVariant(buffer: Buffer, config: MediaVariantConfig): Promise<TransformResult> {
+  if ("preset" in config) {
+    return transformWithPreset(buffer, config.preset);
+  }
+  const meta = config.maxWidth ? await getImageMetadata(buffer) : null;
+  return transformImage(buffer, {
+    format: config.format,
+    fit: "inside",
+    ...(config.quality ? { quality: config.quality } : {}),
+    ...(meta && config.maxWidth && meta.width > config.maxWidth ? { width: config.maxWidth } : {}),
+  });
+}
+
+function extensionFor(contentType: string, format: string): string {
+  return ALLOWED_CONTENT_TYPES[contentType as AllowedContentType]?.ext ?? format;
+}
+
+export type GenerateFileVariantsResult = {
+  fileId: string;
+  generated: string[];
+  failed: string[];
+  skipped?: "not_found" | "unsupported" | "up_to_date" | "sharp_unavailable";
+};
+
+/**
+ * Generate the configured variants a stored image does not have yet, write
+ * them next to the original and record their keys on the file.
+ * Must run within the file's scope.
+ */
+export async function generateFileVariants(args: { fileId: string }): Promise<GenerateFileVariantsResult> {
+  await connectDb();
+  const base = { fileId: args.fileId, generated: [], failed: [] };
+
+  const file = await StorageRepo.findById(args.fileId);
+  if (!file || file.status !== FILE_STATUS.ACTIVE) return { ...base, skipped: "not_found" };
+  if (!isProcessableContentType(file.contentType)) return { ...base, skipped: "unsupported" };
+
+  const missing = Object.entries(configuredVariants).filter(([name]) => !file.variants?.[name]);
+  if (missing.length === 0) return { ...base, skipped: "up_to_date" };
+  if (!(await isSharpAvailable())) return { ...base, skipped: "sharp_unavailable" };
+
+  const original = await getObjectBuffer(file.key);
+  const recorded: Record<string, StorageFileVariant> = {};
+  const failed: string[] = [];
+
+  for (const [name, config] of missing) {
+    try {
+      const result = await renderVariant(original, config);
+      const key = generateVariantKey(file.key, name, extensionFor(result.contentType, result.format));
+      await putObjectBuffer(key, result.buffer, { contentType: result.contentType });
+      recorded[name] = {
+        key,
+        contentType: result.contentType,
+        sizeBytes: result.sizeBytes,
+        width: result.width,
+        height: result.height,
+      };
+    } catch (error) {
+      failed.push(name);
+      log.warn("media variant generation failed", {
+        fileId: file.id,
+        variant: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const generated = Object.keys(recorded);
+  if (generated.length > 0) {
+    await StorageRepo.setVariants(file.id, recorded);
+  }
+  return { fileId: file.id, generated, failed };
+}
+
+/**
+ * Generate missing variants for existing images across all scopes, e.g.
+ * after a variant was added to the configuration. Stops at `deadlineMs`;
+ * files still missing variants are picked up by the next run.
+ */
+export async function backfillMediaVariants(opts: { deadlineMs?: number; batchSize?: number } = {}): Promise<{
+  checked: number;
+  generated: number;
+  failed: number;
+}> {
+  const summary = { checked: 0, generated: 0, failed: 0 };
+  const names = Object.keys(configuredVariants);
+  if (names.length === 0) return summary;
+  if (!(await isSharpAvailable())) {
+    log.warn("media variant backfill skipped: sharp not available");
+    return summary;
+  }
+  await connectDb();
+
+  const limit = opts.batchSize ?? MEDIA_DEFAULTS.BACKFILL_BATCH_SIZE;
+  let afterId: string | undefined;
+  for (;;) {
+    const files = await StorageRepo.findMissingVariants({
+      variants: names,
+      contentTypes: [...MEDIA_PROCESSABLE_CONTENT_TYPES],
+      ...(afterId ? { afterId } : {}),
+      limit,
+    });
+    for (const file of files) {
+      if (opts.deadlineMs && Date.now() > opts.deadlineMs) return summary;
+      summary.checked++;
+      try {
+        const result = await runWithScope({ type: file.scopeType, id: file.scopeId }, () =>
+          generateFileVariants({ fileId: file.id })
+        );
+        summary.generated += result.generated.length;
+        summary.failed += result.failed.length;
+      } catch (error) {
+        summary.failed++;
+        log.warn("media variant backfill failed for file", {
+          fileId: file.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      afterId = file.id;
+    }
+    if (files.length < limit) return summary;
+  }
+}
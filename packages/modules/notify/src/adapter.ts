@@ -29,6 +29,7 @@ export const notifyAdapter: NotifyPort = {
       template: args.template,
       props: args.data,
       ...(args.options?.subject ? { subject: args.options.subject } : {}),
+      ...(args.options?.attachments?.length ? { attachments: args.options.attachments } : {}),
     });
 
     const emailResult: EmailResult = {
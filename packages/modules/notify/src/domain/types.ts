@@ -1,5 +1,5 @@
 import type { z } from "zod";
-import type { NotificationCategory } from "@unisane/kernel";
+import type { EmailAttachment, NotificationCategory } from "@unisane/kernel";
 
 export type InappNotificationView = {
   id: string;
@@ -33,6 +33,8 @@ export type SendEmailInput = {
    * Required if category is set and you want to respect user preferences.
    */
   userId?: string | null;
+  /** Files attached to the message (e.g. invoice PDFs) */
+  attachments?: EmailAttachment[];
 };
 
 export type EnqueueEmailArgs = {
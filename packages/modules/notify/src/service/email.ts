@@ -53,6 +53,7 @@ export async function sendEmail(
     html: rendered.html,
     text: rendered.text,
     headers,
+    ...(input.attachments?.length ? { attachments: input.attachments } : {}),
   });
 
   if (!result.success) {
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    getScopeId: vi.fn(() => "tenant_1"),
+    getScopePlan: vi.fn(async () => "pro"),
+    isEnabledForScope: vi.fn(async () => true),
+    connectDb: vi.fn(async () => undefined),
+    assertActiveSubscriptionForCreditsViaPort: vi.fn(async () => undefined),
+    enforceTokensAndQuota: vi.fn(async () => ({ ok: true })),
+  };
+});
+
+vi.mock("@unisane/storage", () => ({
+  storeFile: vi.fn(async (args: { filename: string }) => ({
+    file: { id: "file_1", key: `tenant_1/documents/2026/01/uuid_${args.filename}.pdf` },
+    url: "https://storage.test/signed",
+    expiresAt: 1700000000,
+  })),
+}));
+
+import {
+  enforceTokensAndQuota,
+  isEnabledForScope,
+  registerAllEventSchemas,
+  setPdfRenderer,
+  type PdfRendererPort,
+} from "@unisane/kernel";
+import { storeFile } from "@unisane/storage";
+import { renderPdf } from "../service/render";
+import { writePdf } from "../domain/pdf-writer";
+import { InvalidTemplateError, PdfGenerationError } from "../domain/errors";
+
+const PROVIDERS_KEY = Symbol.for("@@unisane/kernel/providers");
+
+function clearRenderer() {
+  (globalThis as unknown as Record<symbol, Map<string, unknown>>)[PROVIDERS_KEY]?.delete("pdfRenderer");
+}
+
+describe("renderPdf", () => {
+  beforeAll(async () => {
+    await registerAllEventSchemas();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearRenderer();
+  });
+
+  it("should store the rendered document and return a signed URL", async () => {
+    const res = await renderPdf({
+      html: "<h1>Invoice {{number}}</h1><p>Due soon</p>",
+      data: { number: "INV-7" },
+      filename: "invoice.pdf",
+      userId: "user_1",
+    });
+
+    expect(res).toMatchObject({
+      url: "https://storage.test/signed",
+      fileId: "file_1",
+      expiresAt: 1700000000,
+      pages: 1,
+    });
+    const stored = vi.mocked(storeFile).mock.calls[0]![0];
+    expect(stored).toMatchObject({
+      uploaderId: "user_1",
+      folder: "documents",
+      filename: "invoice.pdf",
+      contentType: "application/pdf",
+      metadata: { source: "pdf.render", renderer: "builtin", pages: 1 },
+    });
+    expect(Buffer.from(stored.body).subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("should meter the page count of the produced document", async () => {
+    const renderer: PdfRendererPort = {
+      name: "spy",
+      // Reports 1 page but the document has 3; metering follows the bytes
+      render: vi.fn(async () => ({
+        bytes: writePdf({ pages: [[], [], []], width: 612, height: 792 }),
+        pageCount: 1,
+      })),
+    };
+    setPdfRenderer(renderer);
+
+    const res = await renderPdf({ html: "<p>x</p>", pageSize: "Letter", landscape: true });
+
+    expect(res.pages).toBe(3);
+    expect(renderer.render).toHaveBeenCalledWith({ html: "<p>x</p>", pageSize: "Letter", margin: 20, landscape: true });
+    expect(enforceTokensAndQuota).toHaveBeenCalledWith({
+      tenantId: "tenant_1",
+      featureKey: kernel.FEATURE.PDF_RENDER,
+      tokens: 3,
+    });
+    expect(vi.mocked(storeFile).mock.calls[0]![0].uploaderId).toBe("system");
+  });
+
+  it("should fall back to the renderer page count when the output cannot be parsed", async () => {
+    setPdfRenderer({ name: "opaque", render: async () => ({ bytes: new Uint8Array([1, 2, 3]), pageCount: 4 }) });
+
+    const res = await renderPdf({ html: "<p>x</p>" });
+
+    expect(res.pages).toBe(4);
+  });
+
+  it("should reject when the feature flag is off", async () => {
+    vi.mocked(isEnabledForScope).mockResolvedValueOnce(false);
+
+    await expect(renderPdf({ html: "<p>x</p>" })).rejects.toMatchObject({ status: 403 });
+    expect(storeFile).not.toHaveBeenCalled();
+  });
+
+  it("should reject empty HTML", async () => {
+    await expect(renderPdf({ html: "  " })).rejects.toBeInstanceOf(InvalidTemplateError);
+  });
+
+  it("should not meter or store when rendering fails", async () => {
+    setPdfRenderer({
+      name: "broken",
+      render: async () => {
+        throw new Error("browser crashed");
+      },
+    });
+
+    await expect(renderPdf({ html: "<p>x</p>" })).rejects.toBeInstanceOf(PdfGenerationError);
+    expect(enforceTokensAndQuota).not.toHaveBeenCalled();
+    expect(storeFile).not.toHaveBeenCalled();
+  });
+});
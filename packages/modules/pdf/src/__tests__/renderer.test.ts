@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { inflateSync } from "node:zlib";
+import { parseHtml } from "../domain/html";
+import { layoutBlocks, wrapRuns } from "../domain/layout";
+import { countPdfPages, writePdf } from "../domain/pdf-writer";
+import { interpolateHtml } from "../domain/template";
+import { createBuiltinPdfRenderer } from "../providers/builtin";
+
+function pageStreams(bytes: Uint8Array): string[] {
+  const buf = Buffer.from(bytes);
+  const streams: string[] = [];
+  let from = 0;
+  for (;;) {
+    const start = buf.indexOf(">>\nstream\n", from);
+    if (start === -1) break;
+    const end = buf.indexOf("\nendstream", start);
+    streams.push(inflateSync(buf.subarray(start + ">>\nstream\n".length, end)).toString("latin1"));
+    from = end + 1;
+  }
+  return streams;
+}
+
+describe("parseHtml", () => {
+  it("should split headings, paragraphs and list items into blocks", () => {
+    const blocks = parseHtml(
+      "<html><head><style>p{color:red}</style></head><body>" +
+        "<h1>Invoice</h1><p>Thanks <strong>Acme</strong> &amp; co.</p>" +
+        "<ol><li>First</li><li>Second</li></ol></body></html>"
+    );
+
+    expect(blocks).toEqual([
+      { kind: "text", style: "h1", runs: [{ text: "Invoice", bold: true }], indent: 0 },
+      {
+        kind: "text",
+        style: "p",
+        runs: [
+          { text: "Thanks ", bold: false },
+          { text: "Acme", bold: true },
+          { text: " & co.", bold: false },
+        ],
+        indent: 0,
+      },
+      { kind: "text", style: "p", runs: [{ text: "First", bold: false }], indent: 18, marker: "1." },
+      { kind: "text", style: "p", runs: [{ text: "Second", bold: false }], indent: 18, marker: "2." },
+    ]);
+  });
+
+  it("should collect table rows and bold header cells", () => {
+    const blocks = parseHtml(
+      "<table><tr><th>Item</th><th>Total</th></tr><tr><td>Pro plan</td><td>$29</td></tr></table>"
+    );
+
+    expect(blocks).toEqual([
+      { kind: "row", cells: [[{ text: "Item", bold: true }], [{ text: "Total", bold: true }]] },
+      { kind: "row", cells: [[{ text: "Pro plan", bold: false }], [{ text: "$29", bold: false }]] },
+    ]);
+  });
+
+  it("should honour CSS page breaks and horizontal rules", () => {
+    const blocks = parseHtml(
+      '<p>One</p><hr><div style="page-break-before: always">Two</div><p style="break-after: page">Three</p><p>Four</p>'
+    );
+
+    expect(blocks.map((b) => b.kind)).toEqual(["text", "rule", "page-break", "text", "text", "page-break", "text"]);
+  });
+});
+
+describe("wrapRuns", () => {
+  it("should wrap words to the available width", () => {
+    const lines = wrapRuns([{ text: "alpha beta gamma delta", bold: false }], { size: 10, maxWidth: 60 });
+
+    expect(lines.map((l) => l.map((s) => s.text).join(""))).toEqual(["alpha beta", "gamma delta"]);
+  });
+
+  it("should hard-break words longer than a line", () => {
+    const lines = wrapRuns([{ text: "x".repeat(40), bold: false }], { size: 10, maxWidth: 50 });
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.map((l) => l[0]!.text).join("")).toBe("x".repeat(40));
+  });
+});
+
+describe("layoutBlocks", () => {
+  it("should flow long content onto additional pages", () => {
+    const html = Array.from({ length: 120 }, (_, i) => `<p>Paragraph ${i}</p>`).join("");
+    const pages = layoutBlocks(parseHtml(html), { width: 612, height: 792, margin: 36 });
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const ops of pages) {
+      for (const op of ops) if (op.kind === "text") expect(op.y).toBeGreaterThanOrEqual(36 - 11);
+    }
+  });
+
+  it("should return a single empty page for empty input", () => {
+    expect(layoutBlocks([], { width: 612, height: 792, margin: 36 })).toEqual([[]]);
+  });
+});
+
+describe("writePdf / countPdfPages", () => {
+  it("should write a parseable document with one page object per page", () => {
+    const bytes = writePdf({ pages: [[], [], []], width: 612, height: 792, title: "Report" });
+    const text = Buffer.from(bytes).toString("latin1");
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain("/Title (Report)");
+    expect(countPdfPages(bytes)).toBe(3);
+  });
+
+  it("should point the xref table at each object", () => {
+    const bytes = writePdf({ pages: [[]], width: 612, height: 792 });
+    const text = Buffer.from(bytes).toString("latin1");
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    const offsets = text
+      .slice(startxref)
+      .split("\n")
+      .filter((l) => / 00000 n $/.test(l))
+      .map((l) => Number(l.slice(0, 10)));
+
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it("should escape delimiters and encode non-ASCII text", () => {
+    const bytes = writePdf({
+      pages: [[{ kind: "text", x: 10, y: 10, text: "Total (net): 5 €", font: "regular", size: 10 }]],
+      width: 612,
+      height: 792,
+    });
+
+    expect(pageStreams(bytes)[0]).toContain("(Total \\(net\\): 5 \\200) Tj");
+  });
+
+  it("should count pages of documents from other producers", () => {
+    const foreign = Buffer.from(
+      "%PDF-1.7\n1 0 obj\n<< /Type /Page /Parent 3 0 R >>\nendobj\n2 0 obj\n<< /Type /Page /Parent 3 0 R >>\nendobj\n",
+      "latin1"
+    );
+
+    expect(countPdfPages(foreign)).toBe(2);
+    expect(countPdfPages(Buffer.from("not a pdf"))).toBeNull();
+  });
+});
+
+describe("createBuiltinPdfRenderer", () => {
+  it("should render HTML with the page count of the output", async () => {
+    const renderer = createBuiltinPdfRenderer();
+    const html = '<h1>Hello</h1><p>World</p><div style="page-break-before: always"><p>Second page</p></div>';
+
+    const out = await renderer.render({ html, pageSize: "A4" });
+
+    expect(out.pageCount).toBe(2);
+    expect(countPdfPages(out.bytes)).toBe(2);
+    const [first, second] = pageStreams(out.bytes);
+    expect(first).toContain("/F2 22 Tf");
+    expect(first).toContain("(Hello) Tj");
+    expect(second).toContain("(Second page) Tj");
+  });
+
+  it("should swap page dimensions for landscape", async () => {
+    const out = await createBuiltinPdfRenderer().render({ html: "<p>x</p>", pageSize: "Letter", landscape: true });
+
+    expect(Buffer.from(out.bytes).toString("latin1")).toContain("/MediaBox [0 0 792 612]");
+  });
+});
+
+describe("interpolateHtml", () => {
+  it("should fill nested placeholders with escaped values", () => {
+    const html = interpolateHtml("<p>{{ customer.name }} owes {{amount}}{{missing}}</p>", {
+      customer: { name: "<Ann & Bo>" },
+      amount: 12.5,
+    });
+
+    expect(html).toBe("<p>&lt;Ann &amp; Bo&gt; owes 12.5</p>");
+  });
+});
@@ -11,8 +11,19 @@ export const PDF_DEFAULTS = {
   DEFAULT_PAGE_SIZE: 'A4',
   DEFAULT_MARGIN: 20,
   MAX_TEMPLATE_SIZE: 1024 * 1024,
+  MAX_PAGES: 200,
+  DEFAULT_FILENAME: 'document.pdf',
 } as const;
 
 export const PDF_COLLECTIONS = {
   TEMPLATES: 'pdf_templates',
 } as const;
+
+/**
+ * Page sizes in points (1/72 inch), portrait orientation.
+ */
+export const PDF_PAGE_SIZES = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 },
+} as const;
@@ -0,0 +1,97 @@
+/**
+ * Standard 14 font metrics for the built-in renderer.
+ *
+ * Helvetica and Helvetica-Bold are available in every PDF reader without
+ * embedding, so only their advance widths (1/1000 em, WinAnsiEncoding) are
+ * needed to lay out text.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+/** PDF resource names used in content streams */
+export const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Widths for char codes 32..126
+const HELVETICA_ASCII = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_ASCII = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** WinAnsiEncoding code points for characters outside Latin-1 */
+const WIN_ANSI_EXTRA: Record<number, number> = {
+  0x20ac: 0x80, // €
+  0x2026: 0x85, // …
+  0x2018: 0x91, // ‘
+  0x2019: 0x92, // ’
+  0x201c: 0x93, // “
+  0x201d: 0x94, // ”
+  0x2022: 0x95, // •
+  0x2013: 0x96, // –
+  0x2014: 0x97, // —
+  0x2122: 0x99, // ™
+};
+
+const WIN_ANSI_EXTRA_WIDTHS: Record<number, [number, number]> = {
+  0x80: [556, 556],
+  0x85: [1000, 1000],
+  0x91: [222, 278],
+  0x92: [222, 278],
+  0x93: [333, 500],
+  0x94: [333, 500],
+  0x95: [350, 350],
+  0x96: [556, 556],
+  0x97: [1000, 1000],
+  0x99: [1000, 1000],
+};
+
+/** Fallback for Latin-1 letters, whose widths mostly match the base glyph */
+const DEFAULT_WIDTH = 556;
+const REPLACEMENT = 0x3f; // '?'
+
+/**
+ * Map a Unicode string to WinAnsiEncoding byte codes. Characters the standard
+ * fonts cannot show are replaced with '?'.
+ */
+export function encodeWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    if ((cp >= 0x20 && cp <= 0x7e) || (cp >= 0xa0 && cp <= 0xff)) codes.push(cp);
+    else codes.push(WIN_ANSI_EXTRA[cp] ?? REPLACEMENT);
+  }
+  return codes;
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  if (code >= 32 && code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_ASCII : HELVETICA_ASCII)[code - 32]!;
+  }
+  const extra = WIN_ANSI_EXTRA_WIDTHS[code];
+  if (extra) return font === 'bold' ? extra[1] : extra[0];
+  return DEFAULT_WIDTH;
+}
+
+/**
+ * Width of `text` in points at `size`.
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let units = 0;
+  for (const code of encodeWinAnsi(text)) units += charWidth(code, font);
+  return (units * size) / 1000;
+}
@@ -0,0 +1,200 @@
+/**
+ * HTML to block model for the built-in renderer.
+ *
+ * Supports the subset used by documents such as invoices and reports:
+ * headings, paragraphs, lists, tables, line breaks, horizontal rules,
+ * preformatted text, bold/strong and CSS page breaks. Styles, scripts and
+ * unknown tags are ignored; their text content is kept.
+ */
+
+export type TextStyle = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'p' | 'pre';
+
+export interface TextRun {
+  text: string;
+  bold: boolean;
+}
+
+export type HtmlBlock =
+  | { kind: 'text'; style: TextStyle; runs: TextRun[]; indent: number; marker?: string }
+  | { kind: 'row'; cells: TextRun[][] }
+  | { kind: 'rule' }
+  | { kind: 'page-break' };
+
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'title', 'template', 'noscript']);
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'wbr', 'area', 'base']);
+const BOLD_TAGS = new Set(['b', 'strong', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const BLOCK_TAGS = new Set([
+  'html', 'body', 'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside',
+  'address', 'figure', 'figcaption', 'blockquote', 'pre', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'caption', 'form', 'fieldset',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+const INDENT_STEP = 18;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§',
+  deg: '°', plusmn: '±', times: '×', divide: '÷', middot: '·', laquo: '«', raquo: '»',
+  mdash: '—', ndash: '–', hellip: '…', bull: '•',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const cp = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(cp) && cp > 0 && cp <= 0x10ffff ? String.fromCodePoint(cp) : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+function breakBefore(attrs: string): boolean {
+  return /(?:page-break-before|break-before)\s*:\s*(?:always|page)/i.test(attrs);
+}
+
+function breakAfter(attrs: string): boolean {
+  return /(?:page-break-after|break-after)\s*:\s*(?:always|page)/i.test(attrs);
+}
+
+const TOKEN_RE = /<!--[\s\S]*?-->|<!doctype[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</gi;
+
+/**
+ * Parse HTML into a flat list of layout blocks.
+ */
+export function parseHtml(html: string): HtmlBlock[] {
+  const blocks: HtmlBlock[] = [];
+  const open: Array<{ tag: string; breakAfter: boolean }> = [];
+  const styles: TextStyle[] = [];
+  const lists: Array<{ ordered: boolean; counter: number }> = [];
+  let runs: TextRun[] = [];
+  let marker: string | undefined;
+  let skipDepth = 0;
+  let boldDepth = 0;
+  let preDepth = 0;
+  let quoteDepth = 0;
+  let row: TextRun[][] | null = null;
+  let cell: TextRun[] | null = null;
+
+  const indent = () => (lists.length + quoteDepth) * INDENT_STEP;
+
+  const flush = () => {
+    if (runs.some((r) => r.text.trim() !== '')) {
+      blocks.push({
+        kind: 'text',
+        style: styles[styles.length - 1] ?? 'p',
+        runs,
+        indent: indent(),
+        ...(marker ? { marker } : {}),
+      });
+      marker = undefined;
+    }
+    runs = [];
+  };
+
+  const pushText = (text: string) => {
+    const target = cell ?? runs;
+    target.push({ text, bold: boldDepth > 0 });
+  };
+
+  const closeTag = (tag: string) => {
+    if (SKIPPED_TAGS.has(tag)) {
+      skipDepth = Math.max(0, skipDepth - 1);
+      return;
+    }
+    if (skipDepth > 0) return;
+    if (BOLD_TAGS.has(tag)) boldDepth = Math.max(0, boldDepth - 1);
+
+    if (tag === 'td' || tag === 'th') {
+      if (row && cell) row.push(cell);
+      cell = null;
+    } else if (tag === 'tr') {
+      if (row && cell) row.push(cell);
+      if (row && row.length > 0) blocks.push({ kind: 'row', cells: row });
+      row = null;
+      cell = null;
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      if (/^h[1-6]$/.test(tag) || tag === 'pre' || tag === 'p') styles.pop();
+      if (tag === 'pre') preDepth = Math.max(0, preDepth - 1);
+      if (tag === 'blockquote') quoteDepth = Math.max(0, quoteDepth - 1);
+      if (tag === 'ul' || tag === 'ol') lists.pop();
+    }
+
+    const idx = open.map((o) => o.tag).lastIndexOf(tag);
+    if (idx >= 0) {
+      const closed = open.splice(idx);
+      if (closed[0]!.breakAfter) blocks.push({ kind: 'page-break' });
+    }
+  };
+
+  for (const match of html.matchAll(TOKEN_RE)) {
+    const [token, closing, rawTag, attrs = ''] = match;
+    if (token.startsWith('<!')) continue;
+
+    if (!rawTag) {
+      if (skipDepth > 0) continue;
+      const decoded = decodeEntities(token);
+      pushText(preDepth > 0 ? decoded : decoded.replace(/\s+/g, ' '));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      closeTag(tag);
+      continue;
+    }
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!attrs.trimEnd().endsWith('/')) skipDepth++;
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (tag === 'br') {
+      pushText('\n');
+      continue;
+    }
+    if (tag === 'hr') {
+      flush();
+      blocks.push({ kind: 'rule' });
+      continue;
+    }
+    if (VOID_TAGS.has(tag)) continue;
+
+    if (breakBefore(attrs)) {
+      flush();
+      blocks.push({ kind: 'page-break' });
+    }
+    if (BOLD_TAGS.has(tag)) boldDepth++;
+
+    if (tag === 'tr') {
+      flush();
+      row = [];
+    } else if (tag === 'td' || tag === 'th') {
+      if (!row) {
+        flush();
+        row = [];
+      }
+      if (cell) row.push(cell);
+      cell = [];
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      if (/^h[1-6]$/.test(tag) || tag === 'pre' || tag === 'p') styles.push(tag as TextStyle);
+      if (tag === 'pre') preDepth++;
+      if (tag === 'blockquote') quoteDepth++;
+      if (tag === 'ul' || tag === 'ol') lists.push({ ordered: tag === 'ol', counter: 0 });
+      if (tag === 'li') {
+        const list = lists[lists.length - 1];
+        marker = list?.ordered ? `${++list.counter}.` : '•';
+      }
+    }
+
+    if (attrs.trimEnd().endsWith('/')) continue;
+    open.push({ tag, breakAfter: breakAfter(attrs) });
+  }
+
+  if (row && cell) (row as TextRun[][]).push(cell);
+  if (row && (row as TextRun[][]).length > 0) blocks.push({ kind: 'row', cells: row });
+  flush();
+  return blocks;
+}
@@ -0,0 +1,234 @@
+/**
+ * Page layout for the built-in renderer.
+ *
+ * Flows parsed HTML blocks onto fixed-size pages: word-wraps text with the
+ * standard font metrics, splits tables into equal-width columns and starts a
+ * new page whenever the next line would cross the bottom margin.
+ */
+
+import { measureText, type PdfFont } from './fonts';
+import type { HtmlBlock, TextRun, TextStyle } from './html';
+
+export interface PageGeometry {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+export type DrawOp =
+  | { kind: 'text'; x: number; y: number; text: string; font: PdfFont; size: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number };
+
+interface Segment {
+  text: string;
+  font: PdfFont;
+}
+
+type Line = Segment[];
+
+const STYLE_METRICS: Record<TextStyle, { size: number; before: number; after: number; bold: boolean }> = {
+  h1: { size: 22, before: 10, after: 8, bold: true },
+  h2: { size: 18, before: 10, after: 6, bold: true },
+  h3: { size: 15, before: 8, after: 5, bold: true },
+  h4: { size: 13, before: 6, after: 4, bold: true },
+  h5: { size: 12, before: 6, after: 4, bold: true },
+  h6: { size: 11, before: 6, after: 4, bold: true },
+  p: { size: 11, before: 0, after: 6, bold: false },
+  pre: { size: 10, before: 0, after: 6, bold: false },
+};
+
+const LINE_HEIGHT = 1.35;
+const CELL_SIZE = 10;
+const CELL_PADDING = 4;
+const MARKER_GAP = 6;
+
+function fontFor(run: TextRun, forceBold: boolean): PdfFont {
+  return run.bold || forceBold ? 'bold' : 'regular';
+}
+
+/**
+ * Break characters of a word that is wider than the line on its own.
+ */
+function splitLongWord(word: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const ch of word) {
+    if (current && measureText(current + ch, font, size) > maxWidth) {
+      parts.push(current);
+      current = ch;
+    } else {
+      current += ch;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Word-wrap runs into lines no wider than `maxWidth`. Explicit "\n" runs
+ * (from <br>) force a break; `preserve` keeps whitespace as written.
+ */
+export function wrapRuns(
+  runs: TextRun[],
+  opts: { size: number; maxWidth: number; bold?: boolean; preserve?: boolean }
+): Line[] {
+  const { size, maxWidth } = opts;
+  const lines: Line[] = [];
+  let line: Line = [];
+  let width = 0;
+  let pendingSpace: PdfFont | null = null;
+
+  const append = (text: string, font: PdfFont) => {
+    const last = line[line.length - 1];
+    if (last && last.font === font) last.text += text;
+    else line.push({ text, font });
+  };
+  const breakLine = () => {
+    lines.push(line);
+    line = [];
+    width = 0;
+    pendingSpace = null;
+  };
+  const placeWord = (word: string, font: PdfFont) => {
+    const spaceWidth = pendingSpace && line.length > 0 ? measureText(' ', pendingSpace, size) : 0;
+    const wordWidth = measureText(word, font, size);
+    if (line.length > 0 && width + spaceWidth + wordWidth > maxWidth) {
+      breakLine();
+      return placeWord(word, font);
+    }
+    if (line.length === 0 && wordWidth > maxWidth) {
+      const parts = splitLongWord(word, font, size, maxWidth);
+      parts.forEach((part, i) => {
+        append(part, font);
+        if (i < parts.length - 1) breakLine();
+        else width = measureText(part, font, size);
+      });
+      pendingSpace = null;
+      return;
+    }
+    if (spaceWidth > 0) append(' ', pendingSpace!);
+    append(word, font);
+    width += spaceWidth + wordWidth;
+    pendingSpace = null;
+  };
+
+  for (const run of runs) {
+    const font = fontFor(run, opts.bold ?? false);
+    const pieces = opts.preserve ? run.text.split(/(\n)/) : run.text.split(/(\n|\s+)/);
+    for (const piece of pieces) {
+      if (piece === '') continue;
+      if (piece === '\n') {
+        breakLine();
+      } else if (!opts.preserve && /^\s+$/.test(piece)) {
+        pendingSpace = font;
+      } else if (opts.preserve) {
+        for (const ch of piece) {
+          const chWidth = measureText(ch, font, size);
+          if (width > 0 && width + chWidth > maxWidth) breakLine();
+          append(ch, font);
+          width += chWidth;
+        }
+      } else {
+        placeWord(piece, font);
+      }
+    }
+  }
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+/**
+ * Flow blocks onto pages. Always returns at least one (possibly empty) page.
+ */
+export function layoutBlocks(blocks: HtmlBlock[], geometry: PageGeometry): DrawOp[][] {
+  const { width, height, margin } = geometry;
+  const left = margin;
+  const contentWidth = Math.max(width - margin * 2, 1);
+  const top = height - margin;
+  const pages: DrawOp[][] = [[]];
+  let y = top;
+
+  const page = () => pages[pages.length - 1]!;
+  const newPage = () => {
+    pages.push([]);
+    y = top;
+  };
+  const ensure = (space: number) => {
+    if (y - space < margin && y < top) newPage();
+  };
+  const drawLine = (line: Line, x: number, baseline: number, size: number) => {
+    let cursor = x;
+    for (const seg of line) {
+      page().push({ kind: 'text', x: cursor, y: baseline, text: seg.text, font: seg.font, size });
+      cursor += measureText(seg.text, seg.font, size);
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'page-break') {
+      if (page().length > 0) newPage();
+      continue;
+    }
+
+    if (block.kind === 'rule') {
+      ensure(12);
+      y -= 6;
+      page().push({ kind: 'line', x1: left, y1: y, x2: left + contentWidth, y2: y });
+      y -= 6;
+      continue;
+    }
+
+    if (block.kind === 'row') {
+      const colWidth = contentWidth / block.cells.length;
+      const lineHeight = CELL_SIZE * LINE_HEIGHT;
+      const cellLines = block.cells.map((cell) =>
+        wrapRuns(cell, { size: CELL_SIZE, maxWidth: Math.max(colWidth - CELL_PADDING * 2, 1) })
+      );
+      const rowLines = Math.max(1, ...cellLines.map((l) => l.length));
+      ensure(lineHeight + CELL_PADDING * 2);
+      y -= CELL_PADDING;
+      for (let i = 0; i < rowLines; i++) {
+        ensure(lineHeight);
+        y -= lineHeight;
+        cellLines.forEach((lines, col) => {
+          const line = lines[i];
+          if (line) drawLine(line, left + col * colWidth + CELL_PADDING, y + CELL_SIZE * 0.3, CELL_SIZE);
+        });
+      }
+      y -= CELL_PADDING;
+      page().push({ kind: 'line', x1: left, y1: y, x2: left + contentWidth, y2: y });
+      continue;
+    }
+
+    const metrics = STYLE_METRICS[block.style];
+    const lineHeight = metrics.size * LINE_HEIGHT;
+    const x = left + block.indent + (block.marker ? MARKER_GAP * 2 : 0);
+    const lines = wrapRuns(block.runs, {
+      size: metrics.size,
+      maxWidth: Math.max(left + contentWidth - x, 1),
+      bold: metrics.bold,
+      preserve: block.style === 'pre',
+    });
+    if (y < top) y -= metrics.before;
+    lines.forEach((line, i) => {
+      ensure(lineHeight);
+      y -= lineHeight;
+      const baseline = y + metrics.size * 0.3;
+      if (i === 0 && block.marker) {
+        const markerWidth = measureText(block.marker, 'regular', metrics.size);
+        page().push({
+          kind: 'text',
+          x: x - MARKER_GAP - markerWidth,
+          y: baseline,
+          text: block.marker,
+          font: 'regular',
+          size: metrics.size,
+        });
+      }
+      drawLine(line, x, baseline, metrics.size);
+    });
+    y -= metrics.after;
+  }
+
+  return pages;
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal PDF 1.4 writer for the built-in renderer.
+ *
+ * Emits one content stream per page using the unembedded standard fonts, so
+ * the output needs no font files and opens in any PDF reader.
+ */
+
+import { deflateSync } from 'node:zlib';
+import { encodeWinAnsi, FONT_RESOURCES } from './fonts';
+import type { DrawOp } from './layout';
+
+export interface WritePdfArgs {
+  pages: DrawOp[][];
+  width: number;
+  height: number;
+  title?: string;
+  /** Fixed creation date (tests); defaults to now */
+  createdAt?: Date;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/**
+ * Encode text as a PDF literal string. Non-ASCII bytes are written as octal
+ * escapes so the file body stays 7-bit clean.
+ */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const code of encodeWinAnsi(text)) {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${String.fromCharCode(code)}`;
+    else if (code < 0x20 || code > 0x7e) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function contentStream(ops: DrawOp[]): string {
+  const parts: string[] = [];
+  for (const op of ops) {
+    if (op.kind === 'text') {
+      const font = FONT_RESOURCES[op.font].name;
+      parts.push(`BT /${font} ${num(op.size)} Tf ${num(op.x)} ${num(op.y)} Td ${pdfString(op.text)} Tj ET`);
+    } else {
+      parts.push(`0.5 w ${num(op.x1)} ${num(op.y1)} m ${num(op.x2)} ${num(op.y2)} l S`);
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Serialize laid-out pages into a PDF document.
+ */
+export function writePdf(args: WritePdfArgs): Uint8Array {
+  const pageCount = Math.max(args.pages.length, 1);
+  const pages = args.pages.length > 0 ? args.pages : [[]];
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then page + content pairs
+  const pageObj = (i: number) => 6 + i * 2;
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`
+  );
+  for (const font of [FONT_RESOURCES.regular, FONT_RESOURCES.bold]) {
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`);
+  }
+  add(
+    `<< /Producer (Unisane PDF) /CreationDate (${pdfDate(args.createdAt ?? new Date())})` +
+      `${args.title ? ` /Title ${pdfString(args.title)}` : ''} >>`
+  );
+
+  const fonts = `/${FONT_RESOURCES.regular.name} 3 0 R /${FONT_RESOURCES.bold.name} 4 0 R`;
+  pages.forEach((ops, i) => {
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(args.width)} ${num(args.height)}] ` +
+        `/Resources << /Font << ${fonts} >> >> /Contents ${pageObj(i) + 1} 0 R >>`
+    );
+    const data = deflateSync(Buffer.from(contentStream(ops), 'latin1'));
+    add(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0]!.length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF\n',
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+/**
+ * Count the pages of a PDF produced by any renderer.
+ *
+ * Reads the largest `/Count` of the page tree nodes, falling back to counting
+ * `/Type /Page` objects. Returns null when neither is found (e.g. the page
+ * tree is inside compressed object streams).
+ */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+  if (!text.startsWith('%PDF-')) return null;
+
+  let treeCount = 0;
+  let leafCount = 0;
+  for (const [, body = ''] of text.matchAll(/\d+\s+\d+\s+obj\b([\s\S]*?)\bendobj\b/g)) {
+    const dict = body.split(/\bstream\b/)[0]!;
+    if (/\/Type\s*\/Pages\b/.test(dict)) {
+      const count = /\/Count\s+(\d+)/.exec(dict);
+      if (count) treeCount = Math.max(treeCount, Number(count[1]));
+    } else if (/\/Type\s*\/Page(?![A-Za-z])/.test(dict)) {
+      leafCount++;
+    }
+  }
+  if (treeCount > 0) return treeCount;
+  return leafCount > 0 ? leafCount : null;
+}
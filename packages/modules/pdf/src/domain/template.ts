@@ -0,0 +1,34 @@
+/**
+ * HTML template interpolation.
+ *
+ * `{{ path.to.value }}` placeholders are replaced with the HTML-escaped value
+ * from `data`; missing values render as an empty string.
+ */
+
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z_$][\w$]*(?:\.[\w$]+)*)\s*\}\}/g;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function lookup(data: Record<string, unknown>, path: string): unknown {
+  let current: unknown = data;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+export function interpolateHtml(html: string, data: Record<string, unknown>): string {
+  return html.replace(PLACEHOLDER_RE, (_, path: string) => {
+    const value = lookup(data, path);
+    if (value === undefined || value === null) return '';
+    return escapeHtml(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  });
+}
@@ -14,7 +14,7 @@ export { PdfGenerationError, TemplateNotFoundError, InvalidTemplateError } from
 // Domain - Constants
 // ════════════════════════════════════════════════════════════════════════════
 
-export { PDF_EVENTS, PDF_DEFAULTS, PDF_COLLECTIONS } from './domain/constants';
+export { PDF_EVENTS, PDF_DEFAULTS, PDF_COLLECTIONS, PDF_PAGE_SIZES } from './domain/constants';
 
 // ════════════════════════════════════════════════════════════════════════════
 // Domain - Cache Keys
@@ -23,8 +23,22 @@ export { PDF_EVENTS, PDF_DEFAULTS, PDF_COLLECTIONS } from './domain/constants';
 export { pdfKeys } from './domain/keys';
 export type { PdfKeyBuilder } from './domain/keys';
 
+// ════════════════════════════════════════════════════════════════════════════
+// Domain - Rendering
+// ════════════════════════════════════════════════════════════════════════════
+
+export { interpolateHtml } from './domain/template';
+export { countPdfPages } from './domain/pdf-writer';
+
+// ════════════════════════════════════════════════════════════════════════════
+// Providers
+// ════════════════════════════════════════════════════════════════════════════
+
+export { createBuiltinPdfRenderer } from './providers/builtin';
+
 // ════════════════════════════════════════════════════════════════════════════
 // Services
 // ════════════════════════════════════════════════════════════════════════════
 
-export { renderPdf } from "./service/render";
+export { renderPdf, resolvePdfRenderer } from "./service/render";
+export type { RenderPdfArgs, RenderPdfResult } from "./service/render";
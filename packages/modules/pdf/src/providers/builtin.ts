@@ -0,0 +1,34 @@
+/**
+ * Built-in PDF renderer.
+ *
+ * Pure JavaScript HTML-to-PDF conversion with no browser or native binary,
+ * so it works on any headless Linux box. It covers document-style HTML
+ * (see domain/html.ts); configure a browser-backed renderer with
+ * `setPdfRenderer()` when full CSS support is needed.
+ */
+
+import type { PdfRendererPort, PdfRenderInput, PdfRenderOutput } from '@unisane/kernel';
+import { PDF_DEFAULTS, PDF_PAGE_SIZES } from '../domain/constants';
+import { parseHtml } from '../domain/html';
+import { layoutBlocks } from '../domain/layout';
+import { writePdf } from '../domain/pdf-writer';
+
+export function createBuiltinPdfRenderer(): PdfRendererPort {
+  return {
+    name: 'builtin',
+    async render(input: PdfRenderInput): Promise<PdfRenderOutput> {
+      const size = PDF_PAGE_SIZES[input.pageSize ?? PDF_DEFAULTS.DEFAULT_PAGE_SIZE];
+      const [width, height] = input.landscape ? [size.height, size.width] : [size.width, size.height];
+      const margin = input.margin ?? PDF_DEFAULTS.DEFAULT_MARGIN;
+
+      const pages = layoutBlocks(parseHtml(input.html), { width, height, margin });
+      const bytes = writePdf({
+        pages,
+        width,
+        height,
+        ...(input.title ? { title: input.title } : {}),
+      });
+      return { bytes, pageCount: pages.length };
+    },
+  };
+}
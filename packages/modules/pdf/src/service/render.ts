@@ -1,27 +1,112 @@
-import { connectDb, enforceTokensAndQuota, FEATURE, FLAG, clampInt, getScopeId, getScopePlan, isEnabledForScope, assertActiveSubscriptionForCreditsViaPort } from '@unisane/kernel'
-import type { PlanId } from '@unisane/kernel'
+import { connectDb, enforceTokensAndQuota, events, FEATURE, FLAG, getScopeId, getScopePlan, getPdfRenderer, hasPdfRenderer, isEnabledForScope, assertActiveSubscriptionForCreditsViaPort, DomainError, STORAGE_FOLDER } from '@unisane/kernel'
+import type { PdfPageSize, PdfRendererPort, PlanId } from '@unisane/kernel'
 import { ERR } from '@unisane/gateway'
+import { storeFile } from '@unisane/storage'
+import { PDF_DEFAULTS, PDF_EVENTS } from '../domain/constants'
+import { InvalidTemplateError, PdfGenerationError } from '../domain/errors'
+import { countPdfPages } from '../domain/pdf-writer'
+import { interpolateHtml } from '../domain/template'
+import { createBuiltinPdfRenderer } from '../providers/builtin'
 
 export type RenderPdfArgs = {
-  pages?: number
-  idem?: string
+  /** HTML document or fragment; `{{path}}` placeholders are filled from `data` */
+  html: string
+  data?: Record<string, unknown>
+  filename?: string
+  title?: string
+  pageSize?: PdfPageSize
+  landscape?: boolean
+  margin?: number
+  userId?: string
 }
 
-export async function renderPdf(args: RenderPdfArgs = {}): Promise<{ url: string; pages: number; metering: unknown }> {
+export type RenderPdfResult = {
+  url: string
+  fileId: string
+  key: string
+  expiresAt: number
+  pages: number
+  metering: unknown
+}
+
+let builtinRenderer: PdfRendererPort | null = null
+
+/**
+ * The renderer configured with `setPdfRenderer()`, else the built-in one.
+ */
+export function resolvePdfRenderer(): PdfRendererPort {
+  if (hasPdfRenderer()) return getPdfRenderer()
+  builtinRenderer ??= createBuiltinPdfRenderer()
+  return builtinRenderer
+}
+
+/**
+ * Render HTML to PDF, store it in the tenant's documents folder and return a
+ * signed download URL. Metering is charged per page of the produced document,
+ * before it is stored.
+ */
+export async function renderPdf(args: RenderPdfArgs): Promise<RenderPdfResult> {
   const scopeId = getScopeId()
   const plan = await getScopePlan() as PlanId
 
   // Feature gate
   const ok = await isEnabledForScope({ key: FLAG.PDF_RENDER, scopeId, ctx: { plan } })
   if (!ok) throw ERR.forbidden('Feature disabled')
+
+  const html = args.data ? interpolateHtml(args.html, args.data) : args.html
+  if (!html.trim()) throw new InvalidTemplateError('HTML is empty')
+  if (Buffer.byteLength(html, 'utf8') > PDF_DEFAULTS.MAX_TEMPLATE_SIZE) {
+    throw new InvalidTemplateError(`HTML exceeds ${PDF_DEFAULTS.MAX_TEMPLATE_SIZE} bytes`)
+  }
+
   await connectDb()
   await assertActiveSubscriptionForCreditsViaPort()
-  const pages = clampInt(Number(args.pages ?? 1), 1, 200)
+
+  const renderer = resolvePdfRenderer()
+  let output
+  try {
+    output = await renderer.render({
+      html,
+      pageSize: args.pageSize ?? PDF_DEFAULTS.DEFAULT_PAGE_SIZE,
+      margin: args.margin ?? PDF_DEFAULTS.DEFAULT_MARGIN,
+      ...(args.landscape !== undefined ? { landscape: args.landscape } : {}),
+      ...(args.title ? { title: args.title } : {}),
+    })
+  } catch (err) {
+    if (err instanceof DomainError) throw err
+    await events.emit(PDF_EVENTS.FAILED, { scopeId, renderer: renderer.name, error: String(err) })
+    throw new PdfGenerationError(err instanceof Error ? err.message : String(err))
+  }
+
+  // Meter what was actually produced; renderers only self-report when the
+  // document can't be parsed (e.g. compressed page tree)
+  const pages = countPdfPages(output.bytes) ?? output.pageCount
+  if (pages > PDF_DEFAULTS.MAX_PAGES) {
+    throw new InvalidTemplateError(`document has ${pages} pages, the limit is ${PDF_DEFAULTS.MAX_PAGES}`)
+  }
   const metering = await enforceTokensAndQuota({
     tenantId: scopeId,
     featureKey: FEATURE.PDF_RENDER,
     tokens: pages,
   })
-  const url = `https://example-cdn.invalid/renders/${scopeId}/${Date.now()}.pdf`
-  return { url, pages, metering }
+
+  const stored = await storeFile({
+    uploaderId: args.userId ?? 'system',
+    folder: STORAGE_FOLDER.DOCUMENTS,
+    filename: args.filename ?? PDF_DEFAULTS.DEFAULT_FILENAME,
+    contentType: 'application/pdf',
+    body: output.bytes,
+    metadata: { source: 'pdf.render', renderer: renderer.name, pages },
+  })
+
+  await events.emit(PDF_EVENTS.GENERATED, { scopeId, fileId: stored.file.id, pages, renderer: renderer.name })
+
+  return {
+    url: stored.url,
+    fileId: stored.file.id,
+    key: stored.file.key,
+    expiresAt: stored.expiresAt,
+    pages,
+    metering,
+  }
 }
@@ -0,0 +1,151 @@
+/**
+ * Confirm Upload Tests
+ *
+ * Tests for the content scan run on confirm, against the in-memory storage
+ * provider.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+import type { FileScanInput, FileScannerPort } from "@unisane/kernel";
+import type { StorageFile, StorageFileScan } from "../domain/types";
+
+const files = new Map<string, StorageFile>();
+let scanner: FileScannerPort | undefined;
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    connectDb: vi.fn(async () => undefined),
+    getScopeId: vi.fn(() => "tenant_1"),
+    emitTypedReliable: vi.fn(async () => undefined),
+    hasFileScanner: vi.fn(() => scanner !== undefined),
+    getFileScanner: vi.fn(() => scanner),
+  };
+});
+
+vi.mock("../data/storage.repository", () => {
+  const transition = (id: string, changes: Partial<StorageFile>) => {
+    const file = files.get(id);
+    if (!file || file.status !== "pending") return null;
+    const updated: StorageFile = { ...file, ...changes };
+    files.set(id, updated);
+    return updated;
+  };
+  return {
+    StorageRepo: {
+      findById: vi.fn(async (id: string) => files.get(id) ?? null),
+      confirmUpload: vi.fn(async (id: string) => transition(id, { status: "active" })),
+      quarantine: vi.fn(async (id: string, scan: StorageFileScan) => transition(id, { status: "quarantined", scan })),
+    },
+  };
+});
+
+import { MemoryStorageAdapter, putObjectBuffer, setStorageProvider } from "@unisane/kernel";
+import { confirmUpload } from "../service/confirm";
+import { FileQuarantinedError } from "../domain/errors";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+
+async function pendingFile(body: Buffer, contentType: StorageFile["contentType"] = "image/png") {
+  const now = new Date().toISOString();
+  const file: StorageFile = {
+    id: "000000000000000000000001",
+    scopeType: "tenant",
+    scopeId: "tenant_1",
+    uploaderId: "user_1",
+    key: "tenant_1/attachments/logo.png",
+    folder: "attachments",
+    filename: "logo.png",
+    contentType,
+    sizeBytes: body.length,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  };
+  files.set(file.id, file);
+  await putObjectBuffer(file.key, body, { contentType });
+  return file;
+}
+
+beforeEach(() => {
+  files.clear();
+  scanner = undefined;
+  vi.mocked(kernel.emitTypedReliable).mockClear();
+  setStorageProvider(new MemoryStorageAdapter(), "memory");
+});
+
+describe("confirmUpload", () => {
+  it("should activate files whose content matches the declared type", async () => {
+    const file = await pendingFile(PNG);
+
+    const confirmed = await confirmUpload({ fileId: file.id });
+
+    expect(confirmed.status).toBe("active");
+    expect(kernel.emitTypedReliable).toHaveBeenCalledWith("storage.upload.confirmed", expect.anything());
+  });
+
+  it("should quarantine files whose content does not match", async () => {
+    const file = await pendingFile(Buffer.from("%PDF-1.7\n"));
+
+    await expect(confirmUpload({ fileId: file.id })).rejects.toThrow(FileQuarantinedError);
+
+    expect(files.get(file.id)).toMatchObject({
+      status: "quarantined",
+      scan: { scanner: "magic-bytes", reason: "content_type_mismatch", detectedType: "application/pdf" },
+    });
+    expect(kernel.emitTypedReliable).toHaveBeenCalledWith(
+      "storage.file.quarantined",
+      expect.objectContaining({ fileId: file.id, uploaderId: "user_1", scanner: "magic-bytes" })
+    );
+    expect(kernel.emitTypedReliable).not.toHaveBeenCalledWith("storage.upload.confirmed", expect.anything());
+  });
+
+  it("should run the configured scanner after the magic-byte check", async () => {
+    let streamed: Buffer | undefined;
+    const scan = vi.fn(async (input: FileScanInput) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of await input.openStream()) chunks.push(chunk as Buffer);
+      streamed = Buffer.concat(chunks);
+      return { clean: false, reason: "Eicar-Test-Signature" };
+    });
+    scanner = { name: "clamav", scan };
+    const file = await pendingFile(PNG);
+
+    await expect(confirmUpload({ fileId: file.id })).rejects.toThrow(/Eicar-Test-Signature/);
+
+    expect(scan).toHaveBeenCalledWith(expect.objectContaining({ key: file.key, size: PNG.length }));
+    expect(streamed?.equals(PNG)).toBe(true);
+    expect(files.get(file.id)?.scan).toMatchObject({ scanner: "clamav", reason: "Eicar-Test-Signature" });
+  });
+
+  it("should sniff only the head of the file", async () => {
+    const provider = new MemoryStorageAdapter();
+    setStorageProvider(provider, "memory");
+    const getRange = vi.spyOn(provider, "getRange");
+    const getStream = vi.spyOn(provider, "getStream");
+    const file = await pendingFile(Buffer.concat([PNG, Buffer.alloc(64 * 1024)]));
+
+    expect(await confirmUpload({ fileId: file.id })).toMatchObject({ status: "active" });
+
+    expect(getRange).toHaveBeenCalledWith(file.key, 0, 4096);
+    expect(getStream).not.toHaveBeenCalled();
+  });
+
+  it("should leave the file pending when a scan cannot run", async () => {
+    scanner = { name: "clamav", scan: vi.fn(async () => Promise.reject(new Error("connection refused"))) };
+    const file = await pendingFile(PNG);
+
+    await expect(confirmUpload({ fileId: file.id })).rejects.toThrow(/connection refused/);
+
+    expect(files.get(file.id)?.status).toBe("pending");
+  });
+
+  it("should reject files that were never uploaded", async () => {
+    const file = await pendingFile(PNG);
+    files.set(file.id, { ...file, key: "tenant_1/attachments/missing.png" });
+
+    await expect(confirmUpload({ fileId: file.id })).rejects.toThrow(/not been uploaded/);
+  });
+});
@@ -27,6 +27,11 @@ describe("Storage Constants", () => {
       expect(typeof STORAGE_EVENTS.FILE_DELETED).toBe("string");
     });
 
+    it("should have FILE_QUARANTINED event", () => {
+      expect(STORAGE_EVENTS.FILE_QUARANTINED).toBe("storage.file.quarantined");
+      expect(typeof STORAGE_EVENTS.FILE_QUARANTINED).toBe("string");
+    });
+
     it("should have FILE_PURGED event", () => {
       expect(STORAGE_EVENTS.FILE_PURGED).toBe("storage.file.purged");
       expect(typeof STORAGE_EVENTS.FILE_PURGED).toBe("string");
@@ -57,8 +62,8 @@ describe("Storage Constants", () => {
       expect(uniqueEvents.size).toBe(events.length);
     });
 
-    it("should have exactly 6 event types", () => {
-      expect(Object.keys(STORAGE_EVENTS)).toHaveLength(6);
+    it("should have exactly 7 event types", () => {
+      expect(Object.keys(STORAGE_EVENTS)).toHaveLength(7);
     });
   });
 
@@ -9,6 +9,7 @@ import {
   StorageQuotaExceededError,
   FileAccessDeniedError,
   PresignedUrlError,
+  FileQuarantinedError,
 } from "../domain/errors";
 
 describe("Storage Errors", () => {
@@ -216,6 +217,19 @@ describe("Storage Errors", () => {
     });
   });
 
+  describe("FileQuarantinedError", () => {
+    it("should create error with file ID and reason", () => {
+      const error = new FileQuarantinedError("file123", "content_type_mismatch");
+
+      expect(error.code).toBe(ErrorCode.FILE_QUARANTINED);
+      expect(error.status).toBe(422);
+      expect(error.message).toContain("file123");
+      expect(error.message).toContain("content_type_mismatch");
+      expect(error.name).toBe("FileQuarantinedError");
+      expect(error.retryable).toBe(false);
+    });
+  });
+
   describe("Error Type Guards", () => {
     it("should differentiate between error types", () => {
       const notFound = new FileNotFoundError("file1");
@@ -0,0 +1,237 @@
+/**
+ * Multipart Upload Tests
+ *
+ * Tests for the multipart upload flow and stale upload cleanup, run against
+ * the in-memory storage provider.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as kernel from "@unisane/kernel";
+import type { StorageFile, CreateFileInput } from "../domain/types";
+
+const files = new Map<string, StorageFile>();
+let nextId = 1;
+
+vi.mock("@unisane/kernel", async () => {
+  const actual = await vi.importActual<typeof kernel>("@unisane/kernel");
+  return {
+    ...actual,
+    connectDb: vi.fn(async () => undefined),
+    getScopeId: vi.fn(() => "tenant_1"),
+    getEnv: vi.fn(() => ({ STORAGE_MULTIPART_MAX_BYTES: 200 * 1024 * 1024 })),
+    events: { emit: vi.fn(async () => undefined) },
+    emitTypedReliable: vi.fn(async () => undefined),
+    hasTenantsProvider: vi.fn(() => true),
+    getTenantsProvider: vi.fn(() => ({ findById: async () => ({ id: "tenant_1", planId: "free" }) })),
+  };
+});
+
+vi.mock("../data/storage.repository", () => ({
+  StorageRepo: {
+    create: vi.fn(async (input: CreateFileInput) => {
+      const now = new Date().toISOString();
+      const file: StorageFile = {
+        id: String(nextId++).padStart(24, "0"),
+        scopeType: "tenant",
+        status: "pending",
+        createdAt: now,
+        updatedAt: now,
+        ...input,
+      };
+      files.set(file.id, file);
+      return file;
+    }),
+    findById: vi.fn(async (id: string) => files.get(id) ?? null),
+    confirmMultipartUpload: vi.fn(async (id: string, uploadId: string) => {
+      const file = files.get(id);
+      if (!file || file.status !== "pending" || file.multipart?.uploadId !== uploadId) return null;
+      const updated: StorageFile = { ...file, status: "active" };
+      delete updated.multipart;
+      files.set(id, updated);
+      return updated;
+    }),
+    hardDelete: vi.fn(async (id: string) => files.delete(id)),
+    getStorageUsage: vi.fn(async () => ({ totalBytes: 0, fileCount: 0 })),
+    findPendingOlderThan: vi.fn(async () => [...files.values()].filter((f) => f.status === "pending")),
+  },
+}));
+
+import {
+  MemoryStorageAdapter,
+  PLAN_DEFS,
+  STORAGE_LIMITS,
+  getScopeId,
+  headObject,
+  setStorageProvider,
+} from "@unisane/kernel";
+import { StorageRepo } from "../data/storage.repository";
+import {
+  cancelMultipartUpload,
+  confirmMultipartUpload,
+  initiateMultipartUpload,
+  planParts,
+  signMultipartParts,
+} from "../service/multipart";
+import { cleanupOrphanedUploads } from "../service/cleanup";
+
+const MB = 1024 * 1024;
+const ZIP_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+let provider: MemoryStorageAdapter;
+
+function zipInput(sizeBytes: number) {
+  return { folder: "imports" as const, filename: "data.zip", contentType: "application/zip" as const, sizeBytes };
+}
+
+async function uploadParts(file: StorageFile, sizes: number[]) {
+  const uploadId = file.multipart!.uploadId;
+  return sizes.map((size, i) => {
+    const body = Buffer.alloc(size, i + 1);
+    // Passes the content scan on confirm
+    if (i === 0) ZIP_HEADER.copy(body);
+    return { partNumber: i + 1, etag: provider.putPart(file.key, uploadId, i + 1, body) };
+  });
+}
+
+beforeEach(() => {
+  files.clear();
+  nextId = 1;
+  provider = new MemoryStorageAdapter();
+  setStorageProvider(provider, "memory");
+  vi.mocked(StorageRepo.getStorageUsage).mockResolvedValue({ totalBytes: 0, fileCount: 0 });
+});
+
+describe("planParts", () => {
+  it("should use the default part size", () => {
+    expect(planParts(20 * MB)).toEqual({ partSize: STORAGE_LIMITS.MULTIPART_DEFAULT_PART_SIZE, partCount: 3 });
+  });
+
+  it("should raise the part size to stay within the part limit", () => {
+    const size = STORAGE_LIMITS.MULTIPART_MAX_PARTS * 6 * MB + 1;
+    const { partSize, partCount } = planParts(size, 5 * MB);
+    expect(partCount).toBeLessThanOrEqual(STORAGE_LIMITS.MULTIPART_MAX_PARTS);
+    expect(partSize * partCount).toBeGreaterThanOrEqual(size);
+  });
+});
+
+describe("initiateMultipartUpload", () => {
+  it("should create a pending file carrying the provider upload id", async () => {
+    const result = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+
+    expect(result.partCount).toBe(2);
+    const file = files.get(result.fileId)!;
+    expect(file.status).toBe("pending");
+    expect(file.multipart).toEqual({ uploadId: result.uploadId, partSize: 8 * MB, partCount: 2 });
+  });
+
+  it("should allow files over the single-upload limit up to the multipart limit", async () => {
+    // Single zip uploads are capped at 100 MB
+    const result = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(150 * MB) });
+    expect(files.get(result.fileId)?.sizeBytes).toBe(150 * MB);
+
+    await expect(
+      initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(201 * MB) })
+    ).rejects.toThrow(/exceeds max/);
+  });
+
+  it("should check the quota against the declared total size", async () => {
+    const quota = PLAN_DEFS.free.entitlements?.capacities?.storageBytes ?? 0;
+    vi.mocked(StorageRepo.getStorageUsage).mockResolvedValue({ totalBytes: quota - 10 * MB, fileCount: 1 });
+
+    await expect(
+      initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) })
+    ).rejects.toThrow(/quota exceeded/i);
+    expect(files.size).toBe(0);
+  });
+});
+
+describe("signMultipartParts", () => {
+  it("should sign each requested part once", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(20 * MB) });
+
+    const { parts } = await signMultipartParts({ fileId, input: { partNumbers: [2, 1, 2] } });
+
+    expect(parts.map((p) => p.partNumber)).toEqual([1, 2]);
+    expect(parts[0]!.url).toContain("partNumber=1");
+  });
+
+  it("should reject part numbers beyond the planned count", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    await expect(signMultipartParts({ fileId, input: { partNumbers: [3] } })).rejects.toThrow(/out of range/);
+  });
+});
+
+describe("confirmMultipartUpload", () => {
+  it("should assemble the parts and activate the file", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    const parts = await uploadParts(files.get(fileId)!, [8 * MB, 4 * MB]);
+
+    const confirmed = await confirmMultipartUpload({ fileId, input: { parts: [...parts].reverse() } });
+
+    expect(confirmed.status).toBe("active");
+    expect(confirmed.multipart).toBeUndefined();
+    expect((await headObject(confirmed.key))?.contentLength).toBe(12 * MB);
+    expect(kernel.emitTypedReliable).toHaveBeenCalledWith(
+      "storage.upload.confirmed",
+      expect.objectContaining({ fileId, size: 12 * MB })
+    );
+  });
+
+  it("should require every part", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    const parts = await uploadParts(files.get(fileId)!, [8 * MB]);
+
+    await expect(confirmMultipartUpload({ fileId, input: { parts } })).rejects.toThrow(/Expected parts 1 to 2/);
+  });
+
+  it("should discard uploads larger than declared", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    const key = files.get(fileId)!.key;
+    const parts = await uploadParts(files.get(fileId)!, [8 * MB, 9 * MB]);
+
+    await expect(confirmMultipartUpload({ fileId, input: { parts } })).rejects.toThrow(/does not match declared size/);
+    expect(await headObject(key)).toBeNull();
+    expect(files.has(fileId)).toBe(false);
+  });
+});
+
+describe("cancelMultipartUpload", () => {
+  it("should abort the upload and drop the pending record", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    const abort = vi.spyOn(provider, "abortMultipartUpload");
+
+    await cancelMultipartUpload({ fileId });
+
+    expect(abort).toHaveBeenCalled();
+    expect(files.has(fileId)).toBe(false);
+  });
+});
+
+describe("cleanupOrphanedUploads", () => {
+  it("should abort stale multipart uploads within the file's scope before deleting the record", async () => {
+    const { fileId, uploadId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    const abort = vi.spyOn(provider, "abortMultipartUpload");
+    vi.mocked(getScopeId).mockImplementationOnce(() => kernel.getScope().id);
+    const scopes: string[] = [];
+    vi.mocked(StorageRepo.hardDelete).mockImplementationOnce(async (id: string) => {
+      scopes.push(getScopeId());
+      return files.delete(id);
+    });
+
+    const result = await cleanupOrphanedUploads();
+
+    expect(result).toEqual({ checked: 1, cleaned: 1, failed: 0 });
+    expect(abort).toHaveBeenCalledWith(expect.any(String), uploadId);
+    expect(scopes).toEqual(["tenant_1"]);
+    expect(files.has(fileId)).toBe(false);
+  });
+
+  it("should keep the record when the abort fails", async () => {
+    const { fileId } = await initiateMultipartUpload({ uploaderId: "user_1", input: zipInput(12 * MB) });
+    vi.spyOn(provider, "abortMultipartUpload").mockRejectedValueOnce(new Error("provider down"));
+
+    const result = await cleanupOrphanedUploads();
+
+    expect(result.failed).toBe(1);
+    expect(files.has(fileId)).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Content Scanner Tests
+ *
+ * Tests for the built-in magic-byte sniffer and the ClamAV adapter, the
+ * latter run against a local stand-in speaking the clamd INSTREAM protocol.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type AddressInfo, type Server, type Socket } from "node:net";
+import { Readable } from "node:stream";
+import { ConfigurationError, ProviderError } from "@unisane/kernel";
+import { checkContentType, sniffBinaryType } from "../providers/magic-bytes";
+import { ClamAvScanner } from "../providers/clamav";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const PDF = Buffer.from("%PDF-1.7\n%âãÏÓ\n", "latin1");
+const EXE = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]);
+
+function ftyp(brand: string, compatible: string[] = []): Buffer {
+  const size = 16 + compatible.length * 4;
+  const box = Buffer.alloc(size);
+  box.writeUInt32BE(size, 0);
+  box.write("ftyp", 4, "latin1");
+  box.write(brand, 8, "latin1");
+  compatible.forEach((b, i) => box.write(b, 16 + i * 4, "latin1"));
+  return box;
+}
+
+describe("sniffBinaryType", () => {
+  it("should detect common signatures", () => {
+    expect(sniffBinaryType(PNG)).toBe("image/png");
+    expect(sniffBinaryType(JPEG)).toBe("image/jpeg");
+    expect(sniffBinaryType(PDF)).toBe("application/pdf");
+    expect(sniffBinaryType(Buffer.from("GIF89a\x01\x00", "latin1"))).toBe("image/gif");
+    expect(sniffBinaryType(Buffer.from("RIFF\x00\x00\x00\x00WEBPVP8 ", "latin1"))).toBe("image/webp");
+  });
+
+  it("should detect ISO-BMFF images by brand", () => {
+    expect(sniffBinaryType(ftyp("avif"))).toBe("image/avif");
+    expect(sniffBinaryType(ftyp("mif1", ["heic"]))).toBe("image/heic");
+  });
+
+  it("should not mistake text starting with BM for a bitmap", () => {
+    expect(sniffBinaryType(Buffer.from("BMW,Series 3,2024\n"))).toBeNull();
+  });
+
+  it("should return null for unknown content", () => {
+    expect(sniffBinaryType(EXE)).toBeNull();
+  });
+});
+
+describe("checkContentType", () => {
+  it("should accept content matching the declared type", () => {
+    expect(checkContentType(PNG, "image/png")).toEqual({ clean: true, detectedType: "image/png" });
+    expect(checkContentType(ftyp("mif1"), "image/heif").clean).toBe(true);
+    // HEIC is a HEIF profile, so either declaration is accepted
+    expect(checkContentType(ftyp("heic"), "image/heif").clean).toBe(true);
+  });
+
+  it("should flag content of another type", () => {
+    expect(checkContentType(PDF, "image/png")).toEqual({
+      clean: false,
+      reason: "content_type_mismatch",
+      detectedType: "application/pdf",
+    });
+  });
+
+  it("should flag unrecognised content declared as a binary type", () => {
+    expect(checkContentType(EXE, "image/jpeg")).toEqual({ clean: false, reason: "content_type_mismatch" });
+  });
+
+  it("should accept UTF-8 text for text types", () => {
+    expect(checkContentType(Buffer.from("name,city\nZoë,Köln\n"), "text/csv").clean).toBe(true);
+    expect(checkContentType(Buffer.from('{"ok":true}'), "application/json").clean).toBe(true);
+  });
+
+  it("should flag binary content declared as text", () => {
+    expect(checkContentType(EXE, "text/plain").clean).toBe(false);
+    expect(checkContentType(PNG, "application/json")).toMatchObject({ clean: false, detectedType: "image/png" });
+  });
+
+  it("should require an svg root element for svg", () => {
+    const svg = '<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+    expect(checkContentType(Buffer.from(svg), "image/svg+xml").clean).toBe(true);
+    expect(checkContentType(Buffer.from("<html><body/></html>"), "image/svg+xml").clean).toBe(false);
+  });
+});
+
+const servers: Server[] = [];
+
+/**
+ * Minimal clamd stand-in: parses an INSTREAM request and replies via
+ * `respond` with the reassembled body. Resolves with the listening port.
+ */
+function startClamd(respond: (body: Buffer, socket: Socket) => void): Promise<number> {
+  const server = createServer((socket) => {
+    let buf = Buffer.alloc(0);
+    let commandRead = false;
+    const chunks: Buffer[] = [];
+    socket.on("data", (data: Buffer) => {
+      buf = Buffer.concat([buf, data]);
+      if (!commandRead) {
+        const end = buf.indexOf(0);
+        if (end === -1) return;
+        expect(buf.subarray(0, end).toString()).toBe("zINSTREAM");
+        buf = buf.subarray(end + 1);
+        commandRead = true;
+      }
+      while (buf.length >= 4) {
+        const size = buf.readUInt32BE(0);
+        if (size === 0) {
+          respond(Buffer.concat(chunks), socket);
+          return;
+        }
+        if (buf.length < 4 + size) return;
+        chunks.push(buf.subarray(4, 4 + size));
+        buf = buf.subarray(4 + size);
+      }
+    });
+  });
+  servers.push(server);
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+describe("ClamAvScanner", () => {
+  afterEach(async () => {
+    const closing = servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve)));
+    await Promise.all(closing);
+  });
+
+  const input = (body: Buffer) => ({
+    key: "t/f.pdf",
+    contentType: "application/pdf",
+    filename: "f.pdf",
+    size: body.length,
+    readHead: async (bytes: number) => body.subarray(0, bytes),
+    // Uneven source chunks, re-chunked by the scanner
+    openStream: async () => Readable.from([body.subarray(0, 3000), body.subarray(3000)]),
+  });
+
+  it("should validate its config", () => {
+    expect(() => new ClamAvScanner({ host: "" })).toThrow(ConfigurationError);
+  });
+
+  it("should stream the body in chunks and report clean files", async () => {
+    let received: Buffer | undefined;
+    const port = await startClamd((body, socket) => {
+      received = body;
+      socket.end("stream: OK\0");
+    });
+    const body = Buffer.alloc(10_000, 7);
+
+    const result = await new ClamAvScanner({ host: "127.0.0.1", port, chunkSize: 4096 }).scan(input(body));
+
+    expect(result).toEqual({ clean: true });
+    expect(received?.equals(body)).toBe(true);
+  });
+
+  it("should report the signature of infected files", async () => {
+    const port = await startClamd((_body, socket) => socket.end("stream: Eicar-Test-Signature FOUND\0"));
+
+    const result = await new ClamAvScanner({ host: "127.0.0.1", port }).scan(input(Buffer.from("X5O!P%@AP")));
+
+    expect(result).toEqual({ clean: false, reason: "Eicar-Test-Signature" });
+  });
+
+  it("should throw on daemon errors", async () => {
+    const port = await startClamd((_body, socket) => socket.end("INSTREAM size limit exceeded. ERROR\0"));
+
+    await expect(new ClamAvScanner({ host: "127.0.0.1", port }).scan(input(Buffer.from("x")))).rejects.toThrow(
+      ProviderError
+    );
+  });
+
+  it("should time out when the daemon does not reply", async () => {
+    const port = await startClamd(() => {});
+
+    await expect(
+      new ClamAvScanner({ host: "127.0.0.1", port, timeoutMs: 100 }).scan(input(Buffer.from("x")))
+    ).rejects.toThrow(/timed out/);
+  });
+});
@@ -6,10 +6,15 @@
 
 export {
   ZRequestUpload,
+  ZInitiateMultipartUpload,
+  ZSignMultipartParts,
+  ZConfirmMultipartUpload,
   ZListFiles,
   ZStorageFileResponse,
   ZUploadUrlResponse,
   ZDownloadUrlResponse,
+  ZMultipartUploadResponse,
+  ZMultipartPartUrlsResponse,
 } from './domain/schemas';
 
 export * from './domain/types';
@@ -12,13 +12,20 @@ import {
   UpdateBuilder,
   toMongoUpdate,
   type Filter,
+  type Document,
   type StorageFolder,
   type FileStatus,
   type AllowedContentType,
   type ScopeType,
 } from "@unisane/kernel";
 import type { ObjectId } from "mongodb";
-import type { StorageFile, CreateFileInput } from "../domain/types";
+import type {
+  StorageFile,
+  StorageFileVariant,
+  StorageFileMultipart,
+  StorageFileScan,
+  CreateFileInput,
+} from "../domain/types";
 import type { StorageRepository, StorageUsage } from "../domain/ports";
 
 /**
@@ -38,6 +45,9 @@ interface StorageFileDoc {
   sizeBytes: number;
   status: FileStatus;
   metadata?: Record<string, unknown>;
+  variants?: Record<string, StorageFileVariant>;
+  multipart?: StorageFileMultipart;
+  scan?: Omit<StorageFileScan, "scannedAt"> & { scannedAt: Date };
   expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -59,6 +69,9 @@ function toDto(doc: StorageFileDoc): StorageFile {
     sizeBytes: doc.sizeBytes,
     status: doc.status,
     ...(doc.metadata ? { metadata: doc.metadata } : {}),
+    ...(doc.variants ? { variants: doc.variants } : {}),
+    ...(doc.multipart ? { multipart: doc.multipart } : {}),
+    ...(doc.scan ? { scan: { ...doc.scan, scannedAt: doc.scan.scannedAt.toISOString() } } : {}),
     ...(doc.expiresAt ? { expiresAt: doc.expiresAt.toISOString() } : {}),
     createdAt: doc.createdAt.toISOString(),
     updatedAt: doc.updatedAt.toISOString(),
@@ -80,6 +93,7 @@ async function create(input: CreateFileInput): Promise<StorageFile> {
     sizeBytes: input.sizeBytes,
     status: FILE_STATUS.PENDING,
     ...(input.metadata ? { metadata: input.metadata } : {}),
+    ...(input.multipart ? { multipart: input.multipart } : {}),
     createdAt: now,
     updatedAt: now,
   };
@@ -106,6 +120,46 @@ async function confirmUpload(id: string): Promise<StorageFile | null> {
     .set("status", FILE_STATUS.ACTIVE)
     .set("updatedAt", new Date());
   // Use scopedFilter for automatic tenant scoping
+  // Multipart uploads are confirmed through confirmMultipartUpload once assembled
+  const result = await storageCol().findOneAndUpdate(
+    scopedFilter({
+      _id: toNativeId(id) as ObjectId,
+      status: FILE_STATUS.PENDING,
+      multipart: { $exists: false },
+    }),
+    toMongoUpdate(builder.build()),
+    { returnDocument: "after" }
+  );
+  return result ? toDto(result) : null;
+}
+
+async function confirmMultipartUpload(id: string, uploadId: string): Promise<StorageFile | null> {
+  if (!isValidId(id)) return null;
+  const builder = new UpdateBuilder<StorageFileDoc>()
+    .set("status", FILE_STATUS.ACTIVE)
+    .set("updatedAt", new Date())
+    .unset("multipart");
+  // Use scopedFilter for automatic tenant scoping
+  const result = await storageCol().findOneAndUpdate(
+    scopedFilter({
+      _id: toNativeId(id) as ObjectId,
+      status: FILE_STATUS.PENDING,
+      "multipart.uploadId": uploadId,
+    }),
+    toMongoUpdate(builder.build()),
+    { returnDocument: "after" }
+  );
+  return result ? toDto(result) : null;
+}
+
+async function quarantine(id: string, scan: StorageFileScan): Promise<StorageFile | null> {
+  if (!isValidId(id)) return null;
+  const builder = new UpdateBuilder<StorageFileDoc>()
+    .set("status", FILE_STATUS.QUARANTINED)
+    .set("scan", { ...scan, scannedAt: new Date(scan.scannedAt) })
+    .set("updatedAt", new Date())
+    .unset("multipart");
+  // Use scopedFilter for automatic tenant scoping
   const result = await storageCol().findOneAndUpdate(
     scopedFilter({ _id: toNativeId(id) as ObjectId, status: FILE_STATUS.PENDING }),
     toMongoUpdate(builder.build()),
@@ -184,6 +238,52 @@ async function findDeletedOlderThan(ms: number): Promise<StorageFile[]> {
   return docs.map(toDto);
 }
 
+async function setVariants(
+  id: string,
+  variants: Record<string, StorageFileVariant>
+): Promise<StorageFile | null> {
+  if (!isValidId(id)) return null;
+  // Dotted paths so variants recorded by earlier runs are kept
+  const set: Record<string, unknown> = { updatedAt: new Date() };
+  for (const [name, variant] of Object.entries(variants)) {
+    set[`variants.${name}`] = variant;
+  }
+  // Use scopedFilter for automatic tenant scoping
+  const result = await storageCol().findOneAndUpdate(
+    scopedFilter({ _id: toNativeId(id) as ObjectId, status: FILE_STATUS.ACTIVE }),
+    { $set: set } as Document,
+    { returnDocument: "after" }
+  );
+  return result ? toDto(result) : null;
+}
+
+/**
+ * Unscoped: used by the variant backfill job, which then runs each file
+ * within its own scope.
+ */
+async function findMissingVariants(opts: {
+  variants: string[];
+  contentTypes: string[];
+  afterId?: string;
+  limit: number;
+}): Promise<StorageFile[]> {
+  if (opts.variants.length === 0) return [];
+  const filter: Record<string, unknown> = {
+    status: FILE_STATUS.ACTIVE,
+    contentType: { $in: opts.contentTypes },
+    $or: opts.variants.map((name) => ({ [`variants.${name}`]: { $exists: false } })),
+  };
+  if (opts.afterId && isValidId(opts.afterId)) {
+    filter._id = { $gt: toNativeId(opts.afterId) };
+  }
+  const docs = await storageCol()
+    .find(filter as Filter<StorageFileDoc>)
+    .sort({ _id: 1 })
+    .limit(opts.limit)
+    .toArray();
+  return docs.map(toDto);
+}
+
 /**
  * Get aggregate storage usage for the current scope.
  * Only counts ACTIVE files (excludes pending uploads and soft-deleted files).
@@ -234,11 +334,15 @@ export const StorageRepoMongo: StorageRepository = {
   findById,
   findByKey,
   confirmUpload,
+  confirmMultipartUpload,
+  quarantine,
   softDelete,
   hardDelete,
   list,
   findPendingOlderThan,
   findDeletedOlderThan,
+  setVariants,
+  findMissingVariants,
   getStorageUsage,
   markAllDeletedForScope,
 };
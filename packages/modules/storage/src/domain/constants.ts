@@ -15,6 +15,8 @@ export const STORAGE_EVENTS = {
   UPLOAD_REQUESTED: 'storage.upload.requested',
   /** Emitted when an upload is confirmed (file marked as confirmed) */
   UPLOAD_CONFIRMED: 'storage.upload.confirmed',
+  /** Emitted when a content scan quarantines a file on confirm */
+  FILE_QUARANTINED: 'storage.file.quarantined',
   /** Emitted when a file is soft-deleted */
   FILE_DELETED: 'storage.file.deleted',
   /** Emitted when a file is permanently removed from storage */
@@ -97,6 +97,20 @@ export class FileAccessDeniedError extends DomainError {
   }
 }
 
+/**
+ * Thrown when a content scan flags a file on confirm. The file is kept in
+ * quarantine and can no longer be downloaded.
+ */
+export class FileQuarantinedError extends DomainError {
+  readonly code = ErrorCode.FILE_QUARANTINED;
+  readonly status = 422;
+
+  constructor(fileId: string, reason: string) {
+    super(`File ${fileId} failed content scan: ${reason}`, { details: { fileId, reason } });
+    this.name = 'FileQuarantinedError';
+  }
+}
+
 /**
  * Thrown when presigned URL generation fails.
  */
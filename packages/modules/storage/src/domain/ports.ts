@@ -1,4 +1,4 @@
-import type { StorageFile, CreateFileInput } from "./types";
+import type { StorageFile, StorageFileVariant, StorageFileScan, CreateFileInput } from "./types";
 
 /**
  * Storage usage summary for a scope (tenant).
@@ -16,7 +16,18 @@ export interface StorageRepository {
   create(input: CreateFileInput): Promise<StorageFile>;
   findById(id: string): Promise<StorageFile | null>;
   findByKey(key: string): Promise<StorageFile | null>;
+  /** Mark a pending single-request upload active. */
   confirmUpload(id: string): Promise<StorageFile | null>;
+  /**
+   * Mark a pending multipart upload active and clear its multipart state.
+   * Matches only while `uploadId` is still the file's upload.
+   */
+  confirmMultipartUpload(id: string, uploadId: string): Promise<StorageFile | null>;
+  /**
+   * Move a pending file to quarantine, recording the scan result and clearing
+   * any multipart state.
+   */
+  quarantine(id: string, scan: StorageFileScan): Promise<StorageFile | null>;
   softDelete(id: string): Promise<StorageFile | null>;
   hardDelete(id: string): Promise<boolean>;
   list(
@@ -29,6 +40,21 @@ export interface StorageRepository {
   ): Promise<{ items: StorageFile[]; nextCursor: string | null }>;
   findPendingOlderThan(ms: number): Promise<StorageFile[]>;
   findDeletedOlderThan(ms: number): Promise<StorageFile[]>;
+  /**
+   * Record generated variants on an active file, merging with any already
+   * recorded under other names.
+   */
+  setVariants(id: string, variants: Record<string, StorageFileVariant>): Promise<StorageFile | null>;
+  /**
+   * Active files of the given content types (across all scopes) that lack at
+   * least one of the named variants. Ordered by id for cursor paging.
+   */
+  findMissingVariants(opts: {
+    variants: string[];
+    contentTypes: string[];
+    afterId?: string;
+    limit: number;
+  }): Promise<StorageFile[]>;
   /**
    * Get aggregate storage usage for the current scope.
    * Counts only ACTIVE files (excludes pending and deleted).
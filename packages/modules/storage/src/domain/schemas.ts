@@ -44,6 +44,57 @@ export const ZConfirmUpload = z.object({
 
 export type ConfirmUploadInput = z.infer<typeof ZConfirmUpload>;
 
+// ---------------------------------------------------------------------------
+// Multipart Upload
+// ---------------------------------------------------------------------------
+export const ZInitiateMultipartUpload = z.object({
+  folder: ZStorageFolder,
+  filename: z
+    .string()
+    .min(1)
+    .max(STORAGE_LIMITS.MAX_FILENAME_LENGTH)
+    .describe("Original filename from client"),
+  contentType: ZContentType,
+  sizeBytes: z
+    .number()
+    .int()
+    .positive()
+    .describe("Declared total file size in bytes"),
+  partSizeBytes: z
+    .number()
+    .int()
+    .min(STORAGE_LIMITS.MULTIPART_MIN_PART_SIZE)
+    .optional()
+    .describe("Preferred part size; raised if the file would need too many parts"),
+  metadata: z.record(z.unknown()).optional().describe("Custom metadata"),
+});
+
+export type InitiateMultipartUploadInput = z.infer<typeof ZInitiateMultipartUpload>;
+
+export const ZSignMultipartParts = z.object({
+  partNumbers: z
+    .array(z.number().int().min(1).max(STORAGE_LIMITS.MULTIPART_MAX_PARTS))
+    .min(1)
+    .max(STORAGE_LIMITS.MULTIPART_MAX_SIGN_BATCH)
+    .describe("1-based part numbers to sign upload URLs for"),
+});
+
+export type SignMultipartPartsInput = z.infer<typeof ZSignMultipartParts>;
+
+export const ZConfirmMultipartUpload = z.object({
+  parts: z
+    .array(
+      z.object({
+        partNumber: z.number().int().min(1).max(STORAGE_LIMITS.MULTIPART_MAX_PARTS),
+        etag: z.string().min(1).describe("ETag header returned by the part upload"),
+      })
+    )
+    .min(1)
+    .max(STORAGE_LIMITS.MULTIPART_MAX_PARTS),
+});
+
+export type ConfirmMultipartUploadInput = z.infer<typeof ZConfirmMultipartUpload>;
+
 // ---------------------------------------------------------------------------
 // Delete File
 // ---------------------------------------------------------------------------
@@ -60,6 +111,7 @@ export const ZGetDownloadUrl = z
   .object({
     fileId: z.string().min(1).optional().describe("File record ID"),
     key: z.string().min(1).optional().describe("Direct S3 key"),
+    variant: z.string().min(1).optional().describe("Generated variant name"),
   })
   .refine((v) => v.fileId || v.key, {
     message: "Either fileId or key must be provided",
@@ -93,6 +145,26 @@ export const ZStorageFileResponse = z.object({
   sizeBytes: z.number(),
   status: ZFileStatus,
   metadata: z.record(z.unknown()).optional(),
+  variants: z
+    .record(
+      z.object({
+        key: z.string(),
+        contentType: z.string(),
+        sizeBytes: z.number(),
+        width: z.number().optional(),
+        height: z.number().optional(),
+      })
+    )
+    .optional(),
+  scan: z
+    .object({
+      scanner: z.string(),
+      reason: z.string(),
+      detectedType: z.string().optional(),
+      scannedAt: z.string(),
+    })
+    .optional()
+    .describe("Set when a content scan quarantined the file"),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -108,6 +180,28 @@ export const ZUploadUrlResponse = z.object({
 
 export type UploadUrlResponse = z.infer<typeof ZUploadUrlResponse>;
 
+export const ZMultipartUploadResponse = z.object({
+  fileId: z.string(),
+  key: z.string(),
+  uploadId: z.string(),
+  partSize: z.number().describe("Size of every part except the last"),
+  partCount: z.number(),
+});
+
+export type MultipartUploadResponse = z.infer<typeof ZMultipartUploadResponse>;
+
+export const ZMultipartPartUrlsResponse = z.object({
+  parts: z.array(
+    z.object({
+      partNumber: z.number(),
+      url: z.string().url(),
+      expiresAt: z.number().describe("Unix timestamp in ms"),
+    })
+  ),
+});
+
+export type MultipartPartUrlsResponse = z.infer<typeof ZMultipartPartUrlsResponse>;
+
 export const ZDownloadUrlResponse = z.object({
   url: z.string().url(),
   key: z.string(),
@@ -5,6 +5,38 @@ import type {
   ScopeType,
 } from "@unisane/kernel";
 
+/**
+ * A derived rendition of a stored file (e.g. an image thumbnail), written
+ * next to the original object.
+ */
+export interface StorageFileVariant {
+  key: string;
+  contentType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Provider-side state of a file being uploaded in parts. Cleared once the
+ * upload is confirmed.
+ */
+export interface StorageFileMultipart {
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+}
+
+/**
+ * Why a file was quarantined by a content scan.
+ */
+export interface StorageFileScan {
+  scanner: string;
+  reason: string;
+  detectedType?: string;
+  scannedAt: string;
+}
+
 /**
  * Domain entity - DB-agnostic representation of a storage file.
  * Uses universal scope system for multi-tenant/multi-scope support.
@@ -21,6 +53,12 @@ export interface StorageFile {
   sizeBytes: number;
   status: FileStatus;
   metadata?: Record<string, unknown>;
+  /** Generated variants keyed by variant name */
+  variants?: Record<string, StorageFileVariant>;
+  /** Set while a multipart upload is in progress */
+  multipart?: StorageFileMultipart;
+  /** Set when a content scan quarantined the file */
+  scan?: StorageFileScan;
   expiresAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -39,6 +77,7 @@ export interface CreateFileInput {
   contentType: AllowedContentType;
   sizeBytes: number;
   metadata?: Record<string, unknown>;
+  multipart?: StorageFileMultipart;
 }
 
 /**
@@ -51,6 +90,17 @@ export interface UploadResult {
   expiresAt: number;
 }
 
+/**
+ * Multipart upload initiation result
+ */
+export interface MultipartUploadResult {
+  fileId: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+}
+
 /**
  * Download result (presigned URL)
  */
@@ -14,7 +14,14 @@
  * ```
  */
 
-import { logger, onTyped, emitTypedReliable } from '@unisane/kernel';
+import {
+  logger,
+  onTyped,
+  emitTypedReliable,
+  hasNotifyProvider,
+  sendInAppViaPort,
+  type EventPayload,
+} from '@unisane/kernel';
 import { cleanupOrphanedUploads, cleanupDeletedFiles } from './service/cleanup';
 import { StorageRepo } from './data/storage.repository';
 
@@ -105,6 +112,33 @@ async function handleStorageCleanupTriggered(): Promise<void> {
   }
 }
 
+/**
+ * Notify the uploader that their file was quarantined by a content scan.
+ * Skipped when no notify provider is configured.
+ */
+async function handleFileQuarantined(
+  payload: EventPayload<'storage.file.quarantined'>
+): Promise<void> {
+  const { scopeId, fileId, filename, uploaderId, scanner, reason } = payload;
+
+  log.info('storage: file quarantined', { scopeId, fileId, scanner, reason });
+
+  if (!hasNotifyProvider()) {
+    log.warn('storage: notify provider not configured, skipping quarantine notice', { fileId });
+    return;
+  }
+
+  await sendInAppViaPort({
+    userId: uploaderId,
+    scopeId,
+    type: 'storage.file_quarantined',
+    title: 'Upload blocked',
+    body: `"${filename}" failed a content scan and was quarantined.`,
+    category: 'alerts',
+    data: { fileId, filename, scanner, reason },
+  });
+}
+
 /**
  * Register all storage event handlers.
  * Call this during application bootstrap.
@@ -136,6 +170,13 @@ export function registerStorageEventHandlers(): () => void {
     })
   );
 
+  // Notify uploaders about quarantined files
+  unsubscribers.push(
+    onTyped('storage.file.quarantined', async (event) => {
+      await handleFileQuarantined(event.payload);
+    })
+  );
+
   log.info('storage event handlers registered', { count: unsubscribers.length });
 
   // Return cleanup function
@@ -1,6 +1,6 @@
 /**
  * @module @unisane/storage
- * @description File storage with presigned URLs, lifecycle management, and cleanup
+ * @description File storage with presigned URLs, multipart uploads, content scanning, lifecycle management, and cleanup
  * @layer 2
  */
 
@@ -25,6 +25,7 @@ export {
   StorageQuotaExceededError,
   FileAccessDeniedError,
   PresignedUrlError,
+  FileQuarantinedError,
 } from "./domain/errors";
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -51,6 +52,16 @@ export type { StorageKeyBuilder } from "./domain/keys";
 
 export { requestUpload } from "./service/upload";
 export { confirmUpload } from "./service/confirm";
+export {
+  initiateMultipartUpload,
+  signMultipartParts,
+  confirmMultipartUpload,
+  cancelMultipartUpload,
+} from "./service/multipart";
+export type { InitiateMultipartUploadArgs } from "./service/multipart";
+export { scanBeforeConfirm } from "./service/scan";
+export { storeFile } from "./service/store";
+export type { StoreFileArgs, StoreFileResult } from "./service/store";
 
 // ════════════════════════════════════════════════════════════════════════════
 // Services - Download & List
@@ -73,6 +84,14 @@ export type { StorageUsageWithQuota } from "./service/usage";
 export { deleteFile } from "./service/delete";
 export { cleanupOrphanedUploads, cleanupDeletedFiles } from "./service/cleanup";
 
+// ════════════════════════════════════════════════════════════════════════════
+// Providers - Content Scanners
+// ════════════════════════════════════════════════════════════════════════════
+
+export { magicByteScanner, checkContentType, sniffBinaryType } from "./providers/magic-bytes";
+export { ClamAvScanner, createClamAvScanner } from "./providers/clamav";
+export type { ClamAvConfig } from "./providers/clamav";
+
 // ════════════════════════════════════════════════════════════════════════════
 // Data - Repository
 // ════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,148 @@
+/**
+ * ClamAV Scanner Adapter
+ *
+ * Implements the FileScannerPort against a clamd daemon over TCP using the
+ * INSTREAM command, so file content never has to touch the daemon's disk.
+ * The content is streamed from storage in chunks rather than loaded whole.
+ *
+ * @example
+ * ```typescript
+ * import { setFileScanner } from "@unisane/kernel";
+ * import { createClamAvScanner } from "@unisane/storage";
+ *
+ * setFileScanner(createClamAvScanner({ host: "127.0.0.1", port: 3310 }));
+ * ```
+ */
+
+import { connect } from "node:net";
+import { once } from "node:events";
+import type { Readable } from "node:stream";
+import type { FileScannerPort, FileScanInput, FileScanResult } from "@unisane/kernel";
+import { ConfigurationError, ProviderError } from "@unisane/kernel";
+import { z } from "zod";
+
+const ZClamAvConfig = z.object({
+  host: z.string().min(1),
+  port: z.number().int().positive().max(65535).optional(),
+  timeoutMs: z.number().int().positive().max(600_000).optional(),
+  chunkSize: z.number().int().positive().max(1024 * 1024).optional(),
+});
+
+export type ClamAvConfig = z.infer<typeof ZClamAvConfig>;
+
+/** Reply for a clean stream, e.g. `stream: OK` */
+const OK_REPLY = /^stream: OK$/;
+/** Reply for an infected stream, e.g. `stream: Eicar-Signature FOUND` */
+const FOUND_REPLY = /^stream: (.+) FOUND$/;
+
+export class ClamAvScanner implements FileScannerPort {
+  readonly name = "clamav";
+  private readonly host: string;
+  private readonly port: number;
+  private readonly timeoutMs: number;
+  private readonly chunkSize: number;
+
+  constructor(config: ClamAvConfig) {
+    const result = ZClamAvConfig.safeParse(config);
+    if (!result.success) {
+      throw ConfigurationError.fromZod("clamav", result.error.issues);
+    }
+
+    this.host = config.host;
+    this.port = config.port ?? 3310;
+    this.timeoutMs = config.timeoutMs ?? 30_000;
+    this.chunkSize = config.chunkSize ?? 64 * 1024;
+  }
+
+  async scan(input: FileScanInput): Promise<FileScanResult> {
+    const reply = await this.instream(await input.openStream());
+    if (OK_REPLY.test(reply)) {
+      return { clean: true };
+    }
+    const found = FOUND_REPLY.exec(reply);
+    if (found) {
+      return { clean: false, reason: found[1] };
+    }
+    // e.g. "INSTREAM size limit exceeded. ERROR"
+    throw ProviderError.nonRetryable(this.name, new Error(`Unexpected reply: ${reply}`));
+  }
+
+  /**
+   * Stream the body as length-prefixed chunks terminated by a zero-length
+   * chunk, and resolve with the NUL-terminated reply.
+   */
+  private instream(body: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({ host: this.host, port: this.port });
+      const received: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error: Error | null, reply?: string) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        body.destroy();
+        if (error) reject(new ProviderError(this.name, error));
+        else resolve(reply ?? "");
+      };
+
+      socket.setTimeout(this.timeoutMs, () => {
+        finish(new Error(`Scan timed out after ${this.timeoutMs}ms`));
+      });
+      socket.on("error", (err) => finish(err));
+
+      socket.on("data", (data: Buffer) => {
+        received.push(data);
+        const all = Buffer.concat(received);
+        const end = all.indexOf(0);
+        if (end !== -1) {
+          finish(null, all.subarray(0, end).toString("utf8").trim());
+        }
+      });
+      socket.on("end", () => {
+        // clamd closes the connection after replying; a reply without NUL still counts
+        const reply = Buffer.concat(received).toString("utf8").trim();
+        if (reply) finish(null, reply);
+        else finish(new Error("Connection closed without a reply"));
+      });
+
+      socket.on("connect", () => {
+        this.writeChunks(socket, body, () => settled).catch((err: Error) => finish(err));
+      });
+    });
+  }
+
+  /**
+   * Write the INSTREAM command and the body, re-chunked to `chunkSize`,
+   * waiting for the socket to drain so memory stays bounded.
+   */
+  private async writeChunks(
+    socket: ReturnType<typeof connect>,
+    body: Readable,
+    stopped: () => boolean
+  ): Promise<void> {
+    const write = async (data: Buffer) => {
+      if (!socket.write(data)) await Promise.race([once(socket, "drain"), once(socket, "close")]);
+    };
+    await write(Buffer.from("zINSTREAM\0"));
+    for await (const data of body) {
+      if (stopped()) return;
+      const buf = Buffer.isBuffer(data) ? data : Buffer.from(data as Uint8Array);
+      for (let offset = 0; offset < buf.length; offset += this.chunkSize) {
+        const chunk = buf.subarray(offset, offset + this.chunkSize);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(chunk.length, 0);
+        await write(size);
+        await write(chunk);
+      }
+    }
+    if (!stopped()) await write(Buffer.alloc(4));
+  }
+}
+
+/**
+ * Create a ClamAV scanner for use with `setFileScanner()`.
+ */
+export function createClamAvScanner(config: ClamAvConfig): FileScannerPort {
+  return new ClamAvScanner(config);
+}
@@ -0,0 +1,133 @@
+/**
+ * Magic-Byte Content Sniffer
+ *
+ * Built-in FileScannerPort that detects the real type of a file from its
+ * leading bytes and flags files whose content does not match the declared
+ * `AllowedContentType` (e.g. an executable uploaded as `image/png`).
+ * Always runs on confirm, before any configured scanner.
+ */
+
+import type { AllowedContentType, FileScannerPort, FileScanInput, FileScanResult } from "@unisane/kernel";
+
+/** Bytes inspected for text detection */
+const TEXT_SAMPLE_BYTES = 4096;
+
+/** Bytes read from the file; one past the sample tells whether the file goes on */
+const HEAD_BYTES = TEXT_SAMPLE_BYTES + 1;
+
+const TEXT_TYPES: ReadonlySet<string> = new Set(["text/plain", "text/csv", "application/json"]);
+
+/** ISO-BMFF brands (the `ftyp` box) mapped to the image type they identify */
+const FTYP_BRANDS: Record<string, AllowedContentType> = {
+  avif: "image/avif",
+  avis: "image/avif",
+  heic: "image/heic",
+  heix: "image/heic",
+  hevc: "image/heic",
+  hevx: "image/heic",
+  heim: "image/heic",
+  heis: "image/heic",
+  mif1: "image/heif",
+  msf1: "image/heif",
+};
+
+/** Types that are interchangeable for the purpose of the check */
+const COMPATIBLE: Partial<Record<AllowedContentType, AllowedContentType[]>> = {
+  "image/heic": ["image/heif"],
+  "image/heif": ["image/heic"],
+};
+
+function startsWith(buf: Buffer, bytes: number[], offset = 0): boolean {
+  if (buf.length < offset + bytes.length) return false;
+  return bytes.every((b, i) => buf[offset + i] === b);
+}
+
+function ascii(buf: Buffer, start: number, end: number): string {
+  return buf.subarray(start, end).toString("latin1");
+}
+
+/**
+ * Detect a binary format from its signature. Returns null when no known
+ * signature matches.
+ */
+export function sniffBinaryType(buf: Buffer): AllowedContentType | null {
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(buf, 0, 6) === "GIF87a" || ascii(buf, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(buf, 0, 4) === "RIFF" && ascii(buf, 8, 12) === "WEBP") return "image/webp";
+  if (startsWith(buf, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buf, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+  // "BM" followed by the file size and four reserved zero bytes
+  if (ascii(buf, 0, 2) === "BM" && buf.length >= 14 && buf.readUInt32LE(6) === 0) return "image/bmp";
+  if (ascii(buf, 0, 5) === "%PDF-") return "application/pdf";
+  if (startsWith(buf, [0x50, 0x4b, 0x03, 0x04]) || startsWith(buf, [0x50, 0x4b, 0x05, 0x06])) {
+    return "application/zip";
+  }
+  if (ascii(buf, 4, 8) === "ftyp") {
+    const brands = [ascii(buf, 8, 12)];
+    const boxSize = buf.readUInt32BE(0);
+    for (let i = 16; i + 4 <= Math.min(boxSize, buf.length); i += 4) {
+      brands.push(ascii(buf, i, i + 4));
+    }
+    // Generic HEIF brands (mif1, msf1) often lead a more specific one
+    const types = brands.map((brand) => FTYP_BRANDS[brand]).filter((t) => t !== undefined);
+    return types.find((t) => t !== "image/heif") ?? types[0] ?? null;
+  }
+  return null;
+}
+
+/**
+ * Whether the sample looks like UTF-8 text (no NUL bytes, decodes cleanly).
+ */
+export function looksLikeText(buf: Buffer): boolean {
+  const sample = buf.subarray(0, TEXT_SAMPLE_BYTES);
+  if (sample.includes(0)) return false;
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  // A multi-byte sequence may be cut off at the sample boundary
+  const slack = buf.length > TEXT_SAMPLE_BYTES ? 3 : 0;
+  for (let trim = 0; trim <= slack; trim++) {
+    try {
+      decoder.decode(sample.subarray(0, sample.length - trim));
+      return true;
+    } catch {
+      // Retry with a shorter sample
+    }
+  }
+  return false;
+}
+
+function looksLikeSvg(buf: Buffer): boolean {
+  if (!looksLikeText(buf)) return false;
+  const head = buf.subarray(0, TEXT_SAMPLE_BYTES).toString("utf8").replace(/^\uFEFF/, "");
+  // Optional XML prolog, comments and doctype before the root element
+  return /^\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(head);
+}
+
+/**
+ * Check the content against the declared type.
+ */
+export function checkContentType(buf: Buffer, declared: string): FileScanResult {
+  const detected = sniffBinaryType(buf);
+
+  if (TEXT_TYPES.has(declared) || declared === "image/svg+xml") {
+    if (detected) return { clean: false, reason: "content_type_mismatch", detectedType: detected };
+    const ok = declared === "image/svg+xml" ? looksLikeSvg(buf) : looksLikeText(buf);
+    return ok ? { clean: true } : { clean: false, reason: "content_type_mismatch" };
+  }
+
+  if (!detected) return { clean: false, reason: "content_type_mismatch" };
+  const accepted = [declared, ...(COMPATIBLE[declared as AllowedContentType] ?? [])];
+  return accepted.includes(detected)
+    ? { clean: true, detectedType: detected }
+    : { clean: false, reason: "content_type_mismatch", detectedType: detected };
+}
+
+/**
+ * Built-in scanner instance used by the confirm flow. Reads only the head
+ * of the file.
+ */
+export const magicByteScanner: FileScannerPort = {
+  name: "magic-bytes",
+  async scan(input: FileScanInput): Promise<FileScanResult> {
+    return checkContentType(await input.readHead(HEAD_BYTES), input.contentType);
+  },
+};
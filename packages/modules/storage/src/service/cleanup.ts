@@ -1,7 +1,7 @@
-import { connectDb, logger } from "@unisane/kernel";
+import { connectDb, logger, runWithScope } from "@unisane/kernel";
 import { STORAGE_LIMITS } from "@unisane/kernel";
 import { StorageRepo } from "../data/storage.repository";
-import { deleteObject } from "@unisane/kernel";
+import { deleteObject, abortMultipartUpload } from "@unisane/kernel";
 import { metrics } from "@unisane/kernel";
 
 const BATCH_CONCURRENCY = 5;
@@ -101,8 +101,24 @@ export async function cleanupOrphanedUploads(): Promise<{
   }
 
   const { success, failed } = await processBatch(orphans, async (file) => {
-    const deleted = await StorageRepo.hardDelete(file.id);
-    return deleted;
+    // Stale multipart uploads hold parts at the provider until aborted
+    if (file.multipart) {
+      try {
+        await abortMultipartUpload(file.key, file.multipart.uploadId);
+      } catch (err) {
+        logger.warn('storage.cleanup.multipart_abort_failed', {
+          fileId: file.id,
+          key: file.key,
+          uploadId: file.multipart.uploadId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        // Keep DB record to retry on next cleanup run
+        return false;
+      }
+    }
+    return runWithScope({ type: file.scopeType, id: file.scopeId }, () =>
+      StorageRepo.hardDelete(file.id)
+    );
   });
 
   metrics.increment("storage.cleanup.orphaned", { labels: { cleaned: String(success), failed: String(failed) } });
@@ -130,6 +146,21 @@ export async function cleanupDeletedFiles(): Promise<{
 
   // STOR-003 FIX: Use retry helper with exponential backoff
   const { success, failed } = await processBatch(deleted, async (file) => {
+    // Variants first, so a failed original delete leaves the record to retry
+    for (const variant of Object.values(file.variants ?? {})) {
+      const variantResult = await deleteS3ObjectWithRetry(variant.key, file.id);
+      if (!variantResult.success) {
+        s3Errors++;
+        logger.warn('storage.cleanup.s3_variant_delete_failed', {
+          fileId: file.id,
+          key: variant.key,
+          attempts: variantResult.attempts,
+          error: variantResult.lastError,
+        });
+        return false;
+      }
+    }
+
     const result = await deleteS3ObjectWithRetry(file.key, file.id);
 
     if (!result.success) {
@@ -145,7 +176,9 @@ export async function cleanupDeletedFiles(): Promise<{
     }
 
     // S3 delete succeeded (or object didn't exist), delete DB record
-    return StorageRepo.hardDelete(file.id);
+    return runWithScope({ type: file.scopeType, id: file.scopeId }, () =>
+      StorageRepo.hardDelete(file.id)
+    );
   });
 
   metrics.increment("storage.cleanup.deleted", {
@@ -1,6 +1,7 @@
-import { getScopeId, connectDb, emitTypedReliable } from "@unisane/kernel";
+import { getScopeId, connectDb, emitTypedReliable, FILE_STATUS } from "@unisane/kernel";
 import { StorageRepo } from "../data/storage.repository";
 import { ERR } from "@unisane/gateway";
+import { scanBeforeConfirm } from "./scan";
 
 export type ConfirmUploadArgs = {
   fileId: string;
@@ -19,23 +20,35 @@ export type ConfirmUploadArgs = {
  * Fix: The confirmUpload repository method already uses findOneAndUpdate with
  * scopedFilter, which ensures atomic update within the scope. We just need
  * to rely on that single operation and handle the null case properly.
+ *
+ * The content scan needs the file record, so it is loaded first; the status
+ * transition itself is still the single atomic confirmUpload (or quarantine)
+ * update, and a concurrent confirm loses there.
  */
 export async function confirmUpload(args: ConfirmUploadArgs) {
   const scopeId = getScopeId();
   await connectDb();
 
+  const file = await StorageRepo.findById(args.fileId);
+  if (!file) {
+    throw ERR.notFound("File not found");
+  }
+  if (file.multipart) {
+    throw ERR.validation("Multipart uploads are confirmed through multipart completion");
+  }
+  if (file.status !== FILE_STATUS.PENDING) {
+    throw ERR.validation("File already confirmed or deleted");
+  }
+
+  // Throws FileQuarantinedError (after quarantining) when the content is flagged
+  await scanBeforeConfirm(scopeId, file);
+
   // STOR-002 FIX: Single atomic operation - confirmUpload uses findOneAndUpdate
   // with scopedFilter, which atomically checks scope ownership and status
   const updated = await StorageRepo.confirmUpload(args.fileId);
 
-  // If null, either file doesn't exist, wrong scope, or already confirmed/deleted
+  // If null, the file was confirmed, quarantined or deleted concurrently
   if (!updated) {
-    // Check if file exists to provide appropriate error
-    const file = await StorageRepo.findById(args.fileId);
-    if (!file) {
-      throw ERR.notFound("File not found");
-    }
-    // File exists but update failed - must be wrong status
     throw ERR.validation("File already confirmed or deleted");
   }
 
@@ -6,6 +6,8 @@ import { ERR } from "@unisane/gateway";
 export type GetDownloadUrlArgs = {
   fileId?: string;
   key?: string;
+  /** Name of a generated variant (e.g. "thumb") to sign instead of the original */
+  variant?: string;
 };
 
 export async function getDownloadUrl(args: GetDownloadUrlArgs) {
@@ -18,11 +20,17 @@ export async function getDownloadUrl(args: GetDownloadUrlArgs) {
     if (file.status !== FILE_STATUS.ACTIVE) {
       throw ERR.validation("File not available");
     }
+    let key = file.key;
+    if (args.variant) {
+      const variant = file.variants?.[args.variant];
+      if (!variant) throw ERR.notFound(`Variant ${args.variant} not available`);
+      key = variant.key;
+    }
     const signed = await getSignedDownloadUrl(
-      file.key,
+      key,
       STORAGE_LIMITS.PRESIGN_EXPIRY_SEC
     );
-    return { url: signed.url, key: file.key, expiresAt: signed.expiresAt };
+    return { url: signed.url, key, expiresAt: signed.expiresAt };
   }
 
   if (args.key) {
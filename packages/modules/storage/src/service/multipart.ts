@@ -0,0 +1,229 @@
+import { randomUUID } from "node:crypto";
+import {
+  getScopeId,
+  getEnv,
+  connectDb,
+  events,
+  emitTypedReliable,
+  logger,
+  createMultipartUpload,
+  getSignedPartUploadUrl,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  supportsMultipartUpload,
+  deleteObject,
+  headObject,
+  generateStorageKey,
+  STORAGE_LIMITS,
+  FILE_STATUS,
+  type AllowedContentType,
+} from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { StorageRepo } from "../data/storage.repository";
+import { STORAGE_EVENTS } from "../domain/constants";
+import type {
+  InitiateMultipartUploadInput,
+  SignMultipartPartsInput,
+  ConfirmMultipartUploadInput,
+} from "../domain/schemas";
+import type { MultipartUploadResult, StorageFile, StorageFileMultipart } from "../domain/types";
+import { assertStorageQuota, assertUploadAllowed } from "./upload";
+import { scanBeforeConfirm } from "./scan";
+
+const log = logger.child({ module: "storage", component: "multipart" });
+
+export type InitiateMultipartUploadArgs = {
+  uploaderId: string;
+  input: InitiateMultipartUploadInput;
+};
+
+/**
+ * Pick the part size: the requested (or default) size, raised when the file
+ * would otherwise need more than the provider's part limit.
+ */
+export function planParts(sizeBytes: number, requestedPartSize?: number): { partSize: number; partCount: number } {
+  const minForLimit = Math.ceil(sizeBytes / STORAGE_LIMITS.MULTIPART_MAX_PARTS);
+  const partSize = Math.max(
+    requestedPartSize ?? STORAGE_LIMITS.MULTIPART_DEFAULT_PART_SIZE,
+    STORAGE_LIMITS.MULTIPART_MIN_PART_SIZE,
+    minForLimit
+  );
+  return { partSize, partCount: Math.max(1, Math.ceil(sizeBytes / partSize)) };
+}
+
+/**
+ * Max declared size of a multipart upload: `STORAGE_MULTIPART_MAX_BYTES`, or
+ * `STORAGE_LIMITS.MULTIPART_MAX_FILE_SIZE` when unset.
+ */
+export function multipartMaxBytes(): number {
+  return getEnv().STORAGE_MULTIPART_MAX_BYTES ?? STORAGE_LIMITS.MULTIPART_MAX_FILE_SIZE;
+}
+
+async function loadPendingMultipart(
+  fileId: string
+): Promise<StorageFile & { multipart: StorageFileMultipart }> {
+  const file = await StorageRepo.findById(fileId);
+  if (!file) {
+    throw ERR.notFound("File not found");
+  }
+  if (file.status !== FILE_STATUS.PENDING || !file.multipart) {
+    throw ERR.validation("File has no multipart upload in progress");
+  }
+  return file as StorageFile & { multipart: StorageFileMultipart };
+}
+
+/**
+ * Start a multipart upload. Validation and the storage quota check use the
+ * declared total size, capped by `multipartMaxBytes()` rather than the
+ * content type's single-upload limit; the assembled object is checked
+ * against it on confirm.
+ */
+export async function initiateMultipartUpload(
+  args: InitiateMultipartUploadArgs
+): Promise<MultipartUploadResult> {
+  const scopeId = getScopeId();
+  await connectDb();
+
+  const { uploaderId, input } = args;
+  const { folder, filename, contentType, sizeBytes, partSizeBytes, metadata } = input;
+
+  if (!supportsMultipartUpload()) {
+    throw ERR.validation("Multipart uploads are not supported by the storage provider");
+  }
+
+  assertUploadAllowed(filename, contentType, sizeBytes, multipartMaxBytes());
+  await assertStorageQuota(scopeId, sizeBytes);
+
+  const { partSize, partCount } = planParts(sizeBytes, partSizeBytes);
+  const key = generateStorageKey({
+    scopeId,
+    folder,
+    uuid: randomUUID(),
+    filename,
+    contentType: contentType as AllowedContentType,
+  });
+
+  const upload = await createMultipartUpload(key, { contentType });
+
+  let file: StorageFile;
+  try {
+    file = await StorageRepo.create({
+      scopeId,
+      uploaderId,
+      key,
+      folder,
+      filename,
+      contentType: contentType as AllowedContentType,
+      sizeBytes,
+      ...(metadata ? { metadata } : {}),
+      multipart: { uploadId: upload.uploadId, partSize, partCount },
+    });
+  } catch (error) {
+    // Without a record the cleanup job could never find this upload
+    await abortMultipartUpload(key, upload.uploadId).catch(() => {});
+    throw error;
+  }
+
+  await events.emit(STORAGE_EVENTS.UPLOAD_REQUESTED, {
+    scopeId,
+    fileId: file.id,
+    key,
+    uploaderId,
+  });
+
+  return { fileId: file.id, key, uploadId: upload.uploadId, partSize, partCount };
+}
+
+/**
+ * Sign upload URLs for parts of an in-progress multipart upload. Clients can
+ * re-sign any part to resume after a failure or URL expiry.
+ */
+export async function signMultipartParts(args: { fileId: string; input: SignMultipartPartsInput }) {
+  await connectDb();
+  const file = await loadPendingMultipart(args.fileId);
+  const { uploadId, partCount } = file.multipart;
+
+  const partNumbers = [...new Set(args.input.partNumbers)].sort((a, b) => a - b);
+  const outOfRange = partNumbers.find((n) => n > partCount);
+  if (outOfRange !== undefined) {
+    throw ERR.validation(`Part ${outOfRange} is out of range; upload has ${partCount} parts`);
+  }
+
+  const parts = await Promise.all(
+    partNumbers.map(async (partNumber) => {
+      const signed = await getSignedPartUploadUrl(
+        file.key,
+        uploadId,
+        partNumber,
+        STORAGE_LIMITS.PRESIGN_EXPIRY_SEC
+      );
+      return { partNumber, url: signed.url, expiresAt: signed.expiresAt };
+    })
+  );
+
+  return { parts };
+}
+
+/**
+ * Assemble the uploaded parts and mark the file active. Every part must be
+ * listed exactly once, and the assembled object must match the declared size.
+ */
+export async function confirmMultipartUpload(args: { fileId: string; input: ConfirmMultipartUploadInput }) {
+  const scopeId = getScopeId();
+  await connectDb();
+  const file = await loadPendingMultipart(args.fileId);
+  const { uploadId, partCount } = file.multipart;
+
+  const parts = [...args.input.parts].sort((a, b) => a.partNumber - b.partNumber);
+  const complete = parts.length === partCount && parts.every((p, i) => p.partNumber === i + 1);
+  if (!complete) {
+    throw ERR.validation(`Expected parts 1 to ${partCount}, each listed once`);
+  }
+
+  await completeMultipartUpload(file.key, uploadId, parts);
+
+  const head = await headObject(file.key);
+  if (!head || head.contentLength !== file.sizeBytes) {
+    // The quota was checked against the declared size, so never keep a mismatch
+    await deleteObject(file.key).catch(() => {});
+    await StorageRepo.hardDelete(file.id);
+    log.warn("multipart upload size mismatch", {
+      fileId: file.id,
+      declared: file.sizeBytes,
+      actual: head?.contentLength ?? null,
+    });
+    throw ERR.validation(
+      `Uploaded size ${head?.contentLength ?? 0} does not match declared size ${file.sizeBytes}`
+    );
+  }
+
+  // Throws FileQuarantinedError (after quarantining) when the content is flagged
+  await scanBeforeConfirm(scopeId, file);
+
+  const updated = await StorageRepo.confirmMultipartUpload(file.id, uploadId);
+  if (!updated) {
+    throw ERR.validation("File already confirmed or deleted");
+  }
+
+  // Use reliable event delivery to ensure media processing and usage tracking completes
+  await emitTypedReliable("storage.upload.confirmed", {
+    scopeId,
+    fileId: updated.id,
+    key: updated.key,
+    size: updated.sizeBytes,
+  });
+
+  return updated;
+}
+
+/**
+ * Abort an in-progress multipart upload, discarding uploaded parts and the
+ * pending file record.
+ */
+export async function cancelMultipartUpload(args: { fileId: string }): Promise<{ ok: true }> {
+  await connectDb();
+  const file = await loadPendingMultipart(args.fileId);
+  await abortMultipartUpload(file.key, file.multipart.uploadId);
+  await StorageRepo.hardDelete(file.id);
+  return { ok: true };
+}
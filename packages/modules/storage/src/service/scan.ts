@@ -0,0 +1,77 @@
+import {
+  getObjectRange,
+  getObjectStream,
+  headObject,
+  emitTypedReliable,
+  hasFileScanner,
+  getFileScanner,
+  logger,
+  type FileScannerPort,
+} from "@unisane/kernel";
+import { ERR } from "@unisane/gateway";
+import { StorageRepo } from "../data/storage.repository";
+import { FileQuarantinedError } from "../domain/errors";
+import type { StorageFile } from "../domain/types";
+import { magicByteScanner } from "../providers/magic-bytes";
+
+const log = logger.child({ module: "storage", component: "scan" });
+
+/**
+ * Scan an uploaded file before it is confirmed: the built-in magic-byte
+ * sniffer first, then the configured scanner if any. Scanners read a range
+ * or a stream of the object, never the whole object at once. A flagged file is moved
+ * to quarantine and `FileQuarantinedError` is thrown. If a scan cannot run,
+ * the error propagates and the file stays pending so the confirm can be
+ * retried.
+ */
+export async function scanBeforeConfirm(scopeId: string, file: StorageFile): Promise<void> {
+  const scanners: FileScannerPort[] = [magicByteScanner];
+  if (hasFileScanner()) {
+    scanners.push(getFileScanner());
+  }
+
+  const head = await headObject(file.key);
+  if (!head) {
+    throw ERR.validation("File content has not been uploaded");
+  }
+  const size = head.contentLength;
+
+  for (const scanner of scanners) {
+    const result = await scanner.scan({
+      key: file.key,
+      contentType: file.contentType,
+      filename: file.filename,
+      size,
+      readHead: async (bytes) =>
+        size === 0 || bytes <= 0 ? Buffer.alloc(0) : getObjectRange(file.key, 0, Math.min(bytes, size) - 1),
+      openStream: () => getObjectStream(file.key),
+    });
+    if (result.clean) continue;
+
+    const reason = result.reason ?? "flagged";
+    const quarantined = await StorageRepo.quarantine(file.id, {
+      scanner: scanner.name,
+      reason,
+      ...(result.detectedType ? { detectedType: result.detectedType } : {}),
+      scannedAt: new Date().toISOString(),
+    });
+    if (!quarantined) {
+      throw ERR.validation("File already confirmed or deleted");
+    }
+
+    log.warn("file quarantined", { fileId: file.id, scopeId, scanner: scanner.name, reason });
+
+    await emitTypedReliable("storage.file.quarantined", {
+      scopeId,
+      fileId: file.id,
+      key: file.key,
+      filename: file.filename,
+      uploaderId: file.uploaderId,
+      scanner: scanner.name,
+      reason,
+      ...(result.detectedType ? { detectedType: result.detectedType } : {}),
+    });
+
+    throw new FileQuarantinedError(file.id, reason);
+  }
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from "node:crypto";
+import {
+  getScopeId,
+  connectDb,
+  putObjectBuffer,
+  deleteObject,
+  getSignedDownloadUrl,
+  emitTypedReliable,
+  generateStorageKey,
+  STORAGE_LIMITS,
+  ALLOWED_CONTENT_TYPES,
+  type AllowedContentType,
+  type StorageFolder,
+} from "@unisane/kernel";
+import { StorageRepo } from "../data/storage.repository";
+import type { StorageFile } from "../domain/types";
+import { ERR } from "@unisane/gateway";
+import { assertStorageQuota } from "./upload";
+
+export type StoreFileArgs = {
+  uploaderId: string;
+  folder: StorageFolder;
+  filename: string;
+  contentType: AllowedContentType;
+  body: Uint8Array;
+  metadata?: Record<string, unknown>;
+};
+
+export type StoreFileResult = {
+  file: StorageFile;
+  url: string;
+  expiresAt: number;
+};
+
+/**
+ * Write server-generated content (exports, rendered documents) straight to
+ * the storage provider and register it as an active file.
+ *
+ * Unlike requestUpload/confirmUpload there is no client round-trip: the record
+ * is created, the bytes are written and the record is confirmed in one call.
+ * Returns a signed download URL for the stored object.
+ */
+export async function storeFile(args: StoreFileArgs): Promise<StoreFileResult> {
+  const scopeId = getScopeId();
+  await connectDb();
+
+  const { uploaderId, folder, filename, contentType, body, metadata } = args;
+  const typeConfig = ALLOWED_CONTENT_TYPES[contentType];
+  if (!typeConfig) {
+    throw ERR.validation(`Content type ${contentType} not allowed`);
+  }
+  const sizeBytes = body.byteLength;
+  if (sizeBytes > typeConfig.maxBytes) {
+    throw ERR.validation(
+      `File size ${sizeBytes} exceeds max ${typeConfig.maxBytes} for ${contentType}`
+    );
+  }
+  await assertStorageQuota(scopeId, sizeBytes);
+
+  const key = generateStorageKey({
+    scopeId,
+    folder,
+    uuid: randomUUID(),
+    filename,
+    contentType,
+  });
+
+  const created = await StorageRepo.create({
+    scopeId,
+    uploaderId,
+    key,
+    folder,
+    filename,
+    contentType,
+    sizeBytes,
+    ...(metadata ? { metadata } : {}),
+  });
+
+  try {
+    await putObjectBuffer(key, Buffer.from(body.buffer, body.byteOffset, body.byteLength), {
+      contentType,
+    });
+  } catch (err) {
+    // Leave no pending record behind for an object that was never written
+    await StorageRepo.hardDelete(created.id);
+    throw err;
+  }
+
+  const file = await StorageRepo.confirmUpload(created.id);
+  if (!file) {
+    await deleteObject(key);
+    throw ERR.validation("File already confirmed or deleted");
+  }
+
+  await emitTypedReliable("storage.upload.confirmed", {
+    scopeId,
+    fileId: file.id,
+    key,
+    size: sizeBytes,
+  });
+
+  const signed = await getSignedDownloadUrl(key, STORAGE_LIMITS.PRESIGN_EXPIRY_SEC);
+  return { file, url: signed.url, expiresAt: signed.expiresAt };
+}
@@ -108,43 +108,65 @@ function validateFilenameMatchesMimeType(
   }
 }
 
-export async function requestUpload(args: RequestUploadArgs) {
-  const scopeId = getScopeId();
-  await connectDb();
-
-  const { uploaderId, input } = args;
-  const { folder, filename, contentType, sizeBytes, metadata } = input;
+/**
+ * Reject a new file that would take the scope over its plan's storage quota.
+ * Skipped when no tenants provider is configured.
+ */
+export async function assertStorageQuota(scopeId: string, sizeBytes: number): Promise<void> {
+  if (!hasTenantsProvider()) return;
+  const tenantsProvider = getTenantsProvider();
+  const tenant = await tenantsProvider.findById(scopeId);
+  const planId = (tenant?.planId as PlanId) ?? "free";
+  const storageQuota = getStorageQuotaForPlan(planId);
+
+  // Get current storage usage
+  const usage = await StorageRepo.getStorageUsage();
+
+  // Check if the new file would exceed the quota
+  if (usage.totalBytes + sizeBytes > storageQuota) {
+    throw ERR.validation(
+      `Storage quota exceeded. Used: ${formatBytes(usage.totalBytes)}, Limit: ${formatBytes(storageQuota)}, Requested: ${formatBytes(sizeBytes)}`
+    );
+  }
+}
 
+/**
+ * Validate a new file's content type, size and filename before any upload
+ * URL is issued. `maxBytes` replaces the content type's single-upload limit
+ * (multipart uploads have their own).
+ */
+export function assertUploadAllowed(
+  filename: string,
+  contentType: string,
+  sizeBytes: number,
+  maxBytes?: number
+): void {
   const typeConfig = ALLOWED_CONTENT_TYPES[contentType as AllowedContentType];
   if (!typeConfig) {
     throw ERR.validation(`Content type ${contentType} not allowed`);
   }
-  if (sizeBytes > typeConfig.maxBytes) {
+  const limit = maxBytes ?? typeConfig.maxBytes;
+  if (sizeBytes > limit) {
     throw ERR.validation(
-      `File size ${sizeBytes} exceeds max ${typeConfig.maxBytes} for ${contentType}`
+      `File size ${sizeBytes} exceeds max ${limit} for ${contentType}`
     );
   }
 
   // M-010 FIX: Validate filename extension matches MIME type
   validateFilenameMatchesMimeType(filename, contentType as AllowedContentType);
+}
+
+export async function requestUpload(args: RequestUploadArgs) {
+  const scopeId = getScopeId();
+  await connectDb();
+
+  const { uploaderId, input } = args;
+  const { folder, filename, contentType, sizeBytes, metadata } = input;
+
+  assertUploadAllowed(filename, contentType, sizeBytes);
 
   // Check storage quota before proceeding
-  if (hasTenantsProvider()) {
-    const tenantsProvider = getTenantsProvider();
-    const tenant = await tenantsProvider.findById(scopeId);
-    const planId = (tenant?.planId as PlanId) ?? "free";
-    const storageQuota = getStorageQuotaForPlan(planId);
-
-    // Get current storage usage
-    const usage = await StorageRepo.getStorageUsage();
-
-    // Check if the new file would exceed the quota
-    if (usage.totalBytes + sizeBytes > storageQuota) {
-      throw ERR.validation(
-        `Storage quota exceeded. Used: ${formatBytes(usage.totalBytes)}, Limit: ${formatBytes(storageQuota)}, Requested: ${formatBytes(sizeBytes)}`
-      );
-    }
-  }
+  await assertStorageQuota(scopeId, sizeBytes);
 
   const uuid = randomUUID();
   const key = generateStorageKey({
@@ -12,6 +12,7 @@ import type {
   TenantStatus,
 } from "@unisane/kernel";
 import { readTenant } from "./service/read-tenant";
+import { updateTenantStatus } from "./service/update-tenant-status";
 import { TenantsRepo } from "./data/tenants.repository";
 
 /**
@@ -75,10 +76,12 @@ export const tenantsAdapter: TenantsPort = {
     await TenantsRepo.updatePlanId(tenantId, planId);
   },
 
-  async updateStatus(tenantId, status) {
-    await TenantsRepo.updateStatus({
+  async updateStatus(tenantId, status, reason) {
+    // Through the service so system-driven changes are audited too
+    await updateTenantStatus({
       tenantId,
       status,
+      ...(reason ? { reason } : {}),
       actorId: "system",
     });
   },
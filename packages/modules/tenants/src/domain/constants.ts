@@ -35,17 +35,11 @@ export const TENANT_EVENTS = {
 // This module re-exports them as TENANT_ROLES/TenantRole for backward compatibility.
 // See: packages/foundation/kernel/src/rbac/roles.ts
 
-/**
- * Invitation status values.
- */
-export const INVITATION_STATUS = {
-  PENDING: 'pending',
-  ACCEPTED: 'accepted',
-  EXPIRED: 'expired',
-  REVOKED: 'revoked',
-} as const;
-
-export type InvitationStatus = (typeof INVITATION_STATUS)[keyof typeof INVITATION_STATUS];
+// NOTE: Invitation status is defined in @unisane/kernel as INVITATION_STATUS.
+// Invitations are managed by @unisane/identity (it owns memberships and users).
+// This module re-exports them for backward compatibility.
+// See: packages/foundation/kernel/src/constants/identity.ts
+export { INVITATION_STATUS, type InvitationStatus } from '@unisane/kernel';
 
 /**
  * Default values for tenant operations.
@@ -15,6 +15,10 @@ import type {
 import { runWithScope } from "@unisane/kernel";
 import { increment } from "./service/increment";
 import { getWindow } from "./service/getWindow";
+import { UsageRepo } from "./data/usage.repository";
+
+// Bound `$in` lists for cross-scope lookups
+const SCOPE_BATCH_SIZE = 1000;
 
 /**
  * UsagePort implementation that wraps the usage module services.
@@ -105,6 +109,29 @@ export const usageAdapter: UsagePort = {
     });
   },
 
+  async getLastUsageByScope(args) {
+    // Hourly rollups are the finest persisted granularity
+    const out = new Map<string, Date>();
+    for (let i = 0; i < args.scopeIds.length; i += SCOPE_BATCH_SIZE) {
+      const rows = await UsageRepo.findLastHourByScope(
+        args.scopeIds.slice(i, i + SCOPE_BATCH_SIZE),
+        args.metric,
+        args.from,
+        args.to
+      );
+      for (const r of rows) out.set(r.scopeId, r.at);
+    }
+    return out;
+  },
+
+  async sumUsage(args) {
+    const rows = await UsageRepo.sumHoursByScopeFeature(args.from, args.to, {
+      ...(args.metrics ? { features: args.metrics } : {}),
+      ...(args.scopeIds ? { scopeIds: args.scopeIds } : {}),
+    });
+    return rows.map((r) => ({ scopeId: r.scopeId, metric: r.feature, value: r.total }));
+  },
+
   async isWithinLimit(args) {
     return runWithScope({ type: "tenant", id: args.scopeId }, async () => {
       // Usage module doesn't manage limits directly
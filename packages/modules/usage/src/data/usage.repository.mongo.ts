@@ -7,7 +7,7 @@ import {
   type Document,
 } from '@unisane/kernel';
 import type { UsageRepoPort } from '../domain/ports';
-import type { UsageHourRow } from '../domain/types';
+import type { UsageHourRow, UsageTotalRow } from '../domain/types';
 
 type UsageSampleDoc = {
   _id?: unknown;
@@ -44,4 +44,35 @@ export const UsageRepoMongo: UsageRepoPort = {
       .toArray();
     return rows as unknown as UsageHourRow[];
   },
+  async sumHoursByScopeFeature(fromUtc, toUtc, filter) {
+    const match: Document = { window: 'hour', at: { $gte: fromUtc, $lt: toUtc } };
+    if (filter?.features) match.feature = { $in: filter.features };
+    if (filter?.scopeIds) match.scopeId = { $in: filter.scopeIds };
+    const rows = await usageCol()
+      .aggregate<{ _id: { scopeId: string; feature: string }; total: number }>([
+        { $match: match },
+        { $group: { _id: { scopeId: '$scopeId', feature: '$feature' }, total: { $sum: '$count' } } },
+        { $match: { total: { $gt: 0 } } },
+      ])
+      .toArray();
+    return rows.map((r): UsageTotalRow => ({ scopeId: r._id.scopeId, feature: r._id.feature, total: r.total }));
+  },
+  async findLastHourByScope(scopeIds, feature, fromUtc, toUtc) {
+    if (scopeIds.length === 0) return [];
+    const rows = await usageCol()
+      .aggregate<{ _id: string; at: Date }>([
+        {
+          $match: {
+            scopeId: { $in: scopeIds },
+            feature,
+            window: 'hour',
+            at: { $gte: fromUtc, $lt: toUtc },
+            count: { $gt: 0 },
+          },
+        },
+        { $group: { _id: '$scopeId', at: { $max: '$at' } } },
+      ])
+      .toArray();
+    return rows.map((r) => ({ scopeId: r._id, at: r.at }));
+  },
 };
@@ -1,4 +1,4 @@
-import type { UsageHourRow } from './types';
+import type { UsageHourRow, UsageTotalRow } from './types';
 import type { UsageWindow } from '@unisane/kernel';
 
 export interface UsageRepoPort {
@@ -6,4 +6,12 @@ export interface UsageRepoPort {
   findHourCount(scopeId: string, feature: string, hourStartUtc: Date): Promise<number>;
   upsertIncrement(window: UsageWindow, atUtc: Date, scopeId: string, feature: string, inc: number): Promise<void>;
   listHoursInRange(dayStartUtc: Date, nextDayUtc: Date): Promise<UsageHourRow[]>;
+  // Sum of hourly rollups per scope and feature in [fromUtc, toUtc)
+  sumHoursByScopeFeature(
+    fromUtc: Date,
+    toUtc: Date,
+    filter?: { features?: string[]; scopeIds?: string[] }
+  ): Promise<UsageTotalRow[]>;
+  // Latest non-zero hour per scope in [fromUtc, toUtc)
+  findLastHourByScope(scopeIds: string[], feature: string, fromUtc: Date, toUtc: Date): Promise<Array<{ scopeId: string; at: Date }>>;
 }
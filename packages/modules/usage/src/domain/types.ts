@@ -4,3 +4,9 @@ export type UsageHourRow = {
   count: number;
 };
 
+
+export type UsageTotalRow = {
+  scopeId: string;
+  feature: string;
+  total: number;
+};
@@ -86,6 +86,36 @@ export async function handlePaymentCaptured(obj: Record<string, unknown>): Promi
   }
 }
 
+/**
+ * Handle payment.failed
+ * Emits events for: payment record (status failed)
+ */
+export async function handlePaymentFailed(obj: Record<string, unknown>): Promise<void> {
+  const eventLog = log.child({ type: 'payment.failed' });
+  const providerPaymentId = getString(obj, ['id']);
+  const amount = getNumber(obj, ['amount']);
+  const currencyRaw = getString(obj, ['currency']);
+  const notesAny = getAny(obj, ['notes']);
+  const notes = (notesAny && typeof notesAny === 'object') ? (notesAny as Record<string, unknown>) : {};
+  const scopeId = typeof notes['tenantId'] === 'string' ? notes['tenantId'] as string : undefined;
+  const currency = (currencyRaw ?? '').toUpperCase();
+
+  if (!scopeId || !providerPaymentId || !amount || !currency) {
+    eventLog.debug('missing required fields', { scopeId, providerPaymentId, hasAmount: !!amount, currency });
+    return;
+  }
+
+  eventLog.info('emitting razorpay payment event', { scopeId, providerPaymentId, status: 'failed' });
+
+  await emitTyped('webhook.razorpay.payment_event', {
+    scopeId,
+    paymentId: providerPaymentId,
+    amount: toMajorNumberCurrency(BigInt(amount), currencyRaw ?? currency),
+    currency,
+    status: 'failed',
+  }, 'webhooks');
+}
+
 /**
  * Handle subscription events (subscription.activated, subscription.charged, etc.)
  * Emits events for: subscription update, credit grant (if applicable)
@@ -102,7 +132,9 @@ export async function handleSubscriptionEvent(
   const currentEndSec = getNumber(obj, ['current_end']);
   const notesAny = getAny(obj, ['notes']);
   const notes = (notesAny && typeof notesAny === 'object') ? (notesAny as Record<string, unknown>) : {};
-  const scopeId = typeof notes['tenantId'] === 'string' ? notes['tenantId'] as string : undefined;
+  // Subscriptions carry `scopeId` in their notes; older ones used `tenantId`
+  const noteScope = notes['scopeId'] ?? notes['tenantId'];
+  const scopeId = typeof noteScope === 'string' ? noteScope : undefined;
 
   if (!scopeId || !subId) {
     eventLog.debug('missing required fields', { scopeId, subId });
@@ -125,6 +157,7 @@ export async function handleSubscriptionEvent(
     rawStatus,
     normalizedStatus,
     eventType,
+    couponId: typeof notes['couponId'] === 'string' ? notes['couponId'] as string : null,
   }, 'webhooks');
 
   // Also emit for tenants module to update plan
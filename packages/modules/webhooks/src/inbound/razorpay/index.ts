@@ -1,6 +1,6 @@
 import { logger } from '@unisane/kernel';
 import { z } from 'zod';
-import { handlePaymentCaptured, handleSubscriptionEvent } from './handlers';
+import { handlePaymentCaptured, handlePaymentFailed, handleSubscriptionEvent } from './handlers';
 
 const ZRazorpayEvent = z.object({
   event: z.string().min(1).optional(),
@@ -27,7 +27,10 @@ export async function handleRazorpayEvent(evt: unknown): Promise<void> {
 
   const data = parseResult.data;
   const type = data.event ?? data.type ?? '';
-  const obj = data.payload?.payment?.entity ?? data.payload?.subscription?.entity ?? data.entity;
+  // subscription.charged carries both entities; subscription events need the subscription
+  const obj = /^subscription\./i.test(type)
+    ? data.payload?.subscription?.entity ?? data.entity
+    : data.payload?.payment?.entity ?? data.payload?.subscription?.entity ?? data.entity;
 
   const log = logger.child({ src: 'webhooks.razorpay', type });
 
@@ -40,7 +43,12 @@ export async function handleRazorpayEvent(evt: unknown): Promise<void> {
     return handlePaymentCaptured(obj as Record<string, unknown>);
   }
 
-  if (/subscription\.(activated|charged|completed|updated|paused|cancelled)/i.test(type)) {
+  if (/payment\.failed/i.test(type)) {
+    return handlePaymentFailed(obj as Record<string, unknown>);
+  }
+
+  // pending/halted: renewal charge failed (past due / unpaid)
+  if (/subscription\.(activated|charged|completed|updated|paused|cancelled|pending|halted)/i.test(type)) {
     return handleSubscriptionEvent(type, obj as Record<string, unknown>);
   }
 
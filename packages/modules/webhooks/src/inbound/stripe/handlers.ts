@@ -45,12 +45,14 @@ async function findScopeIdByCustomerStripe(customerId?: string | null): Promise<
 
 /**
  * Handle checkout.session.completed
- * Emits events for: customer mapping, payment record, invoice record, credit grant
+ * Emits events for: customer mapping, payment record, invoice record, credit grant,
+ * subscription checkout (promotion code confirmation)
  */
 export async function handleCheckoutCompleted(obj: Record<string, unknown>, eventId?: string): Promise<void> {
   const eventLog = log.child({ type: 'checkout.session.completed', eventId });
   const mode = getString(obj, ['mode']);
-  const scopeId = getString(obj, ['metadata', 'tenantId']);
+  // Checkout sessions carry `scopeId`; older sessions used `tenantId`
+  const scopeId = getString(obj, ['metadata', 'scopeId']) ?? getString(obj, ['metadata', 'tenantId']);
   const customerId = getString(obj, ['customer']);
 
   // Emit customer mapping event
@@ -62,6 +64,19 @@ export async function handleCheckoutCompleted(obj: Record<string, unknown>, even
     }, 'webhooks');
   }
 
+  if (mode === 'subscription') {
+    const sessionId = getString(obj, ['id']);
+    if (!scopeId || !sessionId) return;
+    // Reliable: the billing module confirms the reserved promotion code on it
+    await emitTypedReliable('webhook.stripe.subscription_checkout_completed', {
+      scopeId,
+      checkoutSessionId: sessionId,
+      subscriptionId: getString(obj, ['subscription']) ?? null,
+      couponId: getString(obj, ['metadata', 'couponId']) ?? null,
+    }, 'webhooks');
+    return;
+  }
+
   if (mode === 'payment') {
     const paymentIntent = getString(obj, ['payment_intent']);
     const amountTotal = getNumber(obj, ['amount_total']);
@@ -101,16 +116,6 @@ export async function handleCheckoutCompleted(obj: Record<string, unknown>, even
       invoicePdf: invoicePdf ?? null,
     }, 'webhooks');
 
-    // Emit payment event (billing module listens)
-    await emitTyped('webhook.stripe.payment_event', {
-      scopeId,
-      customerId: customerId ?? null,
-      paymentIntentId: paymentIntent,
-      amount: amountMajor,
-      currency,
-      status: 'succeeded',
-    }, 'webhooks');
-
     // Emit invoice event if present (billing module listens)
     if (invoiceId) {
       await emitTyped('webhook.stripe.invoice_event', {
@@ -125,9 +130,46 @@ export async function handleCheckoutCompleted(obj: Record<string, unknown>, even
         eventType: 'checkout.session.completed',
       }, 'webhooks');
     }
+
+    // Emit payment event after the invoice (billing module listens)
+    await emitTyped('webhook.stripe.payment_event', {
+      scopeId,
+      customerId: customerId ?? null,
+      paymentIntentId: paymentIntent,
+      amount: amountMajor,
+      currency,
+      status: 'succeeded',
+    }, 'webhooks');
   }
 }
 
+/**
+ * Read invoice lines (amounts converted to major units) so billing can
+ * render its own invoice documents.
+ */
+function extractInvoiceLineItems(
+  obj: Record<string, unknown>,
+  currency: string
+): Array<{ description: string; quantity: number; unitAmount: number; amount: number }> {
+  const lines = getAny(obj, ['lines', 'data']);
+  if (!Array.isArray(lines)) return [];
+  return lines.map((line: unknown) => {
+    const quantity = getNumber(line, ['quantity']) ?? 1;
+    const amountMinor = getNumber(line, ['amount']) ?? 0;
+    const unitMinor = getNumber(line, ['price', 'unit_amount']) ??
+      Number(getString(line, ['pricing', 'unit_amount_decimal']) ?? NaN);
+    const amount = toMajorNumberCurrency(BigInt(Math.round(amountMinor)), currency);
+    return {
+      description: getString(line, ['description']) ?? 'Item',
+      quantity,
+      unitAmount: Number.isFinite(unitMinor)
+        ? toMajorNumberCurrency(BigInt(Math.round(unitMinor)), currency)
+        : quantity > 0 ? amount / quantity : amount,
+      amount,
+    };
+  });
+}
+
 /**
  * Handle invoice.* events
  * Emits events for: invoice record, payment record, credit grants
@@ -154,21 +196,6 @@ export async function handleInvoiceEvent(
   const mode = await getBillingModeViaPort();
   eventLog.info('invoice event - emitting events', { phase: 'invoice_event', mode, amountPaid, currency });
 
-  // Emit payment event
-  if (paymentIntent && amountPaid && currency &&
-      (type === 'invoice.payment_succeeded' || type === 'invoice.payment_failed')) {
-    const amountMajorPaid = toMajorNumberCurrency(BigInt(amountPaid), currency);
-
-    await emitTyped('webhook.stripe.payment_event', {
-      scopeId,
-      customerId: customerId ?? null,
-      paymentIntentId: paymentIntent,
-      amount: amountMajorPaid,
-      currency,
-      status: type === 'invoice.payment_succeeded' ? 'succeeded' : 'failed',
-    }, 'webhooks');
-  }
-
   // Emit invoice event
   const amountMajorInv = amountPaid !== undefined && currencyRaw
     ? toMajorNumberCurrency(BigInt(amountPaid ?? 0), currencyRaw)
@@ -189,8 +216,29 @@ export async function handleInvoiceEvent(
     status: invoiceStatus,
     url: hostedUrl ?? null,
     eventType: type,
+    number: getString(obj, ['number']) ?? null,
+    lineItems: extractInvoiceLineItems(obj, currency),
   }, 'webhooks');
 
+  // Emit payment event after the invoice so receipts can find their invoice.
+  // Failed attempts have nothing paid; record the amount that was due.
+  const paymentAmount = type === 'invoice.payment_failed'
+    ? getNumber(obj, ['amount_due'])
+    : amountPaid;
+  if (paymentIntent && paymentAmount && currency &&
+      (type === 'invoice.payment_succeeded' || type === 'invoice.payment_failed')) {
+    const amountMajorPayment = toMajorNumberCurrency(BigInt(paymentAmount), currency);
+
+    await emitTyped('webhook.stripe.payment_event', {
+      scopeId,
+      customerId: customerId ?? null,
+      paymentIntentId: paymentIntent,
+      amount: amountMajorPayment,
+      currency,
+      status: type === 'invoice.payment_succeeded' ? 'succeeded' : 'failed',
+    }, 'webhooks');
+  }
+
   // Subscription credits grant
   if (type === 'invoice.payment_succeeded' && mode === 'subscription_with_credits') {
     const subscriptionId = getString(obj, ['subscription']) ??
@@ -32,6 +32,11 @@
  *   unisane db seed                 Seed database
  *   unisane db studio               Open database GUI
  *
+ * Schedules:
+ *   unisane schedules list          List cron schedules and their last run
+ *   unisane schedules history <n>   Show recent runs of a schedule
+ *   unisane schedules run <name>    Run a schedule now
+ *
  * Environment:
  *   unisane env check               Validate environment variables
  *   unisane env init                Create .env.local from template
@@ -71,6 +76,8 @@ import { envCheck, envInit, envGenerate, envPull, envPush } from './commands/env
 import { upgrade, listVersions } from './commands/upgrade/index.js';
 import { uiInit, uiAdd, uiDiff, uiDoctor } from './commands/ui/index.js';
 import { dbQuery, dbRename, dbListCollections, dbIndexes, dbMigrate, dbSeed } from './commands/db/index.js';
+import { cacheClearRbac } from './commands/cache/index.js';
+import { schedulesList, schedulesHistory, schedulesRun } from './commands/schedules/index.js';
 
 const VERSION = '0.1.0';
 
@@ -762,10 +769,49 @@ cache
 cache
   .command('clear-rbac')
   .description('Clear RBAC permission cache')
+  .option('-t, --tenant <id>', 'Only clear the cache of one tenant')
+  .action(async (options) => {
+    log.banner('Unisane');
+    loadEnvLocal();
+    const code = await cacheClearRbac({ tenant: options.tenant });
+    process.exit(code);
+  });
+
+// ════════════════════════════════════════════════════════════════════════════
+// SCHEDULES
+// ════════════════════════════════════════════════════════════════════════════
+
+const schedules = program.command('schedules').description('Cron schedules of the running app');
+
+schedules
+  .command('list')
+  .description('List schedules with their last run and last error')
   .action(async () => {
     log.banner('Unisane');
     loadEnvLocal();
-    log.warn('cache clear-rbac is not yet implemented');
+    const code = await schedulesList();
+    process.exit(code);
+  });
+
+schedules
+  .command('history <name>')
+  .description('Show recent runs of a schedule')
+  .option('-l, --limit <n>', 'Number of runs to show', '20')
+  .action(async (name, options) => {
+    log.banner('Unisane');
+    loadEnvLocal();
+    const code = await schedulesHistory(name, { limit: parseInt(options.limit, 10) });
+    process.exit(code);
+  });
+
+schedules
+  .command('run <name>')
+  .description('Run a schedule now on a running instance')
+  .action(async (name) => {
+    log.banner('Unisane');
+    loadEnvLocal();
+    const code = await schedulesRun(name);
+    process.exit(code);
   });
 
 // ════════════════════════════════════════════════════════════════════════════
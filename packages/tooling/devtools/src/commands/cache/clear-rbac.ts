@@ -0,0 +1,41 @@
+/**
+ * cache:clear-rbac command - Drop cached permission sets and custom roles
+ *
+ * Usage:
+ *   unisane cache clear-rbac [--tenant <id>]
+ *
+ * Cached RBAC entries are keyed by an RBAC generation; bumping it makes every
+ * cached permission set of the tenant (or of all tenants) stale at once.
+ */
+
+import { log } from '@unisane/cli-core';
+
+export interface CacheClearRbacOptions {
+  tenant?: string;
+}
+
+export async function cacheClearRbac(options: CacheClearRbacOptions = {}): Promise<number> {
+  try {
+    // Dynamic import to avoid loading the kernel when not needed
+    const { bumpRbacGeneration, getEnv } = await import('@unisane/kernel');
+
+    const env = getEnv();
+    if (!env.REDIS_URL && !env.KV_REST_API_URL) {
+      log.warn('No REDIS_URL or KV_REST_API_URL configured; the app uses an in-process cache that this command cannot reach');
+      log.dim('Restart the app to clear its in-memory permission cache');
+      return 1;
+    }
+
+    await bumpRbacGeneration(options.tenant);
+
+    log.success(
+      options.tenant
+        ? `Cleared RBAC cache for tenant ${options.tenant}`
+        : 'Cleared RBAC cache for all tenants'
+    );
+    return 0;
+  } catch (error) {
+    log.error(`Clearing RBAC cache failed: ${(error as Error).message}`);
+    return 1;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Cache commands
+ *
+ * Commands for managing shared caches:
+ * - clear-rbac: Drop cached permission sets and custom roles
+ */
+
+export { cacheClearRbac } from './clear-rbac.js';
+export type { CacheClearRbacOptions } from './clear-rbac.js';
@@ -0,0 +1,13 @@
+/**
+ * Schedule commands
+ *
+ * Commands for inspecting and triggering cron schedules of a running app:
+ * - list: Registered schedules with their last run and last error
+ * - history: Recent runs of a schedule
+ * - run: Ask the running scheduler to run a schedule now
+ */
+
+export { schedulesList, schedulesHistory } from './list.js';
+export type { SchedulesHistoryOptions } from './list.js';
+
+export { schedulesRun } from './run.js';
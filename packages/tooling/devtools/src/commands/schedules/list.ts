@@ -0,0 +1,95 @@
+/**
+ * schedules:list and schedules:history commands - Inspect cron schedules
+ *
+ * Usage:
+ *   unisane schedules list
+ *   unisane schedules history <name> [--limit <n>]
+ *
+ * Schedules, run history and last errors are read from the shared cache the
+ * app's scheduler writes to. The list is published when a scheduler starts
+ * (SCHEDULER_ENABLED=true).
+ */
+
+import { log } from '@unisane/cli-core';
+
+export interface SchedulesHistoryOptions {
+  limit?: number;
+}
+
+function formatTime(date: Date | null | undefined): string {
+  return date ? date.toISOString().replace('T', ' ').slice(0, 19) : '-';
+}
+
+/**
+ * The scheduler state lives in Redis; without it each app process keeps
+ * its own in-memory copy that this command cannot read.
+ */
+function hasSharedCache(env: { REDIS_URL?: string }): boolean {
+  if (env.REDIS_URL) return true;
+  log.warn('No REDIS_URL configured; scheduler state is kept in the app process and cannot be read from here');
+  return false;
+}
+
+export async function schedulesList(): Promise<number> {
+  try {
+    const { getEnv, getScheduleCatalog, getScheduleRuns, getScheduleLastError } = await import('@unisane/kernel');
+    if (!hasSharedCache(getEnv())) return 1;
+
+    const catalog = await getScheduleCatalog();
+    if (catalog.length === 0) {
+      log.info('No schedules published yet. Start the app with SCHEDULER_ENABLED=true.');
+      return 0;
+    }
+
+    const rows = await Promise.all(
+      catalog.map(async (schedule) => {
+        const [[lastRun], lastError] = await Promise.all([
+          getScheduleRuns(schedule.name, 1),
+          getScheduleLastError(schedule.name),
+        ]);
+        return [
+          schedule.name,
+          `${schedule.cron}${schedule.timezone === 'UTC' ? '' : ` (${schedule.timezone})`}`,
+          schedule.enabled ? 'yes' : 'no',
+          lastRun ? `${formatTime(lastRun.startedAt)} ${lastRun.status}` : '-',
+          lastError ? `${formatTime(lastError.at)} ${lastError.message}` : '-',
+        ];
+      })
+    );
+
+    log.table(['Schedule', 'Cron', 'Enabled', 'Last run (UTC)', 'Last error'], rows);
+    return 0;
+  } catch (error) {
+    log.error(`Listing schedules failed: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+export async function schedulesHistory(name: string, options: SchedulesHistoryOptions = {}): Promise<number> {
+  try {
+    const { getEnv, getScheduleRuns, MAX_SCHEDULE_RUNS } = await import('@unisane/kernel');
+    if (!hasSharedCache(getEnv())) return 1;
+
+    const runs = await getScheduleRuns(name, options.limit ?? MAX_SCHEDULE_RUNS);
+    if (runs.length === 0) {
+      log.info(`No runs recorded for ${name}`);
+      return 0;
+    }
+
+    log.table(
+      ['Started (UTC)', 'Trigger', 'Request', 'Status', 'Duration', 'Error'],
+      runs.map((run) => [
+        formatTime(run.startedAt),
+        run.trigger,
+        run.requestId ?? '',
+        run.status,
+        `${run.durationMs}ms`,
+        run.error ?? '',
+      ])
+    );
+    return 0;
+  } catch (error) {
+    log.error(`Reading schedule history failed: ${(error as Error).message}`);
+    return 1;
+  }
+}
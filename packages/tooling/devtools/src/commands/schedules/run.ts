@@ -0,0 +1,41 @@
+/**
+ * schedules:run command - Run a schedule now
+ *
+ * Usage:
+ *   unisane schedules run <name>
+ *
+ * The CLI does not load the app's schedules, so it leaves a request in the
+ * shared cache; the next poll of a running scheduler runs it (within the
+ * scheduler's poll interval, or once a run in progress finishes). Check the
+ * outcome with `schedules history`, which shows the request ID.
+ */
+
+import { log } from '@unisane/cli-core';
+
+export async function schedulesRun(name: string): Promise<number> {
+  try {
+    const { getEnv, getScheduleCatalog, requestScheduleRun } = await import('@unisane/kernel');
+
+    if (!getEnv().REDIS_URL) {
+      log.warn('No REDIS_URL configured; a running scheduler cannot see requests from this process');
+      return 1;
+    }
+
+    const catalog = await getScheduleCatalog();
+    if (!catalog.some((schedule) => schedule.name === name)) {
+      log.error(`Unknown schedule: ${name}`);
+      if (catalog.length > 0) {
+        log.dim(`Available: ${catalog.map((schedule) => schedule.name).join(', ')}`);
+      }
+      return 1;
+    }
+
+    const requestId = await requestScheduleRun(name);
+    log.success(`Requested a run of ${name} (request ${requestId}); a running scheduler will pick it up shortly`);
+    log.dim(`Check the result with: unisane schedules history ${name}`);
+    return 0;
+  } catch (error) {
+    log.error(`Requesting schedule run failed: ${(error as Error).message}`);
+    return 1;
+  }
+}
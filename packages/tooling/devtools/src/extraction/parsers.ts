@@ -271,6 +271,8 @@ export function parseServiceEntry(
   if (getBoolProp(obj, 'requireUser')) entry.requireUser = true;
   if (getBoolProp(obj, 'requireSuperAdmin')) entry.requireSuperAdmin = true;
   if (getBoolProp(obj, 'idempotent')) entry.idempotent = true;
+  const successStatus = getRawProp(obj, 'successStatus');
+  if (successStatus && /^2\d\d$/.test(successStatus)) entry.successStatus = Number(successStatus);
 
   // Permission (raw identifier like PERM.BILLING_WRITE)
   const perm = getRawProp(obj, 'perm');
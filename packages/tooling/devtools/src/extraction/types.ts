@@ -77,6 +77,8 @@ export interface RouteGenEntry {
   perm?: string;
   /** Mark as idempotent operation */
   idempotent?: boolean;
+  /** HTTP status of a successful response (default: 200) */
+  successStatus?: number;
   /** Raw handler (use factory instead of service) */
   raw?: boolean;
   /** Rate limiting key expression */
@@ -262,6 +262,7 @@ export async function renderRouteHandler(args: {
     }
   }
   if (cfg.idempotent) guardBits.push('idempotent: true');
+  if (cfg.successStatus) guardBits.push(`successStatus: ${cfg.successStatus}`);
 
   // Build guard string with optional zod schemas
   const zodParts: string[] = [];
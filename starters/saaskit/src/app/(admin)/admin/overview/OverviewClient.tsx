@@ -7,6 +7,7 @@ import {
   StatsCards,
   type StatItem,
 } from "@/src/components/dashboard/StatsCards";
+import { ExperimentResultsCard } from "@/src/components/dashboard/ExperimentResultsCard";
 
 export default function OverviewClient() {
   // Analytics query for dashboard metrics
@@ -81,6 +82,9 @@ export default function OverviewClient() {
       <div className="mt-4">
         <StatsCards items={statsItems} isLoading={analyticsQuery.isLoading} />
       </div>
+      <div className="mt-4">
+        <ExperimentResultsCard />
+      </div>
     </>
   );
 }
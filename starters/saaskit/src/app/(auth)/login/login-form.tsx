@@ -44,6 +44,17 @@ export function LoginForm({ socialProviders = [] }: LoginFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [socialSubmitting, setSocialSubmitting] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+
+  // OAuth sign-ins with MFA enabled land here with the challenge in the fragment
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.hash.slice(1)).get('mfa');
+    if (token) {
+      setChallengeToken(token);
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  }, []);
 
   useEffect(() => {
     const err = searchParams.get('error');
@@ -76,16 +87,14 @@ export function LoginForm({ socialProviders = [] }: LoginFormProps) {
     try {
       const { createApi } = await import('@/src/sdk');
       const api = await createApi();
-      await api.auth.passwordSignIn({ body: { email, password } });
-      try {
-        await fetch('/api/auth/csrf', { method: 'GET', credentials: 'include' });
-      } catch {
-        // best-effort
+      const res = (await api.auth.passwordSignIn({ body: { email, password } })) as
+        | { mfaRequired?: boolean; challengeToken?: string }
+        | undefined;
+      if (res?.mfaRequired && res.challengeToken) {
+        setChallengeToken(res.challengeToken);
+        return;
       }
-      toast.success('Signed in');
-      const destination = callbackURL ?? '/onboarding';
-      router.replace(destination);
-      router.refresh();
+      await finishSignIn();
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Sign in failed.';
       setError(msg);
@@ -95,6 +104,37 @@ export function LoginForm({ socialProviders = [] }: LoginFormProps) {
     }
   }
 
+  async function handleMfaSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!challengeToken) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { createApi } = await import('@/src/sdk');
+      const api = await createApi();
+      await api.auth.mfaVerify({ body: { challengeToken, code: mfaCode.trim() } });
+      await finishSignIn();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Verification failed.';
+      setError(msg);
+      toast.error('Verification failed', { description: msg });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function finishSignIn() {
+    try {
+      await fetch('/api/auth/csrf', { method: 'GET', credentials: 'include' });
+    } catch {
+      // best-effort
+    }
+    toast.success('Signed in');
+    const destination = callbackURL ?? '/onboarding';
+    router.replace(destination);
+    router.refresh();
+  }
+
   async function startSocialSignIn(provider: SocialProvider) {
     setError(null);
     setSocialSubmitting(provider.id);
@@ -116,6 +156,54 @@ export function LoginForm({ socialProviders = [] }: LoginFormProps) {
       <FcGoogle className="h-5 w-5" />
     );
 
+  if (challengeToken) {
+    return (
+      <div className="flex w-full flex-col gap-6">
+        <form className="flex flex-col gap-5" onSubmit={handleMfaSubmit}>
+          <Typography variant="bodyMedium" className="text-on-surface-variant">
+            Enter the code from your authenticator app, or one of your recovery codes.
+          </Typography>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="mfa-code" className="text-label-small text-on-surface-variant">
+              Verification code
+            </Label>
+            <Input
+              id="mfa-code"
+              autoComplete="one-time-code"
+              required
+              autoFocus
+              value={mfaCode}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setMfaCode(e.target.value)}
+              placeholder="123456"
+            />
+          </div>
+
+          {error && (
+            <Alert variant="error" title="Error">
+              {error}
+            </Alert>
+          )}
+
+          <Button type="submit" disabled={isSubmitting} className="w-full">
+            {isSubmitting ? 'Verifying…' : 'Verify'}
+          </Button>
+          <Button
+            type="button"
+            variant="text"
+            className="w-full"
+            onClick={() => {
+              setChallengeToken(null);
+              setMfaCode('');
+              setError(null);
+            }}
+          >
+            Back to sign in
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="flex w-full flex-col gap-6">
       <form className="flex flex-col gap-5" onSubmit={handleSubmit}>
@@ -1,6 +1,6 @@
 import { getEnv, decodeBase64UrlJson, logger } from "@unisane/kernel";
 import { decodeJwt } from "jose";
-import { exchange } from "@unisane/auth";
+import { exchange, startMfaChallenge } from "@unisane/auth";
 import { getAuthConfig } from "@/src/config";
 import { signJwtRS256 } from "@unisane/gateway";
 import { buildAccessTokenCookie, parseCookies } from "@unisane/gateway";
@@ -218,12 +218,6 @@ export const GET = makeHandlerRaw<unknown, { provider: string }>(
       );
       return new Response(null, { status: 302, headers: h });
     }
-    const jwt = signJwtRS256({ sub: userId }, JWT_PRIVATE_KEY, {
-      expSec: authCfg.accessTokenTtlSec,
-    });
-    const authCookie = buildAccessTokenCookie(jwt, {
-      maxAgeSec: authCfg.cookieAccessTtlSec,
-    });
 
     // Decode next from state
     let next = "/onboarding";
@@ -233,6 +227,32 @@ export const GET = makeHandlerRaw<unknown, { provider: string }>(
       next = n && n.startsWith("/") ? n : next;
     } catch {}
 
+    // Second factor pending: no session until the challenge is verified. The
+    // token travels in the fragment so it stays out of logs and Referer headers.
+    const challenge = await startMfaChallenge(userId);
+    if (challenge) {
+      const headers = new Headers();
+      clearOAuthCookie(headers, "oauth_state");
+      clearOAuthCookie(headers, "oauth_pkce");
+      clearOAuthCookie(headers, "oauth_nonce");
+      headers.set(
+        "location",
+        `/login?next=${encodeURIComponent(next)}#mfa=${encodeURIComponent(challenge.challengeToken)}`
+      );
+      headers.set("x-request-id", requestId);
+      try {
+        metrics.inc("auth.oauth.mfa_required", 1, { provider });
+      } catch {}
+      return new Response(null, { status: 302, headers });
+    }
+
+    const jwt = signJwtRS256({ sub: userId }, JWT_PRIVATE_KEY, {
+      expSec: authCfg.accessTokenTtlSec,
+    });
+    const authCookie = buildAccessTokenCookie(jwt, {
+      maxAgeSec: authCfg.cookieAccessTtlSec,
+    });
+
     // Clear transient cookies (state + pkce) and set auth cookie
     const headers = new Headers();
     headers.append("set-cookie", authCookie);
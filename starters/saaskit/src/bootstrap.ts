@@ -12,6 +12,7 @@ import {
   signalBootstrapReady,
   logger,
   getEnv,
+  getScheduler,
 } from '@unisane/kernel';
 import { configureRequestLogging } from '@unisane/gateway';
 import { validateEnvOrThrow } from './platform/env';
@@ -53,6 +54,7 @@ async function doBootstrap() {
     await registerEventSchemas();
 
     await registerEventHandlers();
+    await setupScheduler();
 
     const appEnv = getEnv().APP_ENV;
     const isDev = appEnv !== 'prod';
@@ -161,6 +163,7 @@ async function setupRepositories() {
 
   const { configureAuth } = await import('@unisane/gateway');
   const { usersRepository: usersRepo, apiKeysRepository, getEffectivePerms, applyGlobalOverlays } = await import('@unisane/identity');
+  const { isMfaRequiredForTenant } = await import('@unisane/auth');
 
   configureAuth({
     findApiKeyByHash: async (hash: string) => {
@@ -176,6 +179,7 @@ async function setupRepositories() {
     getEffectivePerms,
     applyGlobalOverlays,
     connectDb: async () => { await connectDb(); },
+    isMfaRequired: isMfaRequiredForTenant,
   });
 }
 
@@ -184,13 +188,63 @@ async function setupProviders() {
   initModules();
 
   await setupOutbox();
+  await setupSagaStore();
+  await setupEventStore();
   await setupJobsProvider();
   await setupEmailProviders();
   await setupBillingProviders();
+  await setupAiProvider();
+  await setupPdfRenderer();
+  await setupFileScanner();
+}
+
+async function setupEventStore() {
+  const {
+    setEventStoreProvider,
+    setProjectionCheckpointStore,
+    setSnapshotStoreProvider,
+    createProjectionHealthCheck,
+    getEnv,
+    db,
+    COLLECTIONS,
+  } = await import('@unisane/kernel');
+  if (!getEnv().EVENT_STORE_ENABLED) return;
+
+  const {
+    createMongoEventStoreAdapter,
+    createMongoProjectionCheckpointStore,
+    createMongoSnapshotStore,
+  } = await import('@unisane/event-store-mongodb');
+
+  // Emitted events are appended to the store; projections registered with
+  // getProjectionManager() are caught up by the "projections.catchUp" job
+  setEventStoreProvider(createMongoEventStoreAdapter({
+    collection: () => db().collection(COLLECTIONS.EVENTS),
+  }));
+  setProjectionCheckpointStore(createMongoProjectionCheckpointStore({
+    collection: () => db().collection(COLLECTIONS.PROJECTIONS),
+  }));
+  setSnapshotStoreProvider(createMongoSnapshotStore({
+    collection: () => db().collection(COLLECTIONS.SNAPSHOTS),
+  }));
+  registerHealthCheck('projections', createProjectionHealthCheck());
 }
 
 async function setupJobsProvider() {
-  const { setJobsProvider } = await import('@unisane/kernel');
+  const { setJobsProvider, setDLQProvider, getEnv, db, COLLECTIONS } = await import('@unisane/kernel');
+
+  if (getEnv().JOBS_PROVIDER === 'mongo') {
+    // Self-hosted queue; jobs are run by the "jobs.process" registry job
+    const { createMongoJobsAdapter, createMongoJobsDLQAdapter } = await import('@unisane/jobs-mongodb');
+    setJobsProvider(createMongoJobsAdapter({
+      collection: () => db().collection(COLLECTIONS.JOBS),
+    }));
+    setDLQProvider(createMongoJobsDLQAdapter({
+      collection: () => db().collection(COLLECTIONS.JOBS),
+    }));
+    return;
+  }
+
   const { createInngestJobsAdapter } = await import('@unisane/jobs-inngest');
   const { inngest } = await import('./platform/inngest/client');
   setJobsProvider(createInngestJobsAdapter(inngest));
@@ -227,6 +281,16 @@ async function setupOutbox() {
   }));
 }
 
+async function setupSagaStore() {
+  const { setSagaStoreProvider, db, COLLECTIONS } = await import('@unisane/kernel');
+  const { createMongoSagaStoreAdapter } = await import('@unisane/saga-mongodb');
+
+  // Persist saga state so waiting and interrupted sagas survive restarts
+  setSagaStoreProvider(createMongoSagaStoreAdapter({
+    collection: () => db().collection(COLLECTIONS.SAGAS),
+  }));
+}
+
 async function setupEmailProviders() {
   const { getEnv, setEmailProvider, setTemplateRenderer } = await import('@unisane/kernel');
   const env = getEnv();
@@ -269,6 +333,43 @@ async function setupEmailProviders() {
   // No email provider configured - emails will fail at runtime if attempted
 }
 
+async function setupAiProvider() {
+  const { getEnv, setAiProvider } = await import('@unisane/kernel');
+  const { OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL } = getEnv();
+
+  // Any OpenAI-compatible endpoint (OpenAI, Azure, Ollama, vLLM, ...)
+  if (OPENAI_API_KEY || OPENAI_BASE_URL) {
+    const { createOpenAiCompatibleProvider } = await import('@unisane/ai');
+    setAiProvider(createOpenAiCompatibleProvider({
+      ...(OPENAI_API_KEY ? { apiKey: OPENAI_API_KEY } : {}),
+      ...(OPENAI_BASE_URL ? { baseUrl: OPENAI_BASE_URL } : {}),
+      ...(OPENAI_MODEL ? { defaultModel: OPENAI_MODEL } : {}),
+    }));
+  }
+  // No AI provider configured - generation uses the offline mock provider
+}
+
+async function setupPdfRenderer() {
+  const { hasPdfRenderer, setPdfRenderer } = await import('@unisane/kernel');
+  // Invoices and receipts render through the kernel port; default to the
+  // built-in renderer unless a browser-backed one was configured earlier
+  if (!hasPdfRenderer()) {
+    const { createBuiltinPdfRenderer } = await import('@unisane/pdf');
+    setPdfRenderer(createBuiltinPdfRenderer());
+  }
+}
+
+async function setupFileScanner() {
+  const { getEnv, setFileScanner } = await import('@unisane/kernel');
+  const { CLAMAV_HOST, CLAMAV_PORT } = getEnv();
+
+  // The magic-byte check always runs on confirm; ClamAV adds malware scanning
+  if (CLAMAV_HOST) {
+    const { createClamAvScanner } = await import('@unisane/storage');
+    setFileScanner(createClamAvScanner({ host: CLAMAV_HOST, port: CLAMAV_PORT }));
+  }
+}
+
 async function setupBillingProviders() {
   const { getEnv, registerBillingProvider, mapPlanIdForProvider } = await import('@unisane/kernel');
   const { ScopeIntegrationsService } = await import('@unisane/billing');
@@ -304,6 +405,17 @@ async function setupBillingProviders() {
   }
 }
 
+async function setupScheduler() {
+  const { registerSchedules } = await import('./platform/jobs/schedules');
+
+  // Registered everywhere so admin routes can list and run them; only
+  // polled where SCHEDULER_ENABLED is set
+  registerSchedules();
+  if (getEnv().SCHEDULER_ENABLED) {
+    getScheduler().start();
+  }
+}
+
 async function registerEventHandlers() {
   const cleanupFns: Array<() => void> = [];
 
@@ -322,6 +434,7 @@ async function registerEventHandlers() {
   await registerHandler(() => import('@unisane/settings'), 'registerSettingsEventHandlers');
   await registerHandler(() => import('@unisane/tenants'), 'registerTenantEventHandlers');
   await registerHandler(() => import('@unisane/notify'), 'registerNotifyEventHandlers');
+  await registerHandler(() => import('@unisane/media'), 'registerMediaEventHandlers');
 
   (globalThis as { __eventHandlerCleanup?: Array<() => void> }).__eventHandlerCleanup = cleanupFns;
 }
@@ -340,6 +453,8 @@ export async function shutdown() {
     for (const cleanup of cleanupFns) cleanup();
   }
 
+  await getScheduler().stop();
+
   await closeDb();
   bootstrapped = false;
   logger.info('[bootstrap] Shutdown complete');
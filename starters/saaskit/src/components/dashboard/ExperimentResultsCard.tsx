@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { hooks } from "@/src/sdk/hooks";
+import { Card } from "@unisane/ui/components/card";
+import { Badge } from "@unisane/ui/components/badge";
+import { Button } from "@unisane/ui/components/button";
+import { Select } from "@unisane/ui/components/select";
+import { Skeleton } from "@unisane/ui/components/skeleton";
+import { TextField } from "@unisane/ui/components/text-field";
+import { Typography } from "@unisane/ui/components/typography";
+import type { ExperimentAnalysis } from "@unisane/flags/client";
+
+type MetricSource = ExperimentAnalysis["metric"]["source"];
+
+interface ExperimentInput {
+  key: string;
+  metricSource: MetricSource;
+  metric: string;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+// Per-variant conversion for a flag experiment (admin overview)
+export function ExperimentResultsCard() {
+  const [draft, setDraft] = useState<ExperimentInput>({
+    key: "",
+    metricSource: "usage",
+    metric: "",
+  });
+  const [submitted, setSubmitted] = useState<ExperimentInput | null>(null);
+
+  const q = hooks.flags.adminExperiment(
+    {
+      params: { key: submitted?.key ?? "" },
+      query: {
+        metricSource: submitted?.metricSource ?? "usage",
+        metric: submitted?.metric ?? "",
+        unit: submitted?.metricSource === "event" ? "user" : "tenant",
+      },
+    },
+    { enabled: Boolean(submitted), refetchOnWindowFocus: false }
+  );
+  const data = q.data as ExperimentAnalysis | undefined;
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (draft.key.trim() && draft.metric.trim()) {
+      setSubmitted({ ...draft, key: draft.key.trim(), metric: draft.metric.trim() });
+    }
+  };
+
+  return (
+    <Card variant="low">
+      <Card.Header>
+        <Card.Title>Experiment results</Card.Title>
+        <Card.Description>
+          Conversion by variant over the last 30 days of flag exposures
+        </Card.Description>
+      </Card.Header>
+      <Card.Content className="space-y-4">
+        <form onSubmit={onSubmit} className="grid gap-3 sm:grid-cols-4 items-end">
+          <TextField
+            label="Flag key"
+            value={draft.key}
+            onChange={(e) => setDraft((d) => ({ ...d, key: e.target.value }))}
+          />
+          <Select
+            label="Metric source"
+            value={draft.metricSource}
+            onChange={(v) => setDraft((d) => ({ ...d, metricSource: v as MetricSource }))}
+            options={[
+              { value: "usage", label: "Usage counter" },
+              { value: "event", label: "Domain event" },
+            ]}
+          />
+          <TextField
+            label={draft.metricSource === "usage" ? "Usage metric" : "Event type"}
+            value={draft.metric}
+            onChange={(e) => setDraft((d) => ({ ...d, metric: e.target.value }))}
+          />
+          <Button type="submit" disabled={!draft.key.trim() || !draft.metric.trim()}>
+            Analyze
+          </Button>
+        </form>
+
+        {q.isLoading && submitted ? (
+          <Skeleton className="h-24 w-full" />
+        ) : q.isError ? (
+          <Typography variant="bodySmall" className="text-error">
+            {q.error instanceof Error ? q.error.message : "Failed to load experiment"}
+          </Typography>
+        ) : data ? (
+          <div className="space-y-3">
+            {data.warnings.map((w) => (
+              <Badge key={w} variant="outlined" className="mr-2">
+                {w}
+              </Badge>
+            ))}
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-on-surface-variant">
+                  <th className="py-2">Variant</th>
+                  <th className="py-2">Exposed</th>
+                  <th className="py-2">Converted</th>
+                  <th className="py-2">Rate (95% CI)</th>
+                  <th className="py-2">Lift vs {data.control}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.variants.map((v) => (
+                  <tr key={v.variant} className="border-t border-outline-variant">
+                    <td className="py-2">{v.variant}</td>
+                    <td className="py-2">{v.exposed.toLocaleString()}</td>
+                    <td className="py-2">{v.converted.toLocaleString()}</td>
+                    <td className="py-2">
+                      {pct(v.conversionRate)} ({pct(v.ci.lower)} – {pct(v.ci.upper)})
+                    </td>
+                    <td className="py-2">
+                      {v.lift
+                        ? `${v.lift.absolute >= 0 ? "+" : ""}${pct(v.lift.absolute)} (p=${v.lift.pValue.toFixed(3)})`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+}
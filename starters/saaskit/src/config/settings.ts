@@ -9,6 +9,8 @@ import {
   DEFAULT_BILLING_MODE,
   BILLING_MODES,
 } from "@unisane/kernel/client";
+import { ZAiPolicy } from "@unisane/ai/client";
+import { ZInvoiceProfile, ZTaxExemption, ZTaxSettings } from "@unisane/billing/client";
 
 /**
  * SaasKit Settings
@@ -113,6 +115,15 @@ export const SETTING_DEFINITIONS = {
     placeholder: "3600",
   }),
 
+  "auth.mfaIssuer": define.text("auth", "mfaIssuer", {
+    default: "Your App",
+    minLength: 1,
+    maxLength: 60,
+    label: "Authenticator Issuer",
+    description: "Name shown next to the account in authenticator apps",
+    category: "auth",
+  }),
+
   // -------------------------------------------------------------------------
   // Webhook Settings
   // -------------------------------------------------------------------------
@@ -146,6 +157,14 @@ export const SETTING_DEFINITIONS = {
     visibility: "tenant-ui",
   }),
 
+  "auth.requireMfa": define.boolean("auth", "requireMfa", {
+    default: false,
+    scope: "tenant",
+    visibility: "tenant-ui",
+    label: "Require Two-Factor Authentication",
+    description: "Members must sign in with an authenticator app or recovery code to access this workspace",
+  }),
+
   "app.banner": define.custom(
     "app",
     "banner",
@@ -166,6 +185,33 @@ export const SETTING_DEFINITIONS = {
     { scope: "tenant", visibility: "tenant-ui" }
   ),
 
+  "ai.policy": define.custom("ai", "policy", ZAiPolicy, ZAiPolicy.parse({}), {
+    scope: "tenant",
+    visibility: "tenant-ui",
+    label: "AI Policy",
+    description: "Allowed models, max tokens per request and a system prompt applied to all AI generation",
+  }),
+
+  "billing.invoiceProfile": define.custom("billing", "invoiceProfile", ZInvoiceProfile, {}, {
+    scope: "tenant",
+    visibility: "tenant-ui",
+    label: "Invoice Details",
+    description: "Legal name, address and tax ID printed on invoices and receipts, and the email that receives payment receipts",
+  }),
+
+  "billing.tax": define.custom("billing", "tax", ZTaxSettings, { enabled: false, registrations: [] }, {
+    label: "Tax Collection",
+    description: "Seller origin and registrations used to add VAT/GST to invoices billing issues itself",
+    category: "billing",
+  }),
+
+  "billing.taxExemption": define.custom("billing", "taxExemption", ZTaxExemption, { exempt: false }, {
+    scope: "tenant",
+    visibility: "platform-only",
+    label: "Tax Exemption",
+    description: "Exempts the tenant from VAT/GST, e.g. on an exemption certificate",
+  }),
+
   "webhooks.allowedHosts.tenant": define.array("webhooks", "allowedHosts", {
     default: [],
     scope: "tenant",
@@ -1,6 +1,19 @@
 import { initContract } from "@ts-rest/core";
 import { z } from "zod";
 import { defineOpMeta, withMeta } from "./meta";
+import { PERM } from "@unisane/kernel/client";
+import {
+  ZAiGenerationResponse,
+  ZAiThreadMessageResponse,
+  ZAiThreadResponse,
+  ZPromptTemplateCreate,
+  ZPromptTemplateResponse,
+  ZPromptTemplateUpdate,
+  ZTemplateGenerate,
+  ZThreadCreate,
+  ZThreadMessageCreate,
+  ZThreadUpdate,
+} from "@unisane/ai/client";
 
 const c = initContract();
 
@@ -11,7 +24,17 @@ export const ZAiBody = z
     options: ZAiOptions.optional(),
   })
   .optional();
-const ZAiOutput = z.object({ output: z.object({ text: z.string() }) });
+const ZAiOutput = z.object({ output: ZAiGenerationResponse });
+export const ZAiListQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+const ZTemplateParams = z.object({ tenantId: z.string().min(1), key: z.string().min(1) });
+const ZThreadParams = z.object({ tenantId: z.string().min(1), threadId: z.string().min(1) });
+const ZTemplateList = z.object({
+  items: z.array(ZPromptTemplateResponse),
+  nextCursor: z.string().nullable(),
+});
 
 export const aiContract = c.router({
   generate: withMeta(
@@ -41,4 +64,433 @@ export const aiContract = c.router({
       },
     })
   ),
+  generateStream: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/ai/generate/stream",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZAiBody,
+      responses: { 200: z.string() },
+      summary: "AI generate (streaming)",
+      description:
+        "Stream a generation as Server-Sent Events. `delta` events carry `{ text }`; a final `done` event carries " +
+        "`{ model, usage }` once prompt and completion tokens are metered. Failures after the stream starts arrive as an `error` event.",
+    },
+    defineOpMeta({
+      op: "ai.generate.stream",
+      service: {
+        importPath: "@unisane/ai",
+        fn: "generateStream",
+        zodBody: { importPath: "./ai.contract", name: "ZAiBody" },
+        raw: true,
+        factory: {
+          importPath: "@unisane/ai",
+          name: "generateStreamFactory",
+        },
+        requireTenantMatch: true,
+      },
+    })
+  ),
+
+  // ── Prompt templates (tenant admins manage, members use) ────────────────
+  templatesList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      query: ZAiListQuery,
+      responses: { 200: z.object({ ok: z.literal(true), data: ZTemplateList }) },
+      summary: "List prompt templates",
+      description: "List the latest version of each prompt template in the tenant, ordered by key. Cursor-paginated. Requires AI_READ permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.list",
+      perm: PERM.AI_READ,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "listPromptTemplates",
+        zodQuery: { importPath: "./ai.contract", name: "ZAiListQuery" },
+        invoke: "object",
+        callArgs: [
+          { name: "limit", from: "query", key: "limit" },
+          { name: "cursor", from: "query", key: "cursor", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesCreate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZPromptTemplateCreate,
+      responses: { 200: z.object({ ok: z.literal(true), data: ZPromptTemplateResponse }) },
+      summary: "Create prompt template",
+      description: "Create a prompt template with `{{variable}}` placeholders and a variable schema. Every placeholder must be declared. Requires AI_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.create",
+      perm: PERM.AI_WRITE,
+      requireTenantMatch: true,
+      invalidate: [{ kind: "prefix", key: ["ai", "templatesList"] }],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "createPromptTemplate",
+        zodBody: { importPath: "@unisane/ai", name: "ZPromptTemplateCreate" },
+        invoke: "object",
+        callArgs: [
+          { name: "input", from: "body" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesGet: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates/:key",
+      pathParams: ZTemplateParams,
+      query: z.object({ version: z.coerce.number().int().positive().optional() }),
+      responses: { 200: z.object({ ok: z.literal(true), data: ZPromptTemplateResponse }) },
+      summary: "Get prompt template",
+      description: "Get the latest version of a prompt template, or a specific `version`. Requires AI_READ permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.get",
+      perm: PERM.AI_READ,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "getPromptTemplate",
+        invoke: "object",
+        callArgs: [
+          { name: "key", from: "params", key: "key" },
+          { name: "version", from: "query", key: "version", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesVersions: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates/:key/versions",
+      pathParams: ZTemplateParams,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.object({ items: z.array(ZPromptTemplateResponse) }) }),
+      },
+      summary: "List prompt template versions",
+      description: "List every published version of a prompt template, newest first. Requires AI_READ permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.versions",
+      perm: PERM.AI_READ,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "listPromptTemplateVersions",
+        invoke: "object",
+        callArgs: [{ name: "key", from: "params", key: "key" }],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesUpdate: withMeta(
+    {
+      method: "PUT",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates/:key",
+      pathParams: ZTemplateParams,
+      body: ZPromptTemplateUpdate,
+      responses: { 200: z.object({ ok: z.literal(true), data: ZPromptTemplateResponse }) },
+      summary: "Publish prompt template version",
+      description: "Publish a new immutable version of a prompt template. Pass `expectedVersion` to fail with 409 if someone else published first. Requires AI_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.update",
+      perm: PERM.AI_WRITE,
+      requireTenantMatch: true,
+      invalidate: [
+        { kind: "prefix", key: ["ai", "templatesList"] },
+        { kind: "prefix", key: ["ai", "templatesGet"] },
+        { kind: "prefix", key: ["ai", "templatesVersions"] },
+      ],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "updatePromptTemplate",
+        zodBody: { importPath: "@unisane/ai", name: "ZPromptTemplateUpdate" },
+        invoke: "object",
+        callArgs: [
+          { name: "key", from: "params", key: "key" },
+          { name: "input", from: "body" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesDelete: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates/:key",
+      pathParams: ZTemplateParams,
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.object({ ok: z.literal(true), versions: z.number().int() }) }),
+      },
+      summary: "Delete prompt template",
+      description: "Soft-delete a prompt template and all of its versions. Requires AI_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.delete",
+      perm: PERM.AI_WRITE,
+      requireTenantMatch: true,
+      invalidate: [
+        { kind: "prefix", key: ["ai", "templatesList"] },
+        { kind: "prefix", key: ["ai", "templatesGet"] },
+        { kind: "prefix", key: ["ai", "templatesVersions"] },
+      ],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "deletePromptTemplate",
+        invoke: "object",
+        callArgs: [{ name: "key", from: "params", key: "key" }],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  templatesGenerate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/ai/templates/:key/generate",
+      pathParams: ZTemplateParams,
+      body: ZTemplateGenerate,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            output: ZAiGenerationResponse.extend({
+              template: z.object({ key: z.string(), version: z.number().int() }),
+            }),
+          }),
+        }),
+      },
+      summary: "Generate from prompt template",
+      description: "Render a prompt template with the given variables and generate a completion. Subject to the AI feature flag, the tenant AI policy and token metering. Requires AI_READ permission.",
+    },
+    defineOpMeta({
+      op: "ai.templates.generate",
+      perm: PERM.AI_READ,
+      idempotent: true,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "generateFromTemplate",
+        zodBody: { importPath: "@unisane/ai", name: "ZTemplateGenerate" },
+        invoke: "object",
+        callArgs: [
+          { name: "key", from: "params", key: "key" },
+          { name: "version", from: "body", key: "version", optional: true },
+          { name: "variables", from: "body", key: "variables" },
+          { name: "options", from: "body", key: "options", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+
+  // ── Conversation threads (private to the current user) ───────────────────
+  threadsList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      query: ZAiListQuery,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZAiThreadResponse), nextCursor: z.string().nullable() }),
+        }),
+      },
+      summary: "List AI threads",
+      description: "List the current user's conversation threads in the tenant, newest first. Cursor-paginated.",
+    },
+    defineOpMeta({
+      op: "ai.threads.list",
+      requireUser: true,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "listThreads",
+        zodQuery: { importPath: "./ai.contract", name: "ZAiListQuery" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "limit", from: "query", key: "limit" },
+          { name: "cursor", from: "query", key: "cursor", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  threadsCreate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZThreadCreate,
+      responses: { 200: z.object({ ok: z.literal(true), data: ZAiThreadResponse }) },
+      summary: "Create AI thread",
+      description: "Start a conversation thread with an optional title, system prompt and model.",
+    },
+    defineOpMeta({
+      op: "ai.threads.create",
+      requireUser: true,
+      requireTenantMatch: true,
+      invalidate: [{ kind: "prefix", key: ["ai", "threadsList"] }],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "createThread",
+        zodBody: { importPath: "@unisane/ai", name: "ZThreadCreate" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "input", from: "body" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  threadsGet: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads/:threadId",
+      pathParams: ZThreadParams,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ thread: ZAiThreadResponse, messages: z.array(ZAiThreadMessageResponse) }),
+        }),
+      },
+      summary: "Get AI thread",
+      description: "Get a thread with its most recent messages in chronological order.",
+    },
+    defineOpMeta({
+      op: "ai.threads.get",
+      requireUser: true,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/ai",
+        fn: "getThread",
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "threadId", from: "params", key: "threadId" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  threadsUpdate: withMeta(
+    {
+      method: "PATCH",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads/:threadId",
+      pathParams: ZThreadParams,
+      body: ZThreadUpdate,
+      responses: { 200: z.object({ ok: z.literal(true), data: ZAiThreadResponse }) },
+      summary: "Rename AI thread",
+    },
+    defineOpMeta({
+      op: "ai.threads.update",
+      requireUser: true,
+      requireTenantMatch: true,
+      invalidate: [
+        { kind: "prefix", key: ["ai", "threadsList"] },
+        { kind: "prefix", key: ["ai", "threadsGet"] },
+      ],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "renameThread",
+        zodBody: { importPath: "@unisane/ai", name: "ZThreadUpdate" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "threadId", from: "params", key: "threadId" },
+          { name: "title", from: "body", key: "title" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  threadsDelete: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads/:threadId",
+      pathParams: ZThreadParams,
+      body: z.object({}),
+      responses: { 200: z.object({ ok: z.literal(true), data: z.object({ ok: z.literal(true) }) }) },
+      summary: "Delete AI thread",
+    },
+    defineOpMeta({
+      op: "ai.threads.delete",
+      requireUser: true,
+      requireTenantMatch: true,
+      invalidate: [{ kind: "prefix", key: ["ai", "threadsList"] }],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "deleteThread",
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "threadId", from: "params", key: "threadId" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  threadsSend: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/ai/threads/:threadId/messages",
+      pathParams: ZThreadParams,
+      body: ZThreadMessageCreate,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            message: ZAiThreadMessageResponse,
+            model: z.string(),
+            usage: ZAiGenerationResponse.shape.usage,
+          }),
+        }),
+      },
+      summary: "Send AI thread message",
+      description: "Append a user message and generate the assistant reply with recent thread history as context. Subject to the AI feature flag, the tenant AI policy and token metering.",
+    },
+    defineOpMeta({
+      op: "ai.threads.send",
+      requireUser: true,
+      idempotent: true,
+      requireTenantMatch: true,
+      invalidate: [
+        { kind: "prefix", key: ["ai", "threadsList"] },
+        { kind: "prefix", key: ["ai", "threadsGet"] },
+      ],
+      service: {
+        importPath: "@unisane/ai",
+        fn: "sendThreadMessage",
+        zodBody: { importPath: "@unisane/ai", name: "ZThreadMessageCreate" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "threadId", from: "params", key: "threadId" },
+          { name: "content", from: "body", key: "content" },
+          { name: "options", from: "body", key: "options", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
 });
@@ -10,6 +10,8 @@ import { notifyContract } from "./notify.contract";
 import { webhooksContract } from "./webhooks.contract";
 import { billingContract } from "./billing.contract";
 import { membershipsContract } from "./memberships.contract";
+import { invitationsContract } from "./invitations.contract";
+import { rolesContract } from "./roles.contract";
 import { apikeysContract } from "./apikeys.contract";
 import { flagsContract } from "./flags.contract";
 import { importExportContract } from "./import-export.contract";
@@ -36,6 +38,8 @@ export const appRouter = c.router({
   webhooks: webhooksContract,
   billing: billingContract,
   memberships: membershipsContract,
+  invitations: invitationsContract,
+  roles: rolesContract,
   apikeys: apikeysContract,
   flags: flagsContract,
   importExport: importExportContract,
@@ -11,12 +11,30 @@ import {
   ZTokenExchange,
   ZPhoneStart,
   ZPhoneVerify,
+  ZMfaVerify,
+  ZMfaConfirm,
+  ZMfaCodeBody,
 } from "@unisane/auth/client";
 // CTR-005 FIX: Import standard error responses
 import { ROUTE_ERRORS } from "@unisane/contracts";
 
 const c = initContract();
 
+// Session-issuing routes return an MFA challenge instead of a token when the
+// user has MFA enabled; complete it with POST /api/rest/v1/auth/mfa/verify.
+const ZSessionOut = z.object({
+  ok: z.literal(true),
+  token: z.string().optional(),
+  mfaRequired: z.literal(true).optional(),
+  challengeToken: z.string().optional(),
+  expiresAt: z.string().optional(),
+});
+
+const ZRecoveryCodesOut = z.object({
+  ok: z.literal(true),
+  data: z.object({ recoveryCodes: z.array(z.string()) }),
+});
+
 export const authContract = c.router({
   passwordSignUp: withMeta(
     {
@@ -62,11 +80,12 @@ export const authContract = c.router({
       path: "/api/rest/v1/auth/password/signin",
       body: ZPasswordSignin,
       responses: {
-        200: z.object({ ok: z.literal(true), token: z.string().optional() }),
+        200: ZSessionOut,
       },
       summary: "Password signin",
       description:
-        "Authenticate an existing user with email and password. Returns a JWT token on success. " +
+        "Authenticate an existing user with email and password. Returns a JWT token on success, " +
+        "or an MFA challenge (mfaRequired, challengeToken) when the user has MFA enabled. " +
         "Rate limited by email hash to prevent brute force attacks.",
     },
     defineOpMeta({
@@ -137,7 +156,7 @@ export const authContract = c.router({
       path: "/api/rest/v1/auth/password/reset/verify",
       body: ZResetVerify,
       responses: {
-        200: z.object({ ok: z.literal(true), token: z.string().optional() }),
+        200: ZSessionOut,
       },
       summary: "Password reset verify",
       description:
@@ -211,7 +230,7 @@ export const authContract = c.router({
       path: "/api/rest/v1/auth/otp/verify",
       body: ZOtpVerify,
       responses: {
-        200: z.object({ ok: z.literal(true), token: z.string().optional() }),
+        200: ZSessionOut,
       },
       summary: "OTP verify",
       description:
@@ -318,7 +337,7 @@ export const authContract = c.router({
       path: "/api/auth/token/exchange",
       body: ZTokenExchange,
       responses: {
-        200: z.object({ ok: z.literal(true), token: z.string().optional() }),
+        200: ZSessionOut,
       },
       summary: "Provider token exchange",
       description:
@@ -345,6 +364,173 @@ export const authContract = c.router({
       },
     })
   ),
+  mfaVerify: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/auth/mfa/verify",
+      body: ZMfaVerify,
+      responses: {
+        200: z.object({ ok: z.literal(true), token: z.string().optional() }),
+      },
+      summary: "MFA verify",
+      description:
+        "Complete sign-in with the challenge token returned by a sign-in route and a code from the authenticator app " +
+        "or an unused recovery code. Returns a JWT token marked as MFA-verified. A challenge expires after 5 minutes or 5 wrong codes.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.verify",
+      allowUnauthed: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "mfaVerify",
+        zodBody: {
+          importPath: "@unisane/auth",
+          name: "ZMfaVerify",
+        },
+        raw: true,
+        rateKeyExpr:
+          "['-', sha256Hex(body.challengeToken), 'auth.mfa.verify'].join(':')",
+        extraImports: [
+          { importPath: "@unisane/kernel", names: ["sha256Hex"] },
+        ],
+        factory: {
+          importPath: "@unisane/auth",
+          name: "mfaVerifyFactory",
+        },
+      },
+    })
+  ),
+  mfaStatus: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/auth/mfa",
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            enabled: z.boolean(),
+            enabledAt: z.string().nullable(),
+            recoveryCodesRemaining: z.number().int().nonnegative(),
+          }),
+        }),
+      },
+      summary: "MFA status",
+      description: "Whether the current user has MFA enabled and how many unused recovery codes remain.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.status",
+      requireUser: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "getMfaStatus",
+        invoke: "object",
+        callArgs: [{ name: "userId", from: "ctx", key: "userId" }],
+      },
+    })
+  ),
+  mfaEnrollStart: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/auth/mfa/totp/enroll",
+      body: z.object({}).optional(),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ secret: z.string(), otpauthUri: z.string() }),
+        }),
+      },
+      summary: "Start TOTP enrollment",
+      description:
+        "Generate a TOTP secret and an otpauth:// URI to show as a QR code. MFA stays off until a code is confirmed; " +
+        "starting again replaces the secret. Fails when MFA is already enabled.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.enroll.start",
+      requireUser: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "mfaEnrollStart",
+        invoke: "object",
+        callArgs: [{ name: "userId", from: "ctx", key: "userId" }],
+      },
+    })
+  ),
+  mfaEnrollConfirm: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/auth/mfa/totp/confirm",
+      body: ZMfaConfirm,
+      responses: { 200: ZRecoveryCodesOut },
+      summary: "Confirm TOTP enrollment",
+      description:
+        "Turn MFA on with a code from the authenticator app. Returns recovery codes, which are shown only once. " +
+        "Sign in again to get an MFA-verified session. Audited.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.enroll.confirm",
+      requireUser: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "mfaEnrollConfirm",
+        zodBody: { importPath: "@unisane/auth", name: "ZMfaConfirm" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "code", from: "body", key: "code" },
+        ],
+      },
+    })
+  ),
+  mfaDisable: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/auth/mfa/disable",
+      body: ZMfaCodeBody,
+      responses: { 200: z.object({ ok: z.literal(true), data: z.object({ ok: z.literal(true) }) }) },
+      summary: "Disable MFA",
+      description: "Turn MFA off. Requires a current authenticator code or an unused recovery code. Audited.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.disable",
+      requireUser: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "mfaDisable",
+        zodBody: { importPath: "@unisane/auth", name: "ZMfaCodeBody" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "code", from: "body", key: "code" },
+        ],
+      },
+    })
+  ),
+  mfaRecoveryCodes: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/auth/mfa/recovery-codes",
+      body: ZMfaCodeBody,
+      responses: { 200: ZRecoveryCodesOut },
+      summary: "Regenerate recovery codes",
+      description:
+        "Replace all recovery codes with new ones. Requires a current authenticator code or an unused recovery code. " +
+        "Previous codes stop working immediately.",
+    },
+    defineOpMeta({
+      op: "auth.mfa.recovery.regenerate",
+      requireUser: true,
+      service: {
+        importPath: "@unisane/auth",
+        fn: "mfaRegenerateRecoveryCodes",
+        zodBody: { importPath: "@unisane/auth", name: "ZMfaCodeBody" },
+        invoke: "object",
+        callArgs: [
+          { name: "userId", from: "ctx", key: "userId" },
+          { name: "code", from: "body", key: "code" },
+        ],
+      },
+    })
+  ),
   csrf: withMeta(
     {
       method: "GET",
@@ -8,6 +8,18 @@ import {
   ZCancel,
   ZChangeQuantity,
   ZChangePlan,
+  ZPublishPlanVersion,
+  ZPlanVersionResponse,
+  ZCouponCreate,
+  ZCouponResponse,
+  ZPromotionCodeCreate,
+  ZPromotionCodePreview,
+  ZPromotionCodeResponse,
+  ZDunningCaseList,
+  ZDunningCaseResponse,
+  ZUpcomingInvoiceResponse,
+  ZValidateTaxId,
+  ZTaxIdCheckResponse,
 } from "@unisane/billing/client";
 import { defineOpMeta, withMeta } from "./meta";
 import { PERM } from "@unisane/kernel/client";
@@ -80,6 +92,7 @@ export const billingContract = c.router({
       summary: "Start subscription checkout",
       description:
         "Create a checkout session for a new subscription. Returns a URL to redirect the user to the payment provider's checkout page. " +
+        "An optional promotionCode applies its coupon to the subscription; without a payment provider the discounted first invoice is issued directly. " +
         "Requires billing:write permission. The user will be redirected to successUrl or cancelUrl after completing or canceling the checkout.",
     },
     defineOpMeta({
@@ -97,6 +110,7 @@ export const billingContract = c.router({
           { name: "tenantId", from: "params", key: "tenantId" },
           { name: "planId", from: "body", key: "planId" },
           { name: "quantity", from: "body", key: "quantity", optional: true },
+          { name: "promotionCode", from: "body", key: "promotionCode", optional: true },
           { name: "successUrl", from: "body", key: "successUrl" },
           { name: "cancelUrl", from: "body", key: "cancelUrl" },
         ],
@@ -345,6 +359,59 @@ export const billingContract = c.router({
       },
     })
   ),
+  // Note: z.any() is used for binary PDF responses where JSON schema doesn't apply
+  invoicePdf: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/billing/invoices/:invoiceId/pdf",
+      pathParams: z.object({ tenantId: z.string().min(1), invoiceId: z.string().min(1) }),
+      responses: { 200: z.any() }, // Binary PDF response - schema not applicable
+      summary: "Download invoice PDF",
+      description:
+        "Render an invoice as a PDF from the stored invoice, its payment and the tenant's invoice details " +
+        "(legal name, address and tax ID from the billing.invoiceProfile setting). Works for every billing mode, including providers that do not host invoices.",
+    },
+    defineOpMeta({
+      op: "billing.invoicePdf",
+      perm: PERM.BILLING_WRITE,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "downloadInvoicePdf",
+        raw: true,
+        factory: {
+          importPath: "@unisane/billing",
+          name: "downloadInvoicePdf",
+        },
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  receiptPdf: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/billing/payments/:paymentId/receipt",
+      pathParams: z.object({ tenantId: z.string().min(1), paymentId: z.string().min(1) }),
+      responses: { 200: z.any() }, // Binary PDF response - schema not applicable
+      summary: "Download payment receipt PDF",
+      description:
+        "Render a receipt PDF for a completed payment, including the line items of the invoice it settled when available. " +
+        "The same receipt is attached to the payment confirmation email.",
+    },
+    defineOpMeta({
+      op: "billing.receiptPdf",
+      perm: PERM.BILLING_WRITE,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "downloadPaymentReceiptPdf",
+        raw: true,
+        factory: {
+          importPath: "@unisane/billing",
+          name: "downloadPaymentReceiptPdf",
+        },
+        requireTenantMatch: true,
+      },
+    })
+  ),
   listPayments: withMeta(
     {
       method: "GET",
@@ -456,4 +523,517 @@ export const billingContract = c.router({
       },
     })
   ),
+  upcomingInvoice: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/billing/upcoming-invoice",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZUpcomingInvoiceResponse }),
+      },
+      summary: "Preview upcoming invoice",
+      description:
+        "Estimate the tenant's next invoice: the plan's base price plus metered usage so far in the current billing period, " +
+        "before discounts. Tax is added once tax collection is enabled in the billing.tax setting. " +
+        "Usage counts up to the last hourly rollup. Requires billing:write permission.",
+    },
+    defineOpMeta({
+      op: "billing.upcomingInvoice",
+      perm: PERM.BILLING_WRITE,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "previewUpcomingInvoice",
+        invoke: "object",
+        callArgs: [{ name: "scopeId", from: "params", key: "tenantId" }],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  validateTaxId: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/billing/tax-id/validate",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZValidateTaxId,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZTaxIdCheckResponse }),
+      },
+      summary: "Validate tax ID",
+      description:
+        "Check the format of an EU VAT number, Indian GSTIN or Australian ABN, including check digits where the scheme has them. " +
+        "A valid format does not prove registration. Requires billing:write permission.",
+    },
+    defineOpMeta({
+      op: "billing.taxId.validate",
+      perm: PERM.BILLING_WRITE,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "validateTaxId",
+        zodBody: {
+          importPath: "@unisane/billing",
+          name: "ZValidateTaxId",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "taxId", from: "body", key: "taxId" },
+          { name: "country", from: "body", key: "country", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  previewPromotionCode: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/billing/promotion-codes/:code",
+      pathParams: z.object({ tenantId: z.string().min(1), code: z.string().min(1) }),
+      query: ZPromotionCodePreview,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            code: z.string(),
+            coupon: ZCouponResponse.pick({
+              id: true,
+              name: true,
+              discount: true,
+              duration: true,
+              durationInMonths: true,
+            }),
+            planId: ZPlanId,
+            currency: z.string().optional(),
+            amountOff: z.number().optional(),
+            total: z.number().optional(),
+          }),
+        }),
+      },
+      summary: "Preview promotion code",
+      description:
+        "Check a promotion code against a plan and show the discount on the first billing period. Does not redeem the code. " +
+        "Requires billing:write permission.",
+    },
+    defineOpMeta({
+      op: "billing.promotionCodes.preview",
+      perm: PERM.BILLING_WRITE,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "previewPromotionCode",
+        zodQuery: {
+          importPath: "@unisane/billing",
+          name: "ZPromotionCodePreview",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "scopeId", from: "params", key: "tenantId" },
+          { name: "code", from: "params", key: "code" },
+          { name: "planId", from: "query", key: "planId" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+
+  // ── Admin: plan catalog (super admin) ─────────────────────────────────
+  adminPlansList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/billing/plans",
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZPlanVersionResponse) }),
+        }),
+      },
+      summary: "Admin billing: list plan catalog",
+      description:
+        "List the current version of every plan, including archived plans. Plans not yet seeded are returned as their built-in version 1. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.plans.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "listPlanCatalog",
+        callArgs: [],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  adminPlanHistory: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/billing/plans/:planId/versions",
+      pathParams: z.object({ planId: ZPlanId }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZPlanVersionResponse) }),
+        }),
+      },
+      summary: "Admin billing: plan version history",
+      description:
+        "List every published version of a plan, newest first. Subscriptions stay pinned to the version they bought. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.plans.history",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "getPlanHistory",
+        invoke: "object",
+        callArgs: [{ name: "planId", from: "params", key: "planId" }],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  adminPlanPublish: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/plans/:planId/versions",
+      pathParams: z.object({ planId: ZPlanId }),
+      body: ZPublishPlanVersion,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZPlanVersionResponse }),
+      },
+      summary: "Admin billing: publish plan version",
+      description:
+        "Publish a new immutable version of a plan. New subscriptions and plan changes get this version; existing subscribers keep theirs. " +
+        "Pass expectedVersion to fail with a version mismatch if someone else published first. Prices shown here are display values; " +
+        "provider prices are configured with the billing provider. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.plans.publish",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [
+        { kind: "prefix", key: ["billing", "adminPlansList"] },
+        { kind: "prefix", key: ["billing", "config"] },
+      ],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "publishPlanVersion",
+        zodBody: {
+          importPath: "@unisane/billing",
+          name: "ZPublishPlanVersion",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "planId", from: "params", key: "planId" },
+          { name: "input", from: "body" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "plan",
+          resourceIdExpr: "params.planId",
+          afterExpr: "{ version: result.version }",
+        },
+      },
+    })
+  ),
+  adminPlanArchive: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/plans/:planId/archive",
+      pathParams: z.object({ planId: ZPlanId }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZPlanVersionResponse }),
+      },
+      summary: "Admin billing: archive plan",
+      description:
+        "Withdraw a plan from sale. It disappears from the billing config and new subscriptions and upgrades to it are rejected; " +
+        "existing subscribers keep it. The free plan cannot be archived. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.plans.archive",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [
+        { kind: "prefix", key: ["billing", "adminPlansList"] },
+        { kind: "prefix", key: ["billing", "config"] },
+      ],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "archivePlan",
+        invoke: "object",
+        callArgs: [{ name: "planId", from: "params", key: "planId" }],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "plan",
+          resourceIdExpr: "params.planId",
+          afterExpr: "{ archived: true }",
+        },
+      },
+    })
+  ),
+  adminPlanRestore: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/plans/:planId/restore",
+      pathParams: z.object({ planId: ZPlanId }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZPlanVersionResponse }),
+      },
+      summary: "Admin billing: restore plan",
+      description: "Put an archived plan back on sale. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.plans.restore",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [
+        { kind: "prefix", key: ["billing", "adminPlansList"] },
+        { kind: "prefix", key: ["billing", "config"] },
+      ],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "restorePlan",
+        invoke: "object",
+        callArgs: [{ name: "planId", from: "params", key: "planId" }],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "plan",
+          resourceIdExpr: "params.planId",
+          afterExpr: "{ archived: false }",
+        },
+      },
+    })
+  ),
+
+  // ── Admin: coupons & promotion codes (super admin) ────────────────────
+  adminCouponsList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/billing/coupons",
+      query: z.object({ includeArchived: z.coerce.boolean().optional() }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZCouponResponse) }),
+        }),
+      },
+      summary: "Admin billing: list coupons",
+      description: "List coupons, newest first. Archived coupons are included with includeArchived=true. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.coupons.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "listCoupons",
+        invoke: "object",
+        callArgs: [{ name: "includeArchived", from: "query", key: "includeArchived", optional: true }],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  adminCouponCreate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/coupons",
+      body: ZCouponCreate,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZCouponResponse }),
+      },
+      summary: "Admin billing: create coupon",
+      description:
+        "Create a percent or fixed-amount coupon that applies once, for a number of months, or forever. Stripe coupons are created on first use; " +
+        "Razorpay needs an existing offer id in providerRefs.razorpay. Customers redeem coupons through promotion codes. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.coupons.create",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [{ kind: "prefix", key: ["billing", "adminCouponsList"] }],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "createCoupon",
+        zodBody: {
+          importPath: "@unisane/billing",
+          name: "ZCouponCreate",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "input", from: "body" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "coupon",
+          resourceIdExpr: "result.id",
+          afterExpr: "{ name: result.name, discount: result.discount, duration: result.duration }",
+        },
+      },
+    })
+  ),
+  adminCouponArchive: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/coupons/:couponId/archive",
+      pathParams: z.object({ couponId: z.string().min(1) }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZCouponResponse }),
+      },
+      summary: "Admin billing: archive coupon",
+      description:
+        "Stop new redemptions of a coupon and all its promotion codes. Subscriptions that already redeemed it keep the discount for its duration. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.coupons.archive",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [{ kind: "prefix", key: ["billing", "adminCouponsList"] }],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "archiveCoupon",
+        invoke: "object",
+        callArgs: [{ name: "couponId", from: "params", key: "couponId" }],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "coupon",
+          resourceIdExpr: "params.couponId",
+          afterExpr: "{ archived: true }",
+        },
+      },
+    })
+  ),
+  adminPromotionCodesList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/billing/coupons/:couponId/promotion-codes",
+      pathParams: z.object({ couponId: z.string().min(1) }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZPromotionCodeResponse) }),
+        }),
+      },
+      summary: "Admin billing: list promotion codes",
+      description: "List the promotion codes of a coupon with their redemption counts. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.promotionCodes.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "listPromotionCodes",
+        invoke: "object",
+        callArgs: [{ name: "couponId", from: "params", key: "couponId" }],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  adminPromotionCodeCreate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/coupons/:couponId/promotion-codes",
+      pathParams: z.object({ couponId: z.string().min(1) }),
+      body: ZPromotionCodeCreate,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZPromotionCodeResponse }),
+      },
+      summary: "Admin billing: create promotion code",
+      description:
+        "Create a customer-facing code for a coupon. Codes are case-insensitive and unique across coupons; " +
+        "maxRedemptions and expiresAt limit the code on top of the coupon's own limits. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.promotionCodes.create",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [{ kind: "prefix", key: ["billing", "adminPromotionCodesList"] }],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "createPromotionCode",
+        zodBody: {
+          importPath: "@unisane/billing",
+          name: "ZPromotionCodeCreate",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "couponId", from: "params", key: "couponId" },
+          { name: "input", from: "body" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "promotionCode",
+          resourceIdExpr: "result.id",
+          afterExpr: "{ code: result.code, couponId: result.couponId }",
+        },
+      },
+    })
+  ),
+  adminPromotionCodeDeactivate: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/billing/promotion-codes/:promotionCodeId/deactivate",
+      pathParams: z.object({ promotionCodeId: z.string().min(1) }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZPromotionCodeResponse }),
+      },
+      summary: "Admin billing: deactivate promotion code",
+      description: "Stop new redemptions of a promotion code. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.promotionCodes.deactivate",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [{ kind: "prefix", key: ["billing", "adminPromotionCodesList"] }],
+      service: {
+        importPath: "@unisane/billing",
+        fn: "deactivatePromotionCode",
+        invoke: "object",
+        callArgs: [{ name: "promotionCodeId", from: "params", key: "promotionCodeId" }],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "promotionCode",
+          resourceIdExpr: "params.promotionCodeId",
+          afterExpr: "{ active: false }",
+        },
+      },
+    })
+  ),
+  adminDunningCasesList: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/billing/dunning",
+      query: ZDunningCaseList,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZDunningCaseResponse) }),
+        }),
+      },
+      summary: "Admin billing: list dunning cases",
+      description: "List dunning cases for failed subscription payments, newest first. Filter by status (open, recovered, canceled). Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.billing.dunning.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/billing",
+        fn: "listDunningCases",
+        invoke: "object",
+        callArgs: [
+          { name: "status", from: "query", key: "status", optional: true },
+          { name: "limit", from: "query", key: "limit", optional: true },
+        ],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
 });
@@ -6,6 +6,17 @@ import {
   ZOverrideWrite,
   ZOverrideOut,
   ZFlagsListQuery,
+  ZFlagEvaluationOut,
+  ZOverrideListQuery,
+  ZOverrideListItem,
+  ZOverrideBulkWrite,
+  ZSegmentWrite,
+  ZSegmentOut,
+  ZSegmentListQuery,
+  ZFlagDependencyQuery,
+  ZFlagDependencyGraph,
+  ZExperimentQuery,
+  ZExperimentAnalysis,
 } from "@unisane/flags/client";
 import { defineOpMeta, withMeta } from "./meta";
 import { PERM } from "@unisane/kernel/client";
@@ -95,7 +106,7 @@ export const flagsContract = c.router({
         200: z.object({ ok: z.literal(true), data: ZFlagOut.nullable() }),
       },
       summary: "Publish flag",
-      description: "Create or update a feature flag. Supports optimistic concurrency via expectedVersion. Changes are audited. Idempotent - safe to retry. Requires FLAGS_WRITE permission.",
+      description: "Create or update a feature flag. Supports optimistic concurrency via expectedVersion. Prerequisites must reference existing flags and must not form a cycle. Changes are audited. Idempotent - safe to retry. Requires FLAGS_WRITE permission.",
     },
     defineOpMeta({
       op: "flags.patch",
@@ -118,6 +129,21 @@ export const flagsContract = c.router({
           { name: "key", from: "params", key: "key" },
           { name: "enabledDefault", from: "body", key: "enabledDefault" },
           { name: "rules", from: "body", key: "rules" },
+          { name: "valueType", from: "body", key: "valueType", optional: true },
+          { name: "variants", from: "body", key: "variants", optional: true },
+          {
+            name: "defaultVariant",
+            from: "body",
+            key: "defaultVariant",
+            optional: true,
+          },
+          { name: "rollout", from: "body", key: "rollout", optional: true },
+          {
+            name: "prerequisites",
+            from: "body",
+            key: "prerequisites",
+            optional: true,
+          },
           {
             name: "expectedVersion",
             from: "body",
@@ -135,6 +161,166 @@ export const flagsContract = c.router({
     })
   ),
 
+  // Targeting segments
+  listSegments: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/flag-segments",
+      query: ZSegmentListQuery.optional(),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.array(ZSegmentOut) }),
+      },
+      summary: "List targeting segments",
+      description: "List named targeting segments for an environment. A segment groups reusable conditions that flag rules reference by key. Requires FLAGS_READ permission.",
+    },
+    defineOpMeta({
+      op: "flags.segments.list",
+      perm: PERM.FLAGS_READ,
+      service: {
+        importPath: "@unisane/flags",
+        fn: "listSegments",
+        zodQuery: {
+          importPath: "@unisane/flags",
+          name: "ZSegmentListQuery",
+        },
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+        ],
+      },
+    })
+  ),
+
+  getSegment: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/flag-segments/:key",
+      pathParams: z.object({ key: z.string().min(1) }),
+      query: z.object({ env: z.string().optional() }).optional(),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZSegmentOut.nullable() }),
+      },
+      summary: "Get targeting segment",
+      description: "Get a single targeting segment by key, or null if not found. Requires FLAGS_READ permission.",
+    },
+    defineOpMeta({
+      op: "flags.segments.get",
+      perm: PERM.FLAGS_READ,
+      service: {
+        importPath: "@unisane/flags",
+        fn: "getSegment",
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "params", key: "key" },
+        ],
+      },
+    })
+  ),
+
+  putSegment: withMeta(
+    {
+      method: "PUT",
+      path: "/api/rest/v1/flag-segments/:key",
+      pathParams: z.object({ key: z.string().min(1) }),
+      body: ZSegmentWrite,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZSegmentOut.nullable() }),
+      },
+      summary: "Publish targeting segment",
+      description: "Create or update a named targeting segment. A segment matches when all its conditions match and cannot reference other segments. Supports optimistic concurrency via expectedVersion. Requires FLAGS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "flags.segments.put",
+      perm: PERM.FLAGS_WRITE,
+      idempotent: true,
+      invalidate: [
+        { kind: "prefix", key: ["flags", "getSegment"] },
+        { kind: "prefix", key: ["flags", "listSegments"] },
+      ],
+      service: {
+        importPath: "@unisane/flags",
+        fn: "writeSegment",
+        zodBody: {
+          importPath: "@unisane/flags",
+          name: "ZSegmentWrite",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "env", from: "body", key: "env" },
+          { name: "key", from: "params", key: "key" },
+          { name: "name", from: "body", key: "name", optional: true },
+          {
+            name: "description",
+            from: "body",
+            key: "description",
+            optional: true,
+          },
+          { name: "conditions", from: "body", key: "conditions" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+          {
+            name: "expectedVersion",
+            from: "body",
+            key: "expectedVersion",
+            optional: true,
+          },
+        ],
+      },
+    })
+  ),
+
+  deleteSegment: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/flag-segments/:key",
+      pathParams: z.object({ key: z.string().min(1) }),
+      query: z.object({ env: z.string().optional() }).optional(),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ ok: z.literal(true) }),
+        }),
+      },
+      summary: "Delete targeting segment",
+      description: "Delete a targeting segment. Refused while any flag rule still references it. Requires FLAGS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "flags.segments.delete",
+      perm: PERM.FLAGS_WRITE,
+      invalidate: [
+        { kind: "prefix", key: ["flags", "getSegment"] },
+        { kind: "prefix", key: ["flags", "listSegments"] },
+      ],
+      service: {
+        importPath: "@unisane/flags",
+        fn: "deleteSegment",
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "params", key: "key" },
+        ],
+      },
+    })
+  ),
+
   // Tenant scope overrides
   override: withMeta(
     {
@@ -215,6 +401,7 @@ export const flagsContract = c.router({
           { name: "scopeType", from: "const", value: "tenant" },
           { name: "scopeId", from: "params", key: "tenantId" },
           { name: "value", from: "body", key: "value" },
+          { name: "variant", from: "body", key: "variant", optional: true },
           {
             name: "expiresAt",
             from: "body",
@@ -222,6 +409,7 @@ export const flagsContract = c.router({
             optional: true,
             transform: "date",
           },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
           {
             name: "actorIsSuperAdmin",
             from: "ctx",
@@ -230,11 +418,6 @@ export const flagsContract = c.router({
           },
         ],
         requireTenantMatch: true,
-        audit: {
-          resourceType: "flag.override",
-          resourceIdExpr: "params.key",
-          afterExpr: "result",
-        },
       },
     })
   ),
@@ -278,6 +461,7 @@ export const flagsContract = c.router({
           { name: "key", from: "params", key: "key" },
           { name: "scopeType", from: "const", value: "tenant" },
           { name: "scopeId", from: "params", key: "tenantId" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
           {
             name: "actorIsSuperAdmin",
             from: "ctx",
@@ -286,10 +470,6 @@ export const flagsContract = c.router({
           },
         ],
         requireTenantMatch: true,
-        audit: {
-          resourceType: "flag.override",
-          resourceIdExpr: "params.key",
-        },
       },
     })
   ),
@@ -373,6 +553,7 @@ export const flagsContract = c.router({
           { name: "scopeType", from: "const", value: "user" },
           { name: "scopeId", from: "params", key: "userId" },
           { name: "value", from: "body", key: "value" },
+          { name: "variant", from: "body", key: "variant", optional: true },
           {
             name: "expiresAt",
             from: "body",
@@ -380,6 +561,7 @@ export const flagsContract = c.router({
             optional: true,
             transform: "date",
           },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
           {
             name: "actorIsSuperAdmin",
             from: "ctx",
@@ -387,11 +569,6 @@ export const flagsContract = c.router({
             optional: true,
           },
         ],
-        audit: {
-          resourceType: "flag.userOverride",
-          resourceIdExpr: "params.key",
-          afterExpr: "result",
-        },
       },
     })
   ),
@@ -433,6 +610,7 @@ export const flagsContract = c.router({
           { name: "key", from: "params", key: "key" },
           { name: "scopeType", from: "const", value: "user" },
           { name: "scopeId", from: "params", key: "userId" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
           {
             name: "actorIsSuperAdmin",
             from: "ctx",
@@ -440,13 +618,191 @@ export const flagsContract = c.router({
             optional: true,
           },
         ],
-        audit: {
-          resourceType: "flag.userOverride",
-          resourceIdExpr: "params.key",
+      },
+    })
+  ),
+  // Admin: prerequisite dependency graph
+  adminDependencies: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/flags/dependencies",
+      query: ZFlagDependencyQuery,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZFlagDependencyGraph }),
+      },
+      summary: "Admin flags: dependency graph",
+      description: "Return the flag prerequisite graph for an environment. With key, the graph is narrowed to that flag's prerequisites and dependents, and dependents lists every flag that turning it off would gate off. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.flags.dependencies",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/flags",
+        fn: "getFlagDependencyGraph",
+        zodQuery: {
+          importPath: "@unisane/flags",
+          name: "ZFlagDependencyQuery",
+        },
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "query", key: "key", optional: true },
+        ],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+
+  // Admin: experiment results
+  adminExperiment: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/flags/:key/experiment",
+      pathParams: z.object({ key: z.string().min(1) }),
+      query: ZExperimentQuery,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZExperimentAnalysis }),
+      },
+      summary: "Admin flags: experiment analysis",
+      description: "Join first exposures of a flag with a conversion metric (a usage counter or a domain event type) and report per-variant conversion rate, 95% confidence intervals, lift against control and sample-ratio-mismatch warnings. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.flags.experiment",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/flags",
+        fn: "analyzeExperiment",
+        zodQuery: {
+          importPath: "@unisane/flags",
+          name: "ZExperimentQuery",
+        },
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "params", key: "key" },
+          { name: "metricSource", from: "query", key: "metricSource" },
+          { name: "metric", from: "query", key: "metric" },
+          { name: "unit", from: "query", key: "unit", optional: true },
+          { name: "from", from: "query", key: "from", optional: true },
+          { name: "to", from: "query", key: "to", optional: true },
+          { name: "control", from: "query", key: "control", optional: true },
+        ],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+
+  // Admin: overrides across tenants/users
+  adminListOverrides: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/flags/:key/overrides",
+      pathParams: z.object({ key: z.string().min(1) }),
+      query: ZOverrideListQuery,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            items: z.array(ZOverrideListItem),
+            nextCursor: z.string().optional(),
+          }),
+        }),
+      },
+      summary: "Admin flags: list overrides",
+      description: "List active tenant and user overrides of a flag, newest first. Expired overrides are excluded. Filter by scopeType and page with cursor. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.flags.overrides.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/flags",
+        fn: "listFlagOverrides",
+        zodQuery: {
+          importPath: "@unisane/flags",
+          name: "ZOverrideListQuery",
+        },
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "query",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "params", key: "key" },
+          { name: "scopeType", from: "query", key: "scopeType", optional: true },
+          { name: "limit", from: "query", key: "limit" },
+          { name: "cursor", from: "query", key: "cursor", optional: true },
+        ],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+
+  adminBulkSetOverrides: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/flags/:key/overrides/bulk",
+      pathParams: z.object({ key: z.string().min(1) }),
+      body: ZOverrideBulkWrite,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ ok: z.literal(true), count: z.number().int() }),
+        }),
+      },
+      summary: "Admin flags: bulk set overrides",
+      description: "Set up to 500 tenant/user overrides of one flag in a single call, each with an optional pinned variant and expiry. All items are validated before any write. Every change is audited. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.flags.overrides.bulkSet",
+      requireUser: true,
+      requireSuperAdmin: true,
+      idempotent: true,
+      invalidate: [
+        { kind: "prefix", key: ["flags", "adminListOverrides"] },
+      ],
+      service: {
+        importPath: "@unisane/flags",
+        fn: "bulkSetFlagOverrides",
+        zodBody: {
+          importPath: "@unisane/flags",
+          name: "ZOverrideBulkWrite",
         },
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "body",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "key", from: "params", key: "key" },
+          { name: "items", from: "body", key: "items" },
+          { name: "actorId", from: "ctx", key: "userId", optional: true },
+        ],
+        requireSuperAdmin: true,
       },
     })
   ),
+
   evaluate: withMeta(
     {
       method: "POST",
@@ -459,6 +815,17 @@ export const flagsContract = c.router({
           userId: z.string().optional(),
           email: z.string().optional(),
           country: z.string().optional(),
+          attributes: z
+            .record(
+              z.union([
+                z.string(),
+                z.number(),
+                z.boolean(),
+                z.null(),
+                z.array(z.union([z.string(), z.number()])),
+              ])
+            )
+            .optional(),
         }),
       }),
       responses: {
@@ -491,4 +858,59 @@ export const flagsContract = c.router({
       },
     })
   ),
+  evaluateVariants: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/flags/evaluate/variants",
+      body: z.object({
+        env: z.string().optional(),
+        keys: z.array(z.string()),
+        context: z.object({
+          tenantId: z.string().optional(),
+          userId: z.string().optional(),
+          email: z.string().optional(),
+          country: z.string().optional(),
+          attributes: z
+            .record(
+              z.union([
+                z.string(),
+                z.number(),
+                z.boolean(),
+                z.null(),
+                z.array(z.union([z.string(), z.number()])),
+              ])
+            )
+            .optional(),
+        }),
+      }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.record(z.string(), ZFlagEvaluationOut),
+        }),
+      },
+      summary: "Evaluate flag variants with context",
+      description: "Evaluate multiple feature flags with provided context and return the served variant for each: enabled state, variant key, payload value and evaluation reason. Boolean flags report the implicit on/off variants. Public endpoint - does not require authentication. Exposures are recorded per variant for experiment analysis.",
+    },
+    defineOpMeta({
+      op: "flags.evaluateVariants",
+      allowUnauthed: true, // Allow public/anon evaluation
+      service: {
+        importPath: "@unisane/flags",
+        fn: "evaluateFlagVariants",
+        invoke: "object",
+        callArgs: [
+          {
+            name: "env",
+            from: "body",
+            key: "env",
+            optional: true,
+            fallback: { kind: "env", key: "APP_ENV" },
+          },
+          { name: "keys", from: "body", key: "keys" },
+          { name: "context", from: "body", key: "context" },
+        ],
+      },
+    })
+  ),
 });
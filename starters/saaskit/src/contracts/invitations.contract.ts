@@ -0,0 +1,223 @@
+import { initContract } from "@ts-rest/core";
+import { z } from "zod";
+import { ZInviteUser, ZInvitationToken } from "@unisane/identity/client";
+import { ZRoleKey, ZLimitCoerce } from "@unisane/kernel/client";
+import { defineOpMeta, withMeta } from "./meta";
+import { PERM } from "@unisane/kernel/client";
+
+const c = initContract();
+
+const ZInvitationOut = z.object({
+  id: z.string(),
+  email: z.string(),
+  roleId: ZRoleKey,
+  status: z.enum(["pending", "accepted", "expired", "revoked"]),
+  invitedBy: z.string().nullable(),
+  expiresAt: z.string(),
+  sentCount: z.number().int().nonnegative(),
+  lastSentAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const invitationsContract = c.router({
+  list: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/invitations",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      query: z.object({ limit: ZLimitCoerce.optional() }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZInvitationOut) }),
+        }),
+      },
+      summary: "List pending invitations",
+      description: "List the tenant's pending, unexpired invitations, newest first. Requires MEMBERS_READ permission.",
+    },
+    defineOpMeta({
+      op: "invitations.list",
+      perm: PERM.MEMBERS_READ,
+      service: {
+        importPath: "@unisane/identity",
+        fn: "listPendingInvitations",
+        invoke: "object",
+        callArgs: [
+          { name: "tenantId", from: "params", key: "tenantId" },
+          { name: "limit", from: "query", key: "limit", optional: true },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  create: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/invitations",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZInviteUser,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZInvitationOut }),
+      },
+      summary: "Invite member",
+      description:
+        "Invite someone to the tenant by email with a role. The invite email carries a signed link that expires after 7 days. " +
+        "Pending invitations count towards the plan's seat capacity; fails when the seats are used up, when the email already belongs to a member, or when it already has a pending invitation. " +
+        "Changes are audited. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "invitations.create",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["invitations", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "inviteMember",
+        zodBody: { importPath: "@unisane/identity", name: "ZInviteUser" },
+        invoke: "object",
+        callArgs: [
+          { name: "tenantId", from: "params", key: "tenantId" },
+          { name: "email", from: "body", key: "email" },
+          { name: "roleId", from: "body", key: "roleId" },
+          { name: "invitedBy", from: "ctx", key: "userId" },
+        ],
+        requireTenantMatch: true,
+        audit: {
+          resourceType: "invitation",
+          resourceIdExpr: "result.id",
+          afterExpr: "{ email: body.email, roleId: body.roleId }",
+        },
+      },
+    })
+  ),
+  resend: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/invitations/:invitationId/resend",
+      pathParams: z.object({
+        tenantId: z.string().min(1),
+        invitationId: z.string().min(1),
+      }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZInvitationOut }),
+      },
+      summary: "Resend invitation",
+      description: "Send a pending invitation again with a new link and a fresh 7-day expiry. Links sent earlier stop working. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "invitations.resend",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["invitations", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "resendInvitation",
+        invoke: "object",
+        callArgs: [
+          { name: "tenantId", from: "params", key: "tenantId" },
+          { name: "invitationId", from: "params", key: "invitationId" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  revoke: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/tenants/:tenantId/invitations/:invitationId",
+      pathParams: z.object({
+        tenantId: z.string().min(1),
+        invitationId: z.string().min(1),
+      }),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.object({ ok: z.literal(true) }) }),
+      },
+      summary: "Revoke invitation",
+      description: "Revoke a pending invitation; its link stops working and the seat it held is released. Changes are audited. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "invitations.revoke",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["invitations", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "revokeInvitation",
+        invoke: "object",
+        callArgs: [
+          { name: "tenantId", from: "params", key: "tenantId" },
+          { name: "invitationId", from: "params", key: "invitationId" },
+          { name: "revokedBy", from: "ctx", key: "userId" },
+        ],
+        requireTenantMatch: true,
+        audit: {
+          resourceType: "invitation",
+          resourceIdExpr: "params.invitationId",
+        },
+      },
+    })
+  ),
+  preview: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/invitations/preview",
+      body: ZInvitationToken,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            email: z.string(),
+            roleId: ZRoleKey,
+            tenantName: z.string().nullable(),
+            expiresAt: z.string(),
+          }),
+        }),
+      },
+      summary: "Preview invitation",
+      description:
+        "Describe the invitation behind an invite link: the invited email, role and tenant. Public, for the invite landing page before sign-in or sign-up. " +
+        "Fails with 404 for unknown links and 410 for expired, revoked, accepted or superseded ones.",
+    },
+    defineOpMeta({
+      op: "invitations.preview",
+      allowUnauthed: true,
+      service: {
+        importPath: "@unisane/identity",
+        fn: "previewInvitation",
+        zodBody: { importPath: "@unisane/identity", name: "ZInvitationToken" },
+        invoke: "object",
+        callArgs: [{ name: "token", from: "body", key: "token" }],
+      },
+    })
+  ),
+  accept: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/invitations/accept",
+      body: ZInvitationToken,
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ scopeId: z.string(), roleId: ZRoleKey }),
+        }),
+      },
+      summary: "Accept invitation",
+      description:
+        "Join the inviting tenant with the invited role. The signed-in user's email must match the invitation. " +
+        "New users can instead pass the token as inviteToken when signing up.",
+    },
+    defineOpMeta({
+      op: "invitations.accept",
+      requireUser: true,
+      invalidate: [{ kind: "prefix", key: ["me", "memberships"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "acceptInvitation",
+        zodBody: { importPath: "@unisane/identity", name: "ZInvitationToken" },
+        invoke: "object",
+        callArgs: [
+          { name: "token", from: "body", key: "token" },
+          { name: "userId", from: "ctx", key: "userId" },
+        ],
+      },
+    })
+  ),
+});
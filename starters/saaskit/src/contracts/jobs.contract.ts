@@ -1,9 +1,51 @@
 import { initContract } from "@ts-rest/core";
 import { z } from "zod";
+import { ZLimitCoerce } from "@unisane/kernel/client";
 import { defineOpMeta, withMeta } from "./meta";
 
 const c = initContract();
 
+const ZScheduleRunOut = z.object({
+  id: z.string(),
+  trigger: z.enum(["schedule", "manual"]),
+  status: z.enum(["success", "failed"]),
+  scheduledAt: z.string(),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  durationMs: z.number().int().nonnegative(),
+  error: z.string().nullable(),
+  requestId: z.string().nullable(),
+});
+
+const ZScheduleOut = z.object({
+  name: z.string(),
+  cron: z.string(),
+  timezone: z.string(),
+  description: z.string().nullable(),
+  enabled: z.boolean(),
+  nextRunAt: z.string().nullable(),
+  lastRun: ZScheduleRunOut.nullable(),
+  lastError: z.object({ message: z.string(), at: z.string() }).nullable(),
+});
+
+const ZProjectionOut = z.object({
+  name: z.string(),
+  description: z.string().nullable(),
+  version: z.number().int().positive(),
+  position: z.number().int().nonnegative(),
+  lag: z.number().int().nonnegative(),
+  updatedAt: z.string().nullable(),
+  rebuiltAt: z.string().nullable(),
+  lastError: z
+    .object({
+      sequence: z.number().int(),
+      eventType: z.string(),
+      message: z.string(),
+      at: z.string(),
+    })
+    .nullable(),
+});
+
 export const jobsContract = c.router({
   run: withMeta(
     {
@@ -33,4 +75,170 @@ export const jobsContract = c.router({
       },
     })
   ),
+  listSchedules: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/schedules",
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZScheduleOut) }),
+        }),
+      },
+      summary: "Admin schedules: list cron schedules",
+      description:
+        "List registered cron schedules with their next run, last run and last error. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.schedules.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/kernel",
+        fn: "listSchedulesAdmin",
+        callArgs: [],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  listScheduleRuns: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/schedules/:name/runs",
+      pathParams: z.object({ name: z.string().min(1) }),
+      query: z.object({ limit: ZLimitCoerce.optional() }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZScheduleRunOut) }),
+        }),
+      },
+      summary: "Admin schedules: run history",
+      description:
+        "List recent runs of a schedule, newest first (up to 50 are kept). " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.schedules.runs",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/kernel",
+        fn: "listScheduleRunsAdmin",
+        invoke: "object",
+        callArgs: [
+          { name: "name", from: "params", key: "name" },
+          { name: "limit", from: "query", key: "limit", optional: true },
+        ],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  runSchedule: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/schedules/:name/run",
+      pathParams: z.object({ name: z.string().min(1) }),
+      body: z.object({}),
+      responses: {
+        202: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            name: z.string(),
+            requestId: z.string(),
+            status: z.literal("requested"),
+          }),
+        }),
+      },
+      summary: "Admin schedules: run now",
+      description:
+        "Request an immediate run of a schedule. A running scheduler picks the request up on its next poll; " +
+        "the outcome appears in the schedule's run history under the returned request ID. A run already in progress " +
+        "is not interrupted; the request waits until it finishes. Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.schedules.run",
+      requireUser: true,
+      requireSuperAdmin: true,
+      successStatus: 202,
+      invalidate: [{ kind: "prefix", key: ["jobs", "listSchedules"] }],
+      service: {
+        importPath: "@unisane/kernel",
+        fn: "runScheduleNowAdmin",
+        invoke: "object",
+        callArgs: [{ name: "name", from: "params", key: "name" }],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  listProjections: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/admin/projections",
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZProjectionOut) }),
+        }),
+      },
+      summary: "Admin projections: list read-model projections",
+      description:
+        "List registered projections with their checkpoint, lag behind the event store and last error. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.projections.list",
+      requireUser: true,
+      requireSuperAdmin: true,
+      service: {
+        importPath: "@unisane/kernel",
+        fn: "listProjectionsAdmin",
+        callArgs: [],
+        requireSuperAdmin: true,
+      },
+    })
+  ),
+  rebuildProjection: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/admin/projections/:name/rebuild",
+      pathParams: z.object({ name: z.string().min(1) }),
+      body: z.object({}),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            name: z.string(),
+            applied: z.number().int().nonnegative(),
+            position: z.number().int().nonnegative(),
+            error: z.string().nullable(),
+          }),
+        }),
+      },
+      summary: "Admin projections: rebuild",
+      description:
+        "Reset a projection's read model and apply events from the first one. Long rebuilds continue in the " +
+        "projections.catchUp job. Fails with 409 while another instance is updating the projection. " +
+        "Requires super admin privileges.",
+    },
+    defineOpMeta({
+      op: "admin.projections.rebuild",
+      requireUser: true,
+      requireSuperAdmin: true,
+      invalidate: [{ kind: "prefix", key: ["jobs", "listProjections"] }],
+      service: {
+        importPath: "@unisane/kernel",
+        fn: "rebuildProjectionAdmin",
+        invoke: "object",
+        callArgs: [{ name: "name", from: "params", key: "name" }],
+        requireSuperAdmin: true,
+        audit: {
+          resourceType: "projection",
+          resourceIdExpr: "params.name",
+          afterExpr: "{ op: 'rebuild' }",
+        },
+      },
+    })
+  ),
 });
@@ -2,8 +2,8 @@ import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 import { ZGlobalRole } from '@unisane/kernel/client';
 import { ZPlanId } from '@unisane/kernel/client';
-import { ZRoleId } from '@unisane/kernel/client';
-import { ZPermission } from '@unisane/kernel/client';
+import { ZRoleKey } from '@unisane/kernel/client';
+import { ZPermissionKey } from '@unisane/kernel/client';
 import { defineOpMeta, withMeta } from './meta';
 
 const c = initContract();
@@ -13,7 +13,7 @@ export const ZMeOut = z.object({
   scopeId: z.string().nullable(),
   tenantSlug: z.string().nullable().optional(),
   tenantName: z.string().nullable().optional(),
-  role: ZRoleId.nullable(),
+  role: ZRoleKey.nullable(),
   plan: ZPlanId.nullable(),
   // Optional user profile fields for UI
   displayName: z.string().nullable().optional(),
@@ -22,7 +22,7 @@ export const ZMeOut = z.object({
   globalRole: ZGlobalRole.nullable().optional(),
   // Convenience override flag for admin UI
   isSuperAdmin: z.boolean().optional(),
-  perms: z.array(ZPermission),
+  perms: z.array(ZPermissionKey),
 });
 
 export const meContract = c.router({
@@ -59,7 +59,7 @@ export const meContract = c.router({
               tenantId: z.string(),
               tenantSlug: z.string().nullable().optional(),
               tenantName: z.string().nullable().optional(),
-              roles: z.array(ZRoleId),
+              roles: z.array(ZRoleKey),
               updatedAt: z.string().nullable().optional(),
             })
           ),
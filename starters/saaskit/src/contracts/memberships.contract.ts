@@ -6,8 +6,8 @@ import {
   ZGrantPermBody,
   ZRevokePermBody,
 } from "@unisane/identity/client";
-import { ZRoleId } from "@unisane/kernel/client";
-import { ZPermission } from "@unisane/kernel/client";
+import { ZRoleKey } from "@unisane/kernel/client";
+import { ZPermissionKey } from "@unisane/kernel/client";
 import { ZGrantEffect } from "@unisane/kernel/client";
 import { ZCursor, ZLimitCoerce } from "@unisane/kernel/client";
 import { defineOpMeta, withMeta } from "./meta";
@@ -22,9 +22,9 @@ const ZMembershipOut = z.object({
   userName: z.string().nullable().optional(),
   userEmail: z.string().nullable().optional(),
   roles: z.array(
-    z.object({ roleId: ZRoleId, grantedAt: z.string().optional() })
+    z.object({ roleId: ZRoleKey, grantedAt: z.string().optional() })
   ),
-  grants: z.array(z.object({ perm: ZPermission, effect: ZGrantEffect })),
+  grants: z.array(z.object({ perm: ZPermissionKey, effect: ZGrantEffect })),
   version: z.number().int().nonnegative(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
@@ -1,5 +1,5 @@
 import { z, type ZodTypeAny } from "zod";
-import type { Permission } from "@unisane/kernel/client";
+import type { PermissionKey } from "@unisane/kernel/client";
 
 /**
  * Zod schema for OpMeta validation.
@@ -55,6 +55,7 @@ export const ZOpMeta = z.object({
   requireUser: z.boolean().optional(),
   allowUnauthed: z.boolean().optional(),
   idempotent: z.boolean().optional(),
+  successStatus: z.number().int().min(200).max(299).optional(),
   queryZod: z.unknown().optional(), // ZodTypeAny at runtime
   runtime: z.enum(["nodejs", "edge"]).optional(),
   responseSchema: ZZodRef.optional(),
@@ -73,12 +74,14 @@ export const ZOpMeta = z.object({
 
 export type OpMeta = {
   op: string;
-  perm?: Permission;
+  perm?: PermissionKey;
   requireTenantMatch?: boolean;
   requireSuperAdmin?: boolean;
   requireUser?: boolean;
   allowUnauthed?: boolean;
   idempotent?: boolean;
+  /** HTTP status of a successful response. Default: 200. */
+  successStatus?: number;
   queryZod?: ZodTypeAny;
   /** Next.js runtime for the route. Default: 'nodejs'. Set in meta.service.runtime. */
   runtime?: "nodejs" | "edge";
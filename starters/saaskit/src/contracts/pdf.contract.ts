@@ -4,7 +4,24 @@ import { defineOpMeta, withMeta } from './meta'
 
 const c = initContract()
 
-export const ZPdfBody = z.object({ pages: z.coerce.number().int().positive().max(200).default(1) }).optional()
+export const ZPdfBody = z.object({
+  html: z.string().min(1),
+  data: z.record(z.unknown()).optional(),
+  filename: z.string().trim().min(1).max(255).optional(),
+  title: z.string().max(200).optional(),
+  pageSize: z.enum(['A4', 'Letter', 'Legal']).optional(),
+  landscape: z.boolean().optional(),
+  margin: z.number().min(0).max(144).optional(),
+})
+
+export const ZPdfRenderResult = z.object({
+  url: z.string().url(),
+  fileId: z.string(),
+  key: z.string(),
+  expiresAt: z.number(),
+  pages: z.number(),
+  metering: z.unknown(),
+})
 
 export const pdfContract = c.router({
   render: withMeta(
@@ -13,8 +30,8 @@ export const pdfContract = c.router({
       path: '/api/rest/v1/tenants/:tenantId/pdf/render',
       pathParams: z.object({ tenantId: z.string().min(1) }),
       body: ZPdfBody,
-      responses: { 200: z.object({ ok: z.literal(true), data: z.object({ url: z.string().url(), pages: z.number(), metering: z.unknown() }) }) },
-      summary: 'Render PDF (demo)',
+      responses: { 200: z.object({ ok: z.literal(true), data: ZPdfRenderResult }) },
+      summary: 'Render HTML to PDF and return a signed download URL',
     },
     defineOpMeta({
       op: 'pdf.render',
@@ -28,7 +45,14 @@ export const pdfContract = c.router({
         callArgs: [
           { name: 'tenantId', from: 'params', key: 'tenantId' },
           { name: 'plan', from: 'ctx', key: 'plan', optional: true, fallback: { kind: 'value', value: 'pro' } },
-          { name: 'pages', from: 'body', key: 'pages', optional: true },
+          { name: 'html', from: 'body', key: 'html' },
+          { name: 'data', from: 'body', key: 'data', optional: true },
+          { name: 'filename', from: 'body', key: 'filename', optional: true },
+          { name: 'title', from: 'body', key: 'title', optional: true },
+          { name: 'pageSize', from: 'body', key: 'pageSize', optional: true },
+          { name: 'landscape', from: 'body', key: 'landscape', optional: true },
+          { name: 'margin', from: 'body', key: 'margin', optional: true },
+          { name: 'userId', from: 'ctx', key: 'userId', optional: true },
         ],
         requireTenantMatch: true,
       },
@@ -0,0 +1,191 @@
+import { initContract } from "@ts-rest/core";
+import { z } from "zod";
+import { ZCreateRole, ZUpdateRole } from "@unisane/identity/client";
+import { ZRoleKey, ZPermissionKey } from "@unisane/kernel/client";
+import { defineOpMeta, withMeta } from "./meta";
+import { PERM } from "@unisane/kernel/client";
+
+const c = initContract();
+
+const ZRoleOut = z.object({
+  key: ZRoleKey,
+  name: z.string(),
+  description: z.string().nullable(),
+  permissions: z.array(ZPermissionKey),
+  builtin: z.boolean(),
+  version: z.number().int().nonnegative(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+});
+
+const ZRolePathParams = z.object({
+  tenantId: z.string().min(1),
+  key: ZRoleKey,
+});
+
+export const rolesContract = c.router({
+  list: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/roles",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({ items: z.array(ZRoleOut) }),
+        }),
+      },
+      summary: "List roles",
+      description: "List the built-in roles followed by the tenant's custom roles, with their permissions. Requires MEMBERS_READ permission.",
+    },
+    defineOpMeta({
+      op: "roles.list",
+      perm: PERM.MEMBERS_READ,
+      service: {
+        importPath: "@unisane/identity",
+        fn: "listRoles",
+        callArgs: [],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  permissions: withMeta(
+    {
+      method: "GET",
+      path: "/api/rest/v1/tenants/:tenantId/roles/permissions",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      responses: {
+        200: z.object({
+          ok: z.literal(true),
+          data: z.object({
+            items: z.array(
+              z.object({
+                key: ZPermissionKey,
+                module: z.string(),
+                description: z.string().optional(),
+              })
+            ),
+          }),
+        }),
+      },
+      summary: "List permissions",
+      description: "List the permissions custom roles can be composed from: the core permissions and those registered by modules. Requires MEMBERS_READ permission.",
+    },
+    defineOpMeta({
+      op: "roles.permissions",
+      perm: PERM.MEMBERS_READ,
+      service: {
+        importPath: "@unisane/identity",
+        fn: "listPermissionCatalog",
+        callArgs: [],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  create: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/roles",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZCreateRole,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZRoleOut }),
+      },
+      summary: "Create role",
+      description:
+        "Create a custom role from known permissions. Keys are unique per tenant and cannot be a built-in role. " +
+        "Changes are audited. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "roles.create",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["roles", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "createRole",
+        zodBody: { importPath: "@unisane/identity", name: "ZCreateRole" },
+        invoke: "object",
+        callArgs: [
+          { name: "key", from: "body", key: "key" },
+          { name: "name", from: "body", key: "name" },
+          { name: "description", from: "body", key: "description", optional: true },
+          { name: "permissions", from: "body", key: "permissions" },
+          { name: "createdBy", from: "ctx", key: "userId" },
+        ],
+        requireTenantMatch: true,
+        audit: {
+          resourceType: "role",
+          resourceIdExpr: "body.key",
+          afterExpr: "{ name: body.name, permissions: body.permissions }",
+        },
+      },
+    })
+  ),
+  update: withMeta(
+    {
+      method: "PATCH",
+      path: "/api/rest/v1/tenants/:tenantId/roles/:key",
+      pathParams: ZRolePathParams,
+      body: ZUpdateRole,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZRoleOut }),
+      },
+      summary: "Update role",
+      description:
+        "Rename a custom role or change its permissions. Members holding the role get the new permissions on their next request. " +
+        "Changes are audited. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "roles.update",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["roles", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "updateRole",
+        zodBody: { importPath: "@unisane/identity", name: "ZUpdateRole" },
+        invoke: "object",
+        callArgs: [
+          { name: "key", from: "params", key: "key" },
+          { name: "name", from: "body", key: "name", optional: true },
+          { name: "description", from: "body", key: "description", optional: true },
+          { name: "permissions", from: "body", key: "permissions", optional: true },
+          { name: "expectedVersion", from: "body", key: "expectedVersion", optional: true },
+        ],
+        requireTenantMatch: true,
+        audit: {
+          resourceType: "role",
+          resourceIdExpr: "params.key",
+          afterExpr: "{ name: body.name, permissions: body.permissions }",
+        },
+      },
+    })
+  ),
+  delete: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/tenants/:tenantId/roles/:key",
+      pathParams: ZRolePathParams,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.object({ ok: z.literal(true) }) }),
+      },
+      summary: "Delete role",
+      description: "Delete a custom role. Fails while members still hold it. Changes are audited. Requires MEMBERS_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "roles.delete",
+      perm: PERM.MEMBERS_WRITE,
+      invalidate: [{ kind: "prefix", key: ["roles", "list"] }],
+      service: {
+        importPath: "@unisane/identity",
+        fn: "deleteRole",
+        invoke: "object",
+        callArgs: [{ name: "key", from: "params", key: "key" }],
+        requireTenantMatch: true,
+        audit: {
+          resourceType: "role",
+          resourceIdExpr: "params.key",
+        },
+      },
+    })
+  ),
+});
@@ -4,10 +4,15 @@ import { defineOpMeta, withMeta } from "./meta";
 import { PERM } from "@unisane/kernel/client";
 import {
   ZRequestUpload,
+  ZInitiateMultipartUpload,
+  ZSignMultipartParts,
+  ZConfirmMultipartUpload,
   ZListFiles,
   ZStorageFileResponse,
   ZUploadUrlResponse,
   ZDownloadUrlResponse,
+  ZMultipartUploadResponse,
+  ZMultipartPartUrlsResponse,
 } from "@unisane/storage/client";
 
 const c = initContract();
@@ -75,6 +80,138 @@ export const storageContract = c.router({
       },
     })
   ),
+  initiateMultipartUpload: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/storage/multipart",
+      pathParams: z.object({ tenantId: z.string().min(1) }),
+      body: ZInitiateMultipartUpload,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZMultipartUploadResponse }),
+      },
+      summary: "Start a multipart upload",
+      description: "Start a resumable upload of a large file in parts. The storage quota is checked against the declared total size. Sign part URLs next, upload each part, then complete. Requires STORAGE_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "storage.multipart.initiate",
+      perm: PERM.STORAGE_WRITE,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/storage",
+        fn: "initiateMultipartUpload",
+        zodBody: {
+          importPath: "@unisane/storage",
+          name: "ZInitiateMultipartUpload",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "uploaderId", from: "ctx", key: "userId" },
+          { name: "input", from: "body" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  signMultipartParts: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/storage/multipart/:fileId/parts",
+      pathParams: z.object({
+        tenantId: z.string().min(1),
+        fileId: z.string().min(1),
+      }),
+      body: ZSignMultipartParts,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZMultipartPartUrlsResponse }),
+      },
+      summary: "Sign multipart part URLs",
+      description: "Get presigned URLs for uploading the given parts. Parts can be re-signed to resume an interrupted upload. Keep the ETag header of each part upload for completion. Requires STORAGE_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "storage.multipart.signParts",
+      perm: PERM.STORAGE_WRITE,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/storage",
+        fn: "signMultipartParts",
+        zodBody: {
+          importPath: "@unisane/storage",
+          name: "ZSignMultipartParts",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "fileId", from: "params", key: "fileId" },
+          { name: "input", from: "body" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  completeMultipartUpload: withMeta(
+    {
+      method: "POST",
+      path: "/api/rest/v1/tenants/:tenantId/storage/multipart/:fileId/complete",
+      pathParams: z.object({
+        tenantId: z.string().min(1),
+        fileId: z.string().min(1),
+      }),
+      body: ZConfirmMultipartUpload,
+      responses: {
+        200: z.object({ ok: z.literal(true), data: ZStorageFileResponse }),
+      },
+      summary: "Complete a multipart upload",
+      description: "Assemble the uploaded parts and confirm the file. Every part must be listed with its ETag, and the assembled file must match the declared size. Requires STORAGE_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "storage.multipart.complete",
+      perm: PERM.STORAGE_WRITE,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/storage",
+        fn: "confirmMultipartUpload",
+        zodBody: {
+          importPath: "@unisane/storage",
+          name: "ZConfirmMultipartUpload",
+        },
+        invoke: "object",
+        callArgs: [
+          { name: "fileId", from: "params", key: "fileId" },
+          { name: "input", from: "body" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
+  abortMultipartUpload: withMeta(
+    {
+      method: "DELETE",
+      path: "/api/rest/v1/tenants/:tenantId/storage/multipart/:fileId",
+      pathParams: z.object({
+        tenantId: z.string().min(1),
+        fileId: z.string().min(1),
+      }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ ok: z.literal(true), data: z.object({ ok: z.boolean() }) }),
+      },
+      summary: "Abort a multipart upload",
+      description: "Abort an in-progress multipart upload and discard any uploaded parts. Requires STORAGE_WRITE permission.",
+    },
+    defineOpMeta({
+      op: "storage.multipart.abort",
+      perm: PERM.STORAGE_WRITE,
+      requireTenantMatch: true,
+      service: {
+        importPath: "@unisane/storage",
+        fn: "cancelMultipartUpload",
+        invoke: "object",
+        callArgs: [
+          { name: "fileId", from: "params", key: "fileId" },
+        ],
+        requireTenantMatch: true,
+      },
+    })
+  ),
   downloadUrl: withMeta(
     {
       method: "GET",
@@ -83,11 +220,12 @@ export const storageContract = c.router({
         tenantId: z.string().min(1),
         fileId: z.string().min(1),
       }),
+      query: z.object({ variant: z.string().min(1).optional() }).optional(),
       responses: {
         200: z.object({ ok: z.literal(true), data: ZDownloadUrlResponse }),
       },
       summary: "Get presigned download URL",
-      description: "Get a temporary presigned URL for downloading a file. The URL expires after a short period. Requires STORAGE_READ permission.",
+      description: "Get a temporary presigned URL for downloading a file, or one of its generated image variants (e.g. `?variant=thumb`). The URL expires after a short period. Requires STORAGE_READ permission.",
     },
     defineOpMeta({
       op: "storage.download",
@@ -99,6 +237,7 @@ export const storageContract = c.router({
         invoke: "object",
         callArgs: [
           { name: "fileId", from: "params", key: "fileId" },
+          { name: "variant", from: "query", key: "variant", optional: true },
         ],
         requireTenantMatch: true,
       },
@@ -4,7 +4,7 @@ import { ZUserCreate, ZUserUpdate } from '@unisane/identity';
 import { ZCursor, ZLimitCoerce } from '@unisane/kernel/client';
 import { defineOpMeta, withMeta } from './meta';
 import { PERM } from '@unisane/kernel/client';
-import { ZRoleId } from '@unisane/kernel/client';
+import { ZRoleKey } from '@unisane/kernel/client';
 
 const c = initContract();
 
@@ -53,7 +53,7 @@ export const usersContract = c.router({
               tenantId: z.string(),
               tenantSlug: z.string().nullable().optional(),
               tenantName: z.string().nullable().optional(),
-              roles: z.array(ZRoleId),
+              roles: z.array(ZRoleKey),
               updatedAt: z.string().nullable().optional(),
             })
           ),
@@ -0,0 +1,45 @@
+/**
+ * Migration: 006_seed_plan_catalog
+ *
+ * Persists the built-in plan definitions (`PLAN_DEFS`) as version 1 of each
+ * plan in the billing plan catalog. Existing subscriptions carry no pin and
+ * resolve to version 1, so they keep today's entitlements when admins
+ * publish new versions.
+ */
+
+import type { Migration } from "@unisane/kernel";
+
+export const migration: Migration = {
+  id: "006_seed_plan_catalog",
+  description: "Seed the plan catalog with version 1 of each plan",
+
+  up: async (ctx) => {
+    const { PLANS } = await import("@unisane/kernel");
+    const { seedPlanCatalog } = await import("@unisane/billing");
+
+    if (ctx.dryRun) {
+      ctx.log.info(`Would seed version 1 of ${PLANS.length} plans`);
+      return;
+    }
+
+    const { seeded } = await seedPlanCatalog();
+    ctx.log.info(`Seeded ${seeded.length} plans${seeded.length ? `: ${seeded.join(", ")}` : ""}`);
+  },
+
+  down: async (ctx) => {
+    const { col, COLLECTIONS } = await import("@unisane/kernel");
+
+    if (ctx.dryRun) {
+      ctx.log.info("Would remove seeded plan versions of plans without later versions");
+      return;
+    }
+
+    // Plans with published versions keep their history
+    const plans = col(COLLECTIONS.PLAN_VERSIONS);
+    const published = await plans.distinct("planId", { version: { $gt: 1 } });
+    const result = await plans.deleteMany({ version: 1, planId: { $nin: published } });
+    ctx.log.info(`Removed ${result.deletedCount} seeded plan versions`);
+  },
+};
+
+export default migration;
@@ -0,0 +1,117 @@
+/**
+ * Migration: 007_membership_roles
+ *
+ * Prepares memberships for tenant-defined roles:
+ * - creates the custom roles index and the membership role lookup index
+ * - normalizes membership `roles` to `{ roleId, grantedAt? }` entries without
+ *   duplicates (legacy rows may hold bare role strings or no array at all)
+ * - reports memberships holding roles that are neither built-in nor custom;
+ *   they grant nothing and are left for admins to reassign
+ * - clears the RBAC permission cache
+ */
+
+import type { Migration } from "@unisane/kernel";
+import type { AnyBulkWriteOperation, Document, IndexDescription } from "mongodb";
+
+const BATCH_SIZE = 500;
+
+type RoleEntry = { roleId: string; grantedAt?: Date };
+
+function normalizeRoles(raw: unknown): RoleEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, RoleEntry>();
+  for (const entry of raw) {
+    const role: RoleEntry | null =
+      typeof entry === "string"
+        ? { roleId: entry }
+        : entry && typeof entry === "object" && typeof (entry as RoleEntry).roleId === "string"
+          ? (entry as RoleEntry)
+          : null;
+    if (role && !byId.has(role.roleId)) byId.set(role.roleId, role);
+  }
+  return [...byId.values()];
+}
+
+export const migration: Migration = {
+  id: "007_membership_roles",
+  description: "Normalize membership roles for custom tenant roles",
+
+  up: async (ctx) => {
+    const { db, COLLECTIONS, isBuiltinRole, bumpRbacGeneration } = await import("@unisane/kernel");
+    const database = db();
+
+    const indexes: Array<[string, IndexDescription]> = [
+      [COLLECTIONS.ROLES, { key: { scopeId: 1, key: 1 }, unique: true, name: "roles_scope_key_unique" }],
+      [COLLECTIONS.MEMBERSHIPS, { key: { scopeId: 1, "roles.roleId": 1 }, name: "memberships_scope_role" }],
+    ];
+    for (const [colName, indexDef] of indexes) {
+      if (ctx.dryRun) {
+        ctx.log.info(`[DRY RUN] Would create index ${indexDef.name} on ${colName}`);
+        continue;
+      }
+      await database.collection(colName).createIndex(indexDef.key, { ...indexDef, background: true });
+      ctx.log.info(`Created index ${indexDef.name} on ${colName}`);
+    }
+
+    const customRoles = new Set(
+      (await database.collection(COLLECTIONS.ROLES).find({}, { projection: { scopeId: 1, key: 1 } }).toArray()).map(
+        (r) => `${r.scopeId}:${r.key}`
+      )
+    );
+
+    const memberships = database.collection(COLLECTIONS.MEMBERSHIPS);
+    const cursor = memberships.find({}, { projection: { _id: 1, scopeId: 1, roles: 1 } });
+    let scanned = 0;
+    let normalized = 0;
+    let unknownRoles = 0;
+    let batch: AnyBulkWriteOperation<Document>[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      if (!ctx.dryRun) await memberships.bulkWrite(batch, { ordered: false });
+      batch = [];
+    };
+
+    for await (const doc of cursor) {
+      scanned++;
+      const roles = normalizeRoles(doc.roles);
+      if (roles.some((r) => !isBuiltinRole(r.roleId) && !customRoles.has(`${doc.scopeId}:${r.roleId}`))) {
+        unknownRoles++;
+      }
+      const unchanged =
+        Array.isArray(doc.roles) &&
+        doc.roles.length === roles.length &&
+        doc.roles.every((r: unknown, i: number) => r === roles[i]);
+      if (unchanged) continue;
+
+      normalized++;
+      batch.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { roles } } } });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    const verb = ctx.dryRun ? "Would normalize" : "Normalized";
+    ctx.log.info(`${verb} roles of ${normalized} of ${scanned} memberships`);
+    if (unknownRoles > 0) {
+      ctx.log.warn(`${unknownRoles} memberships hold roles that are neither built-in nor custom; they grant no permissions`);
+    }
+
+    if (!ctx.dryRun) await bumpRbacGeneration();
+  },
+
+  // Normalized roles are equivalent to the originals, so only the indexes are removed
+  down: async (ctx) => {
+    const { db, COLLECTIONS } = await import("@unisane/kernel");
+
+    if (ctx.dryRun) {
+      ctx.log.info("Would drop memberships_scope_role");
+      return;
+    }
+    await db()
+      .collection(COLLECTIONS.MEMBERSHIPS)
+      .dropIndex("memberships_scope_role")
+      .catch(() => ctx.log.debug("memberships_scope_role doesn't exist (skipped)"));
+  },
+};
+
+export default migration;
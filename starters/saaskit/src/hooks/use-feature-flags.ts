@@ -3,7 +3,10 @@ import { useSession } from '@/src/hooks/use-session';
 import { browserApi } from '@/src/sdk';
 import { useParams } from 'next/navigation';
 
-export function useFeatureFlags(keys: string[]) {
+/** Custom targeting attributes (role, app version, signup date, ...). */
+export type FlagAttributes = Record<string, string | number | boolean | null | Array<string | number>>;
+
+export function useFeatureFlags(keys: string[], attributes?: FlagAttributes) {
   const { me } = useSession();
   const params = useParams();
 
@@ -14,7 +17,7 @@ export function useFeatureFlags(keys: string[]) {
   const email = me?.email;
 
   return useQuery({
-    queryKey: ['flags', 'evaluate', keys.sort().join(','), userId, tenantId],
+    queryKey: ['flags', 'evaluate', keys.sort().join(','), userId, tenantId, JSON.stringify(attributes ?? {})],
     queryFn: async () => {
       const api = await browserApi();
       const res = await api.flags.evaluate({
@@ -24,6 +27,7 @@ export function useFeatureFlags(keys: string[]) {
             tenantId: tenantId ?? undefined,
             userId: userId ?? undefined,
             email: email ?? undefined, // email might be null/undefined
+            ...(attributes ? { attributes } : {}),
           },
         },
       });
@@ -35,3 +39,36 @@ export function useFeatureFlags(keys: string[]) {
     staleTime: 60 * 1000, // 1 minute
   });
 }
+
+/**
+ * Evaluate multi-variant / JSON flags. Returns `{ enabled, variant, value, reason }`
+ * per key so components can branch on the served variant or read its payload.
+ */
+export function useFlagVariants(keys: string[], attributes?: FlagAttributes) {
+  const { me } = useSession();
+  const params = useParams();
+
+  const tenantId = (params?.tenantId as string) || (params?.slug as string);
+  const userId = me?.userId;
+  const email = me?.email;
+
+  return useQuery({
+    queryKey: ['flags', 'evaluateVariants', keys.sort().join(','), userId, tenantId, JSON.stringify(attributes ?? {})],
+    queryFn: async () => {
+      const api = await browserApi();
+      return api.flags.evaluateVariants({
+        body: {
+          keys,
+          context: {
+            tenantId: tenantId ?? undefined,
+            userId: userId ?? undefined,
+            email: email ?? undefined,
+            ...(attributes ? { attributes } : {}),
+          },
+        },
+      });
+    },
+    enabled: keys.length > 0,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -0,0 +1,13 @@
+export function renderBillingDunningRecovered(args: { brand: { name: string } }) {
+  const subject = 'Payment received – your subscription is active';
+  const body = `Thanks for settling your overdue payment. Your ${args.brand.name} subscription is active again and any restrictions have been lifted.`;
+  return {
+    subject,
+    html: `<div><h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p></div>`,
+    text: `${subject}\n\n${body}`,
+  } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
@@ -0,0 +1,23 @@
+export function renderBillingDunningReminder(args: {
+  brand: { name: string };
+  props?: { reminder?: number; reminders?: number; restrictsAt?: string; suspendsAt?: string };
+}) {
+  const restrictsOn = args.props?.restrictsAt ? args.props.restrictsAt.slice(0, 10) : null;
+  const suspendsOn = args.props?.suspendsAt ? args.props.suspendsAt.slice(0, 10) : null;
+  const final = Boolean(args.props?.reminder && args.props.reminder === args.props.reminders);
+  const subject = final ? 'Final reminder: your payment is overdue' : 'Your payment is overdue';
+  const body = `We couldn't collect the latest payment for your ${args.brand.name} subscription. Please update your payment method from the billing page.`;
+  const note = [
+    restrictsOn ? `Paid features will be restricted on ${restrictsOn}.` : null,
+    suspendsOn ? `Your workspace will be suspended on ${suspendsOn}.` : null,
+  ].filter(Boolean).join(' ');
+  return {
+    subject,
+    html: `<div><h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p>${note ? `<p>${escapeHtml(note)}</p>` : ''}</div>`,
+    text: `${subject}\n\n${body}${note ? `\n${note}` : ''}`,
+  } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
@@ -0,0 +1,18 @@
+export function renderBillingDunningRestricted(args: {
+  brand: { name: string };
+  props?: { suspendsAt?: string };
+}) {
+  const suspendsOn = args.props?.suspendsAt ? args.props.suspendsAt.slice(0, 10) : null;
+  const subject = 'Paid features have been restricted';
+  const body = `Your ${args.brand.name} subscription payment is still overdue, so paid features are restricted until it is settled. Please update your payment method from the billing page.`;
+  const note = suspendsOn ? `Your workspace will be suspended on ${suspendsOn}.` : null;
+  return {
+    subject,
+    html: `<div><h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p>${note ? `<p>${escapeHtml(note)}</p>` : ''}</div>`,
+    text: `${subject}\n\n${body}${note ? `\n${note}` : ''}`,
+  } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
@@ -0,0 +1,13 @@
+export function renderBillingDunningSuspended(args: { brand: { name: string } }) {
+  const subject = 'Your workspace has been suspended';
+  const body = `Your ${args.brand.name} workspace is suspended because the subscription payment is overdue. Your data is kept; settle the payment from the billing page to reactivate it.`;
+  return {
+    subject,
+    html: `<div><h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p></div>`,
+    text: `${subject}\n\n${body}`,
+  } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
@@ -0,0 +1,20 @@
+export function renderBillingPaymentSucceeded(args: {
+  brand: { name: string };
+  props?: { amount?: string; receiptNumber?: string | null; paidAt?: string | null };
+}) {
+  const amount = args.props?.amount ?? '';
+  const receipt = args.props?.receiptNumber ?? null;
+  const paidOn = args.props?.paidAt ? args.props.paidAt.slice(0, 10) : null;
+  const subject = `Payment received${amount ? ` – ${amount}` : ''}`;
+  const body = `Thanks for your payment${amount ? ` of ${amount}` : ''} to ${args.brand.name}${paidOn ? ` on ${paidOn}` : ''}.`;
+  const note = receipt ? `Your receipt ${receipt} is attached.` : 'You can download your receipt from the billing page.';
+  return {
+    subject,
+    html: `<div><h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p><p>${escapeHtml(note)}</p></div>`,
+    text: `${subject}\n\n${body}\n${note}`,
+  } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
@@ -2,6 +2,12 @@ import { getSetting } from '@unisane/settings';
 import { renderWelcome } from './welcome';
 import { renderAuthVerifyEmail } from './auth_verify_email';
 import { renderAuthPasswordReset } from './auth_password_reset';
+import { renderBillingPaymentSucceeded } from './billing_payment_succeeded';
+import { renderTenantInvitation } from './tenant_invitation';
+import { renderBillingDunningReminder } from './billing_dunning_reminder';
+import { renderBillingDunningRestricted } from './billing_dunning_restricted';
+import { renderBillingDunningSuspended } from './billing_dunning_suspended';
+import { renderBillingDunningRecovered } from './billing_dunning_recovered';
 
 export type RenderInput = {
   tenantId?: string | null;
@@ -21,12 +27,24 @@ export const TEMPLATE_NAMES = {
   WELCOME: 'welcome',
   AUTH_VERIFY_EMAIL: 'auth_verify_email',
   AUTH_PASSWORD_RESET: 'auth_password_reset',
+  BILLING_PAYMENT_SUCCEEDED: 'billing_payment_succeeded',
+  TENANT_INVITATION: 'tenant_invitation',
+  BILLING_DUNNING_REMINDER: 'billing_dunning_reminder',
+  BILLING_DUNNING_RESTRICTED: 'billing_dunning_restricted',
+  BILLING_DUNNING_SUSPENDED: 'billing_dunning_suspended',
+  BILLING_DUNNING_RECOVERED: 'billing_dunning_recovered',
 } as const;
 
 const registry: Record<string, Renderer> = {
   [TEMPLATE_NAMES.WELCOME]: ({ brand, props }) => renderWelcome({ brand, ...(props ? { props } : {}) }),
   [TEMPLATE_NAMES.AUTH_VERIFY_EMAIL]: ({ brand, props }) => renderAuthVerifyEmail({ brand, ...(props ? { props: props as { url?: string } } : {}) }),
   [TEMPLATE_NAMES.AUTH_PASSWORD_RESET]: ({ brand, props }) => renderAuthPasswordReset({ brand, ...(props ? { props: props as { url?: string } } : {}) }),
+  [TEMPLATE_NAMES.BILLING_PAYMENT_SUCCEEDED]: ({ brand, props }) => renderBillingPaymentSucceeded({ brand, ...(props ? { props: props as { amount?: string; receiptNumber?: string | null; paidAt?: string | null } } : {}) }),
+  [TEMPLATE_NAMES.TENANT_INVITATION]: ({ brand, props }) => renderTenantInvitation({ brand, ...(props ? { props: props as { tenantName?: string | null; inviterName?: string | null; roleId?: string; acceptUrl?: string; expiresAt?: string } } : {}) }),
+  [TEMPLATE_NAMES.BILLING_DUNNING_REMINDER]: ({ brand, props }) => renderBillingDunningReminder({ brand, ...(props ? { props: props as { reminder?: number; reminders?: number; restrictsAt?: string; suspendsAt?: string } } : {}) }),
+  [TEMPLATE_NAMES.BILLING_DUNNING_RESTRICTED]: ({ brand, props }) => renderBillingDunningRestricted({ brand, ...(props ? { props: props as { suspendsAt?: string } } : {}) }),
+  [TEMPLATE_NAMES.BILLING_DUNNING_SUSPENDED]: ({ brand }) => renderBillingDunningSuspended({ brand }),
+  [TEMPLATE_NAMES.BILLING_DUNNING_RECOVERED]: ({ brand }) => renderBillingDunningRecovered({ brand }),
 };
 
 export async function renderEmail(input: RenderInput): Promise<RenderOutput> {
@@ -0,0 +1,30 @@
+export function renderTenantInvitation(args: {
+  brand: { name: string };
+  props?: { tenantName?: string | null; inviterName?: string | null; roleId?: string; acceptUrl?: string; expiresAt?: string };
+}) {
+  const url = args.props?.acceptUrl ?? '#';
+  const workspace = args.props?.tenantName || args.brand.name;
+  const inviter = args.props?.inviterName ?? null;
+  const role = args.props?.roleId ?? null;
+  const expiresOn = args.props?.expiresAt ? args.props.expiresAt.slice(0, 10) : null;
+  const subject = `You're invited to join ${workspace}`;
+  const body = `${inviter ?? 'Someone'} invited you to join ${workspace} on ${args.brand.name}${role ? ` as ${role}` : ''}.`;
+  const note = expiresOn ? `This invitation expires on ${expiresOn}.` : 'This invitation expires in a few days.';
+  const html = `
+    <div>
+      <h2>${escapeHtml(subject)}</h2>
+      <p>${escapeHtml(body)}</p>
+      <p><a href="${escapeAttr(url)}" target="_blank" rel="noopener">Accept invitation</a></p>
+      <p>${escapeHtml(note)} If the button doesn’t work, copy and paste this URL into your browser:<br/>${escapeHtml(url)}</p>
+    </div>
+  `;
+  const text = `${subject}\n\n${body}\nOpen this link to accept:\n${url}\n\n${note}`;
+  return { subject, html, text } as const;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#039;');
+}
+function escapeAttr(s: string) {
+  return s.replace(/"/g, '&quot;');
+}
@@ -8,9 +8,28 @@ import {
   reconcileRazorpay,
 } from "@unisane/billing";
 import { metrics } from "@/src/platform/telemetry";
-import { getEnv, connectDb, getSignedUploadUrl, redis, getOutboxProvider, enqueueOutbox } from "@unisane/kernel";
-import { JobsService } from "@unisane/import-export";
-import { SubscriptionsService } from "@unisane/billing";
+import {
+  getEnv,
+  connectDb,
+  getSignedUploadUrl,
+  redis,
+  getOutboxProvider,
+  enqueueOutbox,
+  createSagaRecoveryWorker,
+  getSagaStoreProvider,
+  getProjectionManager,
+  db,
+  COLLECTIONS,
+} from "@unisane/kernel";
+import { createMongoSagaLease } from "@unisane/saga-mongodb";
+import { createMongoJobsWorker } from "@unisane/jobs-mongodb";
+import { JobsService, type ExportJobView } from "@unisane/import-export";
+import {
+  SubscriptionsService,
+  releaseExpiredRedemptions,
+  runDueDunning,
+  runMeteredBilling,
+} from "@unisane/billing";
 import {
   clearScopeOverride,
   listExpiredOverridesForCleanup,
@@ -19,6 +38,60 @@ import {
   cleanupOrphanedUploads,
   cleanupDeletedFiles,
 } from "@unisane/storage";
+import { backfillMediaVariants } from "@unisane/media";
+
+// Recovers sagas abandoned by a crashed instance; the lease keeps
+// overlapping runs on several instances from recovering the same sagas
+const sagaRecovery = createSagaRecoveryWorker({
+  lease: createMongoSagaLease({ collection: () => db().collection(COLLECTIONS.SAGA_LEASES) }),
+});
+
+/**
+ * Write the export file via presigned PUT and record the outcome.
+ * Rethrows after marking the export failed so job runners can retry.
+ */
+async function materializeExport(job: ExportJobView): Promise<void> {
+  try {
+    await JobsService.markExportRunning(job.id);
+    const upload = await getSignedUploadUrl(job.key, 300);
+    // Simple payload based on format
+    let body: string;
+    let contentType = "application/json";
+    if (job.format === "csv") {
+      contentType = "text/csv";
+      body = `id,name\n1,Example\n`;
+    } else {
+      body = JSON.stringify([{ id: 1, name: "Example" }]);
+    }
+    const res = await fetch(upload.url, {
+      method: "PUT",
+      headers: { "content-type": contentType },
+      body,
+    });
+    if (!res.ok) throw new Error(`upload failed: ${res.status}`);
+    await JobsService.markExportDone(job.id);
+  } catch (e) {
+    await JobsService.markExportFailed(
+      job.id,
+      (e as Error)?.message ?? "error"
+    );
+    throw e;
+  }
+}
+
+// Runs queued jobs when JOBS_PROVIDER=mongo. Handlers mirror the Inngest
+// functions in platform/inngest/functions.
+const mongoJobs = createMongoJobsWorker({
+  collection: () => db().collection(COLLECTIONS.JOBS),
+});
+mongoJobs.register<{ tenantId: string; jobId: string }>(
+  "app/export.requested",
+  async ({ tenantId, jobId }) => {
+    const job = await JobsService.getExportById(tenantId, jobId);
+    if (job) await materializeExport(job);
+  },
+  { concurrency: 2 }
+);
 
 type EmailPayload = {
   to: { email: string; name?: string };
@@ -197,32 +270,27 @@ export const registry: Record<
     for (const job of batch) {
       if (Date.now() > deadline) break;
       try {
-        await JobsService.markExportRunning(job.id);
-        const upload = await getSignedUploadUrl(job.key, 300);
-        // Simple payload based on format
-        let body: string;
-        let contentType = "application/json";
-        if (job.format === "csv") {
-          contentType = "text/csv";
-          body = `id,name\n1,Example\n`;
-        } else {
-          body = JSON.stringify([{ id: 1, name: "Example" }]);
-        }
-        const res = await fetch(upload.url, {
-          method: "PUT",
-          headers: { "content-type": contentType },
-          body,
-        });
-        if (!res.ok) throw new Error(`upload failed: ${res.status}`);
-        await JobsService.markExportDone(job.id);
-      } catch (e) {
-        await JobsService.markExportFailed(
-          job.id,
-          (e as Error)?.message ?? "error"
-        );
+        await materializeExport(job);
+      } catch {
+        // recorded on the export; it is not retried
       }
     }
   },
+  "jobs.process": async (ctx) => {
+    // Drain the MongoDB job queue until the deadline
+    if (getEnv().JOBS_PROVIDER !== "mongo") return;
+    await connectDb();
+    const deadline = ctx.deadlineMs ?? Date.now() + 25_000;
+    let processed = 0;
+    while (Date.now() < deadline) {
+      const ran = await mongoJobs.processBatch();
+      if (ran === 0) break;
+      processed += ran;
+    }
+    if (processed > 0) {
+      metrics.inc("jobs.processed", processed);
+    }
+  },
   "storage.cleanupOrphaned": async (_ctx) => {
     void _ctx;
     const result = await cleanupOrphanedUploads();
@@ -237,6 +305,68 @@ export const registry: Record<
       metrics.inc("storage.deleted_cleaned", 1, { cleaned: result.cleaned });
     }
   },
+  "media.backfillVariants": async (ctx) => {
+    // Generate variants missing on stored images (e.g. after adding one)
+    const result = await backfillMediaVariants({ deadlineMs: ctx.deadlineMs });
+    if (result.generated > 0) {
+      metrics.inc("media.variants_backfilled", result.generated, { checked: result.checked });
+    }
+  },
+  "billing.dunning": async (_ctx) => {
+    void _ctx;
+    // Advance dunning sagas whose next reminder/restriction/suspension is due
+    const result = await runDueDunning();
+    if (result.resumed > 0 || result.failed > 0) {
+      metrics.inc("billing.dunning_advanced", result.resumed, { failed: result.failed });
+    }
+  },
+  "billing.releaseRedemptions": async (_ctx) => {
+    void _ctx;
+    await connectDb();
+    // Return promotion codes reserved by abandoned checkouts to their limits
+    const result = await releaseExpiredRedemptions();
+    if (result.released > 0) {
+      metrics.inc("billing.redemptions_released", result.released);
+    }
+  },
+  "saga.recover": async (_ctx) => {
+    void _ctx;
+    await connectDb();
+    const result = await sagaRecovery.runOnce();
+    if (result && (result.recovered > 0 || result.failed > 0)) {
+      metrics.inc("saga.recovered", result.recovered, { failed: result.failed });
+    }
+  },
+  "saga.cleanup": async (_ctx) => {
+    void _ctx;
+    await connectDb();
+    // Drop completed and compensated sagas after 30 days
+    const olderThan = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const removed = (await getSagaStoreProvider()?.cleanup(olderThan)) ?? 0;
+    if (removed > 0) {
+      metrics.inc("saga.cleaned", removed);
+    }
+  },
+  "projections.catchUp": async (_ctx) => {
+    void _ctx;
+    if (!getEnv().EVENT_STORE_ENABLED) return;
+    await connectDb();
+    const results = await getProjectionManager().catchUpAll();
+    const applied = results.reduce((sum, result) => sum + result.applied, 0);
+    if (applied > 0) {
+      metrics.inc("projections.applied", applied);
+    }
+  },
+  "billing.metered": async (ctx) => {
+    // Report metered usage to the provider, or invoice closed months without one
+    const result = await runMeteredBilling({ deadlineMs: ctx.deadlineMs });
+    if (result.reported > 0 || result.invoiced > 0 || result.failed > 0) {
+      metrics.inc("billing.metered_usage", result.reported, {
+        invoiced: result.invoiced,
+        failed: result.failed,
+      });
+    }
+  },
   "flags.cleanupOverrides": async (_ctx) => {
     void _ctx;
     await connectDb();
@@ -258,6 +388,7 @@ export const registry: Record<
           scopeType,
           scopeId,
           actorIsSuperAdmin: true,
+          reason: "expired",
         });
       } catch {
         // best-effort cleanup; continue on failures
@@ -293,7 +424,7 @@ if (process.env.DISABLE_JOB_METRICS !== "1") {
   }
 }
 
-// Pro jobs (reconcile/dunning) — not registered by default in OSS.
+// Pro jobs (reconcile/dunning alerts) — not registered by default in OSS.
 // They can be enabled via SAASKIT_ENABLE_PRO_JOBS or registered by Pro packs.
 export function registerProJobs(target: typeof registry) {
   target["reconcile-billing-daily"] = async (_ctx) => {
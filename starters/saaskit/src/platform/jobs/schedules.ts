@@ -0,0 +1,58 @@
+import { defineSchedule, getEnv, getScheduler } from "@unisane/kernel";
+import { registry } from "./registry";
+
+/**
+ * Cron schedules for registry jobs (UTC). Registered with the kernel
+ * scheduler at bootstrap; it runs them when SCHEDULER_ENABLED is set.
+ * Deployments without a long-running process can instead call
+ * POST /api/rest/v1/admin/jobs/:name/run from an external cron.
+ */
+const SCHEDULES: Array<{ job: string; cron: string; description: string }> = [
+  { job: "deliver-notifications", cron: "* * * * *", description: "Deliver queued emails" },
+  { job: "deliver-webhooks", cron: "* * * * *", description: "Deliver queued webhooks" },
+  { job: "retry-dlq", cron: "*/30 * * * *", description: "Requeue dead outbox items" },
+  { job: "alert-dead-outbox", cron: "*/15 * * * *", description: "Alert on dead outbox items" },
+  { job: "usage-rollup-hourly", cron: "5 * * * *", description: "Roll up usage of the last hour" },
+  { job: "usage-rollup-daily", cron: "15 0 * * *", description: "Roll up usage of the last day" },
+  { job: "materialize-exports", cron: "*/5 * * * *", description: "Write queued exports" },
+  { job: "storage.cleanupOrphaned", cron: "0 3 * * *", description: "Remove abandoned uploads" },
+  { job: "storage.cleanupDeleted", cron: "30 3 * * *", description: "Purge deleted files" },
+  { job: "media.backfillVariants", cron: "0 4 * * *", description: "Generate missing image variants" },
+  { job: "billing.dunning", cron: "0 * * * *", description: "Advance due dunning steps" },
+  { job: "billing.metered", cron: "0 2 * * *", description: "Report metered usage" },
+  { job: "billing.releaseRedemptions", cron: "*/30 * * * *", description: "Release expired coupon reservations" },
+  { job: "flags.cleanupOverrides", cron: "*/15 * * * *", description: "Clear expired flag overrides" },
+  { job: "saga.recover", cron: "*/5 * * * *", description: "Recover abandoned sagas" },
+  { job: "saga.cleanup", cron: "0 5 * * *", description: "Remove finished sagas" },
+  { job: "projections.catchUp", cron: "* * * * *", description: "Apply new events to projections" },
+  { job: "jobs.process", cron: "* * * * *", description: "Run jobs from the MongoDB queue" },
+  { job: "reconcile-billing-daily", cron: "0 1 * * *", description: "Reconcile Stripe billing" },
+  { job: "reconcile-billing-razorpay-daily", cron: "20 1 * * *", description: "Reconcile Razorpay billing" },
+];
+
+/**
+ * Register schedules for the jobs present in the registry (Pro jobs are
+ * only there when enabled).
+ */
+export function registerSchedules(): void {
+  const scheduler = getScheduler();
+  const { JOBS_PROVIDER, EVENT_STORE_ENABLED } = getEnv();
+
+  for (const { job, cron, description } of SCHEDULES) {
+    if (!registry[job]) continue;
+    scheduler.register(
+      defineSchedule({
+        name: job,
+        cron,
+        description,
+        // The MongoDB queue only needs draining when it is the jobs provider,
+        // and projections only need catching up when events are stored
+        enabled:
+          (job !== "jobs.process" || JOBS_PROVIDER === "mongo") &&
+          (job !== "projections.catchUp" || EVENT_STORE_ENABLED),
+        // Look up at run time: the registry wraps jobs with metrics
+        handler: (ctx) => registry[job]!({ deadlineMs: ctx.deadlineMs }),
+      })
+    );
+  }
+}